@@ -0,0 +1,68 @@
+-- ==============================================
+-- BATCH JOBS
+-- ==============================================
+-- Bulk payment and refund instructions uploaded as CSV/JSON and processed by a
+-- Bull worker. Each row is a batch item with its own result, so a batch can
+-- partially fail and a retried job resumes where it stopped.
+
+CREATE TABLE IF NOT EXISTS batches (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    merchant_id UUID NOT NULL REFERENCES merchants(id) ON DELETE CASCADE,
+    environment VARCHAR(20) NOT NULL DEFAULT 'production', -- Environment of the key that submitted it
+
+    type VARCHAR(20) NOT NULL CHECK (type IN ('payment', 'refund')),
+    status VARCHAR(30) NOT NULL DEFAULT 'pending'
+        CHECK (status IN ('pending', 'processing', 'completed', 'completed_with_errors', 'failed')),
+    source_format VARCHAR(10) NOT NULL CHECK (source_format IN ('csv', 'json')),
+    filename VARCHAR(255),
+
+    -- Progress
+    total_items INTEGER NOT NULL DEFAULT 0,
+    processed_items INTEGER NOT NULL DEFAULT 0,
+    succeeded_items INTEGER NOT NULL DEFAULT 0,
+    failed_items INTEGER NOT NULL DEFAULT 0,
+
+    error TEXT, -- Set when the job itself failed
+    started_at TIMESTAMP WITH TIME ZONE,
+    completed_at TIMESTAMP WITH TIME ZONE,
+    metadata JSONB DEFAULT '{}'::jsonb,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_batches_merchant_id ON batches(merchant_id, created_at DESC);
+
+CREATE TABLE IF NOT EXISTS batch_items (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    batch_id UUID NOT NULL REFERENCES batches(id) ON DELETE CASCADE,
+    row_number INTEGER NOT NULL, -- 1-based position in the uploaded file
+    status VARCHAR(20) NOT NULL DEFAULT 'pending'
+        CHECK (status IN ('pending', 'succeeded', 'failed')),
+    input JSONB NOT NULL,
+    result JSONB, -- e.g. { transaction_id, status } or { refund_id, status }
+    error_code VARCHAR(100),
+    error_message TEXT,
+    processed_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE (batch_id, row_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_batch_items_pending ON batch_items(batch_id, row_number)
+    WHERE status = 'pending';
+
+CREATE TRIGGER update_batches_updated_at BEFORE UPDATE ON batches
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE batches ENABLE ROW LEVEL SECURITY;
+ALTER TABLE batch_items ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Service role can do everything (for backend operations)
+CREATE POLICY "Service role has full access to batches"
+    ON batches
+    FOR ALL
+    USING (current_setting('role', true) = 'service_role');
+
+CREATE POLICY "Service role has full access to batch items"
+    ON batch_items
+    FOR ALL
+    USING (current_setting('role', true) = 'service_role');
@@ -0,0 +1,61 @@
+-- ==============================================
+-- CUSTOMERS API AND SAVED PAYMENT METHODS
+-- ==============================================
+-- Customers become a first-class API resource. Payment methods are saved with
+-- SetupIntents (recorded by the setup_intent.succeeded webhook) and can then be
+-- charged off-session with POST /api/payments { customer_id, payment_method_id }.
+
+ALTER TABLE customers
+ADD COLUMN IF NOT EXISTS address JSONB,
+ADD COLUMN IF NOT EXISTS description TEXT;
+
+CREATE TABLE IF NOT EXISTS customer_payment_methods (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    merchant_id UUID NOT NULL REFERENCES merchants(id) ON DELETE CASCADE,
+    customer_id UUID NOT NULL REFERENCES customers(id) ON DELETE CASCADE,
+
+    -- Processor
+    processor VARCHAR(20) NOT NULL DEFAULT 'stripe',
+    stripe_payment_method_id VARCHAR(255) NOT NULL, -- Processor payment method ID (pm_...)
+    stripe_setup_intent_id VARCHAR(255), -- SetupIntent that saved it
+
+    -- Details
+    type VARCHAR(50) NOT NULL, -- Our method name (card, sepa_debit, ...)
+    card_brand VARCHAR(50),
+    card_last4 VARCHAR(4),
+    card_exp_month INTEGER,
+    card_exp_year INTEGER,
+    card_country VARCHAR(2),
+    billing_details JSONB DEFAULT '{}'::jsonb,
+
+    -- Timestamps
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    UNIQUE(stripe_payment_method_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_customer_payment_methods_customer_id ON customer_payment_methods(customer_id);
+CREATE INDEX IF NOT EXISTS idx_customer_payment_methods_merchant_id ON customer_payment_methods(merchant_id);
+
+ALTER TABLE customers
+ADD COLUMN IF NOT EXISTS default_payment_method_id UUID REFERENCES customer_payment_methods(id) ON DELETE SET NULL;
+
+CREATE TRIGGER update_customer_payment_methods_updated_at BEFORE UPDATE ON customer_payment_methods
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Off-session charges record the saved method they used
+ALTER TABLE transactions
+ADD COLUMN IF NOT EXISTS customer_payment_method_id UUID REFERENCES customer_payment_methods(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS off_session BOOLEAN DEFAULT FALSE;
+
+ALTER TABLE customer_payment_methods ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Service role can do everything (for backend operations)
+CREATE POLICY "Service role has full access to customer payment methods"
+    ON customer_payment_methods
+    FOR ALL
+    USING (current_setting('role', true) = 'service_role');
+
+COMMENT ON TABLE customer_payment_methods IS 'Payment methods saved to customers with SetupIntents, chargeable off-session';
+COMMENT ON COLUMN customers.default_payment_method_id IS 'Saved method used when an off-session payment names only the customer';
@@ -0,0 +1,328 @@
+-- ==============================================
+-- DOUBLE-ENTRY LEDGER
+-- ==============================================
+-- ledger_entries were single-sided: add_ledger_entry wrote a credit or debit
+-- and bumped merchants.balance / pending_balance, so money could appear or
+-- vanish with no counter-entry. Money now moves between accounts in journals
+-- whose postings sum to zero, and balances are the sum of an account's postings.
+--
+-- Accounts (one per owner, type and currency):
+--   merchant_available  funds the merchant can be paid out
+--   merchant_pending    funds the merchant has earned but can't withdraw yet
+--   merchant_reserve    funds withheld from the merchant as a reserve
+--   processor_clearing  the merchant's funds held at the processor (its
+--                       connected account balance); goes negative as funds
+--                       are credited to the merchant and back up as they leave
+--   platform_fees       platform revenue (one per currency, no merchant)
+--
+-- A posting's amount is signed: an account's balance is SUM(amount).
+
+CREATE TABLE IF NOT EXISTS ledger_accounts (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    merchant_id UUID REFERENCES merchants(id) ON DELETE CASCADE, -- NULL for platform accounts
+    type VARCHAR(30) NOT NULL,
+    currency VARCHAR(3) NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    CONSTRAINT valid_ledger_account_type CHECK (type IN (
+        'merchant_available', 'merchant_pending', 'merchant_reserve', 'processor_clearing', 'platform_fees'
+    )),
+    CONSTRAINT ledger_account_owner CHECK ((type = 'platform_fees') = (merchant_id IS NULL))
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_ledger_accounts_merchant
+    ON ledger_accounts(merchant_id, type, currency) WHERE merchant_id IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_ledger_accounts_platform
+    ON ledger_accounts(type, currency) WHERE merchant_id IS NULL;
+
+CREATE TABLE IF NOT EXISTS ledger_journals (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    merchant_id UUID NOT NULL REFERENCES merchants(id) ON DELETE CASCADE,
+    source VARCHAR(30) NOT NULL, -- 'payment', 'refund', 'dispute', 'split', 'payout', 'release', 'adjustment'
+    description TEXT,
+    currency VARCHAR(3) NOT NULL,
+    amount INTEGER NOT NULL, -- Total moved (sum of the positive postings), in cents
+    metadata JSONB DEFAULT '{}'::jsonb, -- transaction_id, refund_id, dispute_id, transfer_id, ...
+    idempotency_key VARCHAR(255),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_ledger_journals_merchant ON ledger_journals(merchant_id, created_at DESC);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_ledger_journals_idempotency_key
+    ON ledger_journals(merchant_id, idempotency_key)
+    WHERE idempotency_key IS NOT NULL;
+
+CREATE TABLE IF NOT EXISTS ledger_postings (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    journal_id UUID NOT NULL REFERENCES ledger_journals(id) ON DELETE CASCADE,
+    account_id UUID NOT NULL REFERENCES ledger_accounts(id),
+    amount INTEGER NOT NULL, -- Signed, in cents
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    CONSTRAINT nonzero_ledger_posting CHECK (amount <> 0)
+);
+
+CREATE INDEX IF NOT EXISTS idx_ledger_postings_journal ON ledger_postings(journal_id);
+CREATE INDEX IF NOT EXISTS idx_ledger_postings_account ON ledger_postings(account_id, created_at);
+
+-- A journal's postings must sum to zero once its transaction commits
+CREATE OR REPLACE FUNCTION check_ledger_journal_balanced()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_total BIGINT;
+BEGIN
+    SELECT COALESCE(SUM(amount), 0) INTO v_total
+    FROM ledger_postings
+    WHERE journal_id = NEW.journal_id;
+
+    IF v_total <> 0 THEN
+        RAISE EXCEPTION 'Ledger journal % is unbalanced by %', NEW.journal_id, v_total;
+    END IF;
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS ledger_postings_balanced ON ledger_postings;
+CREATE CONSTRAINT TRIGGER ledger_postings_balanced
+    AFTER INSERT ON ledger_postings
+    DEFERRABLE INITIALLY DEFERRED
+    FOR EACH ROW EXECUTE FUNCTION check_ledger_journal_balanced();
+
+-- Postings are append-only: corrections are new journals
+CREATE OR REPLACE FUNCTION prevent_ledger_posting_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+    RAISE EXCEPTION 'Ledger postings cannot be changed; post a correcting journal instead';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS ledger_postings_append_only ON ledger_postings;
+CREATE TRIGGER ledger_postings_append_only
+    BEFORE UPDATE ON ledger_postings
+    FOR EACH ROW EXECUTE FUNCTION prevent_ledger_posting_changes();
+
+-- Balances are derived from postings
+CREATE OR REPLACE VIEW ledger_account_balances AS
+SELECT
+    a.id AS account_id,
+    a.merchant_id,
+    a.type,
+    a.currency,
+    COALESCE(SUM(p.amount), 0)::BIGINT AS balance
+FROM ledger_accounts a
+LEFT JOIN ledger_postings p ON p.account_id = a.id
+GROUP BY a.id, a.merchant_id, a.type, a.currency;
+
+-- Get (or open) an account
+CREATE OR REPLACE FUNCTION ledger_account_id(
+    p_merchant_id UUID,
+    p_type VARCHAR,
+    p_currency VARCHAR
+) RETURNS UUID AS $$
+DECLARE
+    v_owner UUID := CASE WHEN p_type = 'platform_fees' THEN NULL ELSE p_merchant_id END;
+    v_account_id UUID;
+BEGIN
+    SELECT id INTO v_account_id
+    FROM ledger_accounts
+    WHERE merchant_id IS NOT DISTINCT FROM v_owner AND type = p_type AND currency = UPPER(p_currency);
+
+    IF v_account_id IS NULL THEN
+        INSERT INTO ledger_accounts (merchant_id, type, currency)
+        VALUES (v_owner, p_type, UPPER(p_currency))
+        ON CONFLICT DO NOTHING
+        RETURNING id INTO v_account_id;
+
+        -- Opened concurrently
+        IF v_account_id IS NULL THEN
+            SELECT id INTO v_account_id
+            FROM ledger_accounts
+            WHERE merchant_id IS NOT DISTINCT FROM v_owner AND type = p_type AND currency = UPPER(p_currency);
+        END IF;
+    END IF;
+
+    RETURN v_account_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Post a balanced journal: p_postings is [{ "account": <type>, "amount": <signed cents> }]
+-- With an idempotency key the journal is posted at most once per merchant;
+-- repeats return the original journal with duplicate: true.
+CREATE OR REPLACE FUNCTION post_ledger_journal(
+    p_merchant_id UUID,
+    p_source VARCHAR,
+    p_description TEXT,
+    p_currency VARCHAR,
+    p_postings JSONB,
+    p_metadata JSONB DEFAULT '{}'::jsonb,
+    p_idempotency_key VARCHAR DEFAULT NULL
+) RETURNS JSONB AS $$
+DECLARE
+    v_journal_id UUID;
+    v_total BIGINT;
+    v_moved BIGINT;
+    v_posting JSONB;
+BEGIN
+    SELECT COALESCE(SUM((p->>'amount')::INTEGER), 0),
+           COALESCE(SUM(GREATEST((p->>'amount')::INTEGER, 0)), 0)
+    INTO v_total, v_moved
+    FROM jsonb_array_elements(p_postings) p;
+
+    IF jsonb_array_length(p_postings) < 2 OR v_total <> 0 THEN
+        RAISE EXCEPTION 'Ledger journal postings must sum to zero (got %)', v_total;
+    END IF;
+
+    INSERT INTO ledger_journals (merchant_id, source, description, currency, amount, metadata, idempotency_key)
+    VALUES (p_merchant_id, p_source, p_description, UPPER(p_currency), v_moved, COALESCE(p_metadata, '{}'::jsonb), p_idempotency_key)
+    ON CONFLICT (merchant_id, idempotency_key) WHERE idempotency_key IS NOT NULL DO NOTHING
+    RETURNING id INTO v_journal_id;
+
+    -- Already posted
+    IF v_journal_id IS NULL THEN
+        SELECT id INTO v_journal_id
+        FROM ledger_journals
+        WHERE merchant_id = p_merchant_id AND idempotency_key = p_idempotency_key;
+
+        RETURN jsonb_build_object('journal_id', v_journal_id, 'duplicate', true);
+    END IF;
+
+    FOR v_posting IN SELECT * FROM jsonb_array_elements(p_postings) LOOP
+        INSERT INTO ledger_postings (journal_id, account_id, amount)
+        VALUES (
+            v_journal_id,
+            ledger_account_id(p_merchant_id, v_posting->>'account', p_currency),
+            (v_posting->>'amount')::INTEGER
+        );
+    END LOOP;
+
+    RETURN jsonb_build_object('journal_id', v_journal_id);
+END;
+$$ LANGUAGE plpgsql;
+
+-- ----------------------------------------------
+-- Migrate ledger_entries
+-- ----------------------------------------------
+-- Each entry becomes a journal with the same id, created_at and idempotency
+-- key: the merchant side on merchant_available or merchant_pending, the
+-- counter-posting on processor_clearing (or platform_fees for returned
+-- platform fees). Failed entries never moved the balance and are skipped.
+
+INSERT INTO ledger_accounts (merchant_id, type, currency)
+SELECT DISTINCT merchant_id, account_type, UPPER(currency)
+FROM ledger_entries,
+LATERAL (VALUES
+    (CASE WHEN status = 'pending' THEN 'merchant_pending' ELSE 'merchant_available' END),
+    ('processor_clearing')
+) AS accounts(account_type)
+WHERE status IN ('pending', 'available')
+ON CONFLICT DO NOTHING;
+
+INSERT INTO ledger_accounts (merchant_id, type, currency)
+SELECT DISTINCT NULL::UUID, 'platform_fees', UPPER(currency)
+FROM ledger_entries
+WHERE status IN ('pending', 'available') AND idempotency_key LIKE 'refund_fee_%'
+ON CONFLICT DO NOTHING;
+
+WITH migrated AS (
+    INSERT INTO ledger_journals (id, merchant_id, source, description, currency, amount, metadata, idempotency_key, created_at)
+    SELECT
+        e.id,
+        e.merchant_id,
+        CASE
+            WHEN e.metadata ? 'dispute_id' THEN 'dispute'
+            WHEN e.metadata ? 'split_id' THEN 'split'
+            WHEN e.metadata ? 'refund_id' OR e.metadata ? 'charge_id' OR e.metadata ? 'reversed_entry_id' THEN 'refund'
+            WHEN e.metadata ? 'transfer_id' THEN 'payout'
+            WHEN e.metadata ? 'payment_intent_id' THEN 'payment'
+            WHEN e.description LIKE 'Release pending funds%' OR e.description LIKE 'Funds released%' THEN 'release'
+            ELSE 'adjustment'
+        END,
+        e.description,
+        UPPER(e.currency),
+        e.amount,
+        COALESCE(e.metadata, '{}'::jsonb),
+        e.idempotency_key,
+        e.created_at
+    FROM ledger_entries e
+    WHERE e.status IN ('pending', 'available')
+    ON CONFLICT (id) DO NOTHING
+    RETURNING id
+),
+sides AS (
+    SELECT
+        e.id AS journal_id,
+        e.merchant_id,
+        UPPER(e.currency) AS currency,
+        e.created_at,
+        CASE WHEN e.type = 'credit' THEN e.amount ELSE -e.amount END AS amount,
+        CASE WHEN e.status = 'pending' THEN 'merchant_pending' ELSE 'merchant_available' END AS merchant_account,
+        CASE WHEN e.idempotency_key LIKE 'refund_fee_%' THEN 'platform_fees' ELSE 'processor_clearing' END AS counter_account
+    FROM ledger_entries e
+    JOIN migrated m ON m.id = e.id
+)
+INSERT INTO ledger_postings (journal_id, account_id, amount, created_at)
+SELECT s.journal_id, a.id, s.amount, s.created_at
+FROM sides s
+JOIN ledger_accounts a ON a.merchant_id = s.merchant_id AND a.type = s.merchant_account AND a.currency = s.currency
+WHERE s.amount <> 0
+UNION ALL
+SELECT s.journal_id, a.id, -s.amount, s.created_at
+FROM sides s
+JOIN ledger_accounts a ON a.merchant_id IS NOT DISTINCT FROM (CASE WHEN s.counter_account = 'platform_fees' THEN NULL ELSE s.merchant_id END)
+    AND a.type = s.counter_account AND a.currency = s.currency
+WHERE s.amount <> 0;
+
+-- Single-sided writes and stored balances are gone; ledger_entries is kept read-only for reference
+DROP FUNCTION IF EXISTS add_ledger_entry(UUID, VARCHAR, INTEGER, VARCHAR, TEXT, VARCHAR, JSONB, VARCHAR);
+DROP FUNCTION IF EXISTS recalculate_merchant_balance(UUID);
+
+ALTER TABLE merchants DROP COLUMN IF EXISTS balance;
+ALTER TABLE merchants DROP COLUMN IF EXISTS pending_balance;
+
+COMMENT ON TABLE ledger_entries IS 'Single-sided ledger superseded by ledger_journals/ledger_postings (add-double-entry-ledger.sql); no longer written';
+
+-- ----------------------------------------------
+-- Row Level Security
+-- ----------------------------------------------
+ALTER TABLE ledger_accounts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE ledger_journals ENABLE ROW LEVEL SECURITY;
+ALTER TABLE ledger_postings ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Merchants can only view their own accounts, journals and postings
+CREATE POLICY "Merchants can view own ledger accounts"
+    ON ledger_accounts
+    FOR SELECT
+    USING (merchant_id::TEXT = current_setting('app.current_merchant_id', true));
+
+CREATE POLICY "Merchants can view own ledger journals"
+    ON ledger_journals
+    FOR SELECT
+    USING (merchant_id::TEXT = current_setting('app.current_merchant_id', true));
+
+CREATE POLICY "Merchants can view own ledger postings"
+    ON ledger_postings
+    FOR SELECT
+    USING (journal_id IN (
+        SELECT id FROM ledger_journals
+        WHERE merchant_id::TEXT = current_setting('app.current_merchant_id', true)
+    ));
+
+-- Policy: Service role can do everything (for backend operations)
+CREATE POLICY "Service role has full access to ledger accounts"
+    ON ledger_accounts
+    FOR ALL
+    USING (current_setting('role', true) = 'service_role');
+
+CREATE POLICY "Service role has full access to ledger journals"
+    ON ledger_journals
+    FOR ALL
+    USING (current_setting('role', true) = 'service_role');
+
+CREATE POLICY "Service role has full access to ledger postings"
+    ON ledger_postings
+    FOR ALL
+    USING (current_setting('role', true) = 'service_role');
+
+COMMENT ON TABLE ledger_journals IS 'Balanced ledger transactions; each journal''s postings sum to zero';
+COMMENT ON TABLE ledger_postings IS 'Signed amounts on ledger accounts; an account''s balance is the sum of its postings';
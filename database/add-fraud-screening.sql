@@ -0,0 +1,131 @@
+-- ==============================================
+-- FRAUD SCREENING
+-- ==============================================
+-- Payments are screened against the merchant's risk rules before the payment
+-- intent is created. Every attempt is recorded in risk_assessments (blocked
+-- attempts never reach the processor and have no transaction), which also
+-- feeds the velocity rules.
+
+CREATE TABLE IF NOT EXISTS fraud_rules (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    merchant_id UUID NOT NULL REFERENCES merchants(id) ON DELETE CASCADE,
+
+    -- Rule
+    name VARCHAR(255) NOT NULL,
+    type VARCHAR(30) NOT NULL, -- 'velocity', 'amount_outlier', 'country_mismatch', 'list'
+    action VARCHAR(10) NOT NULL, -- 'allow', 'review', 'block'
+    config JSONB NOT NULL DEFAULT '{}'::jsonb, -- Per-type settings (window, multiplier, list values, ...)
+    score INTEGER NOT NULL DEFAULT 25, -- Added to the payment's risk score when the rule triggers
+    is_active BOOLEAN NOT NULL DEFAULT TRUE,
+
+    -- Timestamps
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    CONSTRAINT valid_fraud_rule_type CHECK (type IN ('velocity', 'amount_outlier', 'country_mismatch', 'list')),
+    CONSTRAINT valid_fraud_rule_action CHECK (action IN ('allow', 'review', 'block')),
+    CONSTRAINT valid_fraud_rule_score CHECK (score >= 0 AND score <= 100)
+);
+
+CREATE INDEX IF NOT EXISTS idx_fraud_rules_merchant_id ON fraud_rules(merchant_id);
+
+CREATE TRIGGER update_fraud_rules_updated_at BEFORE UPDATE ON fraud_rules
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TABLE IF NOT EXISTS risk_assessments (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    merchant_id UUID NOT NULL REFERENCES merchants(id) ON DELETE CASCADE,
+    transaction_id UUID REFERENCES transactions(id) ON DELETE SET NULL, -- NULL for blocked attempts
+    environment VARCHAR(20) NOT NULL DEFAULT 'production',
+
+    -- Outcome
+    outcome VARCHAR(10) NOT NULL, -- 'allow', 'review', 'block'
+    risk_score INTEGER NOT NULL DEFAULT 0,
+    triggered_rules JSONB NOT NULL DEFAULT '[]'::jsonb, -- [{ rule_id, name, type, action, score, reason }]
+
+    -- Screened attempt
+    amount INTEGER NOT NULL,
+    currency VARCHAR(3) NOT NULL,
+    customer_id UUID REFERENCES customers(id) ON DELETE SET NULL,
+    customer_email VARCHAR(255),
+    ip_address VARCHAR(45),
+    customer_country VARCHAR(2),
+    card_fingerprint VARCHAR(255),
+    card_country VARCHAR(2),
+
+    -- Timestamp
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    CONSTRAINT valid_risk_assessment_outcome CHECK (outcome IN ('allow', 'review', 'block'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_risk_assessments_merchant_created ON risk_assessments(merchant_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_risk_assessments_outcome ON risk_assessments(merchant_id, outcome, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_risk_assessments_transaction_id ON risk_assessments(transaction_id);
+
+-- Velocity lookups
+CREATE INDEX IF NOT EXISTS idx_risk_assessments_email ON risk_assessments(merchant_id, customer_email, created_at)
+    WHERE customer_email IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_risk_assessments_ip ON risk_assessments(merchant_id, ip_address, created_at)
+    WHERE ip_address IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_risk_assessments_fingerprint ON risk_assessments(merchant_id, card_fingerprint, created_at)
+    WHERE card_fingerprint IS NOT NULL;
+
+ALTER TABLE transactions
+ADD COLUMN IF NOT EXISTS risk_assessment_id UUID REFERENCES risk_assessments(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS risk_score INTEGER,
+ADD COLUMN IF NOT EXISTS risk_outcome VARCHAR(10),
+ADD COLUMN IF NOT EXISTS risk_rules JSONB DEFAULT '[]'::jsonb,
+ADD COLUMN IF NOT EXISTS customer_ip_address VARCHAR(45);
+
+-- Card fingerprints identify the same card across customers and saved methods
+ALTER TABLE customer_payment_methods
+ADD COLUMN IF NOT EXISTS card_fingerprint VARCHAR(255);
+
+-- Amount statistics of a merchant's settled payments, for the amount_outlier rule
+CREATE OR REPLACE FUNCTION merchant_payment_amount_stats(
+    p_merchant_id UUID,
+    p_currency VARCHAR,
+    p_environment VARCHAR,
+    p_since TIMESTAMP WITH TIME ZONE
+) RETURNS JSONB AS $$
+    SELECT jsonb_build_object(
+        'count', COUNT(*),
+        'mean', COALESCE(AVG(amount), 0),
+        'stddev', COALESCE(STDDEV_SAMP(amount), 0)
+    )
+    FROM transactions
+    WHERE merchant_id = p_merchant_id
+      AND currency = p_currency
+      AND COALESCE(metadata->>'environment', 'production') = p_environment
+      AND status IN ('succeeded', 'refunded')
+      AND created_at >= p_since;
+$$ LANGUAGE sql STABLE;
+
+ALTER TABLE fraud_rules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE risk_assessments ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Merchants can only view their own rules and assessments
+CREATE POLICY "Merchants can view own fraud rules"
+    ON fraud_rules
+    FOR SELECT
+    USING (merchant_id::TEXT = current_setting('app.current_merchant_id', true));
+
+CREATE POLICY "Merchants can view own risk assessments"
+    ON risk_assessments
+    FOR SELECT
+    USING (merchant_id::TEXT = current_setting('app.current_merchant_id', true));
+
+-- Policy: Service role can do everything (for backend operations)
+CREATE POLICY "Service role has full access to fraud rules"
+    ON fraud_rules
+    FOR ALL
+    USING (current_setting('role', true) = 'service_role');
+
+CREATE POLICY "Service role has full access to risk assessments"
+    ON risk_assessments
+    FOR ALL
+    USING (current_setting('role', true) = 'service_role');
+
+COMMENT ON TABLE fraud_rules IS 'Merchant risk rules evaluated before a payment intent is created';
+COMMENT ON TABLE risk_assessments IS 'One row per screened payment attempt, including blocked attempts';
@@ -0,0 +1,55 @@
+-- ==============================================
+-- IDEMPOTENCY KEYS
+-- ==============================================
+-- Stores the original response for each Idempotency-Key so retried
+-- mutating API requests replay the first result instead of re-executing.
+
+CREATE TABLE IF NOT EXISTS idempotency_keys (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    merchant_id UUID NOT NULL REFERENCES merchants(id) ON DELETE CASCADE,
+
+    -- Key supplied by the client in the Idempotency-Key header
+    idempotency_key VARCHAR(255) NOT NULL,
+
+    -- Request identity
+    request_method VARCHAR(10) NOT NULL,
+    request_path VARCHAR(500) NOT NULL,
+    request_fingerprint VARCHAR(64) NOT NULL, -- SHA-256 of method, path and body
+
+    -- Stored response
+    status VARCHAR(50) NOT NULL DEFAULT 'in_progress', -- in_progress, completed
+    response_status INTEGER,
+    response_body JSONB,
+
+    -- Timestamps
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT (NOW() + INTERVAL '24 hours'),
+
+    CONSTRAINT valid_idempotency_status CHECK (status IN ('in_progress', 'completed')),
+    UNIQUE(merchant_id, idempotency_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_idempotency_keys_merchant_key ON idempotency_keys(merchant_id, idempotency_key);
+CREATE INDEX IF NOT EXISTS idx_idempotency_keys_expires_at ON idempotency_keys(expires_at);
+
+DROP TRIGGER IF EXISTS update_idempotency_keys_updated_at ON idempotency_keys;
+CREATE TRIGGER update_idempotency_keys_updated_at BEFORE UPDATE ON idempotency_keys
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE idempotency_keys ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Service role can do everything (for backend operations)
+CREATE POLICY "Service role has full access to idempotency keys"
+    ON idempotency_keys
+    FOR ALL
+    USING (current_setting('role', true) = 'service_role');
+
+COMMENT ON TABLE idempotency_keys IS 'Replay store for Idempotency-Key headers on mutating API routes (24h retention)';
+
+-- Idempotency keys are chosen by merchants, so uniqueness on transactions
+-- must be per merchant rather than global
+ALTER TABLE transactions DROP CONSTRAINT IF EXISTS transactions_idempotency_key_key;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_transactions_merchant_idempotency_key
+    ON transactions(merchant_id, idempotency_key)
+    WHERE idempotency_key IS NOT NULL;
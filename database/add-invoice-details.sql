@@ -0,0 +1,48 @@
+-- ==============================================
+-- INVOICES: LINE ITEMS, DISCOUNTS, TAX, HOSTED PAGE
+-- ==============================================
+-- Extends the subscription invoices with merchant-issued invoices: per-merchant
+-- numbering, quantities, discounts, tax lines, due dates and a public hosted page.
+
+ALTER TABLE invoices
+ADD COLUMN IF NOT EXISTS number VARCHAR(50), -- Assigned when finalized
+ADD COLUMN IF NOT EXISTS description TEXT,
+ADD COLUMN IF NOT EXISTS footer TEXT,
+ADD COLUMN IF NOT EXISTS environment VARCHAR(20) NOT NULL DEFAULT 'production',
+
+-- charge_automatically: charged to the customer's saved method; send_invoice: paid on the hosted page
+ADD COLUMN IF NOT EXISTS collection_method VARCHAR(30) NOT NULL DEFAULT 'charge_automatically'
+    CHECK (collection_method IN ('charge_automatically', 'send_invoice')),
+ADD COLUMN IF NOT EXISTS due_date TIMESTAMP WITH TIME ZONE,
+
+-- [{ description, percent_off | amount_off, amount }] applied to the subtotal
+ADD COLUMN IF NOT EXISTS discounts JSONB DEFAULT '[]'::jsonb,
+ADD COLUMN IF NOT EXISTS total_discount_amount INTEGER NOT NULL DEFAULT 0,
+-- [{ display_name, percentage, amount }] applied after discounts
+ADD COLUMN IF NOT EXISTS tax_lines JSONB DEFAULT '[]'::jsonb,
+ADD COLUMN IF NOT EXISTS total_tax_amount INTEGER NOT NULL DEFAULT 0,
+
+-- Public hosted invoice page: /invoice/:hosted_token
+ADD COLUMN IF NOT EXISTS hosted_token VARCHAR(64) UNIQUE,
+ADD COLUMN IF NOT EXISTS sent_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS marked_uncollectible_at TIMESTAMP WITH TIME ZONE;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_invoices_merchant_number ON invoices(merchant_id, number)
+    WHERE number IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_invoices_customer_id ON invoices(customer_id);
+
+ALTER TABLE invoice_line_items
+ADD COLUMN IF NOT EXISTS quantity INTEGER NOT NULL DEFAULT 1 CHECK (quantity > 0),
+ADD COLUMN IF NOT EXISTS unit_amount INTEGER; -- amount = quantity * unit_amount
+
+-- Per-merchant invoice number sequence
+ALTER TABLE merchants
+ADD COLUMN IF NOT EXISTS invoice_sequence INTEGER NOT NULL DEFAULT 0;
+
+-- RPC to take the next invoice number atomically
+CREATE OR REPLACE FUNCTION next_invoice_number(p_merchant_id UUID) RETURNS INTEGER AS $$
+    UPDATE merchants
+    SET invoice_sequence = invoice_sequence + 1
+    WHERE id = p_merchant_id
+    RETURNING invoice_sequence;
+$$ LANGUAGE sql;
@@ -0,0 +1,42 @@
+-- ==============================================
+-- LEDGER HISTORY
+-- ==============================================
+-- One row per posting on a merchant's own accounts (available, pending,
+-- reserve) with the balance of that account after the posting, for
+-- GET /api/ledger/entries and its CSV export. Counter-postings on
+-- processor_clearing and platform_fees are internal and not listed.
+--
+-- The running balance is a window over the whole account, so filtering the
+-- view (by date, type, source, ...) doesn't change it. Postings of one journal
+-- share a timestamp; the id breaks ties in the same order the API lists them.
+
+CREATE OR REPLACE VIEW merchant_ledger_entries AS
+SELECT
+    p.id,
+    p.journal_id,
+    a.merchant_id,
+    a.type AS account,
+    CASE a.type
+        WHEN 'merchant_available' THEN 'available'
+        WHEN 'merchant_pending' THEN 'pending'
+        WHEN 'merchant_reserve' THEN 'reserve'
+    END AS status,
+    CASE WHEN p.amount > 0 THEN 'credit' ELSE 'debit' END AS type,
+    ABS(p.amount) AS amount,
+    a.currency,
+    SUM(p.amount) OVER (
+        PARTITION BY a.merchant_id, p.account_id
+        ORDER BY p.created_at, p.id
+    )::BIGINT AS running_balance,
+    j.source,
+    j.description,
+    j.metadata,
+    p.created_at
+FROM ledger_postings p
+JOIN ledger_accounts a ON a.id = p.account_id
+JOIN ledger_journals j ON j.id = p.journal_id
+WHERE a.type IN ('merchant_available', 'merchant_pending', 'merchant_reserve');
+
+CREATE INDEX IF NOT EXISTS idx_ledger_journals_source ON ledger_journals(merchant_id, source);
+
+COMMENT ON VIEW merchant_ledger_entries IS 'Postings on merchant accounts with the account''s running balance after each posting';
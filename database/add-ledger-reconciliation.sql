@@ -0,0 +1,95 @@
+-- ==============================================
+-- LEDGER RECONCILIATION
+-- ==============================================
+-- A reconciliation run compares one merchant's ledger entries over a period
+-- with the processor's balance transactions (Stripe, or a fixture file
+-- locally) matched by payment intent, refund, dispute or transfer id, and
+-- records what didn't line up:
+--   missing_in_ledger     the processor moved money the ledger never posted
+--   missing_at_processor  the ledger posted money the processor never moved
+--   duplicate             one object posted (or moved) more than once
+--   amount_mismatch       both sides exist but amounts or currencies differ
+
+CREATE TABLE IF NOT EXISTS reconciliation_runs (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    merchant_id UUID NOT NULL REFERENCES merchants(id) ON DELETE CASCADE,
+
+    -- Run
+    source VARCHAR(20) NOT NULL, -- 'stripe', 'fixture'
+    trigger VARCHAR(20) NOT NULL DEFAULT 'scheduled', -- 'scheduled', 'manual'
+    status VARCHAR(20) NOT NULL DEFAULT 'running', -- 'running', 'completed', 'failed'
+    period_start TIMESTAMP WITH TIME ZONE NOT NULL,
+    period_end TIMESTAMP WITH TIME ZONE NOT NULL,
+
+    -- Results
+    processor_transactions INTEGER NOT NULL DEFAULT 0,
+    ledger_entries INTEGER NOT NULL DEFAULT 0,
+    matched INTEGER NOT NULL DEFAULT 0,
+    discrepancies INTEGER NOT NULL DEFAULT 0,
+    error_message TEXT,
+
+    -- Timestamps
+    started_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    completed_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    CONSTRAINT valid_reconciliation_run_status CHECK (status IN ('running', 'completed', 'failed')),
+    CONSTRAINT valid_reconciliation_period CHECK (period_end > period_start)
+);
+
+CREATE INDEX IF NOT EXISTS idx_reconciliation_runs_merchant ON reconciliation_runs(merchant_id, created_at DESC);
+
+CREATE TABLE IF NOT EXISTS reconciliation_discrepancies (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    run_id UUID NOT NULL REFERENCES reconciliation_runs(id) ON DELETE CASCADE,
+    merchant_id UUID NOT NULL REFERENCES merchants(id) ON DELETE CASCADE,
+
+    type VARCHAR(30) NOT NULL,
+    object_type VARCHAR(20) NOT NULL, -- 'payment', 'refund', 'dispute', 'transfer'
+    object_id VARCHAR(255) NOT NULL, -- Processor id (pi_, re_, dp_, tr_)
+    currency VARCHAR(3),
+    processor_amount INTEGER, -- Total across the processor's balance transactions, NULL when none
+    ledger_amount INTEGER, -- Total across the ledger entries, NULL when none
+    balance_transaction_ids JSONB NOT NULL DEFAULT '[]'::jsonb,
+    ledger_entry_ids JSONB NOT NULL DEFAULT '[]'::jsonb,
+
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    CONSTRAINT valid_reconciliation_discrepancy_type
+        CHECK (type IN ('missing_in_ledger', 'missing_at_processor', 'duplicate', 'amount_mismatch'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_reconciliation_discrepancies_run ON reconciliation_discrepancies(run_id);
+CREATE INDEX IF NOT EXISTS idx_reconciliation_discrepancies_merchant ON reconciliation_discrepancies(merchant_id, created_at DESC);
+
+CREATE TRIGGER update_reconciliation_runs_updated_at BEFORE UPDATE ON reconciliation_runs
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE reconciliation_runs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE reconciliation_discrepancies ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Merchants can only view their own runs and discrepancies
+CREATE POLICY "Merchants can view own reconciliation runs"
+    ON reconciliation_runs
+    FOR SELECT
+    USING (merchant_id::TEXT = current_setting('app.current_merchant_id', true));
+
+CREATE POLICY "Merchants can view own reconciliation discrepancies"
+    ON reconciliation_discrepancies
+    FOR SELECT
+    USING (merchant_id::TEXT = current_setting('app.current_merchant_id', true));
+
+-- Policy: Service role can do everything (for backend operations)
+CREATE POLICY "Service role has full access to reconciliation runs"
+    ON reconciliation_runs
+    FOR ALL
+    USING (current_setting('role', true) = 'service_role');
+
+CREATE POLICY "Service role has full access to reconciliation discrepancies"
+    ON reconciliation_discrepancies
+    FOR ALL
+    USING (current_setting('role', true) = 'service_role');
+
+COMMENT ON TABLE reconciliation_runs IS 'Comparisons of a merchant''s ledger with processor balance transactions over a period';
+COMMENT ON TABLE reconciliation_discrepancies IS 'Ledger entries and balance transactions that did not match in a reconciliation run';
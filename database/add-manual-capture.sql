@@ -0,0 +1,29 @@
+-- ==============================================
+-- MANUAL CAPTURE (AUTHORIZE NOW, CAPTURE LATER)
+-- ==============================================
+-- Adds the requires_capture status and authorization tracking columns
+-- to support holds for airline and hotel integrations.
+
+ALTER TABLE transactions
+ADD COLUMN IF NOT EXISTS capture_method VARCHAR(20) DEFAULT 'automatic',
+ADD COLUMN IF NOT EXISTS amount_authorized INTEGER, -- Original authorized amount (before partial capture)
+ADD COLUMN IF NOT EXISTS amount_capturable INTEGER, -- Amount still available to capture
+ADD COLUMN IF NOT EXISTS authorized_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS authorization_expires_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS captured_at TIMESTAMP WITH TIME ZONE;
+
+-- pending -> requires_capture -> succeeded (capture) | canceled (void or expiry)
+ALTER TABLE transactions DROP CONSTRAINT IF EXISTS valid_status;
+ALTER TABLE transactions ADD CONSTRAINT valid_status
+    CHECK (status IN ('pending', 'processing', 'requires_capture', 'succeeded', 'failed', 'canceled', 'refunded'));
+
+ALTER TABLE transactions DROP CONSTRAINT IF EXISTS valid_capture_method;
+ALTER TABLE transactions ADD CONSTRAINT valid_capture_method
+    CHECK (capture_method IN ('automatic', 'manual'));
+
+-- Find authorizations approaching expiry
+CREATE INDEX IF NOT EXISTS idx_transactions_authorization_expires_at
+    ON transactions(authorization_expires_at)
+    WHERE status = 'requires_capture';
+
+COMMENT ON COLUMN transactions.authorization_expires_at IS 'When an uncaptured authorization lapses (card capture_before, default 7 days)';
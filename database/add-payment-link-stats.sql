@@ -0,0 +1,22 @@
+-- ==============================================
+-- PAYMENT LINKS: ATOMIC PAYMENT STATS
+-- ==============================================
+-- Counts a settled payment against its payment link in one statement, so
+-- concurrent payments don't lose increments. Only a link of the merchant that
+-- took the payment is updated (payment_link_id comes from merchant-set metadata).
+
+CREATE OR REPLACE FUNCTION record_payment_link_payment(
+    p_link_id UUID,
+    p_merchant_id UUID,
+    p_amount INTEGER
+) RETURNS BOOLEAN AS $$
+    WITH updated AS (
+        UPDATE payment_links
+        SET payment_count = COALESCE(payment_count, 0) + 1,
+            total_collected = COALESCE(total_collected, 0) + p_amount
+        WHERE id = p_link_id
+          AND merchant_id = p_merchant_id
+        RETURNING id
+    )
+    SELECT EXISTS (SELECT 1 FROM updated);
+$$ LANGUAGE sql;
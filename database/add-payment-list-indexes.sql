@@ -0,0 +1,19 @@
+-- ==============================================
+-- PAYMENT LISTING INDEXES
+-- ==============================================
+-- Supports cursor pagination on (created_at, id) and the search filters
+-- used by GET /api/payments and GET /api/merchants/:id/payments.
+
+-- Keyset pagination per merchant
+CREATE INDEX IF NOT EXISTS idx_transactions_merchant_created_id
+    ON transactions(merchant_id, created_at DESC, id DESC);
+
+-- Amount range and currency filters
+CREATE INDEX IF NOT EXISTS idx_transactions_merchant_amount ON transactions(merchant_id, amount);
+CREATE INDEX IF NOT EXISTS idx_transactions_merchant_currency ON transactions(merchant_id, currency);
+
+-- metadata[key]=value containment filter
+CREATE INDEX IF NOT EXISTS idx_transactions_metadata ON transactions USING GIN (metadata);
+
+-- Case-insensitive customer email lookup
+CREATE INDEX IF NOT EXISTS idx_customers_merchant_email_lower ON customers(merchant_id, LOWER(email));
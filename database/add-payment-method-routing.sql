@@ -0,0 +1,16 @@
+-- ==============================================
+-- PAYMENT METHOD ROUTING
+-- ==============================================
+-- Transactions record the methods offered to the customer. payment_method holds
+-- the routed method, or 'automatic' until the payment_intent.succeeded webhook
+-- records the method the customer actually used.
+
+ALTER TABLE transactions
+ADD COLUMN IF NOT EXISTS payment_method_types JSONB DEFAULT '["card"]'::jsonb;
+
+-- Merchants default to cards; legacy 'crypto' entries are ignored by routing
+ALTER TABLE merchants ALTER COLUMN accepted_payment_methods SET DEFAULT '["card"]'::jsonb;
+ALTER TABLE payment_links ALTER COLUMN accepted_payment_methods SET DEFAULT '["card"]'::jsonb;
+
+COMMENT ON COLUMN transactions.payment_method IS 'Routed payment method (card, us_bank_account, sepa_debit, ...) or automatic while the customer chooses';
+COMMENT ON COLUMN transactions.payment_method_types IS 'Payment methods offered for this payment';
@@ -0,0 +1,31 @@
+-- ==============================================
+-- PAYMENT PROCESSORS
+-- ==============================================
+-- Records which processor owns each processor-side object so refunds, captures
+-- and dispute responses go back to the same adapter. Sandbox traffic runs on the
+-- in-process simulator ('simulator'); live traffic on Stripe ('stripe').
+
+ALTER TABLE transactions
+ADD COLUMN IF NOT EXISTS processor VARCHAR(20) NOT NULL DEFAULT 'stripe';
+
+ALTER TABLE disputes
+ADD COLUMN IF NOT EXISTS processor VARCHAR(20) NOT NULL DEFAULT 'stripe';
+
+-- Customers are kept per processor: a sandbox customer isn't a Stripe customer
+ALTER TABLE customers
+ADD COLUMN IF NOT EXISTS processor VARCHAR(20) NOT NULL DEFAULT 'stripe';
+
+ALTER TABLE customers DROP CONSTRAINT IF EXISTS customers_merchant_id_email_key;
+ALTER TABLE customers
+ADD CONSTRAINT customers_merchant_id_email_processor_key UNIQUE (merchant_id, email, processor);
+
+-- Payment links take payments in the environment of the key that created them
+ALTER TABLE payment_links
+ADD COLUMN IF NOT EXISTS environment VARCHAR(20) NOT NULL DEFAULT 'production';
+
+CREATE INDEX IF NOT EXISTS idx_transactions_processor ON transactions(processor);
+
+COMMENT ON COLUMN transactions.processor IS 'Processor that handled the payment (stripe, simulator)';
+COMMENT ON COLUMN disputes.processor IS 'Processor the dispute was opened on (stripe, simulator)';
+COMMENT ON COLUMN customers.processor IS 'Processor the customer record (stripe_customer_id) belongs to';
+COMMENT ON COLUMN payment_links.environment IS 'Environment (sandbox, production) of the API key that created the link';
@@ -0,0 +1,76 @@
+-- ==============================================
+-- MANUAL PAYMENT REVIEWS
+-- ==============================================
+-- Payments flagged by a review risk rule or at/above one of the merchant's
+-- review_rules amounts are authorized without capture and held in in_review
+-- until the merchant approves (captures) or rejects (voids) them. Methods that
+-- can't be authorized separately settle as usual and are reviewed afterwards;
+-- rejecting those can refund them.
+
+-- pending -> in_review -> requires_capture | canceled
+ALTER TABLE transactions DROP CONSTRAINT IF EXISTS valid_status;
+ALTER TABLE transactions ADD CONSTRAINT valid_status
+    CHECK (status IN ('pending', 'requires_action', 'processing', 'requires_capture', 'in_review', 'succeeded', 'failed', 'canceled', 'refunded'));
+
+ALTER TABLE transactions
+ADD COLUMN IF NOT EXISTS review_reason VARCHAR(30), -- 'risk_rules', 'amount_threshold'; NULL when not reviewed
+ADD COLUMN IF NOT EXISTS in_review_at TIMESTAMP WITH TIME ZONE;
+
+-- Same shape as three_d_secure_rules
+ALTER TABLE merchants
+ADD COLUMN IF NOT EXISTS review_rules JSONB NOT NULL DEFAULT '[]'::jsonb,
+ADD COLUMN IF NOT EXISTS review_sla_hours INTEGER NOT NULL DEFAULT 24;
+
+CREATE TABLE IF NOT EXISTS payment_reviews (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    merchant_id UUID NOT NULL REFERENCES merchants(id) ON DELETE CASCADE,
+    transaction_id UUID NOT NULL REFERENCES transactions(id) ON DELETE CASCADE,
+
+    -- Review
+    status VARCHAR(20) NOT NULL DEFAULT 'open', -- 'open', 'approved', 'rejected', 'canceled'
+    reason VARCHAR(30) NOT NULL, -- 'risk_rules', 'amount_threshold'
+    held BOOLEAN NOT NULL DEFAULT TRUE, -- FALSE when the payment settled before the review
+    risk_score INTEGER,
+    notes JSONB NOT NULL DEFAULT '[]'::jsonb, -- [{ author, note, created_at }]
+
+    -- SLA
+    sla_due_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    sla_breached_at TIMESTAMP WITH TIME ZONE,
+
+    -- Outcome
+    closed_reason VARCHAR(30), -- 'approved', 'rejected', 'refunded', 'canceled', 'authorization_expired'
+    closed_by VARCHAR(255),
+    refund_id UUID REFERENCES refunds(id) ON DELETE SET NULL,
+
+    -- Timestamps
+    opened_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    closed_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    CONSTRAINT valid_payment_review_status CHECK (status IN ('open', 'approved', 'rejected', 'canceled')),
+    UNIQUE(transaction_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_payment_reviews_merchant_status ON payment_reviews(merchant_id, status, sla_due_at);
+CREATE INDEX IF NOT EXISTS idx_payment_reviews_sla ON payment_reviews(sla_due_at)
+    WHERE status = 'open' AND sla_breached_at IS NULL;
+
+CREATE TRIGGER update_payment_reviews_updated_at BEFORE UPDATE ON payment_reviews
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE payment_reviews ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Merchants can only view their own reviews
+CREATE POLICY "Merchants can view own payment reviews"
+    ON payment_reviews
+    FOR SELECT
+    USING (merchant_id::TEXT = current_setting('app.current_merchant_id', true));
+
+-- Policy: Service role can do everything (for backend operations)
+CREATE POLICY "Service role has full access to payment reviews"
+    ON payment_reviews
+    FOR ALL
+    USING (current_setting('role', true) = 'service_role');
+
+COMMENT ON TABLE payment_reviews IS 'Manual reviews of risky or large payments, approved (captured) or rejected (voided/refunded) by the merchant';
@@ -0,0 +1,52 @@
+-- ==============================================
+-- SPLIT PAYMENTS
+-- ==============================================
+-- A payment can share its proceeds with other connected accounts. Charges are
+-- direct charges on the merchant's account, so the split total is collected as
+-- part of the application fee and paid out to each recipient with a transfer in
+-- the payment's transfer group once the payment succeeds. Refunds reverse the
+-- transfers proportionally.
+
+ALTER TABLE transactions
+ADD COLUMN IF NOT EXISTS transfer_group VARCHAR(255),
+ADD COLUMN IF NOT EXISTS split_amount INTEGER NOT NULL DEFAULT 0; -- Total paid out to split recipients
+
+CREATE TABLE IF NOT EXISTS payment_splits (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    transaction_id UUID NOT NULL REFERENCES transactions(id) ON DELETE CASCADE,
+    merchant_id UUID NOT NULL REFERENCES merchants(id) ON DELETE CASCADE, -- Merchant that took the payment
+
+    -- Recipient: another merchant on the platform, or a bare connected account
+    destination_merchant_id UUID REFERENCES merchants(id) ON DELETE SET NULL,
+    destination_account VARCHAR(255),
+
+    amount INTEGER NOT NULL CHECK (amount > 0), -- Smallest currency unit
+    percentage NUMERIC(5, 2), -- Set when the split was requested as a percentage of the payment
+    currency VARCHAR(3) NOT NULL,
+    description TEXT,
+
+    status VARCHAR(30) NOT NULL DEFAULT 'pending'
+        CHECK (status IN ('pending', 'transferred', 'failed', 'canceled', 'partially_reversed', 'reversed')),
+    stripe_transfer_id VARCHAR(255),
+    amount_reversed INTEGER NOT NULL DEFAULT 0,
+    failure_message TEXT,
+    transferred_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    CONSTRAINT payment_split_destination CHECK (destination_merchant_id IS NOT NULL OR destination_account IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS idx_payment_splits_transaction_id ON payment_splits(transaction_id);
+CREATE INDEX IF NOT EXISTS idx_payment_splits_destination_merchant_id ON payment_splits(destination_merchant_id);
+
+CREATE TRIGGER update_payment_splits_updated_at BEFORE UPDATE ON payment_splits
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE payment_splits ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Service role can do everything (for backend operations)
+CREATE POLICY "Service role has full access to payment splits"
+    ON payment_splits
+    FOR ALL
+    USING (current_setting('role', true) = 'service_role');
@@ -0,0 +1,92 @@
+-- ==============================================
+-- PAYOUT SCHEDULES
+-- ==============================================
+-- Merchants are paid out on a schedule (daily, weekly on a weekday, monthly on
+-- a date) or on demand, for the whole available balance or part of it. A payout
+-- is a transfer from the platform to the merchant's connected account followed
+-- by a bank payout on that account; its status follows the transfer.* and
+-- payout.* events:
+--   pending     created, transfer not made yet
+--   in_transit  transferred and on its way to the bank
+--   paid        arrived at the bank (payout.paid)
+--   failed      transfer failed or reversed, or the bank payout failed
+--   canceled    the bank payout was canceled
+-- Failed and canceled payouts are reversed back to the available balance.
+
+-- Schedule (merchants choose; Stripe payouts on their connected account are switched to manual)
+ALTER TABLE merchants
+    ADD COLUMN IF NOT EXISTS payout_schedule VARCHAR(20) NOT NULL DEFAULT 'manual', -- 'manual', 'daily', 'weekly', 'monthly'
+    ADD COLUMN IF NOT EXISTS payout_weekly_anchor VARCHAR(10), -- 'monday' ... 'sunday'
+    ADD COLUMN IF NOT EXISTS payout_monthly_anchor INTEGER, -- 1-31; the last day of shorter months
+    ADD COLUMN IF NOT EXISTS payout_minimum_amount INTEGER NOT NULL DEFAULT 0; -- In default_currency minor units
+
+ALTER TABLE merchants
+    ADD CONSTRAINT valid_payout_schedule CHECK (payout_schedule IN ('manual', 'daily', 'weekly', 'monthly')),
+    ADD CONSTRAINT valid_payout_weekly_anchor CHECK (payout_weekly_anchor IS NULL OR payout_weekly_anchor IN (
+        'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'
+    )),
+    ADD CONSTRAINT valid_payout_monthly_anchor CHECK (payout_monthly_anchor IS NULL OR payout_monthly_anchor BETWEEN 1 AND 31),
+    ADD CONSTRAINT valid_payout_minimum_amount CHECK (payout_minimum_amount >= 0);
+
+CREATE TABLE IF NOT EXISTS payouts (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    merchant_id UUID NOT NULL REFERENCES merchants(id) ON DELETE CASCADE,
+
+    amount INTEGER NOT NULL, -- Amount in smallest currency unit
+    currency VARCHAR(3) NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'pending',
+    trigger VARCHAR(20) NOT NULL DEFAULT 'manual', -- 'manual', 'scheduled'
+    destination VARCHAR(255) NOT NULL, -- Connected account (acct_...)
+
+    -- Processor objects
+    stripe_transfer_id VARCHAR(255),
+    stripe_payout_id VARCHAR(255),
+    arrival_date TIMESTAMP WITH TIME ZONE,
+
+    failure_code VARCHAR(100),
+    failure_message TEXT,
+
+    -- One scheduled payout per merchant per day and currency ('scheduled_2026-01-31', 'scheduled_2026-01-31_EUR')
+    idempotency_key VARCHAR(255),
+
+    -- Timestamps
+    paid_at TIMESTAMP WITH TIME ZONE,
+    failed_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    CONSTRAINT positive_payout_amount CHECK (amount > 0),
+    CONSTRAINT valid_payout_status CHECK (status IN ('pending', 'in_transit', 'paid', 'failed', 'canceled')),
+    CONSTRAINT valid_payout_trigger CHECK (trigger IN ('manual', 'scheduled'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_payouts_merchant ON payouts(merchant_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_payouts_stripe_transfer ON payouts(stripe_transfer_id) WHERE stripe_transfer_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_payouts_stripe_payout ON payouts(stripe_payout_id) WHERE stripe_payout_id IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_payouts_idempotency_key
+    ON payouts(merchant_id, idempotency_key) WHERE idempotency_key IS NOT NULL;
+
+-- One payout per merchant between creation and transfer, so two can't spend the same balance
+CREATE UNIQUE INDEX IF NOT EXISTS idx_payouts_one_pending
+    ON payouts(merchant_id) WHERE status = 'pending';
+
+CREATE TRIGGER update_payouts_updated_at BEFORE UPDATE ON payouts
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE payouts ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Merchants can only view their own payouts
+CREATE POLICY "Merchants can view own payouts"
+    ON payouts
+    FOR SELECT
+    USING (merchant_id::TEXT = current_setting('app.current_merchant_id', true));
+
+-- Policy: Service role can do everything (for backend operations)
+CREATE POLICY "Service role has full access to payouts"
+    ON payouts
+    FOR ALL
+    USING (current_setting('role', true) = 'service_role');
+
+COMMENT ON TABLE payouts IS 'Transfers of a merchant''s available balance to its connected account and on to the bank';
+COMMENT ON COLUMN merchants.payout_schedule IS 'When the available balance is paid out automatically (manual = on request only)';
+COMMENT ON COLUMN merchants.payout_minimum_amount IS 'Smallest payout; scheduled payouts wait until the available balance reaches it';
@@ -0,0 +1,82 @@
+-- ==============================================
+-- PRICING PLANS
+-- ==============================================
+-- Per-merchant negotiated pricing instead of the global PLATFORM_FEE_* env vars.
+-- Plans are versioned: editing a plan inserts a new row with the same plan_key
+-- and version + 1, so every transaction can record exactly which rates applied.
+
+CREATE TABLE IF NOT EXISTS pricing_plans (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    plan_key VARCHAR(100) NOT NULL, -- Stable identifier, e.g. 'standard', 'airline-enterprise'
+    version INTEGER NOT NULL DEFAULT 1,
+    name VARCHAR(255) NOT NULL,
+    description TEXT,
+
+    -- Rates: [{ "currency": "usd" | null, "payment_method": "card" | null, "percent": 2.9, "fixed": 30 }]
+    -- The most specific match (currency + method > currency > method > wildcard) wins.
+    -- "fixed" is in the rate currency's minor units; for currency wildcards it is in
+    -- two-decimal units (30 = 0.30) and scaled to the charge currency's minor units
+    rates JSONB NOT NULL DEFAULT '[]'::jsonb,
+
+    -- Volume tiers on month-to-date processed volume in the charge currency:
+    -- [{ "min_volume": 10000000, "percent_discount": 0.3 }]
+    volume_tiers JSONB NOT NULL DEFAULT '[]'::jsonb,
+
+    minimum_fee INTEGER DEFAULT 0, -- Minimum fee per payment in two-decimal units, scaled like wildcard fixed fees
+    international_card_surcharge_percent NUMERIC(5, 3) DEFAULT 0, -- Added when card country != merchant country
+
+    is_default BOOLEAN DEFAULT FALSE, -- Plan used for merchants without an assignment
+
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    UNIQUE(plan_key, version)
+);
+
+CREATE INDEX IF NOT EXISTS idx_pricing_plans_plan_key_version ON pricing_plans(plan_key, version DESC);
+CREATE INDEX IF NOT EXISTS idx_pricing_plans_is_default ON pricing_plans(is_default) WHERE is_default;
+
+-- Merchant assignment (always resolves to the latest version of the plan)
+ALTER TABLE merchants ADD COLUMN IF NOT EXISTS pricing_plan_key VARCHAR(100);
+
+-- Pricing applied to each transaction
+ALTER TABLE transactions
+ADD COLUMN IF NOT EXISTS pricing_plan_id UUID REFERENCES pricing_plans(id),
+ADD COLUMN IF NOT EXISTS pricing_plan_version INTEGER,
+ADD COLUMN IF NOT EXISTS fee_breakdown JSONB;
+
+-- Month-to-date succeeded volume, used for volume tiers
+CREATE OR REPLACE FUNCTION merchant_processed_volume(
+    p_merchant_id UUID,
+    p_currency VARCHAR,
+    p_since TIMESTAMP WITH TIME ZONE
+) RETURNS BIGINT AS $$
+    SELECT COALESCE(SUM(amount), 0)::BIGINT
+    FROM transactions
+    WHERE merchant_id = p_merchant_id
+      AND currency = p_currency
+      AND status IN ('succeeded', 'refunded')
+      AND created_at >= p_since;
+$$ LANGUAGE sql STABLE;
+
+ALTER TABLE pricing_plans ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Service role can do everything (for backend operations)
+CREATE POLICY "Service role has full access to pricing plans"
+    ON pricing_plans
+    FOR ALL
+    USING (current_setting('role', true) = 'service_role');
+
+-- Seed the default plan with the previous global pricing (2.9% + 30)
+INSERT INTO pricing_plans (plan_key, version, name, description, rates, is_default)
+VALUES (
+    'standard',
+    1,
+    'Standard',
+    'Default pricing for merchants without a negotiated plan',
+    '[{ "currency": null, "payment_method": null, "percent": 2.9, "fixed": 30 }]'::jsonb,
+    TRUE
+)
+ON CONFLICT (plan_key, version) DO NOTHING;
+
+COMMENT ON TABLE pricing_plans IS 'Versioned merchant pricing plans (rates per currency/payment method, volume tiers, minimum fee, international surcharge)';
+COMMENT ON COLUMN transactions.fee_breakdown IS 'How platform_fee was computed: rate, tier discount, surcharge and minimum applied';
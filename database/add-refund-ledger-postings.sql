@@ -0,0 +1,98 @@
+-- ==============================================
+-- PER-REFUND LEDGER POSTINGS
+-- ==============================================
+-- Refunds were debited from charge.refunded using the charge's cumulative
+-- amount_refunded, so every partial refund after the first debited the earlier
+-- ones again. Each refund is now posted once when it succeeds, keyed by refund
+-- id, together with the application fee returned to the merchant (if any).
+-- POST /api/admin/ledger/repair-refunds reverses the old postings and
+-- recalculates the affected balances.
+
+-- Entries carrying a key are posted at most once per merchant
+ALTER TABLE ledger_entries
+ADD COLUMN IF NOT EXISTS idempotency_key VARCHAR(255);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_ledger_entries_idempotency_key
+    ON ledger_entries(merchant_id, idempotency_key)
+    WHERE idempotency_key IS NOT NULL;
+
+-- Application fee returned to the merchant for this refund (REFUND_APPLICATION_FEE_POLICY)
+ALTER TABLE refunds
+ADD COLUMN IF NOT EXISTS fee_refunded INTEGER NOT NULL DEFAULT 0;
+
+-- Replaces the seven-argument version from add-ledger-schema.sql
+DROP FUNCTION IF EXISTS add_ledger_entry(UUID, VARCHAR, INTEGER, VARCHAR, TEXT, VARCHAR, JSONB);
+
+CREATE OR REPLACE FUNCTION add_ledger_entry(
+    p_merchant_id UUID,
+    p_type VARCHAR,
+    p_amount INTEGER,
+    p_currency VARCHAR,
+    p_description TEXT,
+    p_status VARCHAR,
+    p_metadata JSONB,
+    p_idempotency_key VARCHAR DEFAULT NULL
+) RETURNS JSONB AS $$
+DECLARE
+    v_entry_id UUID;
+    v_new_balance INTEGER;
+    v_new_pending INTEGER;
+BEGIN
+    -- Insert Ledger Entry
+    INSERT INTO ledger_entries (merchant_id, type, amount, currency, description, status, metadata, idempotency_key)
+    VALUES (p_merchant_id, p_type, p_amount, p_currency, p_description, p_status, p_metadata, p_idempotency_key)
+    ON CONFLICT (merchant_id, idempotency_key) WHERE idempotency_key IS NOT NULL DO NOTHING
+    RETURNING id INTO v_entry_id;
+
+    -- Already posted: leave the balance alone
+    IF v_entry_id IS NULL THEN
+        SELECT id INTO v_entry_id
+        FROM ledger_entries
+        WHERE merchant_id = p_merchant_id AND idempotency_key = p_idempotency_key;
+
+        RETURN jsonb_build_object('entry_id', v_entry_id, 'duplicate', true);
+    END IF;
+
+    -- Update Merchant Balance
+    IF p_status = 'available' THEN
+        UPDATE merchants
+        SET balance = balance + (CASE WHEN p_type = 'credit' THEN p_amount ELSE -p_amount END)
+        WHERE id = p_merchant_id
+        RETURNING balance INTO v_new_balance;
+    ELSIF p_status = 'pending' THEN
+        UPDATE merchants
+        SET pending_balance = pending_balance + (CASE WHEN p_type = 'credit' THEN p_amount ELSE -p_amount END)
+        WHERE id = p_merchant_id
+        RETURNING pending_balance INTO v_new_pending;
+    END IF;
+
+    RETURN jsonb_build_object(
+        'entry_id', v_entry_id,
+        'new_balance', v_new_balance,
+        'new_pending', v_new_pending
+    );
+END;
+$$ LANGUAGE plpgsql;
+
+-- Recompute a merchant's balances from its ledger entries
+CREATE OR REPLACE FUNCTION recalculate_merchant_balance(
+    p_merchant_id UUID
+) RETURNS JSONB AS $$
+DECLARE
+    v_balance INTEGER;
+    v_pending INTEGER;
+BEGIN
+    SELECT
+        COALESCE(SUM(CASE WHEN status = 'available' THEN (CASE WHEN type = 'credit' THEN amount ELSE -amount END) END), 0),
+        COALESCE(SUM(CASE WHEN status = 'pending' THEN (CASE WHEN type = 'credit' THEN amount ELSE -amount END) END), 0)
+    INTO v_balance, v_pending
+    FROM ledger_entries
+    WHERE merchant_id = p_merchant_id;
+
+    UPDATE merchants
+    SET balance = v_balance, pending_balance = v_pending
+    WHERE id = p_merchant_id;
+
+    RETURN jsonb_build_object('balance', v_balance, 'pending_balance', v_pending);
+END;
+$$ LANGUAGE plpgsql;
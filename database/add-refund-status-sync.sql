@@ -0,0 +1,20 @@
+-- ==============================================
+-- REFUND STATUS TRACKING
+-- ==============================================
+-- Refunds are created pending and settle asynchronously: charge.refund.updated
+-- moves them to succeeded, failed or canceled. A failed or canceled refund
+-- gives its amount back to the payment's refundable balance.
+
+ALTER TABLE refunds
+ADD COLUMN IF NOT EXISTS failure_reason VARCHAR(255), -- Processor failure reason (e.g. expired_or_canceled_card)
+ADD COLUMN IF NOT EXISTS succeeded_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS failed_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS canceled_at TIMESTAMP WITH TIME ZONE;
+
+-- pending -> succeeded | failed | canceled; succeeded -> failed (refund returned by the card network)
+ALTER TABLE refunds DROP CONSTRAINT IF EXISTS valid_refund_status;
+ALTER TABLE refunds ADD CONSTRAINT valid_refund_status
+    CHECK (status IN ('pending', 'succeeded', 'failed', 'canceled'));
+
+-- Merchant refund listing (newest first)
+CREATE INDEX IF NOT EXISTS idx_refunds_merchant_id_created_at ON refunds(merchant_id, created_at DESC);
@@ -0,0 +1,57 @@
+-- ==============================================
+-- ROLLING RESERVES
+-- ==============================================
+-- High-risk merchants have a share of every payment withheld in their
+-- merchant_reserve ledger account. Each withholding is a tranche that matures
+-- after the merchant's hold days; the reserve-release job moves matured
+-- tranches to the available balance, keeping at least the fixed minimum
+-- reserve. Dispute withdrawals the available balance can't cover are taken
+-- from the reserve.
+
+-- Reserve policy (set by an admin; 0% and no minimum = no reserve)
+ALTER TABLE merchants
+    ADD COLUMN IF NOT EXISTS reserve_percent NUMERIC(5, 2) NOT NULL DEFAULT 0,
+    ADD COLUMN IF NOT EXISTS reserve_hold_days INTEGER NOT NULL DEFAULT 90,
+    ADD COLUMN IF NOT EXISTS reserve_minimum_amount INTEGER NOT NULL DEFAULT 0; -- In default_currency minor units
+
+ALTER TABLE merchants
+    ADD CONSTRAINT valid_reserve_percent CHECK (reserve_percent >= 0 AND reserve_percent <= 100),
+    ADD CONSTRAINT valid_reserve_hold_days CHECK (reserve_hold_days >= 0),
+    ADD CONSTRAINT valid_reserve_minimum_amount CHECK (reserve_minimum_amount >= 0);
+
+-- One tranche per payment journal that withheld funds
+CREATE TABLE IF NOT EXISTS reserve_tranches (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    merchant_id UUID NOT NULL REFERENCES merchants(id) ON DELETE CASCADE,
+    transaction_id UUID REFERENCES transactions(id) ON DELETE SET NULL,
+    journal_id UUID NOT NULL UNIQUE REFERENCES ledger_journals(id),
+
+    amount INTEGER NOT NULL, -- Withheld, in smallest currency unit
+    currency VARCHAR(3) NOT NULL,
+    release_at TIMESTAMP WITH TIME ZONE NOT NULL,
+
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    CONSTRAINT positive_reserve_tranche_amount CHECK (amount > 0)
+);
+
+CREATE INDEX IF NOT EXISTS idx_reserve_tranches_merchant ON reserve_tranches(merchant_id, currency, release_at);
+
+ALTER TABLE reserve_tranches ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Merchants can only view their own tranches
+CREATE POLICY "Merchants can view own reserve tranches"
+    ON reserve_tranches
+    FOR SELECT
+    USING (merchant_id::TEXT = current_setting('app.current_merchant_id', true));
+
+-- Policy: Service role can do everything (for backend operations)
+CREATE POLICY "Service role has full access to reserve tranches"
+    ON reserve_tranches
+    FOR ALL
+    USING (current_setting('role', true) = 'service_role');
+
+COMMENT ON TABLE reserve_tranches IS 'Funds withheld from a payment into the merchant reserve, and when they mature';
+COMMENT ON COLUMN merchants.reserve_percent IS 'Share of every payment withheld in the rolling reserve';
+COMMENT ON COLUMN merchants.reserve_hold_days IS 'Days a reserve tranche is held before it is released';
+COMMENT ON COLUMN merchants.reserve_minimum_amount IS 'Reserve balance kept regardless of maturity, topped up from payments';
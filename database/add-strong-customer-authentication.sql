@@ -0,0 +1,24 @@
+-- ==============================================
+-- STRONG CUSTOMER AUTHENTICATION (3D SECURE)
+-- ==============================================
+-- Payments waiting on the customer to authenticate move to requires_action and
+-- keep the processor's next_action (e.g. the 3DS redirect URL) until they settle.
+-- Merchants can request 3DS for card payments at or above an amount per currency.
+
+-- pending -> requires_action -> processing | requires_capture | succeeded | failed | canceled
+ALTER TABLE transactions DROP CONSTRAINT IF EXISTS valid_status;
+ALTER TABLE transactions ADD CONSTRAINT valid_status
+    CHECK (status IN ('pending', 'requires_action', 'processing', 'requires_capture', 'succeeded', 'failed', 'canceled', 'refunded'));
+
+ALTER TABLE transactions
+ADD COLUMN IF NOT EXISTS next_action JSONB, -- Processor next_action while status is requires_action
+ADD COLUMN IF NOT EXISTS return_url TEXT, -- Where the customer returns after authenticating
+ADD COLUMN IF NOT EXISTS three_d_secure_requested BOOLEAN NOT NULL DEFAULT FALSE,
+ADD COLUMN IF NOT EXISTS requires_action_at TIMESTAMP WITH TIME ZONE;
+
+-- [{ "currency": "eur", "min_amount": 10000 }]; rules without a currency use
+-- two-decimal units (10000 = 100.00) scaled to the payment currency
+ALTER TABLE merchants
+ADD COLUMN IF NOT EXISTS three_d_secure_rules JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+COMMENT ON COLUMN merchants.three_d_secure_rules IS 'Request 3D Secure for card payments at or above min_amount (per currency, or any currency)';
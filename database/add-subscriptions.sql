@@ -0,0 +1,191 @@
+-- ==============================================
+-- RECURRING BILLING
+-- ==============================================
+-- Products and plans (price + interval), subscriptions tied to customers, and the
+-- invoices the billing scheduler generates each period and charges off-session
+-- against the customer's saved payment method.
+
+CREATE TABLE IF NOT EXISTS products (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    merchant_id UUID NOT NULL REFERENCES merchants(id) ON DELETE CASCADE,
+    name VARCHAR(255) NOT NULL,
+    description TEXT,
+    is_active BOOLEAN DEFAULT TRUE,
+    metadata JSONB DEFAULT '{}'::jsonb,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_products_merchant_id ON products(merchant_id);
+
+-- Amount, currency and interval are immutable; create a new plan to change pricing
+CREATE TABLE IF NOT EXISTS plans (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    merchant_id UUID NOT NULL REFERENCES merchants(id) ON DELETE CASCADE,
+    product_id UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+    nickname VARCHAR(255),
+    amount INTEGER NOT NULL CHECK (amount >= 0), -- Per period, in the currency's minor units
+    currency VARCHAR(3) NOT NULL,
+    interval VARCHAR(10) NOT NULL CHECK (interval IN ('day', 'week', 'month', 'year')),
+    interval_count INTEGER NOT NULL DEFAULT 1 CHECK (interval_count > 0),
+    trial_period_days INTEGER CHECK (trial_period_days >= 0),
+    is_active BOOLEAN DEFAULT TRUE,
+    metadata JSONB DEFAULT '{}'::jsonb,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_plans_merchant_id ON plans(merchant_id);
+CREATE INDEX IF NOT EXISTS idx_plans_product_id ON plans(product_id);
+
+CREATE TABLE IF NOT EXISTS subscriptions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    merchant_id UUID NOT NULL REFERENCES merchants(id) ON DELETE CASCADE,
+    customer_id UUID NOT NULL REFERENCES customers(id) ON DELETE CASCADE,
+    plan_id UUID NOT NULL REFERENCES plans(id),
+
+    -- incomplete: first invoice not paid yet; past_due: renewal payment being retried
+    status VARCHAR(20) NOT NULL DEFAULT 'incomplete'
+        CHECK (status IN ('incomplete', 'trialing', 'active', 'past_due', 'canceled')),
+    environment VARCHAR(20) NOT NULL DEFAULT 'production', -- Environment of the key that created it
+
+    -- Saved method charged each period; falls back to the customer's default
+    payment_method_id UUID REFERENCES customer_payment_methods(id) ON DELETE SET NULL,
+
+    -- Billing periods
+    current_period_start TIMESTAMP WITH TIME ZONE NOT NULL,
+    current_period_end TIMESTAMP WITH TIME ZONE NOT NULL,
+    billing_cycle_anchor TIMESTAMP WITH TIME ZONE NOT NULL,
+    trial_start TIMESTAMP WITH TIME ZONE,
+    trial_end TIMESTAMP WITH TIME ZONE,
+
+    -- Cancellation
+    cancel_at_period_end BOOLEAN DEFAULT FALSE,
+    canceled_at TIMESTAMP WITH TIME ZONE,
+    ended_at TIMESTAMP WITH TIME ZONE,
+    cancellation_reason VARCHAR(50),
+
+    latest_invoice_id UUID,
+    metadata JSONB DEFAULT '{}'::jsonb,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_subscriptions_merchant_id ON subscriptions(merchant_id);
+CREATE INDEX IF NOT EXISTS idx_subscriptions_customer_id ON subscriptions(customer_id);
+-- Scheduler scan: periods that have ended
+CREATE INDEX IF NOT EXISTS idx_subscriptions_due ON subscriptions(current_period_end)
+    WHERE status IN ('trialing', 'active', 'past_due');
+
+CREATE TABLE IF NOT EXISTS invoices (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    merchant_id UUID NOT NULL REFERENCES merchants(id) ON DELETE CASCADE,
+    customer_id UUID REFERENCES customers(id) ON DELETE SET NULL,
+    subscription_id UUID REFERENCES subscriptions(id) ON DELETE SET NULL,
+
+    status VARCHAR(20) NOT NULL DEFAULT 'draft'
+        CHECK (status IN ('draft', 'open', 'paid', 'void', 'uncollectible')),
+    billing_reason VARCHAR(50), -- subscription_create, subscription_cycle, subscription_update
+    currency VARCHAR(3) NOT NULL,
+
+    -- Amounts in minor units
+    subtotal INTEGER NOT NULL DEFAULT 0,
+    total INTEGER NOT NULL DEFAULT 0,
+    amount_due INTEGER NOT NULL DEFAULT 0,
+    amount_paid INTEGER NOT NULL DEFAULT 0,
+
+    period_start TIMESTAMP WITH TIME ZONE,
+    period_end TIMESTAMP WITH TIME ZONE,
+
+    -- Collection
+    attempt_count INTEGER NOT NULL DEFAULT 0,
+    next_payment_attempt TIMESTAMP WITH TIME ZONE,
+    last_payment_error JSONB,
+    transaction_id UUID REFERENCES transactions(id) ON DELETE SET NULL,
+
+    finalized_at TIMESTAMP WITH TIME ZONE,
+    paid_at TIMESTAMP WITH TIME ZONE,
+    voided_at TIMESTAMP WITH TIME ZONE,
+
+    metadata JSONB DEFAULT '{}'::jsonb,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_invoices_merchant_id ON invoices(merchant_id);
+CREATE INDEX IF NOT EXISTS idx_invoices_subscription_id ON invoices(subscription_id);
+CREATE INDEX IF NOT EXISTS idx_invoices_next_payment_attempt ON invoices(next_payment_attempt)
+    WHERE status = 'open';
+
+ALTER TABLE subscriptions
+ADD CONSTRAINT subscriptions_latest_invoice_id_fkey
+    FOREIGN KEY (latest_invoice_id) REFERENCES invoices(id) ON DELETE SET NULL;
+
+-- Line items; rows without an invoice are pending (e.g. prorations) and are
+-- pulled into the subscription's next invoice
+CREATE TABLE IF NOT EXISTS invoice_line_items (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    invoice_id UUID REFERENCES invoices(id) ON DELETE CASCADE,
+    merchant_id UUID NOT NULL REFERENCES merchants(id) ON DELETE CASCADE,
+    subscription_id UUID REFERENCES subscriptions(id) ON DELETE CASCADE,
+    plan_id UUID REFERENCES plans(id),
+    description TEXT NOT NULL,
+    amount INTEGER NOT NULL, -- Negative for credits
+    currency VARCHAR(3) NOT NULL,
+    proration BOOLEAN DEFAULT FALSE,
+    period_start TIMESTAMP WITH TIME ZONE,
+    period_end TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_invoice_line_items_invoice_id ON invoice_line_items(invoice_id);
+CREATE INDEX IF NOT EXISTS idx_invoice_line_items_pending ON invoice_line_items(subscription_id)
+    WHERE invoice_id IS NULL;
+
+-- Payments made for an invoice
+ALTER TABLE transactions
+ADD COLUMN IF NOT EXISTS invoice_id UUID REFERENCES invoices(id) ON DELETE SET NULL;
+
+CREATE TRIGGER update_products_updated_at BEFORE UPDATE ON products
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_plans_updated_at BEFORE UPDATE ON plans
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_subscriptions_updated_at BEFORE UPDATE ON subscriptions
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_invoices_updated_at BEFORE UPDATE ON invoices
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE products ENABLE ROW LEVEL SECURITY;
+ALTER TABLE plans ENABLE ROW LEVEL SECURITY;
+ALTER TABLE subscriptions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE invoices ENABLE ROW LEVEL SECURITY;
+ALTER TABLE invoice_line_items ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Service role can do everything (for backend operations)
+CREATE POLICY "Service role has full access to products"
+    ON products
+    FOR ALL
+    USING (current_setting('role', true) = 'service_role');
+
+CREATE POLICY "Service role has full access to plans"
+    ON plans
+    FOR ALL
+    USING (current_setting('role', true) = 'service_role');
+
+CREATE POLICY "Service role has full access to subscriptions"
+    ON subscriptions
+    FOR ALL
+    USING (current_setting('role', true) = 'service_role');
+
+CREATE POLICY "Service role has full access to invoices"
+    ON invoices
+    FOR ALL
+    USING (current_setting('role', true) = 'service_role');
+
+CREATE POLICY "Service role has full access to invoice line items"
+    ON invoice_line_items
+    FOR ALL
+    USING (current_setting('role', true) = 'service_role');
@@ -0,0 +1,58 @@
+-- ==============================================
+-- TRANSACTION EVENTS
+-- ==============================================
+-- Append-only history of transaction status transitions.
+-- Every status change goes through the transaction lifecycle module,
+-- which rejects illegal transitions (e.g. refunded -> succeeded) and
+-- writes a row here.
+
+CREATE TABLE IF NOT EXISTS transaction_events (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    transaction_id UUID NOT NULL REFERENCES transactions(id) ON DELETE CASCADE,
+    merchant_id UUID NOT NULL REFERENCES merchants(id) ON DELETE CASCADE,
+
+    -- Transition
+    from_status VARCHAR(50), -- NULL for the creation event
+    to_status VARCHAR(50) NOT NULL,
+
+    -- Origin of the change
+    source VARCHAR(50) NOT NULL, -- 'api', 'webhook', 'system'
+    reason VARCHAR(255),
+    stripe_event_id VARCHAR(255),
+
+    -- Metadata
+    metadata JSONB DEFAULT '{}'::jsonb,
+
+    -- Timestamp
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    CONSTRAINT valid_transaction_event_source CHECK (source IN ('api', 'webhook', 'system'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_transaction_events_transaction_id ON transaction_events(transaction_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_transaction_events_merchant_id ON transaction_events(merchant_id);
+CREATE INDEX IF NOT EXISTS idx_transaction_events_stripe_event_id ON transaction_events(stripe_event_id);
+
+ALTER TABLE transaction_events ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Merchants can only view their own transaction events
+CREATE POLICY "Merchants can view own transaction events"
+    ON transaction_events
+    FOR SELECT
+    USING (merchant_id::TEXT = current_setting('app.current_merchant_id', true));
+
+-- Policy: Service role can do everything (for backend operations)
+CREATE POLICY "Service role has full access to transaction events"
+    ON transaction_events
+    FOR ALL
+    USING (current_setting('role', true) = 'service_role');
+
+-- Backfill: seed one event per existing transaction with its current status
+INSERT INTO transaction_events (transaction_id, merchant_id, from_status, to_status, source, reason, created_at)
+SELECT t.id, t.merchant_id, NULL, t.status, 'system', 'backfill', t.created_at
+FROM transactions t
+WHERE NOT EXISTS (
+    SELECT 1 FROM transaction_events e WHERE e.transaction_id = t.id
+);
+
+COMMENT ON TABLE transaction_events IS 'Status transition history for transactions (exposed via GET /api/payments/:id/events)';
@@ -0,0 +1,231 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { api } from '@/lib/api'
+import { formatCurrency, formatDateTime, getStatusBadgeClass } from '@/lib/utils'
+import type { LedgerEntry, LedgerEntryFilters } from '@/types'
+
+const PAGE_SIZE = 50
+
+const SOURCES = ['payment', 'refund', 'dispute', 'split', 'payout', 'release', 'reserve', 'adjustment']
+
+export default function LedgerPage() {
+  const [entries, setEntries] = useState<LedgerEntry[]>([])
+  const [totalCount, setTotalCount] = useState(0)
+  const [offset, setOffset] = useState(0)
+  const [filters, setFilters] = useState<LedgerEntryFilters>({})
+  const [loading, setLoading] = useState(true)
+  const [exporting, setExporting] = useState(false)
+
+  useEffect(() => {
+    loadEntries()
+  }, [filters, offset])
+
+  const loadEntries = async () => {
+    setLoading(true)
+    try {
+      const data = await api.getLedgerEntries(toQuery(filters), PAGE_SIZE, offset)
+      setEntries(data.entries || [])
+      setTotalCount(data.total_count || 0)
+    } catch (error) {
+      console.error('Failed to load ledger:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const updateFilter = (key: keyof LedgerEntryFilters, value: string) => {
+    setOffset(0)
+    setFilters({ ...filters, [key]: value || undefined })
+  }
+
+  const handleExport = async () => {
+    setExporting(true)
+    try {
+      const blob = await api.downloadLedgerCsv(toQuery(filters))
+      const url = URL.createObjectURL(blob)
+      const link = document.createElement('a')
+      link.href = url
+      link.download = `ledger-${new Date().toISOString().slice(0, 10)}.csv`
+      link.click()
+      URL.revokeObjectURL(url)
+    } catch (error: any) {
+      alert(error.message || 'Failed to export ledger')
+    } finally {
+      setExporting(false)
+    }
+  }
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-semibold text-foreground">Ledger</h1>
+          <p className="text-secondary mt-1">
+            Every movement of your balance, with the balance after each entry
+          </p>
+        </div>
+        <button
+          onClick={handleExport}
+          disabled={exporting}
+          className="btn-secondary disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
+          </svg>
+          {exporting ? 'Exporting...' : 'Export CSV'}
+        </button>
+      </div>
+
+      {/* Filters */}
+      <div className="grid grid-cols-1 sm:grid-cols-5 gap-4">
+        <input
+          type="date"
+          value={filters.start_date || ''}
+          onChange={(e) => updateFilter('start_date', e.target.value)}
+          className="input"
+          title="From"
+        />
+        <input
+          type="date"
+          value={filters.end_date || ''}
+          onChange={(e) => updateFilter('end_date', e.target.value)}
+          className="input"
+          title="To"
+        />
+        <select value={filters.type || ''} onChange={(e) => updateFilter('type', e.target.value)} className="input">
+          <option value="">All types</option>
+          <option value="credit">Credits</option>
+          <option value="debit">Debits</option>
+        </select>
+        <select value={filters.status || ''} onChange={(e) => updateFilter('status', e.target.value)} className="input">
+          <option value="">All balances</option>
+          <option value="available">Available</option>
+          <option value="pending">Pending</option>
+          <option value="reserve">Reserve</option>
+        </select>
+        <select value={filters.source || ''} onChange={(e) => updateFilter('source', e.target.value)} className="input">
+          <option value="">All sources</option>
+          {SOURCES.map((source) => (
+            <option key={source} value={source}>{source}</option>
+          ))}
+        </select>
+      </div>
+
+      {/* Entries Table */}
+      <div className="card p-0 overflow-hidden">
+        {loading ? (
+          <div className="flex items-center justify-center h-48">
+            <div className="text-secondary">Loading ledger...</div>
+          </div>
+        ) : entries.length === 0 ? (
+          <div className="p-12 text-center">
+            <h3 className="text-lg font-medium text-foreground mb-2">
+              No ledger entries
+            </h3>
+            <p className="text-secondary text-sm">
+              Payments, refunds, disputes and payouts will appear here as they move your balance
+            </p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b border-border">
+                  <th className="px-6 py-3 text-left text-xs font-medium text-secondary uppercase tracking-wider">
+                    Date
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-secondary uppercase tracking-wider">
+                    Description
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-secondary uppercase tracking-wider">
+                    Balance
+                  </th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-secondary uppercase tracking-wider">
+                    Amount
+                  </th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-secondary uppercase tracking-wider">
+                    Running Balance
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-border">
+                {entries.map((entry) => (
+                  <tr key={entry.id} className="hover:bg-card transition-colors">
+                    <td className="px-6 py-4 text-sm text-secondary">
+                      {formatDateTime(entry.created_at)}
+                    </td>
+                    <td className="px-6 py-4">
+                      <div className="text-sm font-medium text-foreground">
+                        {entry.description || entry.source}
+                      </div>
+                      <div className="text-xs text-secondary font-mono">
+                        {linkLabel(entry)}
+                      </div>
+                    </td>
+                    <td className="px-6 py-4">
+                      <span className={getStatusBadgeClass(entry.status)}>
+                        {entry.status}
+                      </span>
+                    </td>
+                    <td className="px-6 py-4 text-right">
+                      <span className={`text-sm font-medium ${entry.type === 'credit' ? 'text-success' : 'text-error'}`}>
+                        {entry.type === 'credit' ? '+' : '-'}{formatCurrency(entry.amount, entry.currency)}
+                      </span>
+                    </td>
+                    <td className="px-6 py-4 text-right text-sm text-foreground">
+                      {formatCurrency(entry.running_balance, entry.currency)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {/* Pagination */}
+      {totalCount > PAGE_SIZE && (
+        <div className="flex items-center justify-between">
+          <p className="text-sm text-secondary">
+            {offset + 1}–{Math.min(offset + PAGE_SIZE, totalCount)} of {totalCount}
+          </p>
+          <div className="flex gap-3">
+            <button
+              onClick={() => setOffset(Math.max(offset - PAGE_SIZE, 0))}
+              disabled={offset === 0}
+              className="btn-secondary disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Previous
+            </button>
+            <button
+              onClick={() => setOffset(offset + PAGE_SIZE)}
+              disabled={offset + PAGE_SIZE >= totalCount}
+              className="btn-secondary disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Next
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
+
+// Date inputs give whole days; make the end date inclusive
+function toQuery(filters: LedgerEntryFilters): LedgerEntryFilters {
+  return {
+    ...filters,
+    end_date: filters.end_date ? `${filters.end_date}T23:59:59.999Z` : undefined,
+  }
+}
+
+function linkLabel(entry: LedgerEntry): string {
+  const { transaction_id, refund_id, dispute_id, transfer_id } = entry.links
+  if (refund_id) return `Refund ${refund_id.slice(0, 8)}...`
+  if (dispute_id) return `Dispute ${dispute_id}`
+  if (transfer_id) return `Transfer ${transfer_id}`
+  if (transaction_id) return `Payment ${transaction_id.slice(0, 8)}...`
+  return entry.source
+}
@@ -2,7 +2,7 @@
 
 import { useEffect, useState } from 'react'
 import { api } from '@/lib/api'
-import { formatCurrency, formatDateTime, copyToClipboard, getPaymentLinkUrl } from '@/lib/utils'
+import { formatCurrency, formatDateTime, copyToClipboard, getPaymentLinkUrl, toMinorUnits, getAmountStep } from '@/lib/utils'
 import type { PaymentLink } from '@/types'
 
 export default function PaymentLinksPage() {
@@ -304,10 +304,10 @@ function CreatePaymentLinkModal({
       }
 
       if (formData.allow_custom_amount) {
-        if (formData.min_amount) data.min_amount = parseInt(formData.min_amount) * 100
-        if (formData.max_amount) data.max_amount = parseInt(formData.max_amount) * 100
+        if (formData.min_amount) data.min_amount = toMinorUnits(formData.min_amount, formData.currency)
+        if (formData.max_amount) data.max_amount = toMinorUnits(formData.max_amount, formData.currency)
       } else {
-        data.amount = parseInt(formData.amount) * 100
+        data.amount = toMinorUnits(formData.amount, formData.currency)
       }
 
       if (formData.expires_at) {
@@ -395,7 +395,7 @@ function CreatePaymentLinkModal({
                   className="input"
                   placeholder="10"
                   min="0"
-                  step="0.01"
+                  step={getAmountStep(formData.currency)}
                 />
               </div>
               <div>
@@ -409,7 +409,7 @@ function CreatePaymentLinkModal({
                   className="input"
                   placeholder="1000"
                   min="0"
-                  step="0.01"
+                  step={getAmountStep(formData.currency)}
                 />
               </div>
             </div>
@@ -426,7 +426,7 @@ function CreatePaymentLinkModal({
                 placeholder="50.00"
                 required={!formData.allow_custom_amount}
                 min="0"
-                step="0.01"
+                step={getAmountStep(formData.currency)}
               />
             </div>
           )}
@@ -0,0 +1,284 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { api } from '@/lib/api'
+import { formatCurrency, formatDate, formatDateTime, getStatusBadgeClass } from '@/lib/utils'
+import type { Payout, PayoutSettings } from '@/types'
+
+const PAGE_SIZE = 20
+
+const WEEKDAYS: NonNullable<PayoutSettings['weekly_anchor']>[] = [
+  'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday',
+]
+
+export default function PayoutsPage() {
+  const [payouts, setPayouts] = useState<Payout[]>([])
+  const [totalCount, setTotalCount] = useState(0)
+  const [offset, setOffset] = useState(0)
+  const [settings, setSettings] = useState<PayoutSettings | null>(null)
+  const [amount, setAmount] = useState('')
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [paying, setPaying] = useState(false)
+
+  useEffect(() => {
+    loadSettings()
+  }, [])
+
+  useEffect(() => {
+    loadPayouts()
+  }, [offset])
+
+  const loadSettings = async () => {
+    try {
+      setSettings(await api.getPayoutSettings())
+    } catch (error) {
+      console.error('Failed to load payout settings:', error)
+    }
+  }
+
+  const loadPayouts = async () => {
+    try {
+      const data = await api.getPayouts(PAGE_SIZE, offset)
+      setPayouts(data.payouts || [])
+      setTotalCount(data.total_count || 0)
+    } catch (error) {
+      console.error('Failed to load payouts:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleSaveSettings = async () => {
+    if (!settings) return
+    setSaving(true)
+    try {
+      setSettings(await api.updatePayoutSettings({
+        schedule: settings.schedule,
+        weekly_anchor: settings.weekly_anchor || undefined,
+        monthly_anchor: settings.monthly_anchor || undefined,
+        minimum_amount: settings.minimum_amount,
+      }))
+    } catch (error: any) {
+      alert(error.message || 'Failed to save payout schedule')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handlePayout = async () => {
+    setPaying(true)
+    try {
+      // Amount is entered in major units; empty pays out the whole available balance
+      await api.createPayout(amount ? Math.round(parseFloat(amount) * 100) : undefined)
+      setAmount('')
+      setOffset(0)
+      await loadPayouts()
+    } catch (error: any) {
+      alert(error.message || 'Failed to create payout')
+    } finally {
+      setPaying(false)
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-96">
+        <div className="text-secondary">Loading payouts...</div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-semibold text-foreground">Payouts</h1>
+        <p className="text-secondary mt-1">
+          Transfers of your available balance to your bank account
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {/* Schedule */}
+        {settings && (
+          <div className="card space-y-4">
+            <h2 className="text-lg font-medium text-foreground">Payout schedule</h2>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-foreground mb-2">Frequency</label>
+                <select
+                  value={settings.schedule}
+                  onChange={(e) => setSettings({ ...settings, schedule: e.target.value as PayoutSettings['schedule'] })}
+                  className="input"
+                >
+                  <option value="manual">Manual</option>
+                  <option value="daily">Daily</option>
+                  <option value="weekly">Weekly</option>
+                  <option value="monthly">Monthly</option>
+                </select>
+              </div>
+              {settings.schedule === 'weekly' && (
+                <div>
+                  <label className="block text-sm font-medium text-foreground mb-2">Day of the week</label>
+                  <select
+                    value={settings.weekly_anchor || ''}
+                    onChange={(e) => setSettings({ ...settings, weekly_anchor: (e.target.value || null) as PayoutSettings['weekly_anchor'] })}
+                    className="input capitalize"
+                  >
+                    <option value="">Select a day</option>
+                    {WEEKDAYS.map((day) => (
+                      <option key={day} value={day}>{day}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
+              {settings.schedule === 'monthly' && (
+                <div>
+                  <label className="block text-sm font-medium text-foreground mb-2">Day of the month</label>
+                  <input
+                    type="number"
+                    min={1}
+                    max={31}
+                    value={settings.monthly_anchor || ''}
+                    onChange={(e) => setSettings({ ...settings, monthly_anchor: parseInt(e.target.value) || null })}
+                    className="input"
+                  />
+                </div>
+              )}
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-foreground mb-2">Minimum payout</label>
+              <input
+                type="number"
+                min={0}
+                step="0.01"
+                value={settings.minimum_amount / 100}
+                onChange={(e) => setSettings({ ...settings, minimum_amount: Math.round((parseFloat(e.target.value) || 0) * 100) })}
+                className="input"
+              />
+              <p className="text-xs text-secondary mt-1">
+                Scheduled payouts wait until your available balance reaches this amount
+              </p>
+            </div>
+            <button
+              onClick={handleSaveSettings}
+              disabled={saving}
+              className="btn-primary disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {saving ? 'Saving...' : 'Save Schedule'}
+            </button>
+          </div>
+        )}
+
+        {/* Pay out now */}
+        <div className="card space-y-4">
+          <h2 className="text-lg font-medium text-foreground">Pay out now</h2>
+          <div>
+            <label className="block text-sm font-medium text-foreground mb-2">Amount</label>
+            <input
+              type="number"
+              min={0}
+              step="0.01"
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              placeholder="Entire available balance"
+              className="input"
+            />
+          </div>
+          <button
+            onClick={handlePayout}
+            disabled={paying}
+            className="btn-primary disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {paying ? 'Processing...' : 'Pay Out'}
+          </button>
+        </div>
+      </div>
+
+      {/* Payouts Table */}
+      <div className="card p-0 overflow-hidden">
+        {payouts.length === 0 ? (
+          <div className="p-12 text-center">
+            <h3 className="text-lg font-medium text-foreground mb-2">
+              No payouts yet
+            </h3>
+            <p className="text-secondary text-sm">
+              Payouts will appear here once you pay out your balance or your schedule runs
+            </p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b border-border">
+                  <th className="px-6 py-3 text-left text-xs font-medium text-secondary uppercase tracking-wider">
+                    Created
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-secondary uppercase tracking-wider">
+                    Status
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-secondary uppercase tracking-wider">
+                    Arrival
+                  </th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-secondary uppercase tracking-wider">
+                    Amount
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-border">
+                {payouts.map((payout) => (
+                  <tr key={payout.id} className="hover:bg-card transition-colors">
+                    <td className="px-6 py-4">
+                      <div className="text-sm text-foreground">{formatDateTime(payout.created_at)}</div>
+                      <div className="text-xs text-secondary">{payout.trigger}</div>
+                    </td>
+                    <td className="px-6 py-4">
+                      <span className={getStatusBadgeClass(payout.status)}>
+                        {payout.status.replace('_', ' ')}
+                      </span>
+                      {payout.failure_message && (
+                        <div className="text-xs text-error mt-1">{payout.failure_message}</div>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-secondary">
+                      {payout.arrival_date ? formatDate(payout.arrival_date) : '—'}
+                    </td>
+                    <td className="px-6 py-4 text-right text-sm font-medium text-foreground">
+                      {formatCurrency(payout.amount, payout.currency)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {/* Pagination */}
+      {totalCount > PAGE_SIZE && (
+        <div className="flex items-center justify-between">
+          <p className="text-sm text-secondary">
+            {offset + 1}–{Math.min(offset + PAGE_SIZE, totalCount)} of {totalCount}
+          </p>
+          <div className="flex gap-3">
+            <button
+              onClick={() => setOffset(Math.max(offset - PAGE_SIZE, 0))}
+              disabled={offset === 0}
+              className="btn-secondary disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Previous
+            </button>
+            <button
+              onClick={() => setOffset(offset + PAGE_SIZE)}
+              disabled={offset + PAGE_SIZE >= totalCount}
+              className="btn-secondary disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Next
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
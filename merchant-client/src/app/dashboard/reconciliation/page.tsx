@@ -0,0 +1,232 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { api } from '@/lib/api'
+import { formatCurrency, formatDate, formatDateTime, getStatusBadgeClass } from '@/lib/utils'
+import type { ReconciliationDiscrepancy, ReconciliationRun } from '@/types'
+
+const DISCREPANCY_LABELS: Record<ReconciliationDiscrepancy['type'], string> = {
+  missing_in_ledger: 'Missing in ledger',
+  missing_at_processor: 'Missing at processor',
+  duplicate: 'Duplicate',
+  amount_mismatch: 'Amount mismatch',
+}
+
+export default function ReconciliationPage() {
+  const [runs, setRuns] = useState<ReconciliationRun[]>([])
+  const [selectedRun, setSelectedRun] = useState<ReconciliationRun | null>(null)
+  const [discrepancies, setDiscrepancies] = useState<ReconciliationDiscrepancy[]>([])
+  const [loading, setLoading] = useState(true)
+  const [running, setRunning] = useState(false)
+
+  useEffect(() => {
+    loadRuns()
+  }, [])
+
+  const loadRuns = async (selectId?: string) => {
+    try {
+      const data: ReconciliationRun[] = await api.getReconciliationRuns(30)
+      setRuns(data)
+
+      const run = data.find((r) => r.id === selectId) || data[0]
+      if (run) {
+        await selectRun(run)
+      }
+    } catch (error) {
+      console.error('Failed to load reconciliation runs:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const selectRun = async (run: ReconciliationRun) => {
+    setSelectedRun(run)
+    try {
+      const report = await api.getReconciliationRun(run.id)
+      setDiscrepancies(report.discrepancies || [])
+    } catch (error) {
+      console.error('Failed to load discrepancies:', error)
+    }
+  }
+
+  const handleRun = async () => {
+    setRunning(true)
+    try {
+      const run = await api.runReconciliation()
+      await loadRuns(run.id)
+    } catch (error: any) {
+      alert(error.message || 'Reconciliation failed')
+    } finally {
+      setRunning(false)
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-96">
+        <div className="text-secondary">Loading reconciliation...</div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-semibold text-foreground">Reconciliation</h1>
+          <p className="text-secondary mt-1">
+            Daily comparison of your ledger with the processor&apos;s balance transactions
+          </p>
+        </div>
+        <button
+          onClick={handleRun}
+          disabled={running}
+          className="btn-primary disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {running ? 'Reconciling...' : 'Reconcile Yesterday'}
+        </button>
+      </div>
+
+      {runs.length === 0 ? (
+        <div className="card p-12 text-center">
+          <h3 className="text-lg font-medium text-foreground mb-2">
+            No reconciliation runs yet
+          </h3>
+          <p className="text-secondary text-sm">
+            Your ledger is reconciled every night; reports will appear here
+          </p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          {/* Runs */}
+          <div className="card p-0 overflow-hidden">
+            <div className="divide-y divide-border">
+              {runs.map((run) => (
+                <button
+                  key={run.id}
+                  onClick={() => selectRun(run)}
+                  className={`w-full text-left px-4 py-3 hover:bg-card transition-colors ${selectedRun?.id === run.id ? 'bg-accent/5' : ''}`}
+                >
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm font-medium text-foreground">
+                      {formatDate(run.period_start)}
+                    </span>
+                    <span className={getStatusBadgeClass(run.status)}>
+                      {run.status}
+                    </span>
+                  </div>
+                  <div className="text-xs text-secondary mt-1">
+                    {run.matched} matched
+                    {run.discrepancies > 0 && (
+                      <span className="text-error"> · {run.discrepancies} discrepancies</span>
+                    )}
+                    {run.trigger === 'manual' && ' · manual'}
+                  </div>
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* Report */}
+          {selectedRun && (
+            <div className="lg:col-span-2 space-y-4">
+              <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+                <div className="bg-card rounded-apple p-4 border border-border">
+                  <p className="text-xs text-secondary mb-1">Processor</p>
+                  <p className="text-2xl font-semibold text-foreground">{selectedRun.processor_transactions}</p>
+                </div>
+                <div className="bg-card rounded-apple p-4 border border-border">
+                  <p className="text-xs text-secondary mb-1">Ledger</p>
+                  <p className="text-2xl font-semibold text-foreground">{selectedRun.ledger_entries}</p>
+                </div>
+                <div className="bg-card rounded-apple p-4 border border-border">
+                  <p className="text-xs text-secondary mb-1">Matched</p>
+                  <p className="text-2xl font-semibold text-success">{selectedRun.matched}</p>
+                </div>
+                <div className="bg-card rounded-apple p-4 border border-border">
+                  <p className="text-xs text-secondary mb-1">Discrepancies</p>
+                  <p className={`text-2xl font-semibold ${selectedRun.discrepancies > 0 ? 'text-error' : 'text-foreground'}`}>
+                    {selectedRun.discrepancies}
+                  </p>
+                </div>
+              </div>
+
+              {selectedRun.status === 'failed' && (
+                <div className="bg-error/10 border border-error/20 rounded-apple p-4">
+                  <p className="text-sm text-error">{selectedRun.error_message || 'Reconciliation failed'}</p>
+                </div>
+              )}
+
+              <div className="card p-0 overflow-hidden">
+                {discrepancies.length === 0 ? (
+                  <div className="p-12 text-center text-secondary text-sm">
+                    {selectedRun.status === 'completed'
+                      ? `Everything matched for ${formatDateTime(selectedRun.period_start)} – ${formatDateTime(selectedRun.period_end)}`
+                      : 'No discrepancies recorded'}
+                  </div>
+                ) : (
+                  <div className="overflow-x-auto">
+                    <table className="w-full">
+                      <thead>
+                        <tr className="border-b border-border">
+                          <th className="px-6 py-3 text-left text-xs font-medium text-secondary uppercase tracking-wider">
+                            Discrepancy
+                          </th>
+                          <th className="px-6 py-3 text-left text-xs font-medium text-secondary uppercase tracking-wider">
+                            Object
+                          </th>
+                          <th className="px-6 py-3 text-right text-xs font-medium text-secondary uppercase tracking-wider">
+                            Processor
+                          </th>
+                          <th className="px-6 py-3 text-right text-xs font-medium text-secondary uppercase tracking-wider">
+                            Ledger
+                          </th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-border">
+                        {discrepancies.map((discrepancy) => (
+                          <tr key={discrepancy.id} className="hover:bg-card transition-colors">
+                            <td className="px-6 py-4">
+                              <span className="badge-error">
+                                {DISCREPANCY_LABELS[discrepancy.type]}
+                              </span>
+                            </td>
+                            <td className="px-6 py-4">
+                              <div className="text-sm font-medium text-foreground capitalize">
+                                {discrepancy.object_type}
+                              </div>
+                              <div className="text-xs text-secondary font-mono">
+                                {discrepancy.object_id}
+                              </div>
+                            </td>
+                            <td className="px-6 py-4 text-right text-sm text-foreground">
+                              {discrepancy.processor_amount != null
+                                ? formatCurrency(discrepancy.processor_amount, discrepancy.currency)
+                                : '—'}
+                              {discrepancy.balance_transaction_ids.length > 1 && (
+                                <div className="text-xs text-secondary">×{discrepancy.balance_transaction_ids.length}</div>
+                              )}
+                            </td>
+                            <td className="px-6 py-4 text-right text-sm text-foreground">
+                              {discrepancy.ledger_amount != null
+                                ? formatCurrency(discrepancy.ledger_amount, discrepancy.currency)
+                                : '—'}
+                              {discrepancy.ledger_entry_ids.length > 1 && (
+                                <div className="text-xs text-secondary">×{discrepancy.ledger_entry_ids.length}</div>
+                              )}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
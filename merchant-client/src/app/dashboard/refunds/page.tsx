@@ -2,7 +2,7 @@
 
 import { useEffect, useState } from 'react'
 import { api } from '@/lib/api'
-import { formatCurrency, formatDateTime, getStatusBadgeClass } from '@/lib/utils'
+import { formatCurrency, formatDateTime, getStatusBadgeClass, fromMinorUnits, toMinorUnits, getAmountStep, getMinorUnits } from '@/lib/utils'
 import type { Refund, Transaction } from '@/types'
 
 export default function RefundsPage() {
@@ -30,6 +30,17 @@ export default function RefundsPage() {
     }
   }
 
+  const handleCancel = async (refundId: string) => {
+    if (!confirm('Cancel this refund?')) return
+
+    try {
+      await api.cancelRefund(refundId)
+      loadData()
+    } catch (error: any) {
+      alert(error.message || 'Failed to cancel refund')
+    }
+  }
+
   if (loading) {
     return (
       <div className="flex items-center justify-center h-96">
@@ -176,6 +187,19 @@ export default function RefundsPage() {
                         <span className={getStatusBadgeClass(refund.status)}>
                           {refund.status}
                         </span>
+                        {refund.failure_reason && (
+                          <div className="text-xs text-error mt-1">
+                            {refund.failure_reason.replace(/_/g, ' ')}
+                          </div>
+                        )}
+                        {refund.status === 'pending' && (
+                          <button
+                            onClick={() => handleCancel(refund.id)}
+                            className="block text-xs text-accent hover:underline mt-1"
+                          >
+                            Cancel
+                          </button>
+                        )}
                       </td>
                       <td className="px-6 py-4 text-sm text-secondary">
                         {formatDateTime(refund.created_at)}
@@ -234,8 +258,9 @@ function CreateRefundModal({
   }
 
   const maxRefundAmount = selectedTransaction
-    ? (selectedTransaction.amount - selectedTransaction.refunded_amount) / 100
+    ? fromMinorUnits(selectedTransaction.amount - selectedTransaction.refunded_amount, selectedTransaction.currency)
     : 0
+  const refundCurrency = selectedTransaction?.currency || 'USD'
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
@@ -248,7 +273,7 @@ function CreateRefundModal({
       }
 
       if (formData.amount) {
-        data.amount = parseFloat(formData.amount) * 100
+        data.amount = toMinorUnits(formData.amount, refundCurrency)
       }
 
       await api.createRefund(data)
@@ -358,10 +383,10 @@ function CreateRefundModal({
                 value={formData.amount}
                 onChange={(e) => setFormData({ ...formData, amount: e.target.value })}
                 className="input"
-                placeholder={`Max: ${maxRefundAmount.toFixed(2)}`}
+                placeholder={`Max: ${maxRefundAmount.toFixed(getMinorUnits(refundCurrency))}`}
                 max={maxRefundAmount}
                 min="0"
-                step="0.01"
+                step={getAmountStep(refundCurrency)}
                 disabled={!selectedTransaction}
               />
               <p className="text-xs text-secondary mt-1">
@@ -0,0 +1,411 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { api } from '@/lib/api'
+import { formatCurrency, formatDateTime, getStatusBadgeClass } from '@/lib/utils'
+import type { Review, Transaction } from '@/types'
+
+const REASON_LABELS: Record<Review['reason'], string> = {
+  risk_rules: 'Risk rules',
+  amount_threshold: 'Large amount',
+}
+
+/**
+ * Time left before a review's SLA, e.g. "3h 20m left" or "45m overdue"
+ */
+function formatSlaRemaining(dueAt: string, now: number): string {
+  const diffMinutes = Math.round((new Date(dueAt).getTime() - now) / 60000)
+  const minutes = Math.abs(diffMinutes)
+  const label = minutes >= 60 ? `${Math.floor(minutes / 60)}h ${minutes % 60}m` : `${minutes}m`
+
+  return diffMinutes >= 0 ? `${label} left` : `${label} overdue`
+}
+
+export default function ReviewsPage() {
+  const [reviews, setReviews] = useState<Review[]>([])
+  const [transactions, setTransactions] = useState<Transaction[]>([])
+  const [loading, setLoading] = useState(true)
+  const [statusFilter, setStatusFilter] = useState('open')
+  const [selectedReview, setSelectedReview] = useState<Review | null>(null)
+  const [now, setNow] = useState(Date.now())
+
+  useEffect(() => {
+    loadData()
+  }, [statusFilter])
+
+  // Keep the SLA timers current
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 30000)
+    return () => clearInterval(timer)
+  }, [])
+
+  const loadData = async () => {
+    try {
+      const [reviewsData, transactionsData] = await Promise.all([
+        api.getReviews(statusFilter || undefined),
+        api.getTransactions(100),
+      ])
+      setReviews(reviewsData)
+      setTransactions(transactionsData)
+    } catch (error) {
+      console.error('Failed to load reviews:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-96">
+        <div className="text-secondary">Loading reviews...</div>
+      </div>
+    )
+  }
+
+  const openReviews = reviews.filter((r) => r.status === 'open')
+  const overdueReviews = openReviews.filter((r) => new Date(r.sla_due_at).getTime() < now).length
+  const heldReviews = openReviews.filter((r) => r.held).length
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-semibold text-foreground">Reviews</h1>
+          <p className="text-secondary mt-1">
+            Approve or reject payments held for manual review
+          </p>
+        </div>
+        <select
+          value={statusFilter}
+          onChange={(e) => setStatusFilter(e.target.value)}
+          className="input w-auto"
+        >
+          <option value="open">Open</option>
+          <option value="approved">Approved</option>
+          <option value="rejected">Rejected</option>
+          <option value="canceled">Canceled</option>
+          <option value="">All</option>
+        </select>
+      </div>
+
+      {/* Stats */}
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+        <div className="bg-card rounded-apple p-4 border border-border">
+          <p className="text-xs text-secondary mb-1">Open</p>
+          <p className="text-2xl font-semibold text-foreground">
+            {openReviews.length}
+          </p>
+        </div>
+        <div className="bg-card rounded-apple p-4 border border-border">
+          <p className="text-xs text-secondary mb-1">Held Authorizations</p>
+          <p className="text-2xl font-semibold text-warning">
+            {heldReviews}
+          </p>
+        </div>
+        <div className="bg-card rounded-apple p-4 border border-border">
+          <p className="text-xs text-secondary mb-1">Past SLA</p>
+          <p className="text-2xl font-semibold text-error">
+            {overdueReviews}
+          </p>
+        </div>
+      </div>
+
+      {/* Reviews Table */}
+      <div className="card p-0 overflow-hidden">
+        {reviews.length === 0 ? (
+          <div className="p-12 text-center">
+            <h3 className="text-lg font-medium text-foreground mb-2">
+              No reviews
+            </h3>
+            <p className="text-secondary text-sm">
+              Payments flagged by your risk rules or review amounts will appear here
+            </p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b border-border">
+                  <th className="px-6 py-3 text-left text-xs font-medium text-secondary uppercase tracking-wider">
+                    Payment
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-secondary uppercase tracking-wider">
+                    Amount
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-secondary uppercase tracking-wider">
+                    Reason
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-secondary uppercase tracking-wider">
+                    Risk Score
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-secondary uppercase tracking-wider">
+                    Status
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-secondary uppercase tracking-wider">
+                    SLA
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-border">
+                {reviews.map((review) => {
+                  const transaction = transactions.find((t) => t.id === review.transaction_id)
+                  const overdue = review.status === 'open' && new Date(review.sla_due_at).getTime() < now
+
+                  return (
+                    <tr
+                      key={review.id}
+                      onClick={() => setSelectedReview(review)}
+                      className="hover:bg-card transition-colors cursor-pointer"
+                    >
+                      <td className="px-6 py-4">
+                        <div className="text-sm font-medium text-foreground">
+                          {transaction?.description || 'Payment'}
+                        </div>
+                        <div className="text-xs text-secondary font-mono">
+                          {review.transaction_id.slice(0, 12)}...
+                        </div>
+                      </td>
+                      <td className="px-6 py-4">
+                        <span className="text-sm font-medium text-foreground">
+                          {transaction ? formatCurrency(transaction.amount, transaction.currency) : '—'}
+                        </span>
+                      </td>
+                      <td className="px-6 py-4">
+                        <span className="text-sm text-secondary">
+                          {REASON_LABELS[review.reason]}
+                        </span>
+                        {!review.held && (
+                          <div className="text-xs text-secondary mt-1">Already settled</div>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 text-sm text-foreground">
+                        {review.risk_score ?? '—'}
+                      </td>
+                      <td className="px-6 py-4">
+                        <span className={getStatusBadgeClass(review.status)}>
+                          {review.status}
+                        </span>
+                        {review.closed_reason && review.closed_reason !== review.status && (
+                          <div className="text-xs text-secondary mt-1">
+                            {review.closed_reason.replace(/_/g, ' ')}
+                          </div>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 text-sm">
+                        {review.status === 'open' ? (
+                          <span className={overdue ? 'text-error font-medium' : 'text-secondary'}>
+                            {formatSlaRemaining(review.sla_due_at, now)}
+                          </span>
+                        ) : (
+                          <span className="text-secondary">
+                            {review.closed_at ? formatDateTime(review.closed_at) : '—'}
+                          </span>
+                        )}
+                      </td>
+                    </tr>
+                  )
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {/* Review Modal */}
+      {selectedReview && (
+        <ReviewModal
+          review={selectedReview}
+          transaction={transactions.find((t) => t.id === selectedReview.transaction_id)}
+          now={now}
+          onClose={() => setSelectedReview(null)}
+          onUpdated={(review) => {
+            setSelectedReview(review.status === 'open' ? review : null)
+            loadData()
+          }}
+        />
+      )}
+    </div>
+  )
+}
+
+// Review Modal
+function ReviewModal({
+  review,
+  transaction,
+  now,
+  onClose,
+  onUpdated,
+}: {
+  review: Review
+  transaction?: Transaction
+  now: number
+  onClose: () => void
+  onUpdated: (review: Review) => void
+}) {
+  const [loading, setLoading] = useState(false)
+  const [note, setNote] = useState('')
+  const [refund, setRefund] = useState(false)
+
+  const run = async (action: () => Promise<Review>) => {
+    setLoading(true)
+
+    try {
+      const updated = await action()
+      setNote('')
+      onUpdated(updated)
+    } catch (error: any) {
+      alert(error.message || 'Failed to update review')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleApprove = () => {
+    if (!confirm(review.held ? 'Approve and capture this payment?' : 'Approve this payment?')) return
+    run(() => api.approveReview(review.id, note || undefined))
+  }
+
+  const handleReject = () => {
+    const message = review.held
+      ? 'Reject this payment? The authorization will be voided.'
+      : refund ? 'Reject and refund this payment?' : 'Reject this payment without refunding it?'
+    if (!confirm(message)) return
+    run(() => api.rejectReview(review.id, { note: note || undefined, refund: !review.held && refund }))
+  }
+
+  const handleAddNote = () => {
+    if (!note.trim()) return
+    run(() => api.addReviewNote(review.id, note))
+  }
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center p-4 z-50 animate-fade-in"
+      onClick={onClose}
+    >
+      <div
+        className="card max-w-lg w-full max-h-[90vh] overflow-y-auto animate-slide-up"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-start justify-between mb-6">
+          <div>
+            <h2 className="text-2xl font-semibold text-foreground">Review Payment</h2>
+            <p className="text-sm text-secondary mt-1">
+              {REASON_LABELS[review.reason]} · opened {formatDateTime(review.opened_at)}
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-secondary hover:text-foreground transition-colors"
+          >
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="space-y-4">
+          {/* Payment Details */}
+          <div className="bg-card border border-border rounded-apple p-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <p className="text-xs text-secondary mb-1">Amount</p>
+                <p className="text-sm font-medium text-foreground">
+                  {transaction ? formatCurrency(transaction.amount, transaction.currency) : '—'}
+                </p>
+              </div>
+              <div>
+                <p className="text-xs text-secondary mb-1">Risk Score</p>
+                <p className="text-sm font-medium text-foreground">{review.risk_score ?? '—'}</p>
+              </div>
+              <div>
+                <p className="text-xs text-secondary mb-1">Payment Status</p>
+                <p className="text-sm font-medium text-foreground">
+                  {transaction?.status.replace(/_/g, ' ') || '—'}
+                </p>
+              </div>
+              <div>
+                <p className="text-xs text-secondary mb-1">SLA</p>
+                <p className="text-sm font-medium text-foreground">
+                  {review.status === 'open' ? formatSlaRemaining(review.sla_due_at, now) : review.status}
+                </p>
+              </div>
+            </div>
+          </div>
+
+          {/* Notes */}
+          <div>
+            <p className="text-sm font-medium text-foreground mb-2">Notes</p>
+            {review.notes.length === 0 ? (
+              <p className="text-sm text-secondary">No notes yet</p>
+            ) : (
+              <ul className="space-y-2">
+                {review.notes.map((entry, index) => (
+                  <li key={index} className="bg-card border border-border rounded-apple p-3">
+                    <p className="text-sm text-foreground whitespace-pre-wrap">{entry.note}</p>
+                    <p className="text-xs text-secondary mt-1">
+                      {entry.author} · {formatDateTime(entry.created_at)}
+                    </p>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          {review.status === 'open' && (
+            <>
+              <div>
+                <textarea
+                  value={note}
+                  onChange={(e) => setNote(e.target.value)}
+                  className="input min-h-[80px]"
+                  placeholder="Add a note for other reviewers..."
+                />
+                <button
+                  type="button"
+                  onClick={handleAddNote}
+                  disabled={loading || !note.trim()}
+                  className="text-sm text-accent hover:underline mt-1 disabled:opacity-50"
+                >
+                  Add note
+                </button>
+              </div>
+
+              {!review.held && (
+                <label className="flex items-center gap-2 text-sm text-foreground">
+                  <input
+                    type="checkbox"
+                    checked={refund}
+                    onChange={(e) => setRefund(e.target.checked)}
+                  />
+                  Refund the payment when rejecting
+                </label>
+              )}
+
+              {/* Actions */}
+              <div className="flex gap-3 pt-4">
+                <button
+                  type="button"
+                  onClick={handleReject}
+                  disabled={loading}
+                  className="btn-secondary flex-1 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Reject
+                </button>
+                <button
+                  type="button"
+                  onClick={handleApprove}
+                  disabled={loading}
+                  className="btn-primary flex-1 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {loading ? 'Processing...' : review.held ? 'Approve & Capture' : 'Approve'}
+                </button>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -510,9 +510,15 @@ fetch('https://api.neurafinance.com/payments', {
               'payment.succeeded',
               'payment.failed',
               'payment.pending',
+              'payment.requires_action',
+              'payment.processing',
               'refund.created',
               'refund.succeeded',
               'refund.failed',
+              'review.opened',
+              'review.closed',
+              'payout.paid',
+              'payout.failed',
             ].map((event) => (
               <div key={event} className="flex items-center gap-2 text-sm">
                 <svg className="w-4 h-4 text-success" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -110,6 +110,7 @@ export default function TransactionsPage() {
             <option value="succeeded">Succeeded</option>
             <option value="pending">Pending</option>
             <option value="processing">Processing</option>
+            <option value="in_review">In review</option>
             <option value="failed">Failed</option>
             <option value="refunded">Refunded</option>
           </select>
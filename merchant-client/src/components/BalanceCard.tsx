@@ -8,6 +8,7 @@ const API_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3000'
 interface BalanceData {
   available: number
   pending: number
+  reserve?: number
   currency: string
 }
 
@@ -95,6 +96,14 @@ export default function BalanceCard() {
           <div className="text-lg font-semibold text-secondary">
             {formatCurrency(balance.pending, balance.currency)}
           </div>
+          {!!balance.reserve && (
+            <>
+              <h3 className="text-sm font-medium text-secondary mt-3 mb-1">Reserve</h3>
+              <div className="text-lg font-semibold text-secondary">
+                {formatCurrency(balance.reserve, balance.currency)}
+              </div>
+            </>
+          )}
         </div>
       </div>
 
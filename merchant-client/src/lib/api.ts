@@ -1,3 +1,5 @@
+import type { LedgerEntryFilters, PayoutSettings } from '@/types'
+
 const API_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3000'
 
 interface RequestOptions {
@@ -57,6 +59,14 @@ export async function apiRequest<T>(
   return responseData.data || responseData
 }
 
+function ledgerParams(filters: LedgerEntryFilters): URLSearchParams {
+  const params = new URLSearchParams()
+  for (const [key, value] of Object.entries(filters)) {
+    if (value) params.append(key, value)
+  }
+  return params
+}
+
 /**
  * API client methods
  */
@@ -104,8 +114,10 @@ export const api = {
     }),
 
   // Refunds
-  getRefunds: (limit = 100) =>
-    apiRequest<any[]>(`/refunds?limit=${limit}`),
+  getRefunds: async (limit = 100) => {
+    const response = await apiRequest<any>(`/refunds?limit=${limit}`);
+    return response.refunds || [];
+  },
 
   createRefund: (data: any) =>
     apiRequest<any>('/refunds', {
@@ -113,6 +125,104 @@ export const api = {
       body: data,
     }),
 
+  cancelRefund: (id: string) =>
+    apiRequest<any>(`/refunds/${id}/cancel`, {
+      method: 'POST',
+    }),
+
+  // Reviews
+  getReviews: async (status?: string, limit = 100) => {
+    const query = status ? `&status=${status}` : '';
+    const response = await apiRequest<any>(`/reviews?limit=${limit}${query}`);
+    return response.reviews || [];
+  },
+
+  addReviewNote: (id: string, note: string) =>
+    apiRequest<any>(`/reviews/${id}/notes`, {
+      method: 'POST',
+      body: { note },
+    }),
+
+  approveReview: (id: string, note?: string) =>
+    apiRequest<any>(`/reviews/${id}/approve`, {
+      method: 'POST',
+      body: { note },
+    }),
+
+  rejectReview: (id: string, data: { note?: string; refund?: boolean }) =>
+    apiRequest<any>(`/reviews/${id}/reject`, {
+      method: 'POST',
+      body: data,
+    }),
+
+  // Ledger
+  getLedgerEntries: (filters: LedgerEntryFilters = {}, limit = 50, offset = 0) => {
+    const params = ledgerParams(filters);
+    params.append('limit', limit.toString());
+    params.append('offset', offset.toString());
+    return apiRequest<any>(`/ledger/entries?${params.toString()}`);
+  },
+
+  // CSV comes back as a file, not the JSON envelope
+  downloadLedgerCsv: async (filters: LedgerEntryFilters = {}) => {
+    const accessToken = localStorage.getItem('accessToken')
+
+    if (!accessToken) {
+      if (typeof window !== 'undefined') {
+        window.location.href = '/'
+      }
+      throw new Error('Not authenticated')
+    }
+
+    const query = ledgerParams(filters).toString()
+    const response = await fetch(`${API_URL}/ledger/entries/export${query ? `?${query}` : ''}`, {
+      headers: {
+        Authorization: `Bearer ${accessToken}`,
+      },
+    })
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({ error: { message: 'Export failed' } }))
+      throw new Error(error.error?.message || error.message || `HTTP ${response.status}`)
+    }
+
+    return response.blob()
+  },
+
+  // Reconciliation
+  getReconciliationRuns: async (limit = 30) => {
+    const response = await apiRequest<any>(`/reconciliation/runs?limit=${limit}`);
+    return response.runs || [];
+  },
+
+  getReconciliationRun: (id: string) =>
+    apiRequest<any>(`/reconciliation/runs/${id}`),
+
+  runReconciliation: (data: { start_date?: string; end_date?: string } = {}) =>
+    apiRequest<any>('/reconciliation/runs', {
+      method: 'POST',
+      body: data,
+    }),
+
+  // Payouts
+  getPayouts: (limit = 20, offset = 0) =>
+    apiRequest<any>(`/payouts?limit=${limit}&offset=${offset}`),
+
+  createPayout: (amount?: number) =>
+    apiRequest<any>('/payouts', {
+      method: 'POST',
+      body: amount ? { amount } : {},
+    }),
+
+  getPayoutSettings: () =>
+    apiRequest<any>('/payouts/settings'),
+
+  updatePayoutSettings: (data: Partial<PayoutSettings>) =>
+    apiRequest<any>('/payouts/settings', {
+      method: 'PUT',
+      body: data,
+    }),
+
   // Stripe Connect
   getStripeConnectStatus: () =>
     apiRequest<any>('/stripe-connect/status'),
@@ -7,6 +7,54 @@ export function cn(...inputs: ClassValue[]) {
   return clsx(inputs)
 }
 
+/**
+ * ISO 4217 minor units for currencies that don't use two decimals
+ * Mirrors the API's currency registry (src/config/currencies.config.ts)
+ */
+const CURRENCY_MINOR_UNITS: Record<string, number> = {
+  jpy: 0,
+  krw: 0,
+  vnd: 0,
+  clp: 0,
+  xof: 0,
+  xaf: 0,
+  ugx: 0,
+  bhd: 3,
+  jod: 3,
+  kwd: 3,
+  omr: 3,
+  tnd: 3,
+}
+
+/**
+ * Number of decimal places for a currency (2 unless listed above)
+ */
+export function getMinorUnits(currency: string = 'USD'): number {
+  return CURRENCY_MINOR_UNITS[currency.toLowerCase()] ?? 2
+}
+
+/**
+ * Convert an API amount (smallest currency unit) to a decimal amount
+ */
+export function fromMinorUnits(amount: number, currency: string = 'USD'): number {
+  return amount / Math.pow(10, getMinorUnits(currency))
+}
+
+/**
+ * Convert a decimal amount entered by the user to the smallest currency unit
+ */
+export function toMinorUnits(amount: string | number, currency: string = 'USD'): number {
+  const value = typeof amount === 'string' ? parseFloat(amount) : amount
+  return Math.round(value * Math.pow(10, getMinorUnits(currency)))
+}
+
+/**
+ * Input step for a currency amount field, e.g. 0.01 for USD, 1 for JPY
+ */
+export function getAmountStep(currency: string = 'USD'): string {
+  return (1 / Math.pow(10, getMinorUnits(currency))).toFixed(getMinorUnits(currency))
+}
+
 /**
  * Format currency amount
  */
@@ -14,10 +62,13 @@ export function formatCurrency(
   amount: number,
   currency: string = 'USD'
 ): string {
+  const minorUnits = getMinorUnits(currency)
   return new Intl.NumberFormat('en-US', {
     style: 'currency',
     currency: currency.toUpperCase(),
-  }).format(amount / 100) // Amount is in cents
+    minimumFractionDigits: minorUnits,
+    maximumFractionDigits: minorUnits,
+  }).format(fromMinorUnits(amount, currency)) // Amount is in the smallest currency unit
 }
 
 /**
@@ -74,6 +125,7 @@ export function getStatusColor(status: string): string {
     succeeded: 'text-success',
     pending: 'text-warning',
     processing: 'text-accent',
+    requires_capture: 'text-accent',
     failed: 'text-error',
     refunded: 'text-secondary',
     active: 'text-success',
@@ -89,9 +141,21 @@ export function getStatusBadgeClass(status: string): string {
   const badges: Record<string, string> = {
     succeeded: 'badge-success',
     pending: 'badge-warning',
+    requires_action: 'badge-warning',
     processing: 'badge bg-accent/10 text-accent',
+    requires_capture: 'badge bg-accent/10 text-accent',
+    in_review: 'badge-warning',
+    open: 'badge-warning',
+    approved: 'badge-success',
+    rejected: 'badge-error',
     failed: 'badge-error',
+    completed: 'badge-success',
+    running: 'badge bg-accent/10 text-accent',
+    in_transit: 'badge bg-accent/10 text-accent',
+    paid: 'badge-success',
     refunded: 'badge-secondary',
+    available: 'badge-success',
+    reserve: 'badge bg-accent/10 text-accent',
     active: 'badge-success',
     inactive: 'badge-secondary',
   }
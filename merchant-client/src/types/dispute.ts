@@ -198,12 +198,8 @@ export const getDisputeReasonLabel = (reason: DisputeReason): string => {
   }
 };
 
-export const formatCurrency = (amount: number, currency: string): string => {
-  return new Intl.NumberFormat('en-US', {
-    style: 'currency',
-    currency: currency.toUpperCase(),
-  }).format(amount / 100);
-};
+// Shared with the rest of the dashboard so dispute amounts respect currency minor units
+export { formatCurrency } from '@/lib/utils';
 
 export const isDisputeActionable = (dispute: Dispute): boolean => {
   return (
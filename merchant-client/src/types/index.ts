@@ -27,7 +27,7 @@ export interface Transaction {
   currency: string
   description?: string
   payment_method: 'card' | 'crypto'
-  status: 'pending' | 'processing' | 'succeeded' | 'failed' | 'refunded'
+  status: 'pending' | 'requires_action' | 'processing' | 'requires_capture' | 'in_review' | 'succeeded' | 'failed' | 'canceled' | 'refunded'
   stripe_payment_intent_id?: string
   stripe_charge_id?: string
   platform_fee: number
@@ -76,12 +76,122 @@ export interface Refund {
   merchant_id: string
   amount: number
   reason?: string
-  status: 'pending' | 'succeeded' | 'failed'
+  status: 'pending' | 'succeeded' | 'failed' | 'canceled'
+  failure_reason?: string
   stripe_refund_id?: string
   created_at: string
   updated_at: string
 }
 
+// Review types
+export interface ReviewNote {
+  author: string
+  note: string
+  created_at: string
+}
+
+export interface Review {
+  id: string
+  merchant_id: string
+  transaction_id: string
+  status: 'open' | 'approved' | 'rejected' | 'canceled'
+  reason: 'risk_rules' | 'amount_threshold'
+  held: boolean
+  risk_score?: number
+  notes: ReviewNote[]
+  sla_due_at: string
+  sla_breached_at?: string
+  closed_reason?: string
+  closed_by?: string
+  refund_id?: string
+  opened_at: string
+  closed_at?: string
+  created_at: string
+  updated_at: string
+}
+
+export interface LedgerEntry {
+  id: string
+  journal_id: string
+  status: 'available' | 'pending' | 'reserve'
+  type: 'credit' | 'debit'
+  amount: number
+  currency: string
+  running_balance: number
+  source: 'payment' | 'refund' | 'dispute' | 'split' | 'payout' | 'release' | 'reserve' | 'adjustment'
+  description?: string
+  links: {
+    transaction_id?: string
+    refund_id?: string
+    dispute_id?: string
+    transfer_id?: string
+    split_id?: string
+  }
+  created_at: string
+}
+
+export interface LedgerEntryFilters {
+  start_date?: string
+  end_date?: string
+  type?: string
+  status?: string
+  source?: string
+}
+
+export interface Payout {
+  id: string
+  amount: number
+  currency: string
+  status: 'pending' | 'in_transit' | 'paid' | 'failed' | 'canceled'
+  trigger: 'manual' | 'scheduled'
+  destination: string
+  stripe_transfer_id?: string
+  stripe_payout_id?: string
+  arrival_date?: string
+  failure_code?: string
+  failure_message?: string
+  paid_at?: string
+  failed_at?: string
+  created_at: string
+}
+
+export interface PayoutSettings {
+  schedule: 'manual' | 'daily' | 'weekly' | 'monthly'
+  weekly_anchor: 'monday' | 'tuesday' | 'wednesday' | 'thursday' | 'friday' | 'saturday' | 'sunday' | null
+  monthly_anchor: number | null
+  minimum_amount: number
+}
+
+export interface ReconciliationRun {
+  id: string
+  source: 'stripe' | 'fixture'
+  trigger: 'scheduled' | 'manual'
+  status: 'running' | 'completed' | 'failed'
+  period_start: string
+  period_end: string
+  processor_transactions: number
+  ledger_entries: number
+  matched: number
+  discrepancies: number
+  error_message?: string
+  completed_at?: string
+  created_at: string
+}
+
+export interface ReconciliationDiscrepancy {
+  id: string
+  run_id: string
+  type: 'missing_in_ledger' | 'missing_at_processor' | 'duplicate' | 'amount_mismatch'
+  object_type: 'payment' | 'refund' | 'dispute' | 'transfer'
+  object_id: string
+  currency?: string
+  processor_amount?: number
+  ledger_amount?: number
+  balance_transaction_ids: string[]
+  ledger_entry_ids: string[]
+  created_at: string
+}
+
 // Stats types
 export interface DashboardStats {
   total_revenue: number
@@ -6,6 +6,8 @@ import cors from 'cors';
 import { errorHandler, asyncHandler } from './src/middleware/errorHandler';
 import { requestLogger } from './src/middleware/logger';
 import { posthogMiddleware } from './src/middleware/posthog';
+import { validate } from './src/middleware/validate';
+import { paymentLinkCheckoutSchema } from './src/schemas/paymentLink.schema';
 
 import { ddosMiddleware, ddosProtection } from './src/middleware/ddosProtection';
 import { burstMiddleware, burstDetection } from './src/middleware/burstDetection';
@@ -15,10 +17,24 @@ const authRoutes = require('./src/routes/auth.routes').default;
 const merchantRoutes = require('./src/routes/merchants.routes').default;
 const paymentRoutes = require('./src/routes/payments.routes').default;
 const paymentLinksRoutes = require('./src/routes/paymentLinks.routes').default;
+const customerRoutes = require('./src/routes/customers.routes').default;
 const stripeConnectRoutes = require('./src/routes/stripeConnect.routes').default;
 const webhookRoutes = require('./src/routes/webhooks.routes').default;
 const disputeRoutes = require('./src/routes/disputes.routes').default;
 const utilsRoutes = require('./src/routes/utils.routes').default;
+const adminRoutes = require('./src/routes/admin.routes').default;
+const sandboxRoutes = require('./src/routes/sandbox.routes').default;
+const productRoutes = require('./src/routes/products.routes').default;
+const planRoutes = require('./src/routes/plans.routes').default;
+const subscriptionRoutes = require('./src/routes/subscriptions.routes').default;
+const invoiceRoutes = require('./src/routes/invoices.routes').default;
+const batchRoutes = require('./src/routes/batches.routes').default;
+const refundRoutes = require('./src/routes/refunds.routes').default;
+const fraudRoutes = require('./src/routes/fraud.routes').default;
+const reviewRoutes = require('./src/routes/reviews.routes').default;
+const ledgerRoutes = require('./src/routes/ledger.routes').default;
+const reconciliationRoutes = require('./src/routes/reconciliation.routes').default;
+const payoutRoutes = require('./src/routes/payouts.routes').default;
 
 const app: Application = express();
 
@@ -48,7 +64,9 @@ app.use(helmet({
     directives: {
       defaultSrc: ["'self'"],
       styleSrc: ["'self'", "'unsafe-inline'"],
-      scriptSrc: ["'self'", "'unsafe-inline'"],
+      scriptSrc: ["'self'", "'unsafe-inline'", 'https://js.stripe.com'],
+      frameSrc: ["'self'", 'https://js.stripe.com', 'https://hooks.stripe.com'],
+      connectSrc: ["'self'", 'https://api.stripe.com'],
       imgSrc: ["'self'", 'data:', 'https:'],
     },
   },
@@ -65,6 +83,7 @@ app.use(cors({
   credentials: true,
   methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
   allowedHeaders: ['Content-Type', 'Authorization', 'X-API-Key', 'X-Signature', 'X-Timestamp', 'Idempotency-Key'],
+  exposedHeaders: ['Idempotent-Replayed'],
 }));
 
 // 3. DDoS Protection (First line of defense)
@@ -181,9 +200,28 @@ app.use('/api/merchants', merchantRoutes);
 // Payment routes (payment-specific rate limiting)
 app.use('/api/payments', advancedRateLimiting.paymentLimiter, paymentRoutes);
 
+// Refund routes (payment-specific rate limiting)
+app.use('/api/refunds', advancedRateLimiting.paymentLimiter, refundRoutes);
+
 // Payment Links routes (standard rate limiting)
 app.use('/api/payment-links', paymentLinksRoutes);
 
+// Customer routes (standard rate limiting)
+app.use('/api/customers', customerRoutes);
+
+// Recurring billing routes (standard rate limiting)
+app.use('/api/products', productRoutes);
+app.use('/api/plans', planRoutes);
+app.use('/api/subscriptions', subscriptionRoutes);
+app.use('/api/invoices', invoiceRoutes);
+
+// Bulk payment and refund batches
+app.use('/api/batches', batchRoutes);
+
+// Risk rules and screening results
+app.use('/api/fraud', fraudRoutes);
+app.use('/api/reviews', reviewRoutes);
+
 // Dispute routes (standard rate limiting)
 app.use('/api/disputes', disputeRoutes);
 app.use('/api/merchants', disputeRoutes);
@@ -191,9 +229,22 @@ app.use('/api/merchants', disputeRoutes);
 // Stripe Connect routes (standard rate limiting)
 app.use('/api/stripe-connect', stripeConnectRoutes);
 
+// Payouts and payout schedules
+app.use('/api/payouts', payoutRoutes);
+
+// Ledger history, CSV export and reconciliation against the processor
+app.use('/api/ledger', ledgerRoutes);
+app.use('/api/reconciliation', reconciliationRoutes);
+
 // Webhook routes (permissive rate limiting for external services)
 app.use('/api/webhooks', advancedRateLimiting.webhookLimiter, webhookRoutes);
 
+// Admin routes (X-Admin-Key)
+app.use('/api/admin', adminRoutes);
+
+// Sandbox simulator routes (public; checkout confirmation and 3DS challenges)
+app.use('/api/sandbox', advancedRateLimiting.paymentLimiter, sandboxRoutes);
+
 // Utility routes (public, for client IP, etc.)
 // app.use('/utils', utilsRoutes);
 
@@ -235,6 +286,73 @@ app.get('/api/pay/:slug', asyncHandler(async (req: Request, res: Response) => {
   }
 }));
 
+// Public payment link checkout - create a payment intent for the link
+app.post(
+  '/api/pay/:slug/checkout',
+  advancedRateLimiting.paymentLimiter,
+  validate(paymentLinkCheckoutSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const paymentLinksService = require('./src/services/paymentLinks.service').default;
+
+    const { slug } = req.params;
+    const { amount, customer_email, customer_name } = req.body;
+
+    const checkout = await paymentLinksService.createCheckout(slug, {
+      amount,
+      customer_email,
+      customer_name,
+    });
+
+    res.status(201).json({ success: true, data: checkout });
+  })
+);
+
+// Public hosted invoice page - serve HTML
+app.get('/invoice/:token', (_req: Request, res: Response) => {
+  res.sendFile('invoice.html', { root: './public' });
+});
+
+// Public hosted invoice API - get data
+app.get('/api/invoice/:token', asyncHandler(async (req: Request, res: Response) => {
+  const invoicesService = require('./src/services/invoices.service').default;
+  const merchantsService = require('./src/services/merchants.service').default;
+
+  const invoice = await invoicesService.getHostedInvoice(req.params.token);
+  const branding = await merchantsService.getBranding(invoice.merchant_id);
+
+  res.json({
+    success: true,
+    data: {
+      invoice,
+      branding,
+    },
+  });
+}));
+
+// Public hosted invoice checkout - create a payment intent for the amount due
+app.post(
+  '/api/invoice/:token/checkout',
+  advancedRateLimiting.paymentLimiter,
+  asyncHandler(async (req: Request, res: Response) => {
+    const invoicesService = require('./src/services/invoices.service').default;
+
+    const checkout = await invoicesService.createHostedCheckout(req.params.token);
+
+    res.status(201).json({ success: true, data: checkout });
+  })
+);
+
+// Public hosted invoice PDF
+app.get('/api/invoice/:token/pdf', asyncHandler(async (req: Request, res: Response) => {
+  const invoicesService = require('./src/services/invoices.service').default;
+
+  const { filename, pdf } = await invoicesService.getHostedInvoicePdf(req.params.token);
+
+  res.setHeader('Content-Type', 'application/pdf');
+  res.setHeader('Content-Disposition', `inline; filename="${filename}"`);
+  res.send(pdf);
+}));
+
 // ==============================================
 // ERROR HANDLING
 // ==============================================
@@ -277,6 +395,13 @@ const server = app.listen(PORT, () => {
   console.log(`${'='.repeat(60)}\n`);
 });
 
+// Background jobs: webhook and email delivery, batches, billing and cleanup crons
+const jobs = require('./src/services/jobs').default;
+require('./src/services/jobs/queues').registerQueues();
+jobs.start().catch((error: Error) => {
+  console.error('Failed to start job queues:', error.message);
+});
+
 // ==============================================
 // GRACEFUL SHUTDOWN
 // ==============================================
@@ -284,8 +409,19 @@ const server = app.listen(PORT, () => {
 const gracefulShutdown = (signal: string) => {
   console.log(`\n${signal} received, shutting down gracefully...`);
 
-  server.close(() => {
-    console.log(' HTTP server closed');
+  // Stop accepting requests and jobs; active ones finish before exiting
+  const httpClosed = new Promise<void>((resolve) => {
+    server.close(() => {
+      console.log(' HTTP server closed');
+      resolve();
+    });
+  });
+
+  const jobsDrained = jobs.shutdown(8000).catch((error: Error) => {
+    console.error('Failed to drain job queues:', error.message);
+  });
+
+  Promise.all([httpClosed, jobsDrained]).then(() => {
     console.log('=K API Server stopped');
     process.exit(0);
   });
@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'bun:test';
+import { assertValidAmount, formatAmount, fromTwoDecimalUnits, validateAmount } from './currencies.config';
+
+describe('currency registry', () => {
+  it('formats amounts in each currency\'s minor units', () => {
+    expect(formatAmount(1050, 'usd')).toBe('10.50 USD');
+    expect(formatAmount(1050, 'JPY')).toBe('1050 JPY');
+    expect(formatAmount(1050, 'kwd')).toBe('1.050 KWD');
+  });
+
+  it('converts two-decimal amounts to other currencies', () => {
+    expect(fromTwoDecimalUnits(30, 'usd')).toBe(30);
+    expect(fromTwoDecimalUnits(30, 'jpy')).toBe(0);
+    expect(fromTwoDecimalUnits(30, 'kwd')).toBe(300);
+    expect(fromTwoDecimalUnits(30, 'xyz')).toBe(30);
+  });
+
+  it('accepts chargeable amounts case-insensitively', () => {
+    expect(validateAmount(50, 'USD')).toBeNull();
+    expect(validateAmount(50, 'jpy')).toBeNull();
+    expect(validateAmount(200, 'kwd')).toBeNull();
+  });
+
+  it('rejects unsupported currencies and malformed amounts', () => {
+    expect(validateAmount(1000, 'xyz')?.code).toBe('UNSUPPORTED_CURRENCY');
+    expect(validateAmount(10.5, 'usd')?.code).toBe('INVALID_AMOUNT');
+    expect(validateAmount(0, 'usd')?.code).toBe('INVALID_AMOUNT');
+    expect(validateAmount(205, 'kwd')).toEqual({ code: 'INVALID_AMOUNT', message: 'KWD amounts must be a multiple of 10' });
+  });
+
+  it('enforces the minimum charge unless told not to', () => {
+    expect(validateAmount(49, 'usd')).toEqual({ code: 'AMOUNT_BELOW_MINIMUM', message: 'Amount must be at least 0.50 USD' });
+    expect(validateAmount(49, 'usd', { enforceMinimum: false })).toBeNull();
+    expect(validateAmount(100000000, 'usd')?.code).toBe('AMOUNT_ABOVE_MAXIMUM');
+  });
+
+  it('throws a 400 for amounts that cannot be charged', () => {
+    expect(() => assertValidAmount(10, 'gbp')).toThrow('Amount must be at least 0.30 GBP');
+    expect(() => assertValidAmount(10, 'gbp', { enforceMinimum: false })).not.toThrow();
+  });
+});
@@ -0,0 +1,163 @@
+import { AppError } from '../middleware/errorHandler';
+
+/**
+ * Currency registry
+ * All amounts in the API are integers in the currency's smallest unit (ISO 4217 minor units):
+ * 1000 USD = $10.00, 1000 JPY = ¥1,000, 1000 KWD = 1.000 KD.
+ */
+export interface CurrencyDefinition {
+  code: string;
+  minor_units: number;
+  min_amount: number; // Smallest chargeable amount (processor minimum)
+  max_amount: number; // Largest chargeable amount
+  amount_increment: number; // Charges must be a multiple of this (three-decimal currencies settle in tens)
+}
+
+const MAX_AMOUNT = 99999999;
+
+const define = (code: string, minorUnits: number, minAmount: number): CurrencyDefinition => ({
+  code,
+  minor_units: minorUnits,
+  min_amount: minAmount,
+  max_amount: MAX_AMOUNT,
+  amount_increment: minorUnits === 3 ? 10 : 1,
+});
+
+export const CURRENCIES: Record<string, CurrencyDefinition> = {
+  // Two-decimal currencies
+  usd: define('usd', 2, 50),
+  eur: define('eur', 2, 50),
+  gbp: define('gbp', 2, 30),
+  cad: define('cad', 2, 50),
+  aud: define('aud', 2, 50),
+  nzd: define('nzd', 2, 50),
+  chf: define('chf', 2, 50),
+  sek: define('sek', 2, 300),
+  nok: define('nok', 2, 300),
+  dkk: define('dkk', 2, 250),
+  pln: define('pln', 2, 200),
+  czk: define('czk', 2, 1500),
+  huf: define('huf', 2, 17500),
+  mxn: define('mxn', 2, 1000),
+  brl: define('brl', 2, 50),
+  inr: define('inr', 2, 50),
+  sgd: define('sgd', 2, 50),
+  hkd: define('hkd', 2, 400),
+  aed: define('aed', 2, 200),
+  zar: define('zar', 2, 1000),
+  ngn: define('ngn', 2, 50000),
+  kes: define('kes', 2, 5000),
+  ghs: define('ghs', 2, 500),
+
+  // Zero-decimal currencies
+  jpy: define('jpy', 0, 50),
+  krw: define('krw', 0, 700),
+  vnd: define('vnd', 0, 12000),
+  clp: define('clp', 0, 500),
+  xof: define('xof', 0, 300),
+  xaf: define('xaf', 0, 300),
+  ugx: define('ugx', 0, 2000),
+
+  // Three-decimal currencies
+  bhd: define('bhd', 3, 200),
+  jod: define('jod', 3, 400),
+  kwd: define('kwd', 3, 200),
+  omr: define('omr', 3, 200),
+  tnd: define('tnd', 3, 1500),
+};
+
+export interface AmountValidationError {
+  code: string;
+  message: string;
+}
+
+interface AmountValidationOptions {
+  // Refunds and partial captures may be smaller than the minimum charge
+  enforceMinimum?: boolean;
+}
+
+/**
+ * Look up a currency (case-insensitive)
+ */
+export const getCurrency = (code: string): CurrencyDefinition | null => {
+  return CURRENCIES[(code || '').toLowerCase()] || null;
+};
+
+export const isSupportedCurrency = (code: string): boolean => {
+  return getCurrency(code) !== null;
+};
+
+/**
+ * Format an amount in minor units for messages, e.g. formatAmount(50, 'usd') -> '0.50 USD'
+ */
+export const formatAmount = (amount: number, code: string): string => {
+  const currency = getCurrency(code);
+  const minorUnits = currency ? currency.minor_units : 2;
+  return `${(amount / Math.pow(10, minorUnits)).toFixed(minorUnits)} ${code.toUpperCase()}`;
+};
+
+/**
+ * Convert an amount expressed in two-decimal units (like the PLATFORM_FEE_FIXED default of 30)
+ * into the minor units of another currency: 30 -> 30 USD cents, 0 JPY, 300 KWD fils
+ */
+export const fromTwoDecimalUnits = (amount: number, code: string): number => {
+  const currency = getCurrency(code);
+  if (!currency) {
+    return amount;
+  }
+  return Math.round(amount * Math.pow(10, currency.minor_units - 2));
+};
+
+/**
+ * Validate an amount against the currency registry
+ * Returns null when valid
+ */
+export const validateAmount = (
+  amount: number,
+  code: string,
+  options: AmountValidationOptions = {}
+): AmountValidationError | null => {
+  const { enforceMinimum = true } = options;
+  const currency = getCurrency(code);
+
+  if (!currency) {
+    return { code: 'UNSUPPORTED_CURRENCY', message: `Currency ${(code || '').toUpperCase()} is not supported` };
+  }
+
+  if (!Number.isInteger(amount) || amount <= 0) {
+    return { code: 'INVALID_AMOUNT', message: 'Amount must be a positive integer in the smallest currency unit' };
+  }
+
+  if (amount % currency.amount_increment !== 0) {
+    return {
+      code: 'INVALID_AMOUNT',
+      message: `${currency.code.toUpperCase()} amounts must be a multiple of ${currency.amount_increment}`,
+    };
+  }
+
+  if (enforceMinimum && amount < currency.min_amount) {
+    return {
+      code: 'AMOUNT_BELOW_MINIMUM',
+      message: `Amount must be at least ${formatAmount(currency.min_amount, currency.code)}`,
+    };
+  }
+
+  if (amount > currency.max_amount) {
+    return {
+      code: 'AMOUNT_ABOVE_MAXIMUM',
+      message: `Amount must not exceed ${formatAmount(currency.max_amount, currency.code)}`,
+    };
+  }
+
+  return null;
+};
+
+/**
+ * Validate an amount and throw a 400 AppError if it is not chargeable
+ */
+export const assertValidAmount = (amount: number, code: string, options: AmountValidationOptions = {}): void => {
+  const error = validateAmount(amount, code, options);
+  if (error) {
+    throw new AppError(error.message, 400, error.code);
+  }
+};
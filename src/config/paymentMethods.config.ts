@@ -0,0 +1,138 @@
+/**
+ * Payment method registry
+ * Maps our public payment method names to processor payment method types and
+ * the currencies / merchant countries each method can be offered in.
+ */
+export interface PaymentMethodDefinition {
+  name: string;
+  label: string;
+  processor_type: string; // Stripe payment_method_types value
+  currencies: string[] | null; // null = any supported currency
+  countries: string[] | null; // Merchant account countries; null = any
+  supports_manual_capture: boolean;
+  supports_saving: boolean; // Can be saved to a customer with a SetupIntent and charged off-session
+}
+
+const EEA_COUNTRIES = [
+  'AT', 'BE', 'BG', 'HR', 'CY', 'CZ', 'DK', 'EE', 'FI', 'FR', 'DE', 'GR', 'HU', 'IE', 'IT',
+  'LV', 'LI', 'LT', 'LU', 'MT', 'NL', 'NO', 'PL', 'PT', 'RO', 'SK', 'SI', 'ES', 'SE', 'IS',
+];
+
+export const PAYMENT_METHODS: Record<string, PaymentMethodDefinition> = {
+  card: {
+    name: 'card',
+    label: 'Credit/Debit Card',
+    processor_type: 'card',
+    currencies: null,
+    countries: null,
+    supports_manual_capture: true,
+    supports_saving: true,
+  },
+  us_bank_account: {
+    name: 'us_bank_account',
+    label: 'US Bank Account (ACH)',
+    processor_type: 'us_bank_account',
+    currencies: ['usd'],
+    countries: ['US'],
+    supports_manual_capture: false,
+    supports_saving: true,
+  },
+  acss_debit: {
+    name: 'acss_debit',
+    label: 'Canadian Pre-Authorized Debit',
+    processor_type: 'acss_debit',
+    currencies: ['cad', 'usd'],
+    countries: ['CA', 'US'],
+    supports_manual_capture: false,
+    supports_saving: true,
+  },
+  sepa_debit: {
+    name: 'sepa_debit',
+    label: 'SEPA Direct Debit',
+    processor_type: 'sepa_debit',
+    currencies: ['eur'],
+    countries: [...EEA_COUNTRIES, 'GB', 'CH', 'US', 'CA', 'AU'],
+    supports_manual_capture: false,
+    supports_saving: true,
+  },
+  bacs_debit: {
+    name: 'bacs_debit',
+    label: 'Bacs Direct Debit',
+    processor_type: 'bacs_debit',
+    currencies: ['gbp'],
+    countries: ['GB'],
+    supports_manual_capture: false,
+    supports_saving: true,
+  },
+  au_becs_debit: {
+    name: 'au_becs_debit',
+    label: 'BECS Direct Debit',
+    processor_type: 'au_becs_debit',
+    currencies: ['aud'],
+    countries: ['AU'],
+    supports_manual_capture: false,
+    supports_saving: true,
+  },
+  ideal: {
+    name: 'ideal',
+    label: 'iDEAL',
+    processor_type: 'ideal',
+    currencies: ['eur'],
+    countries: [...EEA_COUNTRIES, 'GB', 'CH', 'US', 'CA', 'AU'],
+    supports_manual_capture: false,
+    supports_saving: false,
+  },
+  bancontact: {
+    name: 'bancontact',
+    label: 'Bancontact',
+    processor_type: 'bancontact',
+    currencies: ['eur'],
+    countries: [...EEA_COUNTRIES, 'GB', 'CH', 'US', 'CA', 'AU'],
+    supports_manual_capture: false,
+    supports_saving: false,
+  },
+  klarna: {
+    name: 'klarna',
+    label: 'Klarna',
+    processor_type: 'klarna',
+    currencies: ['usd', 'eur', 'gbp', 'dkk', 'nok', 'sek', 'chf', 'aud', 'nzd', 'cad', 'pln', 'czk'],
+    countries: [...EEA_COUNTRIES, 'GB', 'CH', 'US', 'CA', 'AU', 'NZ'],
+    supports_manual_capture: true,
+    supports_saving: false,
+  },
+  affirm: {
+    name: 'affirm',
+    label: 'Affirm',
+    processor_type: 'affirm',
+    currencies: ['usd', 'cad'],
+    countries: ['US', 'CA'],
+    supports_manual_capture: true,
+    supports_saving: false,
+  },
+  afterpay_clearpay: {
+    name: 'afterpay_clearpay',
+    label: 'Afterpay / Clearpay',
+    processor_type: 'afterpay_clearpay',
+    currencies: ['usd', 'cad', 'aud', 'nzd', 'gbp'],
+    countries: ['US', 'CA', 'AU', 'NZ', 'GB'],
+    supports_manual_capture: true,
+    supports_saving: false,
+  },
+};
+
+export const PAYMENT_METHOD_NAMES = Object.keys(PAYMENT_METHODS) as [string, ...string[]];
+
+export const SAVEABLE_PAYMENT_METHOD_NAMES = PAYMENT_METHOD_NAMES.filter(
+  (name) => PAYMENT_METHODS[name].supports_saving
+) as [string, ...string[]];
+
+export const getPaymentMethod = (name: string): PaymentMethodDefinition | null => {
+  return PAYMENT_METHODS[name] || null;
+};
+
+/**
+ * Reverse lookup from a processor payment method type to our method name
+ */
+export const getPaymentMethodByProcessorType = (processorType: string): PaymentMethodDefinition | null => {
+  return Object.values(PAYMENT_METHODS).find((method) => method.processor_type === processorType) || null;
+};
@@ -0,0 +1,49 @@
+import { describe, it, expect, beforeEach, afterEach, mock } from 'bun:test';
+import { fakeSupabase } from '../test/fakeSupabase';
+
+mock.module('@supabase/supabase-js', () => ({ createClient: () => fakeSupabase.client }));
+
+const { authenticateAdmin } = await import('./auth');
+
+const ADMIN_API_KEY = 'admin_key_1';
+
+function authenticate(adminKey?: string) {
+  const next = mock((_error?: any) => {});
+  authenticateAdmin({ headers: adminKey === undefined ? {} : { 'x-admin-key': adminKey } } as any, {} as any, next);
+  return next.mock.calls[0]?.[0];
+}
+
+describe('authenticateAdmin', () => {
+  const previous = process.env.ADMIN_API_KEY;
+
+  beforeEach(() => {
+    process.env.ADMIN_API_KEY = ADMIN_API_KEY;
+  });
+
+  afterEach(() => {
+    if (previous === undefined) {
+      delete process.env.ADMIN_API_KEY;
+    } else {
+      process.env.ADMIN_API_KEY = previous;
+    }
+  });
+
+  it('accepts the configured key', () => {
+    expect(authenticate(ADMIN_API_KEY)).toBeUndefined();
+  });
+
+  it('rejects a missing or wrong key', () => {
+    expect(authenticate()).toMatchObject({ statusCode: 401, code: 'UNAUTHORIZED' });
+    expect(authenticate('admin_key_2')).toMatchObject({ statusCode: 401, code: 'UNAUTHORIZED' });
+  });
+
+  it('rejects a non-ASCII key of the same length instead of throwing', () => {
+    expect(authenticate('admin_key_é')).toMatchObject({ statusCode: 401, code: 'UNAUTHORIZED' });
+  });
+
+  it('rejects every key when none is configured', () => {
+    delete process.env.ADMIN_API_KEY;
+
+    expect(authenticate(ADMIN_API_KEY)).toMatchObject({ statusCode: 401, code: 'UNAUTHORIZED' });
+  });
+});
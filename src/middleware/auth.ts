@@ -1,5 +1,6 @@
 import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
+import crypto from 'crypto';
 import { AppError } from './errorHandler';
 import { verifySignature } from '../utils/hmac';
 import merchantsService from '../services/merchants.service';
@@ -129,6 +130,37 @@ export const authenticateAPIKey = async (req: Request, res: Response, next: Next
   }
 };
 
+/**
+ * Merchant Authentication Middleware
+ * Accepts a dashboard JWT (Authorization: Bearer) or a signed API key request
+ */
+export const authenticateMerchant = (req: Request, res: Response, next: NextFunction): void => {
+  if (req.headers.authorization?.startsWith('Bearer ')) {
+    return authenticateJWT(req, res, next);
+  }
+
+  authenticateAPIKey(req, res, next);
+};
+
+// Digests are always 32 bytes, so timingSafeEqual never sees buffers of different lengths
+const sha256 = (value: string): Buffer => crypto.createHash('sha256').update(value).digest();
+
+/**
+ * Admin Authentication Middleware
+ * Verifies the X-Admin-Key header against ADMIN_API_KEY
+ */
+export const authenticateAdmin = (req: Request, res: Response, next: NextFunction): void => {
+  const adminKey = req.headers['x-admin-key'] as string | undefined;
+  const expected = process.env.ADMIN_API_KEY;
+
+  if (!expected || !adminKey ||
+      !crypto.timingSafeEqual(sha256(adminKey), sha256(expected))) {
+    return next(new AppError('Admin API key required', 401, 'UNAUTHORIZED'));
+  }
+
+  next();
+};
+
 /**
  * Optional JWT Authentication
  * Attaches merchant info if token is valid, but doesn't fail if missing
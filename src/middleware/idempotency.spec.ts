@@ -0,0 +1,178 @@
+import { describe, it, expect, beforeEach, jest, mock } from 'bun:test';
+import { EventEmitter } from 'events';
+import { fakeSupabase } from '../test/fakeSupabase';
+
+mock.module('@supabase/supabase-js', () => ({ createClient: () => fakeSupabase.client }));
+
+const { idempotency } = await import('./idempotency');
+const { IN_PROGRESS_LOCK_REFRESH_MS, IN_PROGRESS_LOCK_TIMEOUT_MS } = await import('../services/idempotency.service');
+
+fakeSupabase.unique('idempotency_keys', ['merchant_id', 'idempotency_key']);
+
+const MERCHANT_ID = 'merchant_1';
+
+function request(key: string, body: any = { amount: 1000 }) {
+  return {
+    method: 'POST',
+    originalUrl: '/api/payments',
+    headers: { 'idempotency-key': key },
+    body,
+    merchant: { id: MERCHANT_ID },
+  } as any;
+}
+
+function response() {
+  const res: any = new EventEmitter();
+  res.statusCode = 200;
+  res.writableFinished = false;
+  res.headers = {};
+  res.status = (code: number) => {
+    res.statusCode = code;
+    return res;
+  };
+  res.setHeader = (name: string, value: string) => {
+    res.headers[name] = value;
+  };
+  res.json = (body: any) => {
+    res.body = body;
+    return res;
+  };
+  res.send = (body: any) => {
+    res.body = body;
+    res.finish();
+    return res;
+  };
+  res.finish = () => {
+    res.writableFinished = true;
+    res.emit('finish');
+    res.emit('close');
+  };
+  return res;
+}
+
+// Run the middleware; resolves with the error passed to next (or undefined) and whether the handler ran
+async function run(req: any, res: any): Promise<{ handled: boolean; error?: any }> {
+  let handled = false;
+  let error: any;
+
+  await idempotency(req, res, (err?: any) => {
+    handled = !err;
+    error = err;
+  });
+
+  return { handled, error };
+}
+
+// Let the persisted record writes settle
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+const record = () => fakeSupabase.rows('idempotency_keys')[0];
+
+describe('idempotency middleware', () => {
+  beforeEach(() => {
+    fakeSupabase.reset();
+  });
+
+  it('replays a completed JSON response', async () => {
+    const first = response();
+    expect((await run(request('key_1'), first)).handled).toBe(true);
+    first.status(201).json({ id: 'pay_1' });
+    first.finish();
+    await flush();
+
+    expect(record().status).toBe('completed');
+
+    const retry = response();
+    const { handled } = await run(request('key_1'), retry);
+
+    expect(handled).toBe(false);
+    expect(retry.statusCode).toBe(201);
+    expect(retry.body).toEqual({ id: 'pay_1' });
+    expect(retry.headers['Idempotent-Replayed']).toBe('true');
+  });
+
+  it('rejects the same key with a different payload', async () => {
+    const first = response();
+    await run(request('key_1'), first);
+    first.json({ id: 'pay_1' });
+    await flush();
+
+    const { error } = await run(request('key_1', { amount: 2000 }), response());
+
+    expect(error.code).toBe('IDEMPOTENCY_KEY_MISMATCH');
+  });
+
+  it('releases the key after a server error', async () => {
+    const first = response();
+    await run(request('key_1'), first);
+    first.status(500).json({ error: 'boom' });
+    await flush();
+
+    expect(fakeSupabase.rows('idempotency_keys')).toHaveLength(0);
+    expect((await run(request('key_1'), response())).handled).toBe(true);
+  });
+
+  it('completes the key when the response is not JSON', async () => {
+    const first = response();
+    await run(request('key_1'), first);
+    first.status(204).send('');
+    await flush();
+
+    expect(record().status).toBe('completed');
+    expect(record().response_status).toBe(204);
+  });
+
+  it('releases the key when the connection closes before a response', async () => {
+    const first = response();
+    await run(request('key_1'), first);
+    first.emit('close');
+    await flush();
+
+    expect(fakeSupabase.rows('idempotency_keys')).toHaveLength(0);
+
+    // The handler answering afterwards doesn't claim the key again
+    first.json({ id: 'pay_1' });
+    await flush();
+
+    expect(fakeSupabase.rows('idempotency_keys')).toHaveLength(0);
+  });
+
+  it('rejects a retry while the first request is in progress', async () => {
+    await run(request('key_1'), response());
+
+    const { error } = await run(request('key_1'), response());
+
+    expect(error.code).toBe('IDEMPOTENCY_REQUEST_IN_PROGRESS');
+  });
+
+  it('keeps the lock of a request that runs longer than the lock timeout', async () => {
+    jest.useFakeTimers();
+    try {
+      await run(request('key_1'), response());
+      const lockedAt = new Date(Date.now() - IN_PROGRESS_LOCK_TIMEOUT_MS - 1000).toISOString();
+      Object.assign(record(), { created_at: lockedAt, updated_at: lockedAt });
+
+      jest.advanceTimersByTime(IN_PROGRESS_LOCK_REFRESH_MS);
+    } finally {
+      jest.useRealTimers();
+    }
+    await flush();
+
+    const { error } = await run(request('key_1'), response());
+
+    expect(error.code).toBe('IDEMPOTENCY_REQUEST_IN_PROGRESS');
+  });
+
+  it('lets a retry take over a key whose request outlived the lock timeout', async () => {
+    await run(request('key_1'), response());
+    record().created_at = new Date(Date.now() - IN_PROGRESS_LOCK_TIMEOUT_MS - 1000).toISOString();
+
+    const retry = response();
+    expect((await run(request('key_1'), retry)).handled).toBe(true);
+    retry.json({ id: 'pay_1' });
+    await flush();
+
+    expect(fakeSupabase.rows('idempotency_keys')).toHaveLength(1);
+    expect(record().status).toBe('completed');
+  });
+});
@@ -0,0 +1,116 @@
+import { Request, Response, NextFunction } from 'express';
+import crypto from 'crypto';
+import { AppError } from './errorHandler';
+import idempotencyService, { IN_PROGRESS_LOCK_REFRESH_MS } from '../services/idempotency.service';
+
+/**
+ * Idempotency-Key replay middleware
+ * Must run after authentication so the key is scoped to the merchant.
+ *
+ * - First request with a key: executes normally and stores the response
+ * - Retry with the same key and payload: replays the stored response
+ * - Retry with the same key but a different payload: 409
+ * - Retry while the first request is still running: 409; the running request refreshes its
+ *   lock, which only times out once the process holding it has died
+ */
+export const idempotency = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const key = req.headers['idempotency-key'] as string | undefined;
+    const merchantId = (req as any).merchant?.id as string | undefined;
+
+    if (!key || !merchantId) {
+      return next();
+    }
+
+    if (key.length > 255) {
+      throw new AppError('Idempotency-Key must be at most 255 characters', 400, 'INVALID_IDEMPOTENCY_KEY');
+    }
+
+    const rawBody = (req as any).rawBody || JSON.stringify(req.body || {});
+    const fingerprint = crypto
+      .createHash('sha256')
+      .update(`${req.method}:${req.originalUrl}:${rawBody}`)
+      .digest('hex');
+
+    const existing = await idempotencyService.findActive(merchantId, key);
+
+    if (existing) {
+      if (existing.request_fingerprint !== fingerprint) {
+        throw new AppError(
+          'Idempotency-Key was already used with a different request',
+          409,
+          'IDEMPOTENCY_KEY_MISMATCH'
+        );
+      }
+
+      if (existing.status !== 'completed') {
+        throw new AppError(
+          'A request with this Idempotency-Key is still being processed',
+          409,
+          'IDEMPOTENCY_REQUEST_IN_PROGRESS'
+        );
+      }
+
+      res.setHeader('Idempotent-Replayed', 'true');
+      res.status(existing.response_status || 200).json(existing.response_body);
+      return;
+    }
+
+    const record = await idempotencyService.begin({
+      merchantId,
+      key,
+      method: req.method,
+      path: req.originalUrl,
+      fingerprint,
+    });
+
+    if (!record) {
+      throw new AppError(
+        'A request with this Idempotency-Key is still being processed',
+        409,
+        'IDEMPOTENCY_REQUEST_IN_PROGRESS'
+      );
+    }
+
+    // Persist the JSON response as soon as it is produced so it can be replayed later.
+    // Responses sent some other way (send, redirect, end), and connections closed before
+    // any response, settle the key once the response finishes or the connection closes.
+    const heartbeat = setInterval(() => {
+      idempotencyService.refresh(record.id).catch((error) => {
+        console.error('Failed to refresh idempotency lock:', error);
+      });
+    }, IN_PROGRESS_LOCK_REFRESH_MS);
+    heartbeat.unref();
+
+    let settled = false;
+    const settle = (status: number, body: any) => {
+      if (settled) {
+        return;
+      }
+      settled = true;
+      clearInterval(heartbeat);
+
+      // Server errors and requests that never answered are not cached so the client can safely retry
+      const persist = status >= 500 || !status
+        ? idempotencyService.release(record.id)
+        : idempotencyService.complete(record.id, status, body);
+
+      persist.catch((error) => {
+        console.error('Failed to persist idempotency record:', error);
+      });
+    };
+
+    const originalJson = res.json.bind(res);
+    res.json = (body: any) => {
+      settle(res.statusCode, body);
+      return originalJson(body);
+    };
+
+    res.on('finish', () => settle(res.statusCode, null));
+    res.on('close', () => settle(res.writableFinished ? res.statusCode : 0, null));
+
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
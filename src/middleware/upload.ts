@@ -46,3 +46,24 @@ const upload = multer({
 });
 
 export default upload;
+
+// Batch instruction files (CSV or JSON), one file per request
+const batchFileFilter = (req: Request, file: Express.Multer.File, cb: multer.FileFilterCallback) => {
+  const allowedMimeTypes = ['text/csv', 'application/json', 'text/plain', 'application/vnd.ms-excel'];
+  const allowedExtensions = ['.csv', '.json'];
+
+  if (allowedMimeTypes.includes(file.mimetype) || allowedExtensions.includes(path.extname(file.originalname).toLowerCase())) {
+    cb(null, true);
+  } else {
+    cb(new Error(`File type not allowed: ${file.mimetype}. Allowed types: CSV, JSON`));
+  }
+};
+
+export const uploadBatchFile = multer({
+  storage: storage,
+  fileFilter: batchFileFilter,
+  limits: {
+    fileSize: 5 * 1024 * 1024, // 5MB max file size
+    files: 1,
+  },
+});
@@ -0,0 +1,98 @@
+import express, { Request, Response } from 'express';
+import pricingService from '../services/pricing.service';
+import subscriptionsService from '../services/subscriptions.service';
+import refundsService from '../services/refunds.service';
+import reservesService from '../services/reserves.service';
+import jobs from '../services/jobs';
+import { authenticateAdmin } from '../middleware/auth';
+import { asyncHandler } from '../middleware/errorHandler';
+import { validate } from '../middleware/validate';
+import { savePricingPlanSchema, assignPricingPlanSchema } from '../schemas/pricing.schema';
+import { repairRefundLedgerSchema } from '../schemas/refund.schema';
+import { setReservePolicySchema } from '../schemas/reserve.schema';
+
+const router = express.Router();
+
+router.use(authenticateAdmin);
+
+/**
+ * @route   GET /api/admin/pricing-plans
+ * @desc    List the latest version of every pricing plan
+ * @access  Admin (X-Admin-Key)
+ */
+router.get('/pricing-plans', asyncHandler(async (_req: Request, res: Response) => {
+  const plans = await pricingService.listPlans();
+  res.json({ success: true, data: { plans } });
+}));
+
+/**
+ * @route   POST /api/admin/pricing-plans
+ * @desc    Create a pricing plan, or publish a new version of an existing plan key
+ * @access  Admin (X-Admin-Key)
+ */
+router.post('/pricing-plans', validate(savePricingPlanSchema), asyncHandler(async (req: Request, res: Response) => {
+  const plan = await pricingService.savePlan(req.body);
+  res.status(201).json({ success: true, data: { plan } });
+}));
+
+/**
+ * @route   PUT /api/admin/merchants/:id/pricing-plan
+ * @desc    Assign a pricing plan to a merchant
+ * @access  Admin (X-Admin-Key)
+ */
+router.put('/merchants/:id/pricing-plan', validate(assignPricingPlanSchema), asyncHandler(async (req: Request, res: Response) => {
+  const plan = await pricingService.assignPlan(req.params.id, req.body.plan_key);
+  res.json({ success: true, data: { plan } });
+}));
+
+/**
+ * @route   PUT /api/admin/merchants/:id/reserve-policy
+ * @desc    Set a merchant's rolling reserve (percent withheld, hold days, minimum reserve)
+ * @access  Admin (X-Admin-Key)
+ */
+router.put('/merchants/:id/reserve-policy', validate(setReservePolicySchema), asyncHandler(async (req: Request, res: Response) => {
+  const policy = await reservesService.setPolicy(req.params.id, req.body);
+  res.json({ success: true, data: { policy } });
+}));
+
+/**
+ * @route   POST /api/admin/reserves/release
+ * @desc    Release matured reserve tranches now
+ * @access  Admin (X-Admin-Key)
+ */
+router.post('/reserves/release', asyncHandler(async (_req: Request, res: Response) => {
+  const released = await reservesService.releaseMatured();
+  res.json({ success: true, data: { released } });
+}));
+
+/**
+ * @route   POST /api/admin/subscriptions/run-billing
+ * @desc    Run the subscription billing scheduler now (renewals, cancellations, retries)
+ * @access  Admin (X-Admin-Key)
+ */
+router.post('/subscriptions/run-billing', asyncHandler(async (_req: Request, res: Response) => {
+  const result = await subscriptionsService.runBilling();
+  res.json({ success: true, data: result });
+}));
+
+/**
+ * @route   POST /api/admin/ledger/repair-refunds
+ * @desc    Replace cumulative refund debits with per-refund postings and report the resulting balances
+ * @access  Admin (X-Admin-Key)
+ */
+router.post('/ledger/repair-refunds', validate(repairRefundLedgerSchema), asyncHandler(async (req: Request, res: Response) => {
+  const merchants = await refundsService.repairLedger(req.body);
+  res.json({ success: true, data: { dry_run: !!req.body.dry_run, merchants } });
+}));
+
+/**
+ * @route   GET /api/admin/jobs
+ * @desc    Queue depth and recent failed jobs for every background queue
+ * @access  Admin (X-Admin-Key)
+ */
+router.get('/jobs', asyncHandler(async (_req: Request, res: Response) => {
+  const queues = await jobs.getOverview();
+  res.json({ success: true, data: { queues } });
+}));
+
+export default router;
@@ -0,0 +1,144 @@
+import express, { Request, Response } from 'express';
+import batchesService from '../services/batches.service';
+import { authenticateAPIKey } from '../middleware/auth';
+import { idempotency } from '../middleware/idempotency';
+import { asyncHandler, AppError } from '../middleware/errorHandler';
+import { validate } from '../middleware/validate';
+import { uploadBatchFile } from '../middleware/upload';
+import {
+  createBatchSchema,
+  listBatchesSchema,
+  listBatchesQuerySchema,
+  listBatchItemsSchema,
+  listBatchItemsQuerySchema,
+  batchResultsSchema,
+  batchResultsQuerySchema,
+} from '../schemas/batch.schema';
+
+const router = express.Router();
+
+interface AuthenticatedRequest extends Request {
+  apiKey?: string;
+  file?: Express.Multer.File;
+}
+
+/**
+ * Submit a batch of payment or refund instructions
+ * Accepts a multipart CSV/JSON "file" or a JSON body with "items"; processing is asynchronous.
+ */
+router.post(
+  '/',
+  authenticateAPIKey,
+  uploadBatchFile.single('file'),
+  idempotency,
+  validate(createBatchSchema),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const { type, items } = req.body;
+    let { metadata } = req.body;
+
+    // Multipart fields arrive as strings
+    if (typeof metadata === 'string') {
+      try {
+        metadata = JSON.parse(metadata);
+      } catch {
+        throw new AppError('metadata must be a JSON object', 400, 'VALIDATION_ERROR');
+      }
+    }
+
+    let source;
+    if (req.file) {
+      source = batchesService.parseFile(req.file);
+    } else if (items) {
+      source = { items, source_format: 'json' as const };
+    } else {
+      throw new AppError('Provide a CSV/JSON "file" upload or an "items" array', 400, 'BATCH_EMPTY');
+    }
+
+    const batch = await batchesService.createBatch(req.apiKey!, {
+      type,
+      items: source.items,
+      source_format: source.source_format,
+      filename: req.file?.originalname,
+      metadata,
+    });
+
+    res.status(202).json({
+      success: true,
+      data: batch,
+    });
+  })
+);
+
+/**
+ * List batches
+ */
+router.get(
+  '/',
+  authenticateAPIKey,
+  validate(listBatchesSchema),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const options = listBatchesQuerySchema.parse(req.query);
+
+    const batches = await batchesService.listBatches(req.apiKey!, options);
+
+    res.json({
+      success: true,
+      data: batches,
+    });
+  })
+);
+
+/**
+ * Get batch status and progress
+ */
+router.get(
+  '/:id',
+  authenticateAPIKey,
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const batch = await batchesService.getBatch(req.apiKey!, req.params.id);
+
+    res.json({
+      success: true,
+      data: batch,
+    });
+  })
+);
+
+/**
+ * List batch rows with their results
+ */
+router.get(
+  '/:id/items',
+  authenticateAPIKey,
+  validate(listBatchItemsSchema),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const options = listBatchItemsQuerySchema.parse(req.query);
+
+    const items = await batchesService.listBatchItems(req.apiKey!, req.params.id, options);
+
+    res.json({
+      success: true,
+      data: items,
+    });
+  })
+);
+
+/**
+ * Download the result file (CSV by default)
+ */
+router.get(
+  '/:id/results',
+  authenticateAPIKey,
+  validate(batchResultsSchema),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const { format } = batchResultsQuerySchema.parse(req.query);
+
+    const { filename, contentType, body } = await batchesService.getBatchResults(req.apiKey!, req.params.id, format);
+
+    res.setHeader('Content-Type', contentType);
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+    res.send(body);
+  })
+);
+
+export default router;
@@ -0,0 +1,214 @@
+import express, { Request, Response } from 'express';
+import customersService from '../services/customers.service';
+import paymentsService from '../services/payments.service';
+import { authenticateAPIKey } from '../middleware/auth';
+import { idempotency } from '../middleware/idempotency';
+import { asyncHandler } from '../middleware/errorHandler';
+import { validate } from '../middleware/validate';
+import {
+  createCustomerSchema,
+  updateCustomerSchema,
+  listCustomersSchema,
+  listCustomersQuerySchema,
+  createSetupIntentSchema,
+} from '../schemas/customer.schema';
+import { listPaymentsSchema, listPaymentsQuerySchema } from '../schemas/payment.schema';
+
+const router = express.Router();
+
+interface AuthenticatedRequest extends Request {
+  apiKey?: string;
+}
+
+/**
+ * Create customer
+ */
+router.post(
+  '/',
+  authenticateAPIKey,
+  idempotency,
+  validate(createCustomerSchema),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const { email, name, phone, description, address, metadata } = req.body;
+
+    const customer = await customersService.createCustomer(req.apiKey!, {
+      email, name, phone, description, address, metadata,
+    });
+
+    res.status(201).json({
+      success: true,
+      data: customer,
+    });
+  })
+);
+
+/**
+ * List customers
+ */
+router.get(
+  '/',
+  authenticateAPIKey,
+  validate(listCustomersSchema),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const options = listCustomersQuerySchema.parse(req.query);
+
+    const customers = await customersService.listCustomers(req.apiKey!, options);
+
+    res.json({
+      success: true,
+      data: customers,
+    });
+  })
+);
+
+/**
+ * Get customer by ID
+ */
+router.get(
+  '/:id',
+  authenticateAPIKey,
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const customer = await customersService.getCustomer(req.apiKey!, req.params.id);
+
+    res.json({
+      success: true,
+      data: customer,
+    });
+  })
+);
+
+/**
+ * Update customer
+ */
+router.patch(
+  '/:id',
+  authenticateAPIKey,
+  validate(updateCustomerSchema),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const { email, name, phone, description, address, metadata } = req.body;
+
+    const customer = await customersService.updateCustomer(req.apiKey!, req.params.id, {
+      email, name, phone, description, address, metadata,
+    });
+
+    res.json({
+      success: true,
+      data: customer,
+    });
+  })
+);
+
+/**
+ * Delete customer
+ */
+router.delete(
+  '/:id',
+  authenticateAPIKey,
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    await customersService.deleteCustomer(req.apiKey!, req.params.id);
+
+    res.json({
+      success: true,
+      message: 'Customer deleted',
+    });
+  })
+);
+
+/**
+ * List a customer's transactions
+ */
+router.get(
+  '/:id/transactions',
+  authenticateAPIKey,
+  validate(listPaymentsSchema),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const customer = await customersService.getCustomer(req.apiKey!, req.params.id);
+    const options = listPaymentsQuerySchema.parse(req.query);
+
+    const { transactions, has_more, total_count } = await paymentsService.listPaymentsByMerchantId(
+      customer.merchant_id,
+      { ...options, customer_id: customer.id }
+    );
+
+    res.json({
+      success: true,
+      data: { transactions, count: transactions.length, total_count, has_more },
+    });
+  })
+);
+
+/**
+ * Start saving a payment method (SetupIntent)
+ */
+router.post(
+  '/:id/setup-intents',
+  authenticateAPIKey,
+  idempotency,
+  validate(createSetupIntentSchema),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const { payment_method, usage } = req.body;
+
+    const setupIntent = await customersService.createSetupIntent(req.apiKey!, req.params.id, {
+      payment_method, usage,
+    });
+
+    res.status(201).json({
+      success: true,
+      data: setupIntent,
+    });
+  })
+);
+
+/**
+ * List saved payment methods
+ */
+router.get(
+  '/:id/payment-methods',
+  authenticateAPIKey,
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const paymentMethods = await customersService.listPaymentMethods(req.apiKey!, req.params.id);
+
+    res.json({
+      success: true,
+      data: paymentMethods,
+    });
+  })
+);
+
+/**
+ * Set the default saved payment method
+ */
+router.post(
+  '/:id/payment-methods/:paymentMethodId/default',
+  authenticateAPIKey,
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const customer = await customersService.setDefaultPaymentMethod(
+      req.apiKey!,
+      req.params.id,
+      req.params.paymentMethodId
+    );
+
+    res.json({
+      success: true,
+      data: customer,
+    });
+  })
+);
+
+/**
+ * Remove a saved payment method
+ */
+router.delete(
+  '/:id/payment-methods/:paymentMethodId',
+  authenticateAPIKey,
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    await customersService.detachPaymentMethod(req.apiKey!, req.params.id, req.params.paymentMethodId);
+
+    res.json({
+      success: true,
+      message: 'Payment method removed',
+    });
+  })
+);
+
+export default router;
@@ -0,0 +1,155 @@
+import express, { Request, Response } from 'express';
+import fraudService from '../services/fraud.service';
+import { authenticateMerchant } from '../middleware/auth';
+import { idempotency } from '../middleware/idempotency';
+import { asyncHandler } from '../middleware/errorHandler';
+import { validate } from '../middleware/validate';
+import {
+  createFraudRuleSchema,
+  updateFraudRuleSchema,
+  fraudRuleSchema,
+  listRiskAssessmentsSchema,
+  listRiskAssessmentsQuerySchema,
+  getRiskAssessmentSchema,
+} from '../schemas/fraud.schema';
+
+const router = express.Router();
+
+// API key requests and the dashboard (JWT) both resolve to a merchant
+interface AuthenticatedRequest extends Request {
+  merchant?: {
+    id: string;
+    email: string;
+  };
+}
+
+/**
+ * Create a risk rule
+ */
+router.post(
+  '/rules',
+  authenticateMerchant,
+  idempotency,
+  validate(createFraudRuleSchema),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const { name, type, action, score, is_active, config } = req.body;
+
+    const rule = await fraudService.createRule(req.merchant!.id, {
+      name, type, action, score, is_active, config,
+    });
+
+    res.status(201).json({
+      success: true,
+      data: rule,
+    });
+  })
+);
+
+/**
+ * List risk rules
+ */
+router.get(
+  '/rules',
+  authenticateMerchant,
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const rules = await fraudService.listRules(req.merchant!.id);
+
+    res.json({
+      success: true,
+      data: rules,
+    });
+  })
+);
+
+/**
+ * Get a risk rule
+ */
+router.get(
+  '/rules/:id',
+  authenticateMerchant,
+  validate(fraudRuleSchema),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const rule = await fraudService.getRule(req.merchant!.id, req.params.id);
+
+    res.json({
+      success: true,
+      data: rule,
+    });
+  })
+);
+
+/**
+ * Update a risk rule
+ */
+router.patch(
+  '/rules/:id',
+  authenticateMerchant,
+  validate(updateFraudRuleSchema),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const { name, action, score, is_active, config } = req.body;
+
+    const rule = await fraudService.updateRule(req.merchant!.id, req.params.id, {
+      name, action, score, is_active, config,
+    });
+
+    res.json({
+      success: true,
+      data: rule,
+    });
+  })
+);
+
+/**
+ * Delete a risk rule
+ */
+router.delete(
+  '/rules/:id',
+  authenticateMerchant,
+  validate(fraudRuleSchema),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    await fraudService.deleteRule(req.merchant!.id, req.params.id);
+
+    res.json({
+      success: true,
+      message: 'Fraud rule deleted',
+    });
+  })
+);
+
+/**
+ * List risk assessments (?outcome=block lists blocked attempts)
+ */
+router.get(
+  '/assessments',
+  authenticateMerchant,
+  validate(listRiskAssessmentsSchema),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const options = listRiskAssessmentsQuerySchema.parse(req.query);
+
+    const { risk_assessments, total_count, has_more } = await fraudService.listAssessments(req.merchant!.id, options);
+
+    res.json({
+      success: true,
+      data: { risk_assessments, count: risk_assessments.length, total_count, has_more },
+    });
+  })
+);
+
+/**
+ * Get a risk assessment
+ */
+router.get(
+  '/assessments/:id',
+  authenticateMerchant,
+  validate(getRiskAssessmentSchema),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const assessment = await fraudService.getAssessment(req.merchant!.id, req.params.id);
+
+    res.json({
+      success: true,
+      data: assessment,
+    });
+  })
+);
+
+export default router;
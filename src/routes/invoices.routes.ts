@@ -0,0 +1,255 @@
+import express, { Request, Response } from 'express';
+import invoicesService from '../services/invoices.service';
+import { authenticateAPIKey } from '../middleware/auth';
+import { idempotency } from '../middleware/idempotency';
+import { asyncHandler } from '../middleware/errorHandler';
+import { validate } from '../middleware/validate';
+import {
+  createInvoiceSchema,
+  updateInvoiceSchema,
+  payInvoiceSchema,
+  listInvoicesSchema,
+  listInvoicesQuerySchema,
+} from '../schemas/invoice.schema';
+
+const router = express.Router();
+
+interface AuthenticatedRequest extends Request {
+  apiKey?: string;
+}
+
+/**
+ * Create draft invoice
+ */
+router.post(
+  '/',
+  authenticateAPIKey,
+  idempotency,
+  validate(createInvoiceSchema),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const {
+      customer_id,
+      currency,
+      description,
+      footer,
+      collection_method,
+      due_date,
+      days_until_due,
+      line_items,
+      discounts,
+      tax_rates,
+      metadata,
+    } = req.body;
+
+    const invoice = await invoicesService.createDraftInvoice(req.apiKey!, {
+      customer_id,
+      currency,
+      description,
+      footer,
+      collection_method,
+      due_date,
+      days_until_due,
+      line_items,
+      discounts,
+      tax_rates,
+      metadata,
+    });
+
+    res.status(201).json({
+      success: true,
+      data: invoice,
+    });
+  })
+);
+
+/**
+ * List invoices
+ */
+router.get(
+  '/',
+  authenticateAPIKey,
+  validate(listInvoicesSchema),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const options = listInvoicesQuerySchema.parse(req.query);
+
+    const invoices = await invoicesService.listMerchantInvoices(req.apiKey!, options);
+
+    res.json({
+      success: true,
+      data: invoices,
+    });
+  })
+);
+
+/**
+ * Get invoice by ID
+ */
+router.get(
+  '/:id',
+  authenticateAPIKey,
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const invoice = await invoicesService.getInvoice(req.apiKey!, req.params.id);
+
+    res.json({
+      success: true,
+      data: invoice,
+    });
+  })
+);
+
+/**
+ * Download invoice PDF
+ */
+router.get(
+  '/:id/pdf',
+  authenticateAPIKey,
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const { filename, pdf } = await invoicesService.getInvoicePdf(req.apiKey!, req.params.id);
+
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+    res.send(pdf);
+  })
+);
+
+/**
+ * Update draft invoice
+ */
+router.patch(
+  '/:id',
+  authenticateAPIKey,
+  validate(updateInvoiceSchema),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const {
+      description,
+      footer,
+      collection_method,
+      due_date,
+      days_until_due,
+      line_items,
+      discounts,
+      tax_rates,
+      metadata,
+    } = req.body;
+
+    const invoice = await invoicesService.updateDraftInvoice(req.apiKey!, req.params.id, {
+      description,
+      footer,
+      collection_method,
+      due_date,
+      days_until_due,
+      line_items,
+      discounts,
+      tax_rates,
+      metadata,
+    });
+
+    res.json({
+      success: true,
+      data: invoice,
+    });
+  })
+);
+
+/**
+ * Delete draft invoice
+ */
+router.delete(
+  '/:id',
+  authenticateAPIKey,
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    await invoicesService.deleteDraftInvoice(req.apiKey!, req.params.id);
+
+    res.json({
+      success: true,
+      message: 'Invoice deleted',
+    });
+  })
+);
+
+/**
+ * Finalize draft invoice (emails or charges it depending on collection method)
+ */
+router.post(
+  '/:id/finalize',
+  authenticateAPIKey,
+  idempotency,
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const invoice = await invoicesService.finalizeInvoice(req.apiKey!, req.params.id);
+
+    res.json({
+      success: true,
+      data: invoice,
+    });
+  })
+);
+
+/**
+ * Email the hosted invoice link to the customer
+ */
+router.post(
+  '/:id/send',
+  authenticateAPIKey,
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const invoice = await invoicesService.sendInvoice(req.apiKey!, req.params.id);
+
+    res.json({
+      success: true,
+      data: invoice,
+    });
+  })
+);
+
+/**
+ * Charge invoice to a saved payment method
+ */
+router.post(
+  '/:id/pay',
+  authenticateAPIKey,
+  idempotency,
+  validate(payInvoiceSchema),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const invoice = await invoicesService.payInvoiceForMerchant(req.apiKey!, req.params.id, {
+      payment_method_id: req.body.payment_method_id,
+    });
+
+    res.json({
+      success: true,
+      data: invoice,
+    });
+  })
+);
+
+/**
+ * Void invoice
+ */
+router.post(
+  '/:id/void',
+  authenticateAPIKey,
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const invoice = await invoicesService.voidInvoice(req.apiKey!, req.params.id);
+
+    res.json({
+      success: true,
+      data: invoice,
+    });
+  })
+);
+
+/**
+ * Mark invoice uncollectible
+ */
+router.post(
+  '/:id/mark-uncollectible',
+  authenticateAPIKey,
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const invoice = await invoicesService.markUncollectible(req.apiKey!, req.params.id);
+
+    res.json({
+      success: true,
+      data: invoice,
+    });
+  })
+);
+
+export default router;
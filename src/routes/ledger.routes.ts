@@ -0,0 +1,97 @@
+import express, { Request, Response } from 'express';
+import { once } from 'events';
+import ledgerService from '../services/ledger.service';
+import reservesService from '../services/reserves.service';
+import { authenticateMerchant } from '../middleware/auth';
+import { asyncHandler } from '../middleware/errorHandler';
+import { validate } from '../middleware/validate';
+import {
+  listLedgerEntriesSchema,
+  listLedgerEntriesQuerySchema,
+  exportLedgerEntriesSchema,
+  exportLedgerEntriesQuerySchema,
+} from '../schemas/ledger.schema';
+
+const router = express.Router();
+
+// API key requests and the dashboard (JWT) both resolve to a merchant
+interface AuthenticatedRequest extends Request {
+  merchant?: {
+    id: string;
+    email: string;
+  };
+}
+
+/**
+ * List ledger entries with the running balance of their account
+ */
+router.get(
+  '/entries',
+  authenticateMerchant,
+  validate(listLedgerEntriesSchema),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const options = listLedgerEntriesQuerySchema.parse(req.query);
+
+    const { entries, total_count, has_more } = await ledgerService.listEntries(req.merchant!.id, options);
+
+    res.json({
+      success: true,
+      data: { entries, count: entries.length, total_count, has_more },
+    });
+  })
+);
+
+/**
+ * Export ledger entries as CSV (streamed, same filters as the list)
+ */
+router.get(
+  '/entries/export',
+  authenticateMerchant,
+  validate(exportLedgerEntriesSchema),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const filters = exportLedgerEntriesQuerySchema.parse(req.query);
+    const filename = `ledger-${new Date().toISOString().slice(0, 10)}.csv`;
+
+    res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+
+    try {
+      await ledgerService.exportEntries(req.merchant!.id, filters, async (chunk) => {
+        if (!res.write(chunk)) {
+          await once(res, 'drain');
+        }
+      });
+      res.end();
+    } catch (error) {
+      // Headers are gone once rows are written; cut the download short instead of sending JSON
+      if (!res.headersSent) {
+        throw error;
+      }
+      console.error('Ledger export failed:', error);
+      res.destroy(error as Error);
+    }
+  })
+);
+
+/**
+ * Rolling reserve: policy, balance and the tranches still held
+ */
+router.get(
+  '/reserve',
+  authenticateMerchant,
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const merchantId = req.merchant!.id;
+    const [policy, balance, upcoming_releases] = await Promise.all([
+      reservesService.getPolicy(merchantId),
+      ledgerService.getBalance(merchantId),
+      reservesService.listUpcomingReleases(merchantId),
+    ]);
+
+    res.json({
+      success: true,
+      data: { policy, balance: balance.reserve, currency: balance.currency, upcoming_releases },
+    });
+  })
+);
+
+export default router;
@@ -1,6 +1,7 @@
 import express, { Request, Response } from 'express';
 import merchantsService from '../services/merchants.service';
 import paymentsService from '../services/payments.service';
+import pricingService from '../services/pricing.service';
 import { authenticateJWT } from '../middleware/auth';
 import { asyncHandler } from '../middleware/errorHandler';
 import { uploadLogo } from '../config/upload.config';
@@ -8,6 +9,7 @@ import { uploadLogo } from '../config/upload.config';
 import { validate } from '../middleware/validate';
 import { updateEnvironmentSchema, updateWebhookSchema, updateProfileSchema } from '../schemas/merchant.schema';
 import { updateBrandingSchema } from '../schemas/branding.schema';
+import { listPaymentsSchema, listPaymentsQuerySchema } from '../schemas/payment.schema';
 
 const router = express.Router();
 
@@ -71,23 +73,27 @@ router.patch('/:id', authenticateJWT, validate(updateProfileSchema), asyncHandle
   res.json({ success: true, data: { merchant } });
 }));
 
-router.get('/:id/payments', authenticateJWT, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+router.get('/:id/payments', authenticateJWT, validate(listPaymentsSchema), asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
   const { id } = req.params;
-  const { limit, offset, status, start_date, end_date } = req.query;
 
   if (req.merchant.id !== id) {
     return res.status(403).json({ success: false, error: { code: 'FORBIDDEN', message: 'You can only access your own merchant data' }});
   }
 
-  const transactions = await paymentsService.listPaymentsByMerchantId(id, {
-    limit: limit ? parseInt(limit as string) : undefined,
-    offset: offset ? parseInt(offset as string) : undefined,
-    status: status as string,
-    start_date: start_date as string,
-    end_date: end_date as string
-  });
+  const options = listPaymentsQuerySchema.parse(req.query);
+  const { transactions, has_more, total_count } = await paymentsService.listPaymentsByMerchantId(id, options);
+
+  res.json({ success: true, data: { transactions, count: transactions.length, total_count, has_more } });
+}));
 
-  res.json({ success: true, data: { transactions, count: transactions.length } });
+router.get('/:id/pricing-plan', authenticateJWT, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const { id } = req.params;
+  if (req.merchant.id !== id) {
+    return res.status(403).json({ success: false, error: { code: 'FORBIDDEN', message: 'You can only access your own merchant data' }});
+  }
+  const merchant = await merchantsService.getMerchantById(id);
+  const plan = await pricingService.getPlanForMerchant(merchant);
+  res.json({ success: true, data: { plan } });
 }));
 
 router.get('/:id/branding', authenticateJWT, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
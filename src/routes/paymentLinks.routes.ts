@@ -1,6 +1,7 @@
 import express, { Request, Response } from 'express';
 import paymentLinksService from '../services/paymentLinks.service';
 import { authenticateAPIKey } from '../middleware/auth';
+import { idempotency } from '../middleware/idempotency';
 import { asyncHandler } from '../middleware/errorHandler';
 
 const router = express.Router();
@@ -15,6 +16,7 @@ interface AuthenticatedRequest extends Request {
 router.post(
   '/',
   authenticateAPIKey,
+  idempotency,
   asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
     const paymentLink = await paymentLinksService.createPaymentLink(req.apiKey!, req.body);
 
@@ -70,6 +72,7 @@ router.get(
 router.patch(
   '/:id',
   authenticateAPIKey,
+  idempotency,
   asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
     const { id } = req.params;
 
@@ -88,6 +91,7 @@ router.patch(
 router.delete(
   '/:id',
   authenticateAPIKey,
+  idempotency,
   asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
     const { id } = req.params;
 
@@ -1,9 +1,11 @@
 import express, { Request, Response } from 'express';
 import paymentsService from '../services/payments.service';
+import splitsService from '../services/splits.service';
 import { authenticateAPIKey } from '../middleware/auth';
+import { idempotency } from '../middleware/idempotency';
 import { asyncHandler } from '../middleware/errorHandler';
 import { validate } from '../middleware/validate';
-import { createPaymentSchema, listPaymentsSchema, refundPaymentSchema } from '../schemas/payment.schema';
+import { createPaymentSchema, listPaymentsSchema, listPaymentsQuerySchema, refundPaymentSchema, capturePaymentSchema } from '../schemas/payment.schema';
 
 const router = express.Router();
 
@@ -11,11 +13,11 @@ interface AuthenticatedRequest extends Request {
   apiKey?: string;
 }
 
-router.post('/', authenticateAPIKey, validate(createPaymentSchema), asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
-  const { amount, currency, description, customer_email, customer_name, payment_method, metadata } = req.body;
+router.post('/', authenticateAPIKey, idempotency, validate(createPaymentSchema), asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const { amount, currency, description, customer_email, customer_name, customer_id, payment_method_id, payment_method, capture_method, splits, return_url, customer_ip_address, customer_country, metadata } = req.body;
   const idempotencyKey = req.headers['idempotency-key'] as string;
   const result = await paymentsService.createPayment(req.apiKey!, {
-    amount, currency, description, customer_email, customer_name, payment_method, idempotency_key: idempotencyKey, metadata
+    amount, currency, description, customer_email, customer_name, customer_id, payment_method_id, payment_method, capture_method, splits, return_url, customer_ip_address, customer_country, idempotency_key: idempotencyKey, metadata
   });
   res.status(201).json({ success: true, data: result });
 }));
@@ -23,22 +25,23 @@ router.post('/', authenticateAPIKey, validate(createPaymentSchema), asyncHandler
 router.get('/:id', authenticateAPIKey, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
   const { id } = req.params;
   const transaction = await paymentsService.getPayment(req.apiKey!, id);
-  res.json({ success: true, data: { transaction } });
+  const splits = await splitsService.listForTransaction(transaction.id);
+  res.json({ success: true, data: { transaction, splits } });
+}));
+
+router.get('/:id/events', authenticateAPIKey, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const { id } = req.params;
+  const events = await paymentsService.getPaymentEvents(req.apiKey!, id);
+  res.json({ success: true, data: { events } });
 }));
 
 router.get('/', authenticateAPIKey, validate(listPaymentsSchema), asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
-  const { limit, offset, status, start_date, end_date } = req.query;
-  const transactions = await paymentsService.listPayments(req.apiKey!, {
-    limit: limit ? parseInt(limit as string) : undefined,
-    offset: offset ? parseInt(offset as string) : undefined,
-    status: status as string,
-    start_date: start_date as string,
-    end_date: end_date as string
-  });
-  res.json({ success: true, data: { transactions, count: transactions.length } });
+  const options = listPaymentsQuerySchema.parse(req.query);
+  const { transactions, has_more, total_count } = await paymentsService.listPayments(req.apiKey!, options);
+  res.json({ success: true, data: { transactions, count: transactions.length, total_count, has_more } });
 }));
 
-router.post('/:id/refund', authenticateAPIKey, validate(refundPaymentSchema), asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+router.post('/:id/refund', authenticateAPIKey, idempotency, validate(refundPaymentSchema), asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
   const { id } = req.params;
   const { amount, reason } = req.body;
   const result = await paymentsService.refundPayment(req.apiKey!, id, {
@@ -47,10 +50,23 @@ router.post('/:id/refund', authenticateAPIKey, validate(refundPaymentSchema), as
   res.json({ success: true, data: result });
 }));
 
-router.post('/:id/cancel', authenticateAPIKey, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+router.post('/:id/cancel', authenticateAPIKey, idempotency, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
   const { id } = req.params;
   const result = await paymentsService.cancelPayment(req.apiKey!, id);
   res.json({ success: true, data: result });
 }));
 
+router.post('/:id/capture', authenticateAPIKey, idempotency, validate(capturePaymentSchema), asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const { id } = req.params;
+  const { amount } = req.body;
+  const result = await paymentsService.capturePayment(req.apiKey!, id, { amount });
+  res.json({ success: true, data: result });
+}));
+
+router.post('/:id/void', authenticateAPIKey, idempotency, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const { id } = req.params;
+  const result = await paymentsService.voidPayment(req.apiKey!, id);
+  res.json({ success: true, data: result });
+}));
+
 export default router;
@@ -0,0 +1,115 @@
+import express, { Request, Response } from 'express';
+import payoutsService from '../services/payouts.service';
+import { authenticateMerchant } from '../middleware/auth';
+import { asyncHandler } from '../middleware/errorHandler';
+import { validate } from '../middleware/validate';
+import { idempotency } from '../middleware/idempotency';
+import {
+  createPayoutSchema,
+  getPayoutSchema,
+  listPayoutsSchema,
+  listPayoutsQuerySchema,
+  updatePayoutSettingsSchema,
+} from '../schemas/payout.schema';
+
+const router = express.Router();
+
+// API key requests and the dashboard (JWT) both resolve to a merchant
+interface AuthenticatedRequest extends Request {
+  merchant?: {
+    id: string;
+    email: string;
+  };
+}
+
+/**
+ * Get the payout schedule and minimum
+ */
+router.get(
+  '/settings',
+  authenticateMerchant,
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const settings = await payoutsService.getSettings(req.merchant!.id);
+
+    res.json({
+      success: true,
+      data: settings,
+    });
+  })
+);
+
+/**
+ * Update the payout schedule and minimum
+ */
+router.put(
+  '/settings',
+  authenticateMerchant,
+  validate(updatePayoutSettingsSchema),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const settings = await payoutsService.updateSettings(req.merchant!.id, req.body);
+
+    res.json({
+      success: true,
+      data: settings,
+    });
+  })
+);
+
+/**
+ * Pay out the available balance now (all of it, or amount; in currency, or the default currency)
+ */
+router.post(
+  '/',
+  authenticateMerchant,
+  idempotency,
+  validate(createPayoutSchema),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const payout = await payoutsService.createPayout(req.merchant!.id, {
+      amount: req.body.amount,
+      currency: req.body.currency,
+    });
+
+    res.status(201).json({
+      success: true,
+      data: payout,
+    });
+  })
+);
+
+/**
+ * List payouts (?status=in_transit)
+ */
+router.get(
+  '/',
+  authenticateMerchant,
+  validate(listPayoutsSchema),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const options = listPayoutsQuerySchema.parse(req.query);
+
+    const { payouts, total_count, has_more } = await payoutsService.listPayouts(req.merchant!.id, options);
+
+    res.json({
+      success: true,
+      data: { payouts, count: payouts.length, total_count, has_more },
+    });
+  })
+);
+
+/**
+ * Get a payout
+ */
+router.get(
+  '/:id',
+  authenticateMerchant,
+  validate(getPayoutSchema),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const payout = await payoutsService.getPayout(req.merchant!.id, req.params.id);
+
+    res.json({
+      success: true,
+      data: payout,
+    });
+  })
+);
+
+export default router;
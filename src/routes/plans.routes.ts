@@ -0,0 +1,114 @@
+import express, { Request, Response } from 'express';
+import productsService from '../services/products.service';
+import { authenticateAPIKey } from '../middleware/auth';
+import { idempotency } from '../middleware/idempotency';
+import { asyncHandler } from '../middleware/errorHandler';
+import { validate } from '../middleware/validate';
+import {
+  createPlanSchema,
+  updatePlanSchema,
+  listPlansSchema,
+  listPlansQuerySchema,
+} from '../schemas/product.schema';
+
+const router = express.Router();
+
+interface AuthenticatedRequest extends Request {
+  apiKey?: string;
+}
+
+/**
+ * Create plan
+ */
+router.post(
+  '/',
+  authenticateAPIKey,
+  idempotency,
+  validate(createPlanSchema),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const {
+      product_id,
+      nickname,
+      amount,
+      currency,
+      interval,
+      interval_count,
+      trial_period_days,
+      metadata,
+    } = req.body;
+
+    const plan = await productsService.createPlan(req.apiKey!, {
+      product_id,
+      nickname,
+      amount,
+      currency,
+      interval,
+      interval_count,
+      trial_period_days,
+      metadata,
+    });
+
+    res.status(201).json({
+      success: true,
+      data: plan,
+    });
+  })
+);
+
+/**
+ * List plans
+ */
+router.get(
+  '/',
+  authenticateAPIKey,
+  validate(listPlansSchema),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const options = listPlansQuerySchema.parse(req.query);
+
+    const plans = await productsService.listPlans(req.apiKey!, options);
+
+    res.json({
+      success: true,
+      data: plans,
+    });
+  })
+);
+
+/**
+ * Get plan by ID
+ */
+router.get(
+  '/:id',
+  authenticateAPIKey,
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const plan = await productsService.getPlan(req.apiKey!, req.params.id);
+
+    res.json({
+      success: true,
+      data: plan,
+    });
+  })
+);
+
+/**
+ * Update plan (nickname, trial, active flag and metadata only)
+ */
+router.patch(
+  '/:id',
+  authenticateAPIKey,
+  validate(updatePlanSchema),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const { nickname, trial_period_days, is_active, metadata } = req.body;
+
+    const plan = await productsService.updatePlan(req.apiKey!, req.params.id, {
+      nickname, trial_period_days, is_active, metadata,
+    });
+
+    res.json({
+      success: true,
+      data: plan,
+    });
+  })
+);
+
+export default router;
@@ -0,0 +1,98 @@
+import express, { Request, Response } from 'express';
+import productsService from '../services/products.service';
+import { authenticateAPIKey } from '../middleware/auth';
+import { idempotency } from '../middleware/idempotency';
+import { asyncHandler } from '../middleware/errorHandler';
+import { validate } from '../middleware/validate';
+import {
+  createProductSchema,
+  updateProductSchema,
+  listProductsSchema,
+  listProductsQuerySchema,
+} from '../schemas/product.schema';
+
+const router = express.Router();
+
+interface AuthenticatedRequest extends Request {
+  apiKey?: string;
+}
+
+/**
+ * Create product
+ */
+router.post(
+  '/',
+  authenticateAPIKey,
+  idempotency,
+  validate(createProductSchema),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const { name, description, is_active, metadata } = req.body;
+
+    const product = await productsService.createProduct(req.apiKey!, {
+      name, description, is_active, metadata,
+    });
+
+    res.status(201).json({
+      success: true,
+      data: product,
+    });
+  })
+);
+
+/**
+ * List products
+ */
+router.get(
+  '/',
+  authenticateAPIKey,
+  validate(listProductsSchema),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const options = listProductsQuerySchema.parse(req.query);
+
+    const products = await productsService.listProducts(req.apiKey!, options);
+
+    res.json({
+      success: true,
+      data: products,
+    });
+  })
+);
+
+/**
+ * Get product by ID
+ */
+router.get(
+  '/:id',
+  authenticateAPIKey,
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const product = await productsService.getProduct(req.apiKey!, req.params.id);
+
+    res.json({
+      success: true,
+      data: product,
+    });
+  })
+);
+
+/**
+ * Update product
+ */
+router.patch(
+  '/:id',
+  authenticateAPIKey,
+  validate(updateProductSchema),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const { name, description, is_active, metadata } = req.body;
+
+    const product = await productsService.updateProduct(req.apiKey!, req.params.id, {
+      name, description, is_active, metadata,
+    });
+
+    res.json({
+      success: true,
+      data: product,
+    });
+  })
+);
+
+export default router;
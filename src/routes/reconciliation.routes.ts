@@ -0,0 +1,99 @@
+import express, { Request, Response } from 'express';
+import reconciliationService from '../services/reconciliation';
+import { authenticateMerchant } from '../middleware/auth';
+import { asyncHandler } from '../middleware/errorHandler';
+import { validate } from '../middleware/validate';
+import {
+  createReconciliationRunSchema,
+  getReconciliationRunSchema,
+  listReconciliationRunsSchema,
+  listReconciliationRunsQuerySchema,
+  listDiscrepanciesSchema,
+  listDiscrepanciesQuerySchema,
+} from '../schemas/reconciliation.schema';
+
+const router = express.Router();
+
+// API key requests and the dashboard (JWT) both resolve to a merchant
+interface AuthenticatedRequest extends Request {
+  merchant?: {
+    id: string;
+    email: string;
+  };
+}
+
+/**
+ * Reconcile the ledger against the processor now
+ */
+router.post(
+  '/runs',
+  authenticateMerchant,
+  validate(createReconciliationRunSchema),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const { start_date, end_date } = req.body;
+
+    const run = await reconciliationService.runForMerchant(req.merchant!.id, { start_date, end_date });
+
+    res.status(201).json({
+      success: true,
+      data: run,
+    });
+  })
+);
+
+/**
+ * List reconciliation runs
+ */
+router.get(
+  '/runs',
+  authenticateMerchant,
+  validate(listReconciliationRunsSchema),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const options = listReconciliationRunsQuerySchema.parse(req.query);
+
+    const { runs, total_count, has_more } = await reconciliationService.listRuns(req.merchant!.id, options);
+
+    res.json({
+      success: true,
+      data: { runs, count: runs.length, total_count, has_more },
+    });
+  })
+);
+
+/**
+ * Get a run with its discrepancy report
+ */
+router.get(
+  '/runs/:id',
+  authenticateMerchant,
+  validate(getReconciliationRunSchema),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const report = await reconciliationService.getRun(req.merchant!.id, req.params.id);
+
+    res.json({
+      success: true,
+      data: report,
+    });
+  })
+);
+
+/**
+ * List discrepancies across runs (?type=missing_in_ledger, ?run_id=...)
+ */
+router.get(
+  '/discrepancies',
+  authenticateMerchant,
+  validate(listDiscrepanciesSchema),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const options = listDiscrepanciesQuerySchema.parse(req.query);
+
+    const { discrepancies, total_count, has_more } = await reconciliationService.listDiscrepancies(req.merchant!.id, options);
+
+    res.json({
+      success: true,
+      data: { discrepancies, count: discrepancies.length, total_count, has_more },
+    });
+  })
+);
+
+export default router;
@@ -0,0 +1,112 @@
+import express, { Request, Response } from 'express';
+import paymentsService from '../services/payments.service';
+import refundsService from '../services/refunds.service';
+import merchantsService from '../services/merchants.service';
+import { authenticateMerchant } from '../middleware/auth';
+import { idempotency } from '../middleware/idempotency';
+import { asyncHandler } from '../middleware/errorHandler';
+import { validate } from '../middleware/validate';
+import {
+  createRefundSchema,
+  getRefundSchema,
+  cancelRefundSchema,
+  listRefundsSchema,
+  listRefundsQuerySchema,
+} from '../schemas/refund.schema';
+
+const router = express.Router();
+
+// API key requests and the dashboard (JWT) both resolve to a merchant
+interface AuthenticatedRequest extends Request {
+  merchant?: {
+    id: string;
+    email: string;
+  };
+}
+
+/**
+ * Refund a payment (full or partial)
+ */
+router.post(
+  '/',
+  authenticateMerchant,
+  idempotency,
+  validate(createRefundSchema),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const { transaction_id, amount, reason } = req.body;
+    const merchant = await merchantsService.getMerchantById(req.merchant!.id);
+
+    const result = await paymentsService.refundPaymentForMerchant(merchant, transaction_id, {
+      amount,
+      reason,
+      idempotency_key: req.headers['idempotency-key'] as string,
+    });
+    const refund = await refundsService.getRefund(merchant.id, result.refund_id);
+
+    res.status(201).json({
+      success: true,
+      data: {
+        ...refund,
+        ...(result.split_amount_reversed && { split_amount_reversed: result.split_amount_reversed }),
+      },
+    });
+  })
+);
+
+/**
+ * List refunds
+ */
+router.get(
+  '/',
+  authenticateMerchant,
+  validate(listRefundsSchema),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const options = listRefundsQuerySchema.parse(req.query);
+
+    const { refunds, total_count, has_more } = await refundsService.listRefunds(req.merchant!.id, options);
+
+    res.json({
+      success: true,
+      data: { refunds, count: refunds.length, total_count, has_more },
+    });
+  })
+);
+
+/**
+ * Get a refund
+ */
+router.get(
+  '/:id',
+  authenticateMerchant,
+  validate(getRefundSchema),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const refund = await refundsService.getRefund(req.merchant!.id, req.params.id);
+
+    res.json({
+      success: true,
+      data: refund,
+    });
+  })
+);
+
+/**
+ * Cancel a pending refund
+ */
+router.post(
+  '/:id/cancel',
+  authenticateMerchant,
+  idempotency,
+  validate(cancelRefundSchema),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const merchant = await merchantsService.getMerchantById(req.merchant!.id);
+
+    const refund = await refundsService.cancelRefund(merchant, req.params.id);
+
+    res.json({
+      success: true,
+      data: refund,
+    });
+  })
+);
+
+export default router;
@@ -0,0 +1,127 @@
+import express, { Request, Response } from 'express';
+import reviewsService from '../services/reviews.service';
+import merchantsService from '../services/merchants.service';
+import { authenticateMerchant } from '../middleware/auth';
+import { idempotency } from '../middleware/idempotency';
+import { asyncHandler } from '../middleware/errorHandler';
+import { validate } from '../middleware/validate';
+import {
+  getReviewSchema,
+  addReviewNoteSchema,
+  approveReviewSchema,
+  rejectReviewSchema,
+  listReviewsSchema,
+  listReviewsQuerySchema,
+} from '../schemas/review.schema';
+
+const router = express.Router();
+
+// API key requests and the dashboard (JWT) both resolve to a merchant
+interface AuthenticatedRequest extends Request {
+  merchant?: {
+    id: string;
+    email: string;
+  };
+}
+
+/**
+ * List reviews (soonest SLA first)
+ */
+router.get(
+  '/',
+  authenticateMerchant,
+  validate(listReviewsSchema),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const options = listReviewsQuerySchema.parse(req.query);
+
+    const { reviews, total_count, has_more } = await reviewsService.listReviews(req.merchant!.id, options);
+
+    res.json({
+      success: true,
+      data: { reviews, count: reviews.length, total_count, has_more },
+    });
+  })
+);
+
+/**
+ * Get a review
+ */
+router.get(
+  '/:id',
+  authenticateMerchant,
+  validate(getReviewSchema),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const review = await reviewsService.getReview(req.merchant!.id, req.params.id);
+
+    res.json({
+      success: true,
+      data: review,
+    });
+  })
+);
+
+/**
+ * Add a reviewer note
+ */
+router.post(
+  '/:id/notes',
+  authenticateMerchant,
+  validate(addReviewNoteSchema),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const review = await reviewsService.addNote(req.merchant!.id, req.params.id, req.merchant!.email, req.body.note);
+
+    res.json({
+      success: true,
+      data: review,
+    });
+  })
+);
+
+/**
+ * Approve a review (captures a held payment)
+ */
+router.post(
+  '/:id/approve',
+  authenticateMerchant,
+  idempotency,
+  validate(approveReviewSchema),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const merchant = await merchantsService.getMerchantById(req.merchant!.id);
+
+    const review = await reviewsService.approveReview(merchant, req.params.id, {
+      reviewer: req.merchant!.email,
+      note: req.body.note,
+    });
+
+    res.json({
+      success: true,
+      data: review,
+    });
+  })
+);
+
+/**
+ * Reject a review (voids a held payment, optionally refunds a settled one)
+ */
+router.post(
+  '/:id/reject',
+  authenticateMerchant,
+  idempotency,
+  validate(rejectReviewSchema),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const merchant = await merchantsService.getMerchantById(req.merchant!.id);
+
+    const review = await reviewsService.rejectReview(merchant, req.params.id, {
+      reviewer: req.merchant!.email,
+      note: req.body.note,
+      refund: req.body.refund,
+    });
+
+    res.json({
+      success: true,
+      data: review,
+    });
+  })
+);
+
+export default router;
@@ -0,0 +1,124 @@
+import express, { Request, Response } from 'express';
+import { simulatorProcessor } from '../services/processors';
+import { SIMULATOR_TEST_CARDS, SIMULATOR_TEST_AMOUNTS } from '../services/processors/simulator.processor';
+import { AppError, asyncHandler } from '../middleware/errorHandler';
+
+const router = express.Router();
+
+/**
+ * List the magic test cards and amounts the sandbox simulator understands
+ */
+router.get(
+  '/test-cards',
+  asyncHandler(async (req: Request, res: Response) => {
+    res.json({
+      success: true,
+      data: {
+        cards: SIMULATOR_TEST_CARDS,
+        amounts: SIMULATOR_TEST_AMOUNTS,
+      },
+    });
+  })
+);
+
+/**
+ * Confirm a simulated payment intent from the browser
+ * Stands in for Stripe.js confirmCardPayment; the client secret authorizes the call.
+ */
+router.post(
+  '/payment_intents/:id/confirm',
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const { client_secret, payment_method, card_number, return_url } = req.body;
+
+    const intent = await simulatorProcessor.retrievePaymentIntent(id);
+
+    if (!client_secret || client_secret !== intent.client_secret) {
+      throw new AppError('Invalid client secret', 401, 'INVALID_CLIENT_SECRET');
+    }
+
+    const confirmed = await simulatorProcessor.confirmPaymentIntent(id, {
+      payment_method: (card_number ? String(card_number).replace(/\s+/g, '') : payment_method) || undefined,
+      return_url,
+    });
+
+    res.json({
+      success: true,
+      data: {
+        id: confirmed.id,
+        status: confirmed.status,
+        next_action: confirmed.next_action,
+        last_payment_error: confirmed.last_payment_error,
+      },
+    });
+  })
+);
+
+/**
+ * Confirm a simulated setup intent, saving a test card to the customer
+ */
+router.post(
+  '/setup_intents/:id/confirm',
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const { client_secret, payment_method, card_number } = req.body;
+
+    const intent = await simulatorProcessor.retrieveSetupIntent(id);
+
+    if (!client_secret || client_secret !== intent.client_secret) {
+      throw new AppError('Invalid client secret', 401, 'INVALID_CLIENT_SECRET');
+    }
+
+    const confirmed = await simulatorProcessor.confirmSetupIntent(id, {
+      payment_method: (card_number ? String(card_number).replace(/\s+/g, '') : payment_method) || undefined,
+    });
+
+    res.json({
+      success: true,
+      data: {
+        id: confirmed.id,
+        status: confirmed.status,
+        last_setup_error: confirmed.last_setup_error,
+      },
+    });
+  })
+);
+
+/**
+ * Simulated 3D Secure challenge
+ * The next_action URL carries the client secret, which authorizes the call.
+ * Pass ?result=fail to fail authentication. Redirects back to the return URL when one was given.
+ */
+router.get(
+  '/payment_intents/:id/authenticate',
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+
+    const pending = await simulatorProcessor.retrievePaymentIntent(id);
+
+    if (!req.query.client_secret || req.query.client_secret !== pending.client_secret) {
+      throw new AppError('Invalid client secret', 401, 'INVALID_CLIENT_SECRET');
+    }
+
+    const returnUrl = (pending.next_action as any)?.redirect_to_url?.return_url as string | null;
+
+    const intent = await simulatorProcessor.authenticatePaymentIntent(id, req.query.result !== 'fail');
+
+    if (returnUrl) {
+      const redirect = new URL(returnUrl);
+      redirect.searchParams.set('payment_intent', intent.id);
+      redirect.searchParams.set('redirect_status', intent.status === 'requires_payment_method' ? 'failed' : 'succeeded');
+      return res.redirect(redirect.toString());
+    }
+
+    res.json({
+      success: true,
+      data: {
+        id: intent.id,
+        status: intent.status,
+      },
+    });
+  })
+);
+
+export default router;
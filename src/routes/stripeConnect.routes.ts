@@ -4,6 +4,9 @@ import { authenticateJWT, authenticateAPIKey } from '../middleware/auth';
 import { asyncHandler } from '../middleware/errorHandler';
 import merchantsService from '../services/merchants.service';
 import ledgerService from '../services/ledger.service';
+import payoutsService from '../services/payouts.service';
+import { validate } from '../middleware/validate';
+import { createPayoutSchema } from '../schemas/payout.schema';
 
 const router = express.Router();
 
@@ -86,10 +89,11 @@ router.get('/balance', authenticateJWT, asyncHandler(async (req: AuthenticatedRe
   res.json({ success: true, data: balance });
 }));
 
-router.post('/payout', authenticateJWT, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+// Pays out the whole available balance, or { amount } of it (see also /api/payouts)
+router.post('/payout', authenticateJWT, validate(createPayoutSchema), asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
   const merchantId = req.merchant.id;
-  const transferId = await stripeConnectService.transferFunds(merchantId);
-  res.json({ success: true, data: { transferId, message: 'Payout initiated successfully' } });
+  const payout = await payoutsService.createPayout(merchantId, { amount: req.body.amount });
+  res.json({ success: true, data: { payout, transferId: payout.stripe_transfer_id, message: 'Payout initiated successfully' } });
 }));
 
 export default router;
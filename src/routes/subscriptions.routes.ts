@@ -0,0 +1,158 @@
+import express, { Request, Response } from 'express';
+import subscriptionsService from '../services/subscriptions.service';
+import { authenticateAPIKey } from '../middleware/auth';
+import { idempotency } from '../middleware/idempotency';
+import { asyncHandler } from '../middleware/errorHandler';
+import { validate } from '../middleware/validate';
+import {
+  createSubscriptionSchema,
+  updateSubscriptionSchema,
+  cancelSubscriptionSchema,
+  listSubscriptionsSchema,
+  listSubscriptionsQuerySchema,
+  listSubscriptionInvoicesSchema,
+  listSubscriptionInvoicesQuerySchema,
+} from '../schemas/subscription.schema';
+
+const router = express.Router();
+
+interface AuthenticatedRequest extends Request {
+  apiKey?: string;
+}
+
+/**
+ * Create subscription
+ */
+router.post(
+  '/',
+  authenticateAPIKey,
+  idempotency,
+  validate(createSubscriptionSchema),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const {
+      customer_id,
+      plan_id,
+      payment_method_id,
+      trial_period_days,
+      trial_end,
+      cancel_at_period_end,
+      metadata,
+    } = req.body;
+
+    const subscription = await subscriptionsService.createSubscription(req.apiKey!, {
+      customer_id,
+      plan_id,
+      payment_method_id,
+      trial_period_days,
+      trial_end,
+      cancel_at_period_end,
+      metadata,
+    });
+
+    res.status(201).json({
+      success: true,
+      data: subscription,
+    });
+  })
+);
+
+/**
+ * List subscriptions
+ */
+router.get(
+  '/',
+  authenticateAPIKey,
+  validate(listSubscriptionsSchema),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const options = listSubscriptionsQuerySchema.parse(req.query);
+
+    const subscriptions = await subscriptionsService.listSubscriptions(req.apiKey!, options);
+
+    res.json({
+      success: true,
+      data: subscriptions,
+    });
+  })
+);
+
+/**
+ * Get subscription by ID
+ */
+router.get(
+  '/:id',
+  authenticateAPIKey,
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const subscription = await subscriptionsService.getSubscription(req.apiKey!, req.params.id);
+
+    res.json({
+      success: true,
+      data: subscription,
+    });
+  })
+);
+
+/**
+ * Update subscription (plan change with proration, payment method, cancel at period end)
+ */
+router.patch(
+  '/:id',
+  authenticateAPIKey,
+  idempotency,
+  validate(updateSubscriptionSchema),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const { plan_id, proration_behavior, payment_method_id, cancel_at_period_end, metadata } = req.body;
+
+    const subscription = await subscriptionsService.updateSubscription(req.apiKey!, req.params.id, {
+      plan_id,
+      proration_behavior,
+      payment_method_id,
+      cancel_at_period_end,
+      metadata,
+    });
+
+    res.json({
+      success: true,
+      data: subscription,
+    });
+  })
+);
+
+/**
+ * Cancel subscription, immediately or at the end of the current period
+ */
+router.post(
+  '/:id/cancel',
+  authenticateAPIKey,
+  validate(cancelSubscriptionSchema),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const subscription = await subscriptionsService.cancelSubscription(req.apiKey!, req.params.id, {
+      at_period_end: req.body.at_period_end,
+    });
+
+    res.json({
+      success: true,
+      data: subscription,
+    });
+  })
+);
+
+/**
+ * List a subscription's invoices
+ */
+router.get(
+  '/:id/invoices',
+  authenticateAPIKey,
+  validate(listSubscriptionInvoicesSchema),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const options = listSubscriptionInvoicesQuerySchema.parse(req.query);
+
+    const invoices = await subscriptionsService.listSubscriptionInvoices(req.apiKey!, req.params.id, options);
+
+    res.json({
+      success: true,
+      data: invoices,
+    });
+  })
+);
+
+export default router;
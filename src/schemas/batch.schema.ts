@@ -0,0 +1,71 @@
+import { z } from 'zod';
+import { isSupportedCurrency, validateAmount } from '../config/currencies.config';
+
+const batchParams = z.object({
+  id: z.string().uuid('Invalid batch ID'),
+});
+
+// Rows come from CSV as strings, so numbers are coerced
+
+export const batchPaymentRowSchema = z.object({
+  customer_id: z.string().uuid('customer_id must be a customer ID'),
+  payment_method_id: z.string().uuid('payment_method_id must be a saved payment method ID').optional(),
+  amount: z.coerce.number().int('Amount must be in the smallest currency unit').positive('Amount must be a positive number'),
+  currency: z.string()
+    .length(3, 'Currency must be a 3-letter ISO code')
+    .refine(isSupportedCurrency, 'Currency is not supported')
+    .transform((currency) => currency.toLowerCase()),
+  description: z.string().max(500).optional(),
+  reference: z.string().max(255).optional(),
+}).superRefine((row, ctx) => {
+  const error = isSupportedCurrency(row.currency) && validateAmount(row.amount, row.currency);
+  if (error) {
+    ctx.addIssue({ code: 'custom', path: ['amount'], message: error.message });
+  }
+});
+
+export const batchRefundRowSchema = z.object({
+  transaction_id: z.string().uuid('transaction_id must be a transaction ID'),
+  amount: z.coerce.number().int('Amount must be in the smallest currency unit').positive('Amount must be a positive number').optional(),
+  reason: z.enum(['duplicate', 'fraudulent', 'requested_by_customer']).optional(),
+  reference: z.string().max(255).optional(),
+});
+
+export const createBatchSchema = z.object({
+  body: z.object({
+    type: z.enum(['payment', 'refund']),
+    // JSON submissions; CSV/JSON files are uploaded as multipart "file" instead
+    items: z.array(z.record(z.string(), z.any())).min(1, 'Batch has no items').optional(),
+    metadata: z.union([z.record(z.string(), z.any()), z.string()]).optional(),
+  }),
+});
+
+export const listBatchesQuerySchema = z.object({
+  limit: z.coerce.number().int().positive().max(100, 'Limit cannot exceed 100').optional(),
+  offset: z.coerce.number().int().nonnegative().optional(),
+  status: z.enum(['pending', 'processing', 'completed', 'completed_with_errors', 'failed']).optional(),
+});
+
+export const listBatchesSchema = z.object({
+  query: listBatchesQuerySchema,
+});
+
+export const listBatchItemsQuerySchema = z.object({
+  limit: z.coerce.number().int().positive().max(1000, 'Limit cannot exceed 1000').optional(),
+  offset: z.coerce.number().int().nonnegative().optional(),
+  status: z.enum(['pending', 'succeeded', 'failed']).optional(),
+});
+
+export const listBatchItemsSchema = z.object({
+  params: batchParams,
+  query: listBatchItemsQuerySchema,
+});
+
+export const batchResultsQuerySchema = z.object({
+  format: z.enum(['csv', 'json']).optional(),
+});
+
+export const batchResultsSchema = z.object({
+  params: batchParams,
+  query: batchResultsQuerySchema,
+});
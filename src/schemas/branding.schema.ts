@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { PAYMENT_METHOD_NAMES } from '../config/paymentMethods.config';
 
 /**
  * Validation schema for updating merchant branding
@@ -25,7 +26,7 @@ export const updateBrandingSchema = z.object({
       .toLowerCase()
       .optional(),
 
-    payment_methods: z.array(z.enum(['card']))
+    payment_methods: z.array(z.enum(PAYMENT_METHOD_NAMES))
       .min(1, 'At least one payment method must be enabled')
       .optional(),
   }).refine(
@@ -0,0 +1,54 @@
+import { z } from 'zod';
+import { SAVEABLE_PAYMENT_METHOD_NAMES } from '../config/paymentMethods.config';
+
+const addressSchema = z.object({
+  line1: z.string().max(255).optional(),
+  line2: z.string().max(255).optional(),
+  city: z.string().max(100).optional(),
+  state: z.string().max(100).optional(),
+  postal_code: z.string().max(20).optional(),
+  country: z.string().length(2, 'Country must be a 2-letter ISO code').optional(),
+});
+
+const customerFields = {
+  email: z.string().email('Invalid customer email').optional(),
+  name: z.string().max(255).optional(),
+  phone: z.string().max(50).optional(),
+  description: z.string().max(1000).optional(),
+  address: addressSchema.optional(),
+  metadata: z.record(z.string(), z.any()).optional(),
+};
+
+export const createCustomerSchema = z.object({
+  body: z.object(customerFields),
+});
+
+export const updateCustomerSchema = z.object({
+  params: z.object({
+    id: z.string().uuid('Invalid customer ID'),
+  }),
+  body: z.object(customerFields).refine(
+    (body) => Object.keys(body).length > 0,
+    { message: 'At least one field is required' }
+  ),
+});
+
+export const listCustomersQuerySchema = z.object({
+  limit: z.coerce.number().int().positive().max(100, 'Limit cannot exceed 100').optional(),
+  offset: z.coerce.number().int().nonnegative().optional(),
+  email: z.string().email('Invalid customer email').optional(),
+});
+
+export const listCustomersSchema = z.object({
+  query: listCustomersQuerySchema,
+});
+
+export const createSetupIntentSchema = z.object({
+  params: z.object({
+    id: z.string().uuid('Invalid customer ID'),
+  }),
+  body: z.object({
+    payment_method: z.enum(SAVEABLE_PAYMENT_METHOD_NAMES).optional(),
+    usage: z.enum(['off_session', 'on_session']).optional(),
+  }),
+});
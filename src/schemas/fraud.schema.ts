@@ -0,0 +1,87 @@
+import { z } from 'zod';
+
+const fraudRuleParams = z.object({
+  id: z.string().uuid('Invalid rule ID'),
+});
+
+/**
+ * Settings for each rule type
+ * Exported so rule updates can be checked against the stored rule's type.
+ */
+export const fraudRuleConfigSchemas = {
+  // Too many attempts from the same email, IP address or card within the window
+  velocity: z.object({
+    field: z.enum(['email', 'ip_address', 'card_fingerprint']),
+    max_attempts: z.number().int().positive().max(1000),
+    window_minutes: z.number().int().positive().max(10080, 'Window cannot exceed 7 days'),
+  }),
+  // Amount far above the merchant's usual payments in the currency
+  amount_outlier: z.object({
+    multiplier: z.number().positive().max(100).default(3), // Standard deviations above the mean
+    min_history: z.number().int().min(2).max(10000).default(20), // Payments needed before the rule applies
+    lookback_days: z.number().int().positive().max(365).default(90),
+  }),
+  // Card issuing country differs from the customer's (or the merchant's) country
+  country_mismatch: z.object({
+    compare_with: z.enum(['customer_country', 'merchant_country']).default('customer_country'),
+  }),
+  // Allow, review or block list
+  list: z.object({
+    field: z.enum(['email', 'email_domain', 'ip_address', 'card_fingerprint', 'card_country', 'customer_country']),
+    values: z.array(z.string().trim().min(1).max(255)).min(1).max(1000, 'A list cannot have more than 1000 values'),
+  }),
+};
+
+const ruleFields = {
+  name: z.string().min(1, 'Name is required').max(255),
+  action: z.enum(['allow', 'review', 'block']),
+  score: z.number().int().min(0).max(100).optional(),
+  is_active: z.boolean().optional(),
+};
+
+export const createFraudRuleSchema = z.object({
+  body: z.discriminatedUnion('type', [
+    z.object({ ...ruleFields, type: z.literal('velocity'), config: fraudRuleConfigSchemas.velocity }),
+    z.object({ ...ruleFields, type: z.literal('amount_outlier'), config: fraudRuleConfigSchemas.amount_outlier.prefault({}) }),
+    z.object({ ...ruleFields, type: z.literal('country_mismatch'), config: fraudRuleConfigSchemas.country_mismatch.prefault({}) }),
+    z.object({ ...ruleFields, type: z.literal('list'), config: fraudRuleConfigSchemas.list }),
+  ]),
+});
+
+export const updateFraudRuleSchema = z.object({
+  params: fraudRuleParams,
+  body: z.object({
+    name: ruleFields.name.optional(),
+    action: ruleFields.action.optional(),
+    score: ruleFields.score,
+    is_active: ruleFields.is_active,
+    // Checked against the rule's type by the service
+    config: z.record(z.string(), z.any()).optional(),
+  }).refine(
+    (body) => Object.keys(body).length > 0,
+    { message: 'At least one field is required' }
+  ),
+});
+
+export const fraudRuleSchema = z.object({
+  params: fraudRuleParams,
+});
+
+export const listRiskAssessmentsQuerySchema = z.object({
+  limit: z.coerce.number().int().positive().max(100, 'Limit cannot exceed 100').optional(),
+  offset: z.coerce.number().int().nonnegative().optional(),
+  outcome: z.enum(['allow', 'review', 'block']).optional(),
+  transaction_id: z.string().uuid('transaction_id must be a transaction ID').optional(),
+  start_date: z.string().optional(),
+  end_date: z.string().optional(),
+});
+
+export const listRiskAssessmentsSchema = z.object({
+  query: listRiskAssessmentsQuerySchema,
+});
+
+export const getRiskAssessmentSchema = z.object({
+  params: z.object({
+    id: z.string().uuid('Invalid risk assessment ID'),
+  }),
+});
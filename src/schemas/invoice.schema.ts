@@ -0,0 +1,78 @@
+import { z } from 'zod';
+import { isSupportedCurrency } from '../config/currencies.config';
+
+const invoiceParams = z.object({
+  id: z.string().uuid('Invalid invoice ID'),
+});
+
+const lineItemSchema = z.object({
+  description: z.string().min(1, 'Description is required').max(500),
+  quantity: z.number().int().positive().max(100000).optional(),
+  unit_amount: z.number().int('Amount must be in the smallest currency unit').nonnegative('Unit amount cannot be negative'),
+});
+
+const discountSchema = z.object({
+  description: z.string().max(255).optional(),
+  percent_off: z.number().positive().max(100).optional(),
+  amount_off: z.number().int('Amount must be in the smallest currency unit').positive().optional(),
+}).refine(
+  (discount) => (discount.percent_off === undefined) !== (discount.amount_off === undefined),
+  { message: 'A discount needs either percent_off or amount_off' }
+);
+
+const taxRateSchema = z.object({
+  display_name: z.string().min(1).max(100),
+  percentage: z.number().nonnegative().max(100),
+});
+
+const invoiceFields = {
+  description: z.string().max(1000).nullable().optional(),
+  footer: z.string().max(1000).nullable().optional(),
+  collection_method: z.enum(['charge_automatically', 'send_invoice']).optional(),
+  due_date: z.string().datetime('due_date must be an ISO 8601 date').nullable().optional(),
+  days_until_due: z.number().int().nonnegative().max(365).optional(),
+  line_items: z.array(lineItemSchema).max(250).optional(),
+  discounts: z.array(discountSchema).max(5).optional(),
+  tax_rates: z.array(taxRateSchema).max(5).optional(),
+  metadata: z.record(z.string(), z.any()).optional(),
+};
+
+export const createInvoiceSchema = z.object({
+  body: z.object({
+    customer_id: z.string().uuid('Invalid customer ID'),
+    currency: z.string()
+      .length(3, 'Currency must be a 3-letter ISO code')
+      .refine(isSupportedCurrency, 'Currency is not supported'),
+    ...invoiceFields,
+  }).refine(
+    (body) => !(body.due_date && body.days_until_due !== undefined),
+    { message: 'Use either due_date or days_until_due, not both', path: ['due_date'] }
+  ),
+});
+
+export const updateInvoiceSchema = z.object({
+  params: invoiceParams,
+  body: z.object(invoiceFields).refine(
+    (body) => Object.keys(body).length > 0,
+    { message: 'At least one field is required' }
+  ),
+});
+
+export const payInvoiceSchema = z.object({
+  params: invoiceParams,
+  body: z.object({
+    payment_method_id: z.string().uuid('payment_method_id must be a saved payment method ID').optional(),
+  }),
+});
+
+export const listInvoicesQuerySchema = z.object({
+  limit: z.coerce.number().int().positive().max(100, 'Limit cannot exceed 100').optional(),
+  offset: z.coerce.number().int().nonnegative().optional(),
+  customer_id: z.string().uuid('Invalid customer ID').optional(),
+  subscription_id: z.string().uuid('Invalid subscription ID').optional(),
+  status: z.enum(['draft', 'open', 'paid', 'void', 'uncollectible']).optional(),
+});
+
+export const listInvoicesSchema = z.object({
+  query: listInvoicesQuerySchema,
+});
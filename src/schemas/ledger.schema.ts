@@ -0,0 +1,26 @@
+import { z } from 'zod';
+
+const ledgerEntryFilters = {
+  start_date: z.string().optional(),
+  end_date: z.string().optional(),
+  type: z.enum(['credit', 'debit']).optional(),
+  status: z.enum(['available', 'pending', 'reserve']).optional(),
+  source: z.enum(['payment', 'refund', 'dispute', 'split', 'payout', 'release', 'reserve', 'adjustment']).optional(),
+  currency: z.string().length(3, 'Currency must be a 3-letter ISO code').optional(),
+};
+
+export const listLedgerEntriesQuerySchema = z.object({
+  limit: z.coerce.number().int().positive().max(100, 'Limit cannot exceed 100').optional(),
+  offset: z.coerce.number().int().nonnegative().optional(),
+  ...ledgerEntryFilters,
+});
+
+export const listLedgerEntriesSchema = z.object({
+  query: listLedgerEntriesQuerySchema,
+});
+
+export const exportLedgerEntriesQuerySchema = z.object(ledgerEntryFilters);
+
+export const exportLedgerEntriesSchema = z.object({
+  query: exportLedgerEntriesQuerySchema,
+});
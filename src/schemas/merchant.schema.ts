@@ -1,4 +1,16 @@
 import { z } from 'zod';
+import { PAYMENT_METHOD_NAMES } from '../config/paymentMethods.config';
+import { isSupportedCurrency } from '../config/currencies.config';
+
+const amountThresholdRuleSchema = z.object({
+  currency: z.string()
+    .length(3, 'Currency must be a 3-letter ISO code')
+    .refine(isSupportedCurrency, 'Currency is not supported')
+    .transform((currency) => currency.toLowerCase())
+    .optional(),
+  // Smallest currency unit of `currency`; two-decimal units when no currency is given
+  min_amount: z.number().int('min_amount must be an integer').nonnegative('min_amount cannot be negative'),
+});
 
 export const updateEnvironmentSchema = z.object({
   body: z.object({
@@ -17,6 +29,12 @@ export const updateProfileSchema = z.object({
     business_name: z.string().min(2).optional(),
     business_email: z.string().email().optional(),
     business_type: z.string().optional(),
+    accepted_payment_methods: z.array(z.enum(PAYMENT_METHOD_NAMES))
+      .min(1, 'At least one payment method must be enabled')
+      .optional(),
+    three_d_secure_rules: z.array(amountThresholdRuleSchema).max(20, 'At most 20 3D Secure rules').optional(),
+    review_rules: z.array(amountThresholdRuleSchema).max(20, 'At most 20 review rules').optional(),
+    review_sla_hours: z.number().int().positive().max(168, 'Review SLA cannot exceed 7 days').optional(),
     // Add other profile fields as needed
   }),
 });
@@ -1,30 +1,96 @@
 import { z } from 'zod';
+import { isSupportedCurrency, validateAmount } from '../config/currencies.config';
+import { PAYMENT_METHOD_NAMES } from '../config/paymentMethods.config';
+
+const currencySchema = z.string()
+  .length(3, 'Currency must be a 3-letter ISO code')
+  .refine(isSupportedCurrency, 'Currency is not supported');
+
+const paymentSplitSchema = z.object({
+  // Merchant ID on the platform or a connected account ID
+  destination: z.union([
+    z.string().uuid(),
+    z.string().regex(/^acct_[A-Za-z0-9]+$/),
+  ], { message: 'destination must be a merchant ID or a connected account ID (acct_...)' }),
+  amount: z.number().int('Amount must be in the smallest currency unit').positive('Amount must be a positive number').optional(),
+  percentage: z.number().positive('Percentage must be positive').max(100, 'Percentage cannot exceed 100').optional(),
+  description: z.string().max(500).optional(),
+}).refine((split) => (split.amount === undefined) !== (split.percentage === undefined), {
+  message: 'Provide either amount or percentage',
+});
 
 export const createPaymentSchema = z.object({
   body: z.object({
-    amount: z.number().positive('Amount must be a positive number'),
-    currency: z.string().length(3, 'Currency must be a 3-letter ISO code').default('USD'),
+    amount: z.number().int('Amount must be in the smallest currency unit').positive('Amount must be a positive number'),
+    currency: currencySchema.default('USD'),
     description: z.string().optional(),
     customer_email: z.string().email('Invalid customer email').optional(),
     customer_name: z.string().optional(),
-    payment_method: z.string().optional(),
+    customer_id: z.string().uuid('customer_id must be a customer ID').optional(),
+    payment_method_id: z.string().uuid('payment_method_id must be a saved payment method ID').optional(),
+    payment_method: z.enum(PAYMENT_METHOD_NAMES).optional(),
+    capture_method: z.enum(['automatic', 'manual']).optional(),
+    splits: z.array(paymentSplitSchema).min(1).max(10, 'A payment cannot have more than 10 splits').optional(),
+    return_url: z.string()
+      .url('Invalid return URL')
+      .refine((url) => /^https?:\/\//i.test(url), 'Return URL must use http or https')
+      .optional(),
+    customer_ip_address: z.union([z.ipv4(), z.ipv6()], { message: 'Invalid customer IP address' }).optional(),
+    customer_country: z.string().length(2, 'Customer country must be a 2-letter ISO code').optional(),
     metadata: z.record(z.string(), z.any()).optional(),
+  }).superRefine((body, ctx) => {
+    const error = isSupportedCurrency(body.currency) && validateAmount(body.amount, body.currency);
+    if (error) {
+      ctx.addIssue({ code: 'custom', path: ['amount'], message: error.message });
+    }
+
+    if (body.customer_id && body.customer_email) {
+      ctx.addIssue({ code: 'custom', path: ['customer_email'], message: 'Use either customer_id or customer_email, not both' });
+    }
+
+    if (body.payment_method_id && !body.customer_id) {
+      ctx.addIssue({ code: 'custom', path: ['payment_method_id'], message: 'payment_method_id requires customer_id' });
+    }
+
+    if (body.payment_method_id && body.payment_method) {
+      ctx.addIssue({ code: 'custom', path: ['payment_method'], message: 'Use either payment_method or payment_method_id, not both' });
+    }
   }),
 });
 
+export const listPaymentsQuerySchema = z.object({
+  limit: z.coerce.number().int().positive().max(100, 'Limit cannot exceed 100').optional(),
+  starting_after: z.string().uuid('starting_after must be a transaction ID').optional(),
+  ending_before: z.string().uuid('ending_before must be a transaction ID').optional(),
+  status: z.string().optional(),
+  start_date: z.string().optional(),
+  end_date: z.string().optional(),
+  customer_email: z.string().email('Invalid customer email').optional(),
+  customer_id: z.string().uuid('customer_id must be a customer ID').optional(),
+  amount_gte: z.coerce.number().int().nonnegative().optional(),
+  amount_lte: z.coerce.number().int().nonnegative().optional(),
+  currency: z.string().length(3, 'Currency must be a 3-letter ISO code').toLowerCase().optional(),
+  payment_method: z.string().optional(),
+  // metadata[key]=value
+  metadata: z.record(z.string(), z.string()).optional(),
+}).refine(
+  (query) => !(query.starting_after && query.ending_before),
+  { message: 'Use either starting_after or ending_before, not both' }
+);
+
 export const listPaymentsSchema = z.object({
-  query: z.object({
-    limit: z.coerce.number().int().positive().optional(),
-    offset: z.coerce.number().int().nonnegative().optional(),
-    status: z.string().optional(),
-    start_date: z.string().optional(),
-    end_date: z.string().optional(),
-  }),
+  query: listPaymentsQuerySchema,
 });
 
 export const refundPaymentSchema = z.object({
   body: z.object({
-    amount: z.number().positive('Amount must be a positive number').optional(),
+    amount: z.number().int('Amount must be in the smallest currency unit').positive('Amount must be a positive number').optional(),
     reason: z.string().optional(),
   }),
 });
+
+export const capturePaymentSchema = z.object({
+  body: z.object({
+    amount: z.number().int().positive('Amount must be a positive number').optional(),
+  }),
+});
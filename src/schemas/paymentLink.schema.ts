@@ -0,0 +1,12 @@
+import { z } from 'zod';
+
+export const paymentLinkCheckoutSchema = z.object({
+  params: z.object({
+    slug: z.string().min(1, 'Payment link slug is required'),
+  }),
+  body: z.object({
+    amount: z.number().int('Amount must be in the smallest currency unit').positive('Amount must be a positive number').optional(),
+    customer_email: z.string().email('Invalid customer email').optional(),
+    customer_name: z.string().max(255).optional(),
+  }),
+});
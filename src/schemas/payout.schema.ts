@@ -0,0 +1,42 @@
+import { z } from 'zod';
+import { isSupportedCurrency } from '../config/currencies.config';
+
+const weekdays = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'] as const;
+
+export const createPayoutSchema = z.object({
+  body: z.object({
+    // Defaults to the whole available balance
+    amount: z.number().int('Amount must be in the smallest currency unit').positive().optional(),
+    // Defaults to the default currency
+    currency: z.string()
+      .length(3, 'Currency must be a 3-letter ISO code')
+      .refine(isSupportedCurrency, 'Currency is not supported')
+      .optional(),
+  }).prefault({}),
+});
+
+export const getPayoutSchema = z.object({
+  params: z.object({
+    id: z.string().uuid('Invalid payout ID'),
+  }),
+});
+
+export const listPayoutsQuerySchema = z.object({
+  limit: z.coerce.number().int().positive().max(100, 'Limit cannot exceed 100').optional(),
+  offset: z.coerce.number().int().nonnegative().optional(),
+  status: z.enum(['pending', 'in_transit', 'paid', 'failed', 'canceled']).optional(),
+});
+
+export const listPayoutsSchema = z.object({
+  query: listPayoutsQuerySchema,
+});
+
+export const updatePayoutSettingsSchema = z.object({
+  body: z.object({
+    schedule: z.enum(['manual', 'daily', 'weekly', 'monthly']).optional(),
+    weekly_anchor: z.enum(weekdays).optional(),
+    // Days past the end of a month pay out on its last day
+    monthly_anchor: z.number().int().min(1).max(31).optional(),
+    minimum_amount: z.number().int('Minimum payout must be in the smallest currency unit').nonnegative().optional(),
+  }),
+});
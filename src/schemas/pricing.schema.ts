@@ -0,0 +1,35 @@
+import { z } from 'zod';
+
+const pricingRateSchema = z.object({
+  currency: z.string().length(3, 'Currency must be a 3-letter ISO code').toLowerCase().nullable().optional(),
+  payment_method: z.string().nullable().optional(),
+  percent: z.number().min(0).max(100),
+  fixed: z.number().int('Fixed fee must be in the smallest currency unit').nonnegative(),
+});
+
+const volumeTierSchema = z.object({
+  min_volume: z.number().int().nonnegative(),
+  percent_discount: z.number().min(0).max(100),
+});
+
+export const savePricingPlanSchema = z.object({
+  body: z.object({
+    plan_key: z.string().regex(/^[a-z0-9_-]+$/, 'Plan key may only contain lowercase letters, numbers, dashes and underscores').max(100),
+    name: z.string().min(1).max(255),
+    description: z.string().optional(),
+    rates: z.array(pricingRateSchema).min(1, 'At least one rate is required'),
+    volume_tiers: z.array(volumeTierSchema).optional(),
+    minimum_fee: z.number().int().nonnegative().optional(),
+    international_card_surcharge_percent: z.number().min(0).max(100).optional(),
+    is_default: z.boolean().optional(),
+  }),
+});
+
+export const assignPricingPlanSchema = z.object({
+  params: z.object({
+    id: z.string().uuid('Invalid merchant ID'),
+  }),
+  body: z.object({
+    plan_key: z.string().min(1, 'Plan key is required'),
+  }),
+});
@@ -0,0 +1,74 @@
+import { z } from 'zod';
+import { isSupportedCurrency } from '../config/currencies.config';
+
+const productFields = {
+  name: z.string().min(1, 'Name is required').max(255),
+  description: z.string().max(1000).optional(),
+  is_active: z.boolean().optional(),
+  metadata: z.record(z.string(), z.any()).optional(),
+};
+
+export const createProductSchema = z.object({
+  body: z.object(productFields),
+});
+
+export const updateProductSchema = z.object({
+  params: z.object({
+    id: z.string().uuid('Invalid product ID'),
+  }),
+  body: z.object({
+    ...productFields,
+    name: productFields.name.optional(),
+  }).refine(
+    (body) => Object.keys(body).length > 0,
+    { message: 'At least one field is required' }
+  ),
+});
+
+export const listProductsQuerySchema = z.object({
+  limit: z.coerce.number().int().positive().max(100, 'Limit cannot exceed 100').optional(),
+  offset: z.coerce.number().int().nonnegative().optional(),
+  is_active: z.enum(['true', 'false']).transform((value) => value === 'true').optional(),
+});
+
+export const listProductsSchema = z.object({
+  query: listProductsQuerySchema,
+});
+
+export const createPlanSchema = z.object({
+  body: z.object({
+    product_id: z.string().uuid('Invalid product ID'),
+    nickname: z.string().max(255).optional(),
+    amount: z.number().int('Amount must be in the smallest currency unit').nonnegative('Amount cannot be negative'),
+    currency: z.string()
+      .length(3, 'Currency must be a 3-letter ISO code')
+      .refine(isSupportedCurrency, 'Currency is not supported'),
+    interval: z.enum(['day', 'week', 'month', 'year']),
+    interval_count: z.number().int().positive().max(365).optional(),
+    trial_period_days: z.number().int().nonnegative().max(730).optional(),
+    metadata: z.record(z.string(), z.any()).optional(),
+  }),
+});
+
+export const updatePlanSchema = z.object({
+  params: z.object({
+    id: z.string().uuid('Invalid plan ID'),
+  }),
+  body: z.object({
+    nickname: z.string().max(255).optional(),
+    trial_period_days: z.number().int().nonnegative().max(730).nullable().optional(),
+    is_active: z.boolean().optional(),
+    metadata: z.record(z.string(), z.any()).optional(),
+  }).refine(
+    (body) => Object.keys(body).length > 0,
+    { message: 'At least one field is required' }
+  ),
+});
+
+export const listPlansQuerySchema = listProductsQuerySchema.extend({
+  product_id: z.string().uuid('Invalid product ID').optional(),
+});
+
+export const listPlansSchema = z.object({
+  query: listPlansQuerySchema,
+});
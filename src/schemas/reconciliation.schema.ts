@@ -0,0 +1,35 @@
+import { z } from 'zod';
+
+export const createReconciliationRunSchema = z.object({
+  body: z.object({
+    // Defaults to the previous UTC day; end_date alone reconciles the 24 hours before it
+    start_date: z.string().datetime('start_date must be an ISO 8601 date').optional(),
+    end_date: z.string().datetime('end_date must be an ISO 8601 date').optional(),
+  }),
+});
+
+export const getReconciliationRunSchema = z.object({
+  params: z.object({
+    id: z.string().uuid('Invalid reconciliation run ID'),
+  }),
+});
+
+export const listReconciliationRunsQuerySchema = z.object({
+  limit: z.coerce.number().int().positive().max(100, 'Limit cannot exceed 100').optional(),
+  offset: z.coerce.number().int().nonnegative().optional(),
+});
+
+export const listReconciliationRunsSchema = z.object({
+  query: listReconciliationRunsQuerySchema,
+});
+
+export const listDiscrepanciesQuerySchema = z.object({
+  limit: z.coerce.number().int().positive().max(100, 'Limit cannot exceed 100').optional(),
+  offset: z.coerce.number().int().nonnegative().optional(),
+  run_id: z.string().uuid('run_id must be a reconciliation run ID').optional(),
+  type: z.enum(['missing_in_ledger', 'missing_at_processor', 'duplicate', 'amount_mismatch']).optional(),
+});
+
+export const listDiscrepanciesSchema = z.object({
+  query: listDiscrepanciesQuerySchema,
+});
@@ -0,0 +1,41 @@
+import { z } from 'zod';
+
+const refundParams = z.object({
+  id: z.string().uuid('Invalid refund ID'),
+});
+
+export const createRefundSchema = z.object({
+  body: z.object({
+    transaction_id: z.string().uuid('transaction_id must be a transaction ID'),
+    amount: z.number().int('Amount must be in the smallest currency unit').positive('Amount must be a positive number').optional(),
+    reason: z.string().max(255).optional(),
+  }),
+});
+
+export const getRefundSchema = z.object({
+  params: refundParams,
+});
+
+export const cancelRefundSchema = z.object({
+  params: refundParams,
+});
+
+export const listRefundsQuerySchema = z.object({
+  limit: z.coerce.number().int().positive().max(100, 'Limit cannot exceed 100').optional(),
+  offset: z.coerce.number().int().nonnegative().optional(),
+  transaction_id: z.string().uuid('transaction_id must be a transaction ID').optional(),
+  status: z.enum(['pending', 'succeeded', 'failed', 'canceled']).optional(),
+  start_date: z.string().optional(),
+  end_date: z.string().optional(),
+});
+
+export const listRefundsSchema = z.object({
+  query: listRefundsQuerySchema,
+});
+
+export const repairRefundLedgerSchema = z.object({
+  body: z.object({
+    merchant_id: z.string().uuid('Invalid merchant ID').optional(),
+    dry_run: z.boolean().optional(),
+  }),
+});
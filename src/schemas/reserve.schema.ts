@@ -0,0 +1,15 @@
+import { z } from 'zod';
+
+export const setReservePolicySchema = z.object({
+  params: z.object({
+    id: z.string().uuid('Invalid merchant ID'),
+  }),
+  body: z.object({
+    percent: z.number().min(0).max(100).optional(),
+    hold_days: z.number().int().min(0).max(365).optional(),
+    minimum_amount: z.number().int('Minimum reserve must be in the smallest currency unit').nonnegative().optional(),
+  }).refine(
+    (body) => Object.keys(body).length > 0,
+    { message: 'Provide at least one of percent, hold_days or minimum_amount' }
+  ),
+});
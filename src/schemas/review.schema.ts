@@ -0,0 +1,44 @@
+import { z } from 'zod';
+
+const reviewParams = z.object({
+  id: z.string().uuid('Invalid review ID'),
+});
+
+const noteSchema = z.string().trim().min(1, 'Note cannot be empty').max(2000);
+
+export const getReviewSchema = z.object({
+  params: reviewParams,
+});
+
+export const addReviewNoteSchema = z.object({
+  params: reviewParams,
+  body: z.object({
+    note: noteSchema,
+  }),
+});
+
+export const approveReviewSchema = z.object({
+  params: reviewParams,
+  body: z.object({
+    note: noteSchema.optional(),
+  }),
+});
+
+export const rejectReviewSchema = z.object({
+  params: reviewParams,
+  body: z.object({
+    note: noteSchema.optional(),
+    // Refund a payment that settled before the review (held payments are voided)
+    refund: z.boolean().optional(),
+  }),
+});
+
+export const listReviewsQuerySchema = z.object({
+  limit: z.coerce.number().int().positive().max(100, 'Limit cannot exceed 100').optional(),
+  offset: z.coerce.number().int().nonnegative().optional(),
+  status: z.enum(['open', 'approved', 'rejected', 'canceled']).optional(),
+});
+
+export const listReviewsSchema = z.object({
+  query: listReviewsQuerySchema,
+});
@@ -0,0 +1,67 @@
+import { z } from 'zod';
+
+const subscriptionParams = z.object({
+  id: z.string().uuid('Invalid subscription ID'),
+});
+
+export const createSubscriptionSchema = z.object({
+  body: z.object({
+    customer_id: z.string().uuid('Invalid customer ID'),
+    plan_id: z.string().uuid('Invalid plan ID'),
+    payment_method_id: z.string().uuid('payment_method_id must be a saved payment method ID').optional(),
+    trial_period_days: z.number().int().nonnegative().max(730).optional(),
+    trial_end: z.string().datetime('trial_end must be an ISO 8601 date').optional(),
+    cancel_at_period_end: z.boolean().optional(),
+    metadata: z.record(z.string(), z.any()).optional(),
+  }).superRefine((body, ctx) => {
+    if (body.trial_end && body.trial_period_days !== undefined) {
+      ctx.addIssue({ code: 'custom', path: ['trial_end'], message: 'Use either trial_end or trial_period_days, not both' });
+    }
+
+    if (body.trial_end && new Date(body.trial_end).getTime() <= Date.now()) {
+      ctx.addIssue({ code: 'custom', path: ['trial_end'], message: 'trial_end must be in the future' });
+    }
+  }),
+});
+
+export const updateSubscriptionSchema = z.object({
+  params: subscriptionParams,
+  body: z.object({
+    plan_id: z.string().uuid('Invalid plan ID').optional(),
+    proration_behavior: z.enum(['create_prorations', 'none', 'always_invoice']).optional(),
+    payment_method_id: z.string().uuid('payment_method_id must be a saved payment method ID').optional(),
+    cancel_at_period_end: z.boolean().optional(),
+    metadata: z.record(z.string(), z.any()).optional(),
+  }).refine(
+    (body) => Object.keys(body).length > 0,
+    { message: 'At least one field is required' }
+  ),
+});
+
+export const cancelSubscriptionSchema = z.object({
+  params: subscriptionParams,
+  body: z.object({
+    at_period_end: z.boolean().optional(),
+  }),
+});
+
+export const listSubscriptionsQuerySchema = z.object({
+  limit: z.coerce.number().int().positive().max(100, 'Limit cannot exceed 100').optional(),
+  offset: z.coerce.number().int().nonnegative().optional(),
+  customer_id: z.string().uuid('Invalid customer ID').optional(),
+  status: z.enum(['incomplete', 'trialing', 'active', 'past_due', 'canceled']).optional(),
+});
+
+export const listSubscriptionsSchema = z.object({
+  query: listSubscriptionsQuerySchema,
+});
+
+export const listSubscriptionInvoicesQuerySchema = z.object({
+  limit: z.coerce.number().int().positive().max(100, 'Limit cannot exceed 100').optional(),
+  offset: z.coerce.number().int().nonnegative().optional(),
+});
+
+export const listSubscriptionInvoicesSchema = z.object({
+  params: subscriptionParams,
+  query: listSubscriptionInvoicesQuerySchema,
+});
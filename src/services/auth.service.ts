@@ -204,7 +204,7 @@ class AuthService {
         currency: defaultCurrency,
       });
 
-      // Send welcome email (non-blocking)
+      // Queue welcome email (non-blocking)
       emailService.sendWelcomeEmail(merchant).catch((error) => {
         console.error('Failed to send welcome email:', error);
         // Don't fail the signup if email fails
@@ -0,0 +1,154 @@
+import { describe, it, expect, beforeEach, afterEach, mock, spyOn } from 'bun:test';
+import { fakeSupabase } from '../test/fakeSupabase';
+import { fakeProcessorsModule } from '../test/fakeProcessor';
+
+mock.module('@supabase/supabase-js', () => ({ createClient: () => fakeSupabase.client }));
+mock.module('./processors', () => fakeProcessorsModule);
+mock.module('./merchantWebhooks.service', () => ({ default: { send: async () => {} } }));
+
+const { default: batchesService } = await import('./batches.service');
+const { default: merchantsService } = await import('./merchants.service');
+const { default: customersService } = await import('./customers.service');
+const { default: paymentsService } = await import('./payments.service');
+const { default: jobs } = await import('./jobs');
+const { AppError } = await import('../middleware/errorHandler');
+
+const MERCHANT_ID = 'merchant_1';
+const CUSTOMER_ID = '6f1c2a52-8a9e-4d4b-9a57-2f1d0c7e4b11';
+
+const merchant = { id: MERCHANT_ID, environment: 'production', default_currency: 'USD' } as any;
+
+const paymentRow = (reference: string) => ({ customer_id: CUSTOMER_ID, amount: 1000, currency: 'USD', reference });
+
+const job = (batchId: string) => ({
+  id: batchId,
+  queue: 'batches',
+  data: { batch_id: batchId },
+  attempt: 1,
+  progress: async () => {},
+});
+
+const items = () => fakeSupabase.rows('batch_items').sort((a, b) => a.row_number - b.row_number);
+
+describe('BatchesService', () => {
+  const spies: Array<ReturnType<typeof spyOn>> = [];
+
+  beforeEach(() => {
+    fakeSupabase.reset();
+    fakeSupabase.seed('merchants', [merchant]);
+    spies.push(
+      spyOn(merchantsService, 'getMerchantByApiKey').mockImplementation(async () => merchant),
+      spyOn(jobs, 'enqueue').mockImplementation(async () => 'job_1'),
+      spyOn(customersService, 'getChargeablePaymentMethod')
+        .mockImplementation(async () => ({ paymentMethod: { id: 'pm_1' } }) as any),
+    );
+  });
+
+  afterEach(() => {
+    spies.splice(0).forEach((spy) => spy.mockRestore());
+  });
+
+  describe('createBatch', () => {
+    it('stores valid rows as pending and invalid rows as failed', async () => {
+      const batch = await batchesService.createBatch('npk_live_1', {
+        type: 'payment',
+        source_format: 'json',
+        items: [paymentRow('a'), { customer_id: CUSTOMER_ID, amount: -5, currency: 'USD' }],
+      });
+
+      expect(batch).toMatchObject({ status: 'pending', total_items: 2, processed_items: 1, failed_items: 1 });
+      expect(items().map((item) => [item.row_number, item.status, item.error_code])).toEqual([
+        [1, 'pending', undefined],
+        [2, 'failed', 'invalid_row'],
+      ]);
+      expect(jobs.enqueue).toHaveBeenCalledWith('batches', { batch_id: batch.id }, { jobId: batch.id });
+    });
+
+    it('deletes the rows already stored when a later chunk fails to insert', async () => {
+      const insertRow = fakeSupabase.insertRow.bind(fakeSupabase);
+      spies.push(spyOn(fakeSupabase, 'insertRow').mockImplementation((table, values) => {
+        if (table === 'batch_items' && values.row_number === 501) {
+          throw new Error('statement timeout');
+        }
+        return insertRow(table, values);
+      }));
+
+      await expect(batchesService.createBatch('npk_live_1', {
+        type: 'payment',
+        source_format: 'csv',
+        items: Array.from({ length: 600 }, (_, index) => paymentRow(String(index))),
+      })).rejects.toThrow('statement timeout');
+
+      expect(fakeSupabase.rows('batches')).toEqual([]);
+      expect(fakeSupabase.rows('batch_items')).toEqual([]);
+      expect(jobs.enqueue).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('processBatch', () => {
+    async function submit(count: number) {
+      return batchesService.createBatch('npk_live_1', {
+        type: 'payment',
+        source_format: 'json',
+        items: Array.from({ length: count }, (_, index) => paymentRow(`ref_${index + 1}`)),
+      });
+    }
+
+    it('records a result per row and completes with errors when some rows fail', async () => {
+      const batch = await submit(3);
+      spies.push(spyOn(paymentsService, 'createPaymentForMerchant').mockImplementation(async (_merchant, data: any) => {
+        switch (data.metadata.reference) {
+          case 'ref_2':
+            throw new AppError('Customer has no saved card', 400, 'PAYMENT_METHOD_REQUIRED');
+          case 'ref_3':
+            return { transaction_id: 'txn_3', status: 'failed', failure_code: 'card_declined', failure_message: 'Declined' } as any;
+          default:
+            return { transaction_id: 'txn_1', status: 'succeeded', payment_intent_id: 'pi_1' } as any;
+        }
+      }));
+
+      await batchesService.processBatch(job(batch.id));
+
+      expect(items().map((item) => [item.status, item.error_code])).toEqual([
+        ['succeeded', null],
+        ['failed', 'PAYMENT_METHOD_REQUIRED'],
+        ['failed', 'card_declined'],
+      ]);
+      expect(fakeSupabase.rows('batches')[0]).toMatchObject({
+        status: 'completed_with_errors',
+        processed_items: 3,
+        succeeded_items: 1,
+        failed_items: 2,
+      });
+    });
+
+    it('resumes from the failing row when the job is retried, without charging earlier rows again', async () => {
+      const batch = await submit(3);
+      let outage = true;
+      const create = spyOn(paymentsService, 'createPaymentForMerchant').mockImplementation(async (_merchant, data: any) => {
+        if (data.metadata.reference === 'ref_2' && outage) {
+          throw new Error('Connection reset');
+        }
+        return { transaction_id: `txn_${data.metadata.reference}`, status: 'succeeded' } as any;
+      });
+      spies.push(create);
+
+      await expect(batchesService.processBatch(job(batch.id))).rejects.toThrow('Connection reset');
+
+      expect(items().map((item) => item.status)).toEqual(['succeeded', 'pending', 'pending']);
+      expect(fakeSupabase.rows('batches')[0].status).toBe('processing');
+
+      outage = false;
+      await batchesService.processBatch(job(batch.id));
+
+      const keys = create.mock.calls.map(([, data]: any) => data.idempotency_key);
+      expect(keys).toEqual([
+        `batch_${batch.id}_row_1`,
+        `batch_${batch.id}_row_2`,
+        `batch_${batch.id}_row_2`,
+        `batch_${batch.id}_row_3`,
+      ]);
+      expect(fakeSupabase.rows('batches')[0]).toMatchObject({ status: 'completed', succeeded_items: 3, failed_items: 0 });
+    });
+  });
+});
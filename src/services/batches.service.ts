@@ -0,0 +1,619 @@
+import path from 'path';
+import db from './database.service';
+import paymentsService from './payments.service';
+import merchantsService, { Merchant } from './merchants.service';
+import customersService from './customers.service';
+import merchantWebhooksService from './merchantWebhooks.service';
+import jobs, { Job, JOB_QUEUES } from './jobs';
+import { AppError } from '../middleware/errorHandler';
+import { batchPaymentRowSchema, batchRefundRowSchema } from '../schemas/batch.schema';
+import { parseCsv, toCsv } from '../utils/csv';
+
+export type BatchType = 'payment' | 'refund';
+
+export type BatchStatus = 'pending' | 'processing' | 'completed' | 'completed_with_errors' | 'failed';
+
+export type BatchItemStatus = 'pending' | 'succeeded' | 'failed';
+
+export interface Batch {
+  id: string;
+  merchant_id: string;
+  environment: string;
+  type: BatchType;
+  status: BatchStatus;
+  source_format: 'csv' | 'json';
+  filename?: string | null;
+  total_items: number;
+  processed_items: number;
+  succeeded_items: number;
+  failed_items: number;
+  error?: string | null;
+  started_at?: string | null;
+  completed_at?: string | null;
+  metadata?: Record<string, any>;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface BatchItem {
+  id: string;
+  batch_id: string;
+  row_number: number;
+  status: BatchItemStatus;
+  input: Record<string, any>;
+  result?: Record<string, any> | null;
+  error_code?: string | null;
+  error_message?: string | null;
+  processed_at?: string | null;
+  created_at?: string;
+}
+
+interface CreateBatchData {
+  type: BatchType;
+  items: Array<Record<string, any>>;
+  source_format: 'csv' | 'json';
+  filename?: string;
+  metadata?: Record<string, any>;
+}
+
+interface ListBatchesOptions {
+  limit?: number;
+  offset?: number;
+  status?: BatchStatus;
+}
+
+interface ListBatchItemsOptions {
+  limit?: number;
+  offset?: number;
+  status?: BatchItemStatus;
+}
+
+export interface BatchJobData {
+  batch_id: string;
+}
+
+interface ItemOutcome {
+  status: BatchItemStatus;
+  result?: Record<string, any>;
+  error_code?: string;
+  error_message?: string;
+}
+
+export const MAX_BATCH_ITEMS = 10000;
+
+const INSERT_CHUNK_SIZE = 500;
+const PROCESS_PAGE_SIZE = 100;
+// Progress is written back to the batch every N processed items
+const PROGRESS_INTERVAL = 25;
+
+// Off-session payment statuses that count as a successful row
+const SUCCESSFUL_PAYMENT_STATUSES = ['succeeded', 'processing', 'requires_capture'];
+
+const FINISHED_STATUSES: BatchStatus[] = ['completed', 'completed_with_errors', 'failed'];
+
+const RESULT_COLUMNS: Record<BatchType, string[]> = {
+  payment: [
+    'row_number', 'status', 'reference', 'customer_id', 'amount', 'currency',
+    'transaction_id', 'payment_status', 'error_code', 'error_message',
+  ],
+  refund: [
+    'row_number', 'status', 'reference', 'transaction_id', 'amount',
+    'refund_id', 'refund_status', 'error_code', 'error_message',
+  ],
+};
+
+/**
+ * Bulk payments and refunds
+ * Rows are validated and stored on submission; the batches job then executes them
+ * one by one, recording a result per row so one bad row doesn't fail the batch.
+ */
+class BatchesService {
+  /**
+   * Parse an uploaded CSV or JSON file into rows
+   * JSON files may be an array of rows or an object with an "items" array.
+   */
+  parseFile(file: { buffer: Buffer; originalname: string; mimetype: string }): {
+    items: Array<Record<string, any>>;
+    source_format: 'csv' | 'json';
+  } {
+    const isJson = file.mimetype === 'application/json'
+      || path.extname(file.originalname).toLowerCase() === '.json';
+    const text = file.buffer.toString('utf8');
+
+    if (isJson) {
+      let parsed: any;
+      try {
+        parsed = JSON.parse(text);
+      } catch {
+        throw new AppError('Batch file is not valid JSON', 400, 'INVALID_BATCH_FILE');
+      }
+
+      const items = Array.isArray(parsed) ? parsed : parsed?.items;
+      if (!Array.isArray(items) || items.some((item) => !item || typeof item !== 'object' || Array.isArray(item))) {
+        throw new AppError('Batch JSON must be an array of objects or { "items": [...] }', 400, 'INVALID_BATCH_FILE');
+      }
+
+      return { items, source_format: 'json' };
+    }
+
+    try {
+      return { items: parseCsv(text), source_format: 'csv' };
+    } catch (error: any) {
+      throw new AppError(`Batch file is not valid CSV: ${error.message}`, 400, 'INVALID_BATCH_FILE');
+    }
+  }
+
+  /**
+   * Create a batch and queue it for processing
+   * Rows failing validation are stored as failed items; the rest are executed by the batches job.
+   */
+  async createBatch(apiKey: string, data: CreateBatchData): Promise<Batch> {
+    const merchant = await merchantsService.getMerchantByApiKey(apiKey);
+    const { type, items, source_format, filename, metadata = {} } = data;
+
+    if (items.length === 0) {
+      throw new AppError('Batch has no items', 400, 'BATCH_EMPTY');
+    }
+
+    if (items.length > MAX_BATCH_ITEMS) {
+      throw new AppError(`Batch cannot exceed ${MAX_BATCH_ITEMS} items`, 400, 'BATCH_TOO_LARGE');
+    }
+
+    const rowSchema = type === 'payment' ? batchPaymentRowSchema : batchRefundRowSchema;
+    const now = new Date().toISOString();
+
+    const rows = items.map((input, index) => {
+      const parsed = rowSchema.safeParse(input);
+      if (parsed.success) {
+        return { row_number: index + 1, status: 'pending' as BatchItemStatus, input };
+      }
+
+      return {
+        row_number: index + 1,
+        status: 'failed' as BatchItemStatus,
+        input,
+        error_code: 'invalid_row',
+        error_message: parsed.error.issues
+          .map((issue) => (issue.path.length ? `${issue.path.join('.')}: ${issue.message}` : issue.message))
+          .join('; '),
+        processed_at: now,
+      };
+    });
+
+    const invalidCount = rows.filter((row) => row.status === 'failed').length;
+    const allInvalid = invalidCount === rows.length;
+
+    const batch = await db.insert<Batch>('batches', {
+      merchant_id: merchant.id,
+      environment: merchant.environment,
+      type,
+      status: allInvalid ? 'completed_with_errors' : 'pending',
+      source_format,
+      filename: filename || null,
+      total_items: rows.length,
+      processed_items: invalidCount,
+      failed_items: invalidCount,
+      completed_at: allInvalid ? now : null,
+      metadata,
+    });
+
+    for (let i = 0; i < rows.length; i += INSERT_CHUNK_SIZE) {
+      const chunk = rows.slice(i, i + INSERT_CHUNK_SIZE).map((row) => ({ ...row, batch_id: batch.id }));
+
+      const { error } = await db.getClient().from('batch_items').insert(chunk);
+      if (error) {
+        // Earlier chunks are already stored, so they go before the batch itself
+        await this.discardBatch(batch.id);
+        throw new Error(`Database insert error: ${error.message}`);
+      }
+    }
+
+    if (allInvalid) {
+      await this.sendEvent('batch.completed', batch);
+      return batch;
+    }
+
+    try {
+      // Job ID is the batch ID so a batch is never queued twice
+      await jobs.enqueue<BatchJobData>(JOB_QUEUES.batches, { batch_id: batch.id }, { jobId: batch.id });
+    } catch (error: any) {
+      console.error('Failed to queue batch:', batch.id, error.message);
+      await db.update<Batch>('batches', batch.id, {
+        status: 'failed',
+        error: 'Batch could not be queued',
+        completed_at: new Date().toISOString(),
+      });
+      throw new AppError('Batch processing is unavailable, please retry later', 503, 'BATCH_QUEUE_UNAVAILABLE');
+    }
+
+    return batch;
+  }
+
+  /**
+   * Get a batch with its progress
+   */
+  async getBatch(apiKey: string, batchId: string): Promise<Batch & { progress: number }> {
+    const merchant = await merchantsService.getMerchantByApiKey(apiKey);
+    const batch = await this.getBatchForMerchant(merchant.id, batchId);
+
+    return {
+      ...batch,
+      progress: batch.total_items > 0 ? Math.floor((batch.processed_items / batch.total_items) * 100) : 100,
+    };
+  }
+
+  /**
+   * List batches
+   */
+  async listBatches(apiKey: string, options: ListBatchesOptions = {}): Promise<Batch[]> {
+    const merchant = await merchantsService.getMerchantByApiKey(apiKey);
+    const { limit = 10, offset = 0, status } = options;
+
+    let query = db.getClient()
+      .from('batches')
+      .select('*')
+      .eq('merchant_id', merchant.id);
+
+    if (status) {
+      query = query.eq('status', status);
+    }
+
+    const { data, error } = await query
+      .order('created_at', { ascending: false })
+      .range(offset, offset + limit - 1);
+
+    if (error) {
+      throw new Error(`Database query error: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  /**
+   * List the rows of a batch with their results
+   */
+  async listBatchItems(apiKey: string, batchId: string, options: ListBatchItemsOptions = {}): Promise<BatchItem[]> {
+    const merchant = await merchantsService.getMerchantByApiKey(apiKey);
+    const batch = await this.getBatchForMerchant(merchant.id, batchId);
+    const { limit = 100, offset = 0, status } = options;
+
+    let query = db.getClient()
+      .from('batch_items')
+      .select('*')
+      .eq('batch_id', batch.id);
+
+    if (status) {
+      query = query.eq('status', status);
+    }
+
+    const { data, error } = await query
+      .order('row_number', { ascending: true })
+      .range(offset, offset + limit - 1);
+
+    if (error) {
+      throw new Error(`Database query error: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  /**
+   * Build the downloadable result file (one line per row, in upload order)
+   */
+  async getBatchResults(
+    apiKey: string,
+    batchId: string,
+    format: 'csv' | 'json' = 'csv'
+  ): Promise<{ filename: string; contentType: string; body: string }> {
+    const merchant = await merchantsService.getMerchantByApiKey(apiKey);
+    const batch = await this.getBatchForMerchant(merchant.id, batchId);
+
+    const items: BatchItem[] = [];
+    const pageSize = 1000;
+
+    for (let offset = 0; ; offset += pageSize) {
+      const { data, error } = await db.getClient()
+        .from('batch_items')
+        .select('*')
+        .eq('batch_id', batch.id)
+        .order('row_number', { ascending: true })
+        .range(offset, offset + pageSize - 1);
+
+      if (error) {
+        throw new Error(`Database query error: ${error.message}`);
+      }
+
+      items.push(...(data || []));
+      if (!data || data.length < pageSize) break;
+    }
+
+    const rows = items.map((item) => this.resultRow(batch.type, item));
+
+    if (format === 'json') {
+      return {
+        filename: `batch_${batch.id}_results.json`,
+        contentType: 'application/json',
+        body: JSON.stringify({ batch, results: rows }, null, 2),
+      };
+    }
+
+    return {
+      filename: `batch_${batch.id}_results.csv`,
+      contentType: 'text/csv',
+      body: toCsv(RESULT_COLUMNS[batch.type], rows),
+    };
+  }
+
+  /**
+   * Mark a batch failed once its job has exhausted its attempts
+   */
+  async handleJobFailed(data: BatchJobData, error: Error): Promise<void> {
+    const { data: updated, error: updateError } = await db.getClient()
+      .from('batches')
+      .update({
+        status: 'failed',
+        error: error.message,
+        completed_at: new Date().toISOString(),
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', data.batch_id)
+      .in('status', ['pending', 'processing'])
+      .select();
+
+    if (updateError) {
+      throw new Error(`Database update error: ${updateError.message}`);
+    }
+
+    if (updated && updated.length > 0) {
+      await this.sendEvent('batch.failed', updated[0]);
+    }
+  }
+
+  /**
+   * Execute the pending rows of a batch
+   * Rows already processed are skipped, so a retried job resumes where it stopped.
+   */
+  async processBatch(job: Job<BatchJobData>): Promise<void> {
+    const batch = await db.findById<Batch>('batches', job.data.batch_id);
+
+    if (!batch || FINISHED_STATUSES.includes(batch.status)) {
+      return;
+    }
+
+    const merchant = await db.findById<Merchant>('merchants', batch.merchant_id);
+    if (!merchant) {
+      throw new Error(`Merchant not found for batch ${batch.id}`);
+    }
+
+    // Rows run in the environment the batch was submitted with
+    const merchantContext = { ...merchant, environment: batch.environment };
+
+    await db.update<Batch>('batches', batch.id, {
+      status: 'processing',
+      started_at: batch.started_at || new Date().toISOString(),
+    });
+
+    let succeeded = await db.count('batch_items', { batch_id: batch.id, status: 'succeeded' });
+    let failed = await db.count('batch_items', { batch_id: batch.id, status: 'failed' });
+    let sinceProgress = 0;
+
+    const saveProgress = async () => {
+      sinceProgress = 0;
+      await db.update<Batch>('batches', batch.id, {
+        processed_items: succeeded + failed,
+        succeeded_items: succeeded,
+        failed_items: failed,
+      });
+      await job.progress(Math.floor(((succeeded + failed) / batch.total_items) * 100));
+    };
+
+    for (;;) {
+      const { data: items, error } = await db.getClient()
+        .from('batch_items')
+        .select('*')
+        .eq('batch_id', batch.id)
+        .eq('status', 'pending')
+        .order('row_number', { ascending: true })
+        .limit(PROCESS_PAGE_SIZE);
+
+      if (error) {
+        throw new Error(`Database query error: ${error.message}`);
+      }
+
+      if (!items || items.length === 0) break;
+
+      for (const item of items as BatchItem[]) {
+        const outcome = await this.executeItem(batch, merchantContext, item);
+
+        await db.update<BatchItem>('batch_items', item.id, {
+          status: outcome.status,
+          result: outcome.result || null,
+          error_code: outcome.error_code || null,
+          error_message: outcome.error_message || null,
+          processed_at: new Date().toISOString(),
+        });
+
+        if (outcome.status === 'succeeded') {
+          succeeded++;
+        } else {
+          failed++;
+        }
+
+        if (++sinceProgress >= PROGRESS_INTERVAL) {
+          await saveProgress();
+        }
+      }
+    }
+
+    await saveProgress();
+
+    const completed = await db.update<Batch>('batches', batch.id, {
+      status: failed > 0 ? 'completed_with_errors' : 'completed',
+      completed_at: new Date().toISOString(),
+    });
+
+    await this.sendEvent('batch.completed', completed);
+  }
+
+  /**
+   * Execute one row
+   * Business errors (declines, validation, processor rejections) fail the row;
+   * anything else is rethrown so the job is retried from this row.
+   */
+  private async executeItem(batch: Batch, merchant: Merchant, item: BatchItem): Promise<ItemOutcome> {
+    // Stable per-row key so a retried job never charges or refunds twice
+    const idempotencyKey = `batch_${batch.id}_row_${item.row_number}`;
+
+    try {
+      if (batch.type === 'payment') {
+        const row = batchPaymentRowSchema.parse(item.input);
+        const { paymentMethod } = await customersService.getChargeablePaymentMethod(
+          merchant,
+          row.customer_id,
+          row.payment_method_id
+        );
+
+        const payment = await paymentsService.createPaymentForMerchant(merchant, {
+          amount: row.amount,
+          currency: row.currency,
+          description: row.description,
+          customer_id: row.customer_id,
+          payment_method_id: paymentMethod.id,
+          idempotency_key: idempotencyKey,
+          metadata: {
+            batch_id: batch.id,
+            batch_row: String(item.row_number),
+            ...(row.reference && { reference: row.reference }),
+          },
+        });
+
+        const result = {
+          transaction_id: payment.transaction_id,
+          payment_status: payment.status,
+          payment_intent_id: payment.payment_intent_id,
+        };
+
+        if (!SUCCESSFUL_PAYMENT_STATUSES.includes(payment.status)) {
+          return {
+            status: 'failed',
+            result,
+            error_code: payment.failure_code || payment.status,
+            error_message: payment.failure_message || `Payment ${payment.status}`,
+          };
+        }
+
+        return { status: 'succeeded', result };
+      }
+
+      const row = batchRefundRowSchema.parse(item.input);
+      const refund = await paymentsService.refundPaymentForMerchant(merchant, row.transaction_id, {
+        amount: row.amount,
+        reason: row.reason,
+        idempotency_key: idempotencyKey,
+      });
+
+      return {
+        status: 'succeeded',
+        result: {
+          refund_id: refund.refund_id,
+          refund_status: refund.status,
+          amount: refund.amount,
+        },
+      };
+    } catch (error: any) {
+      if (error instanceof AppError) {
+        return { status: 'failed', error_code: error.code || 'processing_error', error_message: error.message };
+      }
+
+      // Stripe rejected the request itself (card errors, invalid parameters)
+      if (error?.type?.startsWith('Stripe') && error.type !== 'StripeConnectionError' && error.type !== 'StripeAPIError') {
+        return { status: 'failed', error_code: error.code || 'processor_error', error_message: error.message };
+      }
+
+      if (error?.name === 'ZodError') {
+        return { status: 'failed', error_code: 'invalid_row', error_message: error.message };
+      }
+
+      throw error;
+    }
+  }
+
+  /**
+   * Flatten an item into a result file row
+   */
+  private resultRow(type: BatchType, item: BatchItem): Record<string, any> {
+    const input = item.input || {};
+    const result = item.result || {};
+
+    const common = {
+      row_number: item.row_number,
+      status: item.status,
+      reference: input.reference,
+      error_code: item.error_code,
+      error_message: item.error_message,
+    };
+
+    if (type === 'payment') {
+      return {
+        ...common,
+        customer_id: input.customer_id,
+        amount: input.amount,
+        currency: input.currency,
+        transaction_id: result.transaction_id,
+        payment_status: result.payment_status,
+      };
+    }
+
+    return {
+      ...common,
+      transaction_id: input.transaction_id,
+      amount: result.amount ?? input.amount,
+      refund_id: result.refund_id,
+      refund_status: result.refund_status,
+    };
+  }
+
+  /**
+   * Get a batch, ensuring it belongs to the merchant
+   */
+  private async getBatchForMerchant(merchantId: string, batchId: string): Promise<Batch> {
+    const batch = await db.findById<Batch>('batches', batchId);
+
+    if (!batch || batch.merchant_id !== merchantId) {
+      throw new AppError('Batch not found', 404, 'BATCH_NOT_FOUND');
+    }
+
+    return batch;
+  }
+
+  /**
+   * Delete a batch that could not be fully stored, with the rows stored so far
+   */
+  private async discardBatch(batchId: string): Promise<void> {
+    const { error } = await db.getClient()
+      .from('batch_items')
+      .delete()
+      .eq('batch_id', batchId);
+
+    if (error) {
+      throw new Error(`Database delete error: ${error.message}`);
+    }
+
+    await db.delete('batches', batchId);
+  }
+
+  private async sendEvent(eventType: string, batch: Batch): Promise<void> {
+    await merchantWebhooksService.send(batch.merchant_id, eventType, {
+      batch_id: batch.id,
+      type: batch.type,
+      status: batch.status,
+      total_items: batch.total_items,
+      succeeded_items: batch.succeeded_items,
+      failed_items: batch.failed_items,
+      error: batch.error || null,
+      metadata: batch.metadata,
+    });
+  }
+}
+
+export default new BatchesService();
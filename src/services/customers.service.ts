@@ -0,0 +1,475 @@
+import Stripe from 'stripe';
+import db from './database.service';
+import merchantsService, { Merchant } from './merchants.service';
+import paymentMethodRouting from './paymentMethodRouting.service';
+import { AppError } from '../middleware/errorHandler';
+import { getPaymentMethod } from '../config/paymentMethods.config';
+import { getProcessor, getProcessorForEnvironment, ProcessorName } from './processors';
+
+export interface CustomerAddress {
+  line1?: string;
+  line2?: string;
+  city?: string;
+  state?: string;
+  postal_code?: string;
+  country?: string;
+}
+
+export interface Customer {
+  id: string;
+  merchant_id: string;
+  email: string | null;
+  phone?: string | null;
+  name?: string | null;
+  description?: string | null;
+  address?: CustomerAddress | null;
+  stripe_customer_id: string;
+  processor?: ProcessorName;
+  default_payment_method_id?: string | null;
+  metadata?: Record<string, any>;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface CustomerPaymentMethod {
+  id: string;
+  merchant_id: string;
+  customer_id: string;
+  processor: ProcessorName;
+  stripe_payment_method_id: string;
+  stripe_setup_intent_id?: string | null;
+  type: string;
+  card_brand?: string | null;
+  card_last4?: string | null;
+  card_exp_month?: number | null;
+  card_exp_year?: number | null;
+  card_country?: string | null;
+  card_fingerprint?: string | null;
+  billing_details?: Record<string, any>;
+  created_at?: string;
+  updated_at?: string;
+}
+
+interface CreateCustomerData {
+  email?: string;
+  name?: string;
+  phone?: string;
+  description?: string;
+  address?: CustomerAddress;
+  metadata?: Record<string, any>;
+}
+
+type UpdateCustomerData = CreateCustomerData;
+
+interface ListCustomersOptions {
+  limit?: number;
+  offset?: number;
+  email?: string;
+}
+
+interface SetupIntentData {
+  payment_method?: string;
+  usage?: 'off_session' | 'on_session';
+}
+
+interface SetupIntentResponse {
+  setup_intent_id: string;
+  client_secret: string | null;
+  status: string;
+  customer_id: string;
+  payment_method: string;
+  processor: ProcessorName;
+  stripe_account_id: string | null;
+  publishable_key: string | null;
+}
+
+export interface ChargeablePaymentMethod {
+  customer: Customer;
+  paymentMethod: CustomerPaymentMethod;
+}
+
+class CustomersService {
+  /**
+   * Create a customer
+   * The processor customer is created on the merchant's connected account (or the
+   * simulator for sandbox keys) so payment methods can be saved to it.
+   */
+  async createCustomer(apiKey: string, data: CreateCustomerData): Promise<Customer> {
+    const merchant = await merchantsService.getMerchantByApiKey(apiKey);
+    const processor = getProcessorForEnvironment(merchant.environment);
+
+    if (processor.requiresConnectedAccount && !merchant.stripe_account_id) {
+      throw new AppError('Stripe Connect account not configured', 400, 'STRIPE_NOT_CONFIGURED');
+    }
+
+    if (data.email) {
+      const existing = await db.findOne<Customer>('customers', {
+        merchant_id: merchant.id,
+        email: data.email,
+        processor: processor.name,
+      });
+
+      if (existing) {
+        throw new AppError('A customer with this email already exists', 409, 'CUSTOMER_ALREADY_EXISTS');
+      }
+    }
+
+    const processorCustomer = await processor.createCustomer({
+      email: data.email,
+      name: data.name,
+      phone: data.phone,
+      description: data.description,
+      address: data.address as Stripe.AddressParam,
+      metadata: {
+        merchant_id: merchant.id,
+      },
+    }, {
+      account: merchant.stripe_account_id,
+    });
+
+    const customer = await db.insert<Customer>('customers', {
+      merchant_id: merchant.id,
+      email: data.email || null,
+      name: data.name || null,
+      phone: data.phone || null,
+      description: data.description || null,
+      address: data.address || null,
+      metadata: data.metadata || {},
+      stripe_customer_id: processorCustomer.id,
+      processor: processor.name,
+    });
+
+    return customer;
+  }
+
+  /**
+   * Get customer by ID
+   */
+  async getCustomer(apiKey: string, customerId: string): Promise<Customer> {
+    const merchant = await merchantsService.getMerchantByApiKey(apiKey);
+
+    return this.getCustomerForMerchant(merchant.id, customerId);
+  }
+
+  /**
+   * Get a customer, ensuring it belongs to the merchant
+   */
+  async getCustomerForMerchant(merchantId: string, customerId: string): Promise<Customer> {
+    const customer = await db.findById<Customer>('customers', customerId);
+
+    if (!customer || customer.merchant_id !== merchantId) {
+      throw new AppError('Customer not found', 404, 'CUSTOMER_NOT_FOUND');
+    }
+
+    return customer;
+  }
+
+  /**
+   * List customers for merchant
+   */
+  async listCustomers(apiKey: string, options: ListCustomersOptions = {}): Promise<Customer[]> {
+    const merchant = await merchantsService.getMerchantByApiKey(apiKey);
+
+    const { limit = 10, offset = 0, email } = options;
+
+    let query = db.getClient()
+      .from('customers')
+      .select('*')
+      .eq('merchant_id', merchant.id);
+
+    if (email) {
+      query = query.ilike('email', email);
+    }
+
+    const { data: customers, error } = await query
+      .order('created_at', { ascending: false })
+      .range(offset, offset + limit - 1);
+
+    if (error) {
+      throw new Error(`Database query error: ${error.message}`);
+    }
+
+    return customers || [];
+  }
+
+  /**
+   * Update a customer
+   */
+  async updateCustomer(apiKey: string, customerId: string, data: UpdateCustomerData): Promise<Customer> {
+    const merchant = await merchantsService.getMerchantByApiKey(apiKey);
+    const customer = await this.getCustomerForMerchant(merchant.id, customerId);
+
+    if (data.email && data.email !== customer.email) {
+      const existing = await db.findOne<Customer>('customers', {
+        merchant_id: merchant.id,
+        email: data.email,
+        processor: customer.processor || 'stripe',
+      });
+
+      if (existing) {
+        throw new AppError('A customer with this email already exists', 409, 'CUSTOMER_ALREADY_EXISTS');
+      }
+    }
+
+    await getProcessor(customer.processor).updateCustomer(customer.stripe_customer_id, {
+      email: data.email,
+      name: data.name,
+      phone: data.phone,
+      description: data.description,
+      address: data.address as Stripe.AddressParam,
+    }, {
+      account: merchant.stripe_account_id,
+    });
+
+    const updateData: Partial<Customer> = {};
+    for (const field of ['email', 'name', 'phone', 'description', 'address', 'metadata'] as const) {
+      if (data[field] !== undefined) {
+        (updateData as any)[field] = data[field];
+      }
+    }
+
+    return db.update<Customer>('customers', customer.id, updateData);
+  }
+
+  /**
+   * Delete a customer
+   * Saved payment methods are removed with it; past transactions keep their
+   * records with customer_id cleared.
+   */
+  async deleteCustomer(apiKey: string, customerId: string): Promise<void> {
+    const merchant = await merchantsService.getMerchantByApiKey(apiKey);
+    const customer = await this.getCustomerForMerchant(merchant.id, customerId);
+
+    const { data: subscriptions, error } = await db.getClient()
+      .from('subscriptions')
+      .select('id')
+      .eq('customer_id', customer.id)
+      .neq('status', 'canceled')
+      .limit(1);
+
+    if (error) {
+      throw new Error(`Database query error: ${error.message}`);
+    }
+
+    if (subscriptions && subscriptions.length > 0) {
+      throw new AppError(
+        'Customer has subscriptions that are not canceled',
+        409,
+        'CUSTOMER_HAS_ACTIVE_SUBSCRIPTIONS'
+      );
+    }
+
+    await getProcessor(customer.processor).deleteCustomer(customer.stripe_customer_id, {
+      account: merchant.stripe_account_id,
+    });
+
+    await db.delete('customers', customer.id);
+  }
+
+  /**
+   * Start saving a payment method to a customer
+   * The client confirms the SetupIntent (Stripe.js, or /api/sandbox for simulated
+   * customers); the setup_intent.succeeded webhook records the saved method.
+   */
+  async createSetupIntent(apiKey: string, customerId: string, data: SetupIntentData = {}): Promise<SetupIntentResponse> {
+    const merchant = await merchantsService.getMerchantByApiKey(apiKey);
+    const customer = await this.getCustomerForPayment(merchant, customerId);
+    const { payment_method = 'card', usage = 'off_session' } = data;
+
+    const method = getPaymentMethod(payment_method);
+    if (!method || !method.supports_saving) {
+      throw new AppError(
+        `Payment method ${payment_method} can't be saved for later payments`,
+        400,
+        'PAYMENT_METHOD_NOT_SAVEABLE'
+      );
+    }
+
+    if (!paymentMethodRouting.getEnabledMethods(merchant).includes(method.name)) {
+      throw new AppError(`${method.label} is not enabled for this merchant`, 400, 'PAYMENT_METHOD_NOT_ACCEPTED');
+    }
+
+    const processor = getProcessor(customer.processor);
+    const setupIntent = await processor.createSetupIntent({
+      customer: customer.stripe_customer_id,
+      payment_method_types: [method.processor_type],
+      usage,
+      metadata: {
+        merchant_id: merchant.id,
+        customer_id: customer.id,
+      },
+    }, {
+      account: merchant.stripe_account_id,
+    });
+
+    return {
+      setup_intent_id: setupIntent.id,
+      client_secret: setupIntent.client_secret,
+      status: setupIntent.status,
+      customer_id: customer.id,
+      payment_method: method.name,
+      processor: processor.name,
+      stripe_account_id: merchant.stripe_account_id || null,
+      publishable_key: process.env.STRIPE_PUBLISHABLE_KEY || null,
+    };
+  }
+
+  /**
+   * List a customer's saved payment methods
+   */
+  async listPaymentMethods(apiKey: string, customerId: string): Promise<CustomerPaymentMethod[]> {
+    const merchant = await merchantsService.getMerchantByApiKey(apiKey);
+    const customer = await this.getCustomerForMerchant(merchant.id, customerId);
+
+    return db.findMany<CustomerPaymentMethod>(
+      'customer_payment_methods',
+      { customer_id: customer.id },
+      { orderBy: 'created_at:desc' }
+    );
+  }
+
+  /**
+   * Remove a saved payment method from a customer
+   */
+  async detachPaymentMethod(apiKey: string, customerId: string, paymentMethodId: string): Promise<void> {
+    const merchant = await merchantsService.getMerchantByApiKey(apiKey);
+    const customer = await this.getCustomerForMerchant(merchant.id, customerId);
+    const paymentMethod = await this.getPaymentMethodForCustomer(customer, paymentMethodId);
+
+    await getProcessor(paymentMethod.processor).detachPaymentMethod(paymentMethod.stripe_payment_method_id, {
+      account: merchant.stripe_account_id,
+    });
+
+    // customers.default_payment_method_id is cleared by ON DELETE SET NULL
+    await db.delete('customer_payment_methods', paymentMethod.id);
+  }
+
+  /**
+   * Set the saved method used when an off-session payment names only the customer
+   */
+  async setDefaultPaymentMethod(apiKey: string, customerId: string, paymentMethodId: string): Promise<Customer> {
+    const merchant = await merchantsService.getMerchantByApiKey(apiKey);
+    const customer = await this.getCustomerForMerchant(merchant.id, customerId);
+    const paymentMethod = await this.getPaymentMethodForCustomer(customer, paymentMethodId);
+
+    return db.update<Customer>('customers', customer.id, {
+      default_payment_method_id: paymentMethod.id,
+    });
+  }
+
+  /**
+   * Record the payment method saved by a succeeded SetupIntent (webhook)
+   * Returns null for SetupIntents not created through the customers API.
+   */
+  async savePaymentMethodFromSetupIntent(
+    setupIntent: Stripe.SetupIntent,
+    stripeAccount?: string
+  ): Promise<ChargeablePaymentMethod | null> {
+    const customerId = setupIntent.metadata?.customer_id;
+    const processorPaymentMethodId = setupIntent.payment_method as string;
+
+    if (!customerId || !processorPaymentMethodId) {
+      return null;
+    }
+
+    const customer = await db.findById<Customer>('customers', customerId);
+    if (!customer) {
+      return null;
+    }
+
+    const existing = await db.findOne<CustomerPaymentMethod>('customer_payment_methods', {
+      stripe_payment_method_id: processorPaymentMethodId,
+    });
+    if (existing) {
+      return { customer, paymentMethod: existing };
+    }
+
+    const processorPaymentMethod = await getProcessor(customer.processor).retrievePaymentMethod(
+      processorPaymentMethodId,
+      { account: stripeAccount }
+    );
+
+    const paymentMethod = await db.insert<CustomerPaymentMethod>('customer_payment_methods', {
+      merchant_id: customer.merchant_id,
+      customer_id: customer.id,
+      processor: customer.processor || 'stripe',
+      stripe_payment_method_id: processorPaymentMethod.id,
+      stripe_setup_intent_id: setupIntent.id,
+      type: paymentMethodRouting.fromProcessorType(processorPaymentMethod.type) || processorPaymentMethod.type,
+      card_brand: processorPaymentMethod.card?.brand || null,
+      card_last4: processorPaymentMethod.card?.last4 || null,
+      card_exp_month: processorPaymentMethod.card?.exp_month || null,
+      card_exp_year: processorPaymentMethod.card?.exp_year || null,
+      card_country: processorPaymentMethod.card?.country || null,
+      card_fingerprint: processorPaymentMethod.card?.fingerprint || null,
+      billing_details: processorPaymentMethod.billing_details || {},
+    });
+
+    // The first saved method becomes the default
+    if (!customer.default_payment_method_id) {
+      await db.update<Customer>('customers', customer.id, { default_payment_method_id: paymentMethod.id });
+    }
+
+    return { customer, paymentMethod };
+  }
+
+  /**
+   * Get a customer to charge, ensuring it belongs to the merchant and the key's environment
+   */
+  async getCustomerForPayment(merchant: Merchant, customerId: string): Promise<Customer> {
+    const customer = await this.getCustomerForMerchant(merchant.id, customerId);
+
+    this.assertCustomerEnvironment(merchant, customer);
+
+    return customer;
+  }
+
+  /**
+   * Resolve the customer and saved method for an off-session payment
+   * Falls back to the customer's default method when no payment method is named.
+   */
+  async getChargeablePaymentMethod(
+    merchant: Merchant,
+    customerId: string,
+    paymentMethodId?: string
+  ): Promise<ChargeablePaymentMethod> {
+    const customer = await this.getCustomerForPayment(merchant, customerId);
+
+    const id = paymentMethodId || customer.default_payment_method_id;
+    if (!id) {
+      throw new AppError('Customer has no default payment method', 400, 'NO_DEFAULT_PAYMENT_METHOD');
+    }
+
+    const paymentMethod = await this.getPaymentMethodForCustomer(customer, id);
+
+    return { customer, paymentMethod };
+  }
+
+  /**
+   * Get a saved payment method, ensuring it belongs to the customer
+   */
+  private async getPaymentMethodForCustomer(customer: Customer, paymentMethodId: string): Promise<CustomerPaymentMethod> {
+    const paymentMethod = await db.findById<CustomerPaymentMethod>('customer_payment_methods', paymentMethodId);
+
+    if (!paymentMethod || paymentMethod.customer_id !== customer.id) {
+      throw new AppError('Payment method not found', 404, 'PAYMENT_METHOD_NOT_FOUND');
+    }
+
+    return paymentMethod;
+  }
+
+  /**
+   * Sandbox customers live on the simulator and can't be used with live keys (and vice versa)
+   */
+  private assertCustomerEnvironment(merchant: Merchant, customer: Customer): void {
+    if (getProcessorForEnvironment(merchant.environment).name !== (customer.processor || 'stripe')) {
+      throw new AppError(
+        `Customer was created in a different environment than this API key (${merchant.environment})`,
+        400,
+        'CUSTOMER_ENVIRONMENT_MISMATCH'
+      );
+    }
+  }
+}
+
+export default new CustomersService();
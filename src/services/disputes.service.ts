@@ -2,10 +2,7 @@ import Stripe from 'stripe';
 import db from './database.service';
 import { AppError } from '../middleware/errorHandler';
 import stripeFileUploadService from './stripeFileUpload.service';
-
-const stripe = new Stripe(process.env.STRIPE_SECRET_KEY || '', {
-  apiVersion: '2024-12-18.acacia' as any,
-});
+import { getProcessor, ProcessorName } from './processors';
 
 interface Dispute {
   id: string;
@@ -14,6 +11,7 @@ interface Dispute {
   stripe_dispute_id: string;
   stripe_charge_id: string;
   stripe_payment_intent_id?: string;
+  processor: ProcessorName;
   amount: number;
   currency: string;
   reason: string;
@@ -144,7 +142,11 @@ class DisputesService {
   /**
    * Create dispute from Stripe webhook
    */
-  async createDisputeFromStripe(stripeDispute: Stripe.Dispute, merchantId: string): Promise<Dispute> {
+  async createDisputeFromStripe(
+    stripeDispute: Stripe.Dispute,
+    merchantId: string,
+    processor: ProcessorName = 'stripe'
+  ): Promise<Dispute> {
     const client = db.getClient();
 
     // Check if dispute already exists
@@ -166,6 +168,7 @@ class DisputesService {
       stripe_dispute_id: stripeDispute.id,
       stripe_charge_id: stripeDispute.charge as string,
       stripe_payment_intent_id: stripeDispute.payment_intent as string || null,
+      processor,
       amount: stripeDispute.amount,
       currency: stripeDispute.currency,
       reason: stripeDispute.reason,
@@ -226,7 +229,7 @@ class DisputesService {
 
     try {
       // Submit evidence to Stripe
-      const updatedStripeDispute = await stripe.disputes.update(dispute.stripe_dispute_id, {
+      const updatedStripeDispute = await getProcessor(dispute.processor).updateDispute(dispute.stripe_dispute_id, {
         evidence: evidenceData as any,
       });
 
@@ -315,7 +318,7 @@ class DisputesService {
 
     try {
       // Close dispute in Stripe (accept it)
-      await stripe.disputes.close(dispute.stripe_dispute_id);
+      await getProcessor(dispute.processor).closeDispute(dispute.stripe_dispute_id);
 
       // Update local database
       const updateData: Partial<Dispute> = {
@@ -406,7 +409,8 @@ class DisputesService {
     fileBuffer: Buffer,
     fileName: string,
     mimeType: string,
-    evidenceType: string
+    evidenceType: string,
+    processor: ProcessorName = 'stripe'
   ): Promise<{ stripeFileId: string; evidenceFieldName: string | null }> {
     // Validate file
     const validation = stripeFileUploadService.validateFile(fileBuffer, fileName, mimeType);
@@ -424,7 +428,7 @@ class DisputesService {
         fileName,
         mimeType,
         purpose: 'dispute_evidence',
-      });
+      }, processor);
 
       return {
         stripeFileId: uploadResult.id,
@@ -469,7 +473,7 @@ class DisputesService {
       }
 
       // Submit evidence to Stripe
-      const updatedStripeDispute = await stripe.disputes.update(dispute.stripe_dispute_id, {
+      const updatedStripeDispute = await getProcessor(dispute.processor).updateDispute(dispute.stripe_dispute_id, {
         evidence: completeEvidence,
       });
 
@@ -517,7 +521,8 @@ class DisputesService {
       fileData.buffer,
       fileData.fileName,
       fileData.mimeType,
-      evidenceType
+      evidenceType,
+      dispute.processor
     );
 
     // Record in database
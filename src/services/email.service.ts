@@ -1,5 +1,6 @@
 import { Resend } from 'resend';
 import { Merchant } from './merchants.service';
+import jobs, { JOB_QUEUES } from './jobs';
 
 interface EmailTemplate {
   subject: string;
@@ -7,11 +8,27 @@ interface EmailTemplate {
   text: string;
 }
 
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+}
+
 interface WelcomeEmailData {
   businessName: string;
   dashboardUrl: string;
 }
 
+interface InvoiceEmailData {
+  to: string;
+  merchantName: string;
+  invoiceNumber: string | null;
+  amountDue: string;
+  dueDate: string | null;
+  hostedInvoiceUrl: string | null;
+}
+
 class EmailService {
   private readonly resend: Resend | null;
   private readonly fromEmail: string;
@@ -33,37 +50,43 @@ class EmailService {
   }
 
   /**
-   * Send email using Resend
+   * Queue an email; templates are rendered now so the job is self-contained
    */
   private async sendEmail(to: string, subject: string, html: string, text: string): Promise<void> {
-    try {
-      if (this.resend) {
-        // Send email via Resend
-        const { data, error } = await this.resend.emails.send({
-          from: `${this.fromName} <${this.fromEmail}>`,
-          to,
-          subject,
-          html,
-          text,
-        });
-
-        if (error) {
-          console.error('❌ Failed to send email:', error);
-          throw new Error(`Email send failed: ${error.message}`);
-        }
-
-        console.log(`✅ Email sent successfully to ${to} (ID: ${data?.id})`);
-      } else {
-        // Development mode: just log the email
-        console.log('📧 [DEV MODE] Email would be sent:');
-        console.log(`To: ${to}`);
-        console.log(`Subject: ${subject}`);
-        console.log(`Preview: ${text.substring(0, 200)}...`);
-      }
-    } catch (error: any) {
-      console.error('❌ Email service error:', error);
-      // Don't throw - we don't want email failures to break the app
+    const message: EmailMessage = { to, subject, html, text };
+    await jobs.enqueue(JOB_QUEUES.emails, message);
+  }
+
+  /**
+   * Send a queued email using Resend (emails job)
+   * Throws on failure so the queue retries it.
+   */
+  async deliverEmail(message: EmailMessage): Promise<void> {
+    const { to, subject, html, text } = message;
+
+    if (!this.resend) {
+      // Development mode: just log the email
+      console.log('📧 [DEV MODE] Email would be sent:');
+      console.log(`To: ${to}`);
+      console.log(`Subject: ${subject}`);
+      console.log(`Preview: ${text.substring(0, 200)}...`);
+      return;
+    }
+
+    const { data, error } = await this.resend.emails.send({
+      from: `${this.fromName} <${this.fromEmail}>`,
+      to,
+      subject,
+      html,
+      text,
+    });
+
+    if (error) {
+      console.error('❌ Failed to send email:', error);
+      throw new Error(`Email send failed: ${error.message}`);
     }
+
+    console.log(`✅ Email sent successfully to ${to} (ID: ${data?.id})`);
   }
 
   /**
@@ -126,6 +149,64 @@ Need help? Reply to this email or visit our support center.
     return { subject, html, text };
   }
 
+  /**
+   * Template: Invoice issued to a merchant's customer
+   */
+  private getInvoiceTemplate(data: InvoiceEmailData): EmailTemplate {
+    const { merchantName, invoiceNumber, amountDue, dueDate, hostedInvoiceUrl } = data;
+
+    const subject = `Invoice ${invoiceNumber || ''} from ${merchantName}`.replace(/\s+/g, ' ');
+    const due = dueDate
+      ? new Date(dueDate).toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric', timeZone: 'UTC' })
+      : null;
+
+    const html = `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <meta charset="utf-8">
+        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        <title>${subject}</title>
+      </head>
+      <body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+        <div style="background-color: #f8f9fa; border-radius: 8px; padding: 30px; margin-bottom: 20px;">
+          <h1 style="color: #111827; margin-top: 0;">${merchantName}</h1>
+          <p style="font-size: 16px; margin-bottom: 8px;">Invoice ${invoiceNumber || ''}</p>
+          <p style="font-size: 32px; font-weight: 700; margin: 0 0 8px;">${amountDue}</p>
+          ${due ? `<p style="font-size: 14px; color: #666; margin-bottom: 20px;">Due ${due}</p>` : ''}
+          ${hostedInvoiceUrl ? `
+          <div style="text-align: center; margin: 30px 0;">
+            <a href="${hostedInvoiceUrl}" style="background-color: #2563eb; color: white; padding: 12px 30px; text-decoration: none; border-radius: 6px; display: inline-block; font-weight: 600;">
+              View and pay invoice
+            </a>
+          </div>` : ''}
+        </div>
+        <p style="font-size: 12px; color: #999; text-align: center;">
+          Payments processed securely by Neura Finance.
+        </p>
+      </body>
+      </html>
+    `;
+
+    const text = `
+Invoice ${invoiceNumber || ''} from ${merchantName}
+
+Amount due: ${amountDue}${due ? `\nDue: ${due}` : ''}
+${hostedInvoiceUrl ? `\nView and pay your invoice: ${hostedInvoiceUrl}\n` : ''}
+Payments processed securely by Neura Finance.
+    `.trim();
+
+    return { subject, html, text };
+  }
+
+  /**
+   * Send an invoice to a merchant's customer
+   */
+  async sendInvoiceEmail(data: InvoiceEmailData): Promise<void> {
+    const template = this.getInvoiceTemplate(data);
+    await this.sendEmail(data.to, template.subject, template.html, template.text);
+  }
+
   /**
    * Send welcome email
    */
@@ -0,0 +1,102 @@
+import { describe, it, expect, beforeEach, mock } from 'bun:test';
+import { fakeSupabase } from '../test/fakeSupabase';
+
+mock.module('@supabase/supabase-js', () => ({ createClient: () => fakeSupabase.client }));
+
+const { default: fraudService } = await import('./fraud.service');
+
+const MERCHANT_ID = 'merchant_1';
+
+const merchant = { id: MERCHANT_ID, environment: 'production', country: 'US' } as any;
+
+let amountStats = { count: 0, mean: 0, stddev: 0 };
+fakeSupabase.rpc('merchant_payment_amount_stats', () => amountStats);
+
+function rule(type: string, action: string, config: Record<string, any>, score = 25) {
+  fakeSupabase.seed('fraud_rules', [{
+    merchant_id: MERCHANT_ID,
+    name: `${action} ${type}`,
+    type,
+    action,
+    config,
+    score,
+    is_active: true,
+  }]);
+}
+
+const screen = (input: Record<string, any> = {}) =>
+  fraudService.screenPayment(merchant, { amount: 1000, currency: 'USD', ...input });
+
+describe('FraudService.screenPayment', () => {
+  beforeEach(() => {
+    fakeSupabase.reset();
+    amountStats = { count: 0, mean: 0, stddev: 0 };
+  });
+
+  it('allows and records an attempt no rule triggers on', async () => {
+    rule('list', 'block', { field: 'email', values: ['fraud@example.com'] });
+
+    const assessment = await screen({ customer_email: 'Buyer@Example.com' });
+
+    expect(assessment).toMatchObject({ outcome: 'allow', risk_score: 0, triggered_rules: [], customer_email: 'buyer@example.com' });
+    expect(fakeSupabase.rows('risk_assessments')).toHaveLength(1);
+  });
+
+  it('blocks a listed email domain regardless of case', async () => {
+    rule('list', 'block', { field: 'email_domain', values: ['@Mailinator.com'] }, 60);
+
+    const assessment = await screen({ customer_email: 'someone@MAILINATOR.com' });
+
+    expect(assessment).toMatchObject({ outcome: 'block', risk_score: 60 });
+    expect(assessment.triggered_rules).toEqual([
+      expect.objectContaining({ action: 'block', reason: 'email domain mailinator.com is on the block list' }),
+    ]);
+  });
+
+  it('lets an allow rule override block and review rules', async () => {
+    rule('list', 'block', { field: 'card_country', values: ['ng'] });
+    rule('country_mismatch', 'review', { compare_with: 'customer_country' });
+    rule('list', 'allow', { field: 'email', values: ['vip@example.com'] }, 0);
+
+    const assessment = await screen({ customer_email: 'vip@example.com', customer_country: 'us', card_country: 'NG' });
+
+    expect(assessment.outcome).toBe('allow');
+    expect(assessment.triggered_rules.map((triggered) => triggered.action)).toEqual(['block', 'review', 'allow']);
+  });
+
+  it('blocks over review and caps the score', async () => {
+    rule('country_mismatch', 'review', { compare_with: 'merchant_country' }, 80);
+    rule('list', 'block', { field: 'ip_address', values: ['203.0.113.7'] }, 80);
+
+    const assessment = await screen({ ip_address: '203.0.113.7', card_country: 'gb' });
+
+    expect(assessment).toMatchObject({ outcome: 'block', risk_score: 100 });
+    expect(assessment.triggered_rules[0].reason).toBe('Card issued in GB, merchant in US');
+  });
+
+  it('flags attempts beyond the velocity limit within the window', async () => {
+    rule('velocity', 'review', { field: 'ip_address', max_attempts: 2, window_minutes: 10 });
+
+    const outcomes = [];
+    for (let attempt = 0; attempt < 3; attempt++) {
+      outcomes.push((await screen({ ip_address: '203.0.113.7' })).outcome);
+    }
+    outcomes.push((await screen({ ip_address: '198.51.100.1' })).outcome);
+
+    expect(outcomes).toEqual(['allow', 'allow', 'review', 'allow']);
+  });
+
+  it('flags amounts far above the merchant\'s history once there is enough of it', async () => {
+    rule('amount_outlier', 'review', { multiplier: 3, min_history: 20, lookback_days: 90 });
+
+    amountStats = { count: 5, mean: 1000, stddev: 100 };
+    expect((await screen({ amount: 5000 })).outcome).toBe('allow');
+
+    amountStats = { count: 30, mean: 1000, stddev: 100 };
+    expect((await screen({ amount: 1300 })).outcome).toBe('allow');
+
+    const assessment = await screen({ amount: 1301 });
+    expect(assessment.outcome).toBe('review');
+    expect(assessment.triggered_rules[0].reason).toBe('Amount 1301 is above 1300 (mean 1000 + 3 standard deviations)');
+  });
+});
@@ -0,0 +1,460 @@
+import db from './database.service';
+import { Merchant } from './merchants.service';
+import { AppError } from '../middleware/errorHandler';
+import { ValidationError } from '../middleware/validate';
+import { fraudRuleConfigSchemas } from '../schemas/fraud.schema';
+
+export type FraudRuleType = keyof typeof fraudRuleConfigSchemas;
+export type RiskOutcome = 'allow' | 'review' | 'block';
+
+export interface FraudRule {
+  id: string;
+  merchant_id: string;
+  name: string;
+  type: FraudRuleType;
+  action: RiskOutcome;
+  config: Record<string, any>;
+  score: number;
+  is_active: boolean;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface TriggeredRule {
+  rule_id: string;
+  name: string;
+  type: FraudRuleType;
+  action: RiskOutcome;
+  score: number;
+  reason: string;
+}
+
+export interface RiskAssessment {
+  id: string;
+  merchant_id: string;
+  transaction_id?: string | null;
+  environment: string;
+  outcome: RiskOutcome;
+  risk_score: number;
+  triggered_rules: TriggeredRule[];
+  amount: number;
+  currency: string;
+  customer_id?: string | null;
+  customer_email?: string | null;
+  ip_address?: string | null;
+  customer_country?: string | null;
+  card_fingerprint?: string | null;
+  card_country?: string | null;
+  created_at?: string;
+}
+
+/**
+ * What is known about a payment attempt before it reaches the processor
+ * Card details are only known for saved payment methods.
+ */
+export interface ScreeningInput {
+  amount: number;
+  currency: string;
+  customer_id?: string | null;
+  customer_email?: string | null;
+  ip_address?: string | null;
+  customer_country?: string | null;
+  card_fingerprint?: string | null;
+  card_country?: string | null;
+}
+
+interface FraudRuleData {
+  name?: string;
+  type?: FraudRuleType;
+  action?: RiskOutcome;
+  score?: number;
+  is_active?: boolean;
+  config?: Record<string, any>;
+}
+
+interface ListAssessmentsOptions {
+  limit?: number;
+  offset?: number;
+  outcome?: RiskOutcome;
+  transaction_id?: string;
+  start_date?: string;
+  end_date?: string;
+}
+
+interface ListAssessmentsResult {
+  risk_assessments: RiskAssessment[];
+  total_count: number;
+  has_more: boolean;
+}
+
+interface AmountStats {
+  count: number;
+  mean: number;
+  stddev: number;
+}
+
+const DEFAULT_RULE_SCORE = 25;
+const MAX_RISK_SCORE = 100;
+
+// risk_assessments column counted by each velocity field
+const VELOCITY_COLUMNS: Record<string, keyof ScreeningInput> = {
+  email: 'customer_email',
+  ip_address: 'ip_address',
+  card_fingerprint: 'card_fingerprint',
+};
+
+const FIELD_LABELS: Record<string, string> = {
+  email: 'email',
+  email_domain: 'email domain',
+  ip_address: 'IP address',
+  card_fingerprint: 'card',
+  card_country: 'card country',
+  customer_country: 'customer country',
+};
+
+/**
+ * Pre-authorization risk screening
+ * Payments are checked against the merchant's rules before the payment intent is
+ * created. An allow rule overrides block and review rules; otherwise any block
+ * rule blocks the payment and any review rule flags it.
+ */
+class FraudService {
+  /**
+   * Create a rule
+   */
+  async createRule(merchantId: string, data: FraudRuleData): Promise<FraudRule> {
+    return db.insert<FraudRule>('fraud_rules', {
+      merchant_id: merchantId,
+      name: data.name,
+      type: data.type,
+      action: data.action,
+      config: this.parseConfig(data.type!, data.config),
+      score: data.score ?? DEFAULT_RULE_SCORE,
+      is_active: data.is_active ?? true,
+    });
+  }
+
+  /**
+   * List a merchant's rules (oldest first, the order they are evaluated in)
+   */
+  async listRules(merchantId: string): Promise<FraudRule[]> {
+    return db.findMany<FraudRule>('fraud_rules', { merchant_id: merchantId }, { orderBy: 'created_at:asc' });
+  }
+
+  /**
+   * Get a rule belonging to a merchant
+   */
+  async getRule(merchantId: string, ruleId: string): Promise<FraudRule> {
+    const rule = await db.findOne<FraudRule>('fraud_rules', { id: ruleId, merchant_id: merchantId });
+
+    if (!rule) {
+      throw new AppError('Fraud rule not found', 404, 'FRAUD_RULE_NOT_FOUND');
+    }
+
+    return rule;
+  }
+
+  /**
+   * Update a rule (its type can't change)
+   */
+  async updateRule(merchantId: string, ruleId: string, data: FraudRuleData): Promise<FraudRule> {
+    const rule = await this.getRule(merchantId, ruleId);
+
+    const { name, action, score, is_active, config } = data;
+
+    return db.update<FraudRule>('fraud_rules', rule.id, {
+      ...(name !== undefined && { name }),
+      ...(action !== undefined && { action }),
+      ...(score !== undefined && { score }),
+      ...(is_active !== undefined && { is_active }),
+      ...(config !== undefined && { config: this.parseConfig(rule.type, config) }),
+    });
+  }
+
+  /**
+   * Delete a rule
+   */
+  async deleteRule(merchantId: string, ruleId: string): Promise<void> {
+    const rule = await this.getRule(merchantId, ruleId);
+
+    await db.delete('fraud_rules', rule.id);
+  }
+
+  /**
+   * Screen a payment attempt against the merchant's active rules and record the assessment
+   * The caller refuses the payment when the outcome is block.
+   */
+  async screenPayment(merchant: Merchant, input: ScreeningInput): Promise<RiskAssessment> {
+    const attempt: ScreeningInput = {
+      ...input,
+      currency: input.currency.toLowerCase(),
+      customer_email: input.customer_email?.toLowerCase() || null,
+      customer_country: input.customer_country?.toUpperCase() || null,
+      card_country: input.card_country?.toUpperCase() || null,
+    };
+
+    const rules = await db.findMany<FraudRule>(
+      'fraud_rules',
+      { merchant_id: merchant.id, is_active: true },
+      { orderBy: 'created_at:asc' }
+    );
+
+    const triggered: TriggeredRule[] = [];
+    for (const rule of rules) {
+      const reason = await this.evaluateRule(rule, merchant, attempt);
+
+      if (reason) {
+        triggered.push({
+          rule_id: rule.id,
+          name: rule.name,
+          type: rule.type,
+          action: rule.action,
+          score: rule.score,
+          reason,
+        });
+      }
+    }
+
+    const actions = triggered.map((rule) => rule.action);
+    const outcome: RiskOutcome = actions.includes('allow')
+      ? 'allow'
+      : actions.includes('block') ? 'block' : actions.includes('review') ? 'review' : 'allow';
+
+    return db.insert<RiskAssessment>('risk_assessments', {
+      merchant_id: merchant.id,
+      environment: merchant.environment,
+      outcome,
+      risk_score: Math.min(MAX_RISK_SCORE, triggered.reduce((total, rule) => total + rule.score, 0)),
+      triggered_rules: triggered,
+      amount: attempt.amount,
+      currency: attempt.currency,
+      customer_id: attempt.customer_id || null,
+      customer_email: attempt.customer_email,
+      ip_address: attempt.ip_address || null,
+      customer_country: attempt.customer_country,
+      card_fingerprint: attempt.card_fingerprint || null,
+      card_country: attempt.card_country,
+    });
+  }
+
+  /**
+   * Link an assessment to the transaction created for it
+   */
+  async attachTransaction(assessmentId: string, transactionId: string): Promise<void> {
+    const { error } = await db.getClient()
+      .from('risk_assessments')
+      .update({ transaction_id: transactionId })
+      .eq('id', assessmentId);
+
+    if (error) {
+      throw new Error(`Database update error: ${error.message}`);
+    }
+  }
+
+  /**
+   * Get an assessment belonging to a merchant
+   */
+  async getAssessment(merchantId: string, assessmentId: string): Promise<RiskAssessment> {
+    const assessment = await db.findOne<RiskAssessment>('risk_assessments', {
+      id: assessmentId,
+      merchant_id: merchantId,
+    });
+
+    if (!assessment) {
+      throw new AppError('Risk assessment not found', 404, 'RISK_ASSESSMENT_NOT_FOUND');
+    }
+
+    return assessment;
+  }
+
+  /**
+   * List a merchant's assessments (newest first); outcome=block lists blocked attempts
+   */
+  async listAssessments(merchantId: string, options: ListAssessmentsOptions = {}): Promise<ListAssessmentsResult> {
+    const { limit = 10, offset = 0, outcome, transaction_id, start_date, end_date } = options;
+
+    let query = db.getClient()
+      .from('risk_assessments')
+      .select('*', { count: 'exact' })
+      .eq('merchant_id', merchantId);
+
+    if (outcome) {
+      query = query.eq('outcome', outcome);
+    }
+
+    if (transaction_id) {
+      query = query.eq('transaction_id', transaction_id);
+    }
+
+    if (start_date) {
+      query = query.gte('created_at', start_date);
+    }
+
+    if (end_date) {
+      query = query.lte('created_at', end_date);
+    }
+
+    const { data, error, count } = await query
+      .order('created_at', { ascending: false })
+      .range(offset, offset + limit - 1);
+
+    if (error) {
+      throw new Error(`Database query error: ${error.message}`);
+    }
+
+    const assessments = (data || []) as RiskAssessment[];
+
+    return {
+      risk_assessments: assessments,
+      total_count: count || 0,
+      has_more: offset + assessments.length < (count || 0),
+    };
+  }
+
+  /**
+   * Why a rule triggers for the attempt, or null if it doesn't
+   */
+  private async evaluateRule(rule: FraudRule, merchant: Merchant, attempt: ScreeningInput): Promise<string | null> {
+    const config = rule.config || {};
+
+    switch (rule.type) {
+      case 'velocity': {
+        const column = VELOCITY_COLUMNS[config.field];
+        const value = column && attempt[column];
+        if (!value) {
+          return null;
+        }
+
+        const since = new Date(Date.now() - config.window_minutes * 60 * 1000).toISOString();
+        const { count, error } = await db.getClient()
+          .from('risk_assessments')
+          .select('id', { count: 'exact', head: true })
+          .eq('merchant_id', merchant.id)
+          .eq('environment', merchant.environment)
+          .eq(column, value)
+          .gte('created_at', since);
+
+        if (error) {
+          throw new Error(`Database query error: ${error.message}`);
+        }
+
+        // Earlier attempts in the window; this one would exceed the limit
+        return (count || 0) >= config.max_attempts
+          ? `${count} attempts from this ${FIELD_LABELS[config.field]} in the last ${config.window_minutes} minutes`
+          : null;
+      }
+
+      case 'amount_outlier': {
+        const since = new Date(Date.now() - config.lookback_days * 24 * 60 * 60 * 1000).toISOString();
+        const stats = await this.getAmountStats(merchant, attempt.currency, since);
+        if (stats.count < config.min_history) {
+          return null;
+        }
+
+        const threshold = stats.mean + config.multiplier * stats.stddev;
+        return attempt.amount > threshold
+          ? `Amount ${attempt.amount} is above ${Math.round(threshold)} (mean ${Math.round(stats.mean)} + ${config.multiplier} standard deviations)`
+          : null;
+      }
+
+      case 'country_mismatch': {
+        const expected = config.compare_with === 'merchant_country'
+          ? merchant.country?.toUpperCase()
+          : attempt.customer_country;
+        if (!attempt.card_country || !expected) {
+          return null;
+        }
+
+        return attempt.card_country !== expected
+          ? `Card issued in ${attempt.card_country}, ${config.compare_with === 'merchant_country' ? 'merchant' : 'customer'} in ${expected}`
+          : null;
+      }
+
+      case 'list': {
+        const value = this.getListValue(config.field, attempt);
+        if (!value) {
+          return null;
+        }
+
+        const listed = (config.values as string[]).some((entry) => this.normalizeListValue(config.field, entry) === value);
+        return listed ? `${FIELD_LABELS[config.field]} ${value} is on the ${rule.action} list` : null;
+      }
+
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Attempt value compared against a list, normalized like the list entries
+   */
+  private getListValue(field: string, attempt: ScreeningInput): string | null {
+    switch (field) {
+      case 'email':
+        return attempt.customer_email || null;
+      case 'email_domain':
+        return attempt.customer_email?.split('@')[1] || null;
+      case 'ip_address':
+        return attempt.ip_address || null;
+      case 'card_fingerprint':
+        return attempt.card_fingerprint || null;
+      case 'card_country':
+        return attempt.card_country || null;
+      case 'customer_country':
+        return attempt.customer_country || null;
+      default:
+        return null;
+    }
+  }
+
+  private normalizeListValue(field: string, value: string): string {
+    switch (field) {
+      case 'email':
+        return value.toLowerCase();
+      case 'email_domain':
+        return value.toLowerCase().replace(/^@/, '');
+      case 'card_country':
+      case 'customer_country':
+        return value.toUpperCase();
+      default:
+        return value;
+    }
+  }
+
+  /**
+   * Count, mean and standard deviation of the merchant's settled payments in a currency
+   */
+  private async getAmountStats(merchant: Merchant, currency: string, since: string): Promise<AmountStats> {
+    const { data, error } = await db.getClient().rpc('merchant_payment_amount_stats', {
+      p_merchant_id: merchant.id,
+      p_currency: currency,
+      p_environment: merchant.environment,
+      p_since: since,
+    });
+
+    if (error) {
+      throw new Error(`Failed to load payment amount stats: ${error.message}`);
+    }
+
+    return {
+      count: Number(data?.count || 0),
+      mean: Number(data?.mean || 0),
+      stddev: Number(data?.stddev || 0),
+    };
+  }
+
+  /**
+   * Validate a rule's config for its type, applying defaults
+   */
+  private parseConfig(type: FraudRuleType, config: Record<string, any> | undefined): Record<string, any> {
+    const result = fraudRuleConfigSchemas[type].safeParse(config ?? {});
+
+    if (!result.success) {
+      throw new ValidationError(result.error.issues.map((issue) => ({ ...issue, path: ['config', ...issue.path] })));
+    }
+
+    return result.data;
+  }
+}
+
+export default new FraudService();
@@ -0,0 +1,136 @@
+import db from './database.service';
+
+export interface IdempotencyRecord {
+  id: string;
+  merchant_id: string;
+  idempotency_key: string;
+  request_method: string;
+  request_path: string;
+  request_fingerprint: string;
+  status: 'in_progress' | 'completed';
+  response_status?: number | null;
+  response_body?: any;
+  created_at?: string;
+  updated_at?: string;
+  expires_at: string;
+}
+
+interface BeginRequestData {
+  merchantId: string;
+  key: string;
+  method: string;
+  path: string;
+  fingerprint: string;
+}
+
+// Keys are kept for 24 hours, after which the same key may be reused
+const KEY_TTL_MS = 24 * 60 * 60 * 1000;
+
+// The request holding a key refreshes its lock this often while it runs, however long it takes
+export const IN_PROGRESS_LOCK_REFRESH_MS = 15 * 1000;
+
+// A lock not refreshed for this long belongs to a request whose process died
+export const IN_PROGRESS_LOCK_TIMEOUT_MS = 60 * 1000;
+
+class IdempotencyService {
+  /**
+   * Get the stored record for a key, ignoring (and removing) expired ones
+   * and in-progress ones whose request has outlived the lock timeout
+   */
+  async findActive(merchantId: string, key: string): Promise<IdempotencyRecord | null> {
+    const record = await db.findOne<IdempotencyRecord>('idempotency_keys', {
+      merchant_id: merchantId,
+      idempotency_key: key,
+    });
+
+    if (!record) {
+      return null;
+    }
+
+    if (new Date(record.expires_at) <= new Date() || this.isStale(record)) {
+      await db.delete('idempotency_keys', record.id);
+      return null;
+    }
+
+    return record;
+  }
+
+  /**
+   * Reserve a key for an in-flight request
+   * Returns null if another request claimed the key first
+   */
+  async begin(data: BeginRequestData): Promise<IdempotencyRecord | null> {
+    try {
+      return await db.insert<IdempotencyRecord>('idempotency_keys', {
+        merchant_id: data.merchantId,
+        idempotency_key: data.key,
+        request_method: data.method,
+        request_path: data.path,
+        request_fingerprint: data.fingerprint,
+        status: 'in_progress',
+        expires_at: new Date(Date.now() + KEY_TTL_MS).toISOString(),
+      });
+    } catch (error) {
+      // Unique (merchant_id, idempotency_key) violation - a concurrent request holds the key
+      console.warn('Idempotency key already reserved:', data.key);
+      return null;
+    }
+  }
+
+  /**
+   * Keep an in-progress key locked (updated_at is the lock's heartbeat)
+   */
+  async refresh(recordId: string): Promise<void> {
+    const { error } = await db.getClient()
+      .from('idempotency_keys')
+      .update({ updated_at: new Date().toISOString() })
+      .eq('id', recordId)
+      .eq('status', 'in_progress');
+
+    if (error) {
+      throw new Error(`Database update error: ${error.message}`);
+    }
+  }
+
+  /**
+   * Store the response for a completed request
+   */
+  async complete(recordId: string, responseStatus: number, responseBody: any): Promise<void> {
+    await db.update<IdempotencyRecord>('idempotency_keys', recordId, {
+      status: 'completed',
+      response_status: responseStatus,
+      response_body: responseBody ?? null,
+    });
+  }
+
+  /**
+   * Release a key so the request can be retried (used when the request errored server-side)
+   */
+  async release(recordId: string): Promise<void> {
+    await db.delete('idempotency_keys', recordId);
+  }
+
+  private isStale(record: IdempotencyRecord): boolean {
+    const heartbeat = record.updated_at || record.created_at;
+
+    return record.status === 'in_progress'
+      && !!heartbeat
+      && Date.now() - new Date(heartbeat).getTime() > IN_PROGRESS_LOCK_TIMEOUT_MS;
+  }
+
+  /**
+   * Delete expired keys (cleanup)
+   */
+  async deleteExpiredKeys(): Promise<void> {
+    const { error } = await db.getClient()
+      .from('idempotency_keys')
+      .delete()
+      .lt('expires_at', new Date().toISOString());
+
+    if (error) {
+      throw new Error(`Database delete error: ${error.message}`);
+    }
+  }
+}
+
+export default new IdempotencyService();
@@ -0,0 +1,1117 @@
+import crypto from 'crypto';
+import db from './database.service';
+import paymentsService from './payments.service';
+import merchantsService, { Merchant } from './merchants.service';
+import customersService, { Customer } from './customers.service';
+import merchantWebhooksService from './merchantWebhooks.service';
+import emailService from './email.service';
+import { AppError } from '../middleware/errorHandler';
+import { assertValidAmount, formatAmount } from '../config/currencies.config';
+import { renderInvoicePdf } from '../utils/invoicePdf';
+import { ProcessorName } from './processors';
+
+export type InvoiceStatus = 'draft' | 'open' | 'paid' | 'void' | 'uncollectible';
+
+export type CollectionMethod = 'charge_automatically' | 'send_invoice';
+
+export interface InvoiceDiscount {
+  description?: string | null;
+  percent_off?: number;
+  amount_off?: number;
+  // Computed against the subtotal
+  amount?: number;
+}
+
+export interface InvoiceTaxLine {
+  display_name: string;
+  percentage: number;
+  // Computed against the subtotal after discounts
+  amount?: number;
+}
+
+export interface Invoice {
+  id: string;
+  merchant_id: string;
+  customer_id: string | null;
+  subscription_id?: string | null;
+  number?: string | null;
+  status: InvoiceStatus;
+  billing_reason?: string | null;
+  collection_method: CollectionMethod;
+  environment: string;
+  currency: string;
+  description?: string | null;
+  footer?: string | null;
+  due_date?: string | null;
+  subtotal: number;
+  discounts: InvoiceDiscount[];
+  total_discount_amount: number;
+  tax_lines: InvoiceTaxLine[];
+  total_tax_amount: number;
+  total: number;
+  amount_due: number;
+  amount_paid: number;
+  period_start?: string | null;
+  period_end?: string | null;
+  attempt_count: number;
+  next_payment_attempt?: string | null;
+  last_payment_error?: { code?: string; message?: string } | null;
+  transaction_id?: string | null;
+  hosted_token?: string | null;
+  finalized_at?: string | null;
+  sent_at?: string | null;
+  paid_at?: string | null;
+  voided_at?: string | null;
+  marked_uncollectible_at?: string | null;
+  metadata?: Record<string, any>;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface InvoiceLineItem {
+  id: string;
+  invoice_id: string | null;
+  merchant_id: string;
+  subscription_id?: string | null;
+  plan_id?: string | null;
+  description: string;
+  quantity: number;
+  unit_amount: number | null;
+  amount: number;
+  currency: string;
+  proration: boolean;
+  period_start?: string | null;
+  period_end?: string | null;
+  created_at?: string;
+}
+
+export interface InvoiceWithLines extends Invoice {
+  lines: InvoiceLineItem[];
+  hosted_invoice_url: string | null;
+}
+
+export interface LineItemInput {
+  description: string;
+  // Either a fixed amount, or quantity x unit_amount
+  amount?: number;
+  quantity?: number;
+  unit_amount?: number;
+  plan_id?: string;
+  proration?: boolean;
+  period_start?: string;
+  period_end?: string;
+}
+
+interface CreateInvoiceData {
+  merchant_id: string;
+  customer_id: string;
+  subscription_id?: string;
+  environment: string;
+  currency: string;
+  billing_reason: string;
+  period_start?: string;
+  period_end?: string;
+  lines: LineItemInput[];
+  metadata?: Record<string, any>;
+}
+
+interface InvoiceRequestData {
+  customer_id?: string;
+  currency?: string;
+  description?: string | null;
+  footer?: string | null;
+  collection_method?: CollectionMethod;
+  due_date?: string | null;
+  days_until_due?: number;
+  line_items?: LineItemInput[];
+  discounts?: InvoiceDiscount[];
+  tax_rates?: InvoiceTaxLine[];
+  metadata?: Record<string, any>;
+}
+
+interface PendingItemData extends LineItemInput {
+  merchant_id: string;
+  subscription_id: string;
+  currency: string;
+}
+
+interface PayInvoiceOptions {
+  merchant: Merchant;
+  payment_method_id: string | null;
+}
+
+export interface PayInvoiceResult {
+  invoice: Invoice;
+  // Set when no payment could be created, so no payment webhook will follow
+  error?: { code?: string; message?: string };
+}
+
+interface ListInvoicesOptions {
+  subscription_id?: string;
+  customer_id?: string;
+  status?: InvoiceStatus;
+  limit?: number;
+  offset?: number;
+}
+
+interface HostedInvoice {
+  id: string;
+  number: string | null;
+  status: InvoiceStatus;
+  currency: string;
+  description: string | null;
+  footer: string | null;
+  due_date: string | null;
+  finalized_at: string | null;
+  customer_name: string | null;
+  customer_email: string | null;
+  lines: Array<Pick<InvoiceLineItem, 'description' | 'quantity' | 'unit_amount' | 'amount'>>;
+  subtotal: number;
+  discounts: InvoiceDiscount[];
+  total_discount_amount: number;
+  tax_lines: InvoiceTaxLine[];
+  total_tax_amount: number;
+  total: number;
+  amount_paid: number;
+  amount_due: number;
+  merchant_id: string;
+}
+
+interface CheckoutResponse {
+  transaction_id: string;
+  payment_intent_id: string;
+  client_secret: string | null;
+  amount: number;
+  currency: string;
+  stripe_account_id: string;
+  publishable_key: string | null;
+  processor: ProcessorName;
+}
+
+interface InvoiceTotals {
+  subtotal: number;
+  discounts: InvoiceDiscount[];
+  total_discount_amount: number;
+  tax_lines: InvoiceTaxLine[];
+  total_tax_amount: number;
+  total: number;
+}
+
+const DEFAULT_DAYS_UNTIL_DUE = 30;
+
+// Invoices a customer can still pay
+const PAYABLE_STATUSES: InvoiceStatus[] = ['open', 'uncollectible'];
+
+/**
+ * Apply discounts to the subtotal, then tax what is left
+ */
+function calculateTotals(
+  lines: InvoiceLineItem[],
+  discounts: InvoiceDiscount[] = [],
+  taxLines: InvoiceTaxLine[] = []
+): InvoiceTotals {
+  const subtotal = lines.reduce((sum, line) => sum + line.amount, 0);
+
+  let remaining = Math.max(subtotal, 0);
+  const appliedDiscounts = discounts.map((discount) => {
+    const amount = discount.percent_off !== undefined
+      ? Math.round(remaining * discount.percent_off / 100)
+      : Math.min(discount.amount_off || 0, remaining);
+    remaining -= amount;
+    return { ...discount, amount };
+  });
+  const totalDiscount = appliedDiscounts.reduce((sum, discount) => sum + discount.amount, 0);
+
+  const appliedTaxes = taxLines.map((tax) => ({
+    ...tax,
+    amount: Math.round(remaining * tax.percentage / 100),
+  }));
+  const totalTax = appliedTaxes.reduce((sum, tax) => sum + tax.amount, 0);
+
+  return {
+    subtotal,
+    discounts: appliedDiscounts,
+    total_discount_amount: totalDiscount,
+    tax_lines: appliedTaxes,
+    total_tax_amount: totalTax,
+    total: subtotal - totalDiscount + totalTax,
+  };
+}
+
+class InvoicesService {
+  // ==============================================
+  // MERCHANT API
+  // ==============================================
+
+  /**
+   * Create a draft invoice for a customer
+   */
+  async createDraftInvoice(apiKey: string, data: InvoiceRequestData): Promise<InvoiceWithLines> {
+    const merchant = await merchantsService.getMerchantByApiKey(apiKey);
+    const customer = await customersService.getCustomerForPayment(merchant, data.customer_id);
+    const collectionMethod = data.collection_method || 'send_invoice';
+
+    const invoice = await db.insert<Invoice>('invoices', {
+      merchant_id: merchant.id,
+      customer_id: customer.id,
+      status: 'draft',
+      billing_reason: 'manual',
+      collection_method: collectionMethod,
+      environment: merchant.environment,
+      currency: data.currency.toLowerCase(),
+      description: data.description || null,
+      footer: data.footer || null,
+      due_date: this.resolveDueDate(collectionMethod, data),
+      discounts: data.discounts || [],
+      tax_lines: data.tax_rates || [],
+      metadata: data.metadata || {},
+    });
+
+    for (const line of data.line_items || []) {
+      await this.insertLineItem(invoice, line);
+    }
+
+    await this.recalculate(invoice);
+
+    return this.getInvoiceWithLines(invoice.id);
+  }
+
+  /**
+   * Get invoice by ID, with its line items
+   */
+  async getInvoice(apiKey: string, invoiceId: string): Promise<InvoiceWithLines> {
+    const merchant = await merchantsService.getMerchantByApiKey(apiKey);
+    const invoice = await this.getInvoiceForMerchant(merchant.id, invoiceId);
+
+    return this.getInvoiceWithLines(invoice.id);
+  }
+
+  /**
+   * List invoices for the API key's merchant
+   */
+  async listMerchantInvoices(apiKey: string, options: ListInvoicesOptions = {}): Promise<Invoice[]> {
+    const merchant = await merchantsService.getMerchantByApiKey(apiKey);
+
+    return this.listInvoices(merchant.id, options);
+  }
+
+  /**
+   * Update a draft invoice
+   * Line items, when given, replace the existing ones.
+   */
+  async updateDraftInvoice(apiKey: string, invoiceId: string, data: InvoiceRequestData): Promise<InvoiceWithLines> {
+    const merchant = await merchantsService.getMerchantByApiKey(apiKey);
+    const invoice = await this.getInvoiceForMerchant(merchant.id, invoiceId);
+    this.assertStatus(invoice, ['draft'], 'update');
+
+    const collectionMethod = data.collection_method || invoice.collection_method;
+    const updates: Partial<Invoice> = {
+      ...(data.description !== undefined && { description: data.description }),
+      ...(data.footer !== undefined && { footer: data.footer }),
+      ...(data.collection_method && { collection_method: data.collection_method }),
+      ...(data.discounts && { discounts: data.discounts }),
+      ...(data.tax_rates && { tax_lines: data.tax_rates }),
+      ...(data.metadata && { metadata: data.metadata }),
+    };
+
+    if (data.due_date !== undefined || data.days_until_due !== undefined || data.collection_method) {
+      updates.due_date = this.resolveDueDate(collectionMethod, {
+        due_date: data.due_date !== undefined ? data.due_date : invoice.due_date,
+        days_until_due: data.days_until_due,
+      });
+    }
+
+    const updated = Object.keys(updates).length > 0
+      ? await db.update<Invoice>('invoices', invoice.id, updates)
+      : invoice;
+
+    if (data.line_items) {
+      const { error } = await db.getClient()
+        .from('invoice_line_items')
+        .delete()
+        .eq('invoice_id', invoice.id);
+
+      if (error) {
+        throw new Error(`Database delete error: ${error.message}`);
+      }
+
+      for (const line of data.line_items) {
+        await this.insertLineItem(updated, line);
+      }
+    }
+
+    await this.recalculate(updated);
+
+    return this.getInvoiceWithLines(invoice.id);
+  }
+
+  /**
+   * Delete a draft invoice
+   */
+  async deleteDraftInvoice(apiKey: string, invoiceId: string): Promise<void> {
+    const merchant = await merchantsService.getMerchantByApiKey(apiKey);
+    const invoice = await this.getInvoiceForMerchant(merchant.id, invoiceId);
+    this.assertStatus(invoice, ['draft'], 'delete');
+
+    await db.delete('invoices', invoice.id);
+  }
+
+  /**
+   * Finalize a draft invoice
+   * Assigns the invoice number and hosted page. send_invoice invoices are emailed
+   * to the customer; charge_automatically invoices are charged to the saved method.
+   */
+  async finalizeInvoice(apiKey: string, invoiceId: string): Promise<InvoiceWithLines> {
+    const merchant = await merchantsService.getMerchantByApiKey(apiKey);
+    const draft = await this.getInvoiceForMerchant(merchant.id, invoiceId);
+    this.assertStatus(draft, ['draft'], 'finalize');
+
+    const lines = await this.getLineItems(draft.id);
+    if (lines.length === 0) {
+      throw new AppError('Invoice has no line items', 400, 'INVOICE_EMPTY');
+    }
+
+    const totals = calculateTotals(lines, draft.discounts, draft.tax_lines);
+    if (totals.total > 0) {
+      assertValidAmount(totals.total, draft.currency);
+    }
+
+    const invoice = await this.finalize(draft);
+
+    if (invoice.collection_method === 'send_invoice') {
+      await this.deliver(invoice, merchant);
+    } else {
+      await this.chargeForMerchant(invoice, merchant);
+    }
+
+    return this.getInvoiceWithLines(invoice.id);
+  }
+
+  /**
+   * Email the hosted invoice link to the customer
+   */
+  async sendInvoice(apiKey: string, invoiceId: string): Promise<InvoiceWithLines> {
+    const merchant = await merchantsService.getMerchantByApiKey(apiKey);
+    const invoice = await this.getInvoiceForMerchant(merchant.id, invoiceId);
+    this.assertStatus(invoice, ['open'], 'send');
+
+    await this.deliver(invoice, merchant, { required: true });
+
+    return this.getInvoiceWithLines(invoice.id);
+  }
+
+  /**
+   * Charge an open invoice to one of the customer's saved payment methods
+   */
+  async payInvoiceForMerchant(
+    apiKey: string,
+    invoiceId: string,
+    options: { payment_method_id?: string } = {}
+  ): Promise<InvoiceWithLines> {
+    const merchant = await merchantsService.getMerchantByApiKey(apiKey);
+    const invoice = await this.getInvoiceForMerchant(merchant.id, invoiceId);
+    this.assertStatus(invoice, PAYABLE_STATUSES, 'pay');
+
+    await this.chargeForMerchant(invoice, merchant, options.payment_method_id);
+
+    return this.getInvoiceWithLines(invoice.id);
+  }
+
+  /**
+   * Void an invoice that will not be paid
+   */
+  async voidInvoice(apiKey: string, invoiceId: string): Promise<InvoiceWithLines> {
+    const merchant = await merchantsService.getMerchantByApiKey(apiKey);
+    const invoice = await this.getInvoiceForMerchant(merchant.id, invoiceId);
+    this.assertStatus(invoice, PAYABLE_STATUSES, 'void');
+
+    const voided = await this.transitionStatus(invoice, PAYABLE_STATUSES, {
+      status: 'void',
+      voided_at: new Date().toISOString(),
+      next_payment_attempt: null,
+    });
+
+    await this.sendEvent('invoice.voided', voided);
+
+    return this.getInvoiceWithLines(voided.id);
+  }
+
+  /**
+   * Mark an open invoice uncollectible; it can still be paid afterwards
+   */
+  async markUncollectible(apiKey: string, invoiceId: string): Promise<InvoiceWithLines> {
+    const merchant = await merchantsService.getMerchantByApiKey(apiKey);
+    const invoice = await this.getInvoiceForMerchant(merchant.id, invoiceId);
+    this.assertStatus(invoice, ['open'], 'mark uncollectible');
+
+    const updated = await this.transitionStatus(invoice, ['open'], {
+      status: 'uncollectible',
+      marked_uncollectible_at: new Date().toISOString(),
+      next_payment_attempt: null,
+    });
+
+    await this.sendEvent('invoice.marked_uncollectible', updated);
+
+    return this.getInvoiceWithLines(updated.id);
+  }
+
+  /**
+   * Render an invoice as PDF
+   */
+  async getInvoicePdf(apiKey: string, invoiceId: string): Promise<{ filename: string; pdf: Buffer }> {
+    const merchant = await merchantsService.getMerchantByApiKey(apiKey);
+    const invoice = await this.getInvoiceForMerchant(merchant.id, invoiceId);
+
+    return this.renderPdf(invoice);
+  }
+
+  // ==============================================
+  // HOSTED INVOICE PAGE (public)
+  // ==============================================
+
+  /**
+   * Get the public view of a finalized invoice
+   */
+  async getHostedInvoice(token: string): Promise<HostedInvoice> {
+    const invoice = await this.findByHostedToken(token);
+    const lines = await this.getLineItems(invoice.id);
+    const customer = invoice.customer_id
+      ? await db.findById<Customer>('customers', invoice.customer_id)
+      : null;
+
+    return {
+      id: invoice.id,
+      number: invoice.number || null,
+      status: invoice.status,
+      currency: invoice.currency,
+      description: invoice.description || null,
+      footer: invoice.footer || null,
+      due_date: invoice.due_date || null,
+      finalized_at: invoice.finalized_at || null,
+      customer_name: customer?.name || null,
+      customer_email: customer?.email || null,
+      lines: lines.map(({ description, quantity, unit_amount, amount }) => ({ description, quantity, unit_amount, amount })),
+      subtotal: invoice.subtotal,
+      discounts: invoice.discounts || [],
+      total_discount_amount: invoice.total_discount_amount,
+      tax_lines: invoice.tax_lines || [],
+      total_tax_amount: invoice.total_tax_amount,
+      total: invoice.total,
+      amount_paid: invoice.amount_paid,
+      amount_due: invoice.amount_due,
+      merchant_id: invoice.merchant_id,
+    };
+  }
+
+  /**
+   * Start paying an invoice from its hosted page
+   * Creates a normal payment linked back to the invoice; the payment webhook marks it paid.
+   */
+  async createHostedCheckout(token: string): Promise<CheckoutResponse> {
+    const invoice = await this.findByHostedToken(token);
+
+    if (!PAYABLE_STATUSES.includes(invoice.status) || invoice.amount_due <= 0) {
+      throw new AppError(`This invoice is ${invoice.status} and cannot be paid`, 400, 'INVOICE_NOT_PAYABLE');
+    }
+
+    const merchant = await db.findById<Merchant>('merchants', invoice.merchant_id);
+
+    if (!merchant || !merchant.is_active || merchant.status === 'suspended' || merchant.status === 'closed') {
+      throw new AppError('Invoice not found', 404, 'INVOICE_NOT_FOUND');
+    }
+
+    const payment = await paymentsService.createPaymentForMerchant({ ...merchant, environment: invoice.environment }, {
+      amount: invoice.amount_due,
+      currency: invoice.currency,
+      description: `Invoice ${invoice.number}`,
+      customer_id: invoice.customer_id || undefined,
+      invoice_id: invoice.id,
+      metadata: {
+        invoice_id: invoice.id,
+        invoice_number: invoice.number,
+      },
+    });
+
+    return {
+      transaction_id: payment.transaction_id,
+      payment_intent_id: payment.payment_intent_id,
+      client_secret: payment.client_secret,
+      amount: payment.amount,
+      currency: payment.currency,
+      stripe_account_id: merchant.stripe_account_id!,
+      publishable_key: process.env.STRIPE_PUBLISHABLE_KEY || null,
+      processor: payment.processor,
+    };
+  }
+
+  /**
+   * Render the PDF of a hosted invoice
+   */
+  async getHostedInvoicePdf(token: string): Promise<{ filename: string; pdf: Buffer }> {
+    const invoice = await this.findByHostedToken(token);
+
+    return this.renderPdf(invoice);
+  }
+
+  // ==============================================
+  // BILLING (subscriptions and payment webhooks)
+  // ==============================================
+
+  /**
+   * Create and finalize an invoice for a subscription
+   * Pending items for the subscription (e.g. prorations) are pulled in. A net
+   * credit is carried forward as a pending item so the invoice never goes negative.
+   */
+  async createInvoice(data: CreateInvoiceData): Promise<Invoice> {
+    const invoice = await db.insert<Invoice>('invoices', {
+      merchant_id: data.merchant_id,
+      customer_id: data.customer_id,
+      subscription_id: data.subscription_id || null,
+      status: 'draft',
+      billing_reason: data.billing_reason,
+      collection_method: 'charge_automatically',
+      environment: data.environment,
+      currency: data.currency,
+      period_start: data.period_start || null,
+      period_end: data.period_end || null,
+      metadata: data.metadata || {},
+    });
+
+    for (const line of data.lines) {
+      await this.insertLineItem(invoice, line);
+    }
+
+    if (data.subscription_id) {
+      const { error } = await db.getClient()
+        .from('invoice_line_items')
+        .update({ invoice_id: invoice.id })
+        .eq('subscription_id', data.subscription_id)
+        .is('invoice_id', null);
+
+      if (error) {
+        throw new Error(`Database update error: ${error.message}`);
+      }
+    }
+
+    const { subtotal } = calculateTotals(await this.getLineItems(invoice.id));
+
+    if (subtotal < 0 && data.subscription_id) {
+      await this.insertLineItem(invoice, {
+        description: 'Credit applied to next invoice',
+        amount: -subtotal,
+      });
+      await this.addPendingItem({
+        merchant_id: data.merchant_id,
+        subscription_id: data.subscription_id,
+        currency: data.currency,
+        description: 'Credit carried forward',
+        amount: subtotal,
+      });
+    }
+
+    return this.finalize(invoice);
+  }
+
+  /**
+   * Add an item to a subscription's next invoice
+   */
+  async addPendingItem(data: PendingItemData): Promise<InvoiceLineItem> {
+    return db.insert<InvoiceLineItem>('invoice_line_items', {
+      invoice_id: null,
+      merchant_id: data.merchant_id,
+      subscription_id: data.subscription_id,
+      ...this.lineItemFields(data),
+      currency: data.currency,
+    });
+  }
+
+  /**
+   * Get an invoice, ensuring it belongs to the merchant
+   */
+  async getInvoiceForMerchant(merchantId: string, invoiceId: string): Promise<Invoice> {
+    const invoice = await db.findById<Invoice>('invoices', invoiceId);
+
+    if (!invoice || invoice.merchant_id !== merchantId) {
+      throw new AppError('Invoice not found', 404, 'INVOICE_NOT_FOUND');
+    }
+
+    return invoice;
+  }
+
+  /**
+   * List invoices for merchant
+   */
+  async listInvoices(merchantId: string, options: ListInvoicesOptions = {}): Promise<Invoice[]> {
+    const { limit = 10, offset = 0 } = options;
+
+    let query = db.getClient()
+      .from('invoices')
+      .select('*')
+      .eq('merchant_id', merchantId);
+
+    if (options.subscription_id) {
+      query = query.eq('subscription_id', options.subscription_id);
+    }
+
+    if (options.customer_id) {
+      query = query.eq('customer_id', options.customer_id);
+    }
+
+    if (options.status) {
+      query = query.eq('status', options.status);
+    }
+
+    const { data, error } = await query
+      .order('created_at', { ascending: false })
+      .range(offset, offset + limit - 1);
+
+    if (error) {
+      throw new Error(`Database query error: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  /**
+   * Get the line items on an invoice
+   */
+  async getLineItems(invoiceId: string): Promise<InvoiceLineItem[]> {
+    return db.findMany<InvoiceLineItem>('invoice_line_items', { invoice_id: invoiceId }, { orderBy: 'created_at:asc' });
+  }
+
+  /**
+   * Charge an open invoice to the customer's saved payment method, off-session
+   * The payment_intent.* webhooks mark the invoice paid or record the failure.
+   */
+  async payInvoice(invoice: Invoice, options: PayInvoiceOptions): Promise<PayInvoiceResult> {
+    if (!PAYABLE_STATUSES.includes(invoice.status)) {
+      throw new AppError(`Cannot pay an invoice that is ${invoice.status}`, 400, 'INVALID_INVOICE_STATUS');
+    }
+
+    // Nothing to collect (free plan, trial or fully credited)
+    if (invoice.amount_due === 0) {
+      const { invoice: paid } = await this.markPaid(invoice.id);
+      return { invoice: paid };
+    }
+
+    const attempt = invoice.attempt_count + 1;
+    let updated = await db.update<Invoice>('invoices', invoice.id, {
+      attempt_count: attempt,
+      next_payment_attempt: null,
+    });
+
+    if (!options.payment_method_id || !invoice.customer_id) {
+      return {
+        invoice: updated,
+        error: { code: 'no_payment_method', message: 'Customer has no saved payment method' },
+      };
+    }
+
+    try {
+      const payment = await paymentsService.createPaymentForMerchant(
+        { ...options.merchant, environment: invoice.environment },
+        {
+          amount: invoice.amount_due,
+          currency: invoice.currency,
+          description: `Invoice ${invoice.number || invoice.id}`,
+          customer_id: invoice.customer_id,
+          payment_method_id: options.payment_method_id,
+          invoice_id: invoice.id,
+          idempotency_key: `invoice_${invoice.id}_attempt_${attempt}`,
+          metadata: {
+            invoice_id: invoice.id,
+            ...(invoice.number && { invoice_number: invoice.number }),
+            ...(invoice.subscription_id && { subscription_id: invoice.subscription_id }),
+          },
+        }
+      );
+
+      updated = await db.update<Invoice>('invoices', invoice.id, {
+        transaction_id: payment.transaction_id,
+      });
+
+      return { invoice: updated };
+    } catch (error: any) {
+      console.error('Failed to charge invoice:', invoice.id, error.message);
+
+      return {
+        invoice: updated,
+        error: { code: error.code || 'payment_error', message: error.message },
+      };
+    }
+  }
+
+  /**
+   * Mark an invoice paid
+   * Compare-and-set on status so redelivered webhooks are no-ops (changed: false).
+   */
+  async markPaid(invoiceId: string, transactionId?: string): Promise<{ invoice: Invoice; changed: boolean }> {
+    const now = new Date().toISOString();
+
+    const { data, error } = await db.getClient()
+      .from('invoices')
+      .update({
+        status: 'paid',
+        paid_at: now,
+        next_payment_attempt: null,
+        ...(transactionId && { transaction_id: transactionId }),
+        updated_at: now,
+      })
+      .eq('id', invoiceId)
+      .in('status', PAYABLE_STATUSES)
+      .select();
+
+    if (error) {
+      throw new Error(`Database update error: ${error.message}`);
+    }
+
+    if (data && data.length > 0) {
+      const invoice = await db.update<Invoice>('invoices', invoiceId, { amount_paid: data[0].amount_due });
+      await this.sendEvent('invoice.paid', invoice);
+      return { invoice, changed: true };
+    }
+
+    const invoice = await db.findById<Invoice>('invoices', invoiceId);
+    if (!invoice) {
+      throw new AppError('Invoice not found', 404, 'INVOICE_NOT_FOUND');
+    }
+
+    return { invoice, changed: false };
+  }
+
+  /**
+   * Record a failed subscription collection attempt
+   * With no further attempt scheduled the invoice becomes uncollectible.
+   */
+  async recordPaymentFailure(
+    invoice: Invoice,
+    failure: { code?: string; message?: string },
+    nextAttempt: Date | null
+  ): Promise<Invoice> {
+    const updated = await db.update<Invoice>('invoices', invoice.id, {
+      last_payment_error: failure,
+      next_payment_attempt: nextAttempt ? nextAttempt.toISOString() : null,
+      ...(!nextAttempt && {
+        status: 'uncollectible' as InvoiceStatus,
+        marked_uncollectible_at: new Date().toISOString(),
+      }),
+    });
+
+    await this.sendEvent('invoice.payment_failed', updated);
+
+    return updated;
+  }
+
+  /**
+   * Record a failed payment on an invoice outside subscription billing
+   * The invoice stays payable; the customer can retry from the hosted page.
+   */
+  async recordPaymentError(invoice: Invoice, failure: { code?: string; message?: string }): Promise<Invoice> {
+    if (!PAYABLE_STATUSES.includes(invoice.status)) {
+      return invoice;
+    }
+
+    const updated = await db.update<Invoice>('invoices', invoice.id, { last_payment_error: failure });
+
+    await this.sendEvent('invoice.payment_failed', updated);
+
+    return updated;
+  }
+
+  /**
+   * Void the open invoices of a subscription (e.g. when it is canceled)
+   */
+  async voidOpenInvoices(subscriptionId: string): Promise<void> {
+    const now = new Date().toISOString();
+
+    const { error } = await db.getClient()
+      .from('invoices')
+      .update({ status: 'void', voided_at: now, next_payment_attempt: null, updated_at: now })
+      .eq('subscription_id', subscriptionId)
+      .eq('status', 'open');
+
+    if (error) {
+      throw new Error(`Database update error: ${error.message}`);
+    }
+  }
+
+  /**
+   * Open subscription invoices whose next collection attempt is due
+   */
+  async listDueForRetry(now: Date, limit: number = 100): Promise<Invoice[]> {
+    const { data, error } = await db.getClient()
+      .from('invoices')
+      .select('*')
+      .eq('status', 'open')
+      .not('subscription_id', 'is', null)
+      .lte('next_payment_attempt', now.toISOString())
+      .order('next_payment_attempt', { ascending: true })
+      .limit(limit);
+
+    if (error) {
+      throw new Error(`Database query error: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  /**
+   * Take ownership of a scheduled retry so concurrent schedulers don't charge twice
+   */
+  async claimRetry(invoice: Invoice): Promise<boolean> {
+    const { data, error } = await db.getClient()
+      .from('invoices')
+      .update({ next_payment_attempt: null })
+      .eq('id', invoice.id)
+      .eq('status', 'open')
+      .eq('next_payment_attempt', invoice.next_payment_attempt)
+      .select('id');
+
+    if (error) {
+      throw new Error(`Database update error: ${error.message}`);
+    }
+
+    return !!data && data.length > 0;
+  }
+
+  // ==============================================
+  // HELPERS
+  // ==============================================
+
+  /**
+   * Compute totals, assign a number and hosted page, and open the invoice
+   */
+  private async finalize(invoice: Invoice): Promise<Invoice> {
+    const totals = await this.recalculate(invoice);
+
+    const { data: sequence, error } = await db.getClient().rpc('next_invoice_number', {
+      p_merchant_id: invoice.merchant_id,
+    });
+
+    if (error) {
+      throw new Error(`Failed to assign invoice number: ${error.message}`);
+    }
+
+    const finalized = await this.transitionStatus(invoice, ['draft'], {
+      status: 'open',
+      number: `INV-${String(sequence).padStart(6, '0')}`,
+      hosted_token: crypto.randomBytes(24).toString('hex'),
+      amount_due: Math.max(totals.total, 0),
+      finalized_at: new Date().toISOString(),
+    });
+
+    await this.sendEvent('invoice.finalized', finalized);
+
+    return finalized;
+  }
+
+  /**
+   * Recompute subtotal, discounts, tax and total from the line items
+   */
+  private async recalculate(invoice: Invoice): Promise<InvoiceTotals> {
+    const lines = await this.getLineItems(invoice.id);
+    const totals = calculateTotals(lines, invoice.discounts, invoice.tax_lines);
+
+    await db.update<Invoice>('invoices', invoice.id, {
+      ...totals,
+      amount_due: Math.max(totals.total, 0),
+    });
+
+    return totals;
+  }
+
+  /**
+   * Compare-and-set the status so concurrent requests can't both transition
+   */
+  private async transitionStatus(
+    invoice: Invoice,
+    from: InvoiceStatus[],
+    updates: Partial<Invoice>
+  ): Promise<Invoice> {
+    const { data, error } = await db.getClient()
+      .from('invoices')
+      .update({ ...updates, updated_at: new Date().toISOString() })
+      .eq('id', invoice.id)
+      .in('status', from)
+      .select();
+
+    if (error) {
+      throw new Error(`Database update error: ${error.message}`);
+    }
+
+    if (!data || data.length === 0) {
+      throw new AppError('Invoice was modified by another request', 409, 'INVOICE_STATUS_CHANGED');
+    }
+
+    return data[0] as Invoice;
+  }
+
+  /**
+   * Charge an invoice on the merchant's behalf, recording a failure that produced no payment
+   */
+  private async chargeForMerchant(invoice: Invoice, merchant: Merchant, paymentMethodId?: string): Promise<void> {
+    let resolvedPaymentMethodId = paymentMethodId || null;
+
+    if (!resolvedPaymentMethodId && invoice.customer_id) {
+      const customer = await customersService.getCustomerForMerchant(merchant.id, invoice.customer_id);
+      resolvedPaymentMethodId = customer.default_payment_method_id || null;
+    }
+
+    const result = await this.payInvoice(invoice, { merchant, payment_method_id: resolvedPaymentMethodId });
+
+    if (result.error) {
+      await this.recordPaymentError(result.invoice, result.error);
+    }
+  }
+
+  /**
+   * Email the hosted invoice link to the customer
+   */
+  private async deliver(invoice: Invoice, merchant: Merchant, options: { required?: boolean } = {}): Promise<void> {
+    const customer = invoice.customer_id
+      ? await db.findById<Customer>('customers', invoice.customer_id)
+      : null;
+
+    if (!customer?.email) {
+      if (options.required) {
+        throw new AppError('Customer has no email address', 400, 'CUSTOMER_EMAIL_REQUIRED');
+      }
+      return;
+    }
+
+    await emailService.sendInvoiceEmail({
+      to: customer.email,
+      merchantName: merchant.branding?.merchant_display_name || merchant.business_name,
+      invoiceNumber: invoice.number,
+      amountDue: formatAmount(invoice.amount_due, invoice.currency),
+      dueDate: invoice.due_date || null,
+      hostedInvoiceUrl: this.getHostedInvoiceUrl(invoice),
+    });
+
+    const sent = await db.update<Invoice>('invoices', invoice.id, { sent_at: new Date().toISOString() });
+
+    await this.sendEvent('invoice.sent', sent);
+  }
+
+  private async renderPdf(invoice: Invoice): Promise<{ filename: string; pdf: Buffer }> {
+    const lines = await this.getLineItems(invoice.id);
+    const merchant = await db.findById<Merchant>('merchants', invoice.merchant_id);
+    const customer = invoice.customer_id
+      ? await db.findById<Customer>('customers', invoice.customer_id)
+      : null;
+
+    const pdf = renderInvoicePdf({
+      merchant_name: merchant.branding?.merchant_display_name || merchant.business_name,
+      number: invoice.number || null,
+      status: invoice.status,
+      currency: invoice.currency,
+      issued_at: invoice.finalized_at || invoice.created_at || null,
+      due_date: invoice.due_date || null,
+      customer_name: customer?.name || null,
+      customer_email: customer?.email || null,
+      description: invoice.description || null,
+      footer: invoice.footer || null,
+      lines,
+      subtotal: invoice.subtotal,
+      discounts: (invoice.discounts || []).map((discount) => ({ description: discount.description, amount: discount.amount || 0 })),
+      tax_lines: (invoice.tax_lines || []).map((tax) => ({ ...tax, amount: tax.amount || 0 })),
+      total: invoice.total,
+      amount_paid: invoice.amount_paid,
+      amount_due: invoice.amount_due,
+      hosted_invoice_url: this.getHostedInvoiceUrl(invoice),
+    });
+
+    return { filename: `${invoice.number || `invoice-${invoice.id}`}.pdf`, pdf };
+  }
+
+  private async getInvoiceWithLines(invoiceId: string): Promise<InvoiceWithLines> {
+    const invoice = await db.findById<Invoice>('invoices', invoiceId);
+    const lines = await this.getLineItems(invoiceId);
+
+    return { ...invoice, lines, hosted_invoice_url: this.getHostedInvoiceUrl(invoice) };
+  }
+
+  private async findByHostedToken(token: string): Promise<Invoice> {
+    const invoice = await db.findOne<Invoice>('invoices', { hosted_token: token });
+
+    if (!invoice || invoice.status === 'draft') {
+      throw new AppError('Invoice not found', 404, 'INVOICE_NOT_FOUND');
+    }
+
+    return invoice;
+  }
+
+  private getHostedInvoiceUrl(invoice: Invoice): string | null {
+    if (!invoice.hosted_token) {
+      return null;
+    }
+
+    return `${process.env.API_URL || 'http://localhost:3000'}/invoice/${invoice.hosted_token}`;
+  }
+
+  private resolveDueDate(
+    collectionMethod: CollectionMethod,
+    data: { due_date?: string | null; days_until_due?: number }
+  ): string | null {
+    if (data.due_date) {
+      return data.due_date;
+    }
+
+    // Charged invoices are due when finalized
+    if (collectionMethod === 'charge_automatically' && data.days_until_due === undefined) {
+      return null;
+    }
+
+    const days = data.days_until_due ?? DEFAULT_DAYS_UNTIL_DUE;
+    return new Date(Date.now() + days * 24 * 60 * 60 * 1000).toISOString();
+  }
+
+  private assertStatus(invoice: Invoice, allowed: InvoiceStatus[], action: string): void {
+    if (!allowed.includes(invoice.status)) {
+      throw new AppError(`Cannot ${action} an invoice that is ${invoice.status}`, 400, 'INVALID_INVOICE_STATUS');
+    }
+  }
+
+  private async insertLineItem(invoice: Invoice, line: LineItemInput): Promise<InvoiceLineItem> {
+    return db.insert<InvoiceLineItem>('invoice_line_items', {
+      invoice_id: invoice.id,
+      merchant_id: invoice.merchant_id,
+      subscription_id: invoice.subscription_id || null,
+      ...this.lineItemFields(line),
+      currency: invoice.currency,
+    });
+  }
+
+  private lineItemFields(line: LineItemInput): Partial<InvoiceLineItem> {
+    const quantity = line.quantity || 1;
+
+    return {
+      plan_id: line.plan_id || null,
+      description: line.description,
+      quantity,
+      unit_amount: line.unit_amount ?? null,
+      amount: line.amount ?? quantity * (line.unit_amount || 0),
+      proration: line.proration || false,
+      period_start: line.period_start || null,
+      period_end: line.period_end || null,
+    };
+  }
+
+  private async sendEvent(eventType: string, invoice: Invoice): Promise<void> {
+    await merchantWebhooksService.send(invoice.merchant_id, eventType, {
+      invoice_id: invoice.id,
+      number: invoice.number,
+      customer_id: invoice.customer_id,
+      subscription_id: invoice.subscription_id,
+      status: invoice.status,
+      currency: invoice.currency,
+      total: invoice.total,
+      amount_due: invoice.amount_due,
+      amount_paid: invoice.amount_paid,
+      due_date: invoice.due_date,
+      hosted_invoice_url: this.getHostedInvoiceUrl(invoice),
+    });
+  }
+}
+
+export default new InvoicesService();
@@ -0,0 +1,140 @@
+import Bull from 'bull';
+import { FailedJob, Job, JobDriver, JobHandler, JobOptions, QueueOptions, QueueStats } from './jobDriver';
+
+// Finished jobs kept in Redis for the admin stats
+const KEEP_COMPLETED = 100;
+const KEEP_FAILED = 500;
+
+/**
+ * Bull (Redis) job driver
+ */
+class BullDriver implements JobDriver {
+  readonly name = 'bull' as const;
+
+  private readonly queues = new Map<string, Bull.Queue>();
+
+  process<T>(queue: string, handler: JobHandler<T>, options: QueueOptions): void {
+    const bullQueue = this.getQueue(queue);
+
+    bullQueue.process(options.concurrency || 1, (bullJob: Bull.Job<T>) => handler(this.toJob(queue, bullJob)));
+
+    bullQueue.on('failed', (bullJob: Bull.Job<T>, error: Error) => {
+      const attempts = bullJob.opts.attempts || 1;
+      console.error(`Job ${queue}#${bullJob.id} failed (attempt ${bullJob.attemptsMade}/${attempts}):`, error.message);
+
+      if (options.onFailed && bullJob.attemptsMade >= attempts) {
+        options.onFailed(this.toJob(queue, bullJob, bullJob.attemptsMade), error).catch((hookError) => {
+          console.error(`Failed job hook for ${queue} errored:`, hookError.message);
+        });
+      }
+    });
+  }
+
+  async add<T>(queue: string, data: T, options: JobOptions): Promise<string> {
+    const bullJob = await this.getQueue(queue).add(data, this.toBullOptions(options));
+    return String(bullJob.id);
+  }
+
+  async schedule<T>(queue: string, cron: string, data: T, options: JobOptions): Promise<void> {
+    const bullQueue = this.getQueue(queue);
+
+    // Repeatable jobs persist in Redis, so drop schedules left by a previous cron expression
+    const existing = await bullQueue.getRepeatableJobs();
+    for (const repeatable of existing) {
+      if (repeatable.cron !== cron) {
+        await bullQueue.removeRepeatableByKey(repeatable.key);
+      }
+    }
+
+    await bullQueue.add(data, {
+      ...this.toBullOptions(options),
+      repeat: { cron, tz: 'UTC' },
+    });
+  }
+
+  async getStats(queue: string): Promise<QueueStats> {
+    const counts = await this.getQueue(queue).getJobCounts();
+
+    return {
+      queue,
+      waiting: counts.waiting,
+      active: counts.active,
+      delayed: counts.delayed,
+      completed: counts.completed,
+      failed: counts.failed,
+    };
+  }
+
+  async getFailed(queue: string, limit: number): Promise<FailedJob[]> {
+    const jobs = await this.getQueue(queue).getFailed(0, limit - 1);
+
+    return jobs.filter(Boolean).map((bullJob) => ({
+      id: String(bullJob.id),
+      queue,
+      data: bullJob.data,
+      attempts_made: bullJob.attemptsMade,
+      failed_reason: bullJob.failedReason || null,
+      created_at: bullJob.timestamp ? new Date(bullJob.timestamp).toISOString() : null,
+      failed_at: bullJob.finishedOn ? new Date(bullJob.finishedOn).toISOString() : null,
+    }));
+  }
+
+  async close(timeoutMs: number): Promise<void> {
+    const closing = Promise.all(Array.from(this.queues.values()).map((bullQueue) => bullQueue.close()));
+    let timer: NodeJS.Timeout;
+
+    // Queue.close waits for active jobs; give up on them after the timeout
+    await Promise.race([
+      closing,
+      new Promise<void>((resolve) => {
+        timer = setTimeout(() => {
+          console.error(`Job queues did not drain within ${timeoutMs}ms`);
+          resolve();
+        }, timeoutMs);
+      }),
+    ]);
+
+    clearTimeout(timer!);
+    this.queues.clear();
+  }
+
+  private getQueue(queue: string): Bull.Queue {
+    let bullQueue = this.queues.get(queue);
+
+    if (!bullQueue) {
+      bullQueue = new Bull(queue, process.env.REDIS_URL || 'redis://127.0.0.1:6379');
+      bullQueue.on('error', (error) => {
+        console.error(`Job queue ${queue} error:`, error.message);
+      });
+      this.queues.set(queue, bullQueue);
+    }
+
+    return bullQueue;
+  }
+
+  private toBullOptions(options: JobOptions): Bull.JobOptions {
+    return {
+      attempts: options.attempts || 1,
+      ...(options.backoff && { backoff: { type: 'exponential', delay: options.backoff } }),
+      ...(options.delay && { delay: options.delay }),
+      ...(options.jobId && { jobId: options.jobId }),
+      removeOnComplete: KEEP_COMPLETED,
+      removeOnFail: KEEP_FAILED,
+    };
+  }
+
+  // attemptsMade counts finished attempts, so a running job is on the next one
+  private toJob<T>(queue: string, bullJob: Bull.Job<T>, attempt = bullJob.attemptsMade + 1): Job<T> {
+    return {
+      id: String(bullJob.id),
+      queue,
+      data: bullJob.data,
+      attempt,
+      progress: async (percent: number) => {
+        await bullJob.progress(percent);
+      },
+    };
+  }
+}
+
+export default new BullDriver();
@@ -0,0 +1,133 @@
+import bullDriver from './bull.driver';
+import memoryDriver from './memory.driver';
+import { FailedJob, JobDriver, JobHandler, JobOptions, QueueOptions, QueueStats } from './jobDriver';
+
+export type { Job, JobHandler, JobOptions, QueueStats, FailedJob } from './jobDriver';
+
+/**
+ * Named queues
+ */
+export const JOB_QUEUES = {
+  merchantWebhooks: 'merchant-webhooks',
+  merchantWebhookRequeue: 'merchant-webhook-requeue',
+  emails: 'emails',
+  batches: 'batches',
+  paymentSplits: 'payment-splits',
+  subscriptionBilling: 'subscription-billing',
+  idempotencyCleanup: 'idempotency-cleanup',
+  notificationCleanup: 'notification-cleanup',
+  reviewSla: 'review-sla',
+  ledgerReconciliation: 'ledger-reconciliation',
+  reserveRelease: 'reserve-release',
+  scheduledPayouts: 'scheduled-payouts',
+} as const;
+
+export type JobQueueName = typeof JOB_QUEUES[keyof typeof JOB_QUEUES];
+
+interface QueueDefinition {
+  handler: JobHandler;
+  options: QueueOptions;
+  // Defaults for jobs added to the queue
+  jobOptions: JobOptions;
+  cron?: string;
+}
+
+interface DefineQueueOptions extends QueueOptions, JobOptions {
+  // Run the queue on a five-field cron expression (UTC)
+  cron?: string;
+}
+
+export interface QueueOverview extends QueueStats {
+  recent_failures: FailedJob[];
+}
+
+const RECENT_FAILURES_LIMIT = 20;
+
+/**
+ * Background jobs
+ * Queues are defined with their handler (see ./queues) and processed once
+ * start() runs; enqueue() works from any process sharing the driver's backend.
+ * JOB_DRIVER selects the driver: "bull" (Redis, default) or "memory" (default under NODE_ENV=test).
+ */
+class JobsService {
+  private readonly definitions = new Map<string, QueueDefinition>();
+  private driver: JobDriver | null = null;
+  private started = false;
+
+  /**
+   * Define a queue and the handler that processes its jobs
+   */
+  define<T>(queue: JobQueueName, handler: JobHandler<T>, options: DefineQueueOptions = {}): void {
+    const { concurrency, onFailed, cron, ...jobOptions } = options;
+
+    this.definitions.set(queue, {
+      handler,
+      options: { concurrency, onFailed },
+      jobOptions,
+      cron,
+    });
+  }
+
+  /**
+   * Add a job; options override the queue's defaults
+   */
+  async enqueue<T>(queue: JobQueueName, data: T, options: JobOptions = {}): Promise<string> {
+    const definition = this.definitions.get(queue);
+
+    return this.getDriver().add(queue, data, { ...definition?.jobOptions, ...options });
+  }
+
+  /**
+   * Start processing defined queues and register their cron schedules
+   */
+  async start(): Promise<void> {
+    if (this.started) {
+      return;
+    }
+    this.started = true;
+
+    const driver = this.getDriver();
+
+    for (const [queue, definition] of this.definitions) {
+      driver.process(queue, definition.handler, definition.options);
+
+      if (definition.cron) {
+        await driver.schedule(queue, definition.cron, {}, definition.jobOptions);
+      }
+    }
+
+    console.log(`✅ Job queues started (${driver.name} driver): ${Array.from(this.definitions.keys()).join(', ')}`);
+  }
+
+  /**
+   * Queue depth and recent failures for every defined queue
+   */
+  async getOverview(): Promise<QueueOverview[]> {
+    const driver = this.getDriver();
+
+    return Promise.all(Array.from(this.definitions.keys()).map(async (queue) => ({
+      ...(await driver.getStats(queue)),
+      recent_failures: await driver.getFailed(queue, RECENT_FAILURES_LIMIT),
+    })));
+  }
+
+  /**
+   * Stop taking jobs and let active ones finish
+   */
+  async shutdown(timeoutMs = 8000): Promise<void> {
+    if (this.driver) {
+      await this.driver.close(timeoutMs);
+    }
+  }
+
+  private getDriver(): JobDriver {
+    if (!this.driver) {
+      const name = process.env.JOB_DRIVER || (process.env.NODE_ENV === 'test' ? 'memory' : 'bull');
+      this.driver = name === 'memory' ? memoryDriver : bullDriver;
+    }
+
+    return this.driver;
+  }
+}
+
+export default new JobsService();
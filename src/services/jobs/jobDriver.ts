@@ -0,0 +1,68 @@
+export type JobDriverName = 'bull' | 'memory';
+
+export interface JobOptions {
+  // Total attempts including the first run
+  attempts?: number;
+  // Base delay in ms for exponential backoff between attempts
+  backoff?: number;
+  // Delay in ms before the first run
+  delay?: number;
+  // Deduplicates jobs: a job with the same ID is not queued twice
+  jobId?: string;
+}
+
+export interface Job<T = any> {
+  id: string;
+  queue: string;
+  data: T;
+  // 1-based attempt number of the current run
+  attempt: number;
+  progress(percent: number): Promise<void>;
+}
+
+export type JobHandler<T = any> = (job: Job<T>) => Promise<void>;
+
+export interface QueueOptions {
+  concurrency?: number;
+  // Called once a job has failed its last attempt
+  onFailed?: (job: Job, error: Error) => Promise<void>;
+}
+
+export interface QueueStats {
+  queue: string;
+  waiting: number;
+  active: number;
+  delayed: number;
+  completed: number;
+  failed: number;
+}
+
+export interface FailedJob {
+  id: string;
+  queue: string;
+  data: any;
+  attempts_made: number;
+  failed_reason: string | null;
+  created_at: string | null;
+  failed_at: string | null;
+}
+
+/**
+ * Job driver interface
+ * Bull runs queues on Redis and shares them across processes; the in-memory
+ * driver runs them in this process (tests, local development without Redis).
+ */
+export interface JobDriver {
+  readonly name: JobDriverName;
+
+  process<T>(queue: string, handler: JobHandler<T>, options: QueueOptions): void;
+  add<T>(queue: string, data: T, options: JobOptions): Promise<string>;
+  // Repeat a job on a five-field cron expression (UTC); replaces any previous schedule for the queue
+  schedule<T>(queue: string, cron: string, data: T, options: JobOptions): Promise<void>;
+
+  getStats(queue: string): Promise<QueueStats>;
+  getFailed(queue: string, limit: number): Promise<FailedJob[]>;
+
+  // Stop taking jobs and wait up to timeoutMs for active ones to finish
+  close(timeoutMs: number): Promise<void>;
+}
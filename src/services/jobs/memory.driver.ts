@@ -0,0 +1,247 @@
+import { FailedJob, Job, JobDriver, JobHandler, JobOptions, QueueOptions, QueueStats } from './jobDriver';
+import { matchesCron, parseCron } from '../../utils/cron';
+
+interface MemoryJob {
+  id: string;
+  data: any;
+  options: JobOptions;
+  attemptsMade: number;
+  createdAt: Date;
+  failedReason?: string;
+  failedAt?: Date;
+}
+
+interface MemoryQueue {
+  handler: JobHandler | null;
+  options: QueueOptions;
+  waiting: MemoryJob[];
+  active: Map<string, MemoryJob>;
+  delayed: Map<string, { job: MemoryJob; timer: NodeJS.Timeout }>;
+  failed: MemoryJob[];
+  completed: number;
+}
+
+interface MemorySchedule {
+  cron: ReturnType<typeof parseCron>;
+  data: any;
+  options: JobOptions;
+  lastRun: string | null;
+}
+
+const KEEP_FAILED = 500;
+// Cron schedules are checked a few times a minute and fire once per matching minute
+const SCHEDULE_TICK_MS = 15000;
+
+/**
+ * In-process job driver
+ * Same semantics as Bull (attempts, exponential backoff, job ID dedupe, cron)
+ * without Redis; jobs do not survive a restart.
+ */
+class MemoryDriver implements JobDriver {
+  readonly name = 'memory' as const;
+
+  private readonly queues = new Map<string, MemoryQueue>();
+  private readonly schedules = new Map<string, MemorySchedule>();
+  private scheduleTimer: NodeJS.Timeout | null = null;
+  private nextId = 1;
+  private closing = false;
+
+  process<T>(queue: string, handler: JobHandler<T>, options: QueueOptions): void {
+    const memoryQueue = this.getQueue(queue);
+    memoryQueue.handler = handler;
+    memoryQueue.options = options;
+
+    this.pump(queue);
+  }
+
+  async add<T>(queue: string, data: T, options: JobOptions): Promise<string> {
+    const memoryQueue = this.getQueue(queue);
+
+    if (options.jobId && this.findJob(memoryQueue, options.jobId)) {
+      return options.jobId;
+    }
+
+    const job: MemoryJob = {
+      id: options.jobId || String(this.nextId++),
+      data,
+      options,
+      attemptsMade: 0,
+      createdAt: new Date(),
+    };
+
+    if (options.delay) {
+      this.delay(queue, job, options.delay);
+    } else {
+      memoryQueue.waiting.push(job);
+      this.pump(queue);
+    }
+
+    return job.id;
+  }
+
+  async schedule<T>(queue: string, cron: string, data: T, options: JobOptions): Promise<void> {
+    this.schedules.set(queue, { cron: parseCron(cron), data, options, lastRun: null });
+
+    if (!this.scheduleTimer) {
+      this.scheduleTimer = setInterval(() => this.runSchedules(), SCHEDULE_TICK_MS);
+      this.scheduleTimer.unref();
+    }
+  }
+
+  async getStats(queue: string): Promise<QueueStats> {
+    const memoryQueue = this.getQueue(queue);
+
+    return {
+      queue,
+      waiting: memoryQueue.waiting.length,
+      active: memoryQueue.active.size,
+      delayed: memoryQueue.delayed.size,
+      completed: memoryQueue.completed,
+      failed: memoryQueue.failed.length,
+    };
+  }
+
+  async getFailed(queue: string, limit: number): Promise<FailedJob[]> {
+    return this.getQueue(queue).failed.slice(0, limit).map((job) => ({
+      id: job.id,
+      queue,
+      data: job.data,
+      attempts_made: job.attemptsMade,
+      failed_reason: job.failedReason || null,
+      created_at: job.createdAt.toISOString(),
+      failed_at: job.failedAt ? job.failedAt.toISOString() : null,
+    }));
+  }
+
+  async close(timeoutMs: number): Promise<void> {
+    this.closing = true;
+
+    if (this.scheduleTimer) {
+      clearInterval(this.scheduleTimer);
+      this.scheduleTimer = null;
+    }
+
+    for (const memoryQueue of this.queues.values()) {
+      for (const { timer } of memoryQueue.delayed.values()) {
+        clearTimeout(timer);
+      }
+      memoryQueue.delayed.clear();
+    }
+
+    const deadline = Date.now() + timeoutMs;
+    while (Array.from(this.queues.values()).some((memoryQueue) => memoryQueue.active.size > 0)) {
+      if (Date.now() >= deadline) {
+        console.error(`Job queues did not drain within ${timeoutMs}ms`);
+        break;
+      }
+      await new Promise((resolve) => setTimeout(resolve, 50));
+    }
+  }
+
+  private pump(queue: string): void {
+    const memoryQueue = this.getQueue(queue);
+    const concurrency = memoryQueue.options.concurrency || 1;
+
+    while (!this.closing && memoryQueue.handler && memoryQueue.active.size < concurrency && memoryQueue.waiting.length > 0) {
+      const job = memoryQueue.waiting.shift()!;
+      memoryQueue.active.set(job.id, job);
+      void this.run(queue, memoryQueue, job);
+    }
+  }
+
+  private async run(queue: string, memoryQueue: MemoryQueue, job: MemoryJob): Promise<void> {
+    const context: Job = {
+      id: job.id,
+      queue,
+      data: job.data,
+      attempt: job.attemptsMade + 1,
+      progress: async () => undefined,
+    };
+
+    try {
+      await memoryQueue.handler!(context);
+      job.attemptsMade++;
+      memoryQueue.completed++;
+    } catch (error: any) {
+      job.attemptsMade++;
+      const attempts = job.options.attempts || 1;
+      console.error(`Job ${queue}#${job.id} failed (attempt ${job.attemptsMade}/${attempts}):`, error.message);
+
+      if (job.attemptsMade < attempts && !this.closing) {
+        const backoff = job.options.backoff ? job.options.backoff * 2 ** (job.attemptsMade - 1) : 0;
+        memoryQueue.active.delete(job.id);
+        this.delay(queue, job, backoff);
+        this.pump(queue);
+        return;
+      }
+
+      job.failedReason = error.message;
+      job.failedAt = new Date();
+      memoryQueue.failed.unshift(job);
+      memoryQueue.failed.length = Math.min(memoryQueue.failed.length, KEEP_FAILED);
+
+      if (memoryQueue.options.onFailed) {
+        await memoryQueue.options.onFailed({ ...context, attempt: job.attemptsMade }, error).catch((hookError) => {
+          console.error(`Failed job hook for ${queue} errored:`, hookError.message);
+        });
+      }
+    }
+
+    memoryQueue.active.delete(job.id);
+    this.pump(queue);
+  }
+
+  private delay(queue: string, job: MemoryJob, ms: number): void {
+    const memoryQueue = this.getQueue(queue);
+
+    const timer = setTimeout(() => {
+      memoryQueue.delayed.delete(job.id);
+      memoryQueue.waiting.push(job);
+      this.pump(queue);
+    }, ms);
+    timer.unref();
+
+    memoryQueue.delayed.set(job.id, { job, timer });
+  }
+
+  private runSchedules(): void {
+    const now = new Date();
+    const minute = now.toISOString().slice(0, 16);
+
+    for (const [queue, schedule] of this.schedules) {
+      if (schedule.lastRun !== minute && matchesCron(schedule.cron, now)) {
+        schedule.lastRun = minute;
+        this.add(queue, schedule.data, schedule.options).catch((error) => {
+          console.error(`Failed to queue scheduled job ${queue}:`, error.message);
+        });
+      }
+    }
+  }
+
+  private findJob(memoryQueue: MemoryQueue, jobId: string): MemoryJob | undefined {
+    return memoryQueue.active.get(jobId)
+      || memoryQueue.delayed.get(jobId)?.job
+      || memoryQueue.waiting.find((job) => job.id === jobId);
+  }
+
+  private getQueue(queue: string): MemoryQueue {
+    let memoryQueue = this.queues.get(queue);
+
+    if (!memoryQueue) {
+      memoryQueue = {
+        handler: null,
+        options: {},
+        waiting: [],
+        active: new Map(),
+        delayed: new Map(),
+        failed: [],
+        completed: 0,
+      };
+      this.queues.set(queue, memoryQueue);
+    }
+
+    return memoryQueue;
+  }
+}
+
+export default new MemoryDriver();
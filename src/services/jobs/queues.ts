@@ -0,0 +1,113 @@
+import jobs, { Job, JOB_QUEUES } from './index';
+import merchantWebhooksService, { MERCHANT_WEBHOOK_MAX_ATTEMPTS } from '../merchantWebhooks.service';
+import emailService, { EmailMessage } from '../email.service';
+import batchesService, { BatchJobData } from '../batches.service';
+import splitsService, { SplitJobData } from '../splits.service';
+import subscriptionsService from '../subscriptions.service';
+import idempotencyService from '../idempotency.service';
+import notificationService from '../notification.service';
+import reviewsService from '../reviews.service';
+import reconciliationService from '../reconciliation';
+import reservesService from '../reserves.service';
+import payoutsService from '../payouts.service';
+
+/**
+ * Define every queue with its handler, retry policy and schedule
+ * Called once at startup, before jobs.start().
+ */
+export function registerQueues(): void {
+  jobs.define(
+    JOB_QUEUES.merchantWebhooks,
+    (job: Job<{ webhook_id: string }>) => merchantWebhooksService.deliver(job.data.webhook_id),
+    { concurrency: 5, attempts: MERCHANT_WEBHOOK_MAX_ATTEMPTS, backoff: 10000 }
+  );
+
+  jobs.define(
+    JOB_QUEUES.emails,
+    (job: Job<EmailMessage>) => emailService.deliverEmail(job.data),
+    { concurrency: 5, attempts: 5, backoff: 30000 }
+  );
+
+  jobs.define(
+    JOB_QUEUES.batches,
+    (job: Job<BatchJobData>) => batchesService.processBatch(job),
+    {
+      attempts: 3,
+      backoff: 5000,
+      onFailed: (job: Job<BatchJobData>, error) => batchesService.handleJobFailed(job.data, error),
+    }
+  );
+
+  // Transfers wait on the platform's available balance, so retries are spread over hours
+  jobs.define(
+    JOB_QUEUES.paymentSplits,
+    (job: Job<SplitJobData>) => splitsService.processJob(job.data),
+    {
+      attempts: 8,
+      backoff: 10 * 60 * 1000,
+      onFailed: (job: Job<SplitJobData>, error) => splitsService.handleJobFailed(job.data, error),
+    }
+  );
+
+  // Cron jobs (UTC); concurrency 1 per queue keeps runs from overlapping across processes
+  jobs.define(
+    JOB_QUEUES.subscriptionBilling,
+    async () => {
+      await subscriptionsService.runBilling();
+    },
+    { cron: process.env.SUBSCRIPTION_BILLING_CRON || '0 * * * *' }
+  );
+
+  jobs.define(
+    JOB_QUEUES.merchantWebhookRequeue,
+    async () => {
+      await merchantWebhooksService.requeueStalePending();
+    },
+    { cron: '*/5 * * * *' }
+  );
+
+  jobs.define(
+    JOB_QUEUES.idempotencyCleanup,
+    () => idempotencyService.deleteExpiredKeys(),
+    { cron: '0 * * * *' }
+  );
+
+  jobs.define(
+    JOB_QUEUES.notificationCleanup,
+    () => notificationService.deleteOldNotifications(30),
+    { cron: '0 3 * * *' }
+  );
+
+  jobs.define(
+    JOB_QUEUES.reviewSla,
+    async () => {
+      await reviewsService.flagBreachedSlas();
+    },
+    { cron: '*/5 * * * *' }
+  );
+
+  jobs.define(
+    JOB_QUEUES.ledgerReconciliation,
+    async () => {
+      await reconciliationService.runScheduled();
+    },
+    { cron: process.env.RECONCILIATION_CRON || '0 4 * * *' }
+  );
+
+  jobs.define(
+    JOB_QUEUES.reserveRelease,
+    async () => {
+      await reservesService.releaseMatured();
+    },
+    { cron: '15 * * * *' }
+  );
+
+  // After the reserve release, so matured reserves are included
+  jobs.define(
+    JOB_QUEUES.scheduledPayouts,
+    async () => {
+      await payoutsService.runScheduled();
+    },
+    { cron: process.env.PAYOUT_CRON || '30 6 * * *' }
+  );
+}
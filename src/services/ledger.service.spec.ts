@@ -0,0 +1,192 @@
+import { describe, it, expect, beforeEach, mock } from 'bun:test';
+import { fakeSupabase } from '../test/fakeSupabase';
+import { installFakeLedger, ledgerBalance } from '../test/fakeLedger';
+import { fakeProcessor, fakeProcessorsModule } from '../test/fakeProcessor';
+
+mock.module('@supabase/supabase-js', () => ({ createClient: () => fakeSupabase.client }));
+mock.module('./processors', () => fakeProcessorsModule);
+mock.module('./merchantWebhooks.service', () => ({ default: { send: async () => {} } }));
+
+const { default: ledgerService } = await import('./ledger.service');
+const { default: refundsService } = await import('./refunds.service');
+
+installFakeLedger(fakeSupabase);
+
+const MERCHANT_ID = 'merchant_1';
+
+const balance = (type: string, merchantId: string | null = MERCHANT_ID) => ledgerBalance(fakeSupabase, merchantId, type);
+
+describe('LedgerService', () => {
+  beforeEach(() => {
+    fakeSupabase.reset();
+    fakeSupabase.seed('merchants', [{ id: MERCHANT_ID, default_currency: 'USD' }]);
+  });
+
+  it('rejects journals whose postings do not sum to zero', async () => {
+    await expect(ledgerService.postJournal(MERCHANT_ID, {
+      source: 'adjustment',
+      description: 'Unbalanced',
+      currency: 'USD',
+      postings: [
+        { account: 'merchant_available', amount: 1000 },
+        { account: 'processor_clearing', amount: -900 },
+      ],
+    })).rejects.toMatchObject({ code: 'LEDGER_UNBALANCED' });
+
+    await expect(ledgerService.postJournal(MERCHANT_ID, {
+      source: 'adjustment',
+      description: 'One-sided',
+      currency: 'USD',
+      postings: [{ account: 'merchant_available', amount: 1000 }],
+    })).rejects.toMatchObject({ code: 'LEDGER_UNBALANCED' });
+
+    expect(fakeSupabase.rows('ledger_journals')).toHaveLength(0);
+  });
+
+  it('derives balances from the postings of balanced journals', async () => {
+    await ledgerService.postJournal(MERCHANT_ID, {
+      source: 'payment',
+      description: 'Payment pi_1',
+      currency: 'usd',
+      postings: [
+        { account: 'processor_clearing', amount: -1000 },
+        { account: 'merchant_pending', amount: 900 },
+        { account: 'merchant_reserve', amount: 100 },
+      ],
+    });
+    await ledgerService.move(MERCHANT_ID, {
+      from: 'merchant_pending',
+      to: 'merchant_available',
+      amount: 900,
+      currency: 'USD',
+      source: 'release',
+      description: 'Funds released',
+    });
+
+    expect(await ledgerService.getBalance(MERCHANT_ID)).toEqual({
+      available: 900,
+      pending: 0,
+      reserve: 100,
+      currency: 'USD',
+    });
+    expect(balance('processor_clearing')).toBe(-1000);
+
+    const total = fakeSupabase.rows('ledger_postings').reduce((sum, posting) => sum + posting.amount, 0);
+    expect(total).toBe(0);
+  });
+
+  it('posts a journal once per idempotency key', async () => {
+    const journal = {
+      source: 'adjustment' as const,
+      description: 'Credit',
+      currency: 'USD',
+      postings: [
+        { account: 'processor_clearing' as const, amount: -500 },
+        { account: 'merchant_available' as const, amount: 500 },
+      ],
+      idempotency_key: 'adjustment_1',
+    };
+
+    const first = await ledgerService.postJournal(MERCHANT_ID, journal);
+    const repeat = await ledgerService.postJournal(MERCHANT_ID, journal);
+
+    expect(repeat).toEqual({ journal_id: first.journal_id, duplicate: true });
+    expect(balance('merchant_available')).toBe(500);
+    expect((await ledgerService.findJournal(MERCHANT_ID, 'adjustment_1'))?.amount).toBe(500);
+  });
+
+  it('keeps platform fees on a platform account', async () => {
+    await ledgerService.move(MERCHANT_ID, {
+      from: 'platform_fees',
+      to: 'merchant_available',
+      amount: 30,
+      currency: 'USD',
+      source: 'refund',
+      description: 'Platform fee returned',
+    });
+
+    expect(balance('platform_fees', null)).toBe(-30);
+    expect(balance('merchant_available')).toBe(30);
+  });
+});
+
+describe('RefundsService ledger postings', () => {
+  const transaction = {
+    id: 'txn_1',
+    merchant_id: MERCHANT_ID,
+    amount: 1000,
+    currency: 'USD',
+    status: 'succeeded',
+    processor: 'stripe',
+    stripe_charge_id: 'ch_1',
+    platform_fee: 60,
+    refunded_amount: 400,
+  };
+
+  const seedRefund = (id: string, amount: number, status = 'pending') =>
+    fakeSupabase.seed('refunds', [{
+      id,
+      transaction_id: transaction.id,
+      merchant_id: MERCHANT_ID,
+      amount,
+      stripe_refund_id: `re_${id}`,
+      status,
+    }])[0];
+
+  const settle = (id: string, status: 'succeeded' | 'failed') =>
+    refundsService.handleRefundUpdated({ id: `re_${id}`, status } as any);
+
+  beforeEach(() => {
+    fakeSupabase.reset();
+    fakeProcessor.reset();
+    process.env.REFUND_APPLICATION_FEE_POLICY = 'proportional';
+    fakeSupabase.seed('merchants', [{ id: MERCHANT_ID, default_currency: 'USD', stripe_account_id: 'acct_1' }]);
+    fakeSupabase.seed('transactions', [{ ...transaction }]);
+  });
+
+  it('debits a settled refund and returns its share of the platform fee', async () => {
+    seedRefund('r1', 400);
+
+    await settle('r1', 'succeeded');
+
+    expect(balance('merchant_available')).toBe(-400 + 24);
+    expect(balance('processor_clearing')).toBe(400);
+    expect(balance('platform_fees', null)).toBe(-24);
+
+    const keys = fakeSupabase.rows('ledger_journals').map((journal) => journal.idempotency_key);
+    expect(keys).toEqual(['refund_r1', 'refund_fee_r1']);
+    expect(fakeProcessor.callsTo('refundApplicationFee')).toHaveLength(1);
+  });
+
+  it('posts nothing new when the refund settles again', async () => {
+    seedRefund('r1', 400);
+
+    await settle('r1', 'succeeded');
+    await refundsService.handleSucceeded(fakeSupabase.rows('refunds')[0] as any);
+
+    expect(fakeSupabase.rows('ledger_journals')).toHaveLength(2);
+    expect(balance('merchant_available')).toBe(-376);
+  });
+
+  it('credits the debit back when a settled refund fails, keeping the returned fee', async () => {
+    seedRefund('r1', 400);
+
+    await settle('r1', 'succeeded');
+    await settle('r1', 'failed');
+
+    expect(balance('merchant_available')).toBe(24);
+    expect(balance('processor_clearing')).toBe(0);
+    expect(fakeSupabase.rows('ledger_journals').map((journal) => journal.idempotency_key))
+      .toEqual(['refund_r1', 'refund_fee_r1', 'refund_reversal_r1']);
+  });
+
+  it('keeps sandbox refunds out of the ledger', async () => {
+    fakeSupabase.rows('transactions')[0].processor = 'simulator';
+    seedRefund('r1', 400);
+
+    await settle('r1', 'succeeded');
+
+    expect(fakeSupabase.rows('ledger_journals')).toHaveLength(0);
+    expect(fakeSupabase.rows('refunds')[0].status).toBe('succeeded');
+  });
+});
@@ -1,92 +1,345 @@
 import db from './database.service';
 import { AppError } from '../middleware/errorHandler';
 import posthogService from './posthog.service';
+import { toCsvRow } from '../utils/csv';
 
+export type LedgerAccountType =
+  | 'merchant_available'
+  | 'merchant_pending'
+  | 'merchant_reserve'
+  | 'processor_clearing'
+  | 'platform_fees';
+
+export type LedgerJournalSource =
+  | 'payment'
+  | 'refund'
+  | 'dispute'
+  | 'split'
+  | 'payout'
+  | 'release'
+  | 'reserve'
+  | 'adjustment';
+
+export interface LedgerAccount {
+  id: string;
+  merchant_id: string | null;
+  type: LedgerAccountType;
+  currency: string;
+  created_at: string;
+}
+
+export interface LedgerJournal {
+  id: string;
+  merchant_id: string;
+  source: LedgerJournalSource;
+  description?: string;
+  currency: string;
+  // Sum of the positive postings
+  amount: number;
+  metadata?: any;
+  idempotency_key?: string | null;
+  created_at: string;
+}
+
+export interface LedgerPosting {
+  id: string;
+  journal_id: string;
+  account_id: string;
+  // Signed: an account's balance is the sum of its postings
+  amount: number;
+  created_at: string;
+}
+
+export interface LedgerEntryLinks {
+  transaction_id?: string;
+  refund_id?: string;
+  dispute_id?: string;
+  transfer_id?: string;
+  split_id?: string;
+}
+
+// A posting on one of the merchant's own accounts (merchant_ledger_entries)
 export interface LedgerEntry {
   id: string;
+  journal_id: string;
   merchant_id: string;
+  account: LedgerAccountType;
+  status: 'available' | 'pending' | 'reserve';
   type: 'credit' | 'debit';
   amount: number;
   currency: string;
+  // Balance of the account after this entry
+  running_balance: number;
+  source: LedgerJournalSource;
   description?: string;
-  status: 'pending' | 'available' | 'failed';
   metadata?: any;
+  links: LedgerEntryLinks;
   created_at: string;
 }
 
+export interface LedgerEntryFilters {
+  start_date?: string;
+  end_date?: string;
+  type?: LedgerEntry['type'];
+  status?: LedgerEntry['status'];
+  source?: LedgerJournalSource;
+  currency?: string;
+}
+
+interface ListEntriesOptions extends LedgerEntryFilters {
+  limit?: number;
+  offset?: number;
+}
+
+interface ListEntriesResult {
+  entries: LedgerEntry[];
+  total_count: number;
+  has_more: boolean;
+}
+
+export interface PostingInput {
+  account: LedgerAccountType;
+  amount: number;
+}
+
+export interface JournalInput {
+  source: LedgerJournalSource;
+  description: string;
+  currency: string;
+  postings: PostingInput[];
+  metadata?: Record<string, any>;
+  idempotency_key?: string;
+}
+
+export interface MoveInput extends Omit<JournalInput, 'postings'> {
+  from: LedgerAccountType;
+  to: LedgerAccountType;
+  amount: number;
+}
+
+export interface LedgerBalance {
+  available: number;
+  pending: number;
+  // Withheld by the merchant's rolling reserve
+  reserve: number;
+  currency: string;
+}
+
+// A payment (transaction or processor object) that moves sandbox money
+export interface LedgerPaymentSource {
+  processor?: string | null;
+  metadata?: Record<string, any> | null;
+}
+
+/**
+ * Sandbox payments never post to the ledger
+ * Balances are paid out for real, so simulator payments, and sandbox payments
+ * on Stripe test mode (SANDBOX_PROCESSOR=stripe), must not reach them.
+ */
+export function isSandboxPayment(payment?: LedgerPaymentSource | null): boolean {
+  return payment?.processor === 'simulator' || payment?.metadata?.environment === 'sandbox';
+}
+
+const EXPORT_PAGE_SIZE = 1000;
+
+const EXPORT_COLUMNS = [
+  'created_at',
+  'id',
+  'journal_id',
+  'status',
+  'type',
+  'amount',
+  'currency',
+  'running_balance',
+  'source',
+  'description',
+  'transaction_id',
+  'refund_id',
+  'dispute_id',
+  'transfer_id',
+  'split_id',
+];
+
+/**
+ * Double-entry ledger
+ * Money moves between accounts in journals whose postings sum to zero;
+ * balances are derived from the postings (ledger_account_balances).
+ */
 class LedgerService {
   /**
-   * Add a ledger entry and update balance
+   * Post a balanced journal
+   * With an idempotency key the journal is posted at most once per merchant;
+   * repeats return the original journal with duplicate: true.
    */
-  async addEntry(
-    merchantId: string,
-    type: 'credit' | 'debit',
-    amount: number,
-    currency: string,
-    description: string,
-    status: 'pending' | 'available' = 'pending',
-    metadata: any = {}
-  ): Promise<{ entry_id: string; new_balance?: number; new_pending?: number }> {
+  async postJournal(merchantId: string, input: JournalInput): Promise<{ journal_id: string; duplicate?: boolean }> {
+    const postings = input.postings.filter((posting) => posting.amount !== 0);
+    const total = postings.reduce((sum, posting) => sum + posting.amount, 0);
+
+    if (postings.length < 2 || total !== 0) {
+      throw new AppError(`Ledger journal postings must sum to zero (got ${total})`, 500, 'LEDGER_UNBALANCED');
+    }
+
     try {
-      const { data, error } = await db.getClient().rpc('add_ledger_entry', {
+      const { data, error } = await db.getClient().rpc('post_ledger_journal', {
         p_merchant_id: merchantId,
-        p_type: type,
-        p_amount: amount,
-        p_currency: currency,
-        p_description: description,
-        p_status: status,
-        p_metadata: metadata,
+        p_source: input.source,
+        p_description: input.description,
+        p_currency: input.currency,
+        p_postings: postings,
+        p_metadata: input.metadata || {},
+        p_idempotency_key: input.idempotency_key || null,
       });
 
       if (error) {
         throw error;
       }
 
+      if (data?.duplicate) {
+        return data;
+      }
+
       // Track event
-      posthogService.capture(merchantId, 'ledger_entry_created', {
-        type,
-        amount,
-        currency,
-        status,
-        description,
+      posthogService.capture(merchantId, 'ledger_journal_posted', {
+        source: input.source,
+        amount: postings.reduce((sum, posting) => sum + Math.max(posting.amount, 0), 0),
+        currency: input.currency,
+        description: input.description,
       });
 
       return data;
     } catch (error: any) {
-      console.error('Ledger addEntry error:', error);
+      console.error('Ledger postJournal error:', error);
       throw new AppError(
-        `Failed to add ledger entry: ${error.message}`,
+        `Failed to post ledger journal: ${error.message}`,
         500,
         'LEDGER_ERROR'
       );
     }
   }
 
+  /**
+   * Move an amount from one account to another
+   */
+  async move(merchantId: string, input: MoveInput): Promise<{ journal_id: string; duplicate?: boolean }> {
+    const { from, to, amount, ...journal } = input;
+
+    return this.postJournal(merchantId, {
+      ...journal,
+      postings: [
+        { account: from, amount: -amount },
+        { account: to, amount },
+      ],
+    });
+  }
+
   /**
    * Get Merchant Balance
    */
-  async getBalance(merchantId: string): Promise<{ available: number; pending: number; currency: string }> {
+  async getBalance(merchantId: string, currency?: string): Promise<LedgerBalance> {
     const merchant = await db.findById('merchants', merchantId);
     if (!merchant) {
       throw new AppError('Merchant not found', 404, 'MERCHANT_NOT_FOUND');
     }
 
+    const balanceCurrency = (currency || merchant.default_currency || 'USD').toUpperCase();
+    const balances = await this.getAccountBalances(merchantId, balanceCurrency);
+
+    return {
+      available: balances.merchant_available || 0,
+      pending: balances.merchant_pending || 0,
+      reserve: balances.merchant_reserve || 0,
+      currency: balanceCurrency,
+    };
+  }
+
+  /**
+   * Balances of a merchant's accounts in one currency, keyed by account type
+   */
+  async getAccountBalances(merchantId: string, currency: string): Promise<Partial<Record<LedgerAccountType, number>>> {
+    const { data, error } = await db.getClient()
+      .from('ledger_account_balances')
+      .select('type, balance')
+      .eq('merchant_id', merchantId)
+      .eq('currency', currency.toUpperCase());
+
+    if (error) {
+      throw new Error(`Database query error: ${error.message}`);
+    }
+
+    const balances: Partial<Record<LedgerAccountType, number>> = {};
+    for (const row of (data || []) as { type: LedgerAccountType; balance: number }[]) {
+      balances[row.type] = Number(row.balance);
+    }
+
+    return balances;
+  }
+
+  /**
+   * Find a journal by its idempotency key
+   */
+  async findJournal(merchantId: string, idempotencyKey: string): Promise<LedgerJournal | null> {
+    return db.findOne<LedgerJournal>('ledger_journals', {
+      merchant_id: merchantId,
+      idempotency_key: idempotencyKey,
+    });
+  }
+
+  /**
+   * List a merchant's ledger entries, newest first, with running balances
+   */
+  async listEntries(merchantId: string, options: ListEntriesOptions = {}): Promise<ListEntriesResult> {
+    const { limit = 20, offset = 0, ...filters } = options;
+
+    const { data, error, count } = await this.entriesQuery(merchantId, filters, true)
+      .range(offset, offset + limit - 1);
+
+    if (error) {
+      throw new Error(`Database query error: ${error.message}`);
+    }
+
+    const entries = (data || []).map((row: any) => this.toEntry(row));
+
     return {
-      available: merchant.balance || 0,
-      pending: merchant.pending_balance || 0,
-      currency: merchant.currency || 'USD',
+      entries,
+      total_count: count || 0,
+      has_more: offset + entries.length < (count || 0),
     };
   }
 
   /**
-   * Get Ledger History
+   * Write a merchant's ledger entries as CSV, a page at a time
+   * write resolves once the chunk has been flushed, so large exports aren't buffered.
    */
-  async getHistory(merchantId: string, limit: number = 20, offset: number = 0): Promise<LedgerEntry[]> {
-    return await db.findMany<LedgerEntry>(
-      'ledger_entries',
-      { merchant_id: merchantId },
-      { limit, offset, orderBy: 'created_at:desc' }
-    );
+  async exportEntries(
+    merchantId: string,
+    filters: LedgerEntryFilters,
+    write: (chunk: string) => Promise<void>
+  ): Promise<number> {
+    await write(`${EXPORT_COLUMNS.join(',')}\n`);
+
+    let exported = 0;
+    for (let offset = 0; ; offset += EXPORT_PAGE_SIZE) {
+      const { data, error } = await this.entriesQuery(merchantId, filters, false)
+        .range(offset, offset + EXPORT_PAGE_SIZE - 1);
+
+      if (error) {
+        throw new Error(`Database query error: ${error.message}`);
+      }
+
+      const rows = (data || []).map((row: any) => {
+        const entry = this.toEntry(row);
+        return toCsvRow(EXPORT_COLUMNS, { ...entry, ...entry.links });
+      });
+
+      if (rows.length > 0) {
+        await write(`${rows.join('\n')}\n`);
+        exported += rows.length;
+      }
+
+      if (rows.length < EXPORT_PAGE_SIZE) {
+        return exported;
+      }
+    }
   }
 
   /**
@@ -96,26 +349,71 @@ class LedgerService {
     const balance = await this.getBalance(merchantId);
     if (balance.pending <= 0) return;
 
-    // We need to move funds atomically.
-    // 1. Debit Pending
-    await this.addEntry(
-      merchantId,
-      'debit',
-      balance.pending,
-      balance.currency,
-      'Release pending funds after verification',
-      'pending'
-    );
-
-    // 2. Credit Available
-    await this.addEntry(
-      merchantId,
-      'credit',
-      balance.pending,
-      balance.currency,
-      'Funds released from pending',
-      'available'
-    );
+    await this.move(merchantId, {
+      from: 'merchant_pending',
+      to: 'merchant_available',
+      amount: balance.pending,
+      currency: balance.currency,
+      source: 'release',
+      description: 'Funds released from pending',
+    });
+  }
+
+  private entriesQuery(merchantId: string, filters: LedgerEntryFilters, withCount: boolean) {
+    let query = db.getClient()
+      .from('merchant_ledger_entries')
+      .select('*', withCount ? { count: 'exact' } : undefined)
+      .eq('merchant_id', merchantId);
+
+    if (filters.start_date) {
+      query = query.gte('created_at', filters.start_date);
+    }
+
+    if (filters.end_date) {
+      query = query.lte('created_at', filters.end_date);
+    }
+
+    if (filters.type) {
+      query = query.eq('type', filters.type);
+    }
+
+    if (filters.status) {
+      query = query.eq('status', filters.status);
+    }
+
+    if (filters.source) {
+      query = query.eq('source', filters.source);
+    }
+
+    if (filters.currency) {
+      query = query.eq('currency', filters.currency.toUpperCase());
+    }
+
+    // Same order as the running balance, reversed
+    return query
+      .order('created_at', { ascending: false })
+      .order('id', { ascending: false });
+  }
+
+  /**
+   * Originating transaction, refund, dispute, transfer or split, from the journal metadata
+   */
+  private toEntry(row: any): LedgerEntry {
+    const metadata = row.metadata || {};
+    const links: LedgerEntryLinks = {};
+
+    for (const key of ['transaction_id', 'refund_id', 'dispute_id', 'transfer_id', 'split_id'] as const) {
+      if (metadata[key]) {
+        links[key] = metadata[key];
+      }
+    }
+
+    return {
+      ...row,
+      amount: Number(row.amount),
+      running_balance: Number(row.running_balance),
+      links,
+    };
   }
 }
 
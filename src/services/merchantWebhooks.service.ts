@@ -0,0 +1,174 @@
+import crypto from 'crypto';
+import db from './database.service';
+import jobs, { JOB_QUEUES } from './jobs';
+import { Merchant } from './merchants.service';
+
+interface Webhook {
+  id: string;
+  merchant_id: string;
+  event_type: string;
+  payload: Record<string, any>;
+  endpoint: string;
+  signature?: string;
+  status: string;
+  http_status_code?: number;
+  response_body?: string;
+  attempts?: number;
+  max_attempts?: number;
+  sent_at?: string;
+  failed_at?: string;
+}
+
+export type WebhookPayload = Record<string, any>;
+
+// Delivery attempts per webhook (the merchant-webhooks queue retries with backoff)
+export const MERCHANT_WEBHOOK_MAX_ATTEMPTS = 5;
+
+const DELIVERY_TIMEOUT_MS = 10000;
+// A webhook still pending after this never got its delivery job (the queue was unreachable)
+const STALE_PENDING_MS = 5 * 60 * 1000;
+const REQUEUE_BATCH_SIZE = 100;
+
+/**
+ * Delivery of signed event webhooks to merchant endpoints
+ * Used by processor webhook handling and by services that raise their own
+ * events (e.g. subscriptions), so those don't depend on WebhooksService.
+ */
+class MerchantWebhooksService {
+  /**
+   * Record a webhook and queue its delivery
+   */
+  async send(
+    merchantId: string,
+    eventType: string,
+    payload: WebhookPayload
+  ): Promise<void> {
+    const merchant = await db.findById<Merchant>('merchants', merchantId);
+
+    if (!merchant || !merchant.webhook_url) {
+      console.log('No webhook URL configured for merchant:', merchantId);
+      return;
+    }
+
+    // Create webhook record
+    const webhook = await db.insert<Webhook>('webhooks', {
+      merchant_id: merchantId,
+      event_type: eventType,
+      payload,
+      endpoint: merchant.webhook_url,
+      status: 'pending',
+      attempts: 0,
+      max_attempts: MERCHANT_WEBHOOK_MAX_ATTEMPTS,
+    });
+
+    try {
+      await jobs.enqueue(JOB_QUEUES.merchantWebhooks, { webhook_id: webhook.id }, { jobId: webhook.id });
+    } catch (error) {
+      // The record stays pending until requeueStalePending picks it up; the event itself must not fail the caller
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error('Failed to queue webhook:', webhook.id, errorMessage);
+    }
+  }
+
+  /**
+   * Queue the delivery of webhooks left pending by a failed enqueue (scheduled)
+   * Jobs are keyed on the webhook, so one still waiting in the queue isn't added twice.
+   */
+  async requeueStalePending(now: Date = new Date()): Promise<number> {
+    const { data, error } = await db.getClient()
+      .from('webhooks')
+      .select('id')
+      .eq('status', 'pending')
+      .lt('created_at', new Date(now.getTime() - STALE_PENDING_MS).toISOString())
+      .order('created_at', { ascending: true })
+      .limit(REQUEUE_BATCH_SIZE);
+
+    if (error) {
+      throw new Error(`Database query error: ${error.message}`);
+    }
+
+    const webhooks = (data || []) as { id: string }[];
+
+    for (const webhook of webhooks) {
+      await jobs.enqueue(JOB_QUEUES.merchantWebhooks, { webhook_id: webhook.id }, { jobId: webhook.id });
+    }
+
+    if (webhooks.length > 0) {
+      console.log(`Queued ${webhooks.length} stale pending webhook(s)`);
+    }
+
+    return webhooks.length;
+  }
+
+  /**
+   * Deliver a recorded webhook (merchant-webhooks job)
+   * Throws on failure so the queue retries it.
+   */
+  async deliver(webhookId: string): Promise<void> {
+    const webhook = await db.findById<Webhook>('webhooks', webhookId);
+
+    if (!webhook || webhook.status === 'sent') {
+      return;
+    }
+
+    const merchant = await db.findById<Merchant>('merchants', webhook.merchant_id);
+    const attempts = (webhook.attempts || 0) + 1;
+    const maxAttempts = webhook.max_attempts || MERCHANT_WEBHOOK_MAX_ATTEMPTS;
+
+    const timestamp = Date.now();
+    const signaturePayload = `${timestamp}.${JSON.stringify(webhook.payload)}`;
+    const signature = crypto
+      .createHmac('sha256', merchant?.webhook_secret || '')
+      .update(signaturePayload)
+      .digest('hex');
+
+    const status = attempts >= maxAttempts ? 'failed' : 'retrying';
+    let response: Response;
+    let responseText: string;
+
+    try {
+      response = await fetch(webhook.endpoint, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-NeuraPay-Signature': signature,
+          'X-NeuraPay-Timestamp': timestamp.toString(),
+          'X-NeuraPay-Event': webhook.event_type,
+        },
+        body: JSON.stringify(webhook.payload),
+        signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+      });
+      responseText = await response.text();
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error('Failed to send webhook:', webhook.id, errorMessage);
+
+      await db.update<Webhook>('webhooks', webhook.id, {
+        status,
+        attempts,
+        signature,
+        failed_at: new Date().toISOString(),
+        response_body: errorMessage,
+      } as any);
+
+      throw error;
+    }
+
+    await db.update<Webhook>('webhooks', webhook.id, {
+      status: response.ok ? 'sent' : status,
+      attempts,
+      signature,
+      http_status_code: response.status,
+      response_body: responseText,
+      ...(response.ok ? { sent_at: new Date().toISOString() } : { failed_at: new Date().toISOString() }),
+    } as any);
+
+    console.log('Webhook sent to merchant:', webhook.merchant_id, webhook.event_type, response.status);
+
+    if (!response.ok) {
+      throw new Error(`Merchant endpoint responded with ${response.status}`);
+    }
+  }
+}
+
+export default new MerchantWebhooksService();
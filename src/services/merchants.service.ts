@@ -10,6 +10,13 @@ export interface Branding {
   payment_methods?: string[];
 }
 
+// Applies to payments at or above min_amount (3D Secure requests, manual review)
+export interface AmountThresholdRule {
+  // Without a currency, min_amount is in two-decimal units scaled to the payment currency
+  currency?: string;
+  min_amount: number;
+}
+
 export interface Merchant {
   id: string;
   business_name: string;
@@ -31,6 +38,11 @@ export interface Merchant {
   is_active?: boolean;
   default_currency?: string;
   accepted_payment_methods?: string[];
+  // Request 3D Secure for card payments at or above these amounts
+  three_d_secure_rules?: AmountThresholdRule[];
+  review_rules?: AmountThresholdRule[];
+  // Hours a review may stay open before its SLA is breached
+  review_sla_hours?: number;
   brand_logo_url?: string;
   brand_color?: string;
   brand_name?: string;
@@ -48,8 +60,16 @@ export interface Merchant {
   earnings_count?: number;
   first_payment_at?: string;
   country?: string;
-  pending_balance?: number;
-  balance?: number;
+  pricing_plan_key?: string | null;
+  // Rolling reserve policy (admin-managed)
+  reserve_percent?: number;
+  reserve_hold_days?: number;
+  reserve_minimum_amount?: number;
+  // Automatic payouts (see payouts.service)
+  payout_schedule?: 'manual' | 'daily' | 'weekly' | 'monthly';
+  payout_weekly_anchor?: string | null;
+  payout_monthly_anchor?: number | null;
+  payout_minimum_amount?: number;
 }
 
 interface Transaction {
@@ -164,6 +184,9 @@ class MerchantsService {
       merchant.api_secret = (merchant as any).sandbox_api_secret || merchant.api_secret;
     }
 
+    // The key, not the dashboard toggle, decides which processor handles the request
+    merchant.environment = isSandbox ? 'sandbox' : 'production';
+
     return merchant;
   }
 
@@ -287,6 +310,9 @@ class MerchantsService {
       'business_type',
       'default_currency',
       'accepted_payment_methods',
+      'three_d_secure_rules',
+      'review_rules',
+      'review_sla_hours',
       'brand_logo_url',
       'brand_color',
       'brand_name',
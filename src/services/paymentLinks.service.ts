@@ -1,7 +1,11 @@
 import crypto from 'crypto';
 import db from './database.service';
-import merchantsService from './merchants.service';
+import merchantsService, { Merchant } from './merchants.service';
+import paymentsService from './payments.service';
+import paymentMethodRouting from './paymentMethodRouting.service';
 import { AppError } from '../middleware/errorHandler';
+import { assertValidAmount, isSupportedCurrency } from '../config/currencies.config';
+import { ProcessorName } from './processors';
 
 interface PaymentLink {
   id: string;
@@ -14,6 +18,7 @@ interface PaymentLink {
   min_amount?: number | null;
   max_amount?: number | null;
   accepted_payment_methods: string[];
+  environment: string;
   is_active: boolean;
   expires_at?: string | null;
   view_count: number;
@@ -30,9 +35,27 @@ interface CreatePaymentLinkData {
   allow_custom_amount?: boolean;
   min_amount?: number;
   max_amount?: number;
+  accepted_payment_methods?: string[];
   expires_at?: string;
 }
 
+interface CheckoutData {
+  amount?: number;
+  customer_email?: string;
+  customer_name?: string;
+}
+
+interface CheckoutResponse {
+  transaction_id: string;
+  payment_intent_id: string;
+  client_secret: string | null;
+  amount: number;
+  currency: string;
+  stripe_account_id: string;
+  publishable_key: string | null;
+  processor: ProcessorName;
+}
+
 class PaymentLinksService {
   /**
    * Generate a unique slug for a payment link
@@ -55,22 +78,22 @@ class PaymentLinksService {
       allow_custom_amount = false,
       min_amount,
       max_amount,
+      accepted_payment_methods,
       expires_at,
     } = data;
 
+    if (!isSupportedCurrency(currency)) {
+      throw new AppError(`Currency ${currency.toUpperCase()} is not supported`, 400, 'UNSUPPORTED_CURRENCY');
+    }
+
     // Validate amount logic
     if (!allow_custom_amount && (!amount || amount <= 0)) {
       throw new AppError('Amount is required when custom amount is not allowed', 400, 'INVALID_AMOUNT');
     }
 
-    if (allow_custom_amount) {
-      if (min_amount && min_amount <= 0) {
-        throw new AppError('Minimum amount must be greater than 0', 400, 'INVALID_MIN_AMOUNT');
-      }
-      if (max_amount && min_amount && max_amount < min_amount) {
-        throw new AppError('Maximum amount must be greater than minimum amount', 400, 'INVALID_MAX_AMOUNT');
-      }
-    }
+    this.validateLinkAmounts(currency, allow_custom_amount ? { min_amount, max_amount } : { amount });
+
+    const paymentMethods = this.resolveLinkPaymentMethods(merchant, currency, accepted_payment_methods);
 
     // Generate unique slug
     let slug = this.generateSlug();
@@ -96,7 +119,9 @@ class PaymentLinksService {
       allow_custom_amount,
       min_amount: allow_custom_amount ? min_amount : null,
       max_amount: allow_custom_amount ? max_amount : null,
-      accepted_payment_methods: ['card'],
+      accepted_payment_methods: paymentMethods,
+      // Links created with a sandbox key take simulated payments
+      environment: merchant.environment,
       is_active: true,
       expires_at: expires_at || null,
       view_count: 0,
@@ -111,21 +136,7 @@ class PaymentLinksService {
    * Get payment link by slug (public)
    */
   async getPaymentLinkBySlug(slug: string): Promise<PaymentLink> {
-    const paymentLink = await db.findOne<PaymentLink>('payment_links', { slug });
-
-    if (!paymentLink) {
-      throw new AppError('Payment link not found', 404, 'PAYMENT_LINK_NOT_FOUND');
-    }
-
-    // Check if active
-    if (!paymentLink.is_active) {
-      throw new AppError('Payment link is inactive', 400, 'PAYMENT_LINK_INACTIVE');
-    }
-
-    // Check if expired
-    if (paymentLink.expires_at && new Date(paymentLink.expires_at) < new Date()) {
-      throw new AppError('Payment link has expired', 400, 'PAYMENT_LINK_EXPIRED');
-    }
+    const paymentLink = await this.findUsableLinkBySlug(slug);
 
     // Increment view count
     await db.getClient()
@@ -136,6 +147,46 @@ class PaymentLinksService {
     return paymentLink;
   }
 
+  /**
+   * Start a checkout for a payment link (public)
+   * Creates a payment intent on the merchant's connected account tagged with the link ID
+   */
+  async createCheckout(slug: string, data: CheckoutData): Promise<CheckoutResponse> {
+    const paymentLink = await this.findUsableLinkBySlug(slug);
+
+    const amount = this.resolveCheckoutAmount(paymentLink, data.amount);
+
+    const merchant = await db.findById<Merchant>('merchants', paymentLink.merchant_id);
+
+    if (!merchant || !merchant.is_active || merchant.status === 'suspended' || merchant.status === 'closed') {
+      throw new AppError('Payment link not found', 404, 'PAYMENT_LINK_NOT_FOUND');
+    }
+
+    const payment = await paymentsService.createPaymentForMerchant({ ...merchant, environment: paymentLink.environment }, {
+      amount,
+      currency: paymentLink.currency,
+      description: paymentLink.description,
+      customer_email: data.customer_email,
+      customer_name: data.customer_name,
+      allowed_payment_methods: paymentLink.accepted_payment_methods,
+      metadata: {
+        payment_link_id: paymentLink.id,
+        payment_link_slug: paymentLink.slug,
+      },
+    });
+
+    return {
+      transaction_id: payment.transaction_id,
+      payment_intent_id: payment.payment_intent_id,
+      client_secret: payment.client_secret,
+      amount: payment.amount,
+      currency: payment.currency,
+      stripe_account_id: merchant.stripe_account_id!,
+      publishable_key: process.env.STRIPE_PUBLISHABLE_KEY || null,
+      processor: payment.processor,
+    };
+  }
+
   /**
    * Get payment link by ID
    */
@@ -210,6 +261,33 @@ class PaymentLinksService {
       }
     }
 
+    const currency = updates.currency || paymentLink.currency;
+
+    if (!isSupportedCurrency(currency)) {
+      throw new AppError(`Currency ${currency.toUpperCase()} is not supported`, 400, 'UNSUPPORTED_CURRENCY');
+    }
+
+    this.validateLinkAmounts(currency, {
+      amount: updates.amount ?? paymentLink.amount,
+      min_amount: updates.min_amount ?? paymentLink.min_amount,
+      max_amount: updates.max_amount ?? paymentLink.max_amount,
+    });
+
+    if (updates.currency) {
+      updates = { ...updates, currency: updates.currency.toLowerCase() };
+    }
+
+    if (updates.accepted_payment_methods || updates.currency) {
+      updates = {
+        ...updates,
+        accepted_payment_methods: this.resolveLinkPaymentMethods(
+          merchant,
+          currency,
+          updates.accepted_payment_methods || paymentLink.accepted_payment_methods
+        ),
+      };
+    }
+
     const updatedLink = await db.update<PaymentLink>('payment_links', linkId, updates);
 
     return updatedLink;
@@ -236,22 +314,128 @@ class PaymentLinksService {
   }
 
   /**
-   * Record payment for a link
+   * Find an active, unexpired payment link by slug
    */
-  async recordPayment(linkId: string, amount: number): Promise<void> {
-    const paymentLink = await db.findById<PaymentLink>('payment_links', linkId);
+  private async findUsableLinkBySlug(slug: string): Promise<PaymentLink> {
+    const paymentLink = await db.findOne<PaymentLink>('payment_links', { slug });
 
     if (!paymentLink) {
-      return; // Silent fail
+      throw new AppError('Payment link not found', 404, 'PAYMENT_LINK_NOT_FOUND');
     }
 
-    await db.getClient()
-      .from('payment_links')
-      .update({
-        payment_count: paymentLink.payment_count + 1,
-        total_collected: paymentLink.total_collected + amount,
-      })
-      .eq('id', linkId);
+    // Check if active
+    if (!paymentLink.is_active) {
+      throw new AppError('Payment link is inactive', 400, 'PAYMENT_LINK_INACTIVE');
+    }
+
+    // Check if expired
+    if (paymentLink.expires_at && new Date(paymentLink.expires_at) < new Date()) {
+      throw new AppError('Payment link has expired', 400, 'PAYMENT_LINK_EXPIRED');
+    }
+
+    return paymentLink;
+  }
+
+  /**
+   * Determine the amount to charge for a link checkout
+   * Fixed-amount links always charge the link amount; custom-amount links enforce min/max
+   */
+  private resolveCheckoutAmount(paymentLink: PaymentLink, requestedAmount?: number): number {
+    if (!paymentLink.allow_custom_amount) {
+      if (requestedAmount !== undefined && requestedAmount !== paymentLink.amount) {
+        throw new AppError('Amount does not match the payment link amount', 400, 'INVALID_AMOUNT');
+      }
+      return paymentLink.amount!;
+    }
+
+    if (!requestedAmount || requestedAmount <= 0) {
+      throw new AppError('Amount is required for this payment link', 400, 'INVALID_AMOUNT');
+    }
+
+    assertValidAmount(requestedAmount, paymentLink.currency);
+
+    if (paymentLink.min_amount && requestedAmount < paymentLink.min_amount) {
+      throw new AppError(
+        `Amount must be at least ${paymentLink.min_amount}`,
+        400,
+        'AMOUNT_BELOW_MINIMUM'
+      );
+    }
+
+    if (paymentLink.max_amount && requestedAmount > paymentLink.max_amount) {
+      throw new AppError(
+        `Amount must not exceed ${paymentLink.max_amount}`,
+        400,
+        'AMOUNT_ABOVE_MAXIMUM'
+      );
+    }
+
+    return requestedAmount;
+  }
+
+  /**
+   * Validate the methods a link offers, defaulting to every method the merchant
+   * has enabled that supports the link currency
+   */
+  private resolveLinkPaymentMethods(merchant: Merchant, currency: string, requested?: string[]): string[] {
+    if (!requested || requested.length === 0) {
+      return paymentMethodRouting.resolve(merchant, { currency }).payment_method_types;
+    }
+
+    // Resolving each method individually surfaces the specific reason it can't be used
+    requested.forEach((paymentMethod) => {
+      paymentMethodRouting.resolve(merchant, { currency, payment_method: paymentMethod });
+    });
+
+    return Array.from(new Set(requested));
+  }
+
+  /**
+   * Validate link amounts against the currency registry
+   */
+  private validateLinkAmounts(
+    currency: string,
+    amounts: { amount?: number | null; min_amount?: number | null; max_amount?: number | null }
+  ): void {
+    const { amount, min_amount, max_amount } = amounts;
+
+    if (amount) {
+      assertValidAmount(amount, currency);
+    }
+
+    if (min_amount !== undefined && min_amount !== null) {
+      if (min_amount <= 0) {
+        throw new AppError('Minimum amount must be greater than 0', 400, 'INVALID_MIN_AMOUNT');
+      }
+      assertValidAmount(min_amount, currency);
+    }
+
+    if (max_amount !== undefined && max_amount !== null) {
+      assertValidAmount(max_amount, currency);
+    }
+
+    if (max_amount && min_amount && max_amount < min_amount) {
+      throw new AppError('Maximum amount must be greater than minimum amount', 400, 'INVALID_MAX_AMOUNT');
+    }
+  }
+
+  /**
+   * Count a settled payment against the merchant's payment link
+   * The link ID comes from payment metadata the merchant can set, so links of
+   * other merchants are ignored. Returns whether a link was updated.
+   */
+  async recordPayment(merchantId: string, linkId: string, amount: number): Promise<boolean> {
+    const { data, error } = await db.getClient().rpc('record_payment_link_payment', {
+      p_link_id: linkId,
+      p_merchant_id: merchantId,
+      p_amount: amount,
+    });
+
+    if (error) {
+      throw new Error(`Failed to record payment link payment: ${error.message}`);
+    }
+
+    return !!data;
   }
 }
 
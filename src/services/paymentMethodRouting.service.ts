@@ -0,0 +1,141 @@
+import { Merchant } from './merchants.service';
+import { AppError } from '../middleware/errorHandler';
+import {
+  PAYMENT_METHODS,
+  PaymentMethodDefinition,
+  getPaymentMethod,
+  getPaymentMethodByProcessorType,
+} from '../config/paymentMethods.config';
+
+interface RoutingInput {
+  payment_method?: string;
+  currency: string;
+  capture_method?: 'automatic' | 'manual';
+  // Further restriction from the calling flow, e.g. a payment link's accepted methods
+  allowed_payment_methods?: string[];
+}
+
+export interface RoutingResult {
+  // Method stored on the transaction: the single routed method, or 'automatic'
+  // when the customer chooses at checkout (resolved by the payment_intent.succeeded webhook)
+  payment_method: string;
+  // Primary method, used for fee quoting
+  primary_payment_method: string;
+  payment_method_types: string[];
+  processor_types: string[];
+}
+
+class PaymentMethodRoutingService {
+  /**
+   * Methods the merchant has turned on
+   * accepted_payment_methods is the account setting; branding.payment_methods narrows
+   * what is shown at checkout. Unknown names (e.g. legacy 'crypto') are ignored.
+   */
+  getEnabledMethods(merchant: Merchant): string[] {
+    const accepted = merchant.accepted_payment_methods && merchant.accepted_payment_methods.length > 0
+      ? merchant.accepted_payment_methods
+      : ['card'];
+    const branded = merchant.branding?.payment_methods;
+
+    return accepted.filter((name) =>
+      PAYMENT_METHODS[name] && (!branded || branded.length === 0 || branded.includes(name))
+    );
+  }
+
+  /**
+   * Reason a method can't be used for this merchant and currency, or null if eligible
+   */
+  getIneligibilityReason(
+    method: PaymentMethodDefinition,
+    merchant: Merchant,
+    currency: string,
+    captureMethod: 'automatic' | 'manual'
+  ): string | null {
+    if (method.currencies && !method.currencies.includes(currency)) {
+      return `${method.label} does not support ${currency.toUpperCase()} payments`;
+    }
+
+    if (method.countries && merchant.country && !method.countries.includes(merchant.country.toUpperCase())) {
+      return `${method.label} is not available for accounts in ${merchant.country.toUpperCase()}`;
+    }
+
+    if (captureMethod === 'manual' && !method.supports_manual_capture) {
+      return `${method.label} does not support manual capture`;
+    }
+
+    return null;
+  }
+
+  /**
+   * Resolve which processor payment method types to offer for a payment
+   */
+  resolve(merchant: Merchant, input: RoutingInput): RoutingResult {
+    const currency = input.currency.toLowerCase();
+    const captureMethod = input.capture_method || 'automatic';
+
+    let enabled = this.getEnabledMethods(merchant);
+    if (input.allowed_payment_methods) {
+      enabled = enabled.filter((name) => input.allowed_payment_methods!.includes(name));
+    }
+
+    if (input.payment_method) {
+      const method = getPaymentMethod(input.payment_method);
+
+      if (!method) {
+        throw new AppError(
+          `Unsupported payment method: ${input.payment_method}`,
+          400,
+          'UNSUPPORTED_PAYMENT_METHOD'
+        );
+      }
+
+      if (!enabled.includes(method.name)) {
+        throw new AppError(
+          `${method.label} is not enabled for this merchant`,
+          400,
+          'PAYMENT_METHOD_NOT_ACCEPTED'
+        );
+      }
+
+      const reason = this.getIneligibilityReason(method, merchant, currency, captureMethod);
+      if (reason) {
+        throw new AppError(reason, 400, 'PAYMENT_METHOD_NOT_AVAILABLE');
+      }
+
+      return {
+        payment_method: method.name,
+        primary_payment_method: method.name,
+        payment_method_types: [method.name],
+        processor_types: [method.processor_type],
+      };
+    }
+
+    const eligible = enabled
+      .map((name) => PAYMENT_METHODS[name])
+      .filter((method) => !this.getIneligibilityReason(method, merchant, currency, captureMethod));
+
+    if (eligible.length === 0) {
+      throw new AppError(
+        `No enabled payment method supports ${currency.toUpperCase()} payments`,
+        400,
+        'NO_ELIGIBLE_PAYMENT_METHOD'
+      );
+    }
+
+    return {
+      payment_method: eligible.length === 1 ? eligible[0].name : 'automatic',
+      primary_payment_method: eligible[0].name,
+      payment_method_types: eligible.map((method) => method.name),
+      processor_types: eligible.map((method) => method.processor_type),
+    };
+  }
+
+  /**
+   * Map the processor's payment method type back to our method name
+   */
+  fromProcessorType(processorType: string): string | null {
+    return getPaymentMethodByProcessorType(processorType)?.name || null;
+  }
+}
+
+export default new PaymentMethodRoutingService();
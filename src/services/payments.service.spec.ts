@@ -0,0 +1,171 @@
+import { describe, it, expect, beforeEach, afterEach, mock, spyOn } from 'bun:test';
+import { fakeSupabase } from '../test/fakeSupabase';
+import { fakeProcessor, fakeProcessorsModule } from '../test/fakeProcessor';
+
+mock.module('@supabase/supabase-js', () => ({ createClient: () => fakeSupabase.client }));
+mock.module('./processors', () => fakeProcessorsModule);
+mock.module('./merchantWebhooks.service', () => ({ default: { send: async () => {} } }));
+
+const { default: paymentsService } = await import('./payments.service');
+const { default: merchantsService } = await import('./merchants.service');
+const { default: pricingService } = await import('./pricing.service');
+
+const MERCHANT_ID = 'merchant_1';
+const PLATFORM_FEE = 50;
+
+const merchant = { id: MERCHANT_ID, default_currency: 'USD', stripe_account_id: 'acct_1' } as any;
+
+const transaction = () => fakeSupabase.rows('transactions')[0];
+
+function seed(values: Record<string, any> = {}) {
+  fakeSupabase.seed('transactions', [{
+    id: 'txn_1',
+    merchant_id: MERCHANT_ID,
+    amount: 1000,
+    amount_capturable: 1000,
+    currency: 'USD',
+    status: 'requires_capture',
+    processor: 'stripe',
+    stripe_payment_intent_id: 'pi_1',
+    capture_method: 'manual',
+    ...values,
+  }]);
+}
+
+describe('PaymentsService', () => {
+  const spies: Array<ReturnType<typeof spyOn>> = [];
+
+  beforeEach(() => {
+    fakeSupabase.reset();
+    fakeProcessor.reset();
+    spies.push(
+      spyOn(merchantsService, 'getMerchantByApiKey').mockImplementation(async () => merchant),
+      spyOn(pricingService, 'calculateFee').mockImplementation(async () => ({
+        platform_fee: PLATFORM_FEE,
+        pricing_plan_id: null,
+        pricing_plan_version: null,
+        fee_breakdown: {},
+      }) as any),
+    );
+  });
+
+  afterEach(() => {
+    spies.splice(0).forEach((spy) => spy.mockRestore());
+  });
+
+  describe('capturePaymentForMerchant', () => {
+    it('captures part of the authorization and rescales pending splits to it', async () => {
+      seed({ split_amount: 300 });
+      fakeSupabase.seed('payment_splits', [{
+        id: 'split_1',
+        transaction_id: 'txn_1',
+        merchant_id: MERCHANT_ID,
+        destination_merchant_id: 'merchant_2',
+        amount: 300,
+        amount_reversed: 0,
+        currency: 'USD',
+        status: 'pending',
+      }]);
+
+      const captured = await paymentsService.capturePaymentForMerchant(merchant, 'txn_1', { amount: 600 });
+
+      expect(captured).toEqual({
+        transaction_id: 'txn_1',
+        amount_captured: 600,
+        amount_authorized: 1000,
+        platform_fee: PLATFORM_FEE,
+        status: 'processing',
+      });
+      expect(fakeProcessor.callsTo('capturePaymentIntent')).toEqual([
+        ['pi_1', { amount_to_capture: 600, application_fee_amount: PLATFORM_FEE + 180 }, { account: 'acct_1' }],
+      ]);
+      expect(transaction()).toMatchObject({
+        status: 'processing',
+        amount: 600,
+        amount_authorized: 1000,
+        amount_capturable: 0,
+        split_amount: 180,
+        merchant_amount: 600 - PLATFORM_FEE - 180,
+      });
+      expect(fakeSupabase.rows('payment_splits')[0].amount).toBe(180);
+      expect(fakeSupabase.rows('transaction_events')).toEqual([
+        expect.objectContaining({ from_status: 'requires_capture', to_status: 'processing', reason: 'capture_requested' }),
+      ]);
+    });
+
+    it('refuses to capture more than was authorized', async () => {
+      seed();
+
+      await expect(paymentsService.capturePaymentForMerchant(merchant, 'txn_1', { amount: 1500 }))
+        .rejects.toMatchObject({ code: 'INVALID_CAPTURE_AMOUNT' });
+
+      expect(transaction().status).toBe('requires_capture');
+      expect(fakeProcessor.calls).toEqual([]);
+    });
+
+    it('refuses to capture an expired authorization', async () => {
+      seed({ authorization_expires_at: new Date(Date.now() - 1000).toISOString() });
+
+      await expect(paymentsService.capturePaymentForMerchant(merchant, 'txn_1'))
+        .rejects.toMatchObject({ code: 'AUTHORIZATION_EXPIRED' });
+
+      expect(fakeProcessor.calls).toEqual([]);
+    });
+
+    it('refuses payments that are not authorized', async () => {
+      seed({ status: 'succeeded' });
+
+      await expect(paymentsService.capturePaymentForMerchant(merchant, 'txn_1'))
+        .rejects.toMatchObject({ code: 'NOT_CAPTURABLE' });
+    });
+
+    it('records the captured amounts when the webhook finalized the payment first', async () => {
+      seed();
+      fakeProcessor.stub('capturePaymentIntent', async () => {
+        transaction().status = 'succeeded';
+        return { id: 'pi_1', status: 'succeeded' };
+      });
+
+      const captured = await paymentsService.capturePaymentForMerchant(merchant, 'txn_1', { amount: 800 });
+
+      expect(captured.amount_captured).toBe(800);
+      expect(transaction()).toMatchObject({ status: 'succeeded', amount: 800, amount_capturable: 0 });
+      expect(fakeSupabase.rows('transaction_events')).toEqual([]);
+    });
+  });
+
+  describe('voidPayment', () => {
+    it('cancels the authorization and releases the capturable amount', async () => {
+      seed();
+
+      expect(await paymentsService.voidPayment('npk_live_1', 'txn_1')).toEqual({ transaction_id: 'txn_1', status: 'canceled' });
+
+      expect(fakeProcessor.callsTo('cancelPaymentIntent')).toEqual([
+        ['pi_1', { cancellation_reason: 'requested_by_customer' }, { account: 'acct_1' }],
+      ]);
+      expect(transaction()).toMatchObject({ status: 'canceled', amount_capturable: 0 });
+      expect(fakeSupabase.rows('transaction_events')).toEqual([
+        expect.objectContaining({ from_status: 'requires_capture', to_status: 'canceled', reason: 'authorization_voided' }),
+      ]);
+    });
+
+    it('refuses payments that are not authorized', async () => {
+      seed({ status: 'processing' });
+
+      await expect(paymentsService.voidPayment('npk_live_1', 'txn_1')).rejects.toMatchObject({ code: 'NOT_VOIDABLE' });
+
+      expect(fakeProcessor.calls).toEqual([]);
+    });
+
+    it('keeps the authorization when the processor refuses the void', async () => {
+      seed();
+      fakeProcessor.stub('cancelPaymentIntent', async () => {
+        throw new Error('Processor unavailable');
+      });
+
+      await expect(paymentsService.voidPayment('npk_live_1', 'txn_1')).rejects.toThrow('Processor unavailable');
+
+      expect(transaction()).toMatchObject({ status: 'requires_capture', amount_capturable: 1000 });
+    });
+  });
+});
@@ -1,57 +1,85 @@
 import Stripe from 'stripe';
 import db from './database.service';
-import merchantsService, { Merchant } from './merchants.service';
+import merchantsService, { AmountThresholdRule, Merchant } from './merchants.service';
+import transactionLifecycle, { TransactionEvent } from './transactionLifecycle.service';
+import pricingService, { FeeBreakdown } from './pricing.service';
+import paymentMethodRouting from './paymentMethodRouting.service';
+import customersService, { Customer, CustomerPaymentMethod } from './customers.service';
+import splitsService, { PaymentSplit, SplitInput } from './splits.service';
+import refundsService, { Refund } from './refunds.service';
+import fraudService, { RiskOutcome, TriggeredRule } from './fraud.service';
+import { ReviewReason } from './reviews.service';
 import { AppError } from '../middleware/errorHandler';
-
-const stripe = new Stripe(process.env.STRIPE_SECRET_KEY || '', {
-  apiVersion: '2024-12-18.acacia' as any,
-});
-
-interface Customer {
-  id: string;
-  merchant_id: string;
-  email: string;
-  name?: string;
-  stripe_customer_id: string;
-}
+import { assertValidAmount, fromTwoDecimalUnits } from '../config/currencies.config';
+import { getPaymentMethodByProcessorType } from '../config/paymentMethods.config';
+import { getProcessor, getProcessorForEnvironment, PaymentProcessor, ProcessorName } from './processors';
 
 interface Transaction {
   id: string;
   merchant_id: string;
   customer_id: string | null;
+  customer_payment_method_id?: string | null;
+  off_session?: boolean;
+  invoice_id?: string | null;
   amount: number;
   currency: string;
   description?: string;
   payment_method: string;
+  payment_method_types?: string[];
+  processor?: ProcessorName;
   stripe_payment_intent_id: string;
   stripe_charge_id?: string;
   status: string;
   platform_fee: number;
   merchant_amount: number;
+  // Paid out to split recipients (collected with the application fee)
+  split_amount?: number;
+  transfer_group?: string | null;
+  pricing_plan_id?: string | null;
+  pricing_plan_version?: number | null;
+  fee_breakdown?: FeeBreakdown;
+  capture_method?: 'automatic' | 'manual';
+  amount_authorized?: number | null;
+  amount_capturable?: number | null;
+  authorization_expires_at?: string | null;
   idempotency_key?: string;
   metadata?: Record<string, any>;
+  next_action?: Stripe.PaymentIntent.NextAction | null;
+  return_url?: string | null;
+  three_d_secure_requested?: boolean;
+  risk_assessment_id?: string | null;
+  risk_score?: number | null;
+  risk_outcome?: RiskOutcome | null;
+  risk_rules?: TriggeredRule[];
+  customer_ip_address?: string | null;
+  review_reason?: ReviewReason | null;
   refunded?: boolean;
   refunded_amount?: number;
   created_at?: string;
 }
 
-interface Refund {
-  id: string;
-  transaction_id: string;
-  merchant_id: string;
-  amount: number;
-  reason?: string;
-  stripe_refund_id: string;
-  status: string;
-}
-
 interface PaymentData {
   amount: number;
   currency?: string;
   description?: string;
   customer_email?: string;
   customer_name?: string;
+  // Existing customer; with payment_method_id, charges that saved method (off-session unless return_url is set)
+  customer_id?: string;
+  payment_method_id?: string;
   payment_method?: string;
+  capture_method?: 'automatic' | 'manual';
+  // Internal: restricts routing for flows like payment links (not accepted from the API body)
+  allowed_payment_methods?: string[];
+  // Internal: invoice this payment collects (subscription billing)
+  invoice_id?: string;
+  // Share the payment with other connected accounts
+  splits?: SplitInput[];
+  // Where the customer returns after authenticating; with payment_method_id, confirms on-session
+  return_url?: string;
+  // Customer's IP address and country, for risk screening
+  customer_ip_address?: string;
+  customer_country?: string;
   idempotency_key?: string;
   metadata?: Record<string, any>;
 }
@@ -63,19 +91,66 @@ interface CreatePaymentResponse {
   currency: string;
   status: string;
   payment_intent_id: string;
+  payment_method: string;
+  payment_method_types: string[];
+  processor: ProcessorName;
+  off_session: boolean;
+  three_d_secure_requested: boolean;
+  risk_score: number;
+  risk_outcome: RiskOutcome;
+  // Set when the payment waits for a manual review
+  review_reason?: ReviewReason;
+  // Set while status is requires_action (e.g. redirect_to_url for 3D Secure)
+  next_action?: Stripe.PaymentIntent.NextAction | null;
+  splits?: PaymentSplit[];
+  failure_code?: string;
+  failure_message?: string;
 }
 
-interface ListPaymentsOptions {
+interface ConfirmationResult {
+  status: string;
+  next_action?: Stripe.PaymentIntent.NextAction | null;
+  failure_code?: string;
+  failure_message?: string;
+}
+
+// Transaction status reported for each payment intent status after a server-side confirmation
+// (the payment_intent.* webhooks record the change on the transaction)
+const CONFIRMATION_STATUSES: Record<string, string> = {
+  succeeded: 'succeeded',
+  requires_capture: 'requires_capture',
+  processing: 'processing',
+  requires_action: 'requires_action',
+};
+
+const STRIPE_REFUND_REASONS: Stripe.RefundCreateParams.Reason[] = ['duplicate', 'fraudulent', 'requested_by_customer'];
+
+export interface ListPaymentsOptions {
   limit?: number;
-  offset?: number;
+  starting_after?: string;
+  ending_before?: string;
   status?: string;
   start_date?: string;
   end_date?: string;
+  customer_email?: string;
+  customer_id?: string;
+  amount_gte?: number;
+  amount_lte?: number;
+  currency?: string;
+  payment_method?: string;
+  metadata?: Record<string, string>;
+}
+
+interface ListPaymentsResult {
+  transactions: Transaction[];
+  has_more: boolean;
+  total_count: number;
 }
 
 interface RefundData {
   amount?: number;
   reason?: string;
+  idempotency_key?: string;
 }
 
 interface RefundResponse {
@@ -84,6 +159,7 @@ interface RefundResponse {
   amount: number;
   status: string;
   stripe_refund_id: string;
+  split_amount_reversed?: number;
 }
 
 interface CancelResponse {
@@ -91,102 +167,196 @@ interface CancelResponse {
   status: string;
 }
 
+interface CaptureData {
+  amount?: number;
+}
+
+interface CaptureResponse {
+  transaction_id: string;
+  amount_captured: number;
+  amount_authorized: number;
+  platform_fee: number;
+  status: string;
+}
+
 class PaymentsService {
   /**
    * Create a payment intent
    */
   async createPayment(apiKey: string, paymentData: PaymentData): Promise<CreatePaymentResponse> {
+    // Validate merchant
+    const merchant = await merchantsService.getMerchantByApiKey(apiKey);
+
+    return this.createPaymentForMerchant(merchant, paymentData);
+  }
+
+  /**
+   * Create a payment intent for an already resolved merchant
+   * Used by API-key requests and by public flows such as payment link checkout
+   */
+  async createPaymentForMerchant(merchant: Merchant, paymentData: PaymentData): Promise<CreatePaymentResponse> {
     const {
       amount,
       currency = 'usd',
       description,
       customer_email,
       customer_name,
+      customer_id,
+      payment_method_id,
       payment_method,
+      capture_method = 'automatic',
+      allowed_payment_methods,
+      invoice_id,
+      splits = [],
+      return_url,
+      customer_ip_address,
+      customer_country,
       idempotency_key,
       metadata = {},
     } = paymentData;
 
-    // Validate merchant
-    const merchant = await merchantsService.getMerchantByApiKey(apiKey);
+    // Validate amount against the currency's minor units and chargeable range
+    assertValidAmount(amount, currency);
 
-    // Determine if using test or live mode
-    const isTestMode = apiKey.startsWith('npk_test_');
+    // Sandbox keys run on the simulator, live keys on Stripe
+    const processor = getProcessorForEnvironment(merchant.environment);
 
-    // Validate amount
-    if (!amount || amount <= 0) {
-      throw new AppError('Invalid amount', 400, 'INVALID_AMOUNT');
-    }
-
-    // Check if merchant has Stripe Connect account
-    if (!merchant.stripe_account_id) {
-      throw new AppError('Stripe Connect account not configured', 400, 'STRIPE_NOT_CONFIGURED');
-    }
+    if (processor.requiresConnectedAccount) {
+      // Check if merchant has Stripe Connect account
+      if (!merchant.stripe_account_id) {
+        throw new AppError('Stripe Connect account not configured', 400, 'STRIPE_NOT_CONFIGURED');
+      }
 
-    // Check if merchant has completed onboarding (immediate verification required)
-    if (!merchant.stripe_onboarding_complete) {
-      throw new AppError(
-        'You must complete account verification before accepting payments. Please complete verification in your Settings page.',
-        403,
-        'ONBOARDING_REQUIRED'
-      );
-    }
+      // Check if merchant has completed onboarding (immediate verification required)
+      if (!merchant.stripe_onboarding_complete) {
+        throw new AppError(
+          'You must complete account verification before accepting payments. Please complete verification in your Settings page.',
+          403,
+          'ONBOARDING_REQUIRED'
+        );
+      }
 
-    if (!merchant.stripe_charges_enabled) {
-      throw new AppError('Stripe charges not enabled for this merchant', 400, 'CHARGES_NOT_ENABLED');
+      if (!merchant.stripe_charges_enabled) {
+        throw new AppError('Stripe charges not enabled for this merchant', 400, 'CHARGES_NOT_ENABLED');
+      }
     }
 
-    // Create or get customer
+    // Create or get customer (customers are kept per processor)
     let customer: Customer | null = null;
-    if (customer_email) {
+    let savedPaymentMethod: CustomerPaymentMethod | null = null;
+    if (customer_id && payment_method_id) {
+      ({ customer, paymentMethod: savedPaymentMethod } = await customersService.getChargeablePaymentMethod(
+        merchant,
+        customer_id,
+        payment_method_id
+      ));
+    } else if (customer_id) {
+      customer = await customersService.getCustomerForPayment(merchant, customer_id);
+    } else if (customer_email) {
       customer = await db.findOne<Customer>('customers', {
         merchant_id: merchant.id,
         email: customer_email,
+        processor: processor.name,
       });
+    }
 
-      if (!customer) {
-        // Create Stripe customer
-        const stripeCustomer = await stripe.customers.create({
-          email: customer_email,
-          name: customer_name,
-          metadata: {
-            merchant_id: merchant.id,
-          },
-        }, {
-          stripeAccount: merchant.stripe_account_id,
-        });
-
-        // Save customer to database
-        customer = await db.insert<Customer>('customers', {
-          merchant_id: merchant.id,
-          email: customer_email,
-          name: customer_name,
-          stripe_customer_id: stripeCustomer.id,
-        });
-      }
+    // Route to the processor method types this merchant, currency and capture mode allow
+    const routing = paymentMethodRouting.resolve(merchant, {
+      payment_method: savedPaymentMethod ? savedPaymentMethod.type : payment_method,
+      currency,
+      capture_method,
+      allowed_payment_methods,
+    });
+
+    // Screen the attempt before anything is created at the processor
+    const riskAssessment = await fraudService.screenPayment(merchant, {
+      amount,
+      currency,
+      customer_id: customer?.id,
+      customer_email: customer?.email || customer_email,
+      ip_address: customer_ip_address,
+      customer_country,
+      card_fingerprint: savedPaymentMethod?.card_fingerprint,
+      card_country: savedPaymentMethod?.card_country,
+    });
+
+    if (riskAssessment.outcome === 'block') {
+      throw new AppError('Payment was blocked by risk rules', 402, 'PAYMENT_BLOCKED');
     }
 
-    // Calculate platform fee (configurable via env, defaults to 2.9% + 30 cents)
-    const feePercent = parseFloat(process.env.PLATFORM_FEE_PERCENT || '2.9') / 100;
-    const feeFixed = parseInt(process.env.PLATFORM_FEE_FIXED || '30');
-    const platformFee = Math.round(amount * feePercent + feeFixed);
-    const merchantAmount = amount - platformFee;
+    if (!customer && customer_email) {
+      // Create processor customer
+      const processorCustomer = await processor.createCustomer({
+        email: customer_email,
+        name: customer_name,
+        metadata: {
+          merchant_id: merchant.id,
+        },
+      }, {
+        account: merchant.stripe_account_id,
+      });
 
-    // Create payment intent with Stripe
-    const paymentIntent = await stripe.paymentIntents.create({
+      // Save customer to database
+      customer = await db.insert<Customer>('customers', {
+        merchant_id: merchant.id,
+        email: customer_email,
+        name: customer_name,
+        stripe_customer_id: processorCustomer.id,
+        processor: processor.name,
+      });
+    }
+
+    const feeQuote = await pricingService.calculateFee(merchant, {
+      amount,
+      currency,
+      payment_method: routing.primary_payment_method,
+      card_country: savedPaymentMethod?.card_country || undefined,
+    });
+    const platformFee = feeQuote.platform_fee;
+
+    // Split recipients are paid from the application fee once the payment succeeds
+    const resolvedSplits = splits.length > 0
+      ? await splitsService.resolveSplits(merchant, processor, amount, platformFee, splits)
+      : [];
+    const splitAmount = resolvedSplits.reduce((total, split) => total + split.amount, 0);
+    const merchantAmount = amount - platformFee - splitAmount;
+
+    // Risky or large payments wait for a manual review. Methods that can be authorized
+    // without capture are held (in_review); the rest are reviewed after they settle.
+    const reviewReason: ReviewReason | null = riskAssessment.outcome === 'review'
+      ? 'risk_rules'
+      : this.meetsAmountThreshold(merchant.review_rules, amount, currency) ? 'amount_threshold' : null;
+    const holdForReview = !!reviewReason && routing.processor_types.every(
+      (type) => getPaymentMethodByProcessorType(type)?.supports_manual_capture
+    );
+
+    // Saved methods are charged off-session unless the customer is here to authenticate
+    const offSession = !!savedPaymentMethod && !return_url;
+    // Off-session charges are merchant-initiated and exempt from customer authentication
+    const requestThreeDSecure = !offSession &&
+      routing.processor_types.includes('card') &&
+      this.meetsAmountThreshold(merchant.three_d_secure_rules, amount, currency);
+
+    // Create payment intent with the processor
+    const paymentIntent = await processor.createPaymentIntent({
       amount,
       currency: currency.toLowerCase(),
       description,
       customer: customer?.stripe_customer_id,
-      payment_method_types: ['card'],
-      application_fee_amount: platformFee,
+      payment_method: savedPaymentMethod?.stripe_payment_method_id,
+      payment_method_types: routing.processor_types,
+      capture_method: holdForReview ? 'manual' : capture_method,
+      application_fee_amount: platformFee + splitAmount,
+      ...(requestThreeDSecure && {
+        payment_method_options: { card: { request_three_d_secure: 'any' } },
+      }),
       metadata: {
         merchant_id: merchant.id,
         environment: merchant.environment,
         ...metadata,
       },
     }, {
-      stripeAccount: merchant.stripe_account_id,
+      account: merchant.stripe_account_id,
       idempotencyKey: idempotency_key,
     });
 
@@ -194,14 +364,33 @@ class PaymentsService {
     const transaction = await db.insert<Transaction>('transactions', {
       merchant_id: merchant.id,
       customer_id: customer?.id || null,
+      customer_payment_method_id: savedPaymentMethod?.id || null,
+      off_session: offSession,
+      invoice_id: invoice_id || null,
       amount,
       currency: currency.toLowerCase(),
       description,
-      payment_method: payment_method || 'card',
+      payment_method: routing.payment_method,
+      payment_method_types: routing.payment_method_types,
+      processor: processor.name,
       stripe_payment_intent_id: paymentIntent.id,
       status: 'pending',
       platform_fee: platformFee,
       merchant_amount: merchantAmount,
+      split_amount: splitAmount,
+      transfer_group: splitAmount > 0 ? `group_${paymentIntent.id}` : null,
+      pricing_plan_id: feeQuote.pricing_plan_id,
+      pricing_plan_version: feeQuote.pricing_plan_version,
+      fee_breakdown: feeQuote.fee_breakdown,
+      capture_method,
+      return_url: return_url || null,
+      three_d_secure_requested: requestThreeDSecure,
+      risk_assessment_id: riskAssessment.id,
+      risk_score: riskAssessment.risk_score,
+      risk_outcome: riskAssessment.outcome,
+      risk_rules: riskAssessment.triggered_rules,
+      customer_ip_address: customer_ip_address || null,
+      review_reason: reviewReason,
       idempotency_key,
       metadata: {
         environment: merchant.environment,
@@ -209,13 +398,38 @@ class PaymentsService {
       },
     });
 
+    await fraudService.attachTransaction(riskAssessment.id, transaction.id);
+
+    const paymentSplits = await splitsService.createSplits(transaction, resolvedSplits);
+
+    await transactionLifecycle.recordCreated(transaction, { source: 'api' });
+
+    // Saved payment methods are charged now, off-session or with the customer
+    // present to authenticate. Confirming after the transaction exists lets the webhooks find it.
+    const confirmation: ConfirmationResult = savedPaymentMethod
+      ? await this.confirmSavedMethod(processor, paymentIntent.id, merchant, { return_url, idempotency_key })
+      : { status: 'pending' };
+
     return {
       transaction_id: transaction.id,
       client_secret: paymentIntent.client_secret,
       amount,
       currency,
-      status: 'pending',
+      // A held authorization is reported as in_review, as the webhook records it
+      status: holdForReview && confirmation.status === 'requires_capture' ? 'in_review' : confirmation.status,
       payment_intent_id: paymentIntent.id,
+      payment_method: routing.payment_method,
+      payment_method_types: routing.payment_method_types,
+      processor: processor.name,
+      off_session: offSession,
+      three_d_secure_requested: requestThreeDSecure,
+      risk_score: riskAssessment.risk_score,
+      risk_outcome: riskAssessment.outcome,
+      ...(reviewReason && { review_reason: reviewReason }),
+      ...(confirmation.next_action && { next_action: confirmation.next_action }),
+      ...(paymentSplits.length > 0 && { splits: paymentSplits }),
+      ...(confirmation.failure_code && { failure_code: confirmation.failure_code }),
+      ...(confirmation.failure_message && { failure_message: confirmation.failure_message }),
     };
   }
 
@@ -241,89 +455,108 @@ class PaymentsService {
     return transaction;
   }
 
+  /**
+   * Get the status history of a payment
+   */
+  async getPaymentEvents(apiKey: string, transactionId: string): Promise<TransactionEvent[]> {
+    // Ensures the transaction exists and belongs to the merchant
+    const transaction = await this.getPayment(apiKey, transactionId);
+
+    return transactionLifecycle.getEvents(transaction.id);
+  }
+
   /**
    * List payments for merchant
    */
-  async listPayments(apiKey: string, options: ListPaymentsOptions = {}): Promise<Transaction[]> {
+  async listPayments(apiKey: string, options: ListPaymentsOptions = {}): Promise<ListPaymentsResult> {
     // Validate merchant
     const merchant = await merchantsService.getMerchantByApiKey(apiKey);
 
-    const {
-      limit = 10,
-      offset = 0,
-      status,
-      start_date,
-      end_date,
-    } = options;
-
-    const client = db.getClient();
-    let query = client
-      .from('transactions')
-      .select('*')
-      .eq('merchant_id', merchant.id)
-      .order('created_at', { ascending: false })
-      .range(offset, offset + limit - 1);
-
-    if (status) {
-      query = query.eq('status', status);
-    }
+    return this.listPaymentsByMerchantId(merchant.id, options);
+  }
 
-    if (start_date) {
-      query = query.gte('created_at', start_date);
-    }
+  /**
+   * List payments for merchant by ID (shared by the API and the dashboard)
+   * Newest first, paginated with starting_after / ending_before transaction cursors
+   */
+  async listPaymentsByMerchantId(merchantId: string, options: ListPaymentsOptions = {}): Promise<ListPaymentsResult> {
+    const { limit = 10, starting_after, ending_before } = options;
+
+    // Resolve customer email to customer IDs up front
+    let customerIds: string[] | undefined = options.customer_id ? [options.customer_id] : undefined;
+    if (options.customer_email) {
+      const { data: customers, error } = await db.getClient()
+        .from('customers')
+        .select('id')
+        .eq('merchant_id', merchantId)
+        .ilike('email', options.customer_email);
+
+      if (error) {
+        throw new Error(`Database query error: ${error.message}`);
+      }
 
-    if (end_date) {
-      query = query.lte('created_at', end_date);
+      const matches = (customers || []).map((c: { id: string }) => c.id);
+      customerIds = customerIds ? customerIds.filter((id) => matches.includes(id)) : matches;
+      if (customerIds.length === 0) {
+        return { transactions: [], has_more: false, total_count: 0 };
+      }
     }
 
-    const { data: transactions, error } = await query;
+    // Exact total for the filters (ignores the cursor)
+    const { count, error: countError } = await this.applyListFilters(
+      db.getClient().from('transactions').select('*', { count: 'exact', head: true }),
+      merchantId,
+      options,
+      customerIds
+    );
 
-    if (error) {
-      throw new Error(`Database query error: ${error.message}`);
+    if (countError) {
+      throw new Error(`Database count error: ${countError.message}`);
     }
 
-    return transactions || [];
-  }
+    const cursorId = starting_after || ending_before;
+    const paginatingBackwards = !!ending_before;
 
-  /**
-   * List payments for merchant by ID (for dashboard)
-   */
-  async listPaymentsByMerchantId(merchantId: string, options: ListPaymentsOptions = {}): Promise<Transaction[]> {
-    const {
-      limit = 10,
-      offset = 0,
-      status,
-      start_date,
-      end_date,
-    } = options;
+    let query = this.applyListFilters(
+      db.getClient().from('transactions').select('*'),
+      merchantId,
+      options,
+      customerIds
+    );
 
-    const client = db.getClient();
-    let query = client
-      .from('transactions')
-      .select('*')
-      .eq('merchant_id', merchantId)
-      .order('created_at', { ascending: false })
-      .range(offset, offset + limit - 1);
-
-    if (status) {
-      query = query.eq('status', status);
-    }
-
-    if (start_date) {
-      query = query.gte('created_at', start_date);
-    }
+    if (cursorId) {
+      const cursor = await db.findOne<Transaction>('transactions', { id: cursorId, merchant_id: merchantId });
+      if (!cursor) {
+        throw new AppError('Pagination cursor not found', 400, 'INVALID_CURSOR');
+      }
 
-    if (end_date) {
-      query = query.lte('created_at', end_date);
+      // Keyset on (created_at, id) so rows sharing a timestamp are not skipped
+      const op = paginatingBackwards ? 'gt' : 'lt';
+      const createdAt = `"${cursor.created_at}"`;
+      query = query.or(
+        `created_at.${op}.${createdAt},and(created_at.eq.${createdAt},id.${op}.${cursor.id})`
+      );
     }
 
-    const { data: transactions, error } = await query;
+    // Fetch one extra row to know whether another page exists
+    const { data, error } = await query
+      .order('created_at', { ascending: paginatingBackwards })
+      .order('id', { ascending: paginatingBackwards })
+      .limit(limit + 1);
 
     if (error) {
       throw new Error(`Database query error: ${error.message}`);
     }
 
-    return transactions || [];
+    const rows = (data || []) as Transaction[];
+    const hasMore = rows.length > limit;
+    const page = rows.slice(0, limit);
+
+    return {
+      transactions: paginatingBackwards ? page.reverse() : page,
+      has_more: hasMore,
+      total_count: count || 0,
+    };
   }
 
   /**
@@ -334,11 +567,23 @@ class PaymentsService {
     transactionId: string,
     refundData: RefundData
   ): Promise<RefundResponse> {
-    const { amount, reason } = refundData;
-
     // Validate merchant
     const merchant = await merchantsService.getMerchantByApiKey(apiKey);
 
+    return this.refundPaymentForMerchant(merchant, transactionId, refundData);
+  }
+
+  /**
+   * Refund a payment for an already resolved merchant
+   * Used by API-key requests and by batch jobs
+   */
+  async refundPaymentForMerchant(
+    merchant: Merchant,
+    transactionId: string,
+    refundData: RefundData
+  ): Promise<RefundResponse> {
+    const { amount, reason, idempotency_key } = refundData;
+
     // Get transaction
     const transaction = await db.findById<Transaction>('transactions', transactionId);
 
@@ -369,17 +614,23 @@ class PaymentsService {
       );
     }
 
-    // Create refund with Stripe
-    const stripeRefund = await stripe.refunds.create({
+    assertValidAmount(refundAmount, transaction.currency, { enforceMinimum: false });
+
+    // Create refund with the processor that took the payment
+    const stripeRefund = await getProcessor(transaction.processor).createRefund({
       payment_intent: transaction.stripe_payment_intent_id,
       amount: refundAmount,
-      reason: reason as Stripe.RefundCreateParams.Reason || 'requested_by_customer',
+      // Free-text reasons are kept on the refund record; the processor only takes its own codes
+      reason: STRIPE_REFUND_REASONS.includes(reason as Stripe.RefundCreateParams.Reason)
+        ? reason as Stripe.RefundCreateParams.Reason
+        : 'requested_by_customer',
       metadata: {
         merchant_id: merchant.id,
         transaction_id: transactionId,
       },
     }, {
-      stripeAccount: merchant.stripe_account_id,
+      account: merchant.stripe_account_id,
+      idempotencyKey: idempotency_key,
     });
 
     // Create refund record
@@ -392,23 +643,25 @@ class PaymentsService {
       status: stripeRefund.status === 'succeeded' ? 'succeeded' : 'pending',
     });
 
-    // Update transaction
-    const newRefundedAmount = totalRefunded + refundAmount;
-    const isFullyRefunded = newRefundedAmount >= transaction.amount;
-
+    // Hold the amount against the payment; a failed or canceled refund releases it
     await db.update<Transaction>('transactions', transactionId, {
       refunded: true,
-      refunded_amount: newRefundedAmount,
+      refunded_amount: totalRefunded + refundAmount,
       refunded_at: new Date().toISOString(),
-      status: isFullyRefunded ? 'refunded' : transaction.status,
     } as any);
 
+    // Pending refunds settle (and reverse their splits) through charge.refund.updated
+    const splitAmountReversed = refund.status === 'succeeded'
+      ? await refundsService.handleSucceeded(refund)
+      : 0;
+
     return {
       refund_id: refund.id,
       transaction_id: transactionId,
       amount: refundAmount,
       status: refund.status,
       stripe_refund_id: stripeRefund.id,
+      ...(splitAmountReversed > 0 && { split_amount_reversed: splitAmountReversed }),
     };
   }
 
@@ -432,30 +685,311 @@ class PaymentsService {
     }
 
     // Check if transaction is cancelable
-    if (transaction.status !== 'pending' && transaction.status !== 'processing') {
-      throw new AppError('Only pending or processing transactions can be canceled', 400, 'NOT_CANCELABLE');
+    if (!['pending', 'requires_action', 'processing'].includes(transaction.status)) {
+      throw new AppError('Only pending, requires_action or processing transactions can be canceled', 400, 'NOT_CANCELABLE');
     }
 
-    // Cancel payment intent with Stripe
+    // Cancel payment intent with the processor
     if (transaction.stripe_payment_intent_id) {
-      await stripe.paymentIntents.cancel(
+      await getProcessor(transaction.processor).cancelPaymentIntent(
         transaction.stripe_payment_intent_id,
         {},
-        { stripeAccount: merchant.stripe_account_id }
+        { account: merchant.stripe_account_id }
       );
     }
 
     // Update transaction
-    await db.update<Transaction>('transactions', transactionId, {
+    await transactionLifecycle.transition(transaction, 'canceled', {
+      source: 'api',
+      reason: 'canceled_by_merchant',
+    });
+
+    return {
+      transaction_id: transactionId,
       status: 'canceled',
-      canceled_at: new Date().toISOString(),
-    } as any);
+    };
+  }
+
+  /**
+   * Capture an authorized payment (full or partial)
+   */
+  async capturePayment(
+    apiKey: string,
+    transactionId: string,
+    captureData: CaptureData = {}
+  ): Promise<CaptureResponse> {
+    // Validate merchant
+    const merchant = await merchantsService.getMerchantByApiKey(apiKey);
+
+    return this.capturePaymentForMerchant(merchant, transactionId, captureData);
+  }
+
+  /**
+   * Capture an authorized payment for an already resolved merchant
+   * Used by API-key requests and by approved reviews
+   */
+  async capturePaymentForMerchant(
+    merchant: Merchant,
+    transactionId: string,
+    captureData: CaptureData = {}
+  ): Promise<CaptureResponse> {
+    // Get transaction
+    const transaction = await db.findById<Transaction>('transactions', transactionId);
+
+    if (!transaction || transaction.merchant_id !== merchant.id) {
+      throw new AppError('Transaction not found', 404, 'TRANSACTION_NOT_FOUND');
+    }
+
+    if (transaction.status !== 'requires_capture') {
+      throw new AppError('Only authorized payments can be captured', 400, 'NOT_CAPTURABLE');
+    }
+
+    if (transaction.authorization_expires_at && new Date(transaction.authorization_expires_at) < new Date()) {
+      throw new AppError('Authorization has expired', 400, 'AUTHORIZATION_EXPIRED');
+    }
+
+    // Validate capture amount
+    const amountCapturable = transaction.amount_capturable ?? transaction.amount;
+    const captureAmount = captureData.amount || amountCapturable;
+
+    if (captureAmount > amountCapturable) {
+      throw new AppError(
+        `Capture amount exceeds authorized amount. Capturable: ${amountCapturable}`,
+        400,
+        'INVALID_CAPTURE_AMOUNT'
+      );
+    }
+
+    assertValidAmount(captureAmount, transaction.currency, { enforceMinimum: false });
+
+    // Fee is charged on the captured amount, not the authorized amount.
+    // The card is known by now, so the international surcharge can be applied.
+    const feeQuote = await pricingService.calculateFee(merchant, {
+      amount: captureAmount,
+      currency: transaction.currency,
+      payment_method: transaction.payment_method,
+      card_country: await this.getCardCountry(transaction, merchant),
+    });
+    const platformFee = feeQuote.platform_fee;
+
+    // Splits follow the captured amount
+    const splitAmount = transaction.split_amount
+      ? await splitsService.rescaleForCapture(transaction, captureAmount, platformFee)
+      : 0;
+
+    const paymentIntent = await getProcessor(transaction.processor).capturePaymentIntent(
+      transaction.stripe_payment_intent_id,
+      {
+        amount_to_capture: captureAmount,
+        application_fee_amount: platformFee + splitAmount,
+      },
+      { account: merchant.stripe_account_id }
+    );
+
+    const captureFields = {
+      amount: captureAmount,
+      amount_authorized: transaction.amount_authorized ?? transaction.amount,
+      amount_capturable: 0,
+      platform_fee: platformFee,
+      merchant_amount: captureAmount - platformFee - splitAmount,
+      split_amount: splitAmount,
+      pricing_plan_id: feeQuote.pricing_plan_id,
+      pricing_plan_version: feeQuote.pricing_plan_version,
+      fee_breakdown: feeQuote.fee_breakdown,
+      captured_at: new Date().toISOString(),
+    };
+
+    // The payment_intent.succeeded webhook completes the transition to succeeded
+    try {
+      await transactionLifecycle.transition(transaction, 'processing', {
+        source: 'api',
+        reason: 'capture_requested',
+        fields: captureFields,
+        metadata: { amount_captured: captureAmount, stripe_status: paymentIntent.status },
+      });
+    } catch (error) {
+      if (!(error instanceof AppError) || error.code !== 'INVALID_STATUS_TRANSITION') {
+        throw error;
+      }
+      // The webhook already finalized the payment - still record what was captured
+      await db.update<Transaction>('transactions', transactionId, captureFields);
+    }
+
+    return {
+      transaction_id: transactionId,
+      amount_captured: captureAmount,
+      amount_authorized: transaction.amount_authorized ?? transaction.amount,
+      platform_fee: platformFee,
+      status: 'processing',
+    };
+  }
+
+  /**
+   * Void an authorized payment, releasing the hold on the customer's funds
+   */
+  async voidPayment(apiKey: string, transactionId: string): Promise<CancelResponse> {
+    // Validate merchant
+    const merchant = await merchantsService.getMerchantByApiKey(apiKey);
+
+    // Get transaction
+    const transaction = await db.findById<Transaction>('transactions', transactionId);
+
+    if (!transaction || transaction.merchant_id !== merchant.id) {
+      throw new AppError('Transaction not found', 404, 'TRANSACTION_NOT_FOUND');
+    }
+
+    if (transaction.status !== 'requires_capture') {
+      throw new AppError('Only authorized payments can be voided', 400, 'NOT_VOIDABLE');
+    }
+
+    await getProcessor(transaction.processor).cancelPaymentIntent(
+      transaction.stripe_payment_intent_id,
+      { cancellation_reason: 'requested_by_customer' },
+      { account: merchant.stripe_account_id }
+    );
+
+    await transactionLifecycle.transition(transaction, 'canceled', {
+      source: 'api',
+      reason: 'authorization_voided',
+      fields: { amount_capturable: 0 },
+    });
 
     return {
       transaction_id: transactionId,
       status: 'canceled',
     };
   }
+
+  /**
+   * Apply list filters shared by the page query and the count query
+   */
+  private applyListFilters(query: any, merchantId: string, options: ListPaymentsOptions, customerIds?: string[]): any {
+    query = query.eq('merchant_id', merchantId);
+
+    if (options.status) {
+      query = query.eq('status', options.status);
+    }
+
+    if (options.start_date) {
+      query = query.gte('created_at', options.start_date);
+    }
+
+    if (options.end_date) {
+      query = query.lte('created_at', options.end_date);
+    }
+
+    if (customerIds) {
+      query = query.in('customer_id', customerIds);
+    }
+
+    if (options.amount_gte !== undefined) {
+      query = query.gte('amount', options.amount_gte);
+    }
+
+    if (options.amount_lte !== undefined) {
+      query = query.lte('amount', options.amount_lte);
+    }
+
+    if (options.currency) {
+      query = query.eq('currency', options.currency.toLowerCase());
+    }
+
+    if (options.payment_method) {
+      query = query.eq('payment_method', options.payment_method);
+    }
+
+    if (options.metadata && Object.keys(options.metadata).length > 0) {
+      query = query.contains('metadata', options.metadata);
+    }
+
+    return query;
+  }
+
+  /**
+   * Confirm a payment intent with a saved payment method
+   * Without a return URL the customer isn't present (off-session); with one they can
+   * be sent to authenticate, and the response carries the next_action.
+   * Declines are reported in the response; payment_intent.payment_failed records them.
+   */
+  private async confirmSavedMethod(
+    processor: PaymentProcessor,
+    paymentIntentId: string,
+    merchant: Merchant,
+    options: { return_url?: string; idempotency_key?: string }
+  ): Promise<ConfirmationResult> {
+    const { return_url, idempotency_key } = options;
+
+    try {
+      const paymentIntent = await processor.confirmPaymentIntent(
+        paymentIntentId,
+        return_url ? { return_url } : { off_session: true },
+        {
+          account: merchant.stripe_account_id,
+          idempotencyKey: idempotency_key && `${idempotency_key}:confirm`,
+        }
+      );
+
+      if (paymentIntent.last_payment_error) {
+        return {
+          status: 'failed',
+          failure_code: paymentIntent.last_payment_error.code,
+          failure_message: paymentIntent.last_payment_error.message,
+        };
+      }
+
+      return {
+        status: CONFIRMATION_STATUSES[paymentIntent.status] || 'pending',
+        ...(paymentIntent.status === 'requires_action' && { next_action: paymentIntent.next_action }),
+      };
+    } catch (error: any) {
+      // Stripe raises declines (including authentication_required) as card errors
+      if (error.type === 'StripeCardError') {
+        return {
+          status: 'failed',
+          failure_code: error.code,
+          failure_message: error.message,
+        };
+      }
+
+      throw error;
+    }
+  }
+
+  /**
+   * Whether any of the merchant's amount threshold rules (3D Secure, review) cover this amount
+   * Rules without a currency are in two-decimal units, scaled to the payment currency.
+   */
+  private meetsAmountThreshold(rules: AmountThresholdRule[] | undefined, amount: number, currency: string): boolean {
+    const paymentCurrency = currency.toLowerCase();
+
+    return (rules || []).some((rule) => {
+      if (rule.currency && rule.currency.toLowerCase() !== paymentCurrency) {
+        return false;
+      }
+
+      const minAmount = rule.currency ? rule.min_amount : fromTwoDecimalUnits(rule.min_amount, paymentCurrency);
+      return amount >= minAmount;
+    });
+  }
+
+  /**
+   * Issuing country of the card behind an authorized charge
+   */
+  private async getCardCountry(transaction: Transaction, merchant: Merchant): Promise<string | null> {
+    if (!transaction.stripe_charge_id) {
+      return null;
+    }
+
+    try {
+      const charge = await getProcessor(transaction.processor).retrieveCharge(transaction.stripe_charge_id, {
+        account: merchant.stripe_account_id,
+      });
+      return charge.payment_method_details?.card?.country || null;
+    } catch (error) {
+      console.error('Failed to load card country for pricing:', error);
+      return null;
+    }
+  }
 }
 
 export default new PaymentsService();
@@ -0,0 +1,134 @@
+import { describe, it, expect, beforeEach, mock } from 'bun:test';
+import { fakeSupabase } from '../test/fakeSupabase';
+import { installFakeLedger, ledgerBalance } from '../test/fakeLedger';
+import { fakeProcessor, fakeProcessorsModule } from '../test/fakeProcessor';
+
+mock.module('@supabase/supabase-js', () => ({ createClient: () => fakeSupabase.client }));
+mock.module('./processors', () => fakeProcessorsModule);
+mock.module('./merchantWebhooks.service', () => ({ default: { send: async () => {} } }));
+
+const { default: payoutsService } = await import('./payouts.service');
+const { default: ledgerService } = await import('./ledger.service');
+
+installFakeLedger(fakeSupabase);
+fakeSupabase.unique('payouts', ['merchant_id', 'idempotency_key'], (row) => row.idempotency_key != null);
+fakeSupabase.unique('payouts', ['merchant_id'], (row) => row.status === 'pending');
+
+const MERCHANT_ID = 'merchant_1';
+
+const balance = (type: string, currency = 'USD') => ledgerBalance(fakeSupabase, MERCHANT_ID, type, currency);
+
+const fund = (amount: number, currency = 'USD') => ledgerService.move(MERCHANT_ID, {
+  from: 'processor_clearing',
+  to: 'merchant_available',
+  amount,
+  currency,
+  source: 'release',
+  description: 'Funds released',
+});
+
+const journalKeys = () => fakeSupabase.rows('ledger_journals').map((journal) => journal.idempotency_key).filter(Boolean);
+
+describe('PayoutsService', () => {
+  beforeEach(async () => {
+    fakeSupabase.reset();
+    fakeProcessor.reset();
+    fakeSupabase.seed('merchants', [{
+      id: MERCHANT_ID,
+      default_currency: 'USD',
+      environment: 'live',
+      stripe_account_id: 'acct_1',
+      stripe_charges_enabled: true,
+      stripe_payouts_enabled: true,
+      payout_schedule: 'daily',
+      payout_minimum_amount: 0,
+    }]);
+
+    await fund(1000);
+  });
+
+  it('transfers the available balance and debits it from the ledger', async () => {
+    const payout = await payoutsService.createPayout(MERCHANT_ID);
+
+    expect(payout).toMatchObject({ amount: 1000, currency: 'USD', status: 'in_transit', trigger: 'manual' });
+    expect(payout.stripe_transfer_id).toBeTruthy();
+    expect(payout.stripe_payout_id).toBeTruthy();
+
+    expect(balance('merchant_available')).toBe(0);
+    expect(balance('processor_clearing')).toBe(0);
+    expect(journalKeys()).toEqual([`payout_${payout.stripe_transfer_id}`]);
+
+    const [[transfer, transferOptions]] = fakeProcessor.callsTo('createTransfer');
+    expect(transfer).toMatchObject({ amount: 1000, currency: 'USD', destination: 'acct_1' });
+    expect(transferOptions.idempotencyKey).toBe(`payout_${payout.id}_transfer`);
+    expect(fakeProcessor.callsTo('createPayout')[0][1]).toEqual({ account: 'acct_1', idempotencyKey: `payout_${payout.id}_bank` });
+  });
+
+  it('fails the payout without touching the ledger when the transfer fails', async () => {
+    fakeProcessor.stub('createTransfer', async () => {
+      throw new Error('Insufficient platform balance');
+    });
+
+    await expect(payoutsService.createPayout(MERCHANT_ID)).rejects.toMatchObject({ code: 'PAYOUT_FAILED' });
+
+    expect(fakeSupabase.rows('payouts')[0]).toMatchObject({ status: 'failed', failure_code: 'transfer_failed' });
+    expect(journalKeys()).toEqual([]);
+    expect(balance('merchant_available')).toBe(1000);
+  });
+
+  it('reverses the transfer and restores the balance when the bank payout fails', async () => {
+    const payout = await payoutsService.createPayout(MERCHANT_ID);
+    const stripePayout = { id: payout.stripe_payout_id, failure_code: 'account_closed', metadata: {} } as any;
+
+    await payoutsService.handlePayoutEvent(stripePayout, 'payout.failed');
+    await payoutsService.handlePayoutEvent(stripePayout, 'payout.failed');
+
+    expect(fakeSupabase.rows('payouts')[0]).toMatchObject({ status: 'failed', failure_code: 'account_closed' });
+    expect(fakeProcessor.callsTo('createTransferReversal')).toEqual([
+      [payout.stripe_transfer_id, { metadata: { payout_id: payout.id } }, { idempotencyKey: `payout_${payout.id}_reversal` }],
+    ]);
+    expect(balance('merchant_available')).toBe(1000);
+    expect(journalKeys()).toEqual([`payout_${payout.stripe_transfer_id}`, `payout_reversed_${payout.id}`]);
+  });
+
+  it('reverses the transfer when the bank payout cannot be created', async () => {
+    fakeProcessor.stub('createPayout', async () => {
+      throw new Error('Bank account closed');
+    });
+
+    await expect(payoutsService.createPayout(MERCHANT_ID)).rejects.toMatchObject({ code: 'PAYOUT_FAILED' });
+
+    expect(fakeSupabase.rows('payouts')[0]).toMatchObject({ status: 'failed', failure_code: 'payout_failed' });
+    expect(fakeProcessor.callsTo('createTransferReversal')).toHaveLength(1);
+    expect(balance('merchant_available')).toBe(1000);
+  });
+
+  it('refuses payouts for sandbox merchants', async () => {
+    fakeSupabase.rows('merchants')[0].environment = 'sandbox';
+
+    await expect(payoutsService.createPayout(MERCHANT_ID)).rejects.toMatchObject({ code: 'SANDBOX_PAYOUTS_UNSUPPORTED' });
+
+    expect(fakeProcessor.calls).toEqual([]);
+  });
+
+  it('pays out each currency on schedule, holding the default currency below the minimum', async () => {
+    fakeSupabase.rows('merchants')[0].payout_minimum_amount = 2000;
+    await fund(500, 'EUR');
+    const now = new Date();
+    const day = now.toISOString().slice(0, 10);
+
+    expect(await payoutsService.runScheduled(now)).toEqual({ created: 1, skipped: 1, failed: 0 });
+    expect(await payoutsService.runScheduled(now)).toEqual({ created: 0, skipped: 1, failed: 0 });
+
+    const payouts = fakeSupabase.rows('payouts');
+    expect(payouts).toHaveLength(1);
+    expect(payouts[0]).toMatchObject({
+      amount: 500,
+      currency: 'EUR',
+      trigger: 'scheduled',
+      idempotency_key: `scheduled_${day}_EUR`,
+    });
+    expect(balance('merchant_available', 'EUR')).toBe(0);
+    expect(balance('merchant_available')).toBe(1000);
+  });
+});
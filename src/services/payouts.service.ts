@@ -0,0 +1,611 @@
+import Stripe from 'stripe';
+import db from './database.service';
+import ledgerService from './ledger.service';
+import merchantWebhooksService from './merchantWebhooks.service';
+import posthogService from './posthog.service';
+import { stripeProcessor } from './processors';
+import { AppError } from '../middleware/errorHandler';
+import { Merchant } from './merchants.service';
+
+export type PayoutSchedule = 'manual' | 'daily' | 'weekly' | 'monthly';
+
+export type PayoutStatus = 'pending' | 'in_transit' | 'paid' | 'failed' | 'canceled';
+
+export const PAYOUT_WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'] as const;
+
+export type PayoutWeekday = typeof PAYOUT_WEEKDAYS[number];
+
+export interface PayoutSettings {
+  schedule: PayoutSchedule;
+  weekly_anchor: PayoutWeekday | null;
+  monthly_anchor: number | null;
+  // Smallest payout, in the merchant's default currency
+  minimum_amount: number;
+}
+
+export interface Payout {
+  id: string;
+  merchant_id: string;
+  amount: number;
+  currency: string;
+  status: PayoutStatus;
+  trigger: 'manual' | 'scheduled';
+  destination: string;
+  stripe_transfer_id?: string | null;
+  stripe_payout_id?: string | null;
+  arrival_date?: string | null;
+  failure_code?: string | null;
+  failure_message?: string | null;
+  idempotency_key?: string | null;
+  paid_at?: string | null;
+  failed_at?: string | null;
+  created_at: string;
+  updated_at?: string;
+}
+
+interface CreatePayoutInput {
+  // Defaults to the whole available balance
+  amount?: number;
+  // Defaults to the merchant's default currency
+  currency?: string;
+  trigger?: Payout['trigger'];
+  idempotency_key?: string;
+}
+
+interface ListPayoutsOptions {
+  limit?: number;
+  offset?: number;
+  status?: PayoutStatus;
+}
+
+interface ListPayoutsResult {
+  payouts: Payout[];
+  total_count: number;
+  has_more: boolean;
+}
+
+interface ScheduledRunResult {
+  created: number;
+  skipped: number;
+  failed: number;
+}
+
+// A payout still pending after this long lost its process mid-transfer and is retried
+const STALE_PENDING_MS = 60 * 60 * 1000;
+
+const OPEN_STATUSES: PayoutStatus[] = ['pending', 'in_transit'];
+
+/**
+ * Merchant payouts
+ * The available balance is transferred to the merchant's connected account and
+ * paid out to its bank in one payout per transfer, on demand or on the
+ * merchant's schedule; transfer.* and payout.* events move the payout to paid,
+ * or to failed/canceled, which returns the amount to the available balance.
+ * Only live balances are paid out: sandbox merchants have nothing in the ledger
+ * to pay and no real account to pay it to.
+ */
+class PayoutsService {
+  async getSettings(merchantId: string): Promise<PayoutSettings> {
+    const merchant = await this.getMerchant(merchantId);
+    return this.toSettings(merchant);
+  }
+
+  /**
+   * Update a merchant's payout schedule and minimum
+   * Weekly schedules need a weekday and monthly schedules a day of the month.
+   */
+  async updateSettings(merchantId: string, input: Partial<PayoutSettings>): Promise<PayoutSettings> {
+    const merchant = await this.getMerchant(merchantId);
+    const settings = { ...this.toSettings(merchant), ...input };
+
+    if (settings.schedule === 'weekly' && !settings.weekly_anchor) {
+      throw new AppError('Weekly payouts need a weekly_anchor (day of the week)', 400, 'INVALID_PAYOUT_SCHEDULE');
+    }
+
+    if (settings.schedule === 'monthly' && !settings.monthly_anchor) {
+      throw new AppError('Monthly payouts need a monthly_anchor (day of the month)', 400, 'INVALID_PAYOUT_SCHEDULE');
+    }
+
+    const updated = await db.update<Merchant>('merchants', merchantId, {
+      payout_schedule: settings.schedule,
+      payout_weekly_anchor: settings.schedule === 'weekly' ? settings.weekly_anchor : null,
+      payout_monthly_anchor: settings.schedule === 'monthly' ? settings.monthly_anchor : null,
+      payout_minimum_amount: settings.minimum_amount,
+    });
+
+    // Our schedule replaces Stripe's: each transfer is paid out on its own
+    if (merchant.stripe_account_id && settings.schedule !== 'manual') {
+      try {
+        await stripeProcessor.updateAccount(merchant.stripe_account_id, {
+          settings: { payouts: { schedule: { interval: 'manual' } } },
+        });
+      } catch (error: any) {
+        console.warn('Failed to switch connected account to manual payouts:', merchant.stripe_account_id, error.message);
+      }
+    }
+
+    return this.toSettings(updated);
+  }
+
+  /**
+   * Pay out all or part of the available balance
+   */
+  async createPayout(merchantId: string, input: CreatePayoutInput = {}): Promise<Payout> {
+    const merchant = await this.getMerchant(merchantId);
+    if (!merchant.stripe_account_id) {
+      throw new AppError('Merchant or Stripe account not found', 404, 'NOT_FOUND');
+    }
+
+    if (!merchant.stripe_charges_enabled || !merchant.stripe_payouts_enabled) {
+      throw new AppError('Account not fully verified', 400, 'ACCOUNT_NOT_VERIFIED');
+    }
+
+    if (merchant.environment === 'sandbox') {
+      throw new AppError('Payouts are not available in sandbox mode', 400, 'SANDBOX_PAYOUTS_UNSUPPORTED');
+    }
+
+    if (input.idempotency_key) {
+      const existing = await db.findOne<Payout>('payouts', { merchant_id: merchantId, idempotency_key: input.idempotency_key });
+      if (existing) {
+        return existing;
+      }
+    }
+
+    const balance = await ledgerService.getBalance(merchantId, input.currency);
+    const amount = input.amount ?? balance.available;
+
+    if (balance.available <= 0 || amount <= 0) {
+      throw new AppError('No available funds to transfer', 400, 'INSUFFICIENT_FUNDS');
+    }
+
+    if (amount > balance.available) {
+      throw new AppError('Payout amount exceeds the available balance', 400, 'INSUFFICIENT_FUNDS');
+    }
+
+    const { minimum_amount } = this.toSettings(merchant);
+    if (this.isDefaultCurrency(merchant, balance.currency) && amount < minimum_amount) {
+      throw new AppError(`Payouts must be at least ${minimum_amount}`, 400, 'PAYOUT_BELOW_MINIMUM');
+    }
+
+    let payout: Payout;
+    try {
+      payout = await db.insert<Payout>('payouts', {
+        merchant_id: merchantId,
+        amount,
+        currency: balance.currency,
+        status: 'pending',
+        trigger: input.trigger || 'manual',
+        destination: merchant.stripe_account_id,
+        idempotency_key: input.idempotency_key || null,
+      });
+    } catch (error) {
+      // Unique pending payout per merchant - another payout is being transferred
+      throw new AppError('Another payout is in progress', 409, 'PAYOUT_IN_PROGRESS');
+    }
+
+    return this.execute(payout);
+  }
+
+  async getPayout(merchantId: string, payoutId: string): Promise<Payout> {
+    const payout = await db.findOne<Payout>('payouts', { id: payoutId, merchant_id: merchantId });
+    if (!payout) {
+      throw new AppError('Payout not found', 404, 'PAYOUT_NOT_FOUND');
+    }
+
+    return payout;
+  }
+
+  async listPayouts(merchantId: string, options: ListPayoutsOptions = {}): Promise<ListPayoutsResult> {
+    const { limit = 20, offset = 0, status } = options;
+
+    let query = db.getClient()
+      .from('payouts')
+      .select('*', { count: 'exact' })
+      .eq('merchant_id', merchantId);
+
+    if (status) {
+      query = query.eq('status', status);
+    }
+
+    const { data, error, count } = await query
+      .order('created_at', { ascending: false })
+      .range(offset, offset + limit - 1);
+
+    if (error) {
+      throw new Error(`Database query error: ${error.message}`);
+    }
+
+    const payouts = (data || []) as Payout[];
+
+    return {
+      payouts,
+      total_count: count || 0,
+      has_more: offset + payouts.length < (count || 0),
+    };
+  }
+
+  /**
+   * Pay out every merchant whose schedule falls on this UTC day (scheduled)
+   * Each currency with an available balance is paid out on its own; a default
+   * currency balance below the merchant's minimum waits for the next scheduled day.
+   */
+  async runScheduled(now: Date = new Date()): Promise<ScheduledRunResult> {
+    await this.retryStalePending(now);
+
+    const { data, error } = await db.getClient()
+      .from('merchants')
+      .select('*')
+      .neq('payout_schedule', 'manual')
+      .not('stripe_account_id', 'is', null)
+      .eq('stripe_payouts_enabled', true)
+      .neq('environment', 'sandbox');
+
+    if (error) {
+      throw new Error(`Database query error: ${error.message}`);
+    }
+
+    const result: ScheduledRunResult = { created: 0, skipped: 0, failed: 0 };
+    const day = now.toISOString().slice(0, 10);
+
+    for (const merchant of (data || []) as Merchant[]) {
+      const settings = this.toSettings(merchant);
+      if (!this.isDue(settings, now)) {
+        continue;
+      }
+
+      let balances: { currency: string; available: number }[];
+      try {
+        balances = await this.listAvailableBalances(merchant.id);
+      } catch (error: any) {
+        console.error(`Scheduled payout failed for merchant ${merchant.id}:`, error.message);
+        result.failed++;
+        continue;
+      }
+
+      for (const { currency, available } of balances) {
+        try {
+          if (this.isDefaultCurrency(merchant, currency) && available < settings.minimum_amount) {
+            result.skipped++;
+            continue;
+          }
+
+          // The default currency keeps the key it had before payouts were per currency
+          const key = this.isDefaultCurrency(merchant, currency) ? `scheduled_${day}` : `scheduled_${day}_${currency}`;
+          await this.createPayout(merchant.id, { currency, trigger: 'scheduled', idempotency_key: key });
+          result.created++;
+        } catch (error: any) {
+          console.error(`Scheduled ${currency} payout failed for merchant ${merchant.id}:`, error.message);
+          result.failed++;
+        }
+      }
+    }
+
+    console.log(`Scheduled payouts for ${day}: ${result.created} created, ${result.skipped} below minimum, ${result.failed} failed`);
+
+    return result;
+  }
+
+  /**
+   * transfer.created / transfer.reversed on the platform account
+   */
+  async handleTransferEvent(transfer: Stripe.Transfer, eventType: string): Promise<void> {
+    const payout = await this.findByProcessorObject('stripe_transfer_id', transfer.id, transfer.metadata?.payout_id);
+    if (!payout) {
+      return;
+    }
+
+    if (eventType === 'transfer.created' && !payout.stripe_transfer_id) {
+      await db.update<Payout>('payouts', payout.id, { stripe_transfer_id: transfer.id });
+      return;
+    }
+
+    // Reversed outside a failed payout (e.g. from the dashboard): the money is back on the platform
+    if (eventType === 'transfer.reversed' && transfer.amount_reversed >= transfer.amount) {
+      await this.fail(payout, 'failed', {
+        code: 'transfer_reversed',
+        message: 'The transfer to the connected account was reversed',
+        reverseTransfer: false,
+      });
+    }
+  }
+
+  /**
+   * payout.paid / payout.failed / payout.canceled on the merchant's connected account
+   */
+  async handlePayoutEvent(stripePayout: Stripe.Payout, eventType: string): Promise<void> {
+    const payout = await this.findByProcessorObject('stripe_payout_id', stripePayout.id, stripePayout.metadata?.payout_id);
+    if (!payout) {
+      return;
+    }
+
+    if (eventType === 'payout.paid') {
+      const { data: updated, error } = await db.getClient()
+        .from('payouts')
+        .update({
+          status: 'paid',
+          stripe_payout_id: stripePayout.id,
+          arrival_date: new Date(stripePayout.arrival_date * 1000).toISOString(),
+          paid_at: new Date().toISOString(),
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', payout.id)
+        .eq('status', 'in_transit')
+        .select();
+
+      if (error) {
+        throw new Error(`Database update error: ${error.message}`);
+      }
+
+      if (updated && updated.length > 0) {
+        await this.notify(updated[0] as Payout, 'payout.paid');
+        console.log('Payout paid:', payout.id);
+      }
+      return;
+    }
+
+    if (eventType === 'payout.failed' || eventType === 'payout.canceled') {
+      await this.fail(payout, eventType === 'payout.failed' ? 'failed' : 'canceled', {
+        code: stripePayout.failure_code || (eventType === 'payout.canceled' ? 'canceled' : 'payout_failed'),
+        message: stripePayout.failure_message || `The bank payout was ${eventType === 'payout.failed' ? 'rejected' : 'canceled'}`,
+        reverseTransfer: true,
+      });
+    }
+  }
+
+  /**
+   * Transfer to the connected account, debit the ledger, then pay out to the bank
+   * Processor calls are keyed on the payout, so retrying a pending payout doesn't repeat them.
+   */
+  private async execute(payout: Payout): Promise<Payout> {
+    let transfer: Stripe.Transfer;
+    try {
+      transfer = await stripeProcessor.createTransfer({
+        amount: payout.amount,
+        currency: payout.currency,
+        destination: payout.destination,
+        metadata: {
+          merchant_id: payout.merchant_id,
+          payout_id: payout.id,
+          type: 'payout',
+        },
+      }, {
+        idempotencyKey: `payout_${payout.id}_transfer`,
+      });
+    } catch (error: any) {
+      await this.fail(payout, 'failed', { code: 'transfer_failed', message: error.message, reverseTransfer: false });
+      throw new AppError(`Payout transfer failed: ${error.message}`, 500, 'PAYOUT_FAILED');
+    }
+
+    // Move the payout out of the available balance
+    await ledgerService.move(payout.merchant_id, {
+      from: 'merchant_available',
+      to: 'processor_clearing',
+      amount: payout.amount,
+      currency: payout.currency,
+      source: 'payout',
+      description: `Payout to Stripe Account ${payout.destination}`,
+      metadata: { transfer_id: transfer.id, payout_id: payout.id },
+      idempotency_key: `payout_${transfer.id}`,
+    });
+
+    const transferred = await db.update<Payout>('payouts', payout.id, {
+      status: 'in_transit',
+      stripe_transfer_id: transfer.id,
+    });
+
+    let bankPayout: Stripe.Payout;
+    try {
+      bankPayout = await stripeProcessor.createPayout({
+        amount: payout.amount,
+        currency: payout.currency,
+        metadata: { merchant_id: payout.merchant_id, payout_id: payout.id },
+      }, {
+        account: payout.destination,
+        idempotencyKey: `payout_${payout.id}_bank`,
+      });
+    } catch (error: any) {
+      await this.fail(transferred, 'failed', { code: 'payout_failed', message: error.message, reverseTransfer: true });
+      throw new AppError(`Payout to bank failed: ${error.message}`, 500, 'PAYOUT_FAILED');
+    }
+
+    const inTransit = await db.update<Payout>('payouts', payout.id, {
+      stripe_payout_id: bankPayout.id,
+      arrival_date: new Date(bankPayout.arrival_date * 1000).toISOString(),
+    });
+
+    // Track event
+    posthogService.capture(payout.merchant_id, 'payout_initiated', {
+      payout_id: payout.id,
+      amount: payout.amount,
+      currency: payout.currency,
+      transfer_id: transfer.id,
+      trigger: payout.trigger,
+    });
+
+    console.log('Payout in transit:', payout.id, transfer.id, bankPayout.id);
+
+    return inTransit;
+  }
+
+  /**
+   * Close a payout that won't arrive and return its amount to the available balance
+   * Once transferred, the transfer is reversed (unless the processor already did)
+   * and the ledger debit is undone.
+   */
+  private async fail(
+    payout: Payout,
+    status: 'failed' | 'canceled',
+    reason: { code: string; message: string; reverseTransfer: boolean }
+  ): Promise<void> {
+    const { data: updated, error } = await db.getClient()
+      .from('payouts')
+      .update({
+        status,
+        failure_code: reason.code,
+        failure_message: reason.message,
+        failed_at: new Date().toISOString(),
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', payout.id)
+      .in('status', OPEN_STATUSES)
+      .select();
+
+    if (error) {
+      throw new Error(`Database update error: ${error.message}`);
+    }
+
+    if (!updated || updated.length === 0) {
+      return;
+    }
+
+    const failed = updated[0] as Payout;
+
+    if (failed.stripe_transfer_id) {
+      if (reason.reverseTransfer) {
+        await stripeProcessor.createTransferReversal(failed.stripe_transfer_id, {
+          metadata: { payout_id: failed.id },
+        }, {
+          idempotencyKey: `payout_${failed.id}_reversal`,
+        });
+      }
+
+      await ledgerService.move(failed.merchant_id, {
+        from: 'processor_clearing',
+        to: 'merchant_available',
+        amount: failed.amount,
+        currency: failed.currency,
+        source: 'payout',
+        description: `Payout ${status === 'canceled' ? 'canceled' : 'failed'}: ${reason.message}`,
+        metadata: { transfer_id: failed.stripe_transfer_id, payout_id: failed.id },
+        idempotency_key: `payout_reversed_${failed.id}`,
+      });
+    }
+
+    await this.notify(failed, 'payout.failed');
+    console.log(`Payout ${status}:`, failed.id, reason.code);
+  }
+
+  /**
+   * Retry payouts whose process stopped between creation and transfer
+   */
+  private async retryStalePending(now: Date): Promise<void> {
+    const { data, error } = await db.getClient()
+      .from('payouts')
+      .select('*')
+      .eq('status', 'pending')
+      .lt('created_at', new Date(now.getTime() - STALE_PENDING_MS).toISOString());
+
+    if (error) {
+      throw new Error(`Database query error: ${error.message}`);
+    }
+
+    for (const payout of (data || []) as Payout[]) {
+      try {
+        // Not transferred yet, so the balance may have been spent since
+        const { available } = await ledgerService.getBalance(payout.merchant_id, payout.currency);
+        if (!payout.stripe_transfer_id && available < payout.amount) {
+          await this.fail(payout, 'failed', {
+            code: 'insufficient_funds',
+            message: 'The available balance no longer covers this payout',
+            reverseTransfer: false,
+          });
+          continue;
+        }
+
+        await this.execute(payout);
+      } catch (retryError: any) {
+        console.error('Failed to retry pending payout:', payout.id, retryError.message);
+      }
+    }
+  }
+
+  /**
+   * Currencies in which the merchant has a positive available balance
+   */
+  private async listAvailableBalances(merchantId: string): Promise<{ currency: string; available: number }[]> {
+    const { data, error } = await db.getClient()
+      .from('ledger_account_balances')
+      .select('currency, balance')
+      .eq('merchant_id', merchantId)
+      .eq('type', 'merchant_available')
+      .gt('balance', 0);
+
+    if (error) {
+      throw new Error(`Database query error: ${error.message}`);
+    }
+
+    return ((data || []) as { currency: string; balance: number }[])
+      .map((row) => ({ currency: row.currency, available: Number(row.balance) }));
+  }
+
+  private async notify(payout: Payout, eventType: 'payout.paid' | 'payout.failed'): Promise<void> {
+    await merchantWebhooksService.send(payout.merchant_id, eventType, {
+      payout_id: payout.id,
+      amount: payout.amount,
+      currency: payout.currency,
+      status: payout.status,
+      trigger: payout.trigger,
+      arrival_date: payout.arrival_date,
+      ...(eventType === 'payout.failed' && {
+        failure_code: payout.failure_code,
+        failure_message: payout.failure_message,
+      }),
+    });
+  }
+
+  private async findByProcessorObject(
+    column: 'stripe_transfer_id' | 'stripe_payout_id',
+    processorId: string,
+    payoutId?: string
+  ): Promise<Payout | null> {
+    const payout = await db.findOne<Payout>('payouts', { [column]: processorId });
+    if (payout || !payoutId) {
+      return payout;
+    }
+
+    // The event can beat our own update with the processor id
+    return db.findById<Payout>('payouts', payoutId);
+  }
+
+  /**
+   * Daily every day; weekly on its weekday; monthly on its date, or the last day of shorter months
+   */
+  private isDue(settings: PayoutSettings, now: Date): boolean {
+    switch (settings.schedule) {
+      case 'daily':
+        return true;
+      case 'weekly':
+        return PAYOUT_WEEKDAYS[now.getUTCDay()] === settings.weekly_anchor;
+      case 'monthly': {
+        const lastDay = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 0)).getUTCDate();
+        return now.getUTCDate() === Math.min(settings.monthly_anchor || 1, lastDay);
+      }
+      default:
+        return false;
+    }
+  }
+
+  private async getMerchant(merchantId: string): Promise<Merchant> {
+    const merchant = await db.findById<Merchant>('merchants', merchantId);
+    if (!merchant) {
+      throw new AppError('Merchant not found', 404, 'MERCHANT_NOT_FOUND');
+    }
+
+    return merchant;
+  }
+
+  private isDefaultCurrency(merchant: Merchant, currency: string): boolean {
+    return (merchant.default_currency || 'USD').toUpperCase() === currency.toUpperCase();
+  }
+
+  private toSettings(merchant: Merchant): PayoutSettings {
+    return {
+      schedule: merchant.payout_schedule || 'manual',
+      weekly_anchor: (merchant.payout_weekly_anchor as PayoutWeekday) || null,
+      monthly_anchor: merchant.payout_monthly_anchor || null,
+      minimum_amount: merchant.payout_minimum_amount || 0,
+    };
+  }
+}
+
+export default new PayoutsService();
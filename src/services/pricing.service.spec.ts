@@ -0,0 +1,59 @@
+import { describe, it, expect, beforeEach, mock } from 'bun:test';
+import { fakeSupabase } from '../test/fakeSupabase';
+
+mock.module('@supabase/supabase-js', () => ({ createClient: () => fakeSupabase.client }));
+
+const { default: pricingService } = await import('./pricing.service');
+
+const rates = [{ percent: 2.9, fixed: 30 }];
+
+const defaults = () => fakeSupabase.rows('pricing_plans')
+  .filter((plan) => plan.is_default)
+  .map((plan) => `${plan.plan_key}@${plan.version}`);
+
+describe('PricingService.savePlan', () => {
+  beforeEach(() => {
+    fakeSupabase.reset();
+  });
+
+  it('keeps only the newest version of the default plan as default', async () => {
+    await pricingService.savePlan({ plan_key: 'standard', name: 'Standard', rates, is_default: true });
+    await pricingService.savePlan({ plan_key: 'standard', name: 'Standard', rates });
+    const latest = await pricingService.savePlan({ plan_key: 'standard', name: 'Standard', rates });
+
+    expect(latest.version).toBe(3);
+    expect(latest.is_default).toBe(true);
+    expect(defaults()).toEqual(['standard@3']);
+  });
+
+  it('moves the default to a new plan key', async () => {
+    await pricingService.savePlan({ plan_key: 'standard', name: 'Standard', rates, is_default: true });
+    await pricingService.savePlan({ plan_key: 'standard', name: 'Standard', rates });
+    await pricingService.savePlan({ plan_key: 'growth', name: 'Growth', rates, is_default: true });
+
+    expect(defaults()).toEqual(['growth@1']);
+  });
+
+  it('clears the default from every version when a new version gives it up', async () => {
+    await pricingService.savePlan({ plan_key: 'standard', name: 'Standard', rates, is_default: true });
+    await pricingService.savePlan({ plan_key: 'standard', name: 'Standard', rates, is_default: false });
+
+    expect(defaults()).toEqual([]);
+  });
+
+  it('leaves other default plans alone when saving a non-default plan', async () => {
+    await pricingService.savePlan({ plan_key: 'standard', name: 'Standard', rates, is_default: true });
+    await pricingService.savePlan({ plan_key: 'growth', name: 'Growth', rates });
+
+    expect(defaults()).toEqual(['standard@1']);
+  });
+
+  it('resolves merchants without a plan to the newest default version', async () => {
+    await pricingService.savePlan({ plan_key: 'standard', name: 'Standard', rates, is_default: true });
+    await pricingService.savePlan({ plan_key: 'standard', name: 'Standard v2', rates });
+
+    const plan = await pricingService.getPlanForMerchant({ id: 'merchant_1' } as any);
+
+    expect(plan?.name).toBe('Standard v2');
+  });
+});
@@ -0,0 +1,348 @@
+import db from './database.service';
+import { Merchant } from './merchants.service';
+import { AppError } from '../middleware/errorHandler';
+import { fromTwoDecimalUnits } from '../config/currencies.config';
+
+export interface PricingRate {
+  currency?: string | null;
+  payment_method?: string | null;
+  percent: number;
+  // Minor units of `currency`; for currency wildcards, two-decimal units scaled to the charge currency
+  fixed: number;
+}
+
+export interface VolumeTier {
+  min_volume: number;
+  percent_discount: number;
+}
+
+export interface PricingPlan {
+  id: string;
+  plan_key: string;
+  version: number;
+  name: string;
+  description?: string | null;
+  rates: PricingRate[];
+  volume_tiers: VolumeTier[];
+  minimum_fee: number;
+  international_card_surcharge_percent: number;
+  is_default: boolean;
+  created_at?: string;
+}
+
+export interface CreatePricingPlanData {
+  plan_key: string;
+  name: string;
+  description?: string;
+  rates: PricingRate[];
+  volume_tiers?: VolumeTier[];
+  minimum_fee?: number;
+  international_card_surcharge_percent?: number;
+  is_default?: boolean;
+}
+
+interface FeeInput {
+  amount: number;
+  currency: string;
+  payment_method?: string;
+  card_country?: string | null;
+}
+
+export interface FeeBreakdown {
+  percent: number;
+  fixed: number;
+  tier_discount_percent: number;
+  international_surcharge_percent: number;
+  minimum_fee: number;
+  minimum_applied: boolean;
+}
+
+/**
+ * How much of the platform fee goes back to the merchant when a payment is refunded
+ * (REFUND_APPLICATION_FEE_POLICY):
+ * - none: the platform keeps the fee (default)
+ * - proportional: each refund returns its share of the fee
+ * - full_refund_only: the whole fee is returned once the payment is fully refunded
+ */
+export type RefundFeePolicy = 'none' | 'proportional' | 'full_refund_only';
+
+const REFUND_FEE_POLICIES: RefundFeePolicy[] = ['none', 'proportional', 'full_refund_only'];
+
+interface RefundFeeInput {
+  amount: number;
+  platform_fee: number;
+  // Settled refunds before this one
+  refunded_before: number;
+  fee_refunded_before: number;
+}
+
+export interface FeeQuote {
+  platform_fee: number;
+  pricing_plan_id: string | null;
+  pricing_plan_version: number | null;
+  fee_breakdown: FeeBreakdown;
+}
+
+class PricingService {
+  /**
+   * Get the latest version of a plan by key
+   */
+  async getPlan(planKey: string): Promise<PricingPlan | null> {
+    const plans = await db.findMany<PricingPlan>(
+      'pricing_plans',
+      { plan_key: planKey },
+      { limit: 1, orderBy: 'version:desc' }
+    );
+
+    return plans[0] || null;
+  }
+
+  /**
+   * Get the plan that applies to a merchant (assigned plan, else the default plan)
+   */
+  async getPlanForMerchant(merchant: Merchant): Promise<PricingPlan | null> {
+    if (merchant.pricing_plan_key) {
+      const plan = await this.getPlan(merchant.pricing_plan_key);
+      if (plan) {
+        return plan;
+      }
+      console.warn(`Pricing plan ${merchant.pricing_plan_key} not found for merchant ${merchant.id}, using default`);
+    }
+
+    const defaults = await db.findMany<PricingPlan>(
+      'pricing_plans',
+      { is_default: true },
+      { limit: 1, orderBy: 'version:desc' }
+    );
+
+    return defaults[0] || null;
+  }
+
+  /**
+   * List the latest version of every plan
+   */
+  async listPlans(): Promise<PricingPlan[]> {
+    const plans = await db.findMany<PricingPlan>('pricing_plans', {}, { orderBy: 'version:desc' });
+
+    const latest = new Map<string, PricingPlan>();
+    for (const plan of plans) {
+      if (!latest.has(plan.plan_key)) {
+        latest.set(plan.plan_key, plan);
+      }
+    }
+
+    return Array.from(latest.values());
+  }
+
+  /**
+   * Create a plan, or a new version of an existing plan key
+   */
+  async savePlan(data: CreatePricingPlanData): Promise<PricingPlan> {
+    const current = await this.getPlan(data.plan_key);
+    const isDefault = data.is_default ?? current?.is_default ?? false;
+
+    // Only the new version may be the default: older versions of the key always
+    // give it up, and every other plan does when the new version takes it
+    let query = db.getClient()
+      .from('pricing_plans')
+      .update({ is_default: false })
+      .eq('is_default', true);
+
+    if (!isDefault) {
+      query = query.eq('plan_key', data.plan_key);
+    }
+
+    const { error } = await query;
+
+    if (error) {
+      throw new Error(`Database update error: ${error.message}`);
+    }
+
+    return db.insert<PricingPlan>('pricing_plans', {
+      plan_key: data.plan_key,
+      version: current ? current.version + 1 : 1,
+      name: data.name,
+      description: data.description,
+      rates: data.rates,
+      volume_tiers: data.volume_tiers || [],
+      minimum_fee: data.minimum_fee || 0,
+      international_card_surcharge_percent: data.international_card_surcharge_percent || 0,
+      is_default: isDefault,
+    });
+  }
+
+  /**
+   * Assign a plan to a merchant
+   */
+  async assignPlan(merchantId: string, planKey: string): Promise<PricingPlan> {
+    const plan = await this.getPlan(planKey);
+
+    if (!plan) {
+      throw new AppError('Pricing plan not found', 404, 'PRICING_PLAN_NOT_FOUND');
+    }
+
+    const merchant = await db.findById<Merchant>('merchants', merchantId);
+
+    if (!merchant) {
+      throw new AppError('Merchant not found', 404, 'MERCHANT_NOT_FOUND');
+    }
+
+    await db.update<Merchant>('merchants', merchantId, { pricing_plan_key: planKey } as any);
+
+    return plan;
+  }
+
+  /**
+   * Calculate the platform fee for a payment under the merchant's plan
+   * Falls back to PLATFORM_FEE_PERCENT / PLATFORM_FEE_FIXED when no plan is configured.
+   */
+  async calculateFee(merchant: Merchant, input: FeeInput): Promise<FeeQuote> {
+    const plan = await this.getPlanForMerchant(merchant);
+
+    const currency = input.currency.toLowerCase();
+
+    if (!plan) {
+      const percent = parseFloat(process.env.PLATFORM_FEE_PERCENT || '2.9');
+      const fixed = fromTwoDecimalUnits(parseInt(process.env.PLATFORM_FEE_FIXED || '30'), currency);
+
+      return {
+        platform_fee: Math.min(Math.round(input.amount * (percent / 100) + fixed), input.amount),
+        pricing_plan_id: null,
+        pricing_plan_version: null,
+        fee_breakdown: {
+          percent,
+          fixed,
+          tier_discount_percent: 0,
+          international_surcharge_percent: 0,
+          minimum_fee: 0,
+          minimum_applied: false,
+        },
+      };
+    }
+
+    const rate = this.selectRate(plan.rates, currency, input.payment_method || 'card');
+
+    if (!rate) {
+      throw new AppError(
+        `No pricing configured for ${currency.toUpperCase()} ${input.payment_method || 'card'} payments`,
+        400,
+        'PRICING_NOT_CONFIGURED'
+      );
+    }
+
+    const tierDiscount = await this.getTierDiscount(plan, merchant.id, currency);
+
+    const isInternational = !!input.card_country && !!merchant.country &&
+      input.card_country.toUpperCase() !== merchant.country.toUpperCase();
+    const surchargePercent = isInternational ? Number(plan.international_card_surcharge_percent || 0) : 0;
+
+    // Wildcard amounts are written in two-decimal units (30 = 0.30) and scaled to the charge currency
+    const fixed = rate.currency ? Number(rate.fixed) : fromTwoDecimalUnits(Number(rate.fixed), currency);
+    const minimumFee = fromTwoDecimalUnits(plan.minimum_fee || 0, currency);
+
+    const effectivePercent = Math.max(Number(rate.percent) - tierDiscount, 0) + surchargePercent;
+    const calculatedFee = Math.round(input.amount * (effectivePercent / 100) + fixed);
+    const minimumApplied = calculatedFee < minimumFee;
+
+    return {
+      // The fee can never exceed the payment itself
+      platform_fee: Math.min(Math.max(calculatedFee, minimumFee), input.amount),
+      pricing_plan_id: plan.id,
+      pricing_plan_version: plan.version,
+      fee_breakdown: {
+        percent: Number(rate.percent),
+        fixed,
+        tier_discount_percent: tierDiscount,
+        international_surcharge_percent: surchargePercent,
+        minimum_fee: minimumFee,
+        minimum_applied: minimumApplied,
+      },
+    };
+  }
+
+  /**
+   * Get the configured refund fee policy
+   */
+  getRefundFeePolicy(): RefundFeePolicy {
+    const policy = (process.env.REFUND_APPLICATION_FEE_POLICY || 'none') as RefundFeePolicy;
+
+    if (!REFUND_FEE_POLICIES.includes(policy)) {
+      console.warn(`Unknown REFUND_APPLICATION_FEE_POLICY "${policy}", platform fees will not be refunded`);
+      return 'none';
+    }
+
+    return policy;
+  }
+
+  /**
+   * Platform fee to return for a settled refund
+   * The refund that completes the payment returns whatever is left, so rounding never strands part of the fee.
+   */
+  calculateRefundedFee(payment: RefundFeeInput, refundAmount: number): number {
+    const policy = this.getRefundFeePolicy();
+    const remainingFee = Math.max((payment.platform_fee || 0) - payment.fee_refunded_before, 0);
+    const completesRefund = payment.refunded_before + refundAmount >= payment.amount;
+
+    if (policy === 'none' || remainingFee === 0) {
+      return 0;
+    }
+
+    if (completesRefund) {
+      return remainingFee;
+    }
+
+    if (policy === 'full_refund_only') {
+      return 0;
+    }
+
+    return Math.min(Math.round(payment.platform_fee * (refundAmount / payment.amount)), remainingFee);
+  }
+
+  /**
+   * Pick the most specific rate for a currency and payment method
+   */
+  private selectRate(rates: PricingRate[], currency: string, paymentMethod: string): PricingRate | null {
+    const candidates = (rates || []).filter((rate) =>
+      (!rate.currency || rate.currency.toLowerCase() === currency) &&
+      (!rate.payment_method || rate.payment_method === paymentMethod)
+    );
+
+    // Currency match outranks payment method match, which outranks a wildcard
+    const specificity = (rate: PricingRate) => (rate.currency ? 2 : 0) + (rate.payment_method ? 1 : 0);
+    candidates.sort((a, b) => specificity(b) - specificity(a));
+
+    return candidates[0] || null;
+  }
+
+  /**
+   * Percent discount earned from month-to-date processed volume
+   */
+  private async getTierDiscount(plan: PricingPlan, merchantId: string, currency: string): Promise<number> {
+    if (!plan.volume_tiers || plan.volume_tiers.length === 0) {
+      return 0;
+    }
+
+    const monthStart = new Date();
+    monthStart.setUTCDate(1);
+    monthStart.setUTCHours(0, 0, 0, 0);
+
+    const { data: volume, error } = await db.getClient().rpc('merchant_processed_volume', {
+      p_merchant_id: merchantId,
+      p_currency: currency,
+      p_since: monthStart.toISOString(),
+    });
+
+    if (error) {
+      console.error('Failed to load processed volume for tiers:', error);
+      return 0;
+    }
+
+    const tier = [...plan.volume_tiers]
+      .sort((a, b) => b.min_volume - a.min_volume)
+      .find((t) => Number(volume || 0) >= t.min_volume);
+
+    return tier ? Number(tier.percent_discount) : 0;
+  }
+}
+
+export default new PricingService();
@@ -0,0 +1,30 @@
+import { EventEmitter } from 'events';
+import Stripe from 'stripe';
+
+/**
+ * In-process event bus for processors that don't deliver HTTP webhooks (the simulator)
+ * WebhooksService subscribes and handles these exactly like verified Stripe webhook events.
+ */
+class ProcessorEvents extends EventEmitter {
+  publish(event: Stripe.Event): void {
+    // Deliver asynchronously, like a webhook arriving after the API call returns
+    setImmediate(() => this.emit('event', event));
+  }
+
+  /**
+   * Handle events one at a time, in publish order (e.g. dispute.created before funds_withdrawn)
+   */
+  subscribe(handler: (event: Stripe.Event) => Promise<unknown>): void {
+    let queue: Promise<unknown> = Promise.resolve();
+
+    this.on('event', (event: Stripe.Event) => {
+      queue = queue
+        .then(() => handler(event))
+        .catch((error) => {
+          console.error(`Failed to handle processor event ${event.type}:`, error);
+        });
+    });
+  }
+}
+
+export default new ProcessorEvents();
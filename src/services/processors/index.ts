@@ -0,0 +1,27 @@
+import stripeProcessor from './stripe.processor';
+import simulatorProcessor from './simulator.processor';
+import { PaymentProcessor, ProcessorName } from './paymentProcessor';
+
+export type { PaymentProcessor, ProcessorName, ProcessorRequestOptions } from './paymentProcessor';
+export { default as processorEvents } from './events';
+export { stripeProcessor, simulatorProcessor };
+
+/**
+ * Processor for an environment
+ * Sandbox traffic runs on the in-process simulator unless SANDBOX_PROCESSOR=stripe
+ * (e.g. to exercise Stripe test mode end to end).
+ */
+export const getProcessorForEnvironment = (environment?: string | null): PaymentProcessor => {
+  if (environment === 'sandbox' && process.env.SANDBOX_PROCESSOR !== 'stripe') {
+    return simulatorProcessor;
+  }
+
+  return stripeProcessor;
+};
+
+/**
+ * Processor that owns an existing object (transactions and disputes record it)
+ */
+export const getProcessor = (name?: ProcessorName | string | null): PaymentProcessor => {
+  return name === 'simulator' ? simulatorProcessor : stripeProcessor;
+};
@@ -0,0 +1,91 @@
+import Stripe from 'stripe';
+
+export type ProcessorName = 'stripe' | 'simulator';
+
+export interface ProcessorRequestOptions {
+  // Connected account the request acts on (direct charges)
+  account?: string;
+  idempotencyKey?: string;
+}
+
+/**
+ * Payment processor interface
+ * Objects use Stripe's shapes, which WebhooksService and the rest of the
+ * codebase already consume, so adapters other than Stripe return the same
+ * structures and emit the same event types.
+ */
+export interface PaymentProcessor {
+  readonly name: ProcessorName;
+
+  // Whether merchants need a connected, verified processor account to charge
+  readonly requiresConnectedAccount: boolean;
+
+  // Customers
+  createCustomer(params: Stripe.CustomerCreateParams, options?: ProcessorRequestOptions): Promise<Stripe.Customer>;
+  updateCustomer(id: string, params: Stripe.CustomerUpdateParams, options?: ProcessorRequestOptions): Promise<Stripe.Customer>;
+  deleteCustomer(id: string, options?: ProcessorRequestOptions): Promise<void>;
+
+  // Saved payment methods
+  createSetupIntent(params: Stripe.SetupIntentCreateParams, options?: ProcessorRequestOptions): Promise<Stripe.SetupIntent>;
+  retrieveSetupIntent(id: string, options?: ProcessorRequestOptions): Promise<Stripe.SetupIntent>;
+  confirmSetupIntent(
+    id: string,
+    params: Stripe.SetupIntentConfirmParams,
+    options?: ProcessorRequestOptions
+  ): Promise<Stripe.SetupIntent>;
+  retrievePaymentMethod(id: string, options?: ProcessorRequestOptions): Promise<Stripe.PaymentMethod>;
+  detachPaymentMethod(id: string, options?: ProcessorRequestOptions): Promise<Stripe.PaymentMethod>;
+
+  // Payment intents
+  createPaymentIntent(params: Stripe.PaymentIntentCreateParams, options?: ProcessorRequestOptions): Promise<Stripe.PaymentIntent>;
+  retrievePaymentIntent(id: string, options?: ProcessorRequestOptions): Promise<Stripe.PaymentIntent>;
+  confirmPaymentIntent(
+    id: string,
+    params: Stripe.PaymentIntentConfirmParams,
+    options?: ProcessorRequestOptions
+  ): Promise<Stripe.PaymentIntent>;
+  capturePaymentIntent(
+    id: string,
+    params: Stripe.PaymentIntentCaptureParams,
+    options?: ProcessorRequestOptions
+  ): Promise<Stripe.PaymentIntent>;
+  cancelPaymentIntent(
+    id: string,
+    params: Stripe.PaymentIntentCancelParams,
+    options?: ProcessorRequestOptions
+  ): Promise<Stripe.PaymentIntent>;
+  retrieveCharge(id: string, options?: ProcessorRequestOptions): Promise<Stripe.Charge>;
+
+  // Refunds
+  createRefund(params: Stripe.RefundCreateParams, options?: ProcessorRequestOptions): Promise<Stripe.Refund>;
+  cancelRefund(id: string, options?: ProcessorRequestOptions): Promise<Stripe.Refund>;
+  // Return part of a charge's application fee to the merchant (null when the charge has no fee)
+  refundApplicationFee(
+    chargeId: string,
+    params: Stripe.FeeRefundCreateParams,
+    options?: ProcessorRequestOptions
+  ): Promise<Stripe.FeeRefund | null>;
+
+  // Disputes
+  updateDispute(id: string, params: Stripe.DisputeUpdateParams, options?: ProcessorRequestOptions): Promise<Stripe.Dispute>;
+  closeDispute(id: string, options?: ProcessorRequestOptions): Promise<Stripe.Dispute>;
+
+  // Transfers
+  createTransfer(params: Stripe.TransferCreateParams, options?: ProcessorRequestOptions): Promise<Stripe.Transfer>;
+  createTransferReversal(
+    transferId: string,
+    params: Stripe.TransferCreateReversalParams,
+    options?: ProcessorRequestOptions
+  ): Promise<Stripe.TransferReversal>;
+
+  // Accounts
+  createAccount(params: Stripe.AccountCreateParams): Promise<Stripe.Account>;
+  retrieveAccount(id: string): Promise<Stripe.Account>;
+  createAccountLink(params: Stripe.AccountLinkCreateParams): Promise<Stripe.AccountLink>;
+  createLoginLink(accountId: string): Promise<Stripe.LoginLink>;
+
+  // Files
+  createFile(params: Stripe.FileCreateParams): Promise<Stripe.File>;
+  retrieveFile(id: string): Promise<Stripe.File>;
+  listFiles(params: Stripe.FileListParams): Promise<Stripe.File[]>;
+}
@@ -0,0 +1,1107 @@
+import Stripe from 'stripe';
+import crypto from 'crypto';
+import { PaymentProcessor, ProcessorRequestOptions } from './paymentProcessor';
+import processorEvents from './events';
+import { AppError } from '../../middleware/errorHandler';
+
+/**
+ * Simulated outcomes for sandbox payments
+ */
+type SimulatedOutcome =
+  | 'succeed'
+  | 'decline'
+  | 'insufficient_funds'
+  | 'expired_card'
+  | 'requires_action'
+  | 'dispute'
+  | 'refund_fail';
+
+/**
+ * Magic test cards (card numbers or pm_card_* tokens)
+ */
+export const SIMULATOR_TEST_CARDS: Record<string, SimulatedOutcome> = {
+  '4242424242424242': 'succeed',
+  '4000000000000002': 'decline',
+  '4000000000009995': 'insufficient_funds',
+  '4000000000000069': 'expired_card',
+  '4000002760003184': 'requires_action',
+  '4000000000000259': 'dispute',
+  '4000000000005126': 'refund_fail',
+  pm_card_visa: 'succeed',
+  pm_card_chargeDeclined: 'decline',
+  pm_card_chargeDeclinedInsufficientFunds: 'insufficient_funds',
+  pm_card_chargeDeclinedExpiredCard: 'expired_card',
+  pm_card_authenticationRequired: 'requires_action',
+  pm_card_createDispute: 'dispute',
+  pm_card_refundFail: 'refund_fail',
+};
+
+/**
+ * Magic amounts (smallest currency unit), used when the card doesn't force an outcome
+ */
+export const SIMULATOR_TEST_AMOUNTS: Record<number, SimulatedOutcome> = {
+  9901: 'decline',
+  9902: 'insufficient_funds',
+  9903: 'expired_card',
+  9910: 'requires_action',
+  9920: 'dispute',
+  9930: 'refund_fail',
+};
+
+const DECLINES: Partial<Record<SimulatedOutcome, { decline_code: string; message: string }>> = {
+  decline: { decline_code: 'generic_decline', message: 'Your card was declined.' },
+  insufficient_funds: { decline_code: 'insufficient_funds', message: 'Your card has insufficient funds.' },
+  expired_card: { decline_code: 'expired_card', message: 'Your card has expired.' },
+};
+
+interface SimulatedIntent {
+  intent: Stripe.PaymentIntent;
+  account?: string;
+  outcome?: SimulatedOutcome;
+  last4?: string;
+}
+
+interface SimulatedSetupIntent {
+  intent: Stripe.SetupIntent;
+  account?: string;
+}
+
+interface SimulatedPaymentMethod {
+  paymentMethod: Stripe.PaymentMethod;
+  outcome?: SimulatedOutcome;
+}
+
+const AUTHORIZATION_WINDOW_SECONDS = 7 * 24 * 60 * 60;
+
+// How long a refund_fail refund stays pending before it fails
+const REFUND_FAILURE_DELAY_MS = 2000;
+
+// Objects of each kind kept in memory; the oldest are dropped first
+const MAX_STORED_OBJECTS = 10000;
+
+// Long enough to capture a manual payment at the end of its authorization window
+const OBJECT_TTL_MS = (AUTHORIZATION_WINDOW_SECONDS + 24 * 60 * 60) * 1000;
+
+// Stripe keeps idempotency keys for 24 hours
+const IDEMPOTENCY_KEY_TTL_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Map whose entries expire a fixed time after they are set, holding at most maxSize
+ * Entries are kept in the order they were set, so expiry and the size cap both
+ * drop from the front.
+ */
+class ExpiringMap<K, V> extends Map<K, V> {
+  private expiresAt = new Map<K, number>();
+
+  constructor(private maxSize: number, private ttlMs: number) {
+    super();
+  }
+
+  get(key: K): V | undefined {
+    return this.isExpired(key) ? undefined : super.get(key);
+  }
+
+  has(key: K): boolean {
+    return !this.isExpired(key) && super.has(key);
+  }
+
+  set(key: K, value: V): this {
+    super.delete(key);
+    super.set(key, value);
+    this.expiresAt.set(key, Date.now() + this.ttlMs);
+
+    for (const oldest of super.keys()) {
+      if (this.size <= this.maxSize && !this.isExpired(oldest)) {
+        break;
+      }
+      this.delete(oldest);
+    }
+
+    return this;
+  }
+
+  delete(key: K): boolean {
+    this.expiresAt.delete(key);
+    return super.delete(key);
+  }
+
+  private isExpired(key: K): boolean {
+    const expiresAt = this.expiresAt.get(key);
+    return expiresAt !== undefined && expiresAt <= Date.now();
+  }
+}
+
+interface IdempotentRequest {
+  operation: string;
+  response: Promise<any>;
+}
+
+/**
+ * In-process payment processor for sandbox (npk_test_) traffic
+ * Keeps state in memory and publishes the same event types Stripe would send,
+ * so the webhook pipeline, ledger and merchant webhooks run end to end without Stripe.
+ * Stored objects expire (see OBJECT_TTL_MS) and requests with an idempotency key
+ * replay their first response, as on Stripe.
+ */
+class SimulatorProcessor implements PaymentProcessor {
+  readonly name = 'simulator' as const;
+  readonly requiresConnectedAccount = false;
+
+  private intents = new ExpiringMap<string, SimulatedIntent>(MAX_STORED_OBJECTS, OBJECT_TTL_MS);
+  private charges = new ExpiringMap<string, Stripe.Charge>(MAX_STORED_OBJECTS, OBJECT_TTL_MS);
+  private refunds = new ExpiringMap<string, Stripe.Refund>(MAX_STORED_OBJECTS, OBJECT_TTL_MS);
+  private disputes = new ExpiringMap<string, Stripe.Dispute>(MAX_STORED_OBJECTS, OBJECT_TTL_MS);
+  private customers = new ExpiringMap<string, Stripe.Customer>(MAX_STORED_OBJECTS, OBJECT_TTL_MS);
+  private setupIntents = new ExpiringMap<string, SimulatedSetupIntent>(MAX_STORED_OBJECTS, OBJECT_TTL_MS);
+  private paymentMethods = new ExpiringMap<string, SimulatedPaymentMethod>(MAX_STORED_OBJECTS, OBJECT_TTL_MS);
+  private accounts = new ExpiringMap<string, Stripe.Account>(MAX_STORED_OBJECTS, OBJECT_TTL_MS);
+  private files = new ExpiringMap<string, Stripe.File>(MAX_STORED_OBJECTS, OBJECT_TTL_MS);
+  private requests = new ExpiringMap<string, IdempotentRequest>(MAX_STORED_OBJECTS, IDEMPOTENCY_KEY_TTL_MS);
+
+  // ==============================================
+  // Customers
+  // ==============================================
+
+  async createCustomer(
+    params: Stripe.CustomerCreateParams,
+    options?: ProcessorRequestOptions
+  ): Promise<Stripe.Customer> {
+    return this.idempotent('createCustomer', options, async () => {
+      const customer = {
+        id: this.generateId('cus'),
+        object: 'customer',
+        created: this.now(),
+        livemode: false,
+        email: params.email || null,
+        name: params.name || null,
+        phone: params.phone || null,
+        metadata: params.metadata || {},
+      } as unknown as Stripe.Customer;
+
+      this.customers.set(customer.id, customer);
+      return this.clone(customer);
+    });
+  }
+
+  async updateCustomer(id: string, params: Stripe.CustomerUpdateParams): Promise<Stripe.Customer> {
+    const customer = this.getCustomer(id);
+
+    for (const field of ['email', 'name', 'phone', 'address', 'metadata'] as const) {
+      if (params[field] !== undefined) {
+        (customer as any)[field] = params[field] || null;
+      }
+    }
+
+    return this.clone(customer);
+  }
+
+  async deleteCustomer(id: string): Promise<void> {
+    this.getCustomer(id);
+    this.customers.delete(id);
+
+    for (const { paymentMethod } of this.paymentMethods.values()) {
+      if (paymentMethod.customer === id) {
+        paymentMethod.customer = null;
+      }
+    }
+  }
+
+  // ==============================================
+  // Saved payment methods
+  // ==============================================
+
+  async createSetupIntent(
+    params: Stripe.SetupIntentCreateParams,
+    options?: ProcessorRequestOptions
+  ): Promise<Stripe.SetupIntent> {
+    return this.idempotent('createSetupIntent', options, async () => {
+      const id = this.generateId('seti');
+
+      const intent = {
+        id,
+        object: 'setup_intent',
+        client_secret: `${id}_secret_${crypto.randomBytes(12).toString('hex')}`,
+        created: this.now(),
+        customer: (params.customer as string) || null,
+        description: params.description || null,
+        last_setup_error: null,
+        livemode: false,
+        metadata: params.metadata || {},
+        next_action: null,
+        payment_method: null,
+        payment_method_types: params.payment_method_types || ['card'],
+        status: 'requires_payment_method',
+        usage: params.usage || 'off_session',
+      } as unknown as Stripe.SetupIntent;
+
+      this.setupIntents.set(id, { intent, account: options?.account });
+
+      if (params.confirm && params.payment_method) {
+        return this.confirmSetupIntent(id, { payment_method: params.payment_method });
+      }
+
+      return this.clone(intent);
+    });
+  }
+
+  async retrieveSetupIntent(id: string): Promise<Stripe.SetupIntent> {
+    return this.clone(this.getSetupIntent(id).intent);
+  }
+
+  /**
+   * Confirm with a magic card number or pm_card_* token and attach the method to the customer
+   * Cards that need authentication on every payment still save; off-session charges
+   * with them fail with authentication_required, as they do on Stripe.
+   */
+  async confirmSetupIntent(
+    id: string,
+    params: Stripe.SetupIntentConfirmParams,
+    options?: ProcessorRequestOptions
+  ): Promise<Stripe.SetupIntent> {
+    return this.idempotent('confirmSetupIntent', options, async () => {
+      const record = this.getSetupIntent(id);
+      const { intent } = record;
+
+      if (!['requires_payment_method', 'requires_confirmation'].includes(intent.status)) {
+        throw new AppError(
+          `SetupIntent cannot be confirmed in status ${intent.status}`,
+          400,
+          'SETUP_INTENT_UNEXPECTED_STATE'
+        );
+      }
+
+      const method = this.resolvePaymentMethod((params.payment_method as string) || (intent.payment_method as string));
+      intent.payment_method = method.paymentMethod.id;
+
+      const decline = method.outcome && DECLINES[method.outcome];
+      if (decline) {
+        intent.status = 'requires_payment_method';
+        intent.last_setup_error = {
+          type: 'card_error',
+          code: 'card_declined',
+          decline_code: decline.decline_code,
+          message: decline.message,
+        } as any;
+        this.publish('setup_intent.setup_failed', intent, record.account);
+        return this.clone(intent);
+      }
+
+      method.paymentMethod.customer = intent.customer as string;
+      intent.status = 'succeeded';
+      intent.last_setup_error = null;
+      this.publish('setup_intent.succeeded', intent, record.account);
+
+      return this.clone(intent);
+    });
+  }
+
+  async retrievePaymentMethod(id: string): Promise<Stripe.PaymentMethod> {
+    return this.clone(this.getPaymentMethod(id).paymentMethod);
+  }
+
+  async detachPaymentMethod(id: string): Promise<Stripe.PaymentMethod> {
+    const { paymentMethod } = this.getPaymentMethod(id);
+    paymentMethod.customer = null;
+    return this.clone(paymentMethod);
+  }
+
+  // ==============================================
+  // Payment intents
+  // ==============================================
+
+  async createPaymentIntent(
+    params: Stripe.PaymentIntentCreateParams,
+    options?: ProcessorRequestOptions
+  ): Promise<Stripe.PaymentIntent> {
+    return this.idempotent('createPaymentIntent', options, async () => {
+      const id = this.generateId('pi');
+
+      const intent = {
+        id,
+        object: 'payment_intent',
+        amount: params.amount,
+        amount_capturable: 0,
+        amount_received: 0,
+        application_fee_amount: params.application_fee_amount || null,
+        capture_method: params.capture_method || 'automatic',
+        cancellation_reason: null,
+        client_secret: `${id}_secret_${crypto.randomBytes(12).toString('hex')}`,
+        created: this.now(),
+        currency: params.currency,
+        customer: (params.customer as string) || null,
+        description: params.description || null,
+        last_payment_error: null,
+        latest_charge: null,
+        livemode: false,
+        metadata: params.metadata || {},
+        next_action: null,
+        payment_method: (params.payment_method as string) || null,
+        payment_method_options: params.payment_method_options || {},
+        payment_method_types: params.payment_method_types || ['card'],
+        status: 'requires_payment_method',
+      } as unknown as Stripe.PaymentIntent;
+
+      this.intents.set(id, { intent, account: options?.account });
+
+      if (params.confirm && params.payment_method) {
+        return this.confirmPaymentIntent(id, {
+          payment_method: params.payment_method,
+          return_url: params.return_url,
+          off_session: params.off_session as boolean | undefined,
+        });
+      }
+
+      return this.clone(intent);
+    });
+  }
+
+  async retrievePaymentIntent(id: string): Promise<Stripe.PaymentIntent> {
+    return this.clone(this.getIntent(id).intent);
+  }
+
+  /**
+   * Confirm with a magic card number or pm_card_* token
+   */
+  async confirmPaymentIntent(
+    id: string,
+    params: Stripe.PaymentIntentConfirmParams,
+    options?: ProcessorRequestOptions
+  ): Promise<Stripe.PaymentIntent> {
+    return this.idempotent('confirmPaymentIntent', options, async () => {
+      const record = this.getIntent(id);
+      const { intent } = record;
+
+      if (!['requires_payment_method', 'requires_confirmation'].includes(intent.status)) {
+        throw new AppError(
+          `PaymentIntent cannot be confirmed in status ${intent.status}`,
+          400,
+          'PAYMENT_INTENT_UNEXPECTED_STATE'
+        );
+      }
+
+      // The challenge redirects the customer's browser here
+      if (params.return_url && !/^https?:\/\//i.test(params.return_url)) {
+        throw new AppError('Return URL must use http or https', 400, 'INVALID_RETURN_URL');
+      }
+
+      const method = this.resolvePaymentMethod((params.payment_method as string) || (intent.payment_method as string));
+      record.outcome = method.outcome || SIMULATOR_TEST_AMOUNTS[intent.amount] || 'succeed';
+      record.last4 = method.paymentMethod.card!.last4;
+      intent.payment_method = method.paymentMethod.id;
+      intent.last_payment_error = null;
+
+      const decline = DECLINES[record.outcome];
+      if (decline) {
+        return this.failIntent(record, 'card_declined', decline.decline_code, decline.message);
+      }
+
+      // request_three_d_secure: 'any' challenges cards that would otherwise go straight through
+      const cardOptions = (params.payment_method_options?.card || intent.payment_method_options?.card) as
+        | { request_three_d_secure?: string }
+        | undefined;
+      const threeDSecure = cardOptions?.request_three_d_secure;
+      if (record.outcome === 'succeed' && threeDSecure === 'any' && !params.off_session) {
+        record.outcome = 'requires_action';
+      }
+
+      if (record.outcome === 'requires_action' && params.off_session) {
+        // No customer present to complete a challenge
+        return this.failIntent(
+          record,
+          'authentication_required',
+          'authentication_required',
+          'This payment requires authentication and the customer is not on session.'
+        );
+      }
+
+      if (record.outcome === 'requires_action') {
+        intent.status = 'requires_action';
+        intent.next_action = {
+          type: 'redirect_to_url',
+          redirect_to_url: {
+            url: `${process.env.API_URL || ''}/api/sandbox/payment_intents/${id}/authenticate`
+              + `?client_secret=${encodeURIComponent(intent.client_secret!)}`,
+            return_url: params.return_url || null,
+          },
+        } as any;
+        this.publish('payment_intent.requires_action', intent, record.account);
+        return this.clone(intent);
+      }
+
+      return this.authorizeIntent(record);
+    });
+  }
+
+  /**
+   * Complete (or fail) the simulated 3D Secure challenge for a payment intent
+   */
+  async authenticatePaymentIntent(id: string, succeed: boolean): Promise<Stripe.PaymentIntent> {
+    const record = this.getIntent(id);
+
+    if (record.intent.status !== 'requires_action') {
+      throw new AppError('PaymentIntent does not require authentication', 400, 'PAYMENT_INTENT_UNEXPECTED_STATE');
+    }
+
+    record.intent.next_action = null;
+
+    if (!succeed) {
+      return this.failIntent(
+        record,
+        'payment_intent_authentication_failure',
+        undefined,
+        'The provided payment method has failed authentication.'
+      );
+    }
+
+    return this.authorizeIntent(record);
+  }
+
+  async capturePaymentIntent(
+    id: string,
+    params: Stripe.PaymentIntentCaptureParams,
+    options?: ProcessorRequestOptions
+  ): Promise<Stripe.PaymentIntent> {
+    return this.idempotent('capturePaymentIntent', options, async () => {
+      const record = this.getIntent(id);
+      const { intent } = record;
+
+      if (intent.status !== 'requires_capture') {
+        throw new AppError(
+          `PaymentIntent cannot be captured in status ${intent.status}`,
+          400,
+          'PAYMENT_INTENT_UNEXPECTED_STATE'
+        );
+      }
+
+      const amount = params.amount_to_capture ?? intent.amount_capturable;
+      if (amount > intent.amount_capturable) {
+        throw new AppError('Capture amount exceeds the capturable amount', 400, 'AMOUNT_TOO_LARGE');
+      }
+
+      const charge = this.charges.get(intent.latest_charge as string)!;
+      charge.captured = true;
+      charge.amount_captured = amount;
+      charge.status = 'succeeded';
+
+      intent.amount_received = amount;
+      intent.amount_capturable = 0;
+      intent.application_fee_amount = params.application_fee_amount ?? intent.application_fee_amount;
+      intent.status = 'succeeded';
+
+      this.publish('payment_intent.succeeded', intent, record.account);
+      this.maybeOpenDispute(record, charge);
+
+      return this.clone(intent);
+    });
+  }
+
+  async cancelPaymentIntent(
+    id: string,
+    params: Stripe.PaymentIntentCancelParams,
+    options?: ProcessorRequestOptions
+  ): Promise<Stripe.PaymentIntent> {
+    return this.idempotent('cancelPaymentIntent', options, async () => {
+      const record = this.getIntent(id);
+      const { intent } = record;
+
+      if (['succeeded', 'canceled'].includes(intent.status)) {
+        throw new AppError(
+          `PaymentIntent cannot be canceled in status ${intent.status}`,
+          400,
+          'PAYMENT_INTENT_UNEXPECTED_STATE'
+        );
+      }
+
+      intent.status = 'canceled';
+      intent.amount_capturable = 0;
+      intent.cancellation_reason = params.cancellation_reason || 'requested_by_customer';
+
+      this.publish('payment_intent.canceled', intent, record.account);
+
+      return this.clone(intent);
+    });
+  }
+
+  async retrieveCharge(id: string): Promise<Stripe.Charge> {
+    const charge = this.charges.get(id);
+
+    if (!charge) {
+      throw new AppError(`No such charge: ${id}`, 404, 'RESOURCE_MISSING');
+    }
+
+    return this.clone(charge);
+  }
+
+  // ==============================================
+  // Refunds
+  // ==============================================
+
+  async createRefund(params: Stripe.RefundCreateParams, options?: ProcessorRequestOptions): Promise<Stripe.Refund> {
+    return this.idempotent('createRefund', options, async () => {
+      const record = this.getIntent(params.payment_intent as string);
+      const charge = this.charges.get(record.intent.latest_charge as string);
+
+      if (!charge || record.intent.status !== 'succeeded') {
+        throw new AppError('Only succeeded payments can be refunded', 400, 'CHARGE_NOT_REFUNDABLE');
+      }
+
+      const amount = params.amount ?? charge.amount_captured - charge.amount_refunded;
+      if (amount <= 0 || charge.amount_refunded + amount > charge.amount_captured) {
+        throw new AppError('Refund amount exceeds the refundable amount', 400, 'AMOUNT_TOO_LARGE');
+      }
+
+      const refund = {
+        id: this.generateId('re'),
+        object: 'refund',
+        amount,
+        charge: charge.id,
+        created: this.now(),
+        currency: charge.currency,
+        metadata: params.metadata || {},
+        payment_intent: record.intent.id,
+        reason: params.reason || null,
+        status: 'pending',
+      } as unknown as Stripe.Refund;
+
+      this.refunds.set(refund.id, refund);
+
+      if (record.outcome === 'refund_fail') {
+        // Mirrors Stripe's refund failure test card: accepted, then fails asynchronously
+        setTimeout(() => {
+          if (refund.status !== 'pending') {
+            return;
+          }
+          refund.status = 'failed';
+          refund.failure_reason = 'expired_or_canceled_card';
+          this.publish('charge.refund.updated', refund, record.account);
+        }, REFUND_FAILURE_DELAY_MS).unref();
+
+        return this.clone(refund);
+      }
+
+      refund.status = 'succeeded';
+      charge.amount_refunded += amount;
+      charge.refunded = charge.amount_refunded === charge.amount_captured;
+      charge.refunds = {
+        object: 'list',
+        data: [...(charge.refunds?.data || []), refund],
+        has_more: false,
+        url: `/v1/charges/${charge.id}/refunds`,
+      } as any;
+
+      this.publish('charge.refunded', charge, record.account);
+
+      return this.clone(refund);
+    });
+  }
+
+  async refundApplicationFee(
+    chargeId: string,
+    params: Stripe.FeeRefundCreateParams,
+    options?: ProcessorRequestOptions
+  ): Promise<Stripe.FeeRefund | null> {
+    return this.idempotent('refundApplicationFee', options, async () => {
+      const charge = this.charges.get(chargeId);
+
+      if (!charge) {
+        throw new AppError(`No such charge: ${chargeId}`, 404, 'RESOURCE_MISSING');
+      }
+
+      if (!charge.application_fee_amount) {
+        return null;
+      }
+
+      return {
+        id: this.generateId('fr'),
+        object: 'fee_refund',
+        amount: params.amount ?? charge.application_fee_amount,
+        created: this.now(),
+        currency: charge.currency,
+        fee: `fee_sim_${charge.id}`,
+        metadata: params.metadata || {},
+      } as unknown as Stripe.FeeRefund;
+    });
+  }
+
+  /**
+   * Only refunds that haven't settled yet can be canceled
+   */
+  async cancelRefund(id: string, options?: ProcessorRequestOptions): Promise<Stripe.Refund> {
+    return this.idempotent('cancelRefund', options, async () => {
+      const refund = this.refunds.get(id);
+
+      if (!refund) {
+        throw new AppError(`No such refund: ${id}`, 404, 'RESOURCE_MISSING');
+      }
+
+      if (refund.status !== 'pending') {
+        throw new AppError(`Refund ${id} is ${refund.status} and cannot be canceled`, 400, 'REFUND_NOT_CANCELABLE');
+      }
+
+      refund.status = 'canceled';
+      this.publish('charge.refund.updated', refund, this.getAccountForCharge(refund.charge as string));
+
+      return this.clone(refund);
+    });
+  }
+
+  // ==============================================
+  // Disputes
+  // ==============================================
+
+  /**
+   * Evidence containing uncategorized_text 'winning_evidence' or 'losing_evidence'
+   * closes the dispute immediately, like Stripe's test mode
+   */
+  async updateDispute(
+    id: string,
+    params: Stripe.DisputeUpdateParams,
+    options?: ProcessorRequestOptions
+  ): Promise<Stripe.Dispute> {
+    return this.idempotent('updateDispute', options, async () => {
+      const dispute = this.getDispute(id);
+      const account = this.getAccountForCharge(dispute.charge as string);
+
+      dispute.evidence = { ...dispute.evidence, ...(params.evidence as any) };
+      dispute.evidence_details = { ...dispute.evidence_details, has_evidence: true };
+      dispute.metadata = { ...dispute.metadata, ...(params.metadata as any) };
+
+      if (params.submit !== false) {
+        dispute.status = 'under_review';
+      }
+
+      const text = (params.evidence as any)?.uncategorized_text;
+      if (text === 'winning_evidence' || text === 'losing_evidence') {
+        dispute.status = text === 'winning_evidence' ? 'won' : 'lost';
+        this.publish('charge.dispute.closed', dispute, account);
+        if (dispute.status === 'won') {
+          this.publish('charge.dispute.funds_reinstated', dispute, account);
+        }
+      } else {
+        this.publish('charge.dispute.updated', dispute, account);
+      }
+
+      return this.clone(dispute);
+    });
+  }
+
+  async closeDispute(id: string, options?: ProcessorRequestOptions): Promise<Stripe.Dispute> {
+    return this.idempotent('closeDispute', options, async () => {
+      const dispute = this.getDispute(id);
+
+      dispute.status = 'lost';
+      this.publish('charge.dispute.closed', dispute, this.getAccountForCharge(dispute.charge as string));
+
+      return this.clone(dispute);
+    });
+  }
+
+  // ==============================================
+  // Transfers
+  // ==============================================
+
+  async createTransfer(
+    params: Stripe.TransferCreateParams,
+    options?: ProcessorRequestOptions
+  ): Promise<Stripe.Transfer> {
+    return this.idempotent('createTransfer', options, async () => {
+      const transfer = {
+        id: this.generateId('tr'),
+        object: 'transfer',
+        amount: params.amount,
+        currency: params.currency,
+        created: this.now(),
+        destination: params.destination,
+        metadata: params.metadata || {},
+        reversed: false,
+        transfer_group: params.transfer_group || null,
+      } as unknown as Stripe.Transfer;
+
+      this.publish('transfer.created', transfer);
+
+      return this.clone(transfer);
+    });
+  }
+
+  async createTransferReversal(
+    transferId: string,
+    params: Stripe.TransferCreateReversalParams,
+    options?: ProcessorRequestOptions
+  ): Promise<Stripe.TransferReversal> {
+    return this.idempotent('createTransferReversal', options, async () => {
+      return {
+        id: this.generateId('trr'),
+        object: 'transfer_reversal',
+        amount: params.amount,
+        created: this.now(),
+        metadata: params.metadata || {},
+        transfer: transferId,
+      } as unknown as Stripe.TransferReversal;
+    });
+  }
+
+  // ==============================================
+  // Accounts (sandbox accounts are verified immediately)
+  // ==============================================
+
+  async createAccount(params: Stripe.AccountCreateParams): Promise<Stripe.Account> {
+    const account = this.buildAccount(this.generateId('acct'), params.email, params.country, params.metadata as any);
+    this.accounts.set(account.id, account);
+    return this.clone(account);
+  }
+
+  async retrieveAccount(id: string): Promise<Stripe.Account> {
+    return this.clone(this.accounts.get(id) || this.buildAccount(id));
+  }
+
+  async createAccountLink(params: Stripe.AccountLinkCreateParams): Promise<Stripe.AccountLink> {
+    return {
+      object: 'account_link',
+      created: this.now(),
+      expires_at: this.now() + 300,
+      url: params.return_url || `${process.env.FRONTEND_URL}/dashboard`,
+    } as Stripe.AccountLink;
+  }
+
+  async createLoginLink(): Promise<Stripe.LoginLink> {
+    return {
+      object: 'login_link',
+      created: this.now(),
+      url: `${process.env.FRONTEND_URL}/dashboard`,
+    } as Stripe.LoginLink;
+  }
+
+  // ==============================================
+  // Files
+  // ==============================================
+
+  async createFile(params: Stripe.FileCreateParams): Promise<Stripe.File> {
+    const upload = params.file as { data: Buffer; name?: string; type?: string };
+
+    const file = {
+      id: this.generateId('file'),
+      object: 'file',
+      created: this.now(),
+      expires_at: null,
+      filename: upload.name || 'upload',
+      purpose: params.purpose,
+      size: upload.data?.length || 0,
+      title: null,
+      type: upload.type?.split('/').pop() || null,
+      url: null,
+    } as unknown as Stripe.File;
+
+    this.files.set(file.id, file);
+    return this.clone(file);
+  }
+
+  async retrieveFile(id: string): Promise<Stripe.File> {
+    const file = this.files.get(id);
+
+    if (!file) {
+      throw new AppError(`No such file: ${id}`, 404, 'RESOURCE_MISSING');
+    }
+
+    return this.clone(file);
+  }
+
+  async listFiles(params: Stripe.FileListParams): Promise<Stripe.File[]> {
+    return Array.from(this.files.values())
+      .filter((file) => !params.purpose || file.purpose === params.purpose)
+      .slice(0, params.limit || 100)
+      .map((file) => this.clone(file));
+  }
+
+  // ==============================================
+  // Simulation helpers
+  // ==============================================
+
+  /**
+   * Create the charge for a confirmed intent and move it to succeeded or requires_capture
+   */
+  private authorizeIntent(record: SimulatedIntent): Stripe.PaymentIntent {
+    const { intent } = record;
+    const isManual = intent.capture_method === 'manual';
+
+    const charge = {
+      id: this.generateId('ch'),
+      object: 'charge',
+      amount: intent.amount,
+      amount_captured: isManual ? 0 : intent.amount,
+      amount_refunded: 0,
+      application_fee_amount: intent.application_fee_amount,
+      captured: !isManual,
+      created: this.now(),
+      currency: intent.currency,
+      disputed: false,
+      metadata: intent.metadata,
+      paid: true,
+      payment_intent: intent.id,
+      payment_method: intent.payment_method,
+      payment_method_details: {
+        type: 'card',
+        card: {
+          brand: 'visa',
+          country: 'US',
+          exp_month: 12,
+          exp_year: new Date().getFullYear() + 2,
+          funding: 'credit',
+          last4: record.last4 || '4242',
+          ...(isManual && { capture_before: this.now() + AUTHORIZATION_WINDOW_SECONDS }),
+        },
+      },
+      refunded: false,
+      refunds: { object: 'list', data: [], has_more: false, url: '' },
+      status: isManual ? 'pending' : 'succeeded',
+    } as unknown as Stripe.Charge;
+
+    this.charges.set(charge.id, charge);
+    intent.latest_charge = charge.id;
+
+    if (isManual) {
+      intent.status = 'requires_capture';
+      intent.amount_capturable = intent.amount;
+      this.publish('payment_intent.amount_capturable_updated', intent, record.account);
+      return this.clone(intent);
+    }
+
+    intent.status = 'succeeded';
+    intent.amount_received = intent.amount;
+    this.publish('payment_intent.succeeded', intent, record.account);
+    this.maybeOpenDispute(record, charge);
+
+    return this.clone(intent);
+  }
+
+  private failIntent(
+    record: SimulatedIntent,
+    code: string,
+    declineCode: string | undefined,
+    message: string
+  ): Stripe.PaymentIntent {
+    const { intent } = record;
+
+    intent.status = 'requires_payment_method';
+    intent.last_payment_error = {
+      type: 'card_error',
+      code,
+      ...(declineCode && { decline_code: declineCode }),
+      message,
+    } as any;
+
+    this.publish('payment_intent.payment_failed', intent, record.account);
+
+    return this.clone(intent);
+  }
+
+  /**
+   * Open a fraudulent dispute for payments made with a dispute test card or amount
+   */
+  private maybeOpenDispute(record: SimulatedIntent, charge: Stripe.Charge): void {
+    if (record.outcome !== 'dispute') {
+      return;
+    }
+
+    charge.disputed = true;
+
+    const dispute = {
+      id: this.generateId('dp'),
+      object: 'dispute',
+      amount: charge.amount_captured,
+      charge: charge.id,
+      created: this.now(),
+      currency: charge.currency,
+      evidence: {},
+      evidence_details: {
+        due_by: this.now() + AUTHORIZATION_WINDOW_SECONDS,
+        has_evidence: false,
+        past_due: false,
+        submission_count: 0,
+      },
+      is_charge_refundable: false,
+      livemode: false,
+      metadata: {},
+      network_reason_code: '10.4',
+      payment_intent: record.intent.id,
+      reason: 'fraudulent',
+      status: 'needs_response',
+    } as unknown as Stripe.Dispute;
+
+    this.disputes.set(dispute.id, dispute);
+
+    this.publish('charge.dispute.created', dispute, record.account);
+    this.publish('charge.dispute.funds_withdrawn', dispute, record.account);
+  }
+
+  private buildAccount(id: string, email?: string, country?: string, metadata?: Record<string, string>): Stripe.Account {
+    return {
+      id,
+      object: 'account',
+      charges_enabled: true,
+      payouts_enabled: true,
+      details_submitted: true,
+      country: country || 'US',
+      email: email || null,
+      metadata: metadata || {},
+      requirements: { currently_due: [], eventually_due: [], past_due: [], disabled_reason: null },
+      type: 'express',
+    } as unknown as Stripe.Account;
+  }
+
+  private getIntent(id: string): SimulatedIntent {
+    const record = this.intents.get(id);
+
+    if (!record) {
+      throw new AppError(`No such payment_intent: ${id}`, 404, 'RESOURCE_MISSING');
+    }
+
+    return record;
+  }
+
+  /**
+   * Saved payment method by ID, or a new card payment method for a magic card number or token
+   */
+  private resolvePaymentMethod(input?: string): SimulatedPaymentMethod {
+    const saved = input ? this.paymentMethods.get(input) : undefined;
+    if (saved) {
+      return saved;
+    }
+
+    const token = input || 'pm_card_visa';
+    const paymentMethod = {
+      id: this.generateId('pm'),
+      object: 'payment_method',
+      billing_details: { address: null, email: null, name: null, phone: null },
+      card: {
+        brand: 'visa',
+        country: 'US',
+        exp_month: 12,
+        exp_year: new Date().getFullYear() + 2,
+        // Same card number or token, same fingerprint
+        fingerprint: crypto.createHash('sha256').update(token).digest('hex').slice(0, 16),
+        funding: 'credit',
+        last4: /^\d{12,19}$/.test(token) ? token.slice(-4) : '4242',
+      },
+      created: this.now(),
+      customer: null,
+      livemode: false,
+      metadata: {},
+      type: 'card',
+    } as unknown as Stripe.PaymentMethod;
+
+    const method = { paymentMethod, outcome: SIMULATOR_TEST_CARDS[token] };
+    this.paymentMethods.set(paymentMethod.id, method);
+
+    return method;
+  }
+
+  private getCustomer(id: string): Stripe.Customer {
+    const customer = this.customers.get(id);
+
+    if (!customer) {
+      throw new AppError(`No such customer: ${id}`, 404, 'RESOURCE_MISSING');
+    }
+
+    return customer;
+  }
+
+  private getSetupIntent(id: string): SimulatedSetupIntent {
+    const record = this.setupIntents.get(id);
+
+    if (!record) {
+      throw new AppError(`No such setup_intent: ${id}`, 404, 'RESOURCE_MISSING');
+    }
+
+    return record;
+  }
+
+  private getPaymentMethod(id: string): SimulatedPaymentMethod {
+    const method = this.paymentMethods.get(id);
+
+    if (!method) {
+      throw new AppError(`No such payment_method: ${id}`, 404, 'RESOURCE_MISSING');
+    }
+
+    return method;
+  }
+
+  private getDispute(id: string): Stripe.Dispute {
+    const dispute = this.disputes.get(id);
+
+    if (!dispute) {
+      throw new AppError(`No such dispute: ${id}`, 404, 'RESOURCE_MISSING');
+    }
+
+    return dispute;
+  }
+
+  private getAccountForCharge(chargeId: string): string | undefined {
+    const charge = this.charges.get(chargeId);
+    return charge ? this.intents.get(charge.payment_intent as string)?.account : undefined;
+  }
+
+  /**
+   * Run a request once per idempotency key (and account), replaying its response after that
+   * Failed requests aren't kept, so they can be retried with the same key.
+   */
+  private idempotent<T>(
+    operation: string,
+    options: ProcessorRequestOptions | undefined,
+    request: () => Promise<T>
+  ): Promise<T> {
+    if (!options?.idempotencyKey) {
+      return request();
+    }
+
+    const key = `${options.account || 'platform'}:${options.idempotencyKey}`;
+    const existing = this.requests.get(key);
+
+    if (existing) {
+      if (existing.operation !== operation) {
+        throw new AppError(
+          `Keys for idempotent requests can only be used for the same request (${options.idempotencyKey})`,
+          400,
+          'IDEMPOTENCY_KEY_REUSED'
+        );
+      }
+
+      return existing.response.then((response) => this.clone(response));
+    }
+
+    const response = request();
+    this.requests.set(key, { operation, response });
+    response.catch(() => this.requests.delete(key));
+
+    return response;
+  }
+
+  private publish(type: string, object: any, account?: string): void {
+    processorEvents.publish({
+      id: this.generateId('evt'),
+      object: 'event',
+      api_version: null,
+      created: this.now(),
+      livemode: false,
+      pending_webhooks: 0,
+      request: { id: null, idempotency_key: null },
+      type,
+      account,
+      data: { object: this.clone(object) },
+    } as unknown as Stripe.Event);
+  }
+
+  private generateId(prefix: string): string {
+    return `${prefix}_sim_${crypto.randomBytes(12).toString('hex')}`;
+  }
+
+  private now(): number {
+    return Math.floor(Date.now() / 1000);
+  }
+
+  // Snapshot so callers and events can't mutate simulator state
+  private clone<T>(value: T): T {
+    return JSON.parse(JSON.stringify(value));
+  }
+}
+
+export default new SimulatorProcessor();
@@ -0,0 +1,240 @@
+import Stripe from 'stripe';
+import { PaymentProcessor, ProcessorRequestOptions } from './paymentProcessor';
+
+const stripe = new Stripe(process.env.STRIPE_SECRET_KEY || '', {
+  apiVersion: '2024-12-18.acacia' as any,
+});
+
+/**
+ * Map processor options to Stripe request options
+ */
+const requestOptions = (options?: ProcessorRequestOptions): Stripe.RequestOptions | undefined => {
+  if (!options || (!options.account && !options.idempotencyKey)) {
+    return undefined;
+  }
+
+  return {
+    ...(options.account && { stripeAccount: options.account }),
+    ...(options.idempotencyKey && { idempotencyKey: options.idempotencyKey }),
+  };
+};
+
+class StripeProcessor implements PaymentProcessor {
+  readonly name = 'stripe' as const;
+  readonly requiresConnectedAccount = true;
+
+  async createCustomer(params: Stripe.CustomerCreateParams, options?: ProcessorRequestOptions): Promise<Stripe.Customer> {
+    return stripe.customers.create(params, requestOptions(options));
+  }
+
+  async updateCustomer(
+    id: string,
+    params: Stripe.CustomerUpdateParams,
+    options?: ProcessorRequestOptions
+  ): Promise<Stripe.Customer> {
+    return stripe.customers.update(id, params, requestOptions(options));
+  }
+
+  async deleteCustomer(id: string, options?: ProcessorRequestOptions): Promise<void> {
+    await stripe.customers.del(id, {}, requestOptions(options));
+  }
+
+  async createSetupIntent(
+    params: Stripe.SetupIntentCreateParams,
+    options?: ProcessorRequestOptions
+  ): Promise<Stripe.SetupIntent> {
+    return stripe.setupIntents.create(params, requestOptions(options));
+  }
+
+  async retrieveSetupIntent(id: string, options?: ProcessorRequestOptions): Promise<Stripe.SetupIntent> {
+    return stripe.setupIntents.retrieve(id, {}, requestOptions(options));
+  }
+
+  async confirmSetupIntent(
+    id: string,
+    params: Stripe.SetupIntentConfirmParams,
+    options?: ProcessorRequestOptions
+  ): Promise<Stripe.SetupIntent> {
+    return stripe.setupIntents.confirm(id, params, requestOptions(options));
+  }
+
+  async retrievePaymentMethod(id: string, options?: ProcessorRequestOptions): Promise<Stripe.PaymentMethod> {
+    return stripe.paymentMethods.retrieve(id, {}, requestOptions(options));
+  }
+
+  async detachPaymentMethod(id: string, options?: ProcessorRequestOptions): Promise<Stripe.PaymentMethod> {
+    return stripe.paymentMethods.detach(id, {}, requestOptions(options));
+  }
+
+  async createPaymentIntent(
+    params: Stripe.PaymentIntentCreateParams,
+    options?: ProcessorRequestOptions
+  ): Promise<Stripe.PaymentIntent> {
+    return stripe.paymentIntents.create(params, requestOptions(options));
+  }
+
+  async retrievePaymentIntent(id: string, options?: ProcessorRequestOptions): Promise<Stripe.PaymentIntent> {
+    return stripe.paymentIntents.retrieve(id, {}, requestOptions(options));
+  }
+
+  async confirmPaymentIntent(
+    id: string,
+    params: Stripe.PaymentIntentConfirmParams,
+    options?: ProcessorRequestOptions
+  ): Promise<Stripe.PaymentIntent> {
+    return stripe.paymentIntents.confirm(id, params, requestOptions(options));
+  }
+
+  async capturePaymentIntent(
+    id: string,
+    params: Stripe.PaymentIntentCaptureParams,
+    options?: ProcessorRequestOptions
+  ): Promise<Stripe.PaymentIntent> {
+    return stripe.paymentIntents.capture(id, params, requestOptions(options));
+  }
+
+  async cancelPaymentIntent(
+    id: string,
+    params: Stripe.PaymentIntentCancelParams,
+    options?: ProcessorRequestOptions
+  ): Promise<Stripe.PaymentIntent> {
+    return stripe.paymentIntents.cancel(id, params, requestOptions(options));
+  }
+
+  async retrieveCharge(id: string, options?: ProcessorRequestOptions): Promise<Stripe.Charge> {
+    return stripe.charges.retrieve(id, {}, requestOptions(options));
+  }
+
+  async createRefund(params: Stripe.RefundCreateParams, options?: ProcessorRequestOptions): Promise<Stripe.Refund> {
+    return stripe.refunds.create(params, requestOptions(options));
+  }
+
+  async cancelRefund(id: string, options?: ProcessorRequestOptions): Promise<Stripe.Refund> {
+    return stripe.refunds.cancel(id, {}, requestOptions(options));
+  }
+
+  async refundApplicationFee(
+    chargeId: string,
+    params: Stripe.FeeRefundCreateParams,
+    options?: ProcessorRequestOptions
+  ): Promise<Stripe.FeeRefund | null> {
+    const charge = await stripe.charges.retrieve(chargeId, {}, requestOptions({ account: options?.account }));
+
+    if (!charge.application_fee) {
+      return null;
+    }
+
+    // The fee lives on the platform account, so the refund is not made on the connected account
+    const feeId = typeof charge.application_fee === 'string' ? charge.application_fee : charge.application_fee.id;
+
+    return stripe.applicationFees.createRefund(feeId, params, requestOptions({ idempotencyKey: options?.idempotencyKey }));
+  }
+
+  async updateDispute(
+    id: string,
+    params: Stripe.DisputeUpdateParams,
+    options?: ProcessorRequestOptions
+  ): Promise<Stripe.Dispute> {
+    return stripe.disputes.update(id, params, requestOptions(options));
+  }
+
+  async closeDispute(id: string, options?: ProcessorRequestOptions): Promise<Stripe.Dispute> {
+    return stripe.disputes.close(id, {}, requestOptions(options));
+  }
+
+  async createTransfer(params: Stripe.TransferCreateParams, options?: ProcessorRequestOptions): Promise<Stripe.Transfer> {
+    return stripe.transfers.create(params, requestOptions(options));
+  }
+
+  async createTransferReversal(
+    transferId: string,
+    params: Stripe.TransferCreateReversalParams,
+    options?: ProcessorRequestOptions
+  ): Promise<Stripe.TransferReversal> {
+    return stripe.transfers.createReversal(transferId, params, requestOptions(options));
+  }
+
+  async createAccount(params: Stripe.AccountCreateParams): Promise<Stripe.Account> {
+    return stripe.accounts.create(params);
+  }
+
+  async retrieveAccount(id: string): Promise<Stripe.Account> {
+    return stripe.accounts.retrieve(id);
+  }
+
+  async createAccountLink(params: Stripe.AccountLinkCreateParams): Promise<Stripe.AccountLink> {
+    return stripe.accountLinks.create(params);
+  }
+
+  async createLoginLink(accountId: string): Promise<Stripe.LoginLink> {
+    return stripe.accounts.createLoginLink(accountId);
+  }
+
+  async createFile(params: Stripe.FileCreateParams): Promise<Stripe.File> {
+    return stripe.files.create(params);
+  }
+
+  async retrieveFile(id: string): Promise<Stripe.File> {
+    return stripe.files.retrieve(id);
+  }
+
+  async listFiles(params: Stripe.FileListParams): Promise<Stripe.File[]> {
+    const files = await stripe.files.list(params);
+    return files.data;
+  }
+
+  // ==============================================
+  // Stripe-only operations (Connect OAuth, webhook signatures, reconciliation, payouts)
+  // ==============================================
+
+  async updateAccount(id: string, params: Stripe.AccountUpdateParams): Promise<Stripe.Account> {
+    return stripe.accounts.update(id, params);
+  }
+
+  /**
+   * Pay out a connected account's balance to its bank (options.account)
+   */
+  async createPayout(params: Stripe.PayoutCreateParams, options?: ProcessorRequestOptions): Promise<Stripe.Payout> {
+    return stripe.payouts.create(params, requestOptions(options));
+  }
+
+  /**
+   * Every balance transaction matching params (all pages)
+   */
+  async listBalanceTransactions(
+    params: Stripe.BalanceTransactionListParams,
+    options?: ProcessorRequestOptions
+  ): Promise<Stripe.BalanceTransaction[]> {
+    const transactions: Stripe.BalanceTransaction[] = [];
+
+    for await (const transaction of stripe.balanceTransactions.list({ limit: 100, ...params }, requestOptions(options))) {
+      transactions.push(transaction);
+    }
+
+    return transactions;
+  }
+
+  async exchangeOAuthCode(code: string): Promise<Stripe.OAuthToken> {
+    return stripe.oauth.token({
+      grant_type: 'authorization_code',
+      code,
+    });
+  }
+
+  async deauthorizeAccount(accountId: string): Promise<void> {
+    await stripe.oauth.deauthorize({
+      client_id: process.env.STRIPE_CONNECT_CLIENT_ID || '',
+      stripe_user_id: accountId,
+    });
+  }
+
+  constructWebhookEvent(rawBody: string | Buffer, signature: string): Stripe.Event {
+    return stripe.webhooks.constructEvent(
+      rawBody,
+      signature,
+      process.env.STRIPE_WEBHOOK_SECRET || ''
+    );
+  }
+}
+
+export default new StripeProcessor();
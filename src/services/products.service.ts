@@ -0,0 +1,223 @@
+import db from './database.service';
+import merchantsService from './merchants.service';
+import { AppError } from '../middleware/errorHandler';
+import { assertValidAmount } from '../config/currencies.config';
+import { BillingInterval } from '../utils/billingPeriod';
+
+export interface Product {
+  id: string;
+  merchant_id: string;
+  name: string;
+  description?: string | null;
+  is_active: boolean;
+  metadata?: Record<string, any>;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface Plan {
+  id: string;
+  merchant_id: string;
+  product_id: string;
+  nickname: string;
+  amount: number;
+  currency: string;
+  interval: BillingInterval;
+  interval_count: number;
+  trial_period_days?: number | null;
+  is_active: boolean;
+  metadata?: Record<string, any>;
+  created_at?: string;
+  updated_at?: string;
+}
+
+interface ProductData {
+  name?: string;
+  description?: string;
+  is_active?: boolean;
+  metadata?: Record<string, any>;
+}
+
+interface CreatePlanData {
+  product_id: string;
+  nickname?: string;
+  amount: number;
+  currency: string;
+  interval: BillingInterval;
+  interval_count?: number;
+  trial_period_days?: number;
+  metadata?: Record<string, any>;
+}
+
+interface UpdatePlanData {
+  nickname?: string;
+  trial_period_days?: number | null;
+  is_active?: boolean;
+  metadata?: Record<string, any>;
+}
+
+interface ListOptions {
+  limit?: number;
+  offset?: number;
+  is_active?: boolean;
+  product_id?: string;
+}
+
+class ProductsService {
+  /**
+   * Create a product
+   */
+  async createProduct(apiKey: string, data: ProductData): Promise<Product> {
+    const merchant = await merchantsService.getMerchantByApiKey(apiKey);
+
+    return db.insert<Product>('products', {
+      merchant_id: merchant.id,
+      name: data.name,
+      description: data.description || null,
+      is_active: data.is_active ?? true,
+      metadata: data.metadata || {},
+    });
+  }
+
+  /**
+   * Get product by ID
+   */
+  async getProduct(apiKey: string, productId: string): Promise<Product> {
+    const merchant = await merchantsService.getMerchantByApiKey(apiKey);
+
+    return this.getProductForMerchant(merchant.id, productId);
+  }
+
+  /**
+   * List products for merchant
+   */
+  async listProducts(apiKey: string, options: ListOptions = {}): Promise<Product[]> {
+    const merchant = await merchantsService.getMerchantByApiKey(apiKey);
+
+    return this.list<Product>('products', merchant.id, options);
+  }
+
+  /**
+   * Update a product
+   */
+  async updateProduct(apiKey: string, productId: string, data: ProductData): Promise<Product> {
+    const merchant = await merchantsService.getMerchantByApiKey(apiKey);
+    const product = await this.getProductForMerchant(merchant.id, productId);
+
+    return db.update<Product>('products', product.id, data);
+  }
+
+  /**
+   * Create a plan (a recurring price) for a product
+   */
+  async createPlan(apiKey: string, data: CreatePlanData): Promise<Plan> {
+    const merchant = await merchantsService.getMerchantByApiKey(apiKey);
+    const product = await this.getProductForMerchant(merchant.id, data.product_id);
+
+    if (!product.is_active) {
+      throw new AppError('Product is not active', 400, 'PRODUCT_INACTIVE');
+    }
+
+    // Free plans are allowed; paid plans must be chargeable in the currency
+    if (data.amount > 0) {
+      assertValidAmount(data.amount, data.currency);
+    }
+
+    return db.insert<Plan>('plans', {
+      merchant_id: merchant.id,
+      product_id: product.id,
+      nickname: data.nickname || product.name,
+      amount: data.amount,
+      currency: data.currency.toLowerCase(),
+      interval: data.interval,
+      interval_count: data.interval_count || 1,
+      trial_period_days: data.trial_period_days ?? null,
+      is_active: true,
+      metadata: data.metadata || {},
+    });
+  }
+
+  /**
+   * Get plan by ID
+   */
+  async getPlan(apiKey: string, planId: string): Promise<Plan> {
+    const merchant = await merchantsService.getMerchantByApiKey(apiKey);
+
+    return this.getPlanForMerchant(merchant.id, planId);
+  }
+
+  /**
+   * List plans for merchant
+   */
+  async listPlans(apiKey: string, options: ListOptions = {}): Promise<Plan[]> {
+    const merchant = await merchantsService.getMerchantByApiKey(apiKey);
+
+    return this.list<Plan>('plans', merchant.id, options);
+  }
+
+  /**
+   * Update a plan
+   * Pricing fields are immutable so existing subscriptions keep the terms they signed up for.
+   */
+  async updatePlan(apiKey: string, planId: string, data: UpdatePlanData): Promise<Plan> {
+    const merchant = await merchantsService.getMerchantByApiKey(apiKey);
+    const plan = await this.getPlanForMerchant(merchant.id, planId);
+
+    return db.update<Plan>('plans', plan.id, data);
+  }
+
+  /**
+   * Get a product, ensuring it belongs to the merchant
+   */
+  async getProductForMerchant(merchantId: string, productId: string): Promise<Product> {
+    const product = await db.findById<Product>('products', productId);
+
+    if (!product || product.merchant_id !== merchantId) {
+      throw new AppError('Product not found', 404, 'PRODUCT_NOT_FOUND');
+    }
+
+    return product;
+  }
+
+  /**
+   * Get a plan, ensuring it belongs to the merchant
+   */
+  async getPlanForMerchant(merchantId: string, planId: string): Promise<Plan> {
+    const plan = await db.findById<Plan>('plans', planId);
+
+    if (!plan || plan.merchant_id !== merchantId) {
+      throw new AppError('Plan not found', 404, 'PLAN_NOT_FOUND');
+    }
+
+    return plan;
+  }
+
+  private async list<T>(table: 'products' | 'plans', merchantId: string, options: ListOptions): Promise<T[]> {
+    const { limit = 10, offset = 0, is_active, product_id } = options;
+
+    let query = db.getClient()
+      .from(table)
+      .select('*')
+      .eq('merchant_id', merchantId);
+
+    if (is_active !== undefined) {
+      query = query.eq('is_active', is_active);
+    }
+
+    if (product_id && table === 'plans') {
+      query = query.eq('product_id', product_id);
+    }
+
+    const { data, error } = await query
+      .order('created_at', { ascending: false })
+      .range(offset, offset + limit - 1);
+
+    if (error) {
+      throw new Error(`Database query error: ${error.message}`);
+    }
+
+    return (data || []) as T[];
+  }
+}
+
+export default new ProductsService();
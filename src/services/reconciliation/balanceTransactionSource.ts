@@ -0,0 +1,21 @@
+import Stripe from 'stripe';
+
+export type BalanceTransactionSourceName = 'stripe' | 'fixture';
+
+export interface BalanceTransactionPeriod {
+  start: Date;
+  end: Date;
+}
+
+/**
+ * Balance transaction source interface
+ * Stripe lists them from the API; the fixture source reads them from a JSON
+ * file so reconciliation runs locally without Stripe. Both return Stripe's
+ * shapes with `source` expanded (a bare id is accepted where it's enough).
+ */
+export interface BalanceTransactionSource {
+  readonly name: BalanceTransactionSourceName;
+
+  // account: connected account ID, or null for the platform account; period end is exclusive
+  list(account: string | null, period: BalanceTransactionPeriod): Promise<Stripe.BalanceTransaction[]>;
+}
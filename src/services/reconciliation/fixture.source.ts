@@ -0,0 +1,38 @@
+import Stripe from 'stripe';
+import { promises as fs } from 'fs';
+import { AppError } from '../../middleware/errorHandler';
+import { BalanceTransactionPeriod, BalanceTransactionSource } from './balanceTransactionSource';
+
+const PLATFORM_KEY = 'platform';
+
+/**
+ * Balance transactions from a JSON file (RECONCILIATION_FIXTURE_PATH), keyed by
+ * connected account ID, with the platform account's under "platform":
+ *   { "platform": [ ... ], "acct_123": [ { "id": "txn_1", "type": "refund", "source": "re_1", ... } ] }
+ * The file is read on every call, so it can be edited between runs.
+ */
+class FixtureBalanceTransactionSource implements BalanceTransactionSource {
+  readonly name = 'fixture' as const;
+
+  async list(account: string | null, period: BalanceTransactionPeriod): Promise<Stripe.BalanceTransaction[]> {
+    const path = process.env.RECONCILIATION_FIXTURE_PATH;
+    if (!path) {
+      throw new AppError('RECONCILIATION_FIXTURE_PATH is not set', 500, 'RECONCILIATION_SOURCE_ERROR');
+    }
+
+    let fixture: Record<string, Stripe.BalanceTransaction[]>;
+    try {
+      fixture = JSON.parse(await fs.readFile(path, 'utf8'));
+    } catch (error: any) {
+      throw new AppError(`Failed to read reconciliation fixture: ${error.message}`, 500, 'RECONCILIATION_SOURCE_ERROR');
+    }
+
+    const start = period.start.getTime() / 1000;
+    const end = period.end.getTime() / 1000;
+
+    return (fixture[account || PLATFORM_KEY] || [])
+      .filter((transaction) => transaction.created >= start && transaction.created < end);
+  }
+}
+
+export default new FixtureBalanceTransactionSource();
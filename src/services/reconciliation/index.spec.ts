@@ -0,0 +1,174 @@
+import { describe, it, expect, beforeEach, afterAll, mock } from 'bun:test';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { fakeSupabase } from '../../test/fakeSupabase';
+import { installFakeLedger } from '../../test/fakeLedger';
+
+mock.module('@supabase/supabase-js', () => ({ createClient: () => fakeSupabase.client }));
+
+const { default: reconciliationService } = await import('./index');
+const { default: ledgerService } = await import('../ledger.service');
+const { default: reservesService } = await import('../reserves.service');
+
+installFakeLedger(fakeSupabase);
+
+const MERCHANT_ID = 'merchant_1';
+const ACCOUNT_ID = 'acct_1';
+
+const fixtureDir = mkdtempSync(join(tmpdir(), 'reconciliation-'));
+const fixturePath = join(fixtureDir, 'balance_transactions.json');
+
+const now = Math.floor(Date.now() / 1000);
+const period = {
+  start_date: new Date((now - 60 * 60) * 1000).toISOString(),
+  end_date: new Date((now + 60 * 60) * 1000).toISOString(),
+};
+
+function writeFixture(fixture: Record<string, any[]>) {
+  writeFileSync(fixturePath, JSON.stringify(fixture));
+}
+
+function deferredCharge(id: string, paymentIntentId: string, amount: number) {
+  return {
+    id,
+    type: 'charge',
+    amount,
+    currency: 'usd',
+    created: now,
+    source: {
+      id: `ch_${paymentIntentId}`,
+      object: 'charge',
+      payment_intent: paymentIntentId,
+      metadata: { type: 'deferred_payment', merchant_id: MERCHANT_ID },
+    },
+  };
+}
+
+function connected(id: string, type: string, source: string, amount: number) {
+  return { id, type, amount, currency: 'usd', created: now, source };
+}
+
+async function postRefund(stripeRefundId: string, amount: number) {
+  await ledgerService.move(MERCHANT_ID, {
+    from: 'merchant_available',
+    to: 'processor_clearing',
+    amount,
+    currency: 'USD',
+    source: 'refund',
+    description: `Refund ${stripeRefundId}`,
+    metadata: { stripe_refund_id: stripeRefundId },
+    idempotency_key: `refund_${stripeRefundId}`,
+  });
+}
+
+async function postDisputeWithdrawal(disputeId: string, amount: number) {
+  await ledgerService.move(MERCHANT_ID, {
+    from: 'merchant_available',
+    to: 'processor_clearing',
+    amount,
+    currency: 'USD',
+    source: 'dispute',
+    description: `Dispute funds withdrawn ${disputeId}`,
+    metadata: { dispute_id: disputeId },
+    idempotency_key: `dispute_withdrawn_${disputeId}`,
+  });
+}
+
+const discrepancies = () => fakeSupabase.rows('reconciliation_discrepancies')
+  .map((discrepancy) => `${discrepancy.type}:${discrepancy.object_type}:${discrepancy.object_id}`)
+  .sort();
+
+describe('ReconciliationService', () => {
+  beforeEach(() => {
+    fakeSupabase.reset();
+    process.env.RECONCILIATION_SOURCE = 'fixture';
+    process.env.RECONCILIATION_FIXTURE_PATH = fixturePath;
+    fakeSupabase.seed('merchants', [{
+      id: MERCHANT_ID,
+      default_currency: 'USD',
+      stripe_account_id: ACCOUNT_ID,
+      reserve_percent: 10,
+      reserve_hold_days: 30,
+    }]);
+  });
+
+  afterAll(() => {
+    rmSync(fixtureDir, { recursive: true, force: true });
+  });
+
+  it('matches payments split across pending and reserve, refunds and disputes', async () => {
+    await reservesService.creditPayment(MERCHANT_ID, { amount: 1000, currency: 'USD', payment_intent_id: 'pi_1' });
+    await postRefund('re_1', 400);
+    await postDisputeWithdrawal('dp_1', 600);
+    writeFixture({
+      platform: [deferredCharge('txn_1', 'pi_1', 1000)],
+      [ACCOUNT_ID]: [
+        connected('txn_2', 'refund', 're_1', -400),
+        connected('txn_3', 'adjustment', 'dp_1', -600),
+      ],
+    });
+
+    const run = await reconciliationService.runForMerchant(MERCHANT_ID, period);
+
+    expect(run.status).toBe('completed');
+    expect(run.source).toBe('fixture');
+    expect(run.processor_transactions).toBe(3);
+    expect(run.ledger_entries).toBe(3);
+    expect(run.matched).toBe(3);
+    expect(run.discrepancies).toBe(0);
+    expect(discrepancies()).toEqual([]);
+  });
+
+  it('records what only one side has and amounts that differ', async () => {
+    await reservesService.creditPayment(MERCHANT_ID, { amount: 1000, currency: 'USD', payment_intent_id: 'pi_1' });
+    await postRefund('re_1', 400);
+    await postRefund('re_2', 300);
+    writeFixture({
+      platform: [
+        deferredCharge('txn_1', 'pi_1', 1000),
+        deferredCharge('txn_2', 'pi_2', 2500),
+      ],
+      [ACCOUNT_ID]: [connected('txn_3', 'refund', 're_1', -450)],
+    });
+
+    const run = await reconciliationService.runForMerchant(MERCHANT_ID, period);
+
+    expect(run.matched).toBe(1);
+    expect(run.discrepancies).toBe(3);
+    expect(discrepancies()).toEqual([
+      'amount_mismatch:refund:re_1',
+      'missing_at_processor:refund:re_2',
+      'missing_in_ledger:payment:pi_2',
+    ]);
+
+    const mismatch = fakeSupabase.rows('reconciliation_discrepancies').find((row) => row.type === 'amount_mismatch');
+    expect(mismatch).toMatchObject({
+      run_id: run.id,
+      merchant_id: MERCHANT_ID,
+      processor_amount: 450,
+      ledger_amount: 400,
+      balance_transaction_ids: ['txn_3'],
+    });
+  });
+
+  it('ignores processor activity outside the period', async () => {
+    writeFixture({
+      platform: [{ ...deferredCharge('txn_1', 'pi_1', 1000), created: now - 3 * 24 * 60 * 60 }],
+    });
+
+    const run = await reconciliationService.runForMerchant(MERCHANT_ID, period);
+
+    expect(run.processor_transactions).toBe(0);
+    expect(run.discrepancies).toBe(0);
+  });
+
+  it('marks the run failed when the source cannot be read', async () => {
+    process.env.RECONCILIATION_FIXTURE_PATH = join(fixtureDir, 'missing.json');
+
+    await expect(reconciliationService.runForMerchant(MERCHANT_ID, period))
+      .rejects.toMatchObject({ code: 'RECONCILIATION_SOURCE_ERROR' });
+
+    expect(fakeSupabase.rows('reconciliation_runs')[0].status).toBe('failed');
+  });
+});
@@ -0,0 +1,616 @@
+import Stripe from 'stripe';
+import db from '../database.service';
+import notificationService from '../notification.service';
+import { Merchant } from '../merchants.service';
+import { LedgerEntry } from '../ledger.service';
+import { AppError } from '../../middleware/errorHandler';
+import stripeSource from './stripe.source';
+import fixtureSource from './fixture.source';
+import { BalanceTransactionPeriod, BalanceTransactionSource, BalanceTransactionSourceName } from './balanceTransactionSource';
+
+export type { BalanceTransactionSource, BalanceTransactionSourceName, BalanceTransactionPeriod } from './balanceTransactionSource';
+
+export type ReconciliationRunStatus = 'running' | 'completed' | 'failed';
+export type DiscrepancyType = 'missing_in_ledger' | 'missing_at_processor' | 'duplicate' | 'amount_mismatch';
+export type ReconciledObjectType = 'payment' | 'refund' | 'dispute' | 'transfer';
+
+export interface ReconciliationRun {
+  id: string;
+  merchant_id: string;
+  source: BalanceTransactionSourceName;
+  trigger: 'scheduled' | 'manual';
+  status: ReconciliationRunStatus;
+  period_start: string;
+  period_end: string;
+  processor_transactions: number;
+  ledger_entries: number;
+  matched: number;
+  discrepancies: number;
+  error_message?: string | null;
+  started_at?: string;
+  completed_at?: string | null;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface ReconciliationDiscrepancy {
+  id: string;
+  run_id: string;
+  merchant_id: string;
+  type: DiscrepancyType;
+  object_type: ReconciledObjectType;
+  object_id: string;
+  currency?: string | null;
+  processor_amount?: number | null;
+  ledger_amount?: number | null;
+  balance_transaction_ids: string[];
+  ledger_entry_ids: string[];
+  created_at?: string;
+}
+
+// One side of a match: a balance transaction or a ledger entry
+interface ReconciliationItem {
+  id: string;
+  object_type: ReconciledObjectType;
+  object_id: string;
+  // Key the two sides are matched on (a dispute is withdrawn and may be reinstated)
+  key: string;
+  amount: number;
+  currency: string;
+  in_period: boolean;
+  // Only compared when the ledger has the same key (platform refunds carry no merchant)
+  attributed_by_ledger?: boolean;
+  // Ledger side: entries of one journal are a single movement (e.g. pending + reserve)
+  journal_id?: string;
+}
+
+interface ListRunsOptions {
+  limit?: number;
+  offset?: number;
+}
+
+interface ListDiscrepanciesOptions extends ListRunsOptions {
+  run_id?: string;
+  type?: DiscrepancyType;
+}
+
+// Ledger postings trail the processor by seconds to minutes (webhooks, jobs), so each
+// side is matched against the other over a wider window than the period reported on
+const MATCH_MARGIN_MS = 24 * 60 * 60 * 1000;
+const MAX_PERIOD_MS = 31 * 24 * 60 * 60 * 1000;
+const PAGE_SIZE = 1000;
+
+/**
+ * Reconciles the ledger against processor balance transactions
+ * Per merchant: refunds and dispute withdrawals/reinstatements on its connected
+ * account, and deferred payments (the only charges the ledger posts), their refunds
+ * and transfers on the platform account. Everything else the processor moves (direct charges,
+ * fees, bank payouts) isn't in the ledger and isn't compared.
+ * RECONCILIATION_SOURCE selects where balance transactions come from: "stripe"
+ * (default) or "fixture" (a JSON file, see ./fixture.source).
+ */
+class ReconciliationService {
+  /**
+   * Reconcile every merchant with a connected account or ledger activity over the previous UTC day (scheduled)
+   */
+  async runScheduled(): Promise<number> {
+    const period = this.previousDay();
+    const source = this.getSource();
+    const padded = this.pad(period);
+
+    const merchantIds = await this.findMerchantsToReconcile(padded);
+    if (merchantIds.length === 0) {
+      return 0;
+    }
+
+    const platformTransactions = await source.list(null, padded);
+
+    let reconciled = 0;
+    for (const merchantId of merchantIds) {
+      const merchant = await db.findById<Merchant>('merchants', merchantId);
+      if (!merchant) {
+        continue;
+      }
+
+      try {
+        const run = await this.reconcile(merchant, period, 'scheduled', source, platformTransactions);
+        reconciled++;
+
+        if (run.discrepancies > 0) {
+          await notificationService.createNotification({
+            merchant_id: merchant.id,
+            type: 'warning',
+            title: 'Ledger discrepancies found',
+            message: `Reconciliation of ${period.start.toISOString().slice(0, 10)} found ${run.discrepancies} ledger ${run.discrepancies === 1 ? 'entry' : 'entries'} that don't match the processor.`,
+            action_url: '/dashboard/reconciliation',
+            action_label: 'View report',
+          });
+        }
+      } catch (error: any) {
+        console.error('Reconciliation failed for merchant:', merchant.id, error.message);
+      }
+    }
+
+    return reconciled;
+  }
+
+  /**
+   * Reconcile one merchant now (defaults to the previous UTC day)
+   */
+  async runForMerchant(merchantId: string, options: { start_date?: string; end_date?: string } = {}): Promise<ReconciliationRun> {
+    const merchant = await db.findById<Merchant>('merchants', merchantId);
+    if (!merchant) {
+      throw new AppError('Merchant not found', 404, 'MERCHANT_NOT_FOUND');
+    }
+
+    const period = options.start_date || options.end_date
+      ? this.parsePeriod(options.start_date, options.end_date)
+      : this.previousDay();
+
+    return this.reconcile(merchant, period, 'manual', this.getSource());
+  }
+
+  /**
+   * List a merchant's runs, newest first
+   */
+  async listRuns(merchantId: string, options: ListRunsOptions = {}): Promise<{ runs: ReconciliationRun[]; total_count: number; has_more: boolean }> {
+    const { limit = 20, offset = 0 } = options;
+
+    const { data, error, count } = await db.getClient()
+      .from('reconciliation_runs')
+      .select('*', { count: 'exact' })
+      .eq('merchant_id', merchantId)
+      .order('created_at', { ascending: false })
+      .range(offset, offset + limit - 1);
+
+    if (error) {
+      throw new Error(`Database query error: ${error.message}`);
+    }
+
+    const runs = (data || []) as ReconciliationRun[];
+
+    return {
+      runs,
+      total_count: count || 0,
+      has_more: offset + runs.length < (count || 0),
+    };
+  }
+
+  /**
+   * Get a run with its discrepancies
+   */
+  async getRun(merchantId: string, runId: string): Promise<{ run: ReconciliationRun; discrepancies: ReconciliationDiscrepancy[] }> {
+    const run = await db.findOne<ReconciliationRun>('reconciliation_runs', { id: runId, merchant_id: merchantId });
+
+    if (!run) {
+      throw new AppError('Reconciliation run not found', 404, 'RECONCILIATION_RUN_NOT_FOUND');
+    }
+
+    const discrepancies = await db.findMany<ReconciliationDiscrepancy>(
+      'reconciliation_discrepancies',
+      { run_id: run.id },
+      { orderBy: 'created_at:asc' }
+    );
+
+    return { run, discrepancies };
+  }
+
+  /**
+   * List a merchant's discrepancies, newest first
+   */
+  async listDiscrepancies(
+    merchantId: string,
+    options: ListDiscrepanciesOptions = {}
+  ): Promise<{ discrepancies: ReconciliationDiscrepancy[]; total_count: number; has_more: boolean }> {
+    const { limit = 20, offset = 0, run_id, type } = options;
+
+    let query = db.getClient()
+      .from('reconciliation_discrepancies')
+      .select('*', { count: 'exact' })
+      .eq('merchant_id', merchantId);
+
+    if (run_id) {
+      query = query.eq('run_id', run_id);
+    }
+
+    if (type) {
+      query = query.eq('type', type);
+    }
+
+    const { data, error, count } = await query
+      .order('created_at', { ascending: false })
+      .range(offset, offset + limit - 1);
+
+    if (error) {
+      throw new Error(`Database query error: ${error.message}`);
+    }
+
+    const discrepancies = (data || []) as ReconciliationDiscrepancy[];
+
+    return {
+      discrepancies,
+      total_count: count || 0,
+      has_more: offset + discrepancies.length < (count || 0),
+    };
+  }
+
+  /**
+   * Record a run, match both sides and store what didn't line up
+   */
+  private async reconcile(
+    merchant: Merchant,
+    period: BalanceTransactionPeriod,
+    trigger: ReconciliationRun['trigger'],
+    source: BalanceTransactionSource,
+    platformTransactions?: Stripe.BalanceTransaction[]
+  ): Promise<ReconciliationRun> {
+    const run = await db.insert<ReconciliationRun>('reconciliation_runs', {
+      merchant_id: merchant.id,
+      source: source.name,
+      trigger,
+      status: 'running',
+      period_start: period.start.toISOString(),
+      period_end: period.end.toISOString(),
+    });
+
+    try {
+      const padded = this.pad(period);
+      const platform = platformTransactions || await source.list(null, padded);
+      const connected = merchant.stripe_account_id ? await source.list(merchant.stripe_account_id, padded) : [];
+
+      const ledgerItems = this.mergeJournals(
+        (await this.listLedgerEntries(merchant.id, padded))
+          .map((entry) => this.fromLedgerEntry(entry, period))
+          .filter((item): item is ReconciliationItem => item !== null)
+      );
+      const ledgerKeys = new Set(ledgerItems.map((item) => item.key));
+
+      const processorItems = [
+        ...platform.map((transaction) => this.fromPlatformTransaction(transaction, merchant, period)),
+        ...connected.map((transaction) => this.fromConnectedTransaction(transaction, period)),
+      ].filter((item): item is ReconciliationItem =>
+        item !== null && (!item.attributed_by_ledger || ledgerKeys.has(item.key))
+      );
+
+      const { matched, discrepancies } = this.match(processorItems, ledgerItems);
+
+      if (discrepancies.length > 0) {
+        const { error } = await db.getClient()
+          .from('reconciliation_discrepancies')
+          .insert(discrepancies.map((discrepancy) => ({ ...discrepancy, run_id: run.id, merchant_id: merchant.id })));
+
+        if (error) {
+          throw new Error(`Database insert error: ${error.message}`);
+        }
+      }
+
+      const completed = await db.update<ReconciliationRun>('reconciliation_runs', run.id, {
+        status: 'completed',
+        processor_transactions: processorItems.filter((item) => item.in_period).length,
+        ledger_entries: ledgerItems.filter((item) => item.in_period).length,
+        matched,
+        discrepancies: discrepancies.length,
+        completed_at: new Date().toISOString(),
+      });
+
+      console.log(`Reconciliation ${run.id} for merchant ${merchant.id}: ${matched} matched, ${discrepancies.length} discrepancies`);
+
+      return completed;
+    } catch (error: any) {
+      await db.update<ReconciliationRun>('reconciliation_runs', run.id, {
+        status: 'failed',
+        error_message: error.message,
+        completed_at: new Date().toISOString(),
+      });
+
+      throw error;
+    }
+  }
+
+  /**
+   * Pair items by key; a key counts if either side falls in the period
+   */
+  private match(
+    processorItems: ReconciliationItem[],
+    ledgerItems: ReconciliationItem[]
+  ): { matched: number; discrepancies: Omit<ReconciliationDiscrepancy, 'id' | 'run_id' | 'merchant_id'>[] } {
+    const groups = new Map<string, { processor: ReconciliationItem[]; ledger: ReconciliationItem[] }>();
+
+    for (const [side, items] of [['processor', processorItems], ['ledger', ledgerItems]] as const) {
+      for (const item of items) {
+        const group = groups.get(item.key) || { processor: [], ledger: [] };
+        group[side].push(item);
+        groups.set(item.key, group);
+      }
+    }
+
+    let matched = 0;
+    const discrepancies: Omit<ReconciliationDiscrepancy, 'id' | 'run_id' | 'merchant_id'>[] = [];
+
+    for (const { processor, ledger } of groups.values()) {
+      const items = [...processor, ...ledger];
+      if (!items.some((item) => item.in_period)) {
+        continue;
+      }
+
+      let type: DiscrepancyType | null = null;
+      if (processor.length > 1 || ledger.length > 1) {
+        type = 'duplicate';
+      } else if (ledger.length === 0) {
+        type = 'missing_in_ledger';
+      } else if (processor.length === 0) {
+        type = 'missing_at_processor';
+      } else if (processor[0].amount !== ledger[0].amount || processor[0].currency !== ledger[0].currency) {
+        type = 'amount_mismatch';
+      }
+
+      if (!type) {
+        matched++;
+        continue;
+      }
+
+      const total = (side: ReconciliationItem[]) => side.length > 0 ? side.reduce((sum, item) => sum + item.amount, 0) : null;
+
+      discrepancies.push({
+        type,
+        object_type: items[0].object_type,
+        object_id: items[0].object_id,
+        currency: (processor[0] || ledger[0]).currency,
+        processor_amount: total(processor),
+        ledger_amount: total(ledger),
+        balance_transaction_ids: processor.map((item) => item.id),
+        ledger_entry_ids: ledger.map((item) => item.id),
+      });
+    }
+
+    return { matched, discrepancies };
+  }
+
+  /**
+   * Deferred payments collected for the merchant, their refunds and transfers to its connected account
+   */
+  private fromPlatformTransaction(
+    transaction: Stripe.BalanceTransaction,
+    merchant: Merchant,
+    period: BalanceTransactionPeriod
+  ): ReconciliationItem | null {
+    const source = transaction.source as any;
+    const sourceId = typeof source === 'string' ? source : source?.id;
+
+    if ((transaction.type === 'refund' || transaction.type === 'payment_refund') && sourceId) {
+      return { ...this.processorItem(transaction, 'refund', sourceId, period), attributed_by_ledger: true };
+    }
+
+    if (!source || typeof source === 'string') {
+      // Can't be attributed to a merchant without the expanded object
+      return null;
+    }
+
+    if ((transaction.type === 'charge' || transaction.type === 'payment')
+      && source.metadata?.type === 'deferred_payment'
+      && source.metadata?.merchant_id === merchant.id) {
+      const paymentIntentId = typeof source.payment_intent === 'string' ? source.payment_intent : source.payment_intent?.id;
+      return paymentIntentId ? this.processorItem(transaction, 'payment', paymentIntentId, period) : null;
+    }
+
+    if (transaction.type === 'transfer' && merchant.stripe_account_id) {
+      const destination = typeof source.destination === 'string' ? source.destination : source.destination?.id;
+      return destination === merchant.stripe_account_id
+        ? this.processorItem(transaction, 'transfer', source.id, period)
+        : null;
+    }
+
+    return null;
+  }
+
+  /**
+   * Refunds and dispute withdrawals/reinstatements on the merchant's connected account
+   */
+  private fromConnectedTransaction(transaction: Stripe.BalanceTransaction, period: BalanceTransactionPeriod): ReconciliationItem | null {
+    const sourceId = typeof transaction.source === 'string' ? transaction.source : (transaction.source as any)?.id;
+    if (!sourceId) {
+      return null;
+    }
+
+    if (transaction.type === 'refund' || transaction.type === 'payment_refund') {
+      return this.processorItem(transaction, 'refund', sourceId, period);
+    }
+
+    if (transaction.type === 'adjustment' && /^(dp|du)_/.test(sourceId)) {
+      return this.processorItem(transaction, 'dispute', sourceId, period, transaction.amount < 0 ? 'withdrawn' : 'reinstated');
+    }
+
+    return null;
+  }
+
+  private processorItem(
+    transaction: Stripe.BalanceTransaction,
+    objectType: ReconciledObjectType,
+    objectId: string,
+    period: BalanceTransactionPeriod,
+    qualifier?: string
+  ): ReconciliationItem {
+    const createdAt = transaction.created * 1000;
+
+    return {
+      id: transaction.id,
+      object_type: objectType,
+      object_id: objectId,
+      key: [objectType, objectId, qualifier].filter(Boolean).join(':'),
+      amount: Math.abs(transaction.amount),
+      currency: transaction.currency.toUpperCase(),
+      in_period: createdAt >= period.start.getTime() && createdAt < period.end.getTime(),
+    };
+  }
+
+  /**
+   * Ledger side of the same objects, from the journal metadata
+   */
+  private fromLedgerEntry(entry: LedgerEntry, period: BalanceTransactionPeriod): ReconciliationItem | null {
+    const metadata = entry.metadata || {};
+    let objectType: ReconciledObjectType;
+    let objectId: string;
+    let qualifier: string | undefined;
+
+    if (entry.source === 'payment' && entry.type === 'credit' && metadata.payment_intent_id) {
+      objectType = 'payment';
+      objectId = metadata.payment_intent_id;
+    } else if (entry.source === 'refund' && entry.type === 'debit' && metadata.stripe_refund_id) {
+      objectType = 'refund';
+      objectId = metadata.stripe_refund_id;
+    } else if (entry.source === 'dispute' && metadata.dispute_id) {
+      objectType = 'dispute';
+      objectId = metadata.dispute_id;
+      qualifier = entry.type === 'debit' ? 'withdrawn' : 'reinstated';
+    } else if (entry.type === 'debit' && metadata.transfer_id) {
+      // Payouts and split transfers; the split's credit is its share of the payment, not the transfer
+      objectType = 'transfer';
+      objectId = metadata.transfer_id;
+    } else {
+      return null;
+    }
+
+    const createdAt = new Date(entry.created_at).getTime();
+
+    return {
+      id: entry.id,
+      object_type: objectType,
+      object_id: objectId,
+      key: [objectType, objectId, qualifier].filter(Boolean).join(':'),
+      amount: entry.amount,
+      currency: entry.currency.toUpperCase(),
+      in_period: createdAt >= period.start.getTime() && createdAt < period.end.getTime(),
+      journal_id: entry.journal_id,
+    };
+  }
+
+  /**
+   * Sum entries posted by the same journal for the same object
+   * A payment credited partly to the reserve, or a dispute covered partly by it,
+   * posts to two merchant accounts but is one movement at the processor.
+   */
+  private mergeJournals(items: ReconciliationItem[]): ReconciliationItem[] {
+    const merged = new Map<string, ReconciliationItem>();
+
+    for (const item of items) {
+      const key = `${item.journal_id}:${item.key}`;
+      const existing = merged.get(key);
+      if (existing) {
+        existing.amount += item.amount;
+      } else {
+        merged.set(key, { ...item });
+      }
+    }
+
+    return [...merged.values()];
+  }
+
+  private async listLedgerEntries(merchantId: string, period: BalanceTransactionPeriod): Promise<LedgerEntry[]> {
+    const entries: LedgerEntry[] = [];
+
+    for (let offset = 0; ; offset += PAGE_SIZE) {
+      const { data, error } = await db.getClient()
+        .from('merchant_ledger_entries')
+        .select('*')
+        .eq('merchant_id', merchantId)
+        .gte('created_at', period.start.toISOString())
+        .lt('created_at', period.end.toISOString())
+        .order('created_at', { ascending: true })
+        .order('id', { ascending: true })
+        .range(offset, offset + PAGE_SIZE - 1);
+
+      if (error) {
+        throw new Error(`Database query error: ${error.message}`);
+      }
+
+      entries.push(...((data || []) as LedgerEntry[]));
+
+      if (!data || data.length < PAGE_SIZE) {
+        return entries;
+      }
+    }
+  }
+
+  /**
+   * Merchants with a connected account, plus those with ledger activity in the period
+   */
+  private async findMerchantsToReconcile(period: BalanceTransactionPeriod): Promise<string[]> {
+    const ids = new Set<string>();
+
+    for (let offset = 0; ; offset += PAGE_SIZE) {
+      const { data, error } = await db.getClient()
+        .from('merchants')
+        .select('id')
+        .not('stripe_account_id', 'is', null)
+        .order('id', { ascending: true })
+        .range(offset, offset + PAGE_SIZE - 1);
+
+      if (error) {
+        throw new Error(`Database query error: ${error.message}`);
+      }
+
+      (data || []).forEach((merchant: { id: string }) => ids.add(merchant.id));
+
+      if (!data || data.length < PAGE_SIZE) {
+        break;
+      }
+    }
+
+    for (let offset = 0; ; offset += PAGE_SIZE) {
+      const { data, error } = await db.getClient()
+        .from('ledger_journals')
+        .select('merchant_id')
+        .gte('created_at', period.start.toISOString())
+        .lt('created_at', period.end.toISOString())
+        .order('created_at', { ascending: true })
+        .range(offset, offset + PAGE_SIZE - 1);
+
+      if (error) {
+        throw new Error(`Database query error: ${error.message}`);
+      }
+
+      (data || []).forEach((journal: { merchant_id: string }) => ids.add(journal.merchant_id));
+
+      if (!data || data.length < PAGE_SIZE) {
+        break;
+      }
+    }
+
+    return Array.from(ids);
+  }
+
+  private parsePeriod(startDate?: string, endDate?: string): BalanceTransactionPeriod {
+    const end = endDate ? new Date(endDate) : new Date();
+    const start = startDate ? new Date(startDate) : new Date(end.getTime() - 24 * 60 * 60 * 1000);
+
+    if (isNaN(start.getTime()) || isNaN(end.getTime()) || end <= start) {
+      throw new AppError('end_date must be after start_date', 400, 'INVALID_RECONCILIATION_PERIOD');
+    }
+
+    if (end.getTime() - start.getTime() > MAX_PERIOD_MS) {
+      throw new AppError('A reconciliation period can span at most 31 days', 400, 'INVALID_RECONCILIATION_PERIOD');
+    }
+
+    return { start, end };
+  }
+
+  private previousDay(): BalanceTransactionPeriod {
+    const end = new Date();
+    end.setUTCHours(0, 0, 0, 0);
+
+    return { start: new Date(end.getTime() - 24 * 60 * 60 * 1000), end };
+  }
+
+  private pad(period: BalanceTransactionPeriod): BalanceTransactionPeriod {
+    return {
+      start: new Date(period.start.getTime() - MATCH_MARGIN_MS),
+      end: new Date(period.end.getTime() + MATCH_MARGIN_MS),
+    };
+  }
+
+  private getSource(): BalanceTransactionSource {
+    return process.env.RECONCILIATION_SOURCE === 'fixture' ? fixtureSource : stripeSource;
+  }
+}
+
+export default new ReconciliationService();
@@ -0,0 +1,23 @@
+import Stripe from 'stripe';
+import { stripeProcessor } from '../processors';
+import { BalanceTransactionPeriod, BalanceTransactionSource } from './balanceTransactionSource';
+
+class StripeBalanceTransactionSource implements BalanceTransactionSource {
+  readonly name = 'stripe' as const;
+
+  async list(account: string | null, period: BalanceTransactionPeriod): Promise<Stripe.BalanceTransaction[]> {
+    return stripeProcessor.listBalanceTransactions(
+      {
+        created: {
+          gte: Math.floor(period.start.getTime() / 1000),
+          lt: Math.floor(period.end.getTime() / 1000),
+        },
+        // Charges, transfers and disputes carry what attributes them to a merchant
+        expand: ['data.source'],
+      },
+      { account: account || undefined }
+    );
+  }
+}
+
+export default new StripeBalanceTransactionSource();
@@ -0,0 +1,122 @@
+import { describe, it, expect, beforeEach, afterEach, mock, spyOn } from 'bun:test';
+import { fakeSupabase } from '../test/fakeSupabase';
+import { installFakeLedger, ledgerBalance } from '../test/fakeLedger';
+import { fakeProcessor, fakeProcessorsModule } from '../test/fakeProcessor';
+
+mock.module('@supabase/supabase-js', () => ({ createClient: () => fakeSupabase.client }));
+mock.module('./processors', () => fakeProcessorsModule);
+mock.module('./merchantWebhooks.service', () => ({ default: { send: async () => {} } }));
+
+const { default: paymentsService } = await import('./payments.service');
+const { default: refundsService } = await import('./refunds.service');
+const { default: jobs } = await import('./jobs');
+
+installFakeLedger(fakeSupabase);
+
+const MERCHANT_ID = 'merchant_1';
+const RECIPIENT_ID = 'merchant_2';
+
+const merchant = { id: MERCHANT_ID, default_currency: 'USD', stripe_account_id: 'acct_1' } as any;
+
+const split = () => fakeSupabase.rows('payment_splits')[0];
+
+const refund = (amount: number) => paymentsService.refundPaymentForMerchant(merchant, 'txn_1', { amount });
+
+const settle = (stripeRefundId: string, status: 'succeeded' | 'failed' | 'canceled') =>
+  refundsService.handleRefundUpdated({ id: stripeRefundId, status } as any);
+
+describe('refunds of split payments', () => {
+  let enqueue: ReturnType<typeof spyOn>;
+
+  beforeEach(() => {
+    fakeSupabase.reset();
+    fakeProcessor.reset();
+    enqueue = spyOn(jobs, 'enqueue').mockImplementation(async () => 'job_1');
+
+    fakeSupabase.seed('merchants', [
+      merchant,
+      { id: RECIPIENT_ID, default_currency: 'USD', stripe_account_id: 'acct_2' },
+    ]);
+    fakeSupabase.seed('transactions', [{
+      id: 'txn_1',
+      merchant_id: MERCHANT_ID,
+      amount: 1000,
+      currency: 'USD',
+      status: 'succeeded',
+      processor: 'stripe',
+      stripe_payment_intent_id: 'pi_1',
+      split_amount: 300,
+      refunded_amount: 0,
+    }]);
+    fakeSupabase.seed('payment_splits', [{
+      id: 'split_1',
+      transaction_id: 'txn_1',
+      merchant_id: MERCHANT_ID,
+      destination_merchant_id: RECIPIENT_ID,
+      destination_account: 'acct_2',
+      amount: 300,
+      amount_reversed: 0,
+      currency: 'USD',
+      status: 'transferred',
+      stripe_transfer_id: 'tr_split_1',
+    }]);
+  });
+
+  afterEach(() => {
+    enqueue.mockRestore();
+  });
+
+  it('leaves splits alone while the refund is pending and after it fails', async () => {
+    const created = await refund(500);
+
+    expect(created.status).toBe('pending');
+    expect(created.split_amount_reversed).toBeUndefined();
+
+    await settle(created.stripe_refund_id, 'failed');
+
+    expect(fakeSupabase.rows('refunds')[0].status).toBe('failed');
+    expect(fakeSupabase.rows('transactions')[0].refunded_amount).toBe(0);
+    expect(split()).toMatchObject({ amount_reversed: 0, status: 'transferred' });
+    expect(fakeProcessor.callsTo('createTransferReversal')).toEqual([]);
+    expect(enqueue).not.toHaveBeenCalled();
+    expect(fakeSupabase.rows('ledger_journals').filter((journal) => journal.merchant_id === RECIPIENT_ID)).toEqual([]);
+  });
+
+  it('leaves splits alone when a pending refund is canceled', async () => {
+    const created = await refund(500);
+
+    await settle(created.stripe_refund_id, 'canceled');
+
+    expect(split()).toMatchObject({ amount_reversed: 0, status: 'transferred' });
+    expect(fakeProcessor.callsTo('createTransferReversal')).toEqual([]);
+  });
+
+  it('reverses the recipients\' share once a pending refund succeeds', async () => {
+    const created = await refund(500);
+
+    await settle(created.stripe_refund_id, 'succeeded');
+
+    expect(split()).toMatchObject({ amount_reversed: 150, status: 'partially_reversed' });
+    expect(fakeProcessor.callsTo('createTransferReversal')).toHaveLength(1);
+    expect(fakeProcessor.callsTo('createTransferReversal')[0][0]).toBe('tr_split_1');
+    expect(enqueue).toHaveBeenCalledWith(
+      'payment-splits',
+      { action: 'return', transaction_id: 'txn_1', refund_id: created.refund_id, amount: 150 },
+      { jobId: `split_return_${created.refund_id}` }
+    );
+
+    // The recipient's reversal nets to zero on its balance
+    expect(ledgerBalance(fakeSupabase, RECIPIENT_ID, 'merchant_available')).toBe(0);
+    expect(ledgerBalance(fakeSupabase, MERCHANT_ID, 'merchant_available')).toBe(-500);
+  });
+
+  it('reports the reversed split amount for a refund that succeeds at creation', async () => {
+    fakeProcessor.stub('createRefund', async () => ({ id: 're_instant', status: 'succeeded' }));
+
+    const created = await refund(1000);
+
+    expect(created.status).toBe('succeeded');
+    expect(created.split_amount_reversed).toBe(300);
+    expect(split()).toMatchObject({ amount_reversed: 300, status: 'reversed' });
+  });
+});
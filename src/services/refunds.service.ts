@@ -0,0 +1,570 @@
+import Stripe from 'stripe';
+import db from './database.service';
+import transactionLifecycle from './transactionLifecycle.service';
+import merchantWebhooksService from './merchantWebhooks.service';
+import ledgerService, { LedgerJournal, isSandboxPayment } from './ledger.service';
+import pricingService from './pricing.service';
+import splitsService from './splits.service';
+import { Merchant } from './merchants.service';
+import { AppError } from '../middleware/errorHandler';
+import { getProcessor, ProcessorName } from './processors';
+
+export type RefundStatus = 'pending' | 'succeeded' | 'failed' | 'canceled';
+
+export interface Refund {
+  id: string;
+  transaction_id: string;
+  merchant_id: string;
+  amount: number;
+  reason?: string | null;
+  stripe_refund_id: string;
+  status: RefundStatus;
+  failure_reason?: string | null;
+  fee_refunded?: number;
+  succeeded_at?: string | null;
+  failed_at?: string | null;
+  canceled_at?: string | null;
+  created_at?: string;
+  updated_at?: string;
+}
+
+interface RefundedTransaction {
+  id: string;
+  merchant_id: string;
+  amount: number;
+  currency: string;
+  status: string;
+  processor?: ProcessorName;
+  metadata?: Record<string, any> | null;
+  stripe_charge_id?: string | null;
+  platform_fee?: number;
+  refunded_amount?: number;
+  split_amount?: number;
+  transfer_group?: string | null;
+}
+
+interface ListRefundsOptions {
+  limit?: number;
+  offset?: number;
+  transaction_id?: string;
+  status?: RefundStatus;
+  start_date?: string;
+  end_date?: string;
+}
+
+interface ListRefundsResult {
+  refunds: Refund[];
+  total_count: number;
+  has_more: boolean;
+}
+
+interface RepairLedgerOptions {
+  merchant_id?: string;
+  dry_run?: boolean;
+}
+
+export interface LedgerRepairResult {
+  merchant_id: string;
+  legacy_entries_reversed: number;
+  legacy_amount_reversed: number;
+  refunds_posted: number;
+  refund_amount_posted: number;
+  balance_before: number;
+  balance_after: number;
+}
+
+const LEDGER_PAGE_SIZE = 1000;
+
+/**
+ * Statuses a refund can move to, keyed by the statuses it can move from.
+ * A succeeded refund can still fail when the card network returns the funds.
+ */
+const ALLOWED_FROM: Record<Exclude<RefundStatus, 'pending'>, RefundStatus[]> = {
+  succeeded: ['pending'],
+  failed: ['pending', 'succeeded'],
+  canceled: ['pending'],
+};
+
+const STATUS_TIMESTAMP_COLUMNS: Record<Exclude<RefundStatus, 'pending'>, string> = {
+  succeeded: 'succeeded_at',
+  failed: 'failed_at',
+  canceled: 'canceled_at',
+};
+
+/**
+ * Refund records and their settlement
+ * Refunds are created through PaymentsService.refundPaymentForMerchant; this
+ * service tracks them from pending to succeeded, failed or canceled.
+ */
+class RefundsService {
+  /**
+   * Get a refund belonging to a merchant
+   */
+  async getRefund(merchantId: string, refundId: string): Promise<Refund> {
+    const refund = await db.findOne<Refund>('refunds', { id: refundId, merchant_id: merchantId });
+
+    if (!refund) {
+      throw new AppError('Refund not found', 404, 'REFUND_NOT_FOUND');
+    }
+
+    return refund;
+  }
+
+  /**
+   * List a merchant's refunds (newest first)
+   */
+  async listRefunds(merchantId: string, options: ListRefundsOptions = {}): Promise<ListRefundsResult> {
+    const { limit = 10, offset = 0, transaction_id, status, start_date, end_date } = options;
+
+    let query = db.getClient()
+      .from('refunds')
+      .select('*', { count: 'exact' })
+      .eq('merchant_id', merchantId);
+
+    if (transaction_id) {
+      query = query.eq('transaction_id', transaction_id);
+    }
+
+    if (status) {
+      query = query.eq('status', status);
+    }
+
+    if (start_date) {
+      query = query.gte('created_at', start_date);
+    }
+
+    if (end_date) {
+      query = query.lte('created_at', end_date);
+    }
+
+    const { data, error, count } = await query
+      .order('created_at', { ascending: false })
+      .range(offset, offset + limit - 1);
+
+    if (error) {
+      throw new Error(`Database query error: ${error.message}`);
+    }
+
+    const refunds = (data || []) as Refund[];
+
+    return {
+      refunds,
+      total_count: count || 0,
+      has_more: offset + refunds.length < (count || 0),
+    };
+  }
+
+  /**
+   * Cancel a refund that hasn't settled yet
+   */
+  async cancelRefund(merchant: Merchant, refundId: string): Promise<Refund> {
+    const refund = await this.getRefund(merchant.id, refundId);
+
+    if (refund.status !== 'pending') {
+      throw new AppError('Only pending refunds can be canceled', 400, 'REFUND_NOT_CANCELABLE');
+    }
+
+    const transaction = await db.findById<RefundedTransaction>('transactions', refund.transaction_id);
+
+    await getProcessor(transaction?.processor).cancelRefund(refund.stripe_refund_id, {
+      account: merchant.stripe_account_id,
+    });
+
+    // The processor also sends charge.refund.updated; whichever lands first applies the change
+    const { refund: canceled } = await this.applyStatus(refund, 'canceled');
+
+    return canceled;
+  }
+
+  /**
+   * Sync a refund from charge.refund.updated
+   */
+  async handleRefundUpdated(stripeRefund: Stripe.Refund): Promise<void> {
+    const refund = await db.findOne<Refund>('refunds', { stripe_refund_id: stripeRefund.id });
+
+    if (!refund) {
+      console.error('Refund not found for processor refund:', stripeRefund.id);
+      return;
+    }
+
+    if (stripeRefund.status === 'succeeded' || stripeRefund.status === 'failed' || stripeRefund.status === 'canceled') {
+      await this.applyStatus(refund, stripeRefund.status, {
+        failure_reason: stripeRefund.failure_reason || null,
+      });
+    }
+  }
+
+  /**
+   * Sync every refund on a charge from charge.refunded
+   * Refunds not created through the API have no record and are skipped.
+   */
+  async syncChargeRefunds(charge: Stripe.Charge): Promise<void> {
+    for (const stripeRefund of charge.refunds?.data || []) {
+      await this.handleRefundUpdated(stripeRefund);
+    }
+  }
+
+  /**
+   * Side effects of a refund that has settled
+   * Called for refunds that succeed at creation and for those that settle later.
+   * Split recipients give back their share only here, so a pending refund that
+   * fails or is canceled never touches them. Returns the split amount reversed.
+   */
+  async handleSucceeded(refund: Refund): Promise<number> {
+    const transaction = await db.findById<RefundedTransaction>('transactions', refund.transaction_id);
+
+    if (!transaction) {
+      console.error('Transaction not found for refund:', refund.id);
+      return 0;
+    }
+
+    const splitAmountReversed = await splitsService.reverseForRefund(transaction, refund.amount, refund.id);
+
+    const settledRefunds = await db.findMany<Refund>('refunds', {
+      transaction_id: transaction.id,
+      status: 'succeeded',
+    });
+
+    await this.postToLedger(refund, transaction, settledRefunds.filter((r) => r.id !== refund.id));
+
+    // The payment is refunded once settled refunds cover it; pending ones still may fail
+    const settled = settledRefunds.reduce((sum, r) => sum + r.amount, 0);
+
+    if (transaction.status === 'succeeded' && settled >= transaction.amount) {
+      await transactionLifecycle.transition(transaction, 'refunded', {
+        source: 'system',
+        reason: refund.reason || 'refund',
+        metadata: { refund_id: refund.id, amount: refund.amount },
+      });
+    }
+
+    await merchantWebhooksService.send(refund.merchant_id, 'refund.succeeded', this.toWebhookPayload(refund, transaction));
+
+    return splitAmountReversed;
+  }
+
+  /**
+   * Replace the cumulative refund debits charge.refunded used to post with per-refund postings
+   * Reverses each old debit, posts every settled refund that has no posting and
+   * reports the merchant's resulting balance. Reruns post nothing new; dry runs only report.
+   * Platform fees are not refunded retroactively.
+   */
+  async repairLedger(options: RepairLedgerOptions = {}): Promise<LedgerRepairResult[]> {
+    const legacyEntries = await this.findLegacyRefundEntries(options.merchant_id);
+
+    const merchantIds = new Set(legacyEntries.map((entry) => entry.merchant_id));
+    if (options.merchant_id) {
+      merchantIds.add(options.merchant_id);
+    }
+
+    const results: LedgerRepairResult[] = [];
+
+    for (const merchantId of merchantIds) {
+      results.push(await this.repairMerchantLedger(
+        merchantId,
+        legacyEntries.filter((entry) => entry.merchant_id === merchantId),
+        !!options.dry_run
+      ));
+    }
+
+    return results;
+  }
+
+  /**
+   * Compare-and-set a refund's status and run the side effects of the change
+   */
+  private async applyStatus(
+    refund: Refund,
+    status: Exclude<RefundStatus, 'pending'>,
+    fields: Partial<Refund> = {}
+  ): Promise<{ refund: Refund; changed: boolean }> {
+    const now = new Date().toISOString();
+
+    const { data, error } = await db.getClient()
+      .from('refunds')
+      .update({
+        ...fields,
+        status,
+        [STATUS_TIMESTAMP_COLUMNS[status]]: now,
+        updated_at: now,
+      })
+      .eq('id', refund.id)
+      .in('status', ALLOWED_FROM[status])
+      .select();
+
+    if (error) {
+      throw new Error(`Database update error: ${error.message}`);
+    }
+
+    if (!data || data.length === 0) {
+      // Redelivered or out-of-order update
+      const latest = await db.findById<Refund>('refunds', refund.id);
+      return { refund: latest || refund, changed: false };
+    }
+
+    const updated = data[0] as Refund;
+
+    if (status === 'succeeded') {
+      await this.handleSucceeded(updated);
+    } else {
+      const transaction = await this.releaseAmount(updated);
+
+      if (transaction) {
+        await this.reverseLedgerPosting(updated, transaction);
+      }
+
+      if (status === 'failed') {
+        await merchantWebhooksService.send(updated.merchant_id, 'refund.failed', {
+          ...this.toWebhookPayload(updated, transaction),
+          failure_reason: updated.failure_reason,
+        });
+      }
+    }
+
+    console.log(`Refund ${status}:`, updated.id);
+
+    return { refund: updated, changed: true };
+  }
+
+  /**
+   * Give a failed or canceled refund's amount back to the payment's refundable balance
+   * A payment already marked refunded stays refunded, as refunded is terminal.
+   */
+  private async releaseAmount(refund: Refund): Promise<RefundedTransaction | null> {
+    const transaction = await db.findById<RefundedTransaction>('transactions', refund.transaction_id);
+
+    if (!transaction) {
+      return null;
+    }
+
+    const refundedAmount = Math.max((transaction.refunded_amount || 0) - refund.amount, 0);
+
+    return db.update<RefundedTransaction>('transactions', transaction.id, {
+      refunded_amount: refundedAmount,
+      refunded: refundedAmount > 0,
+      ...(refundedAmount === 0 && { refunded_at: null }),
+    } as any);
+  }
+
+  /**
+   * Debit a settled refund and credit the platform fee returned with it (REFUND_APPLICATION_FEE_POLICY)
+   * Entries are keyed by refund id, so redelivered events post nothing new.
+   * Sandbox refunds still return the fee at the processor but post nothing.
+   */
+  private async postToLedger(refund: Refund, transaction: RefundedTransaction, otherSettled: Refund[]): Promise<void> {
+    const sandbox = isSandboxPayment(transaction);
+
+    if (!sandbox) {
+      await this.postRefundDebit(refund, transaction.currency);
+    }
+
+    if (refund.fee_refunded || !transaction.stripe_charge_id) {
+      return;
+    }
+
+    const feeRefunded = pricingService.calculateRefundedFee({
+      amount: transaction.amount,
+      platform_fee: transaction.platform_fee || 0,
+      refunded_before: otherSettled.reduce((sum, r) => sum + r.amount, 0),
+      fee_refunded_before: otherSettled.reduce((sum, r) => sum + (r.fee_refunded || 0), 0),
+    }, refund.amount);
+
+    if (feeRefunded <= 0) {
+      return;
+    }
+
+    const merchant = await db.findById<Merchant>('merchants', refund.merchant_id);
+
+    try {
+      const feeRefund = await getProcessor(transaction.processor).refundApplicationFee(
+        transaction.stripe_charge_id,
+        { amount: feeRefunded, metadata: { refund_id: refund.id } },
+        { account: merchant?.stripe_account_id, idempotencyKey: `refund_fee_${refund.id}` }
+      );
+
+      if (!feeRefund) {
+        return;
+      }
+    } catch (error: any) {
+      // The refund itself has settled; don't fail its status update over the fee
+      console.error('Failed to refund application fee for refund:', refund.id, error.message);
+      return;
+    }
+
+    if (!sandbox) {
+      await ledgerService.move(refund.merchant_id, {
+        from: 'platform_fees',
+        to: 'merchant_available',
+        amount: feeRefunded,
+        currency: transaction.currency,
+        source: 'refund',
+        description: `Platform fee returned for refund ${refund.stripe_refund_id}`,
+        metadata: { transaction_id: transaction.id, refund_id: refund.id },
+        idempotency_key: `refund_fee_${refund.id}`,
+      });
+    }
+
+    await db.update<Refund>('refunds', refund.id, { fee_refunded: feeRefunded });
+  }
+
+  private async postRefundDebit(refund: Refund, currency: string): Promise<void> {
+    await ledgerService.move(refund.merchant_id, {
+      from: 'merchant_available',
+      to: 'processor_clearing',
+      amount: refund.amount,
+      currency,
+      source: 'refund',
+      description: `Refund ${refund.stripe_refund_id} for payment ${refund.transaction_id}`,
+      metadata: { transaction_id: refund.transaction_id, refund_id: refund.id, stripe_refund_id: refund.stripe_refund_id },
+      idempotency_key: `refund_${refund.id}`,
+    });
+  }
+
+  /**
+   * Credit back the debit of a refund that failed after it had settled
+   * A returned platform fee stays with the merchant.
+   */
+  private async reverseLedgerPosting(refund: Refund, transaction: RefundedTransaction): Promise<void> {
+    const debit = await ledgerService.findJournal(refund.merchant_id, `refund_${refund.id}`);
+
+    if (!debit) {
+      return;
+    }
+
+    await ledgerService.move(refund.merchant_id, {
+      from: 'processor_clearing',
+      to: 'merchant_available',
+      amount: debit.amount,
+      currency: transaction.currency,
+      source: 'refund',
+      description: `Refund ${refund.stripe_refund_id} ${refund.status}`,
+      metadata: { transaction_id: transaction.id, refund_id: refund.id },
+      idempotency_key: `refund_reversal_${refund.id}`,
+    });
+  }
+
+  /**
+   * Debits posted by charge.refunded before refunds were posted individually
+   * (migrated into journals that keep the charge_id metadata and no key)
+   */
+  private async findLegacyRefundEntries(merchantId?: string): Promise<LedgerJournal[]> {
+    const entries: LedgerJournal[] = [];
+
+    for (let offset = 0; ; offset += LEDGER_PAGE_SIZE) {
+      let query = db.getClient()
+        .from('ledger_journals')
+        .select('*')
+        .eq('source', 'refund')
+        .is('idempotency_key', null)
+        .not('metadata->>charge_id', 'is', null);
+
+      if (merchantId) {
+        query = query.eq('merchant_id', merchantId);
+      }
+
+      const { data, error } = await query
+        .order('created_at', { ascending: true })
+        .range(offset, offset + LEDGER_PAGE_SIZE - 1);
+
+      if (error) {
+        throw new Error(`Database query error: ${error.message}`);
+      }
+
+      entries.push(...((data || []) as LedgerJournal[]));
+
+      if (!data || data.length < LEDGER_PAGE_SIZE) {
+        return entries;
+      }
+    }
+  }
+
+  private async repairMerchantLedger(
+    merchantId: string,
+    legacyEntries: LedgerJournal[],
+    dryRun: boolean
+  ): Promise<LedgerRepairResult> {
+    const merchant = await db.findById<Merchant>('merchants', merchantId);
+
+    if (!merchant) {
+      throw new AppError('Merchant not found', 404, 'MERCHANT_NOT_FOUND');
+    }
+
+    const { data: keyed, error } = await db.getClient()
+      .from('ledger_journals')
+      .select('idempotency_key')
+      .eq('merchant_id', merchantId)
+      .like('idempotency_key', 'refund_%');
+
+    if (error) {
+      throw new Error(`Database query error: ${error.message}`);
+    }
+
+    const postedKeys = new Set((keyed || []).map((entry: { idempotency_key: string }) => entry.idempotency_key));
+
+    const toReverse = legacyEntries.filter((entry) => !postedKeys.has(`refund_repair_${entry.id}`));
+    const refunds = await db.findMany<Refund>('refunds', { merchant_id: merchantId, status: 'succeeded' });
+    const toPost: { refund: Refund; currency: string }[] = [];
+
+    for (const refund of refunds.filter((refund) => !postedKeys.has(`refund_${refund.id}`))) {
+      const transaction = await db.findById<RefundedTransaction>('transactions', refund.transaction_id);
+      // Sandbox refunds are never posted
+      if (transaction && !isSandboxPayment(transaction)) {
+        toPost.push({ refund, currency: transaction.currency });
+      }
+    }
+
+    const legacyAmount = toReverse.reduce((sum, entry) => sum + entry.amount, 0);
+    const refundAmount = toPost.reduce((sum, { refund }) => sum + refund.amount, 0);
+    const { available: balanceBefore } = await ledgerService.getBalance(merchantId);
+
+    const result: LedgerRepairResult = {
+      merchant_id: merchantId,
+      legacy_entries_reversed: toReverse.length,
+      legacy_amount_reversed: legacyAmount,
+      refunds_posted: toPost.length,
+      refund_amount_posted: refundAmount,
+      balance_before: balanceBefore,
+      balance_after: balanceBefore + legacyAmount - refundAmount,
+    };
+
+    if (dryRun) {
+      return result;
+    }
+
+    for (const entry of toReverse) {
+      await ledgerService.move(merchantId, {
+        from: 'processor_clearing',
+        to: 'merchant_available',
+        amount: entry.amount,
+        currency: entry.currency,
+        source: 'refund',
+        description: `Reversal of cumulative refund debit (${entry.description})`,
+        metadata: { reversed_entry_id: entry.id, charge_id: entry.metadata?.charge_id },
+        idempotency_key: `refund_repair_${entry.id}`,
+      });
+    }
+
+    for (const { refund, currency } of toPost) {
+      await this.postRefundDebit(refund, currency);
+    }
+
+    const { available } = await ledgerService.getBalance(merchantId);
+    result.balance_after = available;
+
+    return result;
+  }
+
+  private toWebhookPayload(refund: Refund, transaction: RefundedTransaction | null): Record<string, any> {
+    return {
+      refund_id: refund.id,
+      transaction_id: refund.transaction_id,
+      amount: refund.amount,
+      currency: transaction?.currency,
+      status: refund.status,
+      reason: refund.reason,
+      stripe_refund_id: refund.stripe_refund_id,
+    };
+  }
+}
+
+export default new RefundsService();
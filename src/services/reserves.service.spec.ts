@@ -0,0 +1,161 @@
+import { describe, it, expect, beforeEach, mock } from 'bun:test';
+import { fakeSupabase } from '../test/fakeSupabase';
+import { installFakeLedger, ledgerBalance } from '../test/fakeLedger';
+import { fakeProcessorsModule } from '../test/fakeProcessor';
+
+mock.module('@supabase/supabase-js', () => ({ createClient: () => fakeSupabase.client }));
+mock.module('./processors', () => fakeProcessorsModule);
+mock.module('./merchantWebhooks.service', () => ({ default: { send: async () => {} } }));
+
+const { default: reservesService } = await import('./reserves.service');
+const { default: ledgerService } = await import('./ledger.service');
+const { default: webhooksService } = await import('./webhooks.service');
+
+installFakeLedger(fakeSupabase);
+fakeSupabase.unique('reserve_tranches', ['journal_id']);
+
+const MERCHANT_ID = 'merchant_1';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const balance = (type: string) => ledgerBalance(fakeSupabase, MERCHANT_ID, type);
+
+const credit = (paymentIntentId: string, amount: number) =>
+  reservesService.creditPayment(MERCHANT_ID, { amount, currency: 'USD', payment_intent_id: paymentIntentId });
+
+const daysFromNow = (days: number) => new Date(Date.now() + days * DAY_MS);
+
+describe('ReservesService', () => {
+  beforeEach(() => {
+    fakeSupabase.reset();
+    fakeSupabase.seed('merchants', [{
+      id: MERCHANT_ID,
+      default_currency: 'USD',
+      reserve_percent: 10,
+      reserve_hold_days: 30,
+      reserve_minimum_amount: 0,
+    }]);
+  });
+
+  it('withholds the reserve from a payment and records its tranche once', async () => {
+    expect(await credit('pi_1', 1000)).toBe(100);
+    expect(await credit('pi_1', 1000)).toBe(100);
+
+    expect(balance('merchant_pending')).toBe(900);
+    expect(balance('merchant_reserve')).toBe(100);
+
+    const tranches = fakeSupabase.rows('reserve_tranches');
+    expect(tranches).toHaveLength(1);
+    expect(tranches[0]).toMatchObject({ merchant_id: MERCHANT_ID, amount: 100, currency: 'USD' });
+    expect(new Date(tranches[0].release_at).getTime())
+      .toBe(new Date(fakeSupabase.rows('ledger_journals')[0].created_at).getTime() + 30 * DAY_MS);
+  });
+
+  it('releases only matured tranches, once per hour', async () => {
+    await credit('pi_1', 1000);
+
+    expect(await reservesService.releaseMatured(daysFromNow(1))).toEqual([]);
+
+    const released = await reservesService.releaseMatured(daysFromNow(31));
+    const again = await reservesService.releaseMatured(daysFromNow(31));
+
+    expect(released).toEqual([{ merchant_id: MERCHANT_ID, currency: 'USD', amount: 100 }]);
+    expect(again).toEqual([]);
+    expect(balance('merchant_reserve')).toBe(0);
+    expect(balance('merchant_available')).toBe(100);
+    expect(fakeSupabase.rows('ledger_journals').at(-1)?.idempotency_key)
+      .toBe(`reserve_release_USD_${daysFromNow(31).toISOString().slice(0, 13)}`);
+  });
+
+  it('keeps the minimum reserve when tranches mature', async () => {
+    fakeSupabase.rows('merchants')[0].reserve_minimum_amount = 150;
+
+    // The first payment tops the reserve up to the minimum, the second withholds the percent
+    expect(await credit('pi_1', 1000)).toBe(150);
+    expect(await credit('pi_2', 1000)).toBe(100);
+
+    const released = await reservesService.releaseMatured(daysFromNow(31));
+
+    expect(released).toEqual([{ merchant_id: MERCHANT_ID, currency: 'USD', amount: 100 }]);
+    expect(balance('merchant_reserve')).toBe(150);
+  });
+
+  it('covers only what the available balance cannot', async () => {
+    await credit('pi_1', 1000);
+    await ledgerService.move(MERCHANT_ID, {
+      from: 'merchant_pending',
+      to: 'merchant_available',
+      amount: 300,
+      currency: 'USD',
+      source: 'release',
+      description: 'Funds released',
+    });
+
+    expect(await reservesService.coverFromReserve(MERCHANT_ID, 200, 'USD')).toBe(0);
+    expect(await reservesService.coverFromReserve(MERCHANT_ID, 350, 'USD')).toBe(50);
+    expect(await reservesService.coverFromReserve(MERCHANT_ID, 1000, 'USD')).toBe(100);
+  });
+});
+
+describe('dispute funds and the reserve', () => {
+  const dispute = { id: 'dp_1', object: 'dispute', amount: 350, currency: 'usd' };
+
+  const deliver = (type: string) =>
+    webhooksService.processEvent({ id: `evt_${type}`, type, data: { object: dispute } } as any);
+
+  beforeEach(async () => {
+    fakeSupabase.reset();
+    fakeSupabase.seed('merchants', [{
+      id: MERCHANT_ID,
+      default_currency: 'USD',
+      reserve_percent: 10,
+      reserve_hold_days: 30,
+    }]);
+    fakeSupabase.seed('transactions', [{ id: 'txn_1', merchant_id: MERCHANT_ID, processor: 'stripe' }]);
+    fakeSupabase.seed('disputes', [{
+      id: 'dispute_1',
+      merchant_id: MERCHANT_ID,
+      transaction_id: 'txn_1',
+      stripe_dispute_id: dispute.id,
+      processor: 'stripe',
+    }]);
+
+    await credit('pi_1', 1000);
+    await ledgerService.move(MERCHANT_ID, {
+      from: 'merchant_pending',
+      to: 'merchant_available',
+      amount: 300,
+      currency: 'USD',
+      source: 'release',
+      description: 'Funds released',
+    });
+  });
+
+  it('takes the shortfall of a withdrawal from the reserve, once', async () => {
+    await deliver('charge.dispute.funds_withdrawn');
+    await deliver('charge.dispute.funds_withdrawn');
+
+    expect(balance('merchant_available')).toBe(0);
+    expect(balance('merchant_reserve')).toBe(50);
+
+    const withdrawal = await ledgerService.findJournal(MERCHANT_ID, 'dispute_withdrawn_dp_1');
+    expect(withdrawal?.metadata).toMatchObject({ dispute_id: 'dp_1', reserve_used: 50 });
+  });
+
+  it('returns to the reserve what it covered when the funds are reinstated', async () => {
+    await deliver('charge.dispute.funds_withdrawn');
+    await deliver('charge.dispute.funds_reinstated');
+
+    expect(balance('merchant_available')).toBe(300);
+    expect(balance('merchant_reserve')).toBe(100);
+    expect(balance('processor_clearing')).toBe(-1000);
+  });
+
+  it('posts nothing for a sandbox dispute', async () => {
+    fakeSupabase.rows('transactions')[0].processor = 'simulator';
+    const journals = fakeSupabase.rows('ledger_journals').length;
+
+    await deliver('charge.dispute.funds_withdrawn');
+
+    expect(fakeSupabase.rows('ledger_journals')).toHaveLength(journals);
+  });
+});
@@ -0,0 +1,283 @@
+import db from './database.service';
+import ledgerService from './ledger.service';
+import { AppError } from '../middleware/errorHandler';
+import { Merchant } from './merchants.service';
+
+export interface ReservePolicy {
+  // Share of every payment withheld
+  percent: number;
+  hold_days: number;
+  // Reserve balance kept regardless of maturity, in the merchant's default currency
+  minimum_amount: number;
+}
+
+export interface ReserveTranche {
+  id: string;
+  merchant_id: string;
+  transaction_id?: string | null;
+  journal_id: string;
+  amount: number;
+  currency: string;
+  release_at: string;
+  created_at: string;
+}
+
+interface PaymentCreditInput {
+  amount: number;
+  currency: string;
+  payment_intent_id: string;
+  transaction_id?: string | null;
+}
+
+interface ReleaseResult {
+  merchant_id: string;
+  currency: string;
+  amount: number;
+}
+
+/**
+ * Rolling reserves
+ * Payments are credited to the pending balance less a withholding held in the
+ * merchant_reserve account; each withholding is a tranche released once it
+ * matures, as long as the reserve stays above the merchant's minimum.
+ */
+class ReservesService {
+  async getPolicy(merchantId: string): Promise<ReservePolicy> {
+    const merchant = await db.findById<Merchant>('merchants', merchantId);
+    if (!merchant) {
+      throw new AppError('Merchant not found', 404, 'MERCHANT_NOT_FOUND');
+    }
+
+    return this.toPolicy(merchant);
+  }
+
+  /**
+   * Set a merchant's reserve policy (admin)
+   * Takes effect for payments credited from now on; existing tranches keep their release dates.
+   */
+  async setPolicy(merchantId: string, policy: Partial<ReservePolicy>): Promise<ReservePolicy> {
+    const merchant = await db.findById<Merchant>('merchants', merchantId);
+    if (!merchant) {
+      throw new AppError('Merchant not found', 404, 'MERCHANT_NOT_FOUND');
+    }
+
+    const updated = await db.update<Merchant>('merchants', merchantId, {
+      ...(policy.percent !== undefined && { reserve_percent: policy.percent }),
+      ...(policy.hold_days !== undefined && { reserve_hold_days: policy.hold_days }),
+      ...(policy.minimum_amount !== undefined && { reserve_minimum_amount: policy.minimum_amount }),
+    });
+
+    console.log('Reserve policy updated for merchant:', merchantId);
+
+    return this.toPolicy(updated);
+  }
+
+  /**
+   * Credit a settled payment to the merchant, withholding the reserve
+   * Posted once per payment intent; the tranche is recorded from the posted
+   * journal, so a redelivered webhook doesn't withhold twice.
+   */
+  async creditPayment(merchantId: string, input: PaymentCreditInput): Promise<number> {
+    const merchant = await db.findById<Merchant>('merchants', merchantId);
+    if (!merchant) {
+      throw new AppError('Merchant not found', 404, 'MERCHANT_NOT_FOUND');
+    }
+
+    const policy = this.toPolicy(merchant);
+    const withheld = await this.calculateWithholding(merchant, policy, input.amount, input.currency);
+
+    const { journal_id } = await ledgerService.postJournal(merchantId, {
+      source: 'payment',
+      description: `Payment ${input.payment_intent_id}`,
+      currency: input.currency,
+      postings: [
+        { account: 'processor_clearing', amount: -input.amount },
+        { account: 'merchant_pending', amount: input.amount - withheld },
+        { account: 'merchant_reserve', amount: withheld },
+      ],
+      metadata: {
+        payment_intent_id: input.payment_intent_id,
+        ...(input.transaction_id && { transaction_id: input.transaction_id }),
+        ...(withheld > 0 && { reserve_withheld: withheld }),
+      },
+      idempotency_key: `payment_${input.payment_intent_id}`,
+    });
+
+    return this.recordTranche(merchantId, journal_id, policy, input.transaction_id);
+  }
+
+  /**
+   * How much of a debit the reserve should cover
+   * The available balance pays first; the reserve covers what it can't, up to
+   * the reserve balance, and any remainder takes the available balance negative.
+   */
+  async coverFromReserve(merchantId: string, amount: number, currency: string): Promise<number> {
+    const balances = await ledgerService.getAccountBalances(merchantId, currency);
+    const available = Math.max(balances.merchant_available || 0, 0);
+    const reserve = Math.max(balances.merchant_reserve || 0, 0);
+
+    return Math.min(Math.max(amount - available, 0), reserve);
+  }
+
+  /**
+   * Release matured tranches to the available balance (scheduled)
+   * A reserve keeps the sum of its unmatured tranches, or the merchant's
+   * minimum if higher; anything above that is released in one journal per
+   * merchant and currency per hour.
+   */
+  async releaseMatured(now: Date = new Date()): Promise<ReleaseResult[]> {
+    const { data, error } = await db.getClient()
+      .from('ledger_account_balances')
+      .select('merchant_id, currency, balance')
+      .eq('type', 'merchant_reserve')
+      .gt('balance', 0);
+
+    if (error) {
+      throw new Error(`Database query error: ${error.message}`);
+    }
+
+    const released: ReleaseResult[] = [];
+
+    for (const reserve of (data || []) as { merchant_id: string; currency: string; balance: number }[]) {
+      try {
+        const amount = await this.releaseReserve(reserve.merchant_id, reserve.currency, Number(reserve.balance), now);
+        if (amount > 0) {
+          released.push({ merchant_id: reserve.merchant_id, currency: reserve.currency, amount });
+        }
+      } catch (error: any) {
+        console.error(`Failed to release reserve for merchant ${reserve.merchant_id} (${reserve.currency}):`, error.message);
+      }
+    }
+
+    if (released.length > 0) {
+      console.log(`Released matured reserves for ${released.length} merchant balance(s)`);
+    }
+
+    return released;
+  }
+
+  /**
+   * Tranches not yet released, soonest first
+   */
+  async listUpcomingReleases(merchantId: string, currency?: string, now: Date = new Date()): Promise<ReserveTranche[]> {
+    let query = db.getClient()
+      .from('reserve_tranches')
+      .select('*')
+      .eq('merchant_id', merchantId)
+      .gt('release_at', now.toISOString());
+
+    if (currency) {
+      query = query.eq('currency', currency.toUpperCase());
+    }
+
+    const { data, error } = await query.order('release_at', { ascending: true });
+
+    if (error) {
+      throw new Error(`Database query error: ${error.message}`);
+    }
+
+    return (data || []) as ReserveTranche[];
+  }
+
+  private async releaseReserve(merchantId: string, currency: string, balance: number, now: Date): Promise<number> {
+    const merchant = await db.findById<Merchant>('merchants', merchantId);
+    if (!merchant) {
+      return 0;
+    }
+
+    const policy = this.toPolicy(merchant);
+    const unmatured = (await this.listUpcomingReleases(merchantId, currency, now))
+      .reduce((sum, tranche) => sum + tranche.amount, 0);
+    const minimum = this.isDefaultCurrency(merchant, currency) ? policy.minimum_amount : 0;
+
+    const amount = balance - Math.max(unmatured, minimum);
+    if (amount <= 0) {
+      return 0;
+    }
+
+    const { duplicate } = await ledgerService.move(merchantId, {
+      from: 'merchant_reserve',
+      to: 'merchant_available',
+      amount,
+      currency,
+      source: 'reserve',
+      description: 'Matured reserve released',
+      idempotency_key: `reserve_release_${currency.toUpperCase()}_${now.toISOString().slice(0, 13)}`,
+    });
+
+    return duplicate ? 0 : amount;
+  }
+
+  /**
+   * Percent of the payment, raised to top the reserve up to its minimum, never more than the payment
+   */
+  private async calculateWithholding(
+    merchant: Merchant,
+    policy: ReservePolicy,
+    amount: number,
+    currency: string
+  ): Promise<number> {
+    let withheld = Math.round((amount * policy.percent) / 100);
+
+    if (policy.minimum_amount > 0 && this.isDefaultCurrency(merchant, currency)) {
+      const balances = await ledgerService.getAccountBalances(merchant.id, currency);
+      const shortfall = policy.minimum_amount - (balances.merchant_reserve || 0);
+      withheld = Math.max(withheld, shortfall);
+    }
+
+    return Math.min(Math.max(withheld, 0), amount);
+  }
+
+  private async recordTranche(
+    merchantId: string,
+    journalId: string,
+    policy: ReservePolicy,
+    transactionId?: string | null
+  ): Promise<number> {
+    // Read back what the journal withheld: on a duplicate it was posted under an earlier policy
+    const posting = await db.findOne<{ amount: number; currency: string; created_at: string }>(
+      'merchant_ledger_entries',
+      { journal_id: journalId, status: 'reserve' }
+    );
+    if (!posting) {
+      return 0;
+    }
+
+    const existing = await db.findOne<ReserveTranche>('reserve_tranches', { journal_id: journalId });
+    if (existing) {
+      return existing.amount;
+    }
+
+    const releaseAt = new Date(new Date(posting.created_at).getTime() + policy.hold_days * 24 * 60 * 60 * 1000);
+
+    try {
+      await db.insert<ReserveTranche>('reserve_tranches', {
+        merchant_id: merchantId,
+        transaction_id: transactionId || null,
+        journal_id: journalId,
+        amount: Number(posting.amount),
+        currency: posting.currency,
+        release_at: releaseAt.toISOString(),
+      });
+    } catch (error) {
+      // Unique journal_id violation - a concurrent delivery recorded it first
+      console.warn('Reserve tranche already recorded for journal:', journalId);
+    }
+
+    return Number(posting.amount);
+  }
+
+  private isDefaultCurrency(merchant: Merchant, currency: string): boolean {
+    return (merchant.default_currency || 'USD').toUpperCase() === currency.toUpperCase();
+  }
+
+  private toPolicy(merchant: Merchant): ReservePolicy {
+    return {
+      percent: Number(merchant.reserve_percent || 0),
+      hold_days: merchant.reserve_hold_days ?? 90,
+      minimum_amount: merchant.reserve_minimum_amount || 0,
+    };
+  }
+}
+
+export default new ReservesService();
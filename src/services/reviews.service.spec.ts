@@ -0,0 +1,154 @@
+import { describe, it, expect, beforeEach, mock } from 'bun:test';
+import { fakeSupabase } from '../test/fakeSupabase';
+import { installFakeLedger } from '../test/fakeLedger';
+import { fakeProcessor, fakeProcessorsModule } from '../test/fakeProcessor';
+
+mock.module('@supabase/supabase-js', () => ({ createClient: () => fakeSupabase.client }));
+mock.module('./processors', () => fakeProcessorsModule);
+mock.module('./merchantWebhooks.service', () => ({ default: { send: async () => {} } }));
+
+const { default: reviewsService } = await import('./reviews.service');
+
+installFakeLedger(fakeSupabase);
+
+const MERCHANT_ID = 'merchant_1';
+
+const merchant = { id: MERCHANT_ID, default_currency: 'USD', stripe_account_id: 'acct_1' } as any;
+
+const review = () => fakeSupabase.rows('payment_reviews')[0];
+const transaction = () => fakeSupabase.rows('transactions')[0];
+
+function seed(held: boolean, status: string) {
+  fakeSupabase.seed('merchants', [merchant]);
+  fakeSupabase.seed('transactions', [{
+    id: 'txn_1',
+    merchant_id: MERCHANT_ID,
+    amount: 1000,
+    currency: 'USD',
+    status,
+    processor: 'stripe',
+    stripe_payment_intent_id: 'pi_1',
+    capture_method: 'automatic',
+    refunded_amount: 0,
+  }]);
+  fakeSupabase.seed('payment_reviews', [{
+    id: 'review_1',
+    merchant_id: MERCHANT_ID,
+    transaction_id: 'txn_1',
+    status: 'open',
+    reason: 'risk_rules',
+    held,
+    notes: [],
+  }]);
+}
+
+const failing = (message: string) => async () => {
+  throw new Error(message);
+};
+
+describe('ReviewsService', () => {
+  beforeEach(() => {
+    fakeSupabase.reset();
+    fakeProcessor.reset();
+  });
+
+  describe('approveReview', () => {
+    it('captures a held payment and closes the review', async () => {
+      seed(true, 'in_review');
+
+      const closed = await reviewsService.approveReview(merchant, 'review_1', { reviewer: 'analyst' });
+
+      expect(closed).toMatchObject({ status: 'approved', closed_reason: 'approved', closed_by: 'analyst' });
+      expect(transaction().status).toBe('processing');
+      expect(fakeProcessor.callsTo('capturePaymentIntent')).toHaveLength(1);
+    });
+
+    it('keeps the review open when the capture fails, and captures on the next approval', async () => {
+      seed(true, 'in_review');
+      fakeProcessor.stub('capturePaymentIntent', failing('Card declined'));
+
+      await expect(reviewsService.approveReview(merchant, 'review_1', { reviewer: 'analyst' })).rejects.toThrow('Card declined');
+
+      expect(review().status).toBe('open');
+      expect(transaction().status).toBe('requires_capture');
+
+      fakeProcessor.reset();
+      const closed = await reviewsService.approveReview(merchant, 'review_1', { reviewer: 'analyst' });
+
+      expect(closed.status).toBe('approved');
+      expect(transaction().status).toBe('processing');
+    });
+  });
+
+  describe('rejectReview', () => {
+    it('voids a held payment and closes the review', async () => {
+      seed(true, 'in_review');
+
+      const closed = await reviewsService.rejectReview(merchant, 'review_1', { reviewer: 'analyst' });
+
+      expect(closed).toMatchObject({ status: 'rejected', closed_reason: 'rejected' });
+      expect(transaction()).toMatchObject({ status: 'canceled', amount_capturable: 0 });
+      expect(fakeProcessor.callsTo('cancelPaymentIntent')).toEqual([
+        ['pi_1', { cancellation_reason: 'fraudulent' }, { account: 'acct_1', idempotencyKey: 'review_review_1_cancel' }],
+      ]);
+    });
+
+    it('keeps the review open when the void fails, and voids on the next rejection', async () => {
+      seed(true, 'in_review');
+      fakeProcessor.stub('cancelPaymentIntent', failing('Processor unavailable'));
+
+      await expect(reviewsService.rejectReview(merchant, 'review_1', { reviewer: 'analyst' }))
+        .rejects.toThrow('Processor unavailable');
+
+      expect(review().status).toBe('open');
+      expect(transaction().status).toBe('in_review');
+
+      fakeProcessor.reset();
+      const closed = await reviewsService.rejectReview(merchant, 'review_1', { reviewer: 'analyst' });
+
+      expect(closed.status).toBe('rejected');
+      expect(transaction().status).toBe('canceled');
+    });
+
+    it('closes a review whose payment was voided by an earlier rejection', async () => {
+      seed(true, 'canceled');
+
+      const closed = await reviewsService.rejectReview(merchant, 'review_1', { reviewer: 'analyst' });
+
+      expect(closed.status).toBe('rejected');
+      expect(fakeProcessor.callsTo('cancelPaymentIntent')).toEqual([]);
+    });
+
+    it('refunds a settled payment before closing the review', async () => {
+      seed(false, 'succeeded');
+
+      const closed = await reviewsService.rejectReview(merchant, 'review_1', { reviewer: 'analyst', refund: true });
+
+      const [refund] = fakeSupabase.rows('refunds');
+      expect(refund).toMatchObject({ amount: 1000, reason: 'fraudulent' });
+      expect(closed).toMatchObject({ status: 'rejected', closed_reason: 'refunded', refund_id: refund.id });
+      expect(fakeProcessor.callsTo('createRefund')[0][1].idempotencyKey).toBe('review_review_1_refund');
+    });
+
+    it('keeps the review open when the refund fails', async () => {
+      seed(false, 'succeeded');
+      fakeProcessor.stub('createRefund', failing('Charge already refunded'));
+
+      await expect(reviewsService.rejectReview(merchant, 'review_1', { reviewer: 'analyst', refund: true }))
+        .rejects.toThrow('Charge already refunded');
+
+      expect(review()).toMatchObject({ status: 'open' });
+      expect(review().refund_id).toBeUndefined();
+    });
+
+    it('does not refund again when retrying a rejection whose refund went through', async () => {
+      seed(false, 'succeeded');
+      fakeSupabase.rows('payment_reviews')[0].refund_id = 'refund_1';
+
+      const closed = await reviewsService.rejectReview(merchant, 'review_1', { reviewer: 'analyst' });
+
+      expect(closed).toMatchObject({ closed_reason: 'refunded', refund_id: 'refund_1' });
+      expect(fakeProcessor.callsTo('createRefund')).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,404 @@
+import db from './database.service';
+import transactionLifecycle from './transactionLifecycle.service';
+import merchantWebhooksService from './merchantWebhooks.service';
+import notificationService from './notification.service';
+import paymentsService from './payments.service';
+import { Merchant } from './merchants.service';
+import { AppError } from '../middleware/errorHandler';
+import { getProcessor, ProcessorName } from './processors';
+
+export type ReviewReason = 'risk_rules' | 'amount_threshold';
+export type ReviewStatus = 'open' | 'approved' | 'rejected' | 'canceled';
+export type ReviewClosedReason = 'approved' | 'rejected' | 'refunded' | 'canceled' | 'authorization_expired';
+
+export interface ReviewNote {
+  author: string;
+  note: string;
+  created_at: string;
+}
+
+export interface PaymentReview {
+  id: string;
+  merchant_id: string;
+  transaction_id: string;
+  status: ReviewStatus;
+  reason: ReviewReason;
+  // false when the payment settled before the review (its method can't be held)
+  held: boolean;
+  risk_score?: number | null;
+  notes: ReviewNote[];
+  sla_due_at: string;
+  sla_breached_at?: string | null;
+  closed_reason?: ReviewClosedReason | null;
+  closed_by?: string | null;
+  refund_id?: string | null;
+  opened_at?: string;
+  closed_at?: string | null;
+  created_at?: string;
+  updated_at?: string;
+}
+
+interface ReviewedTransaction {
+  id: string;
+  merchant_id: string;
+  amount: number;
+  currency: string;
+  status: string;
+  processor?: ProcessorName;
+  stripe_payment_intent_id: string;
+  capture_method?: 'automatic' | 'manual';
+  review_reason?: ReviewReason | null;
+  risk_score?: number | null;
+  authorization_expires_at?: string | null;
+}
+
+interface ListReviewsOptions {
+  limit?: number;
+  offset?: number;
+  status?: ReviewStatus;
+}
+
+interface ListReviewsResult {
+  reviews: PaymentReview[];
+  total_count: number;
+  has_more: boolean;
+}
+
+interface CloseReviewOptions {
+  reviewer: string;
+  note?: string;
+}
+
+interface RejectReviewOptions extends CloseReviewOptions {
+  // Refund a payment that settled before the review
+  refund?: boolean;
+}
+
+const DEFAULT_REVIEW_SLA_HOURS = 24;
+const SLA_BATCH_SIZE = 100;
+
+/**
+ * Manual reviews of risky or large payments
+ * Held payments are authorized without capture and wait in in_review: approving
+ * captures them (or leaves them in requires_capture when the merchant captures
+ * manually), rejecting voids them. Payments whose method can't be held are
+ * reviewed after they settle, and rejecting them can refund them.
+ */
+class ReviewsService {
+  /**
+   * Open a review for a payment (at most one per payment)
+   */
+  async openReview(transaction: ReviewedTransaction, options: { held: boolean }): Promise<PaymentReview> {
+    const existing = await db.findOne<PaymentReview>('payment_reviews', { transaction_id: transaction.id });
+    if (existing) {
+      return existing;
+    }
+
+    const merchant = await db.findById<Merchant>('merchants', transaction.merchant_id);
+    const slaHours = merchant?.review_sla_hours || DEFAULT_REVIEW_SLA_HOURS;
+
+    // A held payment has to be decided before its authorization expires
+    let slaDueAt = new Date(Date.now() + slaHours * 60 * 60 * 1000);
+    if (options.held && transaction.authorization_expires_at) {
+      const expiresAt = new Date(transaction.authorization_expires_at);
+      if (expiresAt < slaDueAt) {
+        slaDueAt = expiresAt;
+      }
+    }
+
+    const review = await db.insert<PaymentReview>('payment_reviews', {
+      merchant_id: transaction.merchant_id,
+      transaction_id: transaction.id,
+      status: 'open',
+      reason: transaction.review_reason || 'risk_rules',
+      held: options.held,
+      risk_score: transaction.risk_score ?? null,
+      notes: [],
+      sla_due_at: slaDueAt.toISOString(),
+    });
+
+    await merchantWebhooksService.send(transaction.merchant_id, 'review.opened', {
+      review_id: review.id,
+      transaction_id: transaction.id,
+      reason: review.reason,
+      held: review.held,
+      risk_score: review.risk_score,
+      amount: transaction.amount,
+      currency: transaction.currency,
+      sla_due_at: review.sla_due_at,
+    });
+
+    console.log('Review opened:', review.id, 'for transaction:', transaction.id);
+
+    return review;
+  }
+
+  /**
+   * Get a review belonging to a merchant
+   */
+  async getReview(merchantId: string, reviewId: string): Promise<PaymentReview> {
+    const review = await db.findOne<PaymentReview>('payment_reviews', { id: reviewId, merchant_id: merchantId });
+
+    if (!review) {
+      throw new AppError('Review not found', 404, 'REVIEW_NOT_FOUND');
+    }
+
+    return review;
+  }
+
+  /**
+   * List a merchant's reviews, soonest SLA first
+   */
+  async listReviews(merchantId: string, options: ListReviewsOptions = {}): Promise<ListReviewsResult> {
+    const { limit = 10, offset = 0, status } = options;
+
+    let query = db.getClient()
+      .from('payment_reviews')
+      .select('*', { count: 'exact' })
+      .eq('merchant_id', merchantId);
+
+    if (status) {
+      query = query.eq('status', status);
+    }
+
+    const { data, error, count } = await query
+      .order('sla_due_at', { ascending: true })
+      .range(offset, offset + limit - 1);
+
+    if (error) {
+      throw new Error(`Database query error: ${error.message}`);
+    }
+
+    const reviews = (data || []) as PaymentReview[];
+
+    return {
+      reviews,
+      total_count: count || 0,
+      has_more: offset + reviews.length < (count || 0),
+    };
+  }
+
+  /**
+   * Add a reviewer note
+   */
+  async addNote(merchantId: string, reviewId: string, author: string, note: string): Promise<PaymentReview> {
+    const review = await this.getReview(merchantId, reviewId);
+
+    return db.update<PaymentReview>('payment_reviews', review.id, {
+      notes: [...(review.notes || []), this.buildNote(author, note)],
+    });
+  }
+
+  /**
+   * Approve a review: capture a held payment (or release it for manual capture)
+   * The review closes only once the payment is released and captured, so a
+   * failed capture leaves it open to approve again.
+   */
+  async approveReview(merchant: Merchant, reviewId: string, options: CloseReviewOptions): Promise<PaymentReview> {
+    const review = await this.getReview(merchant.id, reviewId);
+    // Already released by an approval whose capture failed
+    const transaction = await this.getOpenReviewTransaction(review, ['in_review', 'requires_capture']);
+
+    if (review.held) {
+      if (transaction.status === 'in_review') {
+        await transactionLifecycle.transition(transaction, 'requires_capture', {
+          source: 'api',
+          reason: 'review_approved',
+          metadata: { review_id: review.id },
+        });
+      }
+
+      if (transaction.capture_method !== 'manual') {
+        await paymentsService.capturePaymentForMerchant(merchant, transaction.id);
+      }
+    }
+
+    const closed = await this.close(review, 'approved', 'approved', options);
+
+    await this.sendClosedEvent(closed);
+
+    return closed;
+  }
+
+  /**
+   * Reject a review: void a held payment, or optionally refund one that already settled
+   * As with approval, the review closes only once the payment is voided or
+   * refunded, so a failed void or refund leaves it open to reject again.
+   */
+  async rejectReview(merchant: Merchant, reviewId: string, options: RejectReviewOptions): Promise<PaymentReview> {
+    const review = await this.getReview(merchant.id, reviewId);
+    // Already voided by a rejection that failed to close the review
+    const transaction = await this.getOpenReviewTransaction(review, ['in_review', 'canceled']);
+
+    const refund = !review.held && (!!review.refund_id || (!!options.refund && transaction.status === 'succeeded'));
+
+    if (review.held && transaction.status === 'in_review') {
+      await getProcessor(transaction.processor).cancelPaymentIntent(
+        transaction.stripe_payment_intent_id,
+        { cancellation_reason: 'fraudulent' },
+        { account: merchant.stripe_account_id, idempotencyKey: `review_${review.id}_cancel` }
+      );
+
+      await transactionLifecycle.transition(transaction, 'canceled', {
+        source: 'api',
+        reason: 'review_rejected',
+        metadata: { review_id: review.id },
+        fields: { amount_capturable: 0 },
+      });
+    } else if (refund && !review.refund_id) {
+      const result = await paymentsService.refundPaymentForMerchant(merchant, transaction.id, {
+        reason: 'fraudulent',
+        idempotency_key: `review_${review.id}_refund`,
+      });
+
+      // Recorded while the review is open, so a retry doesn't refund again
+      await db.update<PaymentReview>('payment_reviews', review.id, { refund_id: result.refund_id });
+    }
+
+    const closed = await this.close(review, 'rejected', refund ? 'refunded' : 'rejected', options);
+
+    await this.sendClosedEvent(closed);
+
+    return closed;
+  }
+
+  /**
+   * Close the open review of a payment that ended without a decision (canceled or expired)
+   */
+  async closeForTransaction(transactionId: string, closedReason: ReviewClosedReason): Promise<void> {
+    const review = await db.findOne<PaymentReview>('payment_reviews', { transaction_id: transactionId, status: 'open' });
+    if (!review) {
+      return;
+    }
+
+    const closed = await this.close(review, 'canceled', closedReason, { reviewer: 'system' });
+    await this.sendClosedEvent(closed);
+  }
+
+  /**
+   * Record open reviews that passed their SLA and notify the merchant (scheduled)
+   */
+  async flagBreachedSlas(): Promise<number> {
+    const now = new Date().toISOString();
+
+    const { data, error } = await db.getClient()
+      .from('payment_reviews')
+      .select('*')
+      .eq('status', 'open')
+      .is('sla_breached_at', null)
+      .lt('sla_due_at', now)
+      .order('sla_due_at', { ascending: true })
+      .limit(SLA_BATCH_SIZE);
+
+    if (error) {
+      throw new Error(`Database query error: ${error.message}`);
+    }
+
+    let flagged = 0;
+    for (const review of (data || []) as PaymentReview[]) {
+      const { data: updated } = await db.getClient()
+        .from('payment_reviews')
+        .update({ sla_breached_at: now })
+        .eq('id', review.id)
+        .is('sla_breached_at', null)
+        .select();
+
+      if (!updated || updated.length === 0) {
+        continue;
+      }
+
+      flagged++;
+      await notificationService.createNotification({
+        merchant_id: review.merchant_id,
+        type: 'urgent',
+        title: 'Payment review overdue',
+        message: review.held
+          ? 'A held payment is past its review deadline. Approve or reject it before the authorization expires.'
+          : 'A payment is past its review deadline.',
+        action_url: '/dashboard/reviews',
+        action_label: 'Open review queue',
+      });
+    }
+
+    return flagged;
+  }
+
+  /**
+   * Transaction behind a review that can still be decided
+   */
+  private async getOpenReviewTransaction(
+    review: PaymentReview,
+    heldStatuses: string[] = ['in_review']
+  ): Promise<ReviewedTransaction> {
+    if (review.status !== 'open') {
+      throw new AppError('Review is already closed', 400, 'REVIEW_CLOSED');
+    }
+
+    const transaction = await db.findById<ReviewedTransaction>('transactions', review.transaction_id);
+    if (!transaction) {
+      throw new AppError('Transaction not found', 404, 'TRANSACTION_NOT_FOUND');
+    }
+
+    if (review.held && !heldStatuses.includes(transaction.status)) {
+      throw new AppError(`Payment is no longer held for review (status ${transaction.status})`, 409, 'REVIEW_PAYMENT_NOT_HELD');
+    }
+
+    return transaction;
+  }
+
+  /**
+   * Close an open review (compare-and-set, so concurrent decisions can't both apply)
+   */
+  private async close(
+    review: PaymentReview,
+    status: Exclude<ReviewStatus, 'open'>,
+    closedReason: ReviewClosedReason,
+    options: CloseReviewOptions
+  ): Promise<PaymentReview> {
+    const now = new Date().toISOString();
+
+    const { data, error } = await db.getClient()
+      .from('payment_reviews')
+      .update({
+        status,
+        closed_reason: closedReason,
+        closed_by: options.reviewer,
+        closed_at: now,
+        ...(options.note && { notes: [...(review.notes || []), this.buildNote(options.reviewer, options.note)] }),
+        updated_at: now,
+      })
+      .eq('id', review.id)
+      .eq('status', 'open')
+      .select();
+
+    if (error) {
+      throw new Error(`Database update error: ${error.message}`);
+    }
+
+    if (!data || data.length === 0) {
+      throw new AppError('Review is already closed', 409, 'REVIEW_CLOSED');
+    }
+
+    return data[0] as PaymentReview;
+  }
+
+  private buildNote(author: string, note: string): ReviewNote {
+    return { author, note, created_at: new Date().toISOString() };
+  }
+
+  private async sendClosedEvent(review: PaymentReview): Promise<void> {
+    await merchantWebhooksService.send(review.merchant_id, 'review.closed', {
+      review_id: review.id,
+      transaction_id: review.transaction_id,
+      reason: review.reason,
+      status: review.status,
+      closed_reason: review.closed_reason,
+      closed_by: review.closed_by,
+      refund_id: review.refund_id || null,
+    });
+
+    console.log('Review closed:', review.id, review.closed_reason);
+  }
+}
+
+export default new ReviewsService();
@@ -0,0 +1,139 @@
+import { describe, it, expect, beforeEach, afterEach, mock, spyOn } from 'bun:test';
+import { fakeSupabase } from '../test/fakeSupabase';
+import { installFakeLedger, ledgerBalance } from '../test/fakeLedger';
+import { fakeProcessor, fakeProcessorsModule } from '../test/fakeProcessor';
+
+mock.module('@supabase/supabase-js', () => ({ createClient: () => fakeSupabase.client }));
+mock.module('./processors', () => fakeProcessorsModule);
+
+const { default: splitsService } = await import('./splits.service');
+const { default: ledgerService } = await import('./ledger.service');
+const { default: jobs } = await import('./jobs');
+
+installFakeLedger(fakeSupabase);
+
+const MERCHANT_ID = 'merchant_1';
+const RECIPIENT_ID = 'merchant_2';
+
+const transaction = {
+  id: 'txn_1',
+  merchant_id: MERCHANT_ID,
+  amount: 1000,
+  currency: 'USD',
+  status: 'succeeded',
+  processor: 'stripe' as const,
+  split_amount: 300,
+};
+
+const split = () => fakeSupabase.rows('payment_splits')[0];
+
+const recipientKeys = () => fakeSupabase.rows('ledger_journals')
+  .filter((journal) => journal.merchant_id === RECIPIENT_ID)
+  .map((journal) => journal.idempotency_key);
+
+function seedSplit(values: Record<string, any> = {}) {
+  fakeSupabase.seed('payment_splits', [{
+    id: 'split_1',
+    transaction_id: transaction.id,
+    merchant_id: MERCHANT_ID,
+    destination_merchant_id: RECIPIENT_ID,
+    destination_account: 'acct_2',
+    amount: 300,
+    amount_reversed: 0,
+    currency: 'USD',
+    status: 'pending',
+    ...values,
+  }]);
+}
+
+describe('SplitsService', () => {
+  let enqueue: ReturnType<typeof spyOn>;
+
+  beforeEach(() => {
+    fakeSupabase.reset();
+    fakeProcessor.reset();
+    enqueue = spyOn(jobs, 'enqueue').mockImplementation(async () => 'job_1');
+    fakeSupabase.seed('transactions', [{ ...transaction }]);
+  });
+
+  afterEach(() => {
+    enqueue.mockRestore();
+  });
+
+  it('completes a transfer\'s ledger pair when the job is retried after a failed posting', async () => {
+    seedSplit();
+    const move = ledgerService.move.bind(ledgerService);
+    let moves = 0;
+    const failSecond = spyOn(ledgerService, 'move').mockImplementation(async (...args) => {
+      if (++moves === 2) {
+        throw new Error('Connection reset');
+      }
+      return move(...args);
+    });
+
+    try {
+      await expect(splitsService.processJob({ action: 'transfer', transaction_id: transaction.id }))
+        .rejects.toThrow('Connection reset');
+      expect(split().status).toBe('pending');
+
+      await splitsService.processJob({ action: 'transfer', transaction_id: transaction.id });
+    } finally {
+      failSecond.mockRestore();
+    }
+
+    expect(split().status).toBe('transferred');
+    expect(recipientKeys()).toEqual(['split_split_1_transfer_credit', 'split_split_1_transfer_debit']);
+    expect(ledgerBalance(fakeSupabase, RECIPIENT_ID, 'merchant_available')).toBe(0);
+
+    const keys = fakeProcessor.callsTo('createTransfer').map(([, options]) => options.idempotencyKey);
+    expect(keys).toEqual(['split_split_1_transfer', 'split_split_1_transfer']);
+  });
+
+  it('keys the reversal pair on the refund', async () => {
+    seedSplit({ status: 'transferred', stripe_transfer_id: 'tr_1' });
+
+    expect(await splitsService.reverseForRefund(transaction, 500, 'refund_1')).toBe(150);
+
+    expect(split()).toMatchObject({ amount_reversed: 150, status: 'partially_reversed' });
+    expect(recipientKeys()).toEqual(['split_split_1_refund_refund_1_debit', 'split_split_1_refund_refund_1_credit']);
+    expect(ledgerBalance(fakeSupabase, RECIPIENT_ID, 'processor_clearing')).toBe(0);
+  });
+
+  it('reverses a transferred split\'s remainder once when refunds arrive together', async () => {
+    seedSplit({ status: 'transferred', stripe_transfer_id: 'tr_1' });
+
+    const recovered = await Promise.all([
+      splitsService.reverseForRefund(transaction, 1000, 'refund_1'),
+      splitsService.reverseForRefund(transaction, 1000, 'refund_2'),
+    ]);
+
+    expect(recovered.sort()).toEqual([0, 300]);
+    expect(split()).toMatchObject({ amount_reversed: 300, status: 'reversed' });
+    expect(fakeProcessor.callsTo('createTransferReversal')).toHaveLength(1);
+  });
+
+  it('reduces a pending split once when refunds arrive together', async () => {
+    seedSplit();
+
+    const recovered = await Promise.all([
+      splitsService.reverseForRefund(transaction, 600, 'refund_1'),
+      splitsService.reverseForRefund(transaction, 600, 'refund_2'),
+    ]);
+
+    expect(recovered.sort()).toEqual([120, 180]);
+    expect(split()).toMatchObject({ amount_reversed: 300, status: 'canceled' });
+  });
+
+  it('gives the claimed share back when the processor reversal fails', async () => {
+    seedSplit({ status: 'transferred', stripe_transfer_id: 'tr_1' });
+    fakeProcessor.stub('createTransferReversal', async () => {
+      throw new Error('Transfer already reversed');
+    });
+
+    await expect(splitsService.reverseForRefund(transaction, 500, 'refund_1')).rejects.toThrow('Transfer already reversed');
+
+    expect(split()).toMatchObject({ amount_reversed: 0, status: 'transferred' });
+    expect(recipientKeys()).toEqual([]);
+    expect(enqueue).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,583 @@
+import db from './database.service';
+import ledgerService, { isSandboxPayment } from './ledger.service';
+import jobs, { JOB_QUEUES } from './jobs';
+import { Merchant } from './merchants.service';
+import { AppError } from '../middleware/errorHandler';
+import { getProcessor, PaymentProcessor, ProcessorName } from './processors';
+
+export type SplitStatus = 'pending' | 'transferred' | 'failed' | 'canceled' | 'partially_reversed' | 'reversed';
+
+export interface SplitInput {
+  // Merchant ID on the platform, or a connected account ID (acct_...)
+  destination: string;
+  amount?: number;
+  percentage?: number;
+  description?: string;
+}
+
+export interface PaymentSplit {
+  id: string;
+  transaction_id: string;
+  merchant_id: string;
+  destination_merchant_id: string | null;
+  destination_account: string | null;
+  amount: number;
+  percentage?: number | null;
+  currency: string;
+  description?: string | null;
+  status: SplitStatus;
+  stripe_transfer_id?: string | null;
+  amount_reversed: number;
+  failure_message?: string | null;
+  transferred_at?: string | null;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface ResolvedSplit {
+  destination_merchant_id: string | null;
+  destination_account: string | null;
+  amount: number;
+  percentage: number | null;
+  description: string | null;
+}
+
+interface SplitTransaction {
+  id: string;
+  merchant_id: string;
+  amount: number;
+  currency: string;
+  processor?: ProcessorName;
+  transfer_group?: string | null;
+  split_amount?: number;
+  metadata?: Record<string, any> | null;
+}
+
+export type SplitJobData =
+  | { action: 'transfer'; transaction_id: string }
+  // Return the split share of a refund to the merchant that paid it
+  | { action: 'return'; transaction_id: string; refund_id: string; amount: number };
+
+export const MAX_SPLITS = 10;
+
+const TRANSFERRED_STATUSES: SplitStatus[] = ['transferred', 'partially_reversed'];
+
+// Compare-and-set retries of a split's reversed amount before giving up
+const MAX_REVERSAL_ATTEMPTS = 5;
+
+/**
+ * Split payments
+ * Charges are direct charges on the merchant's connected account, so the split
+ * total is collected with the application fee and paid to each recipient by a
+ * transfer in the payment's transfer group once the payment succeeds.
+ * Recipient merchants get a credit and a matching payout debit in their ledger:
+ * the funds are already in their connected account, so the split must not be
+ * paid out again from the ledger balance.
+ */
+class SplitsService {
+  /**
+   * Validate split instructions and resolve recipients and amounts
+   */
+  async resolveSplits(
+    merchant: Merchant,
+    processor: PaymentProcessor,
+    amount: number,
+    platformFee: number,
+    splits: SplitInput[]
+  ): Promise<ResolvedSplit[]> {
+    if (splits.length > MAX_SPLITS) {
+      throw new AppError(`A payment cannot have more than ${MAX_SPLITS} splits`, 400, 'TOO_MANY_SPLITS');
+    }
+
+    const resolved: ResolvedSplit[] = [];
+
+    for (const split of splits) {
+      const splitAmount = split.percentage !== undefined
+        ? Math.floor((amount * split.percentage) / 100)
+        : split.amount;
+
+      if (!splitAmount || splitAmount <= 0) {
+        throw new AppError('Each split must be at least 1 unit of the currency', 400, 'INVALID_SPLIT_AMOUNT');
+      }
+
+      resolved.push({
+        ...(await this.resolveDestination(merchant, processor, split.destination)),
+        amount: splitAmount,
+        percentage: split.percentage ?? null,
+        description: split.description || null,
+      });
+    }
+
+    this.assertWithinAmount(amount, platformFee, resolved);
+
+    return resolved;
+  }
+
+  /**
+   * Record the splits of a new payment
+   */
+  async createSplits(transaction: SplitTransaction, splits: ResolvedSplit[]): Promise<PaymentSplit[]> {
+    if (splits.length === 0) {
+      return [];
+    }
+
+    const { data, error } = await db.getClient()
+      .from('payment_splits')
+      .insert(splits.map((split) => ({
+        ...split,
+        transaction_id: transaction.id,
+        merchant_id: transaction.merchant_id,
+        currency: transaction.currency,
+        status: 'pending',
+      })))
+      .select();
+
+    if (error) {
+      throw new Error(`Database insert error: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  /**
+   * Split breakdown of a payment
+   */
+  async listForTransaction(transactionId: string): Promise<PaymentSplit[]> {
+    return db.findMany<PaymentSplit>(
+      'payment_splits',
+      { transaction_id: transactionId },
+      { orderBy: 'created_at:asc' }
+    );
+  }
+
+  /**
+   * Recompute pending splits for a partial capture
+   * Percentage splits apply to the captured amount; fixed amounts shrink in proportion.
+   * Returns the new split total.
+   */
+  async rescaleForCapture(transaction: SplitTransaction, captureAmount: number, platformFee: number): Promise<number> {
+    const splits = await this.listForTransaction(transaction.id);
+    const pending = splits.filter((split) => split.status === 'pending');
+
+    if (pending.length === 0) {
+      return 0;
+    }
+
+    const rescaled = pending.map((split) => ({
+      ...split,
+      amount: split.percentage !== null && split.percentage !== undefined
+        ? Math.floor((captureAmount * Number(split.percentage)) / 100)
+        : Math.floor((split.amount * captureAmount) / transaction.amount),
+    }));
+
+    this.assertWithinAmount(captureAmount, platformFee, rescaled);
+
+    for (const split of rescaled) {
+      if (split.amount <= 0) {
+        await db.update<PaymentSplit>('payment_splits', split.id, { status: 'canceled' });
+      } else {
+        await db.update<PaymentSplit>('payment_splits', split.id, { amount: split.amount });
+      }
+    }
+
+    return rescaled.reduce((total, split) => total + Math.max(split.amount, 0), 0);
+  }
+
+  /**
+   * Queue the transfers of a succeeded payment
+   */
+  async scheduleTransfers(transaction: SplitTransaction): Promise<void> {
+    if (!transaction.split_amount) {
+      return;
+    }
+
+    await jobs.enqueue<SplitJobData>(
+      JOB_QUEUES.paymentSplits,
+      { action: 'transfer', transaction_id: transaction.id },
+      { jobId: `split_transfer_${transaction.id}` }
+    );
+  }
+
+  /**
+   * Cancel the splits of a payment that will not be collected
+   */
+  async cancelSplits(transactionId: string): Promise<void> {
+    const { error } = await db.getClient()
+      .from('payment_splits')
+      .update({ status: 'canceled', updated_at: new Date().toISOString() })
+      .eq('transaction_id', transactionId)
+      .eq('status', 'pending');
+
+    if (error) {
+      throw new Error(`Database update error: ${error.message}`);
+    }
+  }
+
+  /**
+   * Reverse splits in proportion to a refund
+   * Transferred splits are reversed with the processor; splits not transferred
+   * (yet) are reduced. The recovered total is returned to the merchant, which funded the
+   * refund from its own account.
+   */
+  async reverseForRefund(transaction: SplitTransaction, refundAmount: number, refundId: string): Promise<number> {
+    if (!transaction.split_amount) {
+      return 0;
+    }
+
+    const processor = getProcessor(transaction.processor);
+    const splits = await this.listForTransaction(transaction.id);
+    let recovered = 0;
+
+    for (const listed of splits) {
+      const claim = await this.claimReversal(listed, (split) =>
+        Math.min(Math.round((split.amount * refundAmount) / transaction.amount), split.amount - split.amount_reversed)
+      );
+
+      if (!claim) {
+        continue;
+      }
+
+      const { split, share } = claim;
+
+      // Never transferred: just transfer less
+      if (!TRANSFERRED_STATUSES.includes(split.status)) {
+        recovered += share;
+        continue;
+      }
+
+      let reversal: { id: string };
+      try {
+        reversal = await processor.createTransferReversal(split.stripe_transfer_id!, {
+          amount: share,
+          metadata: { transaction_id: transaction.id, split_id: split.id, refund_id: refundId },
+        }, {
+          idempotencyKey: `split_${split.id}_refund_${refundId}`,
+        });
+      } catch (error) {
+        await this.releaseReversal(split.id, share);
+        throw error;
+      }
+
+      if (split.destination_merchant_id && !isSandboxPayment(transaction)) {
+        await this.recordLedgerPair(split, share, 'reversal', `split_${split.id}_refund_${refundId}`, {
+          reversal_id: reversal.id,
+          refund_id: refundId,
+        });
+      }
+
+      recovered += share;
+    }
+
+    if (recovered > 0) {
+      await jobs.enqueue<SplitJobData>(
+        JOB_QUEUES.paymentSplits,
+        { action: 'return', transaction_id: transaction.id, refund_id: refundId, amount: recovered },
+        { jobId: `split_return_${refundId}` }
+      );
+    }
+
+    return recovered;
+  }
+
+  /**
+   * Run a payment-splits job
+   */
+  async processJob(data: SplitJobData): Promise<void> {
+    const transaction = await db.findById<SplitTransaction>('transactions', data.transaction_id);
+
+    if (!transaction) {
+      console.error('Transaction not found for split job:', data.transaction_id);
+      return;
+    }
+
+    if (data.action === 'transfer') {
+      await this.transferPending(transaction);
+    } else {
+      await this.returnToMerchant(transaction, data.refund_id, data.amount);
+    }
+  }
+
+  /**
+   * Mark splits failed once their transfer job has exhausted its attempts
+   */
+  async handleJobFailed(data: SplitJobData, error: Error): Promise<void> {
+    if (data.action !== 'transfer') {
+      console.error('Failed to return split refund to merchant:', data.transaction_id, data.refund_id, error.message);
+      return;
+    }
+
+    const { error: updateError } = await db.getClient()
+      .from('payment_splits')
+      .update({ status: 'failed', failure_message: error.message, updated_at: new Date().toISOString() })
+      .eq('transaction_id', data.transaction_id)
+      .eq('status', 'pending');
+
+    if (updateError) {
+      throw new Error(`Database update error: ${updateError.message}`);
+    }
+  }
+
+  private async transferPending(transaction: SplitTransaction): Promise<void> {
+    const processor = getProcessor(transaction.processor);
+    const splits = await this.listForTransaction(transaction.id);
+
+    for (const split of splits.filter((s) => s.status === 'pending')) {
+      const transferAmount = split.amount - split.amount_reversed;
+
+      // Same key on every retry, so a transfer that went through is not repeated
+      const transfer = await processor.createTransfer({
+        amount: transferAmount,
+        currency: split.currency,
+        destination: this.transferDestination(processor, split),
+        transfer_group: transaction.transfer_group || undefined,
+        description: split.description || undefined,
+        metadata: {
+          transaction_id: transaction.id,
+          split_id: split.id,
+          merchant_id: transaction.merchant_id,
+        },
+      }, {
+        idempotencyKey: `split_${split.id}_transfer`,
+      });
+
+      // Posted before the status changes, so a retry after a failed posting completes the pair
+      if (split.destination_merchant_id && !isSandboxPayment(transaction)) {
+        await this.recordLedgerPair(split, transferAmount, 'transfer', `split_${split.id}_transfer`, { transfer_id: transfer.id });
+      }
+
+      const { error } = await db.getClient()
+        .from('payment_splits')
+        .update({
+          status: 'transferred',
+          stripe_transfer_id: transfer.id,
+          transferred_at: new Date().toISOString(),
+          failure_message: null,
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', split.id)
+        .eq('status', 'pending');
+
+      if (error) {
+        throw new Error(`Database update error: ${error.message}`);
+      }
+    }
+  }
+
+  private async returnToMerchant(transaction: SplitTransaction, refundId: string, amount: number): Promise<void> {
+    const merchant = await db.findById<Merchant>('merchants', transaction.merchant_id);
+    const processor = getProcessor(transaction.processor);
+
+    // Sandbox merchants have no connected account to pay back into
+    if (!merchant?.stripe_account_id && !processor.requiresConnectedAccount) {
+      return;
+    }
+
+    if (!merchant?.stripe_account_id) {
+      throw new Error(`Merchant ${transaction.merchant_id} has no connected account`);
+    }
+
+    await processor.createTransfer({
+      amount,
+      currency: transaction.currency,
+      destination: merchant.stripe_account_id,
+      transfer_group: transaction.transfer_group || undefined,
+      description: 'Split share of refund',
+      metadata: { transaction_id: transaction.id, refund_id: refundId },
+    }, {
+      idempotencyKey: `split_return_${refundId}`,
+    });
+  }
+
+  /**
+   * Add a refund's share to a split's reversed amount
+   * Compare-and-set on the amount and status the split was read with; on a
+   * conflict (a concurrent refund or transfer) the split is re-read and the share
+   * recomputed, so two refunds never reverse the same remainder. Returns the
+   * split as it was before the claim, or null when there is nothing to reverse.
+   */
+  private async claimReversal(
+    listed: PaymentSplit,
+    shareOf: (split: PaymentSplit) => number
+  ): Promise<{ split: PaymentSplit; share: number } | null> {
+    let split: PaymentSplit | null = listed;
+
+    for (let attempt = 0; split && attempt < MAX_REVERSAL_ATTEMPTS; attempt++) {
+      const share = shareOf(split);
+      const transferred = TRANSFERRED_STATUSES.includes(split.status) && !!split.stripe_transfer_id;
+
+      if (share <= 0 || (!transferred && split.status !== 'pending' && split.status !== 'failed')) {
+        return null;
+      }
+
+      const amountReversed = split.amount_reversed + share;
+      const fullyReversed = amountReversed >= split.amount;
+
+      const { data, error } = await db.getClient()
+        .from('payment_splits')
+        .update({
+          amount_reversed: amountReversed,
+          status: transferred
+            ? (fullyReversed ? 'reversed' : 'partially_reversed')
+            : (fullyReversed ? 'canceled' : split.status),
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', split.id)
+        .eq('status', split.status)
+        .eq('amount_reversed', split.amount_reversed)
+        .select();
+
+      if (error) {
+        throw new Error(`Database update error: ${error.message}`);
+      }
+
+      if (data && data.length > 0) {
+        return { split, share };
+      }
+
+      split = await db.findById<PaymentSplit>('payment_splits', split.id);
+    }
+
+    if (!split) {
+      return null;
+    }
+
+    throw new Error(`Split ${listed.id} kept changing while reversing it`);
+  }
+
+  /**
+   * Undo a claim whose processor reversal failed
+   */
+  private async releaseReversal(splitId: string, share: number): Promise<void> {
+    for (let attempt = 0; attempt < MAX_REVERSAL_ATTEMPTS; attempt++) {
+      const split = await db.findById<PaymentSplit>('payment_splits', splitId);
+      if (!split) {
+        return;
+      }
+
+      const amountReversed = Math.max(split.amount_reversed - share, 0);
+
+      const { data, error } = await db.getClient()
+        .from('payment_splits')
+        .update({
+          amount_reversed: amountReversed,
+          status: amountReversed > 0 ? 'partially_reversed' : 'transferred',
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', split.id)
+        .eq('status', split.status)
+        .eq('amount_reversed', split.amount_reversed)
+        .select();
+
+      if (error) {
+        throw new Error(`Database update error: ${error.message}`);
+      }
+
+      if (data && data.length > 0) {
+        return;
+      }
+    }
+
+    console.error('Failed to release split reversal after a processor error:', splitId, share);
+  }
+
+  /**
+   * Recipient ledger: the split is credited and immediately debited as paid to
+   * the connected account (reversals the other way round), so balances net to zero.
+   * Both postings are keyed on the transfer or refund, so a retry completes a
+   * pair left one-sided and posts nothing twice.
+   */
+  private async recordLedgerPair(
+    split: PaymentSplit,
+    amount: number,
+    kind: 'transfer' | 'reversal',
+    key: string,
+    metadata: Record<string, any>
+  ): Promise<void> {
+    const entryMetadata = { transaction_id: split.transaction_id, split_id: split.id, ...metadata };
+    const received = kind === 'transfer';
+
+    await ledgerService.move(split.destination_merchant_id!, {
+      from: received ? 'processor_clearing' : 'merchant_available',
+      to: received ? 'merchant_available' : 'processor_clearing',
+      amount,
+      currency: split.currency,
+      source: 'split',
+      description: received ? `Split of payment ${split.transaction_id}` : `Split reversed for refund of payment ${split.transaction_id}`,
+      metadata: entryMetadata,
+      idempotency_key: `${key}_${received ? 'credit' : 'debit'}`,
+    });
+
+    await ledgerService.move(split.destination_merchant_id!, {
+      from: received ? 'merchant_available' : 'processor_clearing',
+      to: received ? 'processor_clearing' : 'merchant_available',
+      amount,
+      currency: split.currency,
+      source: 'split',
+      description: received ? 'Split transferred to connected account' : 'Split reversal withdrawn from connected account',
+      metadata: entryMetadata,
+      idempotency_key: `${key}_${received ? 'debit' : 'credit'}`,
+    });
+  }
+
+  private async resolveDestination(
+    merchant: Merchant,
+    processor: PaymentProcessor,
+    destination: string
+  ): Promise<Pick<ResolvedSplit, 'destination_merchant_id' | 'destination_account'>> {
+    if (destination.startsWith('acct_')) {
+      if (destination === merchant.stripe_account_id) {
+        throw new AppError('A payment cannot be split to the merchant taking it', 400, 'INVALID_SPLIT_DESTINATION');
+      }
+
+      const recipient = await db.findOne<Merchant>('merchants', { stripe_account_id: destination });
+
+      return { destination_merchant_id: recipient?.id || null, destination_account: destination };
+    }
+
+    if (destination === merchant.id) {
+      throw new AppError('A payment cannot be split to the merchant taking it', 400, 'INVALID_SPLIT_DESTINATION');
+    }
+
+    const recipient = await db.findById<Merchant>('merchants', destination);
+    if (!recipient) {
+      throw new AppError(`Split destination ${destination} not found`, 400, 'INVALID_SPLIT_DESTINATION');
+    }
+
+    // Processors with real accounts need a recipient that can receive transfers
+    if (processor.requiresConnectedAccount && (!recipient.stripe_account_id || !recipient.stripe_payouts_enabled)) {
+      throw new AppError(
+        `Split destination ${destination} cannot receive transfers yet`,
+        400,
+        'SPLIT_DESTINATION_NOT_READY'
+      );
+    }
+
+    return { destination_merchant_id: recipient.id, destination_account: recipient.stripe_account_id || null };
+  }
+
+  private transferDestination(processor: PaymentProcessor, split: PaymentSplit): string {
+    // Sandbox recipients may not have a connected account; the simulator accepts any destination
+    const destination = split.destination_account
+      || (!processor.requiresConnectedAccount ? split.destination_merchant_id : null);
+
+    if (!destination) {
+      throw new Error(`Split ${split.id} has no destination account`);
+    }
+
+    return destination;
+  }
+
+  private assertWithinAmount(amount: number, platformFee: number, splits: Array<{ amount: number }>): void {
+    const total = splits.reduce((sum, split) => sum + split.amount, 0);
+
+    if (total + platformFee >= amount) {
+      throw new AppError(
+        `Splits (${total}) plus the platform fee (${platformFee}) must be less than the payment amount (${amount})`,
+        400,
+        'SPLITS_EXCEED_AMOUNT'
+      );
+    }
+  }
+}
+
+export default new SplitsService();
@@ -1,13 +1,9 @@
 import Stripe from 'stripe';
 import db from './database.service';
-import ledgerService from './ledger.service';
 import posthogService from './posthog.service';
 import { AppError } from '../middleware/errorHandler';
 import { Merchant } from './merchants.service';
-
-const stripe = new Stripe(process.env.STRIPE_SECRET_KEY || '', {
-  apiVersion: '2024-12-18.acacia' as any,
-});
+import { stripeProcessor } from './processors';
 
 interface OAuthTokenResponse {
   stripe_user_id: string;
@@ -75,10 +71,7 @@ class StripeConnectService {
   async handleCallback(authorizationCode: string, merchantId: string): Promise<CallbackResponse> {
     try {
       // Exchange authorization code for access token
-      const response = await stripe.oauth.token({
-        grant_type: 'authorization_code',
-        code: authorizationCode,
-      }) as OAuthTokenResponse;
+      const response = await stripeProcessor.exchangeOAuthCode(authorizationCode) as OAuthTokenResponse;
 
       const {
         stripe_user_id,
@@ -88,7 +81,7 @@ class StripeConnectService {
       } = response;
 
       // Get account details
-      const account = await stripe.accounts.retrieve(stripe_user_id);
+      const account = await stripeProcessor.retrieveAccount(stripe_user_id);
 
       // Update merchant with Stripe Connect details
       const merchant = await db.update<Merchant>('merchants', merchantId, {
@@ -137,7 +130,7 @@ class StripeConnectService {
 
     try {
       // Get latest account status from Stripe
-      const account = await stripe.accounts.retrieve(merchant.stripe_account_id);
+      const account = await stripeProcessor.retrieveAccount(merchant.stripe_account_id);
 
       // Update merchant with latest status
       await db.update<Merchant>('merchants', merchantId, {
@@ -188,7 +181,7 @@ class StripeConnectService {
     }
 
     try {
-      const accountLink = await stripe.accountLinks.create({
+      const accountLink = await stripeProcessor.createAccountLink({
         account: merchant.stripe_account_id,
         refresh_url: `${process.env.FRONTEND_URL}/dashboard/settings`,
         return_url: `${process.env.FRONTEND_URL}/dashboard`,
@@ -225,10 +218,7 @@ class StripeConnectService {
 
     try {
       // Deauthorize the connected account
-      await stripe.oauth.deauthorize({
-        client_id: process.env.STRIPE_CONNECT_CLIENT_ID || '',
-        stripe_user_id: merchant.stripe_account_id,
-      });
+      await stripeProcessor.deauthorizeAccount(merchant.stripe_account_id);
 
       // Update merchant
       await db.update<Merchant>('merchants', merchantId, {
@@ -268,7 +258,7 @@ class StripeConnectService {
     }
 
     try {
-      const loginLink = await stripe.accounts.createLoginLink(
+      const loginLink = await stripeProcessor.createLoginLink(
         merchant.stripe_account_id
       );
 
@@ -290,7 +280,7 @@ class StripeConnectService {
    */
   async createCustomAccount(merchantId: string, email: string, country: string = 'US'): Promise<string> {
     try {
-      const account = await stripe.accounts.create({
+      const account = await stripeProcessor.createAccount({
         type: 'express', // Use Express for simpler onboarding
         country,
         email,
@@ -299,6 +289,10 @@ class StripeConnectService {
           transfers: { requested: true },
         },
         business_type: 'individual', // Default to individual
+        // Payouts are created by the platform (payouts.service), one per transfer
+        settings: {
+          payouts: { schedule: { interval: 'manual' } },
+        },
         metadata: {
           merchant_id: merchantId,
         },
@@ -325,56 +319,6 @@ class StripeConnectService {
       throw new AppError('Failed to create Stripe account', 500, 'STRIPE_CREATE_ERROR');
     }
   }
-
-  /**
-   * Transfer available funds to connected account
-   */
-  async transferFunds(merchantId: string): Promise<string> {
-    const merchant = await db.findById<Merchant>('merchants', merchantId);
-    if (!merchant || !merchant.stripe_account_id) {
-      throw new AppError('Merchant or Stripe account not found', 404, 'NOT_FOUND');
-    }
-
-    if (!merchant.stripe_charges_enabled || !merchant.stripe_payouts_enabled) {
-      throw new AppError('Account not fully verified', 400, 'ACCOUNT_NOT_VERIFIED');
-    }
-
-    const balance = await ledgerService.getBalance(merchantId);
-    if (balance.available <= 0) {
-      throw new AppError('No available funds to transfer', 400, 'INSUFFICIENT_FUNDS');
-    }
-
-    // Create Transfer
-    const transfer = await stripe.transfers.create({
-      amount: balance.available,
-      currency: balance.currency,
-      destination: merchant.stripe_account_id,
-      metadata: {
-        merchant_id: merchantId,
-        type: 'payout',
-      },
-    });
-
-    // Debit Ledger
-    await ledgerService.addEntry(
-      merchantId,
-      'debit',
-      balance.available,
-      balance.currency,
-      `Payout to Stripe Account ${merchant.stripe_account_id}`,
-      'available',
-      { transfer_id: transfer.id }
-    );
-
-    // Track event
-    posthogService.capture(merchantId, 'payout_initiated', {
-      amount: balance.available,
-      currency: balance.currency,
-      transfer_id: transfer.id,
-    });
-
-    return transfer.id;
-  }
 }
 
 export default new StripeConnectService();
@@ -6,10 +6,7 @@
 import Stripe from 'stripe';
 import fs from 'fs';
 import path from 'path';
-
-const stripe = new Stripe(process.env.STRIPE_SECRET_KEY || '', {
-  apiVersion: '2024-12-18.acacia' as any,
-});
+import { getProcessor, ProcessorName } from './processors';
 
 export interface UploadFileToStripeParams {
   fileBuffer: Buffer;
@@ -35,13 +32,17 @@ class StripeFileUploadService {
   /**
    * Upload a file to Stripe
    * Files must be uploaded to Stripe before being referenced in dispute evidence
+   * Sandbox disputes upload to the simulator instead
    */
-  async uploadFile(params: UploadFileToStripeParams): Promise<StripeFileUploadResult> {
+  async uploadFile(
+    params: UploadFileToStripeParams,
+    processor: ProcessorName = 'stripe'
+  ): Promise<StripeFileUploadResult> {
     const { fileBuffer, fileName, mimeType, purpose } = params;
 
     try {
       // Upload file to Stripe using Buffer directly
-      const file = await stripe.files.create({
+      const file = await getProcessor(processor).createFile({
         purpose: purpose,
         file: {
           data: fileBuffer,
@@ -72,10 +73,11 @@ class StripeFileUploadService {
    * Upload multiple files to Stripe
    */
   async uploadMultipleFiles(
-    files: UploadFileToStripeParams[]
+    files: UploadFileToStripeParams[],
+    processor: ProcessorName = 'stripe'
   ): Promise<StripeFileUploadResult[]> {
     try {
-      const uploadPromises = files.map((file) => this.uploadFile(file));
+      const uploadPromises = files.map((file) => this.uploadFile(file, processor));
       return await Promise.all(uploadPromises);
     } catch (error: any) {
       console.error('Multiple file upload error:', error);
@@ -86,9 +88,9 @@ class StripeFileUploadService {
   /**
    * Retrieve file information from Stripe
    */
-  async retrieveFile(fileId: string): Promise<Stripe.File> {
+  async retrieveFile(fileId: string, processor: ProcessorName = 'stripe'): Promise<Stripe.File> {
     try {
-      return await stripe.files.retrieve(fileId);
+      return await getProcessor(processor).retrieveFile(fileId);
     } catch (error: any) {
       console.error('Stripe file retrieval error:', error);
       throw new Error(`Failed to retrieve file from Stripe: ${error.message}`);
@@ -100,7 +102,8 @@ class StripeFileUploadService {
    */
   async listFiles(
     purpose?: 'dispute_evidence' | 'identity_document' | 'business_logo',
-    limit: number = 100
+    limit: number = 100,
+    processor: ProcessorName = 'stripe'
   ): Promise<Stripe.File[]> {
     try {
       const params: Stripe.FileListParams = { limit };
@@ -108,8 +111,7 @@ class StripeFileUploadService {
         params.purpose = purpose;
       }
 
-      const files = await stripe.files.list(params);
-      return files.data;
+      return await getProcessor(processor).listFiles(params);
     } catch (error: any) {
       console.error('Stripe file list error:', error);
       throw new Error(`Failed to list files from Stripe: ${error.message}`);
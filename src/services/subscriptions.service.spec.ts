@@ -0,0 +1,145 @@
+import { describe, it, expect, beforeEach, afterEach, mock, spyOn } from 'bun:test';
+import { fakeSupabase } from '../test/fakeSupabase';
+import { fakeProcessorsModule } from '../test/fakeProcessor';
+import { addInterval } from '../utils/billingPeriod';
+
+mock.module('@supabase/supabase-js', () => ({ createClient: () => fakeSupabase.client }));
+mock.module('./processors', () => fakeProcessorsModule);
+mock.module('./merchantWebhooks.service', () => ({ default: { send: async () => {} } }));
+
+const { default: subscriptionsService } = await import('./subscriptions.service');
+const { default: paymentsService } = await import('./payments.service');
+const { AppError } = await import('../middleware/errorHandler');
+
+fakeSupabase.defaults('invoices', { attempt_count: 0, amount_paid: 0 });
+
+let invoiceNumber = 0;
+fakeSupabase.rpc('next_invoice_number', () => ++invoiceNumber);
+
+const MERCHANT_ID = 'merchant_1';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const subscription = () => fakeSupabase.rows('subscriptions')[0];
+const invoices = () => fakeSupabase.rows('invoices');
+
+function seed(values: Record<string, any> = {}) {
+  const periodEnd = new Date(Date.now() - 60 * 1000).toISOString();
+
+  fakeSupabase.seed('merchants', [{ id: MERCHANT_ID, environment: 'production', stripe_account_id: 'acct_1' }]);
+  fakeSupabase.seed('plans', [{
+    id: 'plan_1',
+    merchant_id: MERCHANT_ID,
+    nickname: 'Pro monthly',
+    amount: 2500,
+    currency: 'usd',
+    interval: 'month',
+    interval_count: 1,
+  }]);
+  fakeSupabase.seed('subscriptions', [{
+    id: 'sub_1',
+    merchant_id: MERCHANT_ID,
+    customer_id: 'cus_1',
+    plan_id: 'plan_1',
+    status: 'active',
+    environment: 'production',
+    payment_method_id: 'pm_1',
+    current_period_start: new Date(Date.parse(periodEnd) - 30 * DAY_MS).toISOString(),
+    current_period_end: periodEnd,
+    billing_cycle_anchor: periodEnd,
+    cancel_at_period_end: false,
+    ...values,
+  }]);
+}
+
+// Makes the open invoice's scheduled retry due now
+function retryNow() {
+  const invoice = invoices()[0];
+  expect(invoice.next_payment_attempt).toBeTruthy();
+  invoice.next_payment_attempt = new Date(Date.now() - 1000).toISOString();
+}
+
+describe('SubscriptionsService.runBilling', () => {
+  let createPayment: ReturnType<typeof spyOn>;
+
+  beforeEach(() => {
+    fakeSupabase.reset();
+    createPayment = spyOn(paymentsService, 'createPaymentForMerchant')
+      .mockImplementation(async () => ({ transaction_id: 'txn_1', status: 'processing' }) as any);
+  });
+
+  afterEach(() => {
+    createPayment.mockRestore();
+  });
+
+  it('renews a due subscription, invoices the new period and charges it once', async () => {
+    seed({ status: 'trialing' });
+    const periodEnd = new Date(subscription().current_period_end);
+
+    expect(await subscriptionsService.runBilling()).toEqual({ renewed: 1, canceled: 0, retried: 0 });
+    expect(await subscriptionsService.runBilling()).toEqual({ renewed: 0, canceled: 0, retried: 0 });
+
+    expect(subscription()).toMatchObject({
+      status: 'active',
+      current_period_start: periodEnd.toISOString(),
+      current_period_end: addInterval(periodEnd, 'month', 1, periodEnd.getUTCDate()).toISOString(),
+      latest_invoice_id: invoices()[0].id,
+    });
+    expect(invoices()).toHaveLength(1);
+    expect(invoices()[0]).toMatchObject({
+      status: 'open',
+      billing_reason: 'subscription_cycle',
+      amount_due: 2500,
+      attempt_count: 1,
+      transaction_id: 'txn_1',
+    });
+    expect(createPayment).toHaveBeenCalledTimes(1);
+    expect(createPayment.mock.calls[0][1]).toMatchObject({
+      amount: 2500,
+      payment_method_id: 'pm_1',
+      idempotency_key: `invoice_${invoices()[0].id}_attempt_1`,
+    });
+  });
+
+  it('shares one run between overlapping calls', async () => {
+    seed();
+
+    const [first, second] = await Promise.all([subscriptionsService.runBilling(), subscriptionsService.runBilling()]);
+
+    expect(first).toBe(second);
+    expect(createPayment).toHaveBeenCalledTimes(1);
+  });
+
+  it('ends a subscription set to cancel at period end without invoicing it', async () => {
+    seed({ cancel_at_period_end: true });
+    const periodEnd = subscription().current_period_end;
+
+    expect(await subscriptionsService.runBilling()).toEqual({ renewed: 0, canceled: 1, retried: 0 });
+
+    expect(subscription()).toMatchObject({ status: 'canceled', ended_at: periodEnd, cancellation_reason: 'cancel_at_period_end' });
+    expect(invoices()).toEqual([]);
+    expect(createPayment).not.toHaveBeenCalled();
+  });
+
+  it('retries a failed renewal on schedule, then cancels once the retries are exhausted', async () => {
+    seed();
+    createPayment.mockImplementation(async () => {
+      throw new AppError('Your card was declined', 402, 'card_declined');
+    });
+
+    await subscriptionsService.runBilling();
+
+    expect(subscription().status).toBe('past_due');
+    expect(invoices()[0]).toMatchObject({ status: 'open', attempt_count: 1, last_payment_error: { code: 'card_declined' } });
+    expect(Date.parse(invoices()[0].next_payment_attempt) - Date.now()).toBeGreaterThan(DAY_MS - 60 * 1000);
+
+    for (let attempt = 2; attempt <= 4; attempt++) {
+      retryNow();
+      expect(await subscriptionsService.runBilling()).toEqual({ renewed: 0, canceled: 0, retried: 1 });
+      expect(invoices()[0].attempt_count).toBe(attempt);
+    }
+
+    expect(invoices()[0]).toMatchObject({ status: 'uncollectible', next_payment_attempt: null });
+    expect(subscription()).toMatchObject({ status: 'canceled', cancellation_reason: 'payment_failed' });
+    expect(createPayment).toHaveBeenCalledTimes(4);
+  });
+});
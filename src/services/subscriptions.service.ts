@@ -0,0 +1,675 @@
+import db from './database.service';
+import merchantsService, { Merchant } from './merchants.service';
+import customersService from './customers.service';
+import productsService, { Plan } from './products.service';
+import invoicesService, { Invoice, LineItemInput } from './invoices.service';
+import merchantWebhooksService from './merchantWebhooks.service';
+import { AppError } from '../middleware/errorHandler';
+import { addInterval, remainingPeriodFraction } from '../utils/billingPeriod';
+
+export type SubscriptionStatus = 'incomplete' | 'trialing' | 'active' | 'past_due' | 'canceled';
+
+export type ProrationBehavior = 'create_prorations' | 'none' | 'always_invoice';
+
+export interface Subscription {
+  id: string;
+  merchant_id: string;
+  customer_id: string;
+  plan_id: string;
+  status: SubscriptionStatus;
+  environment: string;
+  payment_method_id?: string | null;
+  current_period_start: string;
+  current_period_end: string;
+  billing_cycle_anchor: string;
+  trial_start?: string | null;
+  trial_end?: string | null;
+  cancel_at_period_end: boolean;
+  canceled_at?: string | null;
+  ended_at?: string | null;
+  cancellation_reason?: string | null;
+  latest_invoice_id?: string | null;
+  metadata?: Record<string, any>;
+  created_at?: string;
+  updated_at?: string;
+}
+
+interface CreateSubscriptionData {
+  customer_id: string;
+  plan_id: string;
+  payment_method_id?: string;
+  trial_period_days?: number;
+  trial_end?: string;
+  cancel_at_period_end?: boolean;
+  metadata?: Record<string, any>;
+}
+
+interface UpdateSubscriptionData {
+  plan_id?: string;
+  proration_behavior?: ProrationBehavior;
+  payment_method_id?: string;
+  cancel_at_period_end?: boolean;
+  metadata?: Record<string, any>;
+}
+
+interface ListSubscriptionsOptions {
+  limit?: number;
+  offset?: number;
+  customer_id?: string;
+  status?: SubscriptionStatus;
+}
+
+interface BillingRunResult {
+  renewed: number;
+  canceled: number;
+  retried: number;
+}
+
+// Days to wait before each retry of a failed renewal; the invoice becomes
+// uncollectible and the subscription is canceled once they are exhausted
+const RETRY_SCHEDULE_DAYS = [1, 3, 5];
+
+const BILLABLE_STATUSES: SubscriptionStatus[] = ['trialing', 'active', 'past_due'];
+
+const BILLING_BATCH_SIZE = 100;
+
+class SubscriptionsService {
+  private billingRun: Promise<BillingRunResult> | null = null;
+
+  /**
+   * Subscribe a customer to a plan
+   * Without a trial the first period is invoiced and charged immediately; the
+   * subscription stays incomplete until that invoice is paid.
+   */
+  async createSubscription(apiKey: string, data: CreateSubscriptionData): Promise<Subscription> {
+    const merchant = await merchantsService.getMerchantByApiKey(apiKey);
+    const customer = await customersService.getCustomerForPayment(merchant, data.customer_id);
+    const plan = await productsService.getPlanForMerchant(merchant.id, data.plan_id);
+
+    if (!plan.is_active) {
+      throw new AppError('Plan is not active', 400, 'PLAN_INACTIVE');
+    }
+
+    let paymentMethodId = customer.default_payment_method_id || null;
+    if (data.payment_method_id) {
+      const { paymentMethod } = await customersService.getChargeablePaymentMethod(
+        merchant,
+        customer.id,
+        data.payment_method_id
+      );
+      paymentMethodId = paymentMethod.id;
+    }
+
+    const now = new Date();
+    const trialEnd = this.resolveTrialEnd(now, plan, data);
+
+    if (!paymentMethodId && plan.amount > 0 && !trialEnd) {
+      throw new AppError('Customer has no saved payment method to bill', 400, 'PAYMENT_METHOD_REQUIRED');
+    }
+
+    const periodEnd = trialEnd || addInterval(now, plan.interval, plan.interval_count);
+
+    const subscription = await db.insert<Subscription>('subscriptions', {
+      merchant_id: merchant.id,
+      customer_id: customer.id,
+      plan_id: plan.id,
+      status: trialEnd ? 'trialing' : 'incomplete',
+      environment: merchant.environment,
+      payment_method_id: data.payment_method_id ? paymentMethodId : null,
+      current_period_start: now.toISOString(),
+      current_period_end: periodEnd.toISOString(),
+      // Trials anchor the cycle on the first paid period
+      billing_cycle_anchor: (trialEnd || now).toISOString(),
+      trial_start: trialEnd ? now.toISOString() : null,
+      trial_end: trialEnd ? trialEnd.toISOString() : null,
+      cancel_at_period_end: data.cancel_at_period_end || false,
+      metadata: data.metadata || {},
+    });
+
+    await this.sendEvent('subscription.created', subscription);
+
+    if (!trialEnd) {
+      const invoice = await this.createSubscriptionInvoice(subscription, 'subscription_create', [
+        this.planLine(plan, now, periodEnd),
+      ]);
+      await this.collectInvoice(subscription, invoice, merchant);
+    }
+
+    return db.findById<Subscription>('subscriptions', subscription.id);
+  }
+
+  /**
+   * Get subscription by ID
+   */
+  async getSubscription(apiKey: string, subscriptionId: string): Promise<Subscription> {
+    const merchant = await merchantsService.getMerchantByApiKey(apiKey);
+
+    return this.getSubscriptionForMerchant(merchant.id, subscriptionId);
+  }
+
+  /**
+   * List subscriptions for merchant
+   */
+  async listSubscriptions(apiKey: string, options: ListSubscriptionsOptions = {}): Promise<Subscription[]> {
+    const merchant = await merchantsService.getMerchantByApiKey(apiKey);
+    const { limit = 10, offset = 0, customer_id, status } = options;
+
+    let query = db.getClient()
+      .from('subscriptions')
+      .select('*')
+      .eq('merchant_id', merchant.id);
+
+    if (customer_id) {
+      query = query.eq('customer_id', customer_id);
+    }
+
+    if (status) {
+      query = query.eq('status', status);
+    }
+
+    const { data, error } = await query
+      .order('created_at', { ascending: false })
+      .range(offset, offset + limit - 1);
+
+    if (error) {
+      throw new Error(`Database query error: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  /**
+   * List the invoices generated for a subscription
+   */
+  async listSubscriptionInvoices(
+    apiKey: string,
+    subscriptionId: string,
+    options: { limit?: number; offset?: number } = {}
+  ): Promise<Invoice[]> {
+    const merchant = await merchantsService.getMerchantByApiKey(apiKey);
+    const subscription = await this.getSubscriptionForMerchant(merchant.id, subscriptionId);
+
+    return invoicesService.listInvoices(merchant.id, { ...options, subscription_id: subscription.id });
+  }
+
+  /**
+   * Update a subscription: change plan, payment method, cancellation or metadata
+   */
+  async updateSubscription(apiKey: string, subscriptionId: string, data: UpdateSubscriptionData): Promise<Subscription> {
+    const merchant = await merchantsService.getMerchantByApiKey(apiKey);
+    let subscription = await this.getSubscriptionForMerchant(merchant.id, subscriptionId);
+
+    if (subscription.status === 'canceled') {
+      throw new AppError('Subscription is canceled', 400, 'SUBSCRIPTION_CANCELED');
+    }
+
+    const updates: Partial<Subscription> = {};
+
+    if (data.payment_method_id) {
+      const { paymentMethod } = await customersService.getChargeablePaymentMethod(
+        { ...merchant, environment: subscription.environment },
+        subscription.customer_id,
+        data.payment_method_id
+      );
+      updates.payment_method_id = paymentMethod.id;
+    }
+
+    if (data.cancel_at_period_end !== undefined) {
+      updates.cancel_at_period_end = data.cancel_at_period_end;
+      updates.canceled_at = data.cancel_at_period_end ? new Date().toISOString() : null;
+    }
+
+    if (data.metadata) {
+      updates.metadata = data.metadata;
+    }
+
+    if (Object.keys(updates).length > 0) {
+      subscription = await db.update<Subscription>('subscriptions', subscription.id, updates);
+    }
+
+    if (data.plan_id && data.plan_id !== subscription.plan_id) {
+      subscription = await this.changePlan(
+        merchant,
+        subscription,
+        data.plan_id,
+        data.proration_behavior || 'create_prorations'
+      );
+    }
+
+    await this.sendEvent('subscription.updated', subscription);
+
+    return subscription;
+  }
+
+  /**
+   * Cancel a subscription, immediately or at the end of the current period
+   * Immediate cancellation voids the subscription's open invoices.
+   */
+  async cancelSubscription(
+    apiKey: string,
+    subscriptionId: string,
+    options: { at_period_end?: boolean } = {}
+  ): Promise<Subscription> {
+    const merchant = await merchantsService.getMerchantByApiKey(apiKey);
+    const subscription = await this.getSubscriptionForMerchant(merchant.id, subscriptionId);
+
+    if (subscription.status === 'canceled') {
+      throw new AppError('Subscription is already canceled', 400, 'SUBSCRIPTION_ALREADY_CANCELED');
+    }
+
+    if (options.at_period_end) {
+      const updated = await db.update<Subscription>('subscriptions', subscription.id, {
+        cancel_at_period_end: true,
+        canceled_at: new Date().toISOString(),
+      });
+
+      await this.sendEvent('subscription.updated', updated);
+
+      return updated;
+    }
+
+    return this.endSubscription(subscription, 'requested');
+  }
+
+  /**
+   * Get a subscription, ensuring it belongs to the merchant
+   */
+  async getSubscriptionForMerchant(merchantId: string, subscriptionId: string): Promise<Subscription> {
+    const subscription = await db.findById<Subscription>('subscriptions', subscriptionId);
+
+    if (!subscription || subscription.merchant_id !== merchantId) {
+      throw new AppError('Subscription not found', 404, 'SUBSCRIPTION_NOT_FOUND');
+    }
+
+    return subscription;
+  }
+
+  /**
+   * A subscription invoice was paid (payment_intent.succeeded or a zero amount invoice)
+   */
+  async handleInvoicePaid(invoice: Invoice): Promise<void> {
+    if (!invoice.subscription_id) {
+      return;
+    }
+
+    let subscription = await db.findById<Subscription>('subscriptions', invoice.subscription_id);
+    if (!subscription || subscription.status === 'canceled') {
+      return;
+    }
+
+    if (subscription.status === 'incomplete' || subscription.status === 'past_due') {
+      subscription = await db.update<Subscription>('subscriptions', subscription.id, { status: 'active' });
+    }
+
+    await this.sendEvent('subscription.payment_succeeded', subscription, {
+      invoice_id: invoice.id,
+      amount_paid: invoice.amount_paid,
+      currency: invoice.currency,
+    });
+  }
+
+  /**
+   * A subscription invoice payment failed
+   * Schedules the next retry, or gives up and cancels once the retries are exhausted.
+   */
+  async handleInvoicePaymentFailed(invoice: Invoice, failure: { code?: string; message?: string }): Promise<void> {
+    if (!invoice.subscription_id || invoice.status !== 'open') {
+      return;
+    }
+
+    let subscription = await db.findById<Subscription>('subscriptions', invoice.subscription_id);
+    if (!subscription || subscription.status === 'canceled') {
+      return;
+    }
+
+    const retryInDays = RETRY_SCHEDULE_DAYS[invoice.attempt_count - 1];
+    const nextAttempt = retryInDays !== undefined
+      ? new Date(Date.now() + retryInDays * 24 * 60 * 60 * 1000)
+      : null;
+
+    const updatedInvoice = await invoicesService.recordPaymentFailure(invoice, failure, nextAttempt);
+
+    if (subscription.status === 'active') {
+      subscription = await db.update<Subscription>('subscriptions', subscription.id, { status: 'past_due' });
+    }
+
+    await this.sendEvent('subscription.payment_failed', subscription, {
+      invoice_id: invoice.id,
+      attempt_count: updatedInvoice.attempt_count,
+      next_payment_attempt: updatedInvoice.next_payment_attempt,
+      failure_code: failure.code,
+      failure_message: failure.message,
+    });
+
+    if (!nextAttempt) {
+      await this.endSubscription(subscription, 'payment_failed');
+    }
+  }
+
+  /**
+   * Bill every subscription whose period has ended and retry due invoices
+   * Runs on the subscription-billing cron job and from the admin API; overlapping calls share one run.
+   */
+  async runBilling(): Promise<BillingRunResult> {
+    if (!this.billingRun) {
+      this.billingRun = this.processDueSubscriptions().finally(() => {
+        this.billingRun = null;
+      });
+    }
+
+    return this.billingRun;
+  }
+
+  private async processDueSubscriptions(): Promise<BillingRunResult> {
+    const now = new Date();
+    const result: BillingRunResult = { renewed: 0, canceled: 0, retried: 0 };
+
+    const { data: due, error } = await db.getClient()
+      .from('subscriptions')
+      .select('*')
+      .in('status', BILLABLE_STATUSES)
+      .lte('current_period_end', now.toISOString())
+      .order('current_period_end', { ascending: true })
+      .limit(BILLING_BATCH_SIZE);
+
+    if (error) {
+      throw new Error(`Database query error: ${error.message}`);
+    }
+
+    for (const subscription of (due || []) as Subscription[]) {
+      try {
+        const outcome = await this.advancePeriod(subscription);
+        if (outcome) {
+          result[outcome]++;
+        }
+      } catch (error) {
+        console.error('Failed to bill subscription:', subscription.id, error);
+      }
+    }
+
+    const retries = await invoicesService.listDueForRetry(now, BILLING_BATCH_SIZE);
+
+    for (const invoice of retries) {
+      try {
+        if (!(await invoicesService.claimRetry(invoice))) {
+          continue;
+        }
+
+        const subscription = await db.findById<Subscription>('subscriptions', invoice.subscription_id);
+        if (!subscription || subscription.status === 'canceled') {
+          continue;
+        }
+
+        await this.collectInvoice(subscription, invoice);
+        result.retried++;
+      } catch (error) {
+        console.error('Failed to retry invoice:', invoice.id, error);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Close the current period: cancel if requested, otherwise renew and invoice
+   * The period end is compare-and-set so only one scheduler bills a period.
+   */
+  private async advancePeriod(subscription: Subscription): Promise<'renewed' | 'canceled' | null> {
+    const periodEnd = new Date(subscription.current_period_end);
+
+    if (subscription.cancel_at_period_end) {
+      const ended = await this.claimPeriod(subscription, {
+        status: 'canceled',
+        ended_at: periodEnd.toISOString(),
+        cancellation_reason: 'cancel_at_period_end',
+      });
+
+      if (!ended) {
+        return null;
+      }
+
+      await invoicesService.voidOpenInvoices(ended.id);
+      await this.sendEvent('subscription.canceled', ended);
+
+      return 'canceled';
+    }
+
+    const plan = await db.findById<Plan>('plans', subscription.plan_id);
+    const anchorDay = new Date(subscription.billing_cycle_anchor).getUTCDate();
+    const nextEnd = addInterval(periodEnd, plan.interval, plan.interval_count, anchorDay);
+
+    const renewed = await this.claimPeriod(subscription, {
+      current_period_start: periodEnd.toISOString(),
+      current_period_end: nextEnd.toISOString(),
+      ...(subscription.status === 'trialing' && { status: 'active' as SubscriptionStatus }),
+    });
+
+    if (!renewed) {
+      return null;
+    }
+
+    const invoice = await this.createSubscriptionInvoice(renewed, 'subscription_cycle', [
+      this.planLine(plan, periodEnd, nextEnd),
+    ]);
+
+    await this.sendEvent('subscription.renewed', renewed, { invoice_id: invoice.id });
+    await this.collectInvoice(renewed, invoice);
+
+    return 'renewed';
+  }
+
+  private async claimPeriod(subscription: Subscription, updates: Partial<Subscription>): Promise<Subscription | null> {
+    const { data, error } = await db.getClient()
+      .from('subscriptions')
+      .update({ ...updates, updated_at: new Date().toISOString() })
+      .eq('id', subscription.id)
+      .eq('status', subscription.status)
+      .eq('current_period_end', subscription.current_period_end)
+      .select();
+
+    if (error) {
+      throw new Error(`Database update error: ${error.message}`);
+    }
+
+    return data && data.length > 0 ? (data[0] as Subscription) : null;
+  }
+
+  /**
+   * Move a subscription to another plan
+   * Same-interval changes keep the billing cycle and prorate the remaining time;
+   * changing the interval restarts the cycle today and invoices immediately.
+   */
+  private async changePlan(
+    merchant: Merchant,
+    subscription: Subscription,
+    planId: string,
+    prorationBehavior: ProrationBehavior
+  ): Promise<Subscription> {
+    const currentPlan = await db.findById<Plan>('plans', subscription.plan_id);
+    const newPlan = await productsService.getPlanForMerchant(merchant.id, planId);
+
+    if (!newPlan.is_active) {
+      throw new AppError('Plan is not active', 400, 'PLAN_INACTIVE');
+    }
+
+    if (newPlan.currency !== currentPlan.currency) {
+      throw new AppError('Cannot switch to a plan in a different currency', 400, 'PLAN_CURRENCY_MISMATCH');
+    }
+
+    // Nothing has been billed during a trial
+    if (subscription.status === 'trialing') {
+      return db.update<Subscription>('subscriptions', subscription.id, { plan_id: newPlan.id });
+    }
+
+    const now = new Date();
+    const periodStart = new Date(subscription.current_period_start);
+    const periodEnd = new Date(subscription.current_period_end);
+    const remaining = remainingPeriodFraction(periodStart, periodEnd, now);
+    const sameCycle = newPlan.interval === currentPlan.interval && newPlan.interval_count === currentPlan.interval_count;
+
+    if (prorationBehavior !== 'none' && remaining > 0) {
+      await invoicesService.addPendingItem({
+        merchant_id: subscription.merchant_id,
+        subscription_id: subscription.id,
+        currency: currentPlan.currency,
+        plan_id: currentPlan.id,
+        description: `Unused time on ${currentPlan.nickname}`,
+        amount: -Math.round(currentPlan.amount * remaining),
+        proration: true,
+        period_start: now.toISOString(),
+        period_end: periodEnd.toISOString(),
+      });
+
+      if (sameCycle) {
+        await invoicesService.addPendingItem({
+          merchant_id: subscription.merchant_id,
+          subscription_id: subscription.id,
+          currency: newPlan.currency,
+          plan_id: newPlan.id,
+          description: `Remaining time on ${newPlan.nickname}`,
+          amount: Math.round(newPlan.amount * remaining),
+          proration: true,
+          period_start: now.toISOString(),
+          period_end: periodEnd.toISOString(),
+        });
+      }
+    }
+
+    if (sameCycle) {
+      const updated = await db.update<Subscription>('subscriptions', subscription.id, { plan_id: newPlan.id });
+
+      if (prorationBehavior === 'always_invoice') {
+        const invoice = await this.createSubscriptionInvoice(updated, 'subscription_update', []);
+        await this.collectInvoice(updated, invoice, merchant);
+      }
+
+      return db.findById<Subscription>('subscriptions', subscription.id);
+    }
+
+    const nextEnd = addInterval(now, newPlan.interval, newPlan.interval_count);
+    const updated = await db.update<Subscription>('subscriptions', subscription.id, {
+      plan_id: newPlan.id,
+      current_period_start: now.toISOString(),
+      current_period_end: nextEnd.toISOString(),
+      billing_cycle_anchor: now.toISOString(),
+    });
+
+    const invoice = await this.createSubscriptionInvoice(updated, 'subscription_update', [
+      this.planLine(newPlan, now, nextEnd),
+    ]);
+    await this.collectInvoice(updated, invoice, merchant);
+
+    return db.findById<Subscription>('subscriptions', subscription.id);
+  }
+
+  /**
+   * End a subscription now and void whatever is still open on it
+   */
+  private async endSubscription(subscription: Subscription, reason: string): Promise<Subscription> {
+    const now = new Date().toISOString();
+
+    const canceled = await db.update<Subscription>('subscriptions', subscription.id, {
+      status: 'canceled',
+      canceled_at: subscription.canceled_at || now,
+      ended_at: now,
+      cancellation_reason: reason,
+    });
+
+    await invoicesService.voidOpenInvoices(subscription.id);
+    await this.sendEvent('subscription.canceled', canceled);
+
+    return canceled;
+  }
+
+  private async createSubscriptionInvoice(
+    subscription: Subscription,
+    billingReason: string,
+    lines: LineItemInput[]
+  ): Promise<Invoice> {
+    const plan = await db.findById<Plan>('plans', subscription.plan_id);
+
+    const invoice = await invoicesService.createInvoice({
+      merchant_id: subscription.merchant_id,
+      customer_id: subscription.customer_id,
+      subscription_id: subscription.id,
+      environment: subscription.environment,
+      currency: plan.currency,
+      billing_reason: billingReason,
+      period_start: subscription.current_period_start,
+      period_end: subscription.current_period_end,
+      lines,
+    });
+
+    await db.update<Subscription>('subscriptions', subscription.id, { latest_invoice_id: invoice.id });
+
+    return invoice;
+  }
+
+  /**
+   * Charge an invoice to the subscription's payment method (or the customer's default)
+   * Card outcomes arrive through the payment_intent.* webhooks; only payments that
+   * could not be created at all are handled here.
+   */
+  private async collectInvoice(subscription: Subscription, invoice: Invoice, merchant?: Merchant): Promise<void> {
+    const billingMerchant = merchant || await merchantsService.getMerchantById(subscription.merchant_id);
+
+    let paymentMethodId = subscription.payment_method_id || null;
+    if (!paymentMethodId) {
+      const customer = await customersService.getCustomerForMerchant(subscription.merchant_id, subscription.customer_id);
+      paymentMethodId = customer.default_payment_method_id || null;
+    }
+
+    const result = await invoicesService.payInvoice(invoice, {
+      merchant: billingMerchant,
+      payment_method_id: paymentMethodId,
+    });
+
+    if (result.invoice.status === 'paid') {
+      await this.handleInvoicePaid(result.invoice);
+    } else if (result.error) {
+      await this.handleInvoicePaymentFailed(result.invoice, result.error);
+    }
+  }
+
+  private planLine(plan: Plan, periodStart: Date, periodEnd: Date): LineItemInput {
+    return {
+      description: plan.nickname,
+      amount: plan.amount,
+      plan_id: plan.id,
+      period_start: periodStart.toISOString(),
+      period_end: periodEnd.toISOString(),
+    };
+  }
+
+  private resolveTrialEnd(now: Date, plan: Plan, data: CreateSubscriptionData): Date | null {
+    if (data.trial_end) {
+      return new Date(data.trial_end);
+    }
+
+    const trialDays = data.trial_period_days ?? plan.trial_period_days ?? 0;
+    if (trialDays <= 0) {
+      return null;
+    }
+
+    return new Date(now.getTime() + trialDays * 24 * 60 * 60 * 1000);
+  }
+
+  private async sendEvent(
+    eventType: string,
+    subscription: Subscription,
+    extra: Record<string, any> = {}
+  ): Promise<void> {
+    await merchantWebhooksService.send(subscription.merchant_id, eventType, {
+      subscription_id: subscription.id,
+      customer_id: subscription.customer_id,
+      plan_id: subscription.plan_id,
+      status: subscription.status,
+      current_period_start: subscription.current_period_start,
+      current_period_end: subscription.current_period_end,
+      cancel_at_period_end: subscription.cancel_at_period_end,
+      ...extra,
+    });
+  }
+}
+
+export default new SubscriptionsService();
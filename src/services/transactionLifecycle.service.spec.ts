@@ -0,0 +1,106 @@
+import { describe, it, expect, beforeEach, mock } from 'bun:test';
+import { fakeSupabase } from '../test/fakeSupabase';
+
+mock.module('@supabase/supabase-js', () => ({ createClient: () => fakeSupabase.client }));
+
+const { default: transactionLifecycle } = await import('./transactionLifecycle.service');
+
+const MERCHANT_ID = 'merchant_1';
+
+const stored = () => fakeSupabase.rows('transactions')[0];
+
+function seed(status: string) {
+  const [transaction] = fakeSupabase.seed('transactions', [{ id: 'txn_1', merchant_id: MERCHANT_ID, status }]);
+  return { ...transaction };
+}
+
+describe('TransactionLifecycleService', () => {
+  beforeEach(() => {
+    fakeSupabase.reset();
+  });
+
+  it('allows only the documented transitions', () => {
+    expect(transactionLifecycle.canTransition('pending', 'requires_action')).toBe(true);
+    expect(transactionLifecycle.canTransition('requires_capture', 'succeeded')).toBe(true);
+    expect(transactionLifecycle.canTransition('in_review', 'canceled')).toBe(true);
+    expect(transactionLifecycle.canTransition('failed', 'processing')).toBe(true);
+    expect(transactionLifecycle.canTransition('succeeded', 'refunded')).toBe(true);
+
+    expect(transactionLifecycle.canTransition('succeeded', 'failed')).toBe(false);
+    expect(transactionLifecycle.canTransition('requires_capture', 'in_review')).toBe(false);
+    expect(transactionLifecycle.canTransition('canceled', 'succeeded')).toBe(false);
+    expect(transactionLifecycle.canTransition('refunded', 'succeeded')).toBe(false);
+    expect(transactionLifecycle.canTransition('unknown', 'pending')).toBe(false);
+  });
+
+  it('moves the status, stamps its timestamp with the extra fields and records the event', async () => {
+    const transaction = seed('requires_capture');
+
+    const { transaction: updated, changed } = await transactionLifecycle.transition(transaction, 'succeeded', {
+      source: 'webhook',
+      reason: 'payment_intent.succeeded',
+      stripeEventId: 'evt_1',
+      fields: { amount_received: 1000 },
+    });
+
+    expect(changed).toBe(true);
+    expect(updated).toMatchObject({ status: 'succeeded', amount_received: 1000 });
+    expect(stored().succeeded_at).toBeTruthy();
+    expect(await transactionLifecycle.getEvents('txn_1')).toEqual([
+      expect.objectContaining({
+        from_status: 'requires_capture',
+        to_status: 'succeeded',
+        source: 'webhook',
+        reason: 'payment_intent.succeeded',
+        stripe_event_id: 'evt_1',
+      }),
+    ]);
+  });
+
+  it('treats re-applying the current status as a no-op', async () => {
+    const transaction = seed('succeeded');
+
+    const result = await transactionLifecycle.transition(transaction, 'succeeded', { source: 'webhook' });
+
+    expect(result).toEqual({ transaction, changed: false });
+    expect(fakeSupabase.rows('transaction_events')).toEqual([]);
+  });
+
+  it('rejects an illegal transition without writing', async () => {
+    const transaction = seed('canceled');
+
+    await expect(transactionLifecycle.transition(transaction, 'succeeded', { source: 'webhook' }))
+      .rejects.toMatchObject({ statusCode: 409, code: 'INVALID_STATUS_TRANSITION' });
+
+    expect(stored().status).toBe('canceled');
+    expect(fakeSupabase.rows('transaction_events')).toEqual([]);
+  });
+
+  it('re-evaluates against the latest status when it changed underneath', async () => {
+    const transaction = seed('processing');
+    stored().status = 'requires_capture';
+
+    const { changed, transaction: updated } = await transactionLifecycle.transition(transaction, 'succeeded', { source: 'webhook' });
+
+    expect(changed).toBe(true);
+    expect(updated.status).toBe('succeeded');
+    expect((await transactionLifecycle.getEvents('txn_1')).map((event) => event.from_status)).toEqual(['requires_capture']);
+
+    // processing -> failed from the stale copy is re-checked against succeeded and refused
+    await expect(transactionLifecycle.transition(transaction, 'failed', { source: 'webhook' }))
+      .rejects.toMatchObject({ code: 'INVALID_STATUS_TRANSITION' });
+    expect(stored().status).toBe('succeeded');
+  });
+
+  it('records one event when the same transition races', async () => {
+    const transaction = seed('processing');
+
+    const results = await Promise.all([
+      transactionLifecycle.transition(transaction, 'succeeded', { source: 'webhook' }),
+      transactionLifecycle.transition(transaction, 'succeeded', { source: 'api' }),
+    ]);
+
+    expect(results.map((result) => result.changed).sort()).toEqual([false, true]);
+    expect(fakeSupabase.rows('transaction_events')).toHaveLength(1);
+  });
+});
@@ -0,0 +1,199 @@
+import db from './database.service';
+import { AppError } from '../middleware/errorHandler';
+
+export type TransactionStatus =
+  | 'pending'
+  | 'requires_action'
+  | 'processing'
+  | 'requires_capture'
+  | 'in_review'
+  | 'succeeded'
+  | 'failed'
+  | 'canceled'
+  | 'refunded';
+
+export type TransitionSource = 'api' | 'webhook' | 'system';
+
+export interface TransactionEvent {
+  id: string;
+  transaction_id: string;
+  merchant_id: string;
+  from_status: TransactionStatus | null;
+  to_status: TransactionStatus;
+  source: TransitionSource;
+  reason?: string | null;
+  stripe_event_id?: string | null;
+  metadata?: Record<string, any>;
+  created_at: string;
+}
+
+interface TransitionableTransaction {
+  id: string;
+  merchant_id: string;
+  status: string;
+}
+
+interface TransitionOptions {
+  source: TransitionSource;
+  reason?: string;
+  stripeEventId?: string;
+  metadata?: Record<string, any>;
+  // Extra columns to write atomically with the status change
+  fields?: Record<string, any>;
+}
+
+export interface TransitionResult<T> {
+  transaction: T;
+  changed: boolean;
+}
+
+/**
+ * Allowed status transitions
+ *
+ * pending -> processing -> succeeded | failed | canceled
+ * pending -> requires_action (3D Secure) -> processing | requires_capture | succeeded | failed | canceled
+ * pending/processing -> requires_capture -> succeeded | canceled (manual capture)
+ * pending/processing -> in_review -> requires_capture | canceled (authorized, held for manual review)
+ * succeeded -> refunded (full refund)
+ *
+ * A failed payment intent can still be retried by the customer with another
+ * payment method, so failed may move forward again. canceled and refunded are terminal.
+ */
+const ALLOWED_TRANSITIONS: Record<TransactionStatus, TransactionStatus[]> = {
+  pending: ['requires_action', 'processing', 'requires_capture', 'in_review', 'succeeded', 'failed', 'canceled'],
+  requires_action: ['processing', 'requires_capture', 'in_review', 'succeeded', 'failed', 'canceled'],
+  processing: ['requires_capture', 'in_review', 'succeeded', 'failed', 'canceled'],
+  requires_capture: ['processing', 'succeeded', 'failed', 'canceled'],
+  in_review: ['requires_capture', 'succeeded', 'failed', 'canceled'],
+  failed: ['requires_action', 'processing', 'requires_capture', 'in_review', 'succeeded', 'canceled'],
+  succeeded: ['refunded'],
+  canceled: [],
+  refunded: [],
+};
+
+// Timestamp column stamped when a transaction enters each status
+const STATUS_TIMESTAMP_COLUMNS: Partial<Record<TransactionStatus, string>> = {
+  pending: 'pending_at',
+  requires_action: 'requires_action_at',
+  processing: 'processing_at',
+  requires_capture: 'authorized_at',
+  in_review: 'in_review_at',
+  succeeded: 'succeeded_at',
+  failed: 'failed_at',
+  canceled: 'canceled_at',
+  refunded: 'refunded_at',
+};
+
+class TransactionLifecycleService {
+  /**
+   * Check whether a status change is allowed
+   */
+  canTransition(from: string, to: TransactionStatus): boolean {
+    return (ALLOWED_TRANSITIONS[from as TransactionStatus] || []).includes(to);
+  }
+
+  /**
+   * Move a transaction to a new status and record the event
+   * Re-applying the current status is a no-op (returns changed: false).
+   * Illegal transitions throw INVALID_STATUS_TRANSITION.
+   */
+  async transition<T extends TransitionableTransaction>(
+    transaction: T,
+    to: TransactionStatus,
+    options: TransitionOptions
+  ): Promise<TransitionResult<T>> {
+    if (transaction.status === to) {
+      return { transaction, changed: false };
+    }
+
+    if (!this.canTransition(transaction.status, to)) {
+      throw new AppError(
+        `Cannot move transaction from ${transaction.status} to ${to}`,
+        409,
+        'INVALID_STATUS_TRANSITION'
+      );
+    }
+
+    const timestampColumn = STATUS_TIMESTAMP_COLUMNS[to];
+    const now = new Date().toISOString();
+
+    // Compare-and-set on the current status so concurrent webhooks can't interleave
+    const { data, error } = await db.getClient()
+      .from('transactions')
+      .update({
+        ...(timestampColumn && { [timestampColumn]: now }),
+        ...options.fields,
+        status: to,
+        updated_at: now,
+      })
+      .eq('id', transaction.id)
+      .eq('status', transaction.status)
+      .select();
+
+    if (error) {
+      throw new Error(`Database update error: ${error.message}`);
+    }
+
+    if (!data || data.length === 0) {
+      // Status moved underneath us - re-evaluate against the latest state
+      const latest = await db.findById<T>('transactions', transaction.id);
+      if (!latest) {
+        throw new AppError('Transaction not found', 404, 'TRANSACTION_NOT_FOUND');
+      }
+      return this.transition(latest, to, options);
+    }
+
+    await this.recordEvent(transaction, to, options);
+
+    return { transaction: data[0] as T, changed: true };
+  }
+
+  /**
+   * Record the initial status of a newly created transaction
+   */
+  async recordCreated(transaction: TransitionableTransaction, options: TransitionOptions): Promise<void> {
+    await db.insert<TransactionEvent>('transaction_events', {
+      transaction_id: transaction.id,
+      merchant_id: transaction.merchant_id,
+      from_status: null,
+      to_status: transaction.status as TransactionStatus,
+      source: options.source,
+      reason: options.reason || 'created',
+      stripe_event_id: options.stripeEventId || null,
+      metadata: options.metadata || {},
+    });
+  }
+
+  /**
+   * Get the status history of a transaction (oldest first)
+   */
+  async getEvents(transactionId: string): Promise<TransactionEvent[]> {
+    return db.findMany<TransactionEvent>(
+      'transaction_events',
+      { transaction_id: transactionId },
+      { orderBy: 'created_at:asc' }
+    );
+  }
+
+  /**
+   * Write a transition to the event history
+   */
+  private async recordEvent(
+    transaction: TransitionableTransaction,
+    to: TransactionStatus,
+    options: TransitionOptions
+  ): Promise<void> {
+    await db.insert<TransactionEvent>('transaction_events', {
+      transaction_id: transaction.id,
+      merchant_id: transaction.merchant_id,
+      from_status: transaction.status as TransactionStatus,
+      to_status: to,
+      source: options.source,
+      reason: options.reason || null,
+      stripe_event_id: options.stripeEventId || null,
+      metadata: options.metadata || {},
+    });
+  }
+}
+
+export default new TransactionLifecycleService();
@@ -1,38 +1,43 @@
 import Stripe from 'stripe';
-import crypto from 'crypto';
 import db from './database.service';
 import disputesService from './disputes.service';
-import ledgerService from './ledger.service';
+import ledgerService, { isSandboxPayment } from './ledger.service';
+import reservesService from './reserves.service';
+import payoutsService from './payouts.service';
 import posthogService from './posthog.service';
 import emailService from './email.service';
 import notificationService from './notification.service';
+import paymentLinksService from './paymentLinks.service';
+import transactionLifecycle, { TransactionStatus } from './transactionLifecycle.service';
+import paymentMethodRouting from './paymentMethodRouting.service';
+import customersService from './customers.service';
+import merchantWebhooksService from './merchantWebhooks.service';
+import invoicesService, { Invoice } from './invoices.service';
+import subscriptionsService from './subscriptions.service';
+import splitsService from './splits.service';
+import refundsService from './refunds.service';
+import reviewsService, { ReviewReason } from './reviews.service';
 import { AppError } from '../middleware/errorHandler';
 import { Merchant } from './merchants.service';
-
-const stripe = new Stripe(process.env.STRIPE_SECRET_KEY || '', {
-  apiVersion: '2024-12-18.acacia' as any,
-});
+import { stripeProcessor, processorEvents, getProcessor, ProcessorName } from './processors';
 
 interface Transaction {
   id: string;
   merchant_id: string;
   amount: number;
   currency: string;
+  status: string;
+  payment_method?: string;
+  processor?: ProcessorName;
   stripe_payment_intent_id: string;
   stripe_charge_id?: string;
-}
-
-interface Webhook {
-  id: string;
-  merchant_id: string;
-  event_type: string;
-  payload: Record<string, any>;
-  endpoint: string;
-  status: string;
-  http_status_code?: number;
-  response_body?: string;
-  sent_at?: string;
-  failed_at?: string;
+  invoice_id?: string | null;
+  split_amount?: number;
+  transfer_group?: string | null;
+  capture_method?: 'automatic' | 'manual';
+  review_reason?: ReviewReason | null;
+  risk_score?: number | null;
+  metadata?: Record<string, any>;
 }
 
 interface WebhookEventResponse {
@@ -40,19 +45,12 @@ interface WebhookEventResponse {
   event_type: string;
 }
 
-interface WebhookPayload {
-  transaction_id: string;
-  amount: number;
-  currency: string;
-  payment_intent_id?: string;
-  charge_id?: string;
-  error?: {
-    code?: string;
-    message?: string;
-  };
-}
-
 class WebhooksService {
+  constructor() {
+    // Simulator (sandbox) events go through the same handlers as Stripe webhooks
+    processorEvents.subscribe((event) => this.processEvent(event));
+  }
+
   /**
    * Handle Stripe webhook event
    */
@@ -60,11 +58,7 @@ class WebhooksService {
     let event: Stripe.Event;
 
     try {
-      event = stripe.webhooks.constructEvent(
-        rawBody,
-        signature,
-        process.env.STRIPE_WEBHOOK_SECRET || ''
-      );
+      event = stripeProcessor.constructWebhookEvent(rawBody, signature);
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       console.error('Webhook signature verification failed:', errorMessage);
@@ -73,24 +67,66 @@ class WebhooksService {
 
     console.log(`Received Stripe webhook: ${event.type}`);
 
+    return this.processEvent(event);
+  }
+
+  /**
+   * Dispatch a verified processor event to its handler
+   */
+  async processEvent(event: Stripe.Event): Promise<WebhookEventResponse> {
     // Handle different event types
     switch (event.type) {
       case 'payment_intent.succeeded':
-        await this.handlePaymentSucceeded(event.data.object as Stripe.PaymentIntent);
+        await this.handlePaymentSucceeded(event.data.object as Stripe.PaymentIntent, event.id, event.account);
+        break;
+
+      case 'payment_intent.requires_action':
+        await this.handlePaymentRequiresAction(event.data.object as Stripe.PaymentIntent, event.id);
+        break;
+
+      case 'payment_intent.processing':
+        await this.handlePaymentProcessing(event.data.object as Stripe.PaymentIntent, event.id);
         break;
 
       case 'payment_intent.payment_failed':
-        await this.handlePaymentFailed(event.data.object as Stripe.PaymentIntent);
+        await this.handlePaymentFailed(event.data.object as Stripe.PaymentIntent, event.id);
         break;
 
       case 'payment_intent.canceled':
-        await this.handlePaymentCanceled(event.data.object as Stripe.PaymentIntent);
+        await this.handlePaymentCanceled(event.data.object as Stripe.PaymentIntent, event.id);
+        break;
+
+      case 'payment_intent.amount_capturable_updated':
+        await this.handleAmountCapturableUpdated(event.data.object as Stripe.PaymentIntent, event.id, event.account);
         break;
 
       case 'charge.refunded':
         await this.handleChargeRefunded(event.data.object as Stripe.Charge);
         break;
 
+      case 'charge.refund.updated':
+        await refundsService.handleRefundUpdated(event.data.object as Stripe.Refund);
+        break;
+
+      case 'setup_intent.succeeded':
+        await this.handleSetupIntentSucceeded(event.data.object as Stripe.SetupIntent, event.account);
+        break;
+
+      case 'setup_intent.setup_failed':
+        await this.handleSetupIntentFailed(event.data.object as Stripe.SetupIntent);
+        break;
+
+      case 'transfer.created':
+      case 'transfer.reversed':
+        await payoutsService.handleTransferEvent(event.data.object as Stripe.Transfer, event.type);
+        break;
+
+      case 'payout.paid':
+      case 'payout.failed':
+      case 'payout.canceled':
+        await payoutsService.handlePayoutEvent(event.data.object as Stripe.Payout, event.type);
+        break;
+
       case 'account.updated':
         await this.handleAccountUpdated(event.data.object as Stripe.Account);
         break;
@@ -137,7 +173,11 @@ class WebhooksService {
   /**
    * Handle successful payment
    */
-  private async handlePaymentSucceeded(paymentIntent: Stripe.PaymentIntent): Promise<void> {
+  private async handlePaymentSucceeded(
+    paymentIntent: Stripe.PaymentIntent,
+    eventId: string,
+    stripeAccount?: string
+  ): Promise<void> {
     const transaction = await db.findOne<Transaction>('transactions', {
       stripe_payment_intent_id: paymentIntent.id,
     });
@@ -147,16 +187,22 @@ class WebhooksService {
       return;
     }
 
-    // Update transaction status
-    await db.update<Transaction>('transactions', transaction.id, {
-      status: 'succeeded',
-      succeeded_at: new Date().toISOString(),
+    // Update transaction status (skip side effects on redelivered or out-of-order events)
+    const changed = await this.applyTransition(transaction, 'succeeded', eventId, {
       stripe_charge_id: paymentIntent.latest_charge as string,
       payment_method_details: paymentIntent.payment_method_types,
-    } as any);
+      // The customer picked the method at checkout - record the one actually used
+      ...(transaction.payment_method === 'automatic' && {
+        payment_method: await this.getUsedPaymentMethod(transaction, paymentIntent, stripeAccount),
+      }),
+    });
+
+    if (!changed) {
+      return;
+    }
 
     // Send webhook to merchant
-    await this.sendMerchantWebhook(
+    await merchantWebhooksService.send(
       transaction.merchant_id,
       'payment.succeeded',
       {
@@ -169,28 +215,132 @@ class WebhooksService {
 
     console.log('Payment succeeded:', transaction.id);
 
-    // Deferred Payment Logic
-    if (paymentIntent.metadata?.type === 'deferred_payment') {
+    // Methods that can't be held for review are reviewed once they settle
+    if (transaction.review_reason) {
+      await reviewsService.openReview(transaction, { held: false });
+    }
+
+    // Pay split recipients their share
+    if (transaction.split_amount) {
+      try {
+        await splitsService.scheduleTransfers(transaction);
+      } catch (error: any) {
+        console.error('Failed to queue split transfers for transaction:', transaction.id, error.message);
+      }
+    }
+
+    // Attribute payment to its payment link
+    const paymentLinkId = paymentIntent.metadata?.payment_link_id || transaction.metadata?.payment_link_id;
+    if (paymentLinkId) {
+      try {
+        if (await paymentLinksService.recordPayment(transaction.merchant_id, paymentLinkId, transaction.amount)) {
+          console.log('Recorded payment for payment link:', paymentLinkId);
+        } else {
+          console.warn('Payment link not found for merchant:', paymentLinkId, transaction.merchant_id);
+        }
+      } catch (error: any) {
+        console.error('Failed to record payment for payment link:', paymentLinkId, error.message);
+      }
+    }
+
+    // Settle the invoice this payment collects
+    if (transaction.invoice_id) {
+      const { invoice, changed: invoicePaid } = await invoicesService.markPaid(transaction.invoice_id, transaction.id);
+      if (invoicePaid) {
+        await subscriptionsService.handleInvoicePaid(invoice);
+      }
+    }
+
+    // Deferred Payment Logic (live money only)
+    if (paymentIntent.metadata?.type === 'deferred_payment' && !isSandboxPayment(transaction)) {
       const merchantId = paymentIntent.metadata.merchant_id;
       if (merchantId) {
-        await ledgerService.addEntry(
-          merchantId,
-          'credit',
-          paymentIntent.amount,
-          paymentIntent.currency,
-          `Payment ${paymentIntent.id}`,
-          'pending',
-          { payment_intent_id: paymentIntent.id }
-        );
-        console.log('Added pending ledger entry for:', paymentIntent.id);
+        const withheld = await reservesService.creditPayment(merchantId, {
+          amount: paymentIntent.amount,
+          currency: paymentIntent.currency,
+          payment_intent_id: paymentIntent.id,
+          transaction_id: transaction.id,
+        });
+        console.log('Added pending ledger entry for:', paymentIntent.id, withheld > 0 ? `(reserve ${withheld})` : '');
       }
     }
   }
 
+  /**
+   * Handle a payment waiting on customer authentication (3D Secure)
+   */
+  private async handlePaymentRequiresAction(paymentIntent: Stripe.PaymentIntent, eventId: string): Promise<void> {
+    const transaction = await db.findOne<Transaction>('transactions', {
+      stripe_payment_intent_id: paymentIntent.id,
+    });
+
+    if (!transaction) {
+      console.error('Transaction not found for payment intent:', paymentIntent.id);
+      return;
+    }
+
+    const changed = await this.applyTransition(transaction, 'requires_action', eventId, {
+      next_action: paymentIntent.next_action,
+    });
+
+    if (!changed) {
+      return;
+    }
+
+    // Send webhook to merchant
+    await merchantWebhooksService.send(
+      transaction.merchant_id,
+      'payment.requires_action',
+      {
+        transaction_id: transaction.id,
+        amount: transaction.amount,
+        currency: transaction.currency,
+        payment_intent_id: paymentIntent.id,
+        next_action: paymentIntent.next_action,
+      }
+    );
+
+    console.log('Payment requires action:', transaction.id);
+  }
+
+  /**
+   * Handle a payment the processor is still settling (e.g. bank debits)
+   */
+  private async handlePaymentProcessing(paymentIntent: Stripe.PaymentIntent, eventId: string): Promise<void> {
+    const transaction = await db.findOne<Transaction>('transactions', {
+      stripe_payment_intent_id: paymentIntent.id,
+    });
+
+    if (!transaction) {
+      console.error('Transaction not found for payment intent:', paymentIntent.id);
+      return;
+    }
+
+    const changed = await this.applyTransition(transaction, 'processing', eventId);
+
+    if (!changed) {
+      return;
+    }
+
+    // Send webhook to merchant
+    await merchantWebhooksService.send(
+      transaction.merchant_id,
+      'payment.processing',
+      {
+        transaction_id: transaction.id,
+        amount: transaction.amount,
+        currency: transaction.currency,
+        payment_intent_id: paymentIntent.id,
+      }
+    );
+
+    console.log('Payment processing:', transaction.id);
+  }
+
   /**
    * Handle failed payment
    */
-  private async handlePaymentFailed(paymentIntent: Stripe.PaymentIntent): Promise<void> {
+  private async handlePaymentFailed(paymentIntent: Stripe.PaymentIntent, eventId: string): Promise<void> {
     const transaction = await db.findOne<Transaction>('transactions', {
       stripe_payment_intent_id: paymentIntent.id,
     });
@@ -201,15 +351,17 @@ class WebhooksService {
     }
 
     // Update transaction status
-    await db.update<Transaction>('transactions', transaction.id, {
-      status: 'failed',
-      failed_at: new Date().toISOString(),
+    const changed = await this.applyTransition(transaction, 'failed', eventId, {
       failure_code: paymentIntent.last_payment_error?.code,
       failure_message: paymentIntent.last_payment_error?.message,
-    } as any);
+    });
+
+    if (!changed) {
+      return;
+    }
 
     // Send webhook to merchant
-    await this.sendMerchantWebhook(
+    await merchantWebhooksService.send(
       transaction.merchant_id,
       'payment.failed',
       {
@@ -225,12 +377,28 @@ class WebhooksService {
     );
 
     console.log('Payment failed:', transaction.id);
+
+    // Record the failure on the invoice this payment collects; subscription
+    // invoices also schedule a retry (or give up)
+    if (transaction.invoice_id) {
+      const invoice = await db.findById<Invoice>('invoices', transaction.invoice_id);
+      const failure = {
+        code: paymentIntent.last_payment_error?.code,
+        message: paymentIntent.last_payment_error?.message,
+      };
+
+      if (invoice?.subscription_id) {
+        await subscriptionsService.handleInvoicePaymentFailed(invoice, failure);
+      } else if (invoice) {
+        await invoicesService.recordPaymentError(invoice, failure);
+      }
+    }
   }
 
   /**
    * Handle canceled payment
    */
-  private async handlePaymentCanceled(paymentIntent: Stripe.PaymentIntent): Promise<void> {
+  private async handlePaymentCanceled(paymentIntent: Stripe.PaymentIntent, eventId: string): Promise<void> {
     const transaction = await db.findOne<Transaction>('transactions', {
       stripe_payment_intent_id: paymentIntent.id,
     });
@@ -240,16 +408,27 @@ class WebhooksService {
       return;
     }
 
+    // Stripe cancels uncaptured authorizations automatically once they expire
+    const authorizationExpired = ['requires_capture', 'in_review'].includes(transaction.status) &&
+      paymentIntent.cancellation_reason === 'automatic';
+
     // Update transaction status
-    await db.update<Transaction>('transactions', transaction.id, {
-      status: 'canceled',
-      canceled_at: new Date().toISOString(),
-    } as any);
+    const changed = await this.applyTransition(transaction, 'canceled', eventId, {
+      amount_capturable: 0,
+      ...(authorizationExpired && {
+        failure_code: 'authorization_expired',
+        failure_message: 'Authorization expired before it was captured',
+      }),
+    });
+
+    if (!changed) {
+      return;
+    }
 
     // Send webhook to merchant
-    await this.sendMerchantWebhook(
+    await merchantWebhooksService.send(
       transaction.merchant_id,
-      'payment.canceled',
+      authorizationExpired ? 'payment.authorization_expired' : 'payment.canceled',
       {
         transaction_id: transaction.id,
         amount: transaction.amount,
@@ -258,9 +437,129 @@ class WebhooksService {
       }
     );
 
+    if (transaction.split_amount) {
+      await splitsService.cancelSplits(transaction.id);
+    }
+
+    await reviewsService.closeForTransaction(
+      transaction.id,
+      authorizationExpired ? 'authorization_expired' : 'canceled'
+    );
+
     console.log('Payment canceled:', transaction.id);
   }
 
+  /**
+   * Handle authorization placed (manual capture payments)
+   */
+  private async handleAmountCapturableUpdated(
+    paymentIntent: Stripe.PaymentIntent,
+    eventId: string,
+    stripeAccount?: string
+  ): Promise<void> {
+    const transaction = await db.findOne<Transaction>('transactions', {
+      stripe_payment_intent_id: paymentIntent.id,
+    });
+
+    if (!transaction) {
+      console.error('Transaction not found for payment intent:', paymentIntent.id);
+      return;
+    }
+
+    const authorizationExpiresAt = await this.getAuthorizationExpiry(transaction, paymentIntent, stripeAccount);
+
+    // Payments flagged for review are held until the merchant decides
+    const held = !!transaction.review_reason;
+
+    const changed = await this.applyTransition(transaction, held ? 'in_review' : 'requires_capture', eventId, {
+      amount_capturable: paymentIntent.amount_capturable,
+      amount_authorized: paymentIntent.amount,
+      authorization_expires_at: authorizationExpiresAt,
+      stripe_charge_id: paymentIntent.latest_charge as string,
+      ...(held && { authorized_at: new Date().toISOString() }),
+    });
+
+    if (!changed) {
+      return;
+    }
+
+    if (held) {
+      await reviewsService.openReview({ ...transaction, authorization_expires_at: authorizationExpiresAt }, { held: true });
+      console.log('Payment held for review:', transaction.id);
+      return;
+    }
+
+    // Send webhook to merchant
+    await merchantWebhooksService.send(
+      transaction.merchant_id,
+      'payment.authorized',
+      {
+        transaction_id: transaction.id,
+        amount: paymentIntent.amount_capturable,
+        currency: transaction.currency,
+        payment_intent_id: paymentIntent.id,
+        authorization_expires_at: authorizationExpiresAt,
+      } as any
+    );
+
+    console.log('Payment authorized:', transaction.id, 'expires:', authorizationExpiresAt);
+  }
+
+  /**
+   * Determine when an uncaptured authorization expires
+   * Uses the card's capture_before when available, otherwise Stripe's default 7-day window
+   */
+  private async getAuthorizationExpiry(
+    transaction: Transaction,
+    paymentIntent: Stripe.PaymentIntent,
+    stripeAccount?: string
+  ): Promise<string> {
+    const defaultExpiry = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString();
+
+    if (!paymentIntent.latest_charge) {
+      return defaultExpiry;
+    }
+
+    try {
+      const charge = await getProcessor(transaction.processor).retrieveCharge(
+        paymentIntent.latest_charge as string,
+        { account: stripeAccount }
+      );
+      const captureBefore = (charge.payment_method_details?.card as any)?.capture_before;
+      return captureBefore ? new Date(captureBefore * 1000).toISOString() : defaultExpiry;
+    } catch (error) {
+      console.error('Failed to fetch charge for authorization expiry:', error);
+      return defaultExpiry;
+    }
+  }
+
+  /**
+   * Our payment method name for the method that completed a payment intent
+   */
+  private async getUsedPaymentMethod(
+    transaction: Transaction,
+    paymentIntent: Stripe.PaymentIntent,
+    stripeAccount?: string
+  ): Promise<string> {
+    if (paymentIntent.latest_charge) {
+      try {
+        const charge = await getProcessor(transaction.processor).retrieveCharge(
+          paymentIntent.latest_charge as string,
+          { account: stripeAccount }
+        );
+        const used = charge.payment_method_details?.type
+          && paymentMethodRouting.fromProcessorType(charge.payment_method_details.type);
+        if (used) {
+          return used;
+        }
+      } catch (error) {
+        console.error('Failed to fetch charge for payment method:', error);
+      }
+    }
+
+    return 'automatic';
+  }
+
   /**
    * Handle charge refunded
    */
@@ -275,19 +574,11 @@ class WebhooksService {
       return;
     }
 
-    // Debit Ledger for Refund
-    await ledgerService.addEntry(
-      transaction.merchant_id,
-      'debit',
-      charge.amount_refunded,
-      transaction.currency,
-      `Refund for ${charge.id}`,
-      'available',
-      { charge_id: charge.id }
-    );
+    // Each refund is posted to the ledger once, when it settles
+    await refundsService.syncChargeRefunds(charge);
 
     // Send webhook to merchant
-    await this.sendMerchantWebhook(
+    await merchantWebhooksService.send(
       transaction.merchant_id,
       'payment.refunded',
       {
@@ -353,69 +644,84 @@ class WebhooksService {
   }
 
   /**
-   * Send webhook to merchant
+   * Apply a webhook-driven status change through the transaction state machine
+   * Returns false when the event is a duplicate or arrived out of order
    */
-  private async sendMerchantWebhook(
-    merchantId: string,
-    eventType: string,
-    payload: WebhookPayload
-  ): Promise<void> {
-    const merchant = await db.findById<Merchant>('merchants', merchantId);
+  private async applyTransition(
+    transaction: Transaction,
+    to: TransactionStatus,
+    eventId: string,
+    fields: Record<string, any> = {}
+  ): Promise<boolean> {
+    try {
+      const { changed } = await transactionLifecycle.transition(transaction, to, {
+        source: 'webhook',
+        stripeEventId: eventId,
+        // next_action only applies while the customer still has to act
+        fields: { ...(to !== 'requires_action' && { next_action: null }), ...fields },
+      });
+      return changed;
+    } catch (error) {
+      if (error instanceof AppError && error.code === 'INVALID_STATUS_TRANSITION') {
+        console.warn(`Ignoring out-of-order event ${eventId} for transaction ${transaction.id}: ${error.message}`);
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Handle a payment method saved to a customer
+   */
+  private async handleSetupIntentSucceeded(setupIntent: Stripe.SetupIntent, stripeAccount?: string): Promise<void> {
+    const saved = await customersService.savePaymentMethodFromSetupIntent(setupIntent, stripeAccount);
 
-    if (!merchant || !merchant.webhook_url) {
-      console.log('No webhook URL configured for merchant:', merchantId);
+    if (!saved) {
+      console.log('Setup intent not created through the customers API:', setupIntent.id);
       return;
     }
 
-    // Create webhook record
-    const webhook = await db.insert<Webhook>('webhooks', {
-      merchant_id: merchantId,
-      event_type: eventType,
-      payload,
-      endpoint: merchant.webhook_url,
-      status: 'pending',
-    });
+    const { customer, paymentMethod } = saved;
 
-    // Send webhook (in production, this should be queued)
-    try {
-      const timestamp = Date.now();
-      const signaturePayload = `${timestamp}.${JSON.stringify(payload)}`;
-      const signature = crypto
-        .createHmac('sha256', merchant.webhook_secret || '')
-        .update(signaturePayload)
-        .digest('hex');
-
-      const response = await fetch(merchant.webhook_url, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'X-NeuraPay-Signature': signature,
-          'X-NeuraPay-Timestamp': timestamp.toString(),
-          'X-NeuraPay-Event': eventType,
-        },
-        body: JSON.stringify(payload),
-      });
-
-      const responseText = await response.text();
+    await merchantWebhooksService.send(
+      customer.merchant_id,
+      'customer.payment_method.attached',
+      {
+        customer_id: customer.id,
+        payment_method_id: paymentMethod.id,
+        type: paymentMethod.type,
+        card_brand: paymentMethod.card_brand,
+        card_last4: paymentMethod.card_last4,
+        setup_intent_id: setupIntent.id,
+      } as any
+    );
 
-      await db.update<Webhook>('webhooks', webhook.id, {
-        status: response.ok ? 'sent' : 'failed',
-        http_status_code: response.status,
-        response_body: responseText,
-        sent_at: new Date().toISOString(),
-      } as any);
+    console.log('Payment method saved:', paymentMethod.id);
+  }
 
-      console.log('Webhook sent to merchant:', merchantId, eventType, response.status);
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      console.error('Failed to send webhook:', errorMessage);
+  /**
+   * Handle a failed attempt to save a payment method
+   */
+  private async handleSetupIntentFailed(setupIntent: Stripe.SetupIntent): Promise<void> {
+    const merchantId = setupIntent.metadata?.merchant_id;
+    const customerId = setupIntent.metadata?.customer_id;
 
-      await db.update<Webhook>('webhooks', webhook.id, {
-        status: 'failed',
-        failed_at: new Date().toISOString(),
-        response_body: errorMessage,
-      } as any);
+    if (!merchantId || !customerId) {
+      return;
     }
+
+    await merchantWebhooksService.send(
+      merchantId,
+      'customer.setup_failed',
+      {
+        customer_id: customerId,
+        setup_intent_id: setupIntent.id,
+        error: {
+          code: setupIntent.last_setup_error?.code,
+          message: setupIntent.last_setup_error?.message,
+        },
+      } as any
+    );
   }
 
   /**
@@ -434,10 +740,10 @@ class WebhooksService {
       }
 
       // Create dispute record
-      await disputesService.createDisputeFromStripe(dispute, transaction.merchant_id);
+      await disputesService.createDisputeFromStripe(dispute, transaction.merchant_id, transaction.processor);
 
       // Send webhook to merchant
-      await this.sendMerchantWebhook(
+      await merchantWebhooksService.send(
         transaction.merchant_id,
         'dispute.created',
         {
@@ -473,7 +779,7 @@ class WebhooksService {
       }
 
       // Send webhook to merchant
-      await this.sendMerchantWebhook(
+      await merchantWebhooksService.send(
         localDispute.merchant_id,
         'dispute.updated',
         {
@@ -507,7 +813,7 @@ class WebhooksService {
       }
 
       // Send webhook to merchant
-      await this.sendMerchantWebhook(
+      await merchantWebhooksService.send(
         localDispute.merchant_id,
         'dispute.closed',
         {
@@ -526,6 +832,21 @@ class WebhooksService {
     }
   }
 
+  /**
+   * Disputes on sandbox payments move no ledger money (see isSandboxPayment)
+   */
+  private async isSandboxDispute(dispute: { processor?: string; transaction_id?: string }): Promise<boolean> {
+    if (dispute.processor === 'simulator') {
+      return true;
+    }
+
+    const transaction = dispute.transaction_id
+      ? await db.findById<Transaction>('transactions', dispute.transaction_id)
+      : null;
+
+    return isSandboxPayment(transaction);
+  }
+
   /**
    * Handle dispute funds withdrawn
    */
@@ -538,19 +859,29 @@ class WebhooksService {
         return;
       }
 
-      // Debit Ledger for Dispute
-      await ledgerService.addEntry(
-        localDispute.merchant_id,
-        'debit',
-        dispute.amount,
-        dispute.currency,
-        `Dispute funds withdrawn ${dispute.id}`,
-        'available',
-        { dispute_id: dispute.id }
-      );
+      if (!(await this.isSandboxDispute(localDispute))) {
+        // Debit Ledger for Dispute, from the reserve where the available balance falls short
+        const reserveUsed = await reservesService.coverFromReserve(localDispute.merchant_id, dispute.amount, dispute.currency);
+        await ledgerService.postJournal(localDispute.merchant_id, {
+          source: 'dispute',
+          description: `Dispute funds withdrawn ${dispute.id}`,
+          currency: dispute.currency,
+          postings: [
+            { account: 'merchant_available', amount: -(dispute.amount - reserveUsed) },
+            { account: 'merchant_reserve', amount: -reserveUsed },
+            { account: 'processor_clearing', amount: dispute.amount },
+          ],
+          metadata: {
+            dispute_id: dispute.id,
+            transaction_id: localDispute.transaction_id,
+            ...(reserveUsed > 0 && { reserve_used: reserveUsed }),
+          },
+          idempotency_key: `dispute_withdrawn_${dispute.id}`,
+        });
+      }
 
       // Send webhook to merchant
-      await this.sendMerchantWebhook(
+      await merchantWebhooksService.send(
         localDispute.merchant_id,
         'dispute.funds_withdrawn',
         {
@@ -579,19 +910,30 @@ class WebhooksService {
         return;
       }
 
-      // Credit Ledger for Reinstated Funds
-      await ledgerService.addEntry(
-        localDispute.merchant_id,
-        'credit',
-        dispute.amount,
-        dispute.currency,
-        `Dispute funds reinstated ${dispute.id}`,
-        'available',
-        { dispute_id: dispute.id }
-      );
+      if (!(await this.isSandboxDispute(localDispute))) {
+        // Credit Ledger for Reinstated Funds, returning to the reserve what it covered
+        const withdrawal = await ledgerService.findJournal(localDispute.merchant_id, `dispute_withdrawn_${dispute.id}`);
+        const reserveUsed = Math.min(withdrawal?.metadata?.reserve_used || 0, dispute.amount);
+        await ledgerService.postJournal(localDispute.merchant_id, {
+          source: 'dispute',
+          description: `Dispute funds reinstated ${dispute.id}`,
+          currency: dispute.currency,
+          postings: [
+            { account: 'processor_clearing', amount: -dispute.amount },
+            { account: 'merchant_available', amount: dispute.amount - reserveUsed },
+            { account: 'merchant_reserve', amount: reserveUsed },
+          ],
+          metadata: {
+            dispute_id: dispute.id,
+            transaction_id: localDispute.transaction_id,
+            ...(reserveUsed > 0 && { reserve_used: reserveUsed }),
+          },
+          idempotency_key: `dispute_reinstated_${dispute.id}`,
+        });
+      }
 
       // Send webhook to merchant
-      await this.sendMerchantWebhook(
+      await merchantWebhooksService.send(
         localDispute.merchant_id,
         'dispute.funds_reinstated',
         {
@@ -0,0 +1,113 @@
+import { FakeSupabase } from './fakeSupabase';
+
+const MERCHANT_STATUSES: Record<string, string> = {
+  merchant_available: 'available',
+  merchant_pending: 'pending',
+  merchant_reserve: 'reserve',
+};
+
+/**
+ * The double-entry ledger's database side on a FakeSupabase, as in
+ * database/add-double-entry-ledger.sql and add-ledger-history.sql:
+ * post_ledger_journal, ledger_account_balances and merchant_ledger_entries
+ */
+export function installFakeLedger(fake: FakeSupabase): void {
+  fake.unique('ledger_journals', ['merchant_id', 'idempotency_key']);
+
+  const accountId = (merchantId: string, type: string, currency: string): string => {
+    const owner = type === 'platform_fees' ? null : merchantId;
+    const existing = fake.rows('ledger_accounts')
+      .find((account) => account.merchant_id === owner && account.type === type && account.currency === currency);
+
+    return (existing || fake.insertRow('ledger_accounts', { merchant_id: owner, type, currency })).id;
+  };
+
+  fake.rpc('post_ledger_journal', (args) => {
+    const postings: { account: string; amount: number }[] = args.p_postings;
+    const total = postings.reduce((sum, posting) => sum + posting.amount, 0);
+
+    if (postings.length < 2 || total !== 0) {
+      throw new Error(`Ledger journal postings must sum to zero (got ${total})`);
+    }
+
+    const currency = args.p_currency.toUpperCase();
+    const existing = args.p_idempotency_key && fake.rows('ledger_journals').find((journal) =>
+      journal.merchant_id === args.p_merchant_id && journal.idempotency_key === args.p_idempotency_key
+    );
+
+    if (existing) {
+      return { journal_id: existing.id, duplicate: true };
+    }
+
+    const journal = fake.insertRow('ledger_journals', {
+      merchant_id: args.p_merchant_id,
+      source: args.p_source,
+      description: args.p_description,
+      currency,
+      amount: postings.reduce((sum, posting) => sum + Math.max(posting.amount, 0), 0),
+      metadata: args.p_metadata || {},
+      idempotency_key: args.p_idempotency_key,
+    });
+
+    for (const posting of postings) {
+      fake.insertRow('ledger_postings', {
+        journal_id: journal.id,
+        account_id: accountId(args.p_merchant_id, posting.account, currency),
+        amount: posting.amount,
+        created_at: journal.created_at,
+      });
+    }
+
+    return { journal_id: journal.id };
+  });
+
+  fake.view('ledger_account_balances', () => fake.rows('ledger_accounts').map((account) => ({
+    account_id: account.id,
+    merchant_id: account.merchant_id,
+    type: account.type,
+    currency: account.currency,
+    balance: fake.rows('ledger_postings')
+      .filter((posting) => posting.account_id === account.id)
+      .reduce((sum, posting) => sum + posting.amount, 0),
+  })));
+
+  fake.view('merchant_ledger_entries', () => {
+    const running = new Map<string, number>();
+
+    return fake.rows('ledger_postings').flatMap((posting) => {
+      const account = fake.rows('ledger_accounts').find((a) => a.id === posting.account_id);
+      if (!account || !MERCHANT_STATUSES[account.type]) {
+        return [];
+      }
+
+      const journal = fake.rows('ledger_journals').find((j) => j.id === posting.journal_id);
+      const balance = (running.get(account.id) || 0) + posting.amount;
+      running.set(account.id, balance);
+
+      return [{
+        id: posting.id,
+        journal_id: posting.journal_id,
+        merchant_id: account.merchant_id,
+        account: account.type,
+        status: MERCHANT_STATUSES[account.type],
+        type: posting.amount > 0 ? 'credit' : 'debit',
+        amount: Math.abs(posting.amount),
+        currency: account.currency,
+        running_balance: balance,
+        source: journal.source,
+        description: journal.description,
+        metadata: journal.metadata,
+        created_at: posting.created_at,
+      }];
+    });
+  });
+}
+
+/**
+ * A merchant's balance on one account, from the postings
+ */
+export function ledgerBalance(fake: FakeSupabase, merchantId: string | null, type: string, currency = 'USD'): number {
+  return fake.rows('ledger_account_balances')
+    .filter((account) => account.merchant_id === merchantId && account.type === type && account.currency === currency)
+    .reduce((sum, account) => sum + account.balance, 0);
+}
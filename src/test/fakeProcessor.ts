@@ -0,0 +1,84 @@
+import processorEvents from '../services/processors/events';
+
+type ProcessorMethod = (...args: any[]) => Promise<any>;
+
+interface ProcessorCall {
+  method: string;
+  args: any[];
+}
+
+let sequence = 0;
+
+const nextId = (prefix: string) => `${prefix}_test_${++sequence}`;
+
+const DEFAULTS: Record<string, ProcessorMethod> = {
+  createTransfer: async (params) => ({ id: nextId('tr'), object: 'transfer', ...params }),
+  createTransferReversal: async (transferId, params) => ({ id: nextId('trr'), object: 'transfer_reversal', transfer: transferId, ...params }),
+  createPayout: async (params) => ({
+    id: nextId('po'),
+    object: 'payout',
+    arrival_date: Math.floor(Date.now() / 1000) + 2 * 24 * 60 * 60,
+    ...params,
+  }),
+  capturePaymentIntent: async (id, params) => ({
+    id,
+    object: 'payment_intent',
+    status: 'succeeded',
+    amount_received: params.amount_to_capture,
+  }),
+  cancelPaymentIntent: async (id) => ({ id, object: 'payment_intent', status: 'canceled' }),
+  createRefund: async (params) => ({ id: nextId('re'), object: 'refund', status: 'pending', ...params }),
+  refundApplicationFee: async (chargeId, params) => ({ id: nextId('fr'), object: 'fee_refund', fee: `fee_${chargeId}`, ...params }),
+  updateAccount: async (id, params) => ({ id, object: 'account', ...params }),
+};
+
+/**
+ * Stand-in for the payment processors in service tests
+ * Every call is recorded; a test scripts responses or failures by replacing a
+ * method, and reset() restores the defaults.
+ */
+class FakeProcessor {
+  readonly name = 'stripe' as const;
+  readonly requiresConnectedAccount = true;
+
+  calls: ProcessorCall[] = [];
+
+  [method: string]: any;
+
+  constructor() {
+    this.reset();
+  }
+
+  reset(): void {
+    this.calls = [];
+
+    for (const [method, implementation] of Object.entries(DEFAULTS)) {
+      this.stub(method, implementation);
+    }
+  }
+
+  /**
+   * Replace a method, keeping the call recorded
+   */
+  stub(method: string, implementation: ProcessorMethod): void {
+    this[method] = (...args: any[]) => {
+      this.calls.push({ method, args });
+      return implementation(...args);
+    };
+  }
+
+  callsTo(method: string): any[][] {
+    return this.calls.filter((call) => call.method === method).map((call) => call.args);
+  }
+}
+
+export const fakeProcessor = new FakeProcessor();
+
+// Module shape of src/services/processors, every processor being the fake
+export const fakeProcessorsModule = {
+  stripeProcessor: fakeProcessor,
+  simulatorProcessor: fakeProcessor,
+  getProcessor: () => fakeProcessor,
+  getProcessorForEnvironment: () => fakeProcessor,
+  processorEvents,
+};
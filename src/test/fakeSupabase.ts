@@ -0,0 +1,344 @@
+import { randomUUID } from 'crypto';
+
+type Row = Record<string, any>;
+
+type Filter = (row: Row) => boolean;
+
+type RpcHandler = (args: Record<string, any>) => any;
+
+interface UniqueIndex {
+  columns: string[];
+  where?: Filter;
+}
+
+interface QueryResult {
+  data: any;
+  error: { code?: string; message: string } | null;
+  count?: number | null;
+}
+
+/**
+ * In-memory stand-in for the Supabase client, for service tests
+ * Tables are plain row arrays; the PostgREST filters the services use are
+ * applied in memory, views are computed from the tables on every read and RPCs
+ * are registered per test. Unique indexes fail inserts with 23505 like Postgres,
+ * and registered column defaults fill in what an insert leaves out.
+ */
+export class FakeSupabase {
+  tables: Record<string, Row[]> = {};
+
+  private views: Record<string, () => Row[]> = {};
+  private rpcs: Record<string, RpcHandler> = {};
+  private uniques: Record<string, UniqueIndex[]> = {};
+  private columnDefaults: Record<string, Row> = {};
+  private lastCreatedAt = 0;
+
+  readonly client: any = {
+    from: (table: string) => new FakeQuery(this, table),
+    rpc: async (name: string, args: Record<string, any> = {}): Promise<QueryResult> => {
+      const handler = this.rpcs[name];
+      if (!handler) {
+        return { data: null, error: { message: `function ${name} does not exist` } };
+      }
+
+      try {
+        return { data: handler(args), error: null };
+      } catch (error: any) {
+        return { data: null, error: { code: error.code, message: error.message } };
+      }
+    },
+  };
+
+  /**
+   * Empty every table (views, RPCs, unique indexes and defaults stay registered)
+   */
+  reset(): void {
+    this.tables = {};
+  }
+
+  rows(table: string): Row[] {
+    if (this.views[table]) {
+      return this.views[table]();
+    }
+
+    return (this.tables[table] ||= []);
+  }
+
+  seed(table: string, rows: Row[]): Row[] {
+    return rows.map((row) => this.insertRow(table, row));
+  }
+
+  view(name: string, compute: () => Row[]): void {
+    this.views[name] = compute;
+  }
+
+  rpc(name: string, handler: RpcHandler): void {
+    this.rpcs[name] = handler;
+  }
+
+  unique(table: string, columns: string[], where?: Filter): void {
+    (this.uniques[table] ||= []).push({ columns, where });
+  }
+
+  defaults(table: string, values: Row): void {
+    this.columnDefaults[table] = { ...this.columnDefaults[table], ...values };
+  }
+
+  insertRow(table: string, values: Row): Row {
+    const row: Row = { id: randomUUID(), created_at: this.createdAt(), ...this.columnDefaults[table], ...values };
+
+    for (const index of this.uniques[table] || []) {
+      if (index.where && !index.where(row)) {
+        continue;
+      }
+
+      const clash = this.rows(table).some((existing) =>
+        (!index.where || index.where(existing)) &&
+        index.columns.every((column) => row[column] != null && existing[column] === row[column])
+      );
+
+      if (clash) {
+        const error: any = new Error(`duplicate key value violates unique constraint on ${table}(${index.columns.join(', ')})`);
+        error.code = '23505';
+        throw error;
+      }
+    }
+
+    this.rows(table).push(row);
+    return row;
+  }
+
+  // Strictly increasing, so rows sort in insertion order like NOW() across transactions
+  private createdAt(): string {
+    this.lastCreatedAt = Math.max(Date.now(), this.lastCreatedAt + 1);
+    return new Date(this.lastCreatedAt).toISOString();
+  }
+}
+
+// 'metadata->>charge_id' reads a JSON field as text
+function read(row: Row, column: string): any {
+  const [field, ...path] = column.split(/->>?/);
+  let value = row[field];
+
+  for (const key of path) {
+    value = value == null ? undefined : value[key];
+  }
+
+  return path.length > 0 && value != null ? String(value) : value;
+}
+
+function compare(a: any, b: any): number {
+  if (typeof a === 'number' && typeof b === 'number') {
+    return a - b;
+  }
+
+  return String(a) < String(b) ? -1 : String(a) > String(b) ? 1 : 0;
+}
+
+function matchesLike(value: any, pattern: string, caseInsensitive: boolean): boolean {
+  if (value == null) {
+    return false;
+  }
+
+  const regex = pattern
+    .replace(/[.+?^${}()|[\]\\]/g, '\\$&')
+    .replace(/%/g, '.*')
+    .replace(/_/g, '.');
+
+  return new RegExp(`^${regex}$`, caseInsensitive ? 'i' : '').test(String(value));
+}
+
+const OPERATORS: Record<string, (value: any, operand: any) => boolean> = {
+  eq: (value, operand) => value != null && compare(value, operand) === 0,
+  neq: (value, operand) => value != null && compare(value, operand) !== 0,
+  gt: (value, operand) => value != null && compare(value, operand) > 0,
+  gte: (value, operand) => value != null && compare(value, operand) >= 0,
+  lt: (value, operand) => value != null && compare(value, operand) < 0,
+  lte: (value, operand) => value != null && compare(value, operand) <= 0,
+  in: (value, operand: any[]) => value != null && operand.some((item) => compare(value, item) === 0),
+  is: (value, operand) => (operand === null || operand === 'null' ? value == null : value === operand),
+  like: (value, operand) => matchesLike(value, operand, false),
+  ilike: (value, operand) => matchesLike(value, operand, true),
+};
+
+class FakeQuery implements PromiseLike<QueryResult> {
+  private action: 'select' | 'insert' | 'update' | 'delete' = 'select';
+  private values: Row | Row[] | null = null;
+  private filters: Filter[] = [];
+  private orders: { column: string; ascending: boolean }[] = [];
+  private from_: number | null = null;
+  private to: number | null = null;
+  private returning = false;
+  private expect: 'many' | 'single' | 'maybeSingle' = 'many';
+  private countRows = false;
+  private head = false;
+  private total = 0;
+
+  constructor(private db: FakeSupabase, private table: string) {}
+
+  select(_columns = '*', options: { count?: string; head?: boolean } = {}): this {
+    if (this.action === 'select') {
+      this.countRows = Boolean(options.count);
+      this.head = Boolean(options.head);
+    } else {
+      this.returning = true;
+    }
+
+    return this;
+  }
+
+  insert(values: Row | Row[]): this {
+    this.action = 'insert';
+    this.values = values;
+    return this;
+  }
+
+  update(values: Row): this {
+    this.action = 'update';
+    this.values = values;
+    return this;
+  }
+
+  delete(): this {
+    this.action = 'delete';
+    return this;
+  }
+
+  eq(column: string, value: any): this { return this.where(column, 'eq', value); }
+  neq(column: string, value: any): this { return this.where(column, 'neq', value); }
+  gt(column: string, value: any): this { return this.where(column, 'gt', value); }
+  gte(column: string, value: any): this { return this.where(column, 'gte', value); }
+  lt(column: string, value: any): this { return this.where(column, 'lt', value); }
+  lte(column: string, value: any): this { return this.where(column, 'lte', value); }
+  in(column: string, values: any[]): this { return this.where(column, 'in', values); }
+  is(column: string, value: any): this { return this.where(column, 'is', value); }
+  like(column: string, pattern: string): this { return this.where(column, 'like', pattern); }
+  ilike(column: string, pattern: string): this { return this.where(column, 'ilike', pattern); }
+
+  not(column: string, operator: string, value: any): this {
+    const test = OPERATORS[operator];
+    this.filters.push((row) => !test(read(row, column), value));
+    return this;
+  }
+
+  match(criteria: Row): this {
+    Object.entries(criteria).forEach(([column, value]) => this.eq(column, value));
+    return this;
+  }
+
+  order(column: string, options: { ascending?: boolean } = {}): this {
+    this.orders.push({ column, ascending: options.ascending !== false });
+    return this;
+  }
+
+  limit(count: number): this {
+    this.from_ = this.from_ ?? 0;
+    this.to = this.from_ + count - 1;
+    return this;
+  }
+
+  range(from: number, to: number): this {
+    this.from_ = from;
+    this.to = to;
+    return this;
+  }
+
+  single(): this {
+    this.expect = 'single';
+    return this;
+  }
+
+  maybeSingle(): this {
+    this.expect = 'maybeSingle';
+    return this;
+  }
+
+  then<TResult1 = QueryResult, TResult2 = never>(
+    onfulfilled?: ((value: QueryResult) => TResult1 | PromiseLike<TResult1>) | null,
+    onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | null
+  ): PromiseLike<TResult1 | TResult2> {
+    return Promise.resolve().then(() => this.execute()).then(onfulfilled, onrejected);
+  }
+
+  private where(column: string, operator: string, operand: any): this {
+    const test = OPERATORS[operator];
+    this.filters.push((row) => test(read(row, column), operand));
+    return this;
+  }
+
+  private matching(): Row[] {
+    return this.db.rows(this.table).filter((row) => this.filters.every((filter) => filter(row)));
+  }
+
+  private execute(): QueryResult {
+    let rows: Row[];
+
+    try {
+      rows = this.run();
+    } catch (error: any) {
+      return { data: null, error: { code: error.code, message: error.message } };
+    }
+
+    if (this.action !== 'select' && !this.returning) {
+      return { data: null, error: null };
+    }
+
+    if (this.expect === 'many') {
+      return { data: this.head ? null : rows, error: null, count: this.countRows ? this.total : null };
+    }
+
+    if (rows.length === 1) {
+      return { data: rows[0], error: null };
+    }
+
+    if (rows.length === 0 && this.expect === 'maybeSingle') {
+      return { data: null, error: null };
+    }
+
+    return {
+      data: null,
+      error: { code: 'PGRST116', message: `JSON object requested, multiple (or no) rows returned (${rows.length})` },
+    };
+  }
+
+  private run(): Row[] {
+    switch (this.action) {
+      case 'insert': {
+        const values = Array.isArray(this.values) ? this.values : [this.values];
+        return values.map((row) => ({ ...this.db.insertRow(this.table, row) }));
+      }
+      case 'update': {
+        const rows = this.matching();
+        rows.forEach((row) => Object.assign(row, this.values));
+        return rows.map((row) => ({ ...row }));
+      }
+      case 'delete': {
+        const rows = this.matching();
+        this.db.tables[this.table] = this.db.rows(this.table).filter((row) => !rows.includes(row));
+        return rows;
+      }
+      default: {
+        let rows = this.matching();
+
+        for (const { column, ascending } of [...this.orders].reverse()) {
+          rows = [...rows].sort((a, b) => {
+            const order = compare(read(a, column) ?? '', read(b, column) ?? '');
+            return ascending ? order : -order;
+          });
+        }
+
+        this.total = rows.length;
+
+        if (this.from_ !== null) {
+          rows = rows.slice(this.from_, (this.to ?? rows.length) + 1);
+        }
+
+        return rows.map((row) => ({ ...row }));
+      }
+    }
+  }
+}
+
+// Shared by every spec file: bun runs them in one process, and the database
+// service keeps the client it was created with
+export const fakeSupabase = new FakeSupabase();
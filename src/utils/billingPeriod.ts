@@ -0,0 +1,58 @@
+export type BillingInterval = 'day' | 'week' | 'month' | 'year';
+
+/**
+ * Advance a date by a number of billing intervals
+ * Monthly and yearly periods keep the anchor's day of month, clamped to the
+ * last day of shorter months (Jan 31 -> Feb 28 -> Mar 31).
+ * @param date - Start of the period
+ * @param interval - Plan interval
+ * @param count - Number of intervals
+ * @param anchorDay - Day of month the subscription bills on (defaults to date's day)
+ */
+export function addInterval(
+  date: Date,
+  interval: BillingInterval,
+  count: number = 1,
+  anchorDay: number = date.getUTCDate()
+): Date {
+  const result = new Date(date.getTime());
+
+  switch (interval) {
+    case 'day':
+      result.setUTCDate(result.getUTCDate() + count);
+      return result;
+
+    case 'week':
+      result.setUTCDate(result.getUTCDate() + count * 7);
+      return result;
+
+    case 'month':
+    case 'year': {
+      const months = interval === 'month' ? count : count * 12;
+      const target = new Date(Date.UTC(
+        date.getUTCFullYear(),
+        date.getUTCMonth() + months,
+        1,
+        date.getUTCHours(),
+        date.getUTCMinutes(),
+        date.getUTCSeconds()
+      ));
+      const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+      target.setUTCDate(Math.min(anchorDay, lastDay));
+      return target;
+    }
+  }
+}
+
+/**
+ * Share of a billing period remaining at a point in time (0..1)
+ */
+export function remainingPeriodFraction(periodStart: Date, periodEnd: Date, at: Date = new Date()): number {
+  const total = periodEnd.getTime() - periodStart.getTime();
+  if (total <= 0) {
+    return 0;
+  }
+
+  const remaining = periodEnd.getTime() - at.getTime();
+  return Math.min(Math.max(remaining / total, 0), 1);
+}
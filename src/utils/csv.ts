@@ -0,0 +1,96 @@
+/**
+ * Parse CSV text (RFC 4180: quoted fields, escaped quotes, CRLF or LF) into
+ * objects keyed by the header row. Blank lines are skipped.
+ */
+export function parseCsv(text: string): Array<Record<string, string>> {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  // Strip a UTF-8 byte order mark left by spreadsheet exports
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (inQuotes) {
+    throw new Error('Unterminated quoted field');
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  const nonEmpty = rows.filter((cells) => cells.some((cell) => cell.trim() !== ''));
+  if (nonEmpty.length === 0) {
+    return [];
+  }
+
+  const headers = nonEmpty[0].map((header) => header.trim().toLowerCase());
+
+  return nonEmpty.slice(1).map((cells) => {
+    const record: Record<string, string> = {};
+    headers.forEach((header, index) => {
+      const value = (cells[index] ?? '').trim();
+      if (header && value !== '') {
+        record[header] = value;
+      }
+    });
+    return record;
+  });
+}
+
+/**
+ * Serialize rows to CSV with the given columns, quoting where needed
+ */
+export function toCsv(columns: string[], rows: Array<Record<string, any>>): string {
+  const lines = [columns.join(',')];
+  for (const row of rows) {
+    lines.push(toCsvRow(columns, row));
+  }
+
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Serialize one row (no trailing newline), for writing CSV in chunks
+ */
+export function toCsvRow(columns: string[], row: Record<string, any>): string {
+  const escape = (value: any): string => {
+    if (value === null || value === undefined) return '';
+    const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+
+  return columns.map((column) => escape(row[column])).join(',');
+}
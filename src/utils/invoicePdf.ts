@@ -0,0 +1,228 @@
+import { formatAmount } from '../config/currencies.config';
+
+export interface InvoicePdfData {
+  merchant_name: string;
+  number: string | null;
+  status: string;
+  currency: string;
+  issued_at: string | null;
+  due_date: string | null;
+  customer_name: string | null;
+  customer_email: string | null;
+  description: string | null;
+  footer: string | null;
+  lines: Array<{ description: string; quantity: number; unit_amount: number | null; amount: number }>;
+  subtotal: number;
+  discounts: Array<{ description?: string | null; amount: number }>;
+  tax_lines: Array<{ display_name: string; percentage: number; amount: number }>;
+  total: number;
+  amount_paid: number;
+  amount_due: number;
+  hosted_invoice_url: string | null;
+}
+
+interface TextRun {
+  x: number;
+  y: number;
+  text: string;
+  size: number;
+  bold?: boolean;
+  align?: 'left' | 'right';
+}
+
+// US Letter, in points
+const PAGE_WIDTH = 612;
+const PAGE_HEIGHT = 792;
+const MARGIN = 50;
+const ROWS_PER_PAGE = 28;
+
+/**
+ * Render an invoice as a PDF document
+ * Text-only layout using the standard Helvetica fonts, so no font files or PDF
+ * library are needed.
+ */
+export function renderInvoicePdf(data: InvoicePdfData): Buffer {
+  const pages: TextRun[][] = [];
+  const right = PAGE_WIDTH - MARGIN;
+  const money = (amount: number) => formatAmount(amount, data.currency);
+
+  let page: TextRun[] = [];
+  let y = PAGE_HEIGHT - MARGIN - 20;
+
+  page.push({ x: MARGIN, y, text: data.merchant_name, size: 20, bold: true });
+  page.push({ x: right, y, text: 'INVOICE', size: 20, bold: true, align: 'right' });
+  y -= 40;
+
+  const details: Array<[string, string | null]> = [
+    ['Invoice number', data.number],
+    ['Date of issue', formatDate(data.issued_at)],
+    ['Date due', formatDate(data.due_date)],
+    ['Status', data.status.toUpperCase()],
+  ];
+  for (const [label, value] of details) {
+    if (!value) continue;
+    page.push({ x: MARGIN, y, text: label, size: 10, bold: true });
+    page.push({ x: MARGIN + 110, y, text: value, size: 10 });
+    y -= 15;
+  }
+
+  y -= 10;
+  page.push({ x: MARGIN, y, text: 'Bill to', size: 10, bold: true });
+  y -= 15;
+  for (const value of [data.customer_name, data.customer_email]) {
+    if (!value) continue;
+    page.push({ x: MARGIN, y, text: value, size: 10 });
+    y -= 15;
+  }
+
+  if (data.description) {
+    y -= 10;
+    page.push({ x: MARGIN, y, text: truncate(data.description, 95), size: 10 });
+    y -= 15;
+  }
+
+  y -= 20;
+  const tableHeader = (runs: TextRun[], top: number) => {
+    runs.push({ x: MARGIN, y: top, text: 'Description', size: 10, bold: true });
+    runs.push({ x: 360, y: top, text: 'Qty', size: 10, bold: true, align: 'right' });
+    runs.push({ x: 460, y: top, text: 'Unit price', size: 10, bold: true, align: 'right' });
+    runs.push({ x: right, y: top, text: 'Amount', size: 10, bold: true, align: 'right' });
+  };
+  tableHeader(page, y);
+  y -= 20;
+
+  data.lines.forEach((line, index) => {
+    if (index > 0 && index % ROWS_PER_PAGE === 0) {
+      pages.push(page);
+      page = [];
+      y = PAGE_HEIGHT - MARGIN - 20;
+      tableHeader(page, y);
+      y -= 20;
+    }
+
+    page.push({ x: MARGIN, y, text: truncate(line.description, 50), size: 10 });
+    page.push({ x: 360, y, text: String(line.quantity), size: 10, align: 'right' });
+    page.push({ x: 460, y, text: money(line.unit_amount ?? line.amount), size: 10, align: 'right' });
+    page.push({ x: right, y, text: money(line.amount), size: 10, align: 'right' });
+    y -= 15;
+  });
+
+  y -= 15;
+  const totals: Array<[string, number, boolean]> = [
+    ['Subtotal', data.subtotal, false],
+    ...data.discounts.map((discount): [string, number, boolean] => [
+      truncate(discount.description || 'Discount', 30),
+      -discount.amount,
+      false,
+    ]),
+    ...data.tax_lines.map((tax): [string, number, boolean] => [
+      truncate(`${tax.display_name} (${tax.percentage}%)`, 30),
+      tax.amount,
+      false,
+    ]),
+    ['Total', data.total, true],
+    ['Amount paid', data.amount_paid, false],
+    ['Amount due', data.amount_due, true],
+  ];
+
+  if (y - totals.length * 15 < MARGIN + 60) {
+    pages.push(page);
+    page = [];
+    y = PAGE_HEIGHT - MARGIN - 20;
+  }
+
+  for (const [label, amount, bold] of totals) {
+    page.push({ x: 360, y, text: label, size: 10, bold });
+    page.push({ x: right, y, text: money(amount), size: 10, bold, align: 'right' });
+    y -= 15;
+  }
+
+  y -= 20;
+  if (data.hosted_invoice_url && data.amount_due > 0 && data.status === 'open') {
+    page.push({ x: MARGIN, y, text: `Pay online: ${data.hosted_invoice_url}`, size: 9 });
+    y -= 15;
+  }
+
+  if (data.footer) {
+    page.push({ x: MARGIN, y, text: truncate(data.footer, 110), size: 9 });
+  }
+
+  pages.push(page);
+
+  return buildPdf(pages);
+}
+
+function formatDate(value: string | null): string | null {
+  if (!value) return null;
+  return new Date(value).toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric', timeZone: 'UTC' });
+}
+
+function truncate(text: string, max: number): string {
+  return text.length > max ? `${text.slice(0, max - 3)}...` : text;
+}
+
+/**
+ * Approximate Helvetica advance width, used to right-align amounts
+ */
+function textWidth(text: string, size: number, bold?: boolean): number {
+  let units = 0;
+  for (const char of text) {
+    if (/[0-9]/.test(char)) units += 556;
+    else if (/[ .,:]/.test(char)) units += 278;
+    else if (/[A-Z]/.test(char)) units += bold ? 722 : 667;
+    else units += bold ? 556 : 500;
+  }
+  return (units / 1000) * size;
+}
+
+/**
+ * PDF string literal in WinAnsi; characters outside Latin-1 become '?'
+ */
+function pdfString(text: string): string {
+  const latin1 = text.replace(/[^\x20-\xff]/g, '?');
+  return `(${latin1.replace(/([\\()])/g, '\\$1')})`;
+}
+
+function buildPdf(pages: TextRun[][]): Buffer {
+  const objects: string[] = [];
+  const pageRefs: number[] = [];
+
+  // 1: catalog, 2: page tree, 3-4: fonts, then a page and content stream per page
+  objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+  objects[3] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>';
+  objects[4] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>';
+
+  pages.forEach((runs, index) => {
+    const pageId = 5 + index * 2;
+    const contentId = pageId + 1;
+
+    const stream = runs.map((run) => {
+      const x = run.align === 'right' ? run.x - textWidth(run.text, run.size, run.bold) : run.x;
+      return `BT /${run.bold ? 'F2' : 'F1'} ${run.size} Tf ${x.toFixed(2)} ${run.y.toFixed(2)} Td ${pdfString(run.text)} Tj ET`;
+    }).join('\n');
+
+    objects[pageId] = `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+      `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${contentId} 0 R >>`;
+    objects[contentId] = `<< /Length ${Buffer.byteLength(stream, 'latin1')} >>\nstream\n${stream}\nendstream`;
+    pageRefs.push(pageId);
+  });
+
+  objects[2] = `<< /Type /Pages /Kids [${pageRefs.map((id) => `${id} 0 R`).join(' ')}] /Count ${pageRefs.length} >>`;
+
+  let body = '%PDF-1.4\n';
+  const offsets: number[] = [];
+
+  for (let id = 1; id < objects.length; id++) {
+    offsets[id] = Buffer.byteLength(body, 'latin1');
+    body += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+  }
+
+  const xrefOffset = Buffer.byteLength(body, 'latin1');
+  body += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+  for (let id = 1; id < objects.length; id++) {
+    body += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`;
+  }
+  body += `trailer\n<< /Size ${objects.length} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Buffer.from(body, 'latin1');
+}